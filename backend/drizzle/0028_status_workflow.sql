@@ -0,0 +1 @@
+ALTER TABLE `organizations` ADD `status_workflow` text;
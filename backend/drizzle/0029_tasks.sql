@@ -0,0 +1,24 @@
+CREATE TABLE `tasks` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `property_id` text,
+  `assignee_user_id` text,
+  `title` text NOT NULL,
+  `description` text,
+  `status` text NOT NULL DEFAULT 'TODO',
+  `due_at` integer,
+  `completed_at` integer,
+  `source` text NOT NULL DEFAULT 'MANUAL',
+  `template_key` text,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`assignee_user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `tasks_org_status_due_at_idx` ON `tasks` (`org_id`,`status`,`due_at`);
+--> statement-breakpoint
+CREATE INDEX `tasks_org_property_idx` ON `tasks` (`org_id`,`property_id`);
+--> statement-breakpoint
+CREATE INDEX `tasks_org_assignee_idx` ON `tasks` (`org_id`,`assignee_user_id`);
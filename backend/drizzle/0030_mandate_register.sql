@@ -0,0 +1,20 @@
+ALTER TABLE `organizations` ADD `mandate_register_seq` integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+CREATE TABLE `mandate_register_entries` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `property_id` text NOT NULL,
+  `register_number` integer NOT NULL,
+  `mandate_type` text,
+  `start_date` text,
+  `end_date` text,
+  `mandator_names` text,
+  `property_address` text NOT NULL,
+  `created_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `mandate_register_entries_org_number_unique` ON `mandate_register_entries` (`org_id`,`register_number`);
+--> statement-breakpoint
+CREATE INDEX `mandate_register_entries_org_property_idx` ON `mandate_register_entries` (`org_id`,`property_id`);
@@ -0,0 +1,25 @@
+CREATE TABLE `offers` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `property_id` text NOT NULL,
+  `buyer_user_id` text NOT NULL,
+  `parent_offer_id` text,
+  `issued_by` text NOT NULL DEFAULT 'ACHETEUR',
+  `amount` integer NOT NULL,
+  `financing_type` text NOT NULL,
+  `conditions_suspensives` text NOT NULL DEFAULT '[]',
+  `valid_until` integer,
+  `note` text,
+  `status` text NOT NULL DEFAULT 'SUBMITTED',
+  `signed_file_id` text,
+  `decided_at` integer,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`buyer_user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `offers_org_property_idx` ON `offers` (`org_id`,`property_id`);
+--> statement-breakpoint
+CREATE INDEX `offers_org_parent_idx` ON `offers` (`org_id`,`parent_offer_id`);
@@ -0,0 +1,21 @@
+CREATE TABLE `property_commissions` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `property_id` text NOT NULL,
+  `fees_amount` integer NOT NULL,
+  `listing_agent_user_id` text,
+  `listing_agent_amount` integer NOT NULL DEFAULT 0,
+  `selling_agent_user_id` text,
+  `selling_agent_amount` integer NOT NULL DEFAULT 0,
+  `agency_amount` integer NOT NULL DEFAULT 0,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`listing_agent_user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`selling_agent_user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `property_commissions_property_unique` ON `property_commissions` (`property_id`);
+--> statement-breakpoint
+CREATE INDEX `property_commissions_org_idx` ON `property_commissions` (`org_id`);
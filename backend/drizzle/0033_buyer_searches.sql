@@ -0,0 +1,42 @@
+CREATE TABLE `buyer_searches` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `user_id` text NOT NULL,
+  `budget_min` integer,
+  `budget_max` integer,
+  `cities` text DEFAULT '[]' NOT NULL,
+  `postal_codes` text DEFAULT '[]' NOT NULL,
+  `radius_km` real,
+  `center_lat` real,
+  `center_lng` real,
+  `property_type` text,
+  `min_rooms` integer,
+  `min_living_area` real,
+  `required_amenities` text DEFAULT '[]' NOT NULL,
+  `max_dpe_class` text,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `buyer_searches_user_unique` ON `buyer_searches` (`user_id`);
+--> statement-breakpoint
+CREATE INDEX `buyer_searches_org_idx` ON `buyer_searches` (`org_id`);
+--> statement-breakpoint
+CREATE TABLE `property_buyer_matches` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `property_id` text NOT NULL,
+  `user_id` text NOT NULL,
+  `score` integer NOT NULL,
+  `criteria` text DEFAULT '[]' NOT NULL,
+  `created_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `property_buyer_matches_property_user_unique` ON `property_buyer_matches` (`property_id`,`user_id`);
+--> statement-breakpoint
+CREATE INDEX `property_buyer_matches_user_idx` ON `property_buyer_matches` (`user_id`);
@@ -0,0 +1,16 @@
+ALTER TABLE `messages` ADD `direction` text DEFAULT 'INBOUND' NOT NULL;
+--> statement-breakpoint
+CREATE TABLE `property_buyer_alerts` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `property_id` text NOT NULL,
+  `user_id` text NOT NULL,
+  `message_id` text,
+  `created_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`message_id`) REFERENCES `messages`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `property_buyer_alerts_property_user_unique` ON `property_buyer_alerts` (`property_id`,`user_id`);
@@ -0,0 +1,11 @@
+ALTER TABLE `messages` ADD `from_address` text;
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `to_addresses` text DEFAULT '[]' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `cc_addresses` text DEFAULT '[]' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `message_id_header` text;
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `in_reply_to` text;
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `references` text DEFAULT '[]' NOT NULL;
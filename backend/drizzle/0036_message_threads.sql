@@ -0,0 +1,44 @@
+CREATE TABLE `message_threads` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `channel` text NOT NULL,
+  `thread_key` text NOT NULL,
+  `property_id` text,
+  `subject` text,
+  `participants` text DEFAULT '[]' NOT NULL,
+  `message_count` integer DEFAULT 0 NOT NULL,
+  `summary` text,
+  `summary_updated_at` integer,
+  `last_activity_at` integer NOT NULL,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `message_threads_org_key_unique` ON `message_threads` (`org_id`,`thread_key`);
+--> statement-breakpoint
+CREATE INDEX `message_threads_org_activity_idx` ON `message_threads` (`org_id`,`last_activity_at`);
+--> statement-breakpoint
+CREATE TABLE `message_thread_users` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `thread_id` text NOT NULL,
+  `user_id` text NOT NULL,
+  `created_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`thread_id`) REFERENCES `message_threads`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `message_thread_users_thread_user_unique` ON `message_thread_users` (`thread_id`,`user_id`);
+--> statement-breakpoint
+ALTER TABLE `messages` ADD `thread_id` text REFERENCES message_threads(id);
+--> statement-breakpoint
+INSERT INTO `message_threads` (`id`, `org_id`, `channel`, `thread_key`, `property_id`, `subject`, `participants`, `message_count`, `last_activity_at`, `created_at`, `updated_at`)
+SELECT 'thread_' || `id`, `org_id`, `channel`, 'message:' || `id`, `property_id`, `subject`,
+  CASE WHEN `from_address` IS NULL THEN '[]' ELSE json_array(`from_address`) END,
+  1, `received_at`, `created_at`, `updated_at`
+FROM `messages`;
+--> statement-breakpoint
+UPDATE `messages` SET `thread_id` = 'thread_' || `id`;
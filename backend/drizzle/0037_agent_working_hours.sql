@@ -0,0 +1,18 @@
+CREATE TABLE `agent_working_hours` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `user_id` text NOT NULL,
+  `weekday` integer NOT NULL,
+  `start_minute` integer NOT NULL,
+  `end_minute` integer NOT NULL,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `agent_working_hours_org_user_idx` ON `agent_working_hours` (`org_id`,`user_id`);
+--> statement-breakpoint
+ALTER TABLE `property_visits` ADD `agent_user_id` text REFERENCES users(id);
+--> statement-breakpoint
+CREATE INDEX `property_visits_org_agent_starts_at_idx` ON `property_visits` (`org_id`,`agent_user_id`,`starts_at`);
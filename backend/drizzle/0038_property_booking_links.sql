@@ -0,0 +1,16 @@
+CREATE TABLE `property_booking_links` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `property_id` text NOT NULL,
+  `token` text NOT NULL,
+  `enabled` integer NOT NULL,
+  `requires_confirmation` integer NOT NULL,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `property_booking_links_token_unique` ON `property_booking_links` (`token`);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `property_booking_links_property_unique` ON `property_booking_links` (`property_id`);
@@ -0,0 +1,3 @@
+ALTER TABLE `property_visits` ADD `bon_de_visite_signed_at` integer;
+--> statement-breakpoint
+ALTER TABLE `property_visits` ADD `bon_de_visite_sha256` text;
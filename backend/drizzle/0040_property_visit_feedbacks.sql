@@ -0,0 +1,23 @@
+CREATE TABLE `property_visit_feedbacks` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `visit_id` text NOT NULL,
+  `property_id` text NOT NULL,
+  `interest_level` text,
+  `perceived_price` text,
+  `positives` text DEFAULT '[]' NOT NULL,
+  `negatives` text DEFAULT '[]' NOT NULL,
+  `offer_intention` text,
+  `source` text NOT NULL,
+  `vocal_id` text,
+  `confidence` real,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`visit_id`) REFERENCES `property_visits`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`property_id`) REFERENCES `properties`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `property_visit_feedbacks_visit_unique` ON `property_visit_feedbacks` (`visit_id`);
+--> statement-breakpoint
+CREATE INDEX `property_visit_feedbacks_org_property_idx` ON `property_visit_feedbacks` (`org_id`,`property_id`);
@@ -0,0 +1 @@
+ALTER TABLE `vocals` ADD `prospect_user_id` text REFERENCES users(id);
@@ -0,0 +1,23 @@
+ALTER TABLE `vocals` ADD `segments` text;
+--> statement-breakpoint
+CREATE TABLE `vocal_transcription_chunks` (
+  `id` text PRIMARY KEY NOT NULL,
+  `org_id` text NOT NULL,
+  `vocal_id` text NOT NULL,
+  `chunk_index` integer NOT NULL,
+  `start_ms` integer NOT NULL,
+  `end_ms` integer,
+  `status` text NOT NULL,
+  `transcript` text,
+  `summary` text,
+  `confidence` real,
+  `segments` text,
+  `created_at` integer NOT NULL,
+  `updated_at` integer NOT NULL,
+  FOREIGN KEY (`org_id`) REFERENCES `organizations`(`id`) ON UPDATE no action ON DELETE no action,
+  FOREIGN KEY (`vocal_id`) REFERENCES `vocals`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `vocal_transcription_chunks_vocal_chunk_unique` ON `vocal_transcription_chunks` (`vocal_id`,`chunk_index`);
+--> statement-breakpoint
+CREATE INDEX `vocal_transcription_chunks_org_vocal_idx` ON `vocal_transcription_chunks` (`org_id`,`vocal_id`);
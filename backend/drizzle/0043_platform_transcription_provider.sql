@@ -0,0 +1 @@
+ALTER TABLE `platform_settings` ADD `transcription_provider` text DEFAULT 'ai-provider' NOT NULL;
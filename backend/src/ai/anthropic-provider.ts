@@ -1,5 +1,5 @@
 import { createAnthropic } from "@ai-sdk/anthropic";
-import { generateText } from "ai";
+import { generateText, jsonSchema, Output } from "ai";
 import { MockAIProvider } from "./mock-provider";
 import { clampPriceUsd, estimatePriceUsdFromUsage } from "./pricing";
 import type {
@@ -9,14 +9,20 @@ import type {
   ClassifyFileResult,
   DetectVocalTypeInput,
   DetectVocalTypeResult,
+  DraftMessageReplyInput,
+  DraftMessageReplyResult,
   ExtractInitialVisitPropertyParamsInput,
   ExtractInitialVisitPropertyParamsResult,
+  ExtractVisitFeedbackInput,
+  ExtractVisitFeedbackResult,
   ExtractVocalInsightsInput,
   ExtractVocalInsightsResult,
   MatchMessageToPropertyInput,
   MatchMessageToPropertyResult,
   PropertyValuationInput,
   PropertyValuationResult,
+  SummarizeMessageThreadInput,
+  SummarizeMessageThreadResult,
   TranscribeVocalInput,
   TranscribeVocalResult,
   VocalType,
@@ -93,6 +99,14 @@ const sanitizeOptionalString = (value: unknown): string | null => {
   return trimmed ? trimmed : null;
 };
 
+const sanitizeEnumValue = <T extends string>(value: unknown, allowed: readonly T[]): T | null =>
+  typeof value === "string" && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+
+const sanitizeStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(sanitizeOptionalString).filter((item): item is string => item !== null)
+    : [];
+
 type AnthropicProviderOptions = {
   apiKey: string;
   baseUrl?: string;
@@ -129,14 +143,20 @@ export class AnthropicProvider implements AIProvider {
   async extractVocalInsights(
     input: ExtractVocalInsightsInput,
   ): Promise<ExtractVocalInsightsResult> {
-    const generated = await this.requestJsonText([
-      "Tu extrais des insights métier immobilier à partir d'une transcription d'appel vocal.",
-      "Réponds uniquement en JSON: {\"insights\":object,\"confidence\":number}.",
-      "confidence est entre 0 et 1.",
-      "",
-      `Transcript: ${input.transcript}`,
-      `Summary: ${input.summary ?? ""}`,
-    ]);
+    const generated = await this.requestJsonText(
+      [
+        "Tu extrais des insights métier immobilier à partir d'une transcription d'appel vocal.",
+        "Réponds uniquement en JSON: {\"insights\":object,\"confidence\":number}.",
+        ...(input.responseSchema
+          ? ["Les champs de insights sont imposés par le schéma: mets null quand l'information n'est pas dans le vocal."]
+          : []),
+        "confidence est entre 0 et 1.",
+        "",
+        `Transcript: ${input.transcript}`,
+        `Summary: ${input.summary ?? ""}`,
+      ],
+      input.responseSchema,
+    );
 
     const parsed = extractJsonObject(generated.text);
     if (!parsed) {
@@ -236,6 +256,42 @@ export class AnthropicProvider implements AIProvider {
     };
   }
 
+  async extractVisitFeedback(input: ExtractVisitFeedbackInput): Promise<ExtractVisitFeedbackResult> {
+    const generated = await this.requestJsonText([
+      "Tu extrais le retour d'un visiteur depuis le compte rendu vocal d'une visite immobilière.",
+      "Réponds uniquement en JSON:",
+      "{\"interestLevel\":\"LOW|MEDIUM|HIGH\"|null,\"perceivedPrice\":\"TOO_HIGH|FAIR|LOW\"|null,\"positives\":string[],\"negatives\":string[],\"offerIntention\":\"YES|MAYBE|NO\"|null,\"confidence\":number}.",
+      "positives et negatives: points courts (quelques mots) cités par le visiteur.",
+      "Ne pas inventer, utiliser null ou une liste vide si absent.",
+      "",
+      `Transcript: ${input.transcript}`,
+      `Summary: ${input.summary ?? ""}`,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        interestLevel: null,
+        perceivedPrice: null,
+        positives: [],
+        negatives: [],
+        offerIntention: null,
+        confidence: 0.2,
+        telemetry: generated.telemetry,
+      };
+    }
+
+    return {
+      interestLevel: sanitizeEnumValue(parsed.interestLevel, ["LOW", "MEDIUM", "HIGH"] as const),
+      perceivedPrice: sanitizeEnumValue(parsed.perceivedPrice, ["TOO_HIGH", "FAIR", "LOW"] as const),
+      positives: sanitizeStringList(parsed.positives),
+      negatives: sanitizeStringList(parsed.negatives),
+      offerIntention: sanitizeEnumValue(parsed.offerIntention, ["YES", "MAYBE", "NO"] as const),
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      telemetry: generated.telemetry,
+    };
+  }
+
   async computePropertyValuation(input: PropertyValuationInput): Promise<PropertyValuationResult> {
     try {
       const generated = await this.requestJsonText([
@@ -279,7 +335,93 @@ export class AnthropicProvider implements AIProvider {
     }
   }
 
-  private async requestJsonText(promptLines: string[]): Promise<{
+  async summarizeMessageThread(
+    input: SummarizeMessageThreadInput,
+  ): Promise<SummarizeMessageThreadResult> {
+    try {
+      const generated = await this.requestJsonText([
+        "Tu résumes une conversation entre une agence immobilière et ses contacts.",
+        "Indique en 2 à 4 phrases l'objet de l'échange, les demandes en attente et la prochaine action.",
+        "Réponds uniquement en JSON: {\"summary\":string}.",
+        "",
+        `Objet: ${input.subject ?? ""}`,
+        ...input.messages.map(
+          (message) =>
+            `[${message.sentAt}] ${message.direction === "OUTBOUND" ? "Agence" : (message.sender ?? "Contact")}: ${message.body}`,
+        ),
+      ]);
+
+      const parsed = extractJsonObject(generated.text);
+      const summary = sanitizeOptionalString(parsed?.summary);
+      if (!summary) {
+        const fallback = await this.fallbackProvider.summarizeMessageThread(input);
+        return {
+          ...fallback,
+          telemetry: generated.telemetry,
+        };
+      }
+
+      return {
+        summary,
+        telemetry: generated.telemetry,
+      };
+    } catch {
+      return this.fallbackProvider.summarizeMessageThread(input);
+    }
+  }
+
+  async draftMessageReply(input: DraftMessageReplyInput): Promise<DraftMessageReplyResult> {
+    try {
+      const { property } = input;
+      const generated = await this.requestJsonText([
+        input.tone,
+        "Rédige la réponse de l'agence au dernier message du contact, prête à être relue puis envoyée.",
+        "Appuie-toi uniquement sur les informations du bien et les créneaux fournis; n'invente ni prix ni disponibilité.",
+        input.channel === "WHATSAPP" || input.channel === "TELEGRAM"
+          ? "Canal messagerie instantanée: réponse courte, sans formule d'email."
+          : "Canal email: formule d'appel et de politesse attendues.",
+        "Réponds uniquement en JSON: {\"body\":string}.",
+        "",
+        `Destinataire: ${input.recipientName ?? ""}`,
+        `Bien: ${property.title} (${property.postalCode} ${property.city})`,
+        `Type: ${property.propertyType ?? ""}`,
+        `Prix: ${property.price ?? ""}`,
+        `Surface habitable: ${property.livingArea ?? ""}`,
+        `Pièces: ${property.rooms ?? ""}`,
+        `DPE: ${property.dpeClass ?? ""}`,
+        `Disponibilité: ${property.availability ?? ""}`,
+        `Créneaux de visite libres: ${input.visitSlots.map((slot) => slot.startsAt).join(", ")}`,
+        "",
+        "Conversation:",
+        ...input.messages.map(
+          (message) =>
+            `[${message.sentAt}] ${message.direction === "OUTBOUND" ? "Agence" : (message.sender ?? "Contact")}: ${message.body}`,
+        ),
+      ]);
+
+      const parsed = extractJsonObject(generated.text);
+      const body = sanitizeOptionalString(parsed?.body);
+      if (!body) {
+        const fallback = await this.fallbackProvider.draftMessageReply(input);
+        return {
+          ...fallback,
+          telemetry: generated.telemetry,
+        };
+      }
+
+      return {
+        body,
+        telemetry: generated.telemetry,
+      };
+    } catch {
+      return this.fallbackProvider.draftMessageReply(input);
+    }
+  }
+
+  private async requestJsonText(
+    promptLines: string[],
+    responseSchema?: ExtractVocalInsightsInput["responseSchema"],
+  ): Promise<{
     text: string;
     telemetry: AICallTelemetry;
   }> {
@@ -289,6 +431,9 @@ export class AnthropicProvider implements AIProvider {
       const result = await generateText({
         model: this.anthropic(this.model),
         prompt,
+        ...(responseSchema
+          ? { output: Output.object({ schema: jsonSchema(responseSchema.schema), name: responseSchema.name }) }
+          : {}),
       });
       const responseText = result.text.trim();
       const usage = result.usage;
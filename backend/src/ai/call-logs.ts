@@ -13,7 +13,10 @@ export const AI_CALL_USE_CASES = [
   "VOCAL_TYPE_DETECTION",
   "VOCAL_INITIAL_VISIT_EXTRACTION",
   "VOCAL_INSIGHTS_EXTRACTION",
+  "VISIT_FEEDBACK_EXTRACTION",
   "PROPERTY_VALUATION",
+  "MESSAGE_THREAD_SUMMARY",
+  "MESSAGE_REPLY_DRAFT",
   "ASSISTANT_CHAT",
   "ASSISTANT_WEB_SEARCH",
 ] as const;
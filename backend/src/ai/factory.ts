@@ -1,19 +1,27 @@
 import {
   getGlobalProviderSettings,
   normalizeGlobalAIProvider,
+  normalizeGlobalTranscriptionProvider,
+  type GlobalTranscriptionProvider,
 } from "../config/provider-settings";
 import { AnthropicProvider } from "./anthropic-provider";
+import { AI_CALL_USE_CASES, type AICallUseCase } from "./call-logs";
+import { LocalLLMProvider } from "./local-llm-provider";
+import { LocalWhisperProvider } from "./local-whisper-provider";
 import { MockAIProvider } from "./mock-provider";
 import { OpenAIProvider } from "./openai-provider";
-import type { AIProvider } from "./provider";
+import type { AIProvider, TranscriptionProvider } from "./provider";
 
 type EnvLike = Record<string, string | undefined>;
 
-export type AIProviderKind = "mock" | "openai" | "anthropic";
-export type AppAIProvider = "openai" | "anthropic";
+export type AIProviderKind = "mock" | "openai" | "anthropic" | "local";
+export type AppAIProvider = "openai" | "anthropic" | "local";
+export type TranscriptionProviderKind = GlobalTranscriptionProvider;
 
 const DEFAULT_ANTHROPIC_MODEL = "claude-3-7-sonnet-20250219";
 const DEFAULT_OPENAI_MODEL = "gpt-5.2";
+const DEFAULT_LOCAL_LLM_MODEL = "llama3.1";
+const DEFAULT_LOCAL_WHISPER_LANGUAGE = "fr";
 
 const normalizeExplicitProvider = (env: EnvLike): AIProviderKind | null => {
   const explicitRaw = env.AI_ENGINE ?? env.AI_PROVIDER;
@@ -28,6 +36,9 @@ const normalizeExplicitProvider = (env: EnvLike): AIProviderKind | null => {
   if (explicit === "anthropic") {
     return "anthropic";
   }
+  if (explicit === "local" || explicit === "ollama") {
+    return "local";
+  }
 
   return null;
 };
@@ -72,6 +83,34 @@ const createAnthropicProvider = (env: EnvLike): AIProvider => {
   });
 };
 
+const createLocalWhisperProvider = (env: EnvLike): TranscriptionProvider =>
+  new LocalWhisperProvider({
+    baseUrl: env.LOCAL_WHISPER_BASE_URL,
+    model: env.LOCAL_WHISPER_MODEL,
+    apiKey: env.LOCAL_WHISPER_API_KEY,
+    language: env.LOCAL_WHISPER_LANGUAGE ?? DEFAULT_LOCAL_WHISPER_LANGUAGE,
+  });
+
+// LOCAL_LLM_MODEL_<USE_CASE> (ex: LOCAL_LLM_MODEL_PROPERTY_VALUATION) surcharge LOCAL_LLM_MODEL par cas d'usage.
+const createLocalLLMProvider = (env: EnvLike): AIProvider => {
+  const modelsByUseCase: Partial<Record<AICallUseCase, string>> = {};
+  for (const useCase of AI_CALL_USE_CASES) {
+    const model = env[`LOCAL_LLM_MODEL_${useCase}`]?.trim();
+    if (model) {
+      modelsByUseCase[useCase] = model;
+    }
+  }
+
+  return new LocalLLMProvider({
+    baseUrl: env.LOCAL_LLM_BASE_URL,
+    apiKey: env.LOCAL_LLM_API_KEY,
+    model: env.LOCAL_LLM_MODEL?.trim() || DEFAULT_LOCAL_LLM_MODEL,
+    modelsByUseCase,
+    // Les données restent sur site: la transcription passe par le serveur Whisper local.
+    transcriber: createLocalWhisperProvider(env),
+  });
+};
+
 export const createAIProviderForKind = (
   kind: AIProviderKind,
   env: EnvLike = process.env,
@@ -84,6 +123,10 @@ export const createAIProviderForKind = (
     return createAnthropicProvider(env);
   }
 
+  if (kind === "local") {
+    return createLocalLLMProvider(env);
+  }
+
   return new MockAIProvider();
 };
 
@@ -118,10 +161,42 @@ export const resolveAIProviderKindForOrg = async (
   }
 
   const settings = await getGlobalProviderSettings();
-  return settings.aiProvider === "anthropic" ? "anthropic" : "openai";
+  return settings.aiProvider;
 };
 
 export const getAIProviderForOrg = async (orgId: string): Promise<AIProvider> => {
   const kind = await resolveAIProviderKindForOrg(orgId, process.env);
   return getAIProviderForKind(kind, process.env);
 };
+
+// TRANSCRIPTION_PROVIDER force le choix; AI_PROVIDER=mock garde la transcription sur le mock.
+export const resolveTranscriptionProviderKindForOrg = async (
+  _orgId: string,
+  env: EnvLike = process.env,
+): Promise<TranscriptionProviderKind> => {
+  const explicit = env.TRANSCRIPTION_PROVIDER?.trim();
+  if (explicit) {
+    return normalizeGlobalTranscriptionProvider(explicit);
+  }
+
+  if (normalizeExplicitProvider(env) === "mock") {
+    return "ai-provider";
+  }
+
+  const settings = await getGlobalProviderSettings();
+  return settings.transcriptionProvider;
+};
+
+let localWhisperProvider: TranscriptionProvider | null = null;
+
+export const getTranscriptionProviderForOrg = async (
+  orgId: string,
+): Promise<TranscriptionProvider> => {
+  const kind = await resolveTranscriptionProviderKindForOrg(orgId, process.env);
+  if (kind === "ai-provider") {
+    return getAIProviderForOrg(orgId);
+  }
+
+  localWhisperProvider ??= createLocalWhisperProvider(process.env);
+  return localWhisperProvider;
+};
@@ -2,6 +2,8 @@ export * from "./anthropic-provider";
 export * from "./call-logs";
 export * from "./factory";
 export * from "./jobs";
+export * from "./local-llm-provider";
+export * from "./local-whisper-provider";
 export * from "./log-retention";
 export * from "./mock-provider";
 export * from "./openai-provider";
@@ -1,5 +1,6 @@
 import { and, eq } from "drizzle-orm";
-import { getAIProviderForOrg } from ".";
+import { getAIProviderForOrg, getTranscriptionProviderForOrg } from ".";
+import type { TranscribeVocalResult, TranscriptionProvider } from "./provider";
 import {
   serializeAICallValue,
   trackAICallFromTelemetrySafe,
@@ -7,18 +8,35 @@ import {
 import { db } from "../db/client";
 import { files, messages, properties } from "../db/schema";
 import { filesService } from "../files/service";
+import { extractDocumentFields } from "../files/document-fields";
+import { extractFileText, type FileTextExtractionResult } from "../files/text-extraction";
 import { HttpError } from "../http/errors";
+import { messageThreadsService } from "../message-threads/service";
 import { messagesService } from "../messages/service";
 import { propertiesService } from "../properties/service";
 import {
   enqueueAiDetectVocalType,
   enqueueAiExtractInitialVisitPropertyParams,
+  enqueueAiTranscribeVocalChunk,
   getAiQueueClient,
 } from "../queues/client";
 import { reviewQueueService } from "../review-queue/service";
 import { getStorageProvider } from "../storage";
+import { visitFeedbackService } from "../visit-feedback/service";
 import { vocalsService } from "../vocals/service";
-import { validateVocalAudioFormat } from "../vocals/audio-format";
+import {
+  splitVocalAudio,
+  validateVocalAudioFormat,
+  VOCAL_CHUNK_MAX_BYTES,
+  type VocalAudioChunk,
+} from "../vocals/audio-format";
+import {
+  buildVocalInsightResponseSchema,
+  getVocalInsightFields,
+  validateVocalInsights,
+} from "../vocals/insight-schemas";
+import { stitchVocalTranscription } from "../vocals/transcript-segments";
+import { vocalTranscriptionChunksService } from "../vocals/transcription-chunks";
 
 const MIN_MESSAGE_MATCH_CONFIDENCE = 0.6;
 const MIN_FILE_CLASSIFICATION_CONFIDENCE = 0.65;
@@ -43,6 +61,104 @@ const getErrorMessage = (error: unknown): string => {
   return "Erreur inconnue";
 };
 
+const FILE_CONTENT_PROMPT_PREVIEW_LENGTH = 500;
+
+const loadFileText = async (file: {
+  fileName: string;
+  mimeType: string;
+  storageKey: string;
+}): Promise<FileTextExtractionResult> => {
+  try {
+    const storageObject = await getStorageProvider().getObject(file.storageKey);
+    return await extractFileText({
+      fileName: file.fileName,
+      mimeType: file.mimeType,
+      data: storageObject.data,
+    });
+  } catch (error) {
+    console.warn(
+      `[AI][FILE] text extraction skipped file=${file.fileName} error=${getErrorMessage(error)}`,
+    );
+    return { text: null, source: null };
+  }
+};
+
+const isSameDetailValue = (current: unknown, next: string | number): boolean => {
+  if (typeof next === "number") {
+    const currentNumber = typeof current === "number" ? current : Number(current);
+    return Number.isFinite(currentNumber) && Math.abs(currentNumber - next) < 0.01;
+  }
+
+  return String(current).trim().toUpperCase() === next.trim().toUpperCase();
+};
+
+const applyExtractedDocumentFields = async (input: {
+  orgId: string;
+  fileId: string;
+  propertyId: string;
+  typeDocument: string;
+  text: string;
+}) => {
+  const fields = extractDocumentFields({
+    typeDocument: input.typeDocument,
+    text: input.text,
+  });
+  if (fields.length === 0) {
+    return;
+  }
+
+  const property = await propertiesService.getById({
+    orgId: input.orgId,
+    id: input.propertyId,
+  });
+  const currentDetails = property.details as Record<string, unknown>;
+  const updates: Record<string, unknown> = {};
+  const conflicts: Array<{
+    paramName: string;
+    currentValue: unknown;
+    extractedValue: string | number;
+  }> = [];
+
+  for (const field of fields) {
+    const currentValue = currentDetails[field.paramName];
+    if (currentValue === undefined || currentValue === null || currentValue === "") {
+      updates[field.paramName] = field.value;
+      continue;
+    }
+
+    if (!isSameDetailValue(currentValue, field.value)) {
+      conflicts.push({
+        paramName: field.paramName,
+        currentValue,
+        extractedValue: field.value,
+      });
+    }
+  }
+
+  if (Object.keys(updates).length > 0) {
+    await propertiesService.patchById({
+      orgId: input.orgId,
+      id: input.propertyId,
+      changeMode: "AI",
+      data: { details: updates },
+    });
+  }
+
+  if (conflicts.length > 0) {
+    await reviewQueueService.createOpenItem({
+      orgId: input.orgId,
+      itemType: "FILE",
+      itemId: input.fileId,
+      reason: "FILE_EXTRACTED_FIELDS_CONFLICT",
+      payload: {
+        propertyId: input.propertyId,
+        typeDocument: input.typeDocument,
+        conflicts,
+      },
+    });
+  }
+};
+
 const isInvalidAudioFormatTranscriptionError = (error: unknown): boolean => {
   const message = getErrorMessage(error).toLowerCase();
   return message.includes("transcription failed (400)") && message.includes("invalid file format");
@@ -63,56 +179,206 @@ const listPropertyCandidates = async (orgId: string) => {
   return rows;
 };
 
-export const aiJobsService = {
-  async processMessage(input: { orgId: string; messageId: string }) {
-    const provider = await getAIProviderForOrg(input.orgId);
-    const message = await db.query.messages.findFirst({
-      where: and(eq(messages.id, input.messageId), eq(messages.orgId, input.orgId)),
+const matchMessageProperty = async (input: { orgId: string; messageId: string }) => {
+  const provider = await getAIProviderForOrg(input.orgId);
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, input.messageId), eq(messages.orgId, input.orgId)),
+  });
+
+  if (!message) {
+    throw new HttpError(404, "MESSAGE_NOT_FOUND", "Message introuvable");
+  }
+
+  if (message.propertyId) {
+    await messagesService.setAiStatus({
+      orgId: input.orgId,
+      id: message.id,
+      aiStatus: "PROCESSED",
+      propertyId: message.propertyId,
     });
+    return { status: "PROCESSED" as const, reason: "property_already_set" };
+  }
 
-    if (!message) {
-      throw new HttpError(404, "MESSAGE_NOT_FOUND", "Message introuvable");
-    }
+  const candidates = await listPropertyCandidates(input.orgId);
+  if (candidates.length === 0) {
+    await messagesService.setAiStatus({
+      orgId: input.orgId,
+      id: message.id,
+      aiStatus: "REVIEW_REQUIRED",
+    });
+    await reviewQueueService.createOpenItem({
+      orgId: input.orgId,
+      itemType: "MESSAGE",
+      itemId: message.id,
+      reason: "MESSAGE_NO_PROPERTY_CANDIDATE",
+    });
+    return { status: "REVIEW_REQUIRED" as const, reason: "no_property_candidate" };
+  }
 
-    if (message.propertyId) {
-      await messagesService.setAiStatus({
-        orgId: input.orgId,
-        id: message.id,
-        aiStatus: "PROCESSED",
-        propertyId: message.propertyId,
-      });
-      return { status: "PROCESSED" as const, reason: "property_already_set" };
-    }
+  const match = await provider.matchMessageToProperty({
+    subject: message.subject,
+    body: message.body,
+    properties: candidates,
+  });
+  await trackAICallFromTelemetrySafe({
+    orgId: input.orgId,
+    useCase: "MESSAGE_PROPERTY_MATCH",
+    fallbackPrompt: [
+      "Message -> bien",
+      `subject: ${message.subject ?? ""}`,
+      `body: ${message.body}`,
+      `candidates: ${serializeAICallValue(candidates)}`,
+    ].join("\n"),
+    fallbackResponse: match,
+    telemetry: match.telemetry,
+  });
+
+  if (
+    match.propertyId &&
+    match.confidence >= MIN_MESSAGE_MATCH_CONFIDENCE &&
+    match.ambiguousPropertyIds.length === 0
+  ) {
+    await messagesService.setAiStatus({
+      orgId: input.orgId,
+      id: message.id,
+      aiStatus: "PROCESSED",
+      propertyId: match.propertyId,
+    });
+    return { status: "PROCESSED" as const, reason: "matched" };
+  }
 
-    const candidates = await listPropertyCandidates(input.orgId);
-    if (candidates.length === 0) {
-      await messagesService.setAiStatus({
-        orgId: input.orgId,
-        id: message.id,
-        aiStatus: "REVIEW_REQUIRED",
-      });
-      await reviewQueueService.createOpenItem({
-        orgId: input.orgId,
-        itemType: "MESSAGE",
-        itemId: message.id,
-        reason: "MESSAGE_NO_PROPERTY_CANDIDATE",
-      });
-      return { status: "REVIEW_REQUIRED" as const, reason: "no_property_candidate" };
+  await messagesService.setAiStatus({
+    orgId: input.orgId,
+    id: message.id,
+    aiStatus: "REVIEW_REQUIRED",
+  });
+  await reviewQueueService.createOpenItem({
+    orgId: input.orgId,
+    itemType: "MESSAGE",
+    itemId: message.id,
+    reason:
+      match.ambiguousPropertyIds.length > 0
+        ? "MESSAGE_PROPERTY_AMBIGUOUS"
+        : "MESSAGE_PROPERTY_NOT_FOUND",
+    payload: {
+      confidence: match.confidence,
+      ambiguousPropertyIds: match.ambiguousPropertyIds,
+      reasoning: match.reasoning,
+    },
+  });
+
+  return { status: "REVIEW_REQUIRED" as const, reason: "needs_review" };
+};
+
+// Le résumé du fil est secondaire: son échec ne doit pas invalider le rattachement du message.
+const summarizeMessageThreadSafe = async (input: { orgId: string; messageId: string }) => {
+  const message = await db.query.messages.findFirst({
+    where: and(eq(messages.id, input.messageId), eq(messages.orgId, input.orgId)),
+  });
+  if (!message?.threadId) {
+    return;
+  }
+
+  try {
+    await messageThreadsService.summarize({ orgId: input.orgId, id: message.threadId });
+  } catch (error) {
+    console.warn(
+      `[AI][MESSAGE] thread summary skipped thread=${message.threadId} error=${getErrorMessage(error)}`,
+    );
+  }
+};
+
+type VocalForProcessing = Awaited<ReturnType<typeof vocalsService.getByIdForProcessing>>;
+type OrgAIProvider = Awaited<ReturnType<typeof getAIProviderForOrg>>;
+
+// Un format refusé par le provider est définitif: le vocal part en revue au lieu d'être relancé.
+const transcribeVocalAudio = async (input: {
+  orgId: string;
+  transcriber: TranscriptionProvider;
+  vocal: VocalForProcessing;
+  chunk: VocalAudioChunk;
+}): Promise<TranscribeVocalResult | null> => {
+  const { vocal, chunk } = input;
+  let transcription: TranscribeVocalResult;
+  try {
+    transcription = await input.transcriber.transcribeVocal({
+      fileName: chunk.fileName,
+      mimeType: chunk.mimeType,
+      audioData: chunk.data,
+    });
+  } catch (error) {
+    if (!isInvalidAudioFormatTranscriptionError(error)) {
+      throw error;
     }
 
+    const message = getErrorMessage(error);
+    await vocalsService.markProcessingFailure({
+      orgId: input.orgId,
+      id: vocal.id,
+      step: "TRANSCRIBE",
+      message,
+      isFinal: true,
+    });
+
+    await reviewQueueService.createOpenItem({
+      orgId: input.orgId,
+      itemType: "VOCAL",
+      itemId: vocal.id,
+      reason: "VOCAL_INVALID_AUDIO_SOURCE",
+      payload: {
+        fileName: chunk.fileName,
+        mimeType: chunk.mimeType,
+        audioBytes: chunk.data.byteLength,
+        providerError: message,
+      },
+    });
+
+    return null;
+  }
+
+  await trackAICallFromTelemetrySafe({
+    orgId: input.orgId,
+    useCase: "VOCAL_TRANSCRIPTION",
+    fallbackPrompt: [
+      "Transcription vocal",
+      `fileName: ${chunk.fileName}`,
+      `mimeType: ${chunk.mimeType}`,
+      `audioBytes: ${chunk.data.byteLength}`,
+    ].join("\n"),
+    fallbackResponse: transcription,
+    telemetry: transcription.telemetry,
+  });
+
+  return transcription;
+};
+
+const completeVocalTranscription = async (input: {
+  orgId: string;
+  provider: OrgAIProvider;
+  vocal: VocalForProcessing;
+  transcription: ReturnType<typeof stitchVocalTranscription>;
+}) => {
+  const { provider, vocal, transcription } = input;
+  const reasons: string[] = [];
+  if (!transcription.transcript.trim()) {
+    reasons.push("VOCAL_EMPTY_TRANSCRIPT");
+  }
+  if (transcription.confidence < MIN_TRANSCRIPT_CONFIDENCE) {
+    reasons.push("VOCAL_LOW_CONFIDENCE");
+  }
+
+  let matchedPropertyId: string | null = null;
+  if (!vocal.propertyId && transcription.transcript.trim()) {
     const match = await provider.matchMessageToProperty({
-      subject: message.subject,
-      body: message.body,
-      properties: candidates,
+      body: transcription.transcript,
+      properties: await listPropertyCandidates(input.orgId),
     });
     await trackAICallFromTelemetrySafe({
       orgId: input.orgId,
-      useCase: "MESSAGE_PROPERTY_MATCH",
+      useCase: "VOCAL_PROPERTY_MATCH",
       fallbackPrompt: [
-        "Message -> bien",
-        `subject: ${message.subject ?? ""}`,
-        `body: ${message.body}`,
-        `candidates: ${serializeAICallValue(candidates)}`,
+        "Vocal -> bien",
+        `transcript: ${transcription.transcript}`,
       ].join("\n"),
       fallbackResponse: match,
       telemetry: match.telemetry,
@@ -123,36 +389,117 @@ export const aiJobsService = {
       match.confidence >= MIN_MESSAGE_MATCH_CONFIDENCE &&
       match.ambiguousPropertyIds.length === 0
     ) {
-      await messagesService.setAiStatus({
+      matchedPropertyId = match.propertyId;
+    } else {
+      reasons.push("VOCAL_PROPERTY_AMBIGUOUS");
+      await reviewQueueService.createOpenItem({
         orgId: input.orgId,
-        id: message.id,
-        aiStatus: "PROCESSED",
-        propertyId: match.propertyId,
+        itemType: "VOCAL",
+        itemId: vocal.id,
+        reason: "VOCAL_PROPERTY_AMBIGUOUS",
+        payload: {
+          confidence: match.confidence,
+          ambiguousPropertyIds: match.ambiguousPropertyIds,
+          reasoning: match.reasoning,
+        },
       });
-      return { status: "PROCESSED" as const, reason: "matched" };
+    }
+  }
+
+  const status = reasons.length > 0 ? "REVIEW_REQUIRED" : "TRANSCRIBED";
+  await vocalsService.setTranscription({
+    orgId: input.orgId,
+    id: vocal.id,
+    transcript: transcription.transcript,
+    summary: transcription.summary,
+    confidence: transcription.confidence,
+    segments: transcription.segments,
+    status,
+    propertyId: matchedPropertyId ? matchedPropertyId : undefined,
+  });
+
+  for (const reason of reasons) {
+    if (reason === "VOCAL_PROPERTY_AMBIGUOUS") {
+      continue;
     }
 
-    await messagesService.setAiStatus({
-      orgId: input.orgId,
-      id: message.id,
-      aiStatus: "REVIEW_REQUIRED",
-    });
     await reviewQueueService.createOpenItem({
       orgId: input.orgId,
-      itemType: "MESSAGE",
-      itemId: message.id,
-      reason:
-        match.ambiguousPropertyIds.length > 0
-          ? "MESSAGE_PROPERTY_AMBIGUOUS"
-          : "MESSAGE_PROPERTY_NOT_FOUND",
+      itemType: "VOCAL",
+      itemId: vocal.id,
+      reason,
       payload: {
-        confidence: match.confidence,
-        ambiguousPropertyIds: match.ambiguousPropertyIds,
-        reasoning: match.reasoning,
+        confidence: transcription.confidence,
       },
     });
+  }
+
+  if (transcription.transcript.trim() && isQueueEnabled()) {
+    try {
+      await enqueueAiDetectVocalType(
+        getAiQueueClient(),
+        {
+          orgId: input.orgId,
+          vocalId: vocal.id,
+        },
+        {
+          jobId: buildJobId("vocal", "type", input.orgId, vocal.id),
+        },
+      );
+    } catch (error) {
+      console.warn("[BullMQ] enqueue detect vocal type fallback:", error);
+    }
+  }
+
+  return { status };
+};
 
-    return { status: "REVIEW_REQUIRED" as const, reason: "needs_review" };
+const finalizeChunkedTranscription = async (input: {
+  orgId: string;
+  provider: OrgAIProvider;
+  vocal: VocalForProcessing;
+}) => {
+  const chunks = await vocalTranscriptionChunksService.claimCompleted({
+    orgId: input.orgId,
+    vocalId: input.vocal.id,
+  });
+  if (!chunks) {
+    return { status: "CHUNK_TRANSCRIBED" as const };
+  }
+
+  return completeVocalTranscription({ ...input, transcription: stitchVocalTranscription(chunks) });
+};
+
+const processVocalChunk = async (input: {
+  orgId: string;
+  provider: OrgAIProvider;
+  transcriber: TranscriptionProvider;
+  vocal: VocalForProcessing;
+  chunk: VocalAudioChunk;
+}) => {
+  const transcription = await transcribeVocalAudio(input);
+  if (!transcription) {
+    return { status: "REVIEW_REQUIRED" as const };
+  }
+
+  await vocalTranscriptionChunksService.complete({
+    orgId: input.orgId,
+    vocalId: input.vocal.id,
+    chunkIndex: input.chunk.index,
+    transcript: transcription.transcript,
+    summary: transcription.summary,
+    confidence: transcription.confidence,
+    segments: transcription.segments,
+  });
+
+  return finalizeChunkedTranscription(input);
+};
+
+export const aiJobsService = {
+  async processMessage(input: { orgId: string; messageId: string }) {
+    const result = await matchMessageProperty(input);
+    await summarizeMessageThreadSafe(input);
+    return result;
   },
 
   async processFile(input: { orgId: string; fileId: string }) {
@@ -165,9 +512,11 @@ export const aiJobsService = {
       throw new HttpError(404, "FILE_NOT_FOUND", "Fichier introuvable");
     }
 
+    const extracted = await loadFileText(file);
     const classification = await provider.classifyFile({
       fileName: file.fileName,
       mimeType: file.mimeType,
+      content: extracted.text,
     });
     await trackAICallFromTelemetrySafe({
       orgId: input.orgId,
@@ -176,6 +525,8 @@ export const aiJobsService = {
         "Classification document",
         `fileName: ${file.fileName}`,
         `mimeType: ${file.mimeType}`,
+        `textSource: ${extracted.source ?? "NONE"}`,
+        `content: ${extracted.text?.slice(0, FILE_CONTENT_PROMPT_PREVIEW_LENGTH) ?? ""}`,
       ].join("\n"),
       fallbackResponse: classification,
       telemetry: classification.telemetry,
@@ -192,6 +543,16 @@ export const aiJobsService = {
         status: "CLASSIFIED",
       });
 
+      if (file.propertyId && extracted.text) {
+        await applyExtractedDocumentFields({
+          orgId: input.orgId,
+          fileId: file.id,
+          propertyId: file.propertyId,
+          typeDocument: classification.typeDocument,
+          text: extracted.text,
+        });
+      }
+
       return { status: "CLASSIFIED" as const };
     }
 
@@ -210,6 +571,8 @@ export const aiJobsService = {
         confidence: classification.confidence,
         proposedTypeDocument: classification.typeDocument,
         reasoning: classification.reasoning,
+        snippet: classification.snippet ?? null,
+        textSource: extracted.source,
       },
     });
 
@@ -218,6 +581,7 @@ export const aiJobsService = {
 
   async transcribeVocal(input: { orgId: string; vocalId: string }) {
     const provider = await getAIProviderForOrg(input.orgId);
+    const transcriber = await getTranscriptionProviderForOrg(input.orgId);
     const vocal = await vocalsService.getByIdForProcessing({
       orgId: input.orgId,
       id: input.vocalId,
@@ -280,19 +644,15 @@ export const aiJobsService = {
       return { status: "REVIEW_REQUIRED" as const };
     }
 
-    let transcription;
-    try {
-      transcription = await provider.transcribeVocal({
-        fileName: vocal.fileName,
-        mimeType: vocal.mimeType,
-        audioData: audioObject.data,
-      });
-    } catch (error) {
-      if (!isInvalidAudioFormatTranscriptionError(error)) {
-        throw error;
-      }
-
-      const message = getErrorMessage(error);
+    const chunks = splitVocalAudio({
+      fileName: vocal.fileName,
+      mimeType: vocal.mimeType,
+      data: audioObject.data,
+    });
+    // Un fichier illisible ou dans un format non découpé (FLAC...) trop lourd part en revue au lieu d'être envoyé entier.
+    if (chunks.length === 1 && chunks[0]!.endMs === null && chunks[0]!.data.byteLength > VOCAL_CHUNK_MAX_BYTES) {
+      const message =
+        "Le vocal est trop volumineux pour être transcrit dans ce format, il doit être converti en WAV ou MP3";
       await vocalsService.markProcessingFailure({
         orgId: input.orgId,
         id: vocal.id,
@@ -305,123 +665,119 @@ export const aiJobsService = {
         orgId: input.orgId,
         itemType: "VOCAL",
         itemId: vocal.id,
-        reason: "VOCAL_INVALID_AUDIO_SOURCE",
+        reason: "VOCAL_AUDIO_TOO_LARGE",
         payload: {
           fileName: vocal.fileName,
           mimeType: vocal.mimeType,
           audioBytes: audioObject.data.byteLength,
-          providerError: message,
+          validationMessage: message,
         },
       });
 
       return { status: "REVIEW_REQUIRED" as const };
     }
 
-    await trackAICallFromTelemetrySafe({
-      orgId: input.orgId,
-      useCase: "VOCAL_TRANSCRIPTION",
-      fallbackPrompt: [
-        "Transcription vocal",
-        `fileName: ${vocal.fileName}`,
-        `mimeType: ${vocal.mimeType}`,
-        `audioBytes: ${audioObject.data.byteLength}`,
-      ].join("\n"),
-      fallbackResponse: transcription,
-      telemetry: transcription.telemetry,
-    });
-
-    const reasons: string[] = [];
-    if (!transcription.transcript.trim()) {
-      reasons.push("VOCAL_EMPTY_TRANSCRIPT");
-    }
-    if (transcription.confidence < MIN_TRANSCRIPT_CONFIDENCE) {
-      reasons.push("VOCAL_LOW_CONFIDENCE");
-    }
+    if (chunks.length === 1) {
+      const chunk = chunks[0]!;
+      const transcription = await transcribeVocalAudio({ orgId: input.orgId, transcriber, vocal, chunk });
+      if (!transcription) {
+        return { status: "REVIEW_REQUIRED" as const };
+      }
 
-    let matchedPropertyId: string | null = null;
-    if (!vocal.propertyId && transcription.transcript.trim()) {
-      const match = await provider.matchMessageToProperty({
-        body: transcription.transcript,
-        properties: await listPropertyCandidates(input.orgId),
-      });
-      await trackAICallFromTelemetrySafe({
+      return completeVocalTranscription({
         orgId: input.orgId,
-        useCase: "VOCAL_PROPERTY_MATCH",
-        fallbackPrompt: [
-          "Vocal -> bien",
-          `transcript: ${transcription.transcript}`,
-        ].join("\n"),
-        fallbackResponse: match,
-        telemetry: match.telemetry,
+        provider,
+        vocal,
+        transcription: stitchVocalTranscription([
+          { ...transcription, startMs: chunk.startMs, endMs: chunk.endMs },
+        ]),
       });
-
-      if (
-        match.propertyId &&
-        match.confidence >= MIN_MESSAGE_MATCH_CONFIDENCE &&
-        match.ambiguousPropertyIds.length === 0
-      ) {
-        matchedPropertyId = match.propertyId;
-      } else {
-        reasons.push("VOCAL_PROPERTY_AMBIGUOUS");
-        await reviewQueueService.createOpenItem({
-          orgId: input.orgId,
-          itemType: "VOCAL",
-          itemId: vocal.id,
-          reason: "VOCAL_PROPERTY_AMBIGUOUS",
-          payload: {
-            confidence: match.confidence,
-            ambiguousPropertyIds: match.ambiguousPropertyIds,
-            reasoning: match.reasoning,
-          },
-        });
-      }
     }
 
-    const status = reasons.length > 0 ? "REVIEW_REQUIRED" : "TRANSCRIBED";
-    await vocalsService.setTranscription({
+    // Les longs enregistrements sont découpés avec recouvrement, un job par morceau.
+    const pendingIndexes = await vocalTranscriptionChunksService.plan({
       orgId: input.orgId,
-      id: vocal.id,
-      transcript: transcription.transcript,
-      summary: transcription.summary,
-      confidence: transcription.confidence,
-      status,
-      propertyId: matchedPropertyId ? matchedPropertyId : undefined,
+      vocalId: vocal.id,
+      chunks,
     });
+    if (pendingIndexes.length === 0) {
+      return finalizeChunkedTranscription({ orgId: input.orgId, provider, vocal });
+    }
 
-    for (const reason of reasons) {
-      if (reason === "VOCAL_PROPERTY_AMBIGUOUS") {
-        continue;
+    let inlineIndexes = pendingIndexes;
+    if (isQueueEnabled()) {
+      inlineIndexes = [];
+      for (const chunkIndex of pendingIndexes) {
+        try {
+          await enqueueAiTranscribeVocalChunk(
+            getAiQueueClient(),
+            {
+              orgId: input.orgId,
+              vocalId: vocal.id,
+              chunkIndex,
+            },
+            {
+              jobId: buildJobId(
+                "vocal",
+                "chunk",
+                input.orgId,
+                vocal.id,
+                String(vocal.processingAttempts),
+                String(chunkIndex),
+              ),
+            },
+          );
+        } catch (error) {
+          console.warn("[BullMQ] enqueue vocal chunk fallback:", error);
+          inlineIndexes.push(chunkIndex);
+        }
       }
 
-      await reviewQueueService.createOpenItem({
-        orgId: input.orgId,
-        itemType: "VOCAL",
-        itemId: vocal.id,
-        reason,
-        payload: {
-          confidence: transcription.confidence,
-        },
-      });
+      if (inlineIndexes.length === 0) {
+        return { status: "CHUNKED" as const, chunkCount: chunks.length };
+      }
     }
 
-    if (transcription.transcript.trim() && isQueueEnabled()) {
-      try {
-        await enqueueAiDetectVocalType(
-          getAiQueueClient(),
-          {
-            orgId: input.orgId,
-            vocalId: vocal.id,
-          },
-          {
-            jobId: buildJobId("vocal", "type", input.orgId, vocal.id),
-          },
-        );
-      } catch (error) {
-        console.warn("[BullMQ] enqueue detect vocal type fallback:", error);
+    // Sans file d'attente, ou pour les morceaux qu'elle a refusés, la transcription se fait ici en parallèle;
+    // ceux déjà transcrits restent acquis en cas d'échec.
+    const settled = await Promise.allSettled(
+      inlineIndexes.map((chunkIndex) =>
+        processVocalChunk({ orgId: input.orgId, provider, transcriber, vocal, chunk: chunks[chunkIndex]! }),
+      ),
+    );
+    const results = [];
+    for (const result of settled) {
+      if (result.status === "rejected") {
+        throw result.reason;
       }
+      results.push(result.value);
     }
 
-    return { status };
+    return (
+      results.find((result) => result.status !== "CHUNK_TRANSCRIBED") ??
+      ({ status: "CHUNK_TRANSCRIBED" } as const)
+    );
+  },
+
+  async transcribeVocalChunk(input: { orgId: string; vocalId: string; chunkIndex: number }) {
+    const provider = await getAIProviderForOrg(input.orgId);
+    const transcriber = await getTranscriptionProviderForOrg(input.orgId);
+    const vocal = await vocalsService.getByIdForProcessing({
+      orgId: input.orgId,
+      id: input.vocalId,
+    });
+    const audioObject = await getStorageProvider().getObject(vocal.storageKey);
+    const chunk = splitVocalAudio({
+      fileName: vocal.fileName,
+      mimeType: vocal.mimeType,
+      data: audioObject.data,
+    }).find((candidate) => candidate.index === input.chunkIndex);
+
+    if (!chunk) {
+      throw new HttpError(404, "VOCAL_CHUNK_NOT_FOUND", "Morceau de vocal introuvable");
+    }
+
+    return processVocalChunk({ orgId: input.orgId, provider, transcriber, vocal, chunk });
   },
 
   async detectVocalType(input: { orgId: string; vocalId: string }) {
@@ -655,9 +1011,13 @@ export const aiJobsService = {
       return { status: "REVIEW_REQUIRED" as const, reason: "missing_transcript" };
     }
 
+    const insightFields = getVocalInsightFields(vocal.vocalType);
     const extracted = await provider.extractVocalInsights({
       transcript: vocal.transcript,
       summary: vocal.summary,
+      ...(vocal.vocalType && insightFields
+        ? { responseSchema: buildVocalInsightResponseSchema(vocal.vocalType, insightFields) }
+        : {}),
     });
     await trackAICallFromTelemetrySafe({
       orgId: input.orgId,
@@ -671,9 +1031,14 @@ export const aiJobsService = {
       telemetry: extracted.telemetry,
     });
 
-    const hasInsights = Object.keys(extracted.insights).length > 0;
+    // Les valeurs hors schéma ne sont pas enregistrées: elles partent en revue avec le reste des insights.
+    const { insights, invalidFields } = insightFields
+      ? validateVocalInsights(insightFields, extracted.insights)
+      : { insights: extracted.insights, invalidFields: [] };
+    const hasInsights = Object.keys(insights).length > 0;
+    const isLowConfidence = !hasInsights || extracted.confidence < MIN_INSIGHTS_CONFIDENCE;
     const targetStatus =
-      hasInsights && extracted.confidence >= MIN_INSIGHTS_CONFIDENCE
+      !isLowConfidence && invalidFields.length === 0
         ? vocal.status === "REVIEW_REQUIRED"
           ? "REVIEW_REQUIRED"
           : "INSIGHTS_READY"
@@ -682,11 +1047,25 @@ export const aiJobsService = {
     await vocalsService.setInsights({
       orgId: input.orgId,
       id: vocal.id,
-      insights: extracted.insights,
+      insights,
       status: targetStatus,
     });
 
-    if (targetStatus === "REVIEW_REQUIRED") {
+    if (invalidFields.length > 0) {
+      await reviewQueueService.createOpenItem({
+        orgId: input.orgId,
+        itemType: "VOCAL",
+        itemId: vocal.id,
+        reason: "VOCAL_INSIGHTS_INVALID_FIELDS",
+        payload: {
+          vocalType: vocal.vocalType,
+          confidence: extracted.confidence,
+          invalidFields,
+        },
+      });
+    }
+
+    if (isLowConfidence) {
       await reviewQueueService.createOpenItem({
         orgId: input.orgId,
         itemType: "VOCAL",
@@ -698,6 +1077,15 @@ export const aiJobsService = {
       });
     }
 
+    if (vocal.vocalType === "COMPTE_RENDU_VISITE_CLIENT") {
+      try {
+        await visitFeedbackService.extractFromVocal({ orgId: input.orgId, vocalId: vocal.id });
+      } catch (error) {
+        // Les insights restent enregistrés: le retour de visite pourra être relancé depuis la visite.
+        console.warn(`[AI] visit feedback extraction failed vocal=${vocal.id}: ${getErrorMessage(error)}`);
+      }
+    }
+
     return { status: targetStatus };
   },
 };
@@ -0,0 +1,575 @@
+import type { AICallUseCase } from "./call-logs";
+import { MockAIProvider } from "./mock-provider";
+import { clampPriceUsd, estimatePriceUsdFromUsage } from "./pricing";
+import { TypeDocumentSchema } from "../dto/zod";
+import { externalFetch } from "../http/external-fetch";
+import type {
+  AICallTelemetry,
+  AIProvider,
+  ClassifyFileInput,
+  ClassifyFileResult,
+  DetectVocalTypeInput,
+  DetectVocalTypeResult,
+  DraftMessageReplyInput,
+  DraftMessageReplyResult,
+  ExtractInitialVisitPropertyParamsInput,
+  ExtractInitialVisitPropertyParamsResult,
+  ExtractVisitFeedbackInput,
+  ExtractVisitFeedbackResult,
+  ExtractVocalInsightsInput,
+  ExtractVocalInsightsResult,
+  MatchMessageToPropertyInput,
+  MatchMessageToPropertyResult,
+  PropertyValuationInput,
+  PropertyValuationResult,
+  SummarizeMessageThreadInput,
+  SummarizeMessageThreadResult,
+  TranscribeVocalInput,
+  TranscribeVocalResult,
+  TranscriptionProvider,
+  VocalType,
+} from "./provider";
+
+const clampConfidence = (value: unknown, fallback = 0.5): number => {
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (Number.isNaN(numeric) || !Number.isFinite(numeric)) {
+    return fallback;
+  }
+
+  return Math.max(0, Math.min(1, numeric));
+};
+
+const extractJsonObject = (raw: string): Record<string, unknown> | null => {
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  const direct = (() => {
+    try {
+      return JSON.parse(trimmed) as Record<string, unknown>;
+    } catch {
+      return null;
+    }
+  })();
+  if (direct && typeof direct === "object" && !Array.isArray(direct)) {
+    return direct;
+  }
+
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(trimmed.slice(start, end + 1)) as unknown;
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+};
+
+const sanitizeVocalType = (value: unknown): VocalType | null => {
+  if (value === "VISITE_INITIALE" || value === "VISITE_SUIVI" || value === "COMPTE_RENDU_VISITE_CLIENT") {
+    return value;
+  }
+
+  return null;
+};
+
+const sanitizeOptionalString = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+};
+
+const sanitizeEnumValue = <T extends string>(value: unknown, allowed: readonly T[]): T | null =>
+  typeof value === "string" && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+
+const sanitizeStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(sanitizeOptionalString).filter((item): item is string => item !== null)
+    : [];
+
+const asTokenCount = (value: unknown): number | undefined =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0 ? Math.floor(value) : undefined;
+
+export const extractChatCompletionUsage = (
+  payload: unknown,
+): { inputTokens?: number; outputTokens?: number; totalTokens?: number } => {
+  const usage =
+    payload && typeof payload === "object" && (payload as Record<string, unknown>).usage
+      ? ((payload as Record<string, unknown>).usage as Record<string, unknown>)
+      : {};
+
+  return {
+    inputTokens: asTokenCount(usage.prompt_tokens),
+    outputTokens: asTokenCount(usage.completion_tokens),
+    totalTokens: asTokenCount(usage.total_tokens),
+  };
+};
+
+export const extractChatCompletionMessage = (payload: unknown): Record<string, unknown> | null => {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+
+  const choices = (payload as Record<string, unknown>).choices;
+  const first = Array.isArray(choices) ? (choices[0] as Record<string, unknown> | undefined) : undefined;
+  const message = first?.message;
+  return message && typeof message === "object" ? (message as Record<string, unknown>) : null;
+};
+
+// Serveurs sans sortie structurée: json_schema puis json_object sont refusés, on retombe sur le prompt seul.
+const UNSUPPORTED_RESPONSE_FORMAT_STATUSES = new Set([400, 422, 501]);
+
+const FILE_CONTENT_PROMPT_LENGTH = 4000;
+
+export type LocalLLMProviderOptions = {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+  modelsByUseCase?: Partial<Record<AICallUseCase, string>>;
+  transcriber?: TranscriptionProvider;
+};
+
+export class LocalLLMProvider implements AIProvider {
+  private readonly baseUrl: string;
+  private readonly apiKey: string | null;
+  private readonly model: string;
+  private readonly modelsByUseCase: Partial<Record<AICallUseCase, string>>;
+  private readonly transcriber: TranscriptionProvider;
+
+  constructor(options: LocalLLMProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? "http://127.0.0.1:11434/v1").replace(/\/+$/, "");
+    this.apiKey = options.apiKey?.trim() || null;
+    this.model = options.model ?? "llama3.1";
+    this.modelsByUseCase = options.modelsByUseCase ?? {};
+    this.transcriber = options.transcriber ?? new MockAIProvider();
+  }
+
+  resolveModel(useCase: AICallUseCase): string {
+    return this.modelsByUseCase[useCase]?.trim() || this.model;
+  }
+
+  async createChatCompletion(body: Record<string, unknown>): Promise<Response> {
+    return externalFetch({
+      service: "local-llm",
+      url: `${this.baseUrl}/chat/completions`,
+      method: "POST",
+      headers: {
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  async matchMessageToProperty(
+    input: MatchMessageToPropertyInput,
+  ): Promise<MatchMessageToPropertyResult> {
+    if (input.properties.length === 0) {
+      return {
+        propertyId: null,
+        confidence: 0,
+        ambiguousPropertyIds: [],
+        reasoning: "Aucun bien candidat",
+      };
+    }
+
+    const generated = await this.requestJsonText("MESSAGE_PROPERTY_MATCH", [
+      "Tu rattaches un message reçu par une agence immobilière au bien dont il parle.",
+      "Réponds uniquement en JSON:",
+      "{\"propertyId\":string|null,\"confidence\":number,\"ambiguousPropertyIds\":string[],\"reasoning\":string}.",
+      "propertyId et ambiguousPropertyIds ne contiennent que des identifiants de la liste; null si aucun bien ne correspond.",
+      "confidence est entre 0 et 1.",
+      "",
+      "Biens:",
+      ...input.properties.map(
+        (property) =>
+          `- ${property.id} | ${property.title} | ${property.postalCode} ${property.city} | ${property.address ?? ""}`,
+      ),
+      "",
+      `Objet: ${input.subject ?? ""}`,
+      `Message: ${input.body}`,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        propertyId: null,
+        confidence: 0.2,
+        ambiguousPropertyIds: [],
+        reasoning: "Réponse IA invalide",
+        telemetry: generated.telemetry,
+      };
+    }
+
+    const candidateIds = new Set(input.properties.map((property) => property.id));
+    const propertyId = sanitizeOptionalString(parsed.propertyId);
+    return {
+      propertyId: propertyId && candidateIds.has(propertyId) ? propertyId : null,
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      ambiguousPropertyIds: sanitizeStringList(parsed.ambiguousPropertyIds).filter((id) =>
+        candidateIds.has(id),
+      ),
+      reasoning: sanitizeOptionalString(parsed.reasoning) ?? "Rattachement IA",
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async classifyFile(input: ClassifyFileInput): Promise<ClassifyFileResult> {
+    const generated = await this.requestJsonText("FILE_CLASSIFICATION", [
+      "Tu classes un document reçu par une agence immobilière.",
+      `Types autorisés: ${TypeDocumentSchema.options.join(", ")}.`,
+      "Réponds uniquement en JSON: {\"typeDocument\":\"...|null\",\"confidence\":number,\"reasoning\":string}.",
+      "typeDocument vaut null si aucun type ne correspond; confidence est entre 0 et 1.",
+      "",
+      `Nom du fichier: ${input.fileName}`,
+      `Type MIME: ${input.mimeType}`,
+      `Contenu: ${input.content?.trim().slice(0, FILE_CONTENT_PROMPT_LENGTH) ?? ""}`,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        typeDocument: null,
+        confidence: 0.2,
+        reasoning: "Réponse IA invalide",
+        telemetry: generated.telemetry,
+      };
+    }
+
+    return {
+      typeDocument: sanitizeEnumValue(parsed.typeDocument, TypeDocumentSchema.options),
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      reasoning: sanitizeOptionalString(parsed.reasoning) ?? "Classification IA",
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async transcribeVocal(input: TranscribeVocalInput): Promise<TranscribeVocalResult> {
+    return this.transcriber.transcribeVocal(input);
+  }
+
+  async extractVocalInsights(
+    input: ExtractVocalInsightsInput,
+  ): Promise<ExtractVocalInsightsResult> {
+    const generated = await this.requestJsonText(
+      "VOCAL_INSIGHTS_EXTRACTION",
+      [
+        "Tu extrais des insights métier immobilier à partir d'une transcription d'appel vocal.",
+        "Réponds uniquement en JSON: {\"insights\":object,\"confidence\":number}.",
+        ...(input.responseSchema
+          ? [
+              "Les champs de insights sont imposés par le schéma: mets null quand l'information n'est pas dans le vocal.",
+              `Schéma JSON: ${JSON.stringify(input.responseSchema.schema)}`,
+            ]
+          : []),
+        "confidence est entre 0 et 1.",
+        "",
+        `Transcript: ${input.transcript}`,
+        `Summary: ${input.summary ?? ""}`,
+      ],
+      input.responseSchema,
+    );
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        insights: {},
+        confidence: 0.2,
+        telemetry: generated.telemetry,
+      };
+    }
+
+    const rawInsights = parsed.insights;
+    return {
+      insights:
+        rawInsights && typeof rawInsights === "object" && !Array.isArray(rawInsights)
+          ? (rawInsights as Record<string, unknown>)
+          : {},
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async detectVocalType(input: DetectVocalTypeInput): Promise<DetectVocalTypeResult> {
+    const generated = await this.requestJsonText("VOCAL_TYPE_DETECTION", [
+      "Tu classes le type d'un vocal immobilier.",
+      "Types autorisés: VISITE_INITIALE, VISITE_SUIVI, COMPTE_RENDU_VISITE_CLIENT.",
+      "Réponds uniquement en JSON: {\"vocalType\":\"...|null\",\"confidence\":number,\"reasoning\":string}.",
+      "",
+      `Transcript: ${input.transcript}`,
+      `Summary: ${input.summary ?? ""}`,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        vocalType: null,
+        confidence: 0.2,
+        reasoning: "Réponse IA invalide",
+        telemetry: generated.telemetry,
+      };
+    }
+
+    return {
+      vocalType: sanitizeVocalType(parsed.vocalType),
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      reasoning: sanitizeOptionalString(parsed.reasoning) ?? "Classification IA",
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async extractInitialVisitPropertyParams(
+    input: ExtractInitialVisitPropertyParamsInput,
+  ): Promise<ExtractInitialVisitPropertyParamsResult> {
+    const generated = await this.requestJsonText("VOCAL_INITIAL_VISIT_EXTRACTION", [
+      "Tu extrais des paramètres de bien depuis une transcription de visite initiale immobilière.",
+      "Réponds uniquement en JSON:",
+      "{\"title\":string|null,\"address\":string|null,\"city\":string|null,\"postalCode\":string|null,\"price\":number|null,\"details\":object,\"confidence\":number}.",
+      "Ne pas inventer, utiliser null si absent.",
+      "",
+      `Transcript: ${input.transcript}`,
+      `Summary: ${input.summary ?? ""}`,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        title: null,
+        address: null,
+        city: null,
+        postalCode: null,
+        price: null,
+        details: {},
+        confidence: 0.2,
+        telemetry: generated.telemetry,
+      };
+    }
+
+    const rawPrice = parsed.price;
+    const numericPrice = typeof rawPrice === "number" ? rawPrice : Number(rawPrice);
+    const rawDetails = parsed.details;
+
+    return {
+      title: sanitizeOptionalString(parsed.title),
+      address: sanitizeOptionalString(parsed.address),
+      city: sanitizeOptionalString(parsed.city),
+      postalCode: sanitizeOptionalString(parsed.postalCode),
+      price: rawPrice !== null && Number.isFinite(numericPrice) ? Math.round(numericPrice) : null,
+      details:
+        rawDetails && typeof rawDetails === "object" && !Array.isArray(rawDetails)
+          ? (rawDetails as Record<string, unknown>)
+          : {},
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async extractVisitFeedback(input: ExtractVisitFeedbackInput): Promise<ExtractVisitFeedbackResult> {
+    const generated = await this.requestJsonText("VISIT_FEEDBACK_EXTRACTION", [
+      "Tu extrais le retour d'un visiteur depuis le compte rendu vocal d'une visite immobilière.",
+      "Réponds uniquement en JSON:",
+      "{\"interestLevel\":\"LOW|MEDIUM|HIGH\"|null,\"perceivedPrice\":\"TOO_HIGH|FAIR|LOW\"|null,\"positives\":string[],\"negatives\":string[],\"offerIntention\":\"YES|MAYBE|NO\"|null,\"confidence\":number}.",
+      "positives et negatives: points courts (quelques mots) cités par le visiteur.",
+      "Ne pas inventer, utiliser null ou une liste vide si absent.",
+      "",
+      `Transcript: ${input.transcript}`,
+      `Summary: ${input.summary ?? ""}`,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        interestLevel: null,
+        perceivedPrice: null,
+        positives: [],
+        negatives: [],
+        offerIntention: null,
+        confidence: 0.2,
+        telemetry: generated.telemetry,
+      };
+    }
+
+    return {
+      interestLevel: sanitizeEnumValue(parsed.interestLevel, ["LOW", "MEDIUM", "HIGH"] as const),
+      perceivedPrice: sanitizeEnumValue(parsed.perceivedPrice, ["TOO_HIGH", "FAIR", "LOW"] as const),
+      positives: sanitizeStringList(parsed.positives),
+      negatives: sanitizeStringList(parsed.negatives),
+      offerIntention: sanitizeEnumValue(parsed.offerIntention, ["YES", "MAYBE", "NO"] as const),
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async computePropertyValuation(input: PropertyValuationInput): Promise<PropertyValuationResult> {
+    const generated = await this.requestJsonText("PROPERTY_VALUATION", [
+      "Tu es un expert en valorisation immobilière en France.",
+      "À partir des données fournies, propose une valorisation cohérente et justifiée.",
+      "Réponds uniquement en JSON:",
+      "{\"calculatedValuation\":number|null,\"justification\":string}.",
+      "Ne renvoie aucun texte hors JSON (pas de préambule, pas de balises de code).",
+      "La valeur justification doit être du Markdown (titres + listes à puces), pas du texte plat.",
+      "Si les données sont insuffisantes, renvoie calculatedValuation à null et explique pourquoi.",
+      "",
+      input.prompt,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        calculatedValuation: null,
+        justification: "Réponse IA invalide: valorisation indisponible.",
+        telemetry: generated.telemetry,
+      };
+    }
+
+    const rawValuation = parsed.calculatedValuation;
+    const numericValuation =
+      typeof rawValuation === "number" ? rawValuation : Number(rawValuation);
+
+    return {
+      calculatedValuation:
+        Number.isFinite(numericValuation) && numericValuation > 0 ? Math.round(numericValuation) : null,
+      justification: sanitizeOptionalString(parsed.justification) ?? "Justificatif IA indisponible.",
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async summarizeMessageThread(
+    input: SummarizeMessageThreadInput,
+  ): Promise<SummarizeMessageThreadResult> {
+    const generated = await this.requestJsonText("MESSAGE_THREAD_SUMMARY", [
+      "Tu résumes une conversation entre une agence immobilière et ses contacts.",
+      "Indique en 2 à 4 phrases l'objet de l'échange, les demandes en attente et la prochaine action.",
+      "Réponds uniquement en JSON: {\"summary\":string}.",
+      "",
+      `Objet: ${input.subject ?? ""}`,
+      ...input.messages.map(
+        (message) =>
+          `[${message.sentAt}] ${message.direction === "OUTBOUND" ? "Agence" : (message.sender ?? "Contact")}: ${message.body}`,
+      ),
+    ]);
+
+    const summary = sanitizeOptionalString(extractJsonObject(generated.text)?.summary);
+    if (!summary) {
+      throw new Error("Local LLM returned no thread summary");
+    }
+
+    return {
+      summary,
+      telemetry: generated.telemetry,
+    };
+  }
+
+  async draftMessageReply(input: DraftMessageReplyInput): Promise<DraftMessageReplyResult> {
+    const { property } = input;
+    const generated = await this.requestJsonText("MESSAGE_REPLY_DRAFT", [
+      input.tone,
+      "Rédige la réponse de l'agence au dernier message du contact, prête à être relue puis envoyée.",
+      "Appuie-toi uniquement sur les informations du bien et les créneaux fournis; n'invente ni prix ni disponibilité.",
+      input.channel === "WHATSAPP" || input.channel === "TELEGRAM"
+        ? "Canal messagerie instantanée: réponse courte, sans formule d'email."
+        : "Canal email: formule d'appel et de politesse attendues.",
+      "Réponds uniquement en JSON: {\"body\":string}.",
+      "",
+      `Destinataire: ${input.recipientName ?? ""}`,
+      `Bien: ${property.title} (${property.postalCode} ${property.city})`,
+      `Type: ${property.propertyType ?? ""}`,
+      `Prix: ${property.price ?? ""}`,
+      `Surface habitable: ${property.livingArea ?? ""}`,
+      `Pièces: ${property.rooms ?? ""}`,
+      `DPE: ${property.dpeClass ?? ""}`,
+      `Disponibilité: ${property.availability ?? ""}`,
+      `Créneaux de visite libres: ${input.visitSlots.map((slot) => slot.startsAt).join(", ")}`,
+      "",
+      "Conversation:",
+      ...input.messages.map(
+        (message) =>
+          `[${message.sentAt}] ${message.direction === "OUTBOUND" ? "Agence" : (message.sender ?? "Contact")}: ${message.body}`,
+      ),
+    ]);
+
+    const body = sanitizeOptionalString(extractJsonObject(generated.text)?.body);
+    if (!body) {
+      throw new Error("Local LLM returned no reply draft");
+    }
+
+    return {
+      body,
+      telemetry: generated.telemetry,
+    };
+  }
+
+  private async requestJsonText(
+    useCase: AICallUseCase,
+    promptLines: string[],
+    responseSchema?: ExtractVocalInsightsInput["responseSchema"],
+  ): Promise<{
+    text: string;
+    telemetry: AICallTelemetry;
+  }> {
+    const prompt = promptLines.join("\n");
+    const model = this.resolveModel(useCase);
+    const responseFormats: Array<Record<string, unknown> | null> = [
+      ...(responseSchema
+        ? [
+            {
+              type: "json_schema",
+              json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: true },
+            },
+          ]
+        : []),
+      { type: "json_object" },
+      null,
+    ];
+
+    let failure = "";
+    for (const responseFormat of responseFormats) {
+      const response = await this.createChatCompletion({
+        model,
+        messages: [{ role: "user", content: prompt }],
+        temperature: 0,
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      });
+
+      if (!response.ok) {
+        failure = `(${response.status}): ${await response.text()}`;
+        if (UNSUPPORTED_RESPONSE_FORMAT_STATUSES.has(response.status)) {
+          continue;
+        }
+        break;
+      }
+
+      const payload = (await response.json()) as unknown;
+      const content = extractChatCompletionMessage(payload)?.content;
+      const responseText = typeof content === "string" ? content.trim() : "";
+      const usage = extractChatCompletionUsage(payload);
+
+      return {
+        text: responseText,
+        telemetry: {
+          provider: "local",
+          model,
+          prompt,
+          responseText,
+          price: clampPriceUsd(
+            estimatePriceUsdFromUsage({ provider: "local", model, usage, prompt, responseText }),
+          ),
+          ...usage,
+        },
+      };
+    }
+
+    throw new Error(`Local LLM chat failed ${failure}`);
+  }
+}
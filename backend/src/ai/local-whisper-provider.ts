@@ -0,0 +1,89 @@
+import { externalFetch } from "../http/external-fetch";
+import { sanitizeTranscriptionSegments } from "./openai-provider";
+import { estimateTranscriptionPriceUsd } from "./pricing";
+import type {
+  TranscribeVocalInput,
+  TranscribeVocalResult,
+  TranscriptionProvider,
+} from "./provider";
+
+type LocalWhisperProviderOptions = {
+  baseUrl?: string;
+  model?: string;
+  apiKey?: string;
+  language?: string;
+};
+
+// Serveur local compatible OpenAI (whisper.cpp server, faster-whisper): seule la transcription est servie.
+export class LocalWhisperProvider implements TranscriptionProvider {
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly apiKey: string | null;
+  private readonly language: string | null;
+
+  constructor(options: LocalWhisperProviderOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? "http://127.0.0.1:8000/v1").replace(/\/+$/, "");
+    this.model = options.model ?? "whisper-1";
+    this.apiKey = options.apiKey?.trim() || null;
+    this.language = options.language?.trim() || null;
+  }
+
+  async transcribeVocal(input: TranscribeVocalInput): Promise<TranscribeVocalResult> {
+    const formData = new FormData();
+    formData.append("model", this.model);
+    formData.append(
+      "file",
+      new File([Buffer.from(input.audioData)], input.fileName || `vocal-${Date.now()}.wav`, {
+        type: input.mimeType || "audio/wav",
+      }),
+    );
+    formData.append("response_format", "verbose_json");
+    formData.append("timestamp_granularities[]", "segment");
+    // whisper.cpp transcrit en anglais par défaut: la langue est imposée quand elle est configurée.
+    if (this.language) {
+      formData.append("language", this.language);
+    }
+
+    const response = await externalFetch({
+      service: "whisper-local",
+      url: `${this.baseUrl}/audio/transcriptions`,
+      method: "POST",
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw new Error(`Local Whisper transcription failed (${response.status}): ${details}`);
+    }
+
+    const payload = (await response.json()) as {
+      text?: string;
+      duration?: number;
+      segments?: unknown;
+    };
+    const transcript = (payload.text ?? "").trim();
+
+    return {
+      transcript,
+      summary: transcript ? transcript.slice(0, 280) : "",
+      confidence: transcript ? 0.9 : 0.2,
+      segments: sanitizeTranscriptionSegments(payload.segments),
+      telemetry: {
+        provider: "whisper-local",
+        model: this.model,
+        prompt: [
+          "Transcription audio Whisper local",
+          `fileName: ${input.fileName}`,
+          `mimeType: ${input.mimeType}`,
+          `audioBytes: ${input.audioData.byteLength}`,
+        ].join("\n"),
+        responseText: transcript,
+        price: estimateTranscriptionPriceUsd({
+          provider: "whisper-local",
+          durationInSeconds: payload.duration,
+        }),
+      },
+    };
+  }
+}
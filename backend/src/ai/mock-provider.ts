@@ -4,14 +4,20 @@ import type {
   ClassifyFileResult,
   DetectVocalTypeInput,
   DetectVocalTypeResult,
+  DraftMessageReplyInput,
+  DraftMessageReplyResult,
   ExtractVocalInsightsInput,
   ExtractVocalInsightsResult,
   ExtractInitialVisitPropertyParamsInput,
   ExtractInitialVisitPropertyParamsResult,
+  ExtractVisitFeedbackInput,
+  ExtractVisitFeedbackResult,
   MatchMessageToPropertyInput,
   MatchMessageToPropertyResult,
   PropertyValuationInput,
   PropertyValuationResult,
+  SummarizeMessageThreadInput,
+  SummarizeMessageThreadResult,
   TranscribeVocalInput,
   TranscribeVocalResult,
 } from "./provider";
@@ -57,6 +63,131 @@ const classifyByFilename = (input: ClassifyFileInput): ClassifyFileResult => {
   };
 };
 
+const classifyContentRules: Array<{ pattern: RegExp; typeDocument: string; confidence: number }> = [
+  {
+    pattern: /diagnostic de performance energetique|etiquette (energie|climat)|classe energie/,
+    typeDocument: "DPE",
+    confidence: 0.93,
+  },
+  {
+    pattern: /reperage (des )?(materiaux|produits).{0,60}amiante|constat amiante/,
+    typeDocument: "AMIANTE",
+    confidence: 0.91,
+  },
+  {
+    pattern: /constat de risque d.exposition au plomb|\bcrep\b/,
+    typeDocument: "PLOMB",
+    confidence: 0.91,
+  },
+  {
+    pattern: /installation interieure d.electricite/,
+    typeDocument: "ELECTRICITE",
+    confidence: 0.9,
+  },
+  { pattern: /installation interieure de gaz/, typeDocument: "GAZ", confidence: 0.9 },
+  {
+    pattern: /taxe fonciere|avis d.impot.{0,40}foncier/,
+    typeDocument: "TAXE_FONCIERE",
+    confidence: 0.9,
+  },
+  {
+    pattern: /titre de propriete|attestation (immobiliere|de propriete)|acte authentique de vente/,
+    typeDocument: "TITRE_PROPRIETE",
+    confidence: 0.88,
+  },
+  {
+    pattern: /mandat (exclusif |simple |semi.exclusif )?de vente/,
+    typeDocument: "MANDAT_VENTE_SIGNE",
+    confidence: 0.88,
+  },
+  {
+    pattern: /carte nationale d.identite|passeport/,
+    typeDocument: "PIECE_IDENTITE",
+    confidence: 0.88,
+  },
+  {
+    pattern: /compromis de vente|promesse (unilaterale |synallagmatique )?de vente/,
+    typeDocument: "COMPROMIS_OU_PROMESSE",
+    confidence: 0.88,
+  },
+  {
+    pattern: /loi carrez|superficie privative/,
+    typeDocument: "LOI_CARREZ",
+    confidence: 0.9,
+  },
+  {
+    pattern: /appel de (fonds|charges)|charges de copropriete/,
+    typeDocument: "MONTANT_CHARGES",
+    confidence: 0.84,
+  },
+];
+
+const CONTENT_SNIPPET_RADIUS = 80;
+
+const extractContentSnippet = (content: string, pattern: RegExp): string | null => {
+  const source = content.replace(/\s+/g, " ");
+  const originalIndexes: number[] = [];
+  let haystack = "";
+
+  for (let index = 0; index < source.length; index += 1) {
+    const normalizedChar = normalize(source[index]);
+    haystack += normalizedChar;
+    for (let offset = 0; offset < normalizedChar.length; offset += 1) {
+      originalIndexes.push(index);
+    }
+  }
+
+  const match = pattern.exec(haystack);
+  if (!match) {
+    return null;
+  }
+
+  const matchStart = originalIndexes[match.index] ?? 0;
+  const matchEnd = originalIndexes[match.index + match[0].length - 1] ?? matchStart;
+  const start = Math.max(0, matchStart - CONTENT_SNIPPET_RADIUS);
+  const end = Math.min(source.length, matchEnd + 1 + CONTENT_SNIPPET_RADIUS);
+
+  return `${start > 0 ? "…" : ""}${source.slice(start, end).trim()}${end < source.length ? "…" : ""}`;
+};
+
+const classifyByContent = (input: ClassifyFileInput): ClassifyFileResult | null => {
+  if (!input.content?.trim()) {
+    return null;
+  }
+
+  for (const rule of classifyContentRules) {
+    const snippet = extractContentSnippet(input.content, rule.pattern);
+    if (snippet) {
+      return {
+        typeDocument: rule.typeDocument,
+        confidence: rule.confidence,
+        reasoning: `Motif '${rule.pattern.source}' détecté dans le contenu`,
+        snippet,
+      };
+    }
+  }
+
+  return null;
+};
+
+const classifyByContentAndFilename = (input: ClassifyFileInput): ClassifyFileResult => {
+  const byFilename = classifyByFilename(input);
+  const byContent = classifyByContent(input);
+  if (!byContent) {
+    return byFilename;
+  }
+
+  if (byFilename.typeDocument && byFilename.typeDocument !== byContent.typeDocument) {
+    return {
+      ...byContent,
+      confidence: 0.5,
+      reasoning: `Contenu (${byContent.typeDocument}) et nom de fichier (${byFilename.typeDocument}) divergents`,
+    };
+  }
+
+  return byContent;
+};
+
 const findPropertyMatch = (
   input: MatchMessageToPropertyInput,
 ): MatchMessageToPropertyResult => {
@@ -231,6 +362,20 @@ const extractInitialVisitPropertyParams = (
   };
 };
 
+// Avec un schéma imposé, le mock ne renvoie que les champs déclarés (les absents valent null).
+const pickDeclaredInsights = (
+  schema: Record<string, unknown>,
+  candidates: Record<string, unknown>,
+): Record<string, unknown> => {
+  const insightsSchema = (schema.properties as Record<string, { properties?: Record<string, unknown> }> | undefined)
+    ?.insights;
+  const declaredKeys = Object.keys(insightsSchema?.properties ?? {});
+
+  return Object.fromEntries(
+    declaredKeys.map((key) => [key, key in candidates ? candidates[key] : null]),
+  );
+};
+
 const extractInsights = (
   input: ExtractVocalInsightsInput,
 ): ExtractVocalInsightsResult => {
@@ -245,6 +390,17 @@ const extractInsights = (
   const priceMatch = transcript.match(/(\d{2,3}(?:[ .]?\d{3})+)/);
   const budget = priceMatch ? Number(priceMatch[1].replace(/[ .]/g, "")) : null;
 
+  if (input.responseSchema) {
+    return {
+      insights: pickDeclaredInsights(input.responseSchema.schema, {
+        nextAction: "Rappeler le client pour caler une visite",
+        sentiment: "POSITIF",
+        budget,
+      }),
+      confidence: 0.8,
+    };
+  }
+
   return {
     insights: {
       nextAction: "Rappeler le client pour caler une visite",
@@ -256,6 +412,64 @@ const extractInsights = (
   };
 };
 
+const VISIT_FEEDBACK_POSITIVE_RULES: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /lumineu|luminosite/, label: "Luminosité" },
+  { pattern: /calme/, label: "Calme" },
+  { pattern: /balcon|terrasse/, label: "Extérieur" },
+  { pattern: /belle vue|vue degagee/, label: "Vue" },
+  { pattern: /bien situe|emplacement/, label: "Emplacement" },
+];
+
+const VISIT_FEEDBACK_NEGATIVE_RULES: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /travaux/, label: "Travaux à prévoir" },
+  { pattern: /bruyant|bruit/, label: "Bruit" },
+  { pattern: /trop petit|manque de place/, label: "Surface" },
+  { pattern: /sombre/, label: "Manque de lumière" },
+  { pattern: /pas de parking|sans parking/, label: "Stationnement" },
+];
+
+const extractVisitFeedback = (input: ExtractVisitFeedbackInput): ExtractVisitFeedbackResult => {
+  const normalized = normalize(`${input.transcript}\n${input.summary ?? ""}`);
+
+  const interestLevel = /pas interesse|peu interesse|pas convaincu/.test(normalized)
+    ? "LOW"
+    : /tres interesse|coup de coeur|emballe/.test(normalized)
+      ? "HIGH"
+      : /interesse/.test(normalized)
+        ? "MEDIUM"
+        : null;
+  const perceivedPrice = /trop cher|prix eleve|prix trop haut/.test(normalized)
+    ? "TOO_HIGH"
+    : /pas cher|bonne affaire|prix bas/.test(normalized)
+      ? "LOW"
+      : /prix correct|prix juste|bon prix/.test(normalized)
+        ? "FAIR"
+        : null;
+  const offerIntention = /pas d'offre|aucune offre|ne fera pas d'offre/.test(normalized)
+    ? "NO"
+    : /faire une offre|fera une offre|va proposer/.test(normalized)
+      ? "YES"
+      : /reflechir|hesite/.test(normalized)
+        ? "MAYBE"
+        : null;
+  const positives = VISIT_FEEDBACK_POSITIVE_RULES.filter((rule) => rule.pattern.test(normalized)).map(
+    (rule) => rule.label,
+  );
+  const negatives = VISIT_FEEDBACK_NEGATIVE_RULES.filter((rule) => rule.pattern.test(normalized)).map(
+    (rule) => rule.label,
+  );
+
+  const signals = [interestLevel, perceivedPrice, offerIntention].filter((value) => value !== null).length;
+  return {
+    interestLevel,
+    perceivedPrice,
+    positives,
+    negatives,
+    offerIntention,
+    confidence: Math.min(0.9, 0.3 + signals * 0.2),
+  };
+};
+
 const parsePromptPrice = (prompt: string, labelPattern: RegExp): number | null => {
   const match = prompt.match(labelPattern);
   if (!match?.[1]) {
@@ -287,6 +501,70 @@ const computeMockValuation = (input: PropertyValuationInput): PropertyValuationR
   };
 };
 
+const THREAD_SUMMARY_EXCERPT_LENGTH = 160;
+
+const summarizeThread = (input: SummarizeMessageThreadInput): SummarizeMessageThreadResult => {
+  const last = input.messages.at(-1);
+  if (!last) {
+    return { summary: "Aucun message dans cette conversation." };
+  }
+
+  const excerpt = last.body.replace(/\s+/g, " ").trim();
+  const author = last.direction === "OUTBOUND" ? "l'agence" : (last.sender ?? "le contact");
+  return {
+    summary: [
+      `${input.messages.length} message(s) échangé(s)${input.subject ? ` sur « ${input.subject} »` : ""}.`,
+      `Dernier message de ${author} : ${
+        excerpt.length > THREAD_SUMMARY_EXCERPT_LENGTH
+          ? `${excerpt.slice(0, THREAD_SUMMARY_EXCERPT_LENGTH)}...`
+          : excerpt
+      }`,
+    ].join(" "),
+  };
+};
+
+const formatVisitSlot = (startsAt: string): string => {
+  const date = new Date(startsAt);
+  const day = new Intl.DateTimeFormat("fr-FR", {
+    timeZone: "Europe/Paris",
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+  }).format(date);
+  const time = new Intl.DateTimeFormat("fr-FR", {
+    timeZone: "Europe/Paris",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(date);
+  return `${day} à ${time.replace(":", "h")}`;
+};
+
+const draftReply = (input: DraftMessageReplyInput): DraftMessageReplyResult => {
+  const { property } = input;
+  const facts = [
+    typeof property.price === "number" ? `proposé à ${property.price.toLocaleString("fr-FR")} €` : null,
+    typeof property.livingArea === "number" ? `${property.livingArea} m²` : null,
+    typeof property.rooms === "number" ? `${property.rooms} pièce(s)` : null,
+    property.dpeClass ? `DPE ${property.dpeClass}` : null,
+    property.availability ? `disponible ${property.availability}` : null,
+  ].filter((fact): fact is string => Boolean(fact));
+  const slots = input.visitSlots.slice(0, 3).map((slot) => formatVisitSlot(slot.startsAt));
+
+  return {
+    body: [
+      `Bonjour${input.recipientName ? ` ${input.recipientName}` : ""},`,
+      "",
+      `Merci pour votre message concernant « ${property.title} » à ${property.city}.`,
+      ...(facts.length > 0 ? [`Le bien est ${facts.join(", ")}.`] : []),
+      slots.length > 0
+        ? `Je peux vous proposer une visite ${slots.join(", ou ")}.`
+        : "Je reviens vers vous rapidement avec des disponibilités de visite.",
+      "",
+      "Bien cordialement,",
+    ].join("\n"),
+  };
+};
+
 export class MockAIProvider implements AIProvider {
   async matchMessageToProperty(
     input: MatchMessageToPropertyInput,
@@ -295,7 +573,7 @@ export class MockAIProvider implements AIProvider {
   }
 
   async classifyFile(input: ClassifyFileInput): Promise<ClassifyFileResult> {
-    return classifyByFilename(input);
+    return classifyByContentAndFilename(input);
   }
 
   async transcribeVocal(input: TranscribeVocalInput): Promise<TranscribeVocalResult> {
@@ -318,7 +596,21 @@ export class MockAIProvider implements AIProvider {
     return extractInitialVisitPropertyParams(input);
   }
 
+  async extractVisitFeedback(input: ExtractVisitFeedbackInput): Promise<ExtractVisitFeedbackResult> {
+    return extractVisitFeedback(input);
+  }
+
   async computePropertyValuation(input: PropertyValuationInput): Promise<PropertyValuationResult> {
     return computeMockValuation(input);
   }
+
+  async summarizeMessageThread(
+    input: SummarizeMessageThreadInput,
+  ): Promise<SummarizeMessageThreadResult> {
+    return summarizeThread(input);
+  }
+
+  async draftMessageReply(input: DraftMessageReplyInput): Promise<DraftMessageReplyResult> {
+    return draftReply(input);
+  }
 }
@@ -1,7 +1,11 @@
 import { createOpenAI } from "@ai-sdk/openai";
-import { generateText } from "ai";
+import { generateText, jsonSchema, Output } from "ai";
 import { MockAIProvider } from "./mock-provider";
-import { clampPriceUsd, estimatePriceUsdFromUsage } from "./pricing";
+import {
+  clampPriceUsd,
+  estimateOpenAITranscriptionPriceUsd,
+  estimatePriceUsdFromUsage,
+} from "./pricing";
 import { externalFetch } from "../http/external-fetch";
 import type {
   AICallTelemetry,
@@ -10,16 +14,23 @@ import type {
   ClassifyFileResult,
   DetectVocalTypeInput,
   DetectVocalTypeResult,
+  DraftMessageReplyInput,
+  DraftMessageReplyResult,
   ExtractInitialVisitPropertyParamsInput,
   ExtractInitialVisitPropertyParamsResult,
+  ExtractVisitFeedbackInput,
+  ExtractVisitFeedbackResult,
   ExtractVocalInsightsInput,
   ExtractVocalInsightsResult,
   MatchMessageToPropertyInput,
   MatchMessageToPropertyResult,
   PropertyValuationInput,
   PropertyValuationResult,
+  SummarizeMessageThreadInput,
+  SummarizeMessageThreadResult,
   TranscribeVocalInput,
   TranscribeVocalResult,
+  TranscribeVocalSegment,
   VocalType,
 } from "./provider";
 
@@ -128,6 +139,43 @@ const sanitizeOptionalString = (value: unknown): string | null => {
   return trimmed ? trimmed : null;
 };
 
+const sanitizeEnumValue = <T extends string>(value: unknown, allowed: readonly T[]): T | null =>
+  typeof value === "string" && (allowed as readonly string[]).includes(value) ? (value as T) : null;
+
+const sanitizeStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.map(sanitizeOptionalString).filter((item): item is string => item !== null)
+    : [];
+
+// verbose_json (whisper) et diarized_json renvoient des segments horodatés en secondes.
+export const sanitizeTranscriptionSegments = (value: unknown): TranscribeVocalSegment[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  const segments = value.flatMap((item): TranscribeVocalSegment[] => {
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+
+    const { start, end, text, speaker } = item as Record<string, unknown>;
+    if (typeof start !== "number" || typeof end !== "number" || typeof text !== "string" || !text.trim()) {
+      return [];
+    }
+
+    return [
+      {
+        startMs: Math.round(start * 1000),
+        endMs: Math.round(end * 1000),
+        text: text.trim(),
+        speaker: typeof speaker === "string" && speaker.trim() ? speaker.trim() : null,
+      },
+    ];
+  });
+
+  return segments.length > 0 ? segments : undefined;
+};
+
 type OpenAIProviderOptions = {
   apiKey: string;
   baseUrl?: string;
@@ -174,6 +222,13 @@ export class OpenAIProvider implements AIProvider {
         type: input.mimeType || "audio/wav",
       }),
     );
+    if (this.whisperModel.includes("diarize")) {
+      formData.append("response_format", "diarized_json");
+      formData.append("chunking_strategy", "auto");
+    } else if (this.whisperModel.startsWith("whisper")) {
+      formData.append("response_format", "verbose_json");
+      formData.append("timestamp_granularities[]", "segment");
+    }
 
     const response = await externalFetch({
       service: "openai",
@@ -190,13 +245,18 @@ export class OpenAIProvider implements AIProvider {
       throw new Error(`OpenAI transcription failed (${response.status}): ${details}`);
     }
 
-    const payload = (await response.json()) as { text?: string };
+    const payload = (await response.json()) as {
+      text?: string;
+      duration?: number;
+      segments?: unknown;
+    };
     const transcript = (payload.text ?? "").trim();
 
     return {
       transcript,
       summary: transcript ? transcript.slice(0, 280) : "",
       confidence: transcript ? 0.9 : 0.2,
+      segments: sanitizeTranscriptionSegments(payload.segments),
       telemetry: {
         provider: "openai",
         model: this.whisperModel,
@@ -207,7 +267,7 @@ export class OpenAIProvider implements AIProvider {
           `audioBytes: ${input.audioData.byteLength}`,
         ].join("\n"),
         responseText: transcript,
-        price: 0,
+        price: estimateOpenAITranscriptionPriceUsd({ durationInSeconds: payload.duration }),
       },
     };
   }
@@ -215,14 +275,20 @@ export class OpenAIProvider implements AIProvider {
   async extractVocalInsights(
     input: ExtractVocalInsightsInput,
   ): Promise<ExtractVocalInsightsResult> {
-    const generated = await this.requestJsonText([
-      "Tu extrais des insights métier immobilier à partir d'une transcription d'appel vocal.",
-      "Réponds uniquement en JSON: {\"insights\":object,\"confidence\":number}.",
-      "confidence est entre 0 et 1.",
-      "",
-      `Transcript: ${input.transcript}`,
-      `Summary: ${input.summary ?? ""}`,
-    ]);
+    const generated = await this.requestJsonText(
+      [
+        "Tu extrais des insights métier immobilier à partir d'une transcription d'appel vocal.",
+        "Réponds uniquement en JSON: {\"insights\":object,\"confidence\":number}.",
+        ...(input.responseSchema
+          ? ["Les champs de insights sont imposés par le schéma: mets null quand l'information n'est pas dans le vocal."]
+          : []),
+        "confidence est entre 0 et 1.",
+        "",
+        `Transcript: ${input.transcript}`,
+        `Summary: ${input.summary ?? ""}`,
+      ],
+      input.responseSchema,
+    );
 
     const parsed = extractJsonObject(generated.text);
     if (!parsed) {
@@ -322,6 +388,42 @@ export class OpenAIProvider implements AIProvider {
     };
   }
 
+  async extractVisitFeedback(input: ExtractVisitFeedbackInput): Promise<ExtractVisitFeedbackResult> {
+    const generated = await this.requestJsonText([
+      "Tu extrais le retour d'un visiteur depuis le compte rendu vocal d'une visite immobilière.",
+      "Réponds uniquement en JSON:",
+      "{\"interestLevel\":\"LOW|MEDIUM|HIGH\"|null,\"perceivedPrice\":\"TOO_HIGH|FAIR|LOW\"|null,\"positives\":string[],\"negatives\":string[],\"offerIntention\":\"YES|MAYBE|NO\"|null,\"confidence\":number}.",
+      "positives et negatives: points courts (quelques mots) cités par le visiteur.",
+      "Ne pas inventer, utiliser null ou une liste vide si absent.",
+      "",
+      `Transcript: ${input.transcript}`,
+      `Summary: ${input.summary ?? ""}`,
+    ]);
+
+    const parsed = extractJsonObject(generated.text);
+    if (!parsed) {
+      return {
+        interestLevel: null,
+        perceivedPrice: null,
+        positives: [],
+        negatives: [],
+        offerIntention: null,
+        confidence: 0.2,
+        telemetry: generated.telemetry,
+      };
+    }
+
+    return {
+      interestLevel: sanitizeEnumValue(parsed.interestLevel, ["LOW", "MEDIUM", "HIGH"] as const),
+      perceivedPrice: sanitizeEnumValue(parsed.perceivedPrice, ["TOO_HIGH", "FAIR", "LOW"] as const),
+      positives: sanitizeStringList(parsed.positives),
+      negatives: sanitizeStringList(parsed.negatives),
+      offerIntention: sanitizeEnumValue(parsed.offerIntention, ["YES", "MAYBE", "NO"] as const),
+      confidence: clampConfidence(parsed.confidence, 0.45),
+      telemetry: generated.telemetry,
+    };
+  }
+
   async computePropertyValuation(input: PropertyValuationInput): Promise<PropertyValuationResult> {
     try {
       const generated = await this.requestJsonText([
@@ -365,7 +467,93 @@ export class OpenAIProvider implements AIProvider {
     }
   }
 
-  private async requestJsonText(promptLines: string[]): Promise<{
+  async summarizeMessageThread(
+    input: SummarizeMessageThreadInput,
+  ): Promise<SummarizeMessageThreadResult> {
+    try {
+      const generated = await this.requestJsonText([
+        "Tu résumes une conversation entre une agence immobilière et ses contacts.",
+        "Indique en 2 à 4 phrases l'objet de l'échange, les demandes en attente et la prochaine action.",
+        "Réponds uniquement en JSON: {\"summary\":string}.",
+        "",
+        `Objet: ${input.subject ?? ""}`,
+        ...input.messages.map(
+          (message) =>
+            `[${message.sentAt}] ${message.direction === "OUTBOUND" ? "Agence" : (message.sender ?? "Contact")}: ${message.body}`,
+        ),
+      ]);
+
+      const parsed = extractJsonObject(generated.text);
+      const summary = sanitizeOptionalString(parsed?.summary);
+      if (!summary) {
+        const fallback = await this.fallbackProvider.summarizeMessageThread(input);
+        return {
+          ...fallback,
+          telemetry: generated.telemetry,
+        };
+      }
+
+      return {
+        summary,
+        telemetry: generated.telemetry,
+      };
+    } catch {
+      return this.fallbackProvider.summarizeMessageThread(input);
+    }
+  }
+
+  async draftMessageReply(input: DraftMessageReplyInput): Promise<DraftMessageReplyResult> {
+    try {
+      const { property } = input;
+      const generated = await this.requestJsonText([
+        input.tone,
+        "Rédige la réponse de l'agence au dernier message du contact, prête à être relue puis envoyée.",
+        "Appuie-toi uniquement sur les informations du bien et les créneaux fournis; n'invente ni prix ni disponibilité.",
+        input.channel === "WHATSAPP" || input.channel === "TELEGRAM"
+          ? "Canal messagerie instantanée: réponse courte, sans formule d'email."
+          : "Canal email: formule d'appel et de politesse attendues.",
+        "Réponds uniquement en JSON: {\"body\":string}.",
+        "",
+        `Destinataire: ${input.recipientName ?? ""}`,
+        `Bien: ${property.title} (${property.postalCode} ${property.city})`,
+        `Type: ${property.propertyType ?? ""}`,
+        `Prix: ${property.price ?? ""}`,
+        `Surface habitable: ${property.livingArea ?? ""}`,
+        `Pièces: ${property.rooms ?? ""}`,
+        `DPE: ${property.dpeClass ?? ""}`,
+        `Disponibilité: ${property.availability ?? ""}`,
+        `Créneaux de visite libres: ${input.visitSlots.map((slot) => slot.startsAt).join(", ")}`,
+        "",
+        "Conversation:",
+        ...input.messages.map(
+          (message) =>
+            `[${message.sentAt}] ${message.direction === "OUTBOUND" ? "Agence" : (message.sender ?? "Contact")}: ${message.body}`,
+        ),
+      ]);
+
+      const parsed = extractJsonObject(generated.text);
+      const body = sanitizeOptionalString(parsed?.body);
+      if (!body) {
+        const fallback = await this.fallbackProvider.draftMessageReply(input);
+        return {
+          ...fallback,
+          telemetry: generated.telemetry,
+        };
+      }
+
+      return {
+        body,
+        telemetry: generated.telemetry,
+      };
+    } catch {
+      return this.fallbackProvider.draftMessageReply(input);
+    }
+  }
+
+  private async requestJsonText(
+    promptLines: string[],
+    responseSchema?: ExtractVocalInsightsInput["responseSchema"],
+  ): Promise<{
     text: string;
     telemetry: AICallTelemetry;
   }> {
@@ -376,6 +564,9 @@ export class OpenAIProvider implements AIProvider {
         model: this.openai(this.chatModel),
         prompt,
         maxRetries: 0,
+        ...(responseSchema
+          ? { output: Output.object({ schema: jsonSchema(responseSchema.schema), name: responseSchema.name }) }
+          : {}),
       });
       const responseText = result.text.trim();
       const usage = result.usage;
@@ -402,7 +593,7 @@ export class OpenAIProvider implements AIProvider {
       };
     } catch {
       try {
-        const legacyText = await this.requestJsonTextLegacy(prompt);
+        const legacyText = await this.requestJsonTextLegacy(prompt, responseSchema);
         const price = estimatePriceUsdFromUsage({
           provider: "openai",
           model: this.chatModel,
@@ -427,7 +618,10 @@ export class OpenAIProvider implements AIProvider {
     }
   }
 
-  private async requestJsonTextLegacy(prompt: string): Promise<string> {
+  private async requestJsonTextLegacy(
+    prompt: string,
+    responseSchema?: ExtractVocalInsightsInput["responseSchema"],
+  ): Promise<string> {
     const response = await externalFetch({
       service: "openai",
       url: `${this.baseUrl}/responses`,
@@ -439,6 +633,18 @@ export class OpenAIProvider implements AIProvider {
       body: JSON.stringify({
         model: this.chatModel,
         input: prompt,
+        ...(responseSchema
+          ? {
+              text: {
+                format: {
+                  type: "json_schema",
+                  name: responseSchema.name,
+                  schema: responseSchema.schema,
+                  strict: true,
+                },
+              },
+            }
+          : {}),
       }),
     });
 
@@ -4,7 +4,7 @@ type UsageLike = {
   totalTokens?: number;
 };
 
-type ProviderKind = "openai" | "anthropic";
+type ProviderKind = "openai" | "anthropic" | "local";
 
 type Rate = {
   inputUsdPer1MTokens: number;
@@ -87,6 +87,11 @@ const resolveRate = (
   model: string,
   env: Record<string, string | undefined>,
 ): Rate => {
+  // Un LLM local (Ollama, vLLM, LM Studio) n'est pas facturé au token.
+  if (provider === "local") {
+    return { inputUsdPer1MTokens: 0, outputUsdPer1MTokens: 0 };
+  }
+
   const envRate = resolveRateFromEnv(provider, env);
   if (envRate) {
     return envRate;
@@ -135,13 +140,27 @@ export const estimatePriceUsdFromUsage = (input: {
   return roundUsd(Math.max(0, inputCost + outputCost));
 };
 
-export const estimateOpenAITranscriptionPriceUsd = (input: {
+type TranscriptionProviderKind = "openai" | "whisper-local";
+
+// Un serveur Whisper local (whisper.cpp, faster-whisper) tourne sur l'infrastructure de l'agence: coût nul.
+const resolveTranscriptionPricePerMinute = (
+  provider: TranscriptionProviderKind,
+  env: Record<string, string | undefined>,
+): number => {
+  if (provider === "whisper-local") {
+    return 0;
+  }
+
+  return parsePositiveNumber(env.OPENAI_WHISPER_PRICE_USD_PER_MINUTE) ?? 0.006;
+};
+
+export const estimateTranscriptionPriceUsd = (input: {
+  provider: TranscriptionProviderKind;
   durationInSeconds?: number;
   env?: Record<string, string | undefined>;
 }): number => {
   const env = input.env ?? process.env;
-  const pricePerMinute =
-    parsePositiveNumber(env.OPENAI_WHISPER_PRICE_USD_PER_MINUTE) ?? 0.006;
+  const pricePerMinute = resolveTranscriptionPricePerMinute(input.provider, env);
   const durationInSeconds =
     typeof input.durationInSeconds === "number" &&
     Number.isFinite(input.durationInSeconds) &&
@@ -152,6 +171,11 @@ export const estimateOpenAITranscriptionPriceUsd = (input: {
   return roundUsd((durationInSeconds / 60) * pricePerMinute);
 };
 
+export const estimateOpenAITranscriptionPriceUsd = (input: {
+  durationInSeconds?: number;
+  env?: Record<string, string | undefined>;
+}): number => estimateTranscriptionPriceUsd({ ...input, provider: "openai" });
+
 export const clampPriceUsd = (value: unknown): number => {
   if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
     return 0;
@@ -34,12 +34,14 @@ export type MatchMessageToPropertyResult = {
 export type ClassifyFileInput = {
   fileName: string;
   mimeType: string;
+  content?: string | null;
 };
 
 export type ClassifyFileResult = {
   typeDocument: string | null;
   confidence: number;
   reasoning: string;
+  snippet?: string | null;
   telemetry?: AICallTelemetry;
 };
 
@@ -49,16 +51,30 @@ export type TranscribeVocalInput = {
   audioData: Uint8Array;
 };
 
+// Horodatage relatif au fichier transmis; speaker est le libellé brut du provider (diarisation).
+export type TranscribeVocalSegment = {
+  startMs: number;
+  endMs: number;
+  text: string;
+  speaker?: string | null;
+};
+
 export type TranscribeVocalResult = {
   transcript: string;
   summary: string;
   confidence: number;
+  segments?: TranscribeVocalSegment[];
   telemetry?: AICallTelemetry;
 };
 
 export type ExtractVocalInsightsInput = {
   transcript: string;
   summary?: string | null;
+  // JSON schema de la réponse attendue ({ insights, confidence }) selon le type du vocal.
+  responseSchema?: {
+    name: string;
+    schema: Record<string, unknown>;
+  };
 };
 
 export type ExtractVocalInsightsResult = {
@@ -101,6 +117,25 @@ export type ExtractInitialVisitPropertyParamsResult = {
   telemetry?: AICallTelemetry;
 };
 
+export type VisitFeedbackInterestLevel = "LOW" | "MEDIUM" | "HIGH";
+export type VisitFeedbackPerceivedPrice = "TOO_HIGH" | "FAIR" | "LOW";
+export type VisitFeedbackOfferIntention = "YES" | "MAYBE" | "NO";
+
+export type ExtractVisitFeedbackInput = {
+  transcript: string;
+  summary?: string | null;
+};
+
+export type ExtractVisitFeedbackResult = {
+  interestLevel: VisitFeedbackInterestLevel | null;
+  perceivedPrice: VisitFeedbackPerceivedPrice | null;
+  positives: string[];
+  negatives: string[];
+  offerIntention: VisitFeedbackOfferIntention | null;
+  confidence: number;
+  telemetry?: AICallTelemetry;
+};
+
 export type PropertyValuationInput = {
   prompt: string;
 };
@@ -111,6 +146,51 @@ export type PropertyValuationResult = {
   telemetry?: AICallTelemetry;
 };
 
+export type MessageThreadEntry = {
+  direction: "INBOUND" | "OUTBOUND";
+  sender?: string | null;
+  sentAt: string;
+  subject?: string | null;
+  body: string;
+};
+
+export type SummarizeMessageThreadInput = {
+  subject?: string | null;
+  messages: MessageThreadEntry[];
+};
+
+export type SummarizeMessageThreadResult = {
+  summary: string;
+  telemetry?: AICallTelemetry;
+};
+
+export type DraftMessageReplyProperty = {
+  title: string;
+  city: string;
+  postalCode: string;
+  price?: number | null;
+  propertyType?: string | null;
+  livingArea?: number | null;
+  rooms?: number | null;
+  dpeClass?: string | null;
+  availability?: string | null;
+};
+
+export type DraftMessageReplyInput = {
+  // Persona de l'organisation (assistantSoul) qui fixe le ton.
+  tone: string;
+  channel: "GMAIL" | "WHATSAPP" | "TELEGRAM" | "EMAIL";
+  recipientName?: string | null;
+  messages: MessageThreadEntry[];
+  property: DraftMessageReplyProperty;
+  visitSlots: Array<{ startsAt: string; endsAt: string }>;
+};
+
+export type DraftMessageReplyResult = {
+  body: string;
+  telemetry?: AICallTelemetry;
+};
+
 export interface AIProvider {
   matchMessageToProperty(
     input: MatchMessageToPropertyInput,
@@ -124,5 +204,10 @@ export interface AIProvider {
   extractInitialVisitPropertyParams(
     input: ExtractInitialVisitPropertyParamsInput,
   ): Promise<ExtractInitialVisitPropertyParamsResult>;
+  extractVisitFeedback(input: ExtractVisitFeedbackInput): Promise<ExtractVisitFeedbackResult>;
   computePropertyValuation(input: PropertyValuationInput): Promise<PropertyValuationResult>;
+  summarizeMessageThread(input: SummarizeMessageThreadInput): Promise<SummarizeMessageThreadResult>;
+  draftMessageReply(input: DraftMessageReplyInput): Promise<DraftMessageReplyResult>;
 }
+
+export type TranscriptionProvider = Pick<AIProvider, "transcribeVocal">;
@@ -1,6 +1,7 @@
 import { and, asc, eq, inArray } from "drizzle-orm";
 import { trackAICallSafe } from "../ai/call-logs";
-import { resolveAIProviderKindForOrg } from "../ai/factory";
+import { getAIProviderForKind, resolveAIProviderKindForOrg } from "../ai/factory";
+import { extractChatCompletionMessage, LocalLLMProvider } from "../ai/local-llm-provider";
 import { clampPriceUsd, estimatePriceUsdFromUsage } from "../ai/pricing";
 import { DEFAULT_ASSISTANT_SOUL } from "../auth/service";
 import { calendarService } from "../calendar/service";
@@ -20,7 +21,9 @@ import {
   type ObjectFieldDefinition,
 } from "../object-data/structure";
 import { linksService } from "../links/service";
+import { offersService } from "../offers/service";
 import { propertiesService } from "../properties/service";
+import { tasksService } from "../tasks/service";
 import { usersService } from "../users/service";
 import {
   assistantWebSearchProvider,
@@ -28,7 +31,7 @@ import {
   type AssistantWebSearchTrace,
 } from "./web-search";
 
-export type AssistantObjectType = "bien" | "user" | "rdv" | "lien";
+export type AssistantObjectType = "bien" | "user" | "rdv" | "lien" | "tache" | "offre";
 
 export type AssistantMessageResponse = {
   id: string;
@@ -145,7 +148,7 @@ const ASSISTANT_OPENAI_TOOL_DEFINITIONS = [
     type: "function",
     name: "search",
     description:
-      "Recherche des objets métiers locaux (bien, user, rdv, lien) dans la base Monimmo.",
+      "Recherche des objets métiers locaux (bien, user, rdv, lien, tache, offre) dans la base Monimmo.",
     parameters: {
       type: "object",
       properties: {
@@ -155,7 +158,7 @@ const ASSISTANT_OPENAI_TOOL_DEFINITIONS = [
         },
         objectType: {
           type: "string",
-          enum: ["bien", "user", "rdv", "lien"],
+          enum: ["bien", "user", "rdv", "lien", "tache", "offre"],
           description: "Type d'objet ciblé. Optionnel.",
         },
       },
@@ -172,7 +175,7 @@ const ASSISTANT_OPENAI_TOOL_DEFINITIONS = [
       properties: {
         objectType: {
           type: "string",
-          enum: ["bien", "user", "rdv", "lien"],
+          enum: ["bien", "user", "rdv", "lien", "tache", "offre"],
         },
         objectId: {
           type: "string",
@@ -193,7 +196,7 @@ const ASSISTANT_OPENAI_TOOL_DEFINITIONS = [
       properties: {
         objectType: {
           type: "string",
-          enum: ["bien", "user", "rdv", "lien"],
+          enum: ["bien", "user", "rdv", "lien", "tache", "offre"],
         },
         typeLien: {
           type: "string",
@@ -214,7 +217,7 @@ const ASSISTANT_OPENAI_TOOL_DEFINITIONS = [
       properties: {
         objectType: {
           type: "string",
-          enum: ["bien", "user", "rdv", "lien"],
+          enum: ["bien", "user", "rdv", "lien", "tache", "offre"],
         },
         params: {
           type: "object",
@@ -235,7 +238,7 @@ const ASSISTANT_OPENAI_TOOL_DEFINITIONS = [
       properties: {
         objectType: {
           type: "string",
-          enum: ["bien", "user", "rdv", "lien"],
+          enum: ["bien", "user", "rdv", "lien", "tache", "offre"],
         },
         objectId: {
           type: "string",
@@ -957,7 +960,14 @@ const extractOpenAIToolCalls = (payload: unknown): AssistantToolCall[] => {
 };
 
 const normalizeAssistantObjectType = (value: unknown): AssistantObjectType | null => {
-  if (value !== "bien" && value !== "user" && value !== "rdv" && value !== "lien") {
+  if (
+    value !== "bien" &&
+    value !== "user" &&
+    value !== "rdv" &&
+    value !== "lien" &&
+    value !== "tache" &&
+    value !== "offre"
+  ) {
     return null;
   }
 
@@ -1471,8 +1481,10 @@ const toOpenAIUsage = (payload: unknown): {
   totalTokens: number | null;
 } => {
   const usage = isRecord(payload) && isRecord(payload.usage) ? payload.usage : {};
-  const inputTokens = asTokenCount(usage.input_tokens ?? usage.inputTokens);
-  const outputTokens = asTokenCount(usage.output_tokens ?? usage.outputTokens);
+  const inputTokens = asTokenCount(usage.input_tokens ?? usage.prompt_tokens ?? usage.inputTokens);
+  const outputTokens = asTokenCount(
+    usage.output_tokens ?? usage.completion_tokens ?? usage.outputTokens,
+  );
   const totalTokens =
     asTokenCount(usage.total_tokens ?? usage.totalTokens) ??
     (inputTokens !== null && outputTokens !== null ? inputTokens + outputTokens : null);
@@ -1484,8 +1496,9 @@ const toOpenAIUsage = (payload: unknown): {
   };
 };
 
-const trackAssistantOpenAICall = async (input: {
+const trackAssistantModelCall = async (input: {
   orgId: string;
+  provider: "openai" | "local";
   model: string;
   requestBody: Record<string, unknown>;
   responsePayload: unknown;
@@ -1495,7 +1508,7 @@ const trackAssistantOpenAICall = async (input: {
   const responseText = serializeUnknown(input.responsePayload);
   const price = clampPriceUsd(
     estimatePriceUsdFromUsage({
-      provider: "openai",
+      provider: input.provider,
       model: input.model,
       usage:
         usage.inputTokens === null && usage.outputTokens === null && usage.totalTokens === null
@@ -1510,8 +1523,9 @@ const trackAssistantOpenAICall = async (input: {
     }),
   );
 
-  console.info("[ASSISTANT][OPENAI][REQUEST]", prompt);
-  console.info("[ASSISTANT][OPENAI][RESPONSE]", responseText);
+  const logTag = `[ASSISTANT][${input.provider.toUpperCase()}]`;
+  console.info(`${logTag}[REQUEST]`, prompt);
+  console.info(`${logTag}[RESPONSE]`, responseText);
 
   await trackAICallSafe({
     orgId: input.orgId,
@@ -1548,26 +1562,15 @@ const buildAssistantToolErrorPayload = (error: unknown): Record<string, unknown>
   };
 };
 
-const runOpenAIToolDrivenTurn = async (input: {
+type AssistantModelTurnInput = {
   orgId: string;
   conversationId: string;
   handlers: AssistantModelToolHandlers;
   messageRows: Array<typeof assistantMessages.$inferSelect>;
   context: AssistantMessageContext | null;
-}): Promise<AssistantModelTurnResult | null> => {
-  const providerKind = await resolveAIProviderKindForOrg(input.orgId, process.env);
-  if (providerKind !== "openai") {
-    return null;
-  }
-
-  const apiKey = process.env.OPENAI_API_KEY?.trim();
-  if (!apiKey) {
-    return null;
-  }
-
-  const baseUrl = (process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/+$/, "");
-  const model = process.env.OPENAI_CHAT_MODEL?.trim() || DEFAULT_ASSISTANT_OPENAI_MODEL;
+};
 
+const buildAssistantInstructions = (input: AssistantModelTurnInput): string => {
   const assistantSoul = input.messageRows.find((row) => row.role === "SYSTEM")?.text.trim() ?? "";
   const instructionsParts = [
     assistantSoul,
@@ -1591,19 +1594,183 @@ const runOpenAIToolDrivenTurn = async (input: {
         ].join("\n")
       : "",
   ].filter((value) => value.length > 0);
-  const instructions = instructionsParts.join("\n\n");
+  return instructionsParts.join("\n\n");
+};
+
+type AssistantToolExecution = {
+  output: string;
+  mutation: "SUCCESS" | "FAILURE" | null;
+  error: string | null;
+};
+
+const executeAssistantToolCall = async (
+  handlers: AssistantModelToolHandlers,
+  toolCall: AssistantToolCall,
+): Promise<AssistantToolExecution> => {
+  const args = parseJsonObject(toolCall.argumentsJson);
+
+  try {
+    if (toolCall.name === "search") {
+      const q = normalizeOptionalString(args.q);
+      const objectType = normalizeAssistantObjectType(args.objectType);
+      if (!q) {
+        throw new HttpError(400, "ASSISTANT_TOOL_INVALID_ARGUMENT", "Le paramètre q est requis.");
+      }
+
+      const result = await handlers.search({
+        q,
+        objectType: objectType ?? undefined,
+      });
+
+      return { output: serializeUnknown(result), mutation: null, error: null };
+    }
+
+    if (toolCall.name === "get") {
+      const objectType = normalizeAssistantObjectType(args.objectType);
+      const objectId = normalizeOptionalString(args.objectId);
+      if (!objectType || !objectId) {
+        throw new HttpError(
+          400,
+          "ASSISTANT_TOOL_INVALID_ARGUMENT",
+          "Les paramètres objectType et objectId sont requis.",
+        );
+      }
+
+      const result = await handlers.get({ objectType, objectId });
+      return { output: serializeUnknown(result), mutation: null, error: null };
+    }
+
+    if (toolCall.name === "getParams") {
+      const objectType = normalizeAssistantObjectType(args.objectType);
+      if (!objectType) {
+        throw new HttpError(
+          400,
+          "ASSISTANT_TOOL_INVALID_ARGUMENT",
+          "Le paramètre objectType est requis.",
+        );
+      }
+
+      const result = handlers.getParams({
+        objectType,
+        typeLien: normalizeOptionalString(args.typeLien) ?? undefined,
+      });
+      return { output: serializeUnknown(result), mutation: null, error: null };
+    }
+
+    if (toolCall.name === "create") {
+      const objectType = normalizeAssistantObjectType(args.objectType);
+      if (!objectType) {
+        throw new HttpError(
+          400,
+          "ASSISTANT_TOOL_INVALID_ARGUMENT",
+          "Le paramètre objectType est requis.",
+        );
+      }
+
+      const params = isRecord(args.params)
+        ? args.params
+        : extractFlatToolParams(args, ["objectType"]);
+      if (!hasOwnKeys(params)) {
+        throw new HttpError(
+          400,
+          "ASSISTANT_TOOL_INVALID_ARGUMENT",
+          "Le paramètre params est requis et ne peut pas être vide.",
+        );
+      }
+      const result = await handlers.create({
+        objectType,
+        params,
+      });
+      return { output: serializeUnknown(result), mutation: "SUCCESS", error: null };
+    }
+
+    const objectType = normalizeAssistantObjectType(args.objectType);
+    const objectId = normalizeOptionalString(args.objectId);
+    if (!objectType || !objectId) {
+      throw new HttpError(
+        400,
+        "ASSISTANT_TOOL_INVALID_ARGUMENT",
+        "Les paramètres objectType et objectId sont requis.",
+      );
+    }
+
+    const params = isRecord(args.params)
+      ? args.params
+      : extractFlatToolParams(args, ["objectType", "objectId"]);
+    if (!hasOwnKeys(params)) {
+      throw new HttpError(
+        400,
+        "ASSISTANT_TOOL_INVALID_ARGUMENT",
+        "Le paramètre params est requis et ne peut pas être vide.",
+      );
+    }
+    const result = await handlers.update({
+      objectType,
+      objectId,
+      params,
+    });
+    return { output: serializeUnknown(result), mutation: "SUCCESS", error: null };
+  } catch (error) {
+    const isMutation = toolCall.name === "create" || toolCall.name === "update";
+    return {
+      output: serializeUnknown(buildAssistantToolErrorPayload(error)),
+      mutation: isMutation ? "FAILURE" : null,
+      error: isMutation
+        ? error instanceof Error
+          ? error.message
+          : "Erreur outil inconnue"
+        : null,
+    };
+  }
+};
+
+// Compteurs partagés par les boucles tools: seul le premier échec de mutation est remonté.
+const createAssistantMutationTracker = () => {
+  const state = {
+    mutationSuccessCount: 0,
+    mutationFailureCount: 0,
+    firstMutationError: null as string | null,
+  };
+
+  return {
+    state,
+    record(execution: AssistantToolExecution) {
+      if (execution.mutation === "SUCCESS") {
+        state.mutationSuccessCount += 1;
+      }
+      if (execution.mutation === "FAILURE") {
+        state.mutationFailureCount += 1;
+        state.firstMutationError ??= execution.error;
+      }
+    },
+  };
+};
+
+const runOpenAIToolDrivenTurn = async (
+  input: AssistantModelTurnInput,
+): Promise<AssistantModelTurnResult | null> => {
+  const providerKind = await resolveAIProviderKindForOrg(input.orgId, process.env);
+  if (providerKind !== "openai") {
+    return null;
+  }
+
+  const apiKey = process.env.OPENAI_API_KEY?.trim();
+  if (!apiKey) {
+    return null;
+  }
+
+  const baseUrl = (process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+  const model = process.env.OPENAI_CHAT_MODEL?.trim() || DEFAULT_ASSISTANT_OPENAI_MODEL;
 
   let requestBody: Record<string, unknown> = {
     model,
-    instructions,
+    instructions: buildAssistantInstructions(input),
     input: toOpenAIConversationInput(input.messageRows),
     tools: ASSISTANT_OPENAI_TOOL_DEFINITIONS,
     tool_choice: "auto",
     max_output_tokens: 900,
   };
-  let mutationSuccessCount = 0;
-  let mutationFailureCount = 0;
-  let firstMutationError: string | null = null;
+  const mutations = createAssistantMutationTracker();
 
   for (let i = 0; i < MAX_ASSISTANT_TOOL_LOOPS; i += 1) {
     const response = await externalFetch({
@@ -1624,8 +1791,9 @@ const runOpenAIToolDrivenTurn = async (input: {
     }
 
     const payload = (await response.json()) as unknown;
-    await trackAssistantOpenAICall({
+    await trackAssistantModelCall({
       orgId: input.orgId,
+      provider: "openai",
       model,
       requestBody,
       responsePayload: payload,
@@ -1640,9 +1808,7 @@ const runOpenAIToolDrivenTurn = async (input: {
         return {
           text: responseText,
           citations: [],
-          mutationSuccessCount,
-          mutationFailureCount,
-          firstMutationError,
+          ...mutations.state,
         };
       }
 
@@ -1655,166 +1821,151 @@ const runOpenAIToolDrivenTurn = async (input: {
 
     const toolOutputs: Array<Record<string, unknown>> = [];
     for (const toolCall of toolCalls) {
-      const args = parseJsonObject(toolCall.argumentsJson);
-
-      try {
-        if (toolCall.name === "search") {
-          const q = normalizeOptionalString(args.q);
-          const objectType = normalizeAssistantObjectType(args.objectType);
-          if (!q) {
-            throw new HttpError(400, "ASSISTANT_TOOL_INVALID_ARGUMENT", "Le paramètre q est requis.");
-          }
+      const execution = await executeAssistantToolCall(input.handlers, toolCall);
+      mutations.record(execution);
+      toolOutputs.push({
+        type: "function_call_output",
+        call_id: toolCall.callId,
+        output: execution.output,
+      });
+    }
 
-          const result = await input.handlers.search({
-            q,
-            objectType: objectType ?? undefined,
-          });
-
-          toolOutputs.push({
-            type: "function_call_output",
-            call_id: toolCall.callId,
-            output: serializeUnknown(result),
-          });
-          continue;
-        }
+    requestBody = {
+      model,
+      previous_response_id: responseId,
+      input: toolOutputs,
+      tools: ASSISTANT_OPENAI_TOOL_DEFINITIONS,
+      tool_choice: "auto",
+      max_output_tokens: 900,
+    };
+  }
 
-        if (toolCall.name === "get") {
-          const objectType = normalizeAssistantObjectType(args.objectType);
-          const objectId = normalizeOptionalString(args.objectId);
-          if (!objectType || !objectId) {
-            throw new HttpError(
-              400,
-              "ASSISTANT_TOOL_INVALID_ARGUMENT",
-              "Les paramètres objectType et objectId sont requis.",
-            );
-          }
+  return null;
+};
 
-          const result = await input.handlers.get({ objectType, objectId });
-          toolOutputs.push({
-            type: "function_call_output",
-            call_id: toolCall.callId,
-            output: serializeUnknown(result),
-          });
-          continue;
-        }
+const ASSISTANT_CHAT_COMPLETION_TOOL_DEFINITIONS = ASSISTANT_OPENAI_TOOL_DEFINITIONS.map(
+  ({ type, name, description, parameters }) => ({
+    type,
+    function: { name, description, parameters },
+  }),
+);
 
-        if (toolCall.name === "getParams") {
-          const objectType = normalizeAssistantObjectType(args.objectType);
-          if (!objectType) {
-            throw new HttpError(
-              400,
-              "ASSISTANT_TOOL_INVALID_ARGUMENT",
-              "Le paramètre objectType est requis.",
-            );
-          }
+const extractChatCompletionToolCalls = (message: Record<string, unknown>): AssistantToolCall[] => {
+  const rawCalls = Array.isArray(message.tool_calls) ? message.tool_calls : [];
+  const calls: AssistantToolCall[] = [];
+  rawCalls.forEach((item, index) => {
+    if (!isRecord(item) || !isRecord(item.function)) {
+      return;
+    }
 
-          const result = input.handlers.getParams({
-            objectType,
-            typeLien: normalizeOptionalString(args.typeLien) ?? undefined,
-          });
-          toolOutputs.push({
-            type: "function_call_output",
-            call_id: toolCall.callId,
-            output: serializeUnknown(result),
-          });
-          continue;
-        }
+    const name = item.function.name;
+    if (name !== "search" && name !== "get" && name !== "getParams" && name !== "create" && name !== "update") {
+      return;
+    }
 
-        if (toolCall.name === "create") {
-          const objectType = normalizeAssistantObjectType(args.objectType);
-          if (!objectType) {
-            throw new HttpError(
-              400,
-              "ASSISTANT_TOOL_INVALID_ARGUMENT",
-              "Le paramètre objectType est requis.",
-            );
-          }
+    const rawArguments = item.function.arguments;
+    calls.push({
+      // Certains serveurs locaux n'attribuent pas d'identifiant aux appels d'outils.
+      callId: typeof item.id === "string" && item.id.trim() ? item.id : `call_${index}`,
+      name,
+      argumentsJson:
+        typeof rawArguments === "string"
+          ? rawArguments
+          : rawArguments === null || typeof rawArguments === "undefined"
+            ? "{}"
+            : serializeUnknown(rawArguments),
+    });
+  });
 
-          const params = isRecord(args.params)
-            ? args.params
-            : extractFlatToolParams(args, ["objectType"]);
-          if (!hasOwnKeys(params)) {
-            throw new HttpError(
-              400,
-              "ASSISTANT_TOOL_INVALID_ARGUMENT",
-              "Le paramètre params est requis et ne peut pas être vide.",
-            );
-          }
-          const result = await input.handlers.create({
-            objectType,
-            params,
-          });
-          mutationSuccessCount += 1;
-
-          toolOutputs.push({
-            type: "function_call_output",
-            call_id: toolCall.callId,
-            output: serializeUnknown(result),
-          });
-          continue;
-        }
+  return calls;
+};
 
-        const objectType = normalizeAssistantObjectType(args.objectType);
-        const objectId = normalizeOptionalString(args.objectId);
-        if (!objectType || !objectId) {
-          throw new HttpError(
-            400,
-            "ASSISTANT_TOOL_INVALID_ARGUMENT",
-            "Les paramètres objectType et objectId sont requis.",
-          );
-        }
+// Endpoint chat/completions (Ollama, vLLM, LM Studio): l'historique et les résultats d'outils sont renvoyés à chaque tour.
+const runLocalToolDrivenTurn = async (
+  input: AssistantModelTurnInput,
+): Promise<AssistantModelTurnResult | null> => {
+  const providerKind = await resolveAIProviderKindForOrg(input.orgId, process.env);
+  if (providerKind !== "local") {
+    return null;
+  }
 
-        const params = isRecord(args.params)
-          ? args.params
-          : extractFlatToolParams(args, ["objectType", "objectId"]);
-        if (!hasOwnKeys(params)) {
-          throw new HttpError(
-            400,
-            "ASSISTANT_TOOL_INVALID_ARGUMENT",
-            "Le paramètre params est requis et ne peut pas être vide.",
-          );
-        }
-        const result = await input.handlers.update({
-          objectType,
-          objectId,
-          params,
-        });
-        mutationSuccessCount += 1;
+  const provider = getAIProviderForKind("local", process.env);
+  if (!(provider instanceof LocalLLMProvider)) {
+    return null;
+  }
 
-        toolOutputs.push({
-          type: "function_call_output",
-          call_id: toolCall.callId,
-          output: serializeUnknown(result),
-        });
-      } catch (error) {
-        toolOutputs.push({
-          type: "function_call_output",
-          call_id: toolCall.callId,
-          output: serializeUnknown(buildAssistantToolErrorPayload(error)),
-        });
-        if (toolCall.name === "create" || toolCall.name === "update") {
-          mutationFailureCount += 1;
-          if (!firstMutationError) {
-            if (error instanceof HttpError) {
-              firstMutationError = error.message;
-            } else if (error instanceof Error) {
-              firstMutationError = error.message;
-            } else {
-              firstMutationError = "Erreur outil inconnue";
-            }
-          }
-        }
-      }
-    }
+  const model = provider.resolveModel("ASSISTANT_CHAT");
+  const messages: Array<Record<string, unknown>> = [
+    { role: "system", content: buildAssistantInstructions(input) },
+    ...input.messageRows
+      .filter((row) => row.role === "USER" || row.role === "ASSISTANT")
+      .map((row) => ({ role: row.role === "USER" ? "user" : "assistant", content: row.text })),
+  ];
+  const mutations = createAssistantMutationTracker();
 
-    requestBody = {
+  for (let i = 0; i < MAX_ASSISTANT_TOOL_LOOPS; i += 1) {
+    const requestBody: Record<string, unknown> = {
       model,
-      previous_response_id: responseId,
-      input: toolOutputs,
-      tools: ASSISTANT_OPENAI_TOOL_DEFINITIONS,
+      messages,
+      tools: ASSISTANT_CHAT_COMPLETION_TOOL_DEFINITIONS,
       tool_choice: "auto",
-      max_output_tokens: 900,
+      max_tokens: 900,
     };
+    let response: Response;
+    try {
+      response = await provider.createChatCompletion(requestBody);
+    } catch (error) {
+      const details = error instanceof Error ? error.message : String(error);
+      console.warn(`[ASSISTANT][LOCAL] call failed error=${details}`);
+      return null;
+    }
+
+    if (!response.ok) {
+      const details = await response.text();
+      console.warn(`[ASSISTANT][LOCAL] call failed status=${response.status} details=${details}`);
+      return null;
+    }
+
+    const payload = (await response.json()) as unknown;
+    await trackAssistantModelCall({
+      orgId: input.orgId,
+      provider: "local",
+      model,
+      requestBody,
+      responsePayload: payload,
+    });
+
+    const message = extractChatCompletionMessage(payload);
+    if (!message) {
+      return null;
+    }
+
+    const toolCalls = extractChatCompletionToolCalls(message);
+    const responseText = typeof message.content === "string" ? message.content.trim() : "";
+    if (toolCalls.length === 0) {
+      return responseText
+        ? {
+            text: responseText,
+            citations: [],
+            ...mutations.state,
+          }
+        : null;
+    }
+
+    messages.push({
+      role: "assistant",
+      content: responseText,
+      tool_calls: toolCalls.map((toolCall) => ({
+        id: toolCall.callId,
+        type: "function",
+        function: { name: toolCall.name, arguments: toolCall.argumentsJson },
+      })),
+    });
+    for (const toolCall of toolCalls) {
+      const execution = await executeAssistantToolCall(input.handlers, toolCall);
+      mutations.record(execution);
+      messages.push({ role: "tool", tool_call_id: toolCall.callId, content: execution.output });
+    }
   }
 
   return null;
@@ -1980,6 +2131,62 @@ const executeCreate = async (input: {
     };
   }
 
+  if (input.objectType === "tache") {
+    const title = normalizeOptionalString(input.params.title);
+    if (!title) {
+      throw new HttpError(400, "ASSISTANT_INVALID_CREATE_PAYLOAD", "La tâche nécessite title.");
+    }
+
+    const created = await tasksService.create({
+      orgId: input.orgId,
+      title,
+      description: normalizeOptionalString(input.params.description),
+      status: normalizeOptionalString(input.params.status) ?? undefined,
+      dueAt: normalizeOptionalString(input.params.dueAt),
+      propertyId: normalizeOptionalString(input.params.propertyId),
+      assigneeUserId: normalizeOptionalString(input.params.assigneeUserId),
+      changeMode: "AI",
+    });
+
+    return {
+      objectId: created.id,
+      summary: `Tâche créée: ${created.title}.`,
+      result: created,
+    };
+  }
+
+  if (input.objectType === "offre") {
+    const propertyId = normalizeOptionalString(input.params.propertyId);
+    const buyerUserId = normalizeOptionalString(input.params.buyerUserId);
+    const amount = Number(input.params.amount);
+    if (!propertyId || !buyerUserId || !Number.isFinite(amount)) {
+      throw new HttpError(
+        400,
+        "ASSISTANT_INVALID_CREATE_PAYLOAD",
+        "L'offre nécessite propertyId, buyerUserId et amount.",
+      );
+    }
+
+    const conditions = normalizeOptionalString(input.params.conditionsSuspensives);
+    const created = await offersService.create({
+      orgId: input.orgId,
+      propertyId,
+      buyerUserId,
+      amount,
+      financingType: normalizeOptionalString(input.params.financingType) ?? "CREDIT",
+      conditionsSuspensives: conditions ? conditions.split(/\n|;/) : undefined,
+      validUntil: normalizeOptionalString(input.params.validUntil),
+      note: normalizeOptionalString(input.params.note),
+      changeMode: "AI",
+    });
+
+    return {
+      objectId: created.id,
+      summary: `Offre créée: ${created.amount} € sur ${created.propertyTitle ?? created.propertyId}.`,
+      result: created,
+    };
+  }
+
   throw new HttpError(400, "ASSISTANT_UNSUPPORTED_OBJECT", "Type d'objet non supporté");
 };
 
@@ -2092,6 +2299,28 @@ const executeUpdate = async (input: {
     };
   }
 
+  if (input.objectType === "tache") {
+    const updated = await tasksService.patchById({
+      orgId: input.orgId,
+      id: input.objectId,
+      changeMode: "AI",
+      data: {
+        title: readPatchStringField(input.params, "title") ?? undefined,
+        description: readPatchStringField(input.params, "description"),
+        status: readPatchStringField(input.params, "status") ?? undefined,
+        dueAt: readPatchStringField(input.params, "dueAt"),
+        propertyId: readPatchStringField(input.params, "propertyId"),
+        assigneeUserId: readPatchStringField(input.params, "assigneeUserId"),
+      },
+    });
+
+    return {
+      objectId: updated.id,
+      summary: `Tâche mise à jour: ${updated.title}.`,
+      result: updated,
+    };
+  }
+
   throw new HttpError(400, "ASSISTANT_UNSUPPORTED_OBJECT", "Type d'objet non supporté");
 };
 
@@ -2403,7 +2632,7 @@ export const assistantService = {
       conversationId: conversation.id,
       limit: 40,
     });
-    const modelTurn = await runOpenAIToolDrivenTurn({
+    const modelTurnInput: AssistantModelTurnInput = {
       orgId: input.orgId,
       conversationId: conversation.id,
       context: messageContext,
@@ -2444,7 +2673,9 @@ export const assistantService = {
             params: toolInput.params,
           }),
       },
-    });
+    };
+    const modelTurn =
+      (await runOpenAIToolDrivenTurn(modelTurnInput)) ?? (await runLocalToolDrivenTurn(modelTurnInput));
 
     if (modelTurn) {
       if (modelTurn.mutationFailureCount > 0 && modelTurn.mutationSuccessCount === 0) {
@@ -2677,7 +2908,7 @@ export const assistantService = {
     }
 
     return respondWithOptionalWebFallback(
-      "Je peux vous aider sur les biens, utilisateurs, rendez-vous et liens. Donnez-moi une action précise.",
+      "Je peux vous aider sur les biens, utilisateurs, rendez-vous, liens et tâches. Donnez-moi une action précise.",
     );
   },
 
@@ -2739,6 +2970,21 @@ export const assistantService = {
       }
     }
 
+    if (input.objectType === "tache") {
+      return tasksService.list({ orgId: input.orgId, query: q, limit: 20 });
+    }
+
+    if (input.objectType === "offre") {
+      const listedOffers = await offersService.list({ orgId: input.orgId, limit: 100 });
+      return {
+        items: listedOffers.items.filter((item) =>
+          normalizeText(
+            `${item.propertyTitle ?? ""} ${item.buyerFirstName ?? ""} ${item.buyerLastName ?? ""} ${item.status}`,
+          ).includes(normalizeText(q)),
+        ),
+      };
+    }
+
     const listedRdv = await calendarService.listRdv({ orgId: input.orgId });
     const filteredRdv = listedRdv.items.filter((item) =>
       normalizeText(`${item.title} ${item.propertyTitle} ${item.userFirstName ?? ""} ${item.userLastName ?? ""}`).includes(
@@ -2770,6 +3016,9 @@ export const assistantService = {
           .slice(0, 10)
           .map((item) => ({ objectType: "lien", data: item })),
         ...filteredRdv.slice(0, 10).map((item) => ({ objectType: "rdv", data: item })),
+        ...(await tasksService.list({ orgId: input.orgId, query: q, limit: 10 })).items.map(
+          (item) => ({ objectType: "tache", data: item }),
+        ),
       ],
     };
   },
@@ -2794,6 +3043,14 @@ export const assistantService = {
     if (input.objectType === "lien") {
       return linksService.getById({ orgId: input.orgId, id: input.objectId });
     }
+
+    if (input.objectType === "tache") {
+      return tasksService.getById({ orgId: input.orgId, id: input.objectId });
+    }
+
+    if (input.objectType === "offre") {
+      return offersService.getById({ orgId: input.orgId, id: input.objectId });
+    }
     throw new HttpError(400, "ASSISTANT_UNSUPPORTED_OBJECT", "Type d'objet non supporté");
   },
 
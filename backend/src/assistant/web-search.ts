@@ -367,6 +367,11 @@ export const assistantWebSearchProvider = {
 
     try {
       const kind = await resolveAIProviderKindForOrg(input.orgId, process.env);
+      // Un LLM local n'a pas de recherche web et la requête ne doit pas partir vers un cloud.
+      if (kind === "local") {
+        return { citations: [], trace: null };
+      }
+
       if (kind === "anthropic") {
         return searchAnthropic(normalizedQuery);
       }
@@ -1,6 +1,11 @@
 import { HttpError } from "../http/errors";
 
-type AuthRateLimitAction = "login" | "forgot-password" | "reset-password";
+type AuthRateLimitAction =
+  | "login"
+  | "forgot-password"
+  | "reset-password"
+  | "booking-page"
+  | "booking-submit";
 type RateLimitEntry = {
   count: number;
   resetAtMs: number;
@@ -24,6 +29,15 @@ const DEFAULT_POLICIES: Record<AuthRateLimitAction, RateLimitPolicy> = {
     maxRequests: 8,
     windowMs: 15 * 60 * 1000,
   },
+  // Page publique de réservation de visite: consultation large, réservation limitée.
+  "booking-page": {
+    maxRequests: 60,
+    windowMs: 15 * 60 * 1000,
+  },
+  "booking-submit": {
+    maxRequests: 5,
+    windowMs: 15 * 60 * 1000,
+  },
 };
 
 const rateLimitEntries = new Map<string, RateLimitEntry>();
@@ -57,6 +71,20 @@ const resolvePolicy = (
     };
   }
 
+  if (action === "booking-page") {
+    return {
+      maxRequests: toPositiveInt(env.BOOKING_RATE_LIMIT_PAGE_MAX, defaults.maxRequests),
+      windowMs: toPositiveInt(env.BOOKING_RATE_LIMIT_PAGE_WINDOW_MS, defaults.windowMs),
+    };
+  }
+
+  if (action === "booking-submit") {
+    return {
+      maxRequests: toPositiveInt(env.BOOKING_RATE_LIMIT_SUBMIT_MAX, defaults.maxRequests),
+      windowMs: toPositiveInt(env.BOOKING_RATE_LIMIT_SUBMIT_WINDOW_MS, defaults.windowMs),
+    };
+  }
+
   return {
     maxRequests: toPositiveInt(env.AUTH_RATE_LIMIT_RESET_MAX, defaults.maxRequests),
     windowMs: toPositiveInt(env.AUTH_RATE_LIMIT_RESET_WINDOW_MS, defaults.windowMs),
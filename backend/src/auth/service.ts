@@ -2,6 +2,7 @@ import { eq } from "drizzle-orm";
 import { resolveAppAIProvider } from "../ai/factory";
 import {
   getGlobalProviderSettings,
+  normalizeGlobalTranscriptionProvider,
   updateGlobalProviderSettings,
 } from "../config/provider-settings";
 import { db } from "../db/client";
@@ -282,6 +283,7 @@ export const authService = {
     return {
       notaryFeePct: resolveNotaryFeePct(organization),
       aiProvider: globalProviderSettings.aiProvider,
+      transcriptionProvider: globalProviderSettings.transcriptionProvider,
       valuationAiOutputFormat: resolveValuationAiOutputFormat(organization?.valuationAiOutputFormat),
       assistantSoul: resolveAssistantSoul(organization),
     };
@@ -291,7 +293,8 @@ export const authService = {
     accessToken: string,
     input: {
       notaryFeePct?: number;
-      aiProvider?: "openai" | "anthropic";
+      aiProvider?: "openai" | "anthropic" | "local";
+      transcriptionProvider?: "ai-provider" | "whisper-local";
       valuationAiOutputFormat?: string | null;
       assistantSoul?: string | null;
     },
@@ -308,6 +311,10 @@ export const authService = {
       typeof input.aiProvider === "string"
         ? resolveAppAIProvider(input.aiProvider)
         : undefined;
+    const transcriptionProviderInput =
+      typeof input.transcriptionProvider === "string"
+        ? normalizeGlobalTranscriptionProvider(input.transcriptionProvider)
+        : undefined;
     const persistedValuationAiOutputFormat =
       typeof input.valuationAiOutputFormat === "undefined"
         ? organization?.valuationAiOutputFormat ?? null
@@ -328,11 +335,13 @@ export const authService = {
       })
       .where(eq(organizations.id, user.orgId));
 
-    const globalProviderSettings = aiProviderInput
-      ? await updateGlobalProviderSettings({
-          aiProvider: aiProviderInput,
-        })
-      : await getGlobalProviderSettings();
+    const globalProviderSettings =
+      aiProviderInput || transcriptionProviderInput
+        ? await updateGlobalProviderSettings({
+            aiProvider: aiProviderInput,
+            transcriptionProvider: transcriptionProviderInput,
+          })
+        : await getGlobalProviderSettings();
 
     const resolvedValuationAiOutputFormat = resolveValuationAiOutputFormat(
       persistedValuationAiOutputFormat,
@@ -341,6 +350,7 @@ export const authService = {
     return {
       notaryFeePct: normalizedNotaryFeePct,
       aiProvider: globalProviderSettings.aiProvider,
+      transcriptionProvider: globalProviderSettings.transcriptionProvider,
       valuationAiOutputFormat: resolvedValuationAiOutputFormat,
       assistantSoul: persistedAssistantSoul ?? DEFAULT_ASSISTANT_SOUL,
     };
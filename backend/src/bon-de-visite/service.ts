@@ -0,0 +1,186 @@
+import { createHash } from "node:crypto";
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/client";
+import { organizations, properties, propertyVisits, users } from "../db/schema";
+import { filesService } from "../files/service";
+import { HttpError } from "../http/errors";
+import { renderTextPdf, type TextPdfDrawing, type TextPdfLine } from "../pdf/text-pdf";
+import { propertiesService } from "../properties/service";
+
+const VISIT_TIME_ZONE = "Europe/Paris";
+
+type VisitResponse = Awaited<ReturnType<typeof propertiesService.getVisitById>>;
+
+type BonDeVisiteContext = {
+  visit: VisitResponse;
+  agencyName: string;
+  agentName: string | null;
+  property: {
+    title: string;
+    address: string | null;
+    postalCode: string;
+    city: string;
+  };
+};
+
+const formatDate = (value: Date): string =>
+  new Intl.DateTimeFormat("fr-FR", { timeZone: VISIT_TIME_ZONE, dateStyle: "full" }).format(value);
+
+const formatTime = (value: Date): string =>
+  new Intl.DateTimeFormat("fr-FR", { timeZone: VISIT_TIME_ZONE, timeStyle: "short" }).format(value);
+
+const loadContext = async (orgId: string, visitId: string): Promise<BonDeVisiteContext> => {
+  const visit = await propertiesService.getVisitById({ orgId, id: visitId });
+  const [property, organization, agent] = await Promise.all([
+    db.query.properties.findFirst({
+      where: and(eq(properties.id, visit.propertyId), eq(properties.orgId, orgId)),
+    }),
+    db.query.organizations.findFirst({ where: eq(organizations.id, orgId) }),
+    visit.agentUserId
+      ? db.query.users.findFirst({
+          where: and(eq(users.id, visit.agentUserId), eq(users.orgId, orgId)),
+        })
+      : undefined,
+  ]);
+
+  if (!property) {
+    throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+  }
+
+  return {
+    visit,
+    agencyName: organization?.name ?? "",
+    agentName: agent ? `${agent.firstName} ${agent.lastName}`.trim() : null,
+    property: {
+      title: property.title,
+      address: property.address,
+      postalCode: property.postalCode,
+      city: property.city,
+    },
+  };
+};
+
+const buildLines = (
+  context: BonDeVisiteContext,
+  signature?: { drawing: TextPdfDrawing; signedAt: Date },
+): TextPdfLine[] => {
+  const { visit, property } = context;
+  const startsAt = new Date(visit.startsAt);
+  const endsAt = new Date(visit.endsAt);
+  const prospectName = `${visit.prospectFirstName} ${visit.prospectLastName}`.trim();
+  const agency = context.agencyName || "l'agence";
+
+  const lines: TextPdfLine[] = [
+    { text: "Bon de visite", bold: true, size: 16 },
+    { text: context.agencyName, size: 11 },
+    { text: `Référence de la visite: ${visit.id}`, size: 8 },
+    { text: "" },
+    { text: "Bien visité", bold: true, size: 11 },
+    { text: property.title },
+    { text: property.address ?? "Adresse non renseignée" },
+    { text: `${property.postalCode} ${property.city}`.trim() },
+    { text: "" },
+    { text: "Visite", bold: true, size: 11 },
+    { text: `Le ${formatDate(startsAt)}, de ${formatTime(startsAt)} à ${formatTime(endsAt)}` },
+    { text: `Agent: ${context.agentName ?? "-"}` },
+    { text: "" },
+    { text: "Visiteur", bold: true, size: 11 },
+    { text: `Nom: ${prospectName}` },
+    { text: `Email: ${visit.prospectEmail ?? "-"}` },
+    { text: `Téléphone: ${visit.prospectPhone ?? "-"}` },
+    { text: "" },
+    {
+      text:
+        `Je soussigné(e) ${prospectName} reconnais avoir visité le bien désigné ci-dessus par l'intermédiaire de ` +
+        `${agency}, qui me l'a présenté en premier. Je m'engage à ne pas traiter l'acquisition de ce bien ` +
+        "directement avec le propriétaire ou par l'intermédiaire d'un tiers pendant la durée du mandat et les " +
+        "douze mois suivant son expiration.",
+    },
+    { text: "" },
+  ];
+
+  if (!signature) {
+    lines.push(
+      { text: "Signature du visiteur:", bold: true },
+      { text: "" },
+      { text: "En attente de signature." },
+    );
+    return lines;
+  }
+
+  lines.push(
+    { text: `Fait le ${formatDate(signature.signedAt)} à ${formatTime(signature.signedAt)}` },
+    { text: "Signature du visiteur:", bold: true },
+    { text: "", drawing: signature.drawing },
+    { text: `Signé électroniquement le ${signature.signedAt.toISOString()} (horodatage UTC)`, size: 8 },
+    {
+      text: "L'empreinte SHA-256 de ce document est conservée par l'agence pour en garantir l'intégrité.",
+      size: 8,
+    },
+  );
+  return lines;
+};
+
+// Le pad de signature peut déborder de sa zone: on borne les points au cadre déclaré.
+const normalizeSignature = (signature: TextPdfDrawing): TextPdfDrawing => {
+  const strokes = signature.strokes
+    .map((stroke) =>
+      stroke.map((point) => ({
+        x: Math.min(Math.max(point.x, 0), signature.width),
+        y: Math.min(Math.max(point.y, 0), signature.height),
+      })),
+    )
+    .filter((stroke) => stroke.length > 0);
+
+  if (strokes.length === 0) {
+    throw new HttpError(400, "BON_DE_VISITE_SIGNATURE_EMPTY", "La signature est vide");
+  }
+
+  return { width: signature.width, height: signature.height, strokes };
+};
+
+const toFileName = (visit: VisitResponse): string =>
+  `bon-de-visite-${visit.startsAt.slice(0, 10)}-${visit.id.slice(0, 8)}.pdf`;
+
+export const bonDeVisiteService = {
+  async preview(input: { orgId: string; visitId: string }): Promise<Uint8Array> {
+    const context = await loadContext(input.orgId, input.visitId);
+    return renderTextPdf({ title: "Bon de visite", lines: buildLines(context) });
+  },
+
+  async sign(input: { orgId: string; visitId: string; signature: TextPdfDrawing }) {
+    const context = await loadContext(input.orgId, input.visitId);
+    if (context.visit.bonDeVisiteSignedAt) {
+      throw new HttpError(409, "BON_DE_VISITE_ALREADY_SIGNED", "Le bon de visite est déjà signé");
+    }
+
+    const drawing = normalizeSignature(input.signature);
+    const signedAt = new Date();
+    const pdf = renderTextPdf({
+      title: "Bon de visite",
+      lines: buildLines(context, { drawing, signedAt }),
+    });
+    const sha256 = createHash("sha256").update(pdf).digest("hex");
+
+    const file = await filesService.upload({
+      orgId: input.orgId,
+      propertyId: context.visit.propertyId,
+      typeDocument: "BON_VISITE",
+      fileName: toFileName(context.visit),
+      mimeType: "application/pdf",
+      size: pdf.byteLength,
+      contentBase64: Buffer.from(pdf).toString("base64"),
+    });
+    await propertiesService.patchVisitById({
+      orgId: input.orgId,
+      id: input.visitId,
+      data: { bonDeVisiteFileId: file.id },
+    });
+    await db
+      .update(propertyVisits)
+      .set({ bonDeVisiteSignedAt: signedAt, bonDeVisiteSha256: sha256 })
+      .where(and(eq(propertyVisits.id, input.visitId), eq(propertyVisits.orgId, input.orgId)));
+
+    return propertiesService.getVisitById({ orgId: input.orgId, id: input.visitId });
+  },
+};
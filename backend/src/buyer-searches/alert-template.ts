@@ -0,0 +1,88 @@
+export type BuyerAlertPhoto = {
+  contentId: string;
+  fileName: string;
+};
+
+export type BuyerAlertTemplateInput = {
+  buyerFirstName: string;
+  agencyName: string;
+  property: {
+    title: string;
+    city: string;
+    postalCode: string;
+    price: number | null;
+    description: string | null;
+    highlights: string[];
+  };
+  photos: BuyerAlertPhoto[];
+};
+
+const escapeHtml = (value: string): string =>
+  value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;");
+
+const formatPrice = (value: number | null): string =>
+  value === null
+    ? "Prix sur demande"
+    : new Intl.NumberFormat("fr-FR", {
+        style: "currency",
+        currency: "EUR",
+        maximumFractionDigits: 0,
+      }).format(value);
+
+export const renderBuyerAlertEmail = (
+  input: BuyerAlertTemplateInput,
+): { subject: string; text: string; html: string } => {
+  const { property } = input;
+  const price = formatPrice(property.price);
+  const location = `${property.postalCode} ${property.city}`.trim();
+  const greeting = input.buyerFirstName ? `Bonjour ${input.buyerFirstName},` : "Bonjour,";
+  const intro = "Un nouveau bien correspond à votre recherche :";
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    "",
+    `${property.title} - ${location}`,
+    price,
+    ...property.highlights,
+    ...(property.description ? ["", property.description] : []),
+    "",
+    "Répondez à cet email pour organiser une visite.",
+    "",
+    input.agencyName,
+  ].join("\n");
+
+  const html = [
+    '<div style="font-family:Arial,sans-serif;color:#0f172a;max-width:600px">',
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    `<h2 style="margin:16px 0 4px">${escapeHtml(property.title)}</h2>`,
+    `<p style="margin:0;color:#475569">${escapeHtml(location)}</p>`,
+    `<p style="margin:8px 0;font-size:20px;font-weight:bold">${escapeHtml(price)}</p>`,
+    ...(property.highlights.length > 0
+      ? [`<ul>${property.highlights.map((item) => `<li>${escapeHtml(item)}</li>`).join("")}</ul>`]
+      : []),
+    ...(property.description
+      ? [`<p style="white-space:pre-line">${escapeHtml(property.description)}</p>`]
+      : []),
+    ...input.photos.map(
+      (photo) =>
+        `<img src="cid:${photo.contentId}" alt="${escapeHtml(photo.fileName)}" style="max-width:100%;margin:8px 0;border-radius:8px" />`,
+    ),
+    "<p>Répondez à cet email pour organiser une visite.</p>",
+    `<p>${escapeHtml(input.agencyName)}</p>`,
+    "</div>",
+  ].join("\n");
+
+  return {
+    subject: `Nouveau bien pour votre recherche : ${property.title} (${property.city})`,
+    text,
+    html,
+  };
+};
@@ -0,0 +1,773 @@
+import { and, asc, eq, like, notInArray } from "drizzle-orm";
+import { getGlobalProviderSettings } from "../config/provider-settings";
+import { db } from "../db/client";
+import {
+  buyerSearches,
+  files,
+  organizations,
+  properties,
+  propertyBuyerAlerts,
+  propertyBuyerMatches,
+  propertyTimelineEvents,
+  users,
+} from "../db/schema";
+import { createEmailProvider, type EmailAttachment } from "../email";
+import { HttpError } from "../http/errors";
+import { messagesService } from "../messages/service";
+import { getObjectDataStructure } from "../object-data/structure";
+import { parseJsonRecord, readDetail, readNumber, readText } from "../properties/detail-values";
+import { MARKET_PROPERTY_TYPES, type MarketPropertyType } from "../properties/dvf-client";
+import { getStorageProvider } from "../storage";
+import { renderBuyerAlertEmail } from "./alert-template";
+
+export const DPE_CLASSES = ["A", "B", "C", "D", "E", "F", "G"] as const;
+export type DpeClass = (typeof DPE_CLASSES)[number];
+
+// Seuls les équipements binaires ou à choix du groupe "amenities" peuvent être exigés.
+export const BUYER_SEARCH_AMENITY_KEYS = getObjectDataStructure("bien")
+  .filter((field) => field.group === "amenities" && (field.type === "boolean" || field.type === "select"))
+  .map((field) => field.key);
+
+export type BuyerMatchCriterion =
+  | "BUDGET"
+  | "LOCATION"
+  | "PROPERTY_TYPE"
+  | "ROOMS"
+  | "LIVING_AREA"
+  | "AMENITIES"
+  | "DPE";
+export type BuyerMatchCriterionStatus = "MATCH" | "MISMATCH" | "UNKNOWN";
+export type BuyerMatchTrigger = "PROPERTY_CREATED" | "STATUS_EN_DIFFUSION";
+
+type BuyerSearchRow = typeof buyerSearches.$inferSelect;
+type PropertyRow = typeof properties.$inferSelect;
+type CriterionResult = { criterion: BuyerMatchCriterion; status: BuyerMatchCriterionStatus };
+
+// Un écart sur ces critères exclut le bien, les autres ne font que baisser le score.
+const BLOCKING_CRITERIA: BuyerMatchCriterion[] = ["BUDGET", "LOCATION", "PROPERTY_TYPE"];
+const MIN_MATCH_SCORE = 50;
+const CLOSED_STATUSES = ["VENDU", "ARCHIVE"];
+const MAX_ALERT_PHOTOS = 3;
+
+export type BuyerAlertStatus = "SENT" | "ALREADY_SENT" | "NO_EMAIL" | "NOT_MATCHED" | "FAILED";
+
+type BuyerSearchInput = {
+  budgetMin?: number | null;
+  budgetMax?: number | null;
+  cities?: string[];
+  postalCodes?: string[];
+  radiusKm?: number | null;
+  centerLat?: number | null;
+  centerLng?: number | null;
+  propertyType?: MarketPropertyType | null;
+  minRooms?: number | null;
+  minLivingArea?: number | null;
+  requiredAmenities?: string[];
+  maxDpeClass?: DpeClass | null;
+};
+
+const parseStringArray = (raw: string): string[] => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const parseCriteria = (raw: string): CriterionResult[] => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as CriterionResult[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const normalizeCity = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .replace(/[-']/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+const normalizeList = (values: string[] | undefined): string[] => [
+  ...new Set((values ?? []).map((value) => value.trim()).filter(Boolean)),
+];
+
+const isAmenityPresent = (value: unknown): boolean | null => {
+  if (value === true || value === "true") {
+    return true;
+  }
+  if (value === false || value === "false" || value === "NON" || value === "PISCINABLE") {
+    return false;
+  }
+  if (typeof value === "string" && value.trim()) {
+    return true;
+  }
+  return null;
+};
+
+const distanceKm = (from: { lat: number; lng: number }, to: { lat: number; lng: number }): number => {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const readCoordinates = (details: Record<string, unknown>): { lat: number; lng: number } | null => {
+  const lat = readNumber(readDetail(details, "location", "gpsLat"));
+  const lng = readNumber(readDetail(details, "location", "gpsLng"));
+  return lat !== null && lng !== null ? { lat, lng } : null;
+};
+
+const toBuyerSearchResponse = (row: BuyerSearchRow) => ({
+  id: row.id,
+  userId: row.userId,
+  budgetMin: row.budgetMin,
+  budgetMax: row.budgetMax,
+  cities: parseStringArray(row.cities),
+  postalCodes: parseStringArray(row.postalCodes),
+  radiusKm: row.radiusKm,
+  centerLat: row.centerLat,
+  centerLng: row.centerLng,
+  propertyType: row.propertyType as MarketPropertyType | null,
+  minRooms: row.minRooms,
+  minLivingArea: row.minLivingArea,
+  requiredAmenities: parseStringArray(row.requiredAmenities),
+  maxDpeClass: row.maxDpeClass as DpeClass | null,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+export type BuyerSearchResponse = ReturnType<typeof toBuyerSearchResponse>;
+
+// Sans centre explicite, le rayon part du barycentre des biens connus dans les villes recherchées.
+const resolveSearchCenter = (
+  search: BuyerSearchResponse,
+  orgProperties: PropertyRow[],
+): { lat: number; lng: number } | null => {
+  if (search.centerLat !== null && search.centerLng !== null) {
+    return { lat: search.centerLat, lng: search.centerLng };
+  }
+
+  const cities = new Set(search.cities.map(normalizeCity));
+  const postalCodes = new Set(search.postalCodes);
+  const points = orgProperties
+    .filter((property) => cities.has(normalizeCity(property.city)) || postalCodes.has(property.postalCode))
+    .map((property) => readCoordinates(parseJsonRecord(property.details)))
+    .filter((point): point is { lat: number; lng: number } => point !== null);
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  return {
+    lat: points.reduce((total, point) => total + point.lat, 0) / points.length,
+    lng: points.reduce((total, point) => total + point.lng, 0) / points.length,
+  };
+};
+
+export const evaluateBuyerMatch = (
+  search: BuyerSearchResponse,
+  property: PropertyRow,
+  center: { lat: number; lng: number } | null,
+): { score: number; criteria: CriterionResult[] } | null => {
+  const details = parseJsonRecord(property.details);
+  const criteria: CriterionResult[] = [];
+  const check = (criterion: BuyerMatchCriterion, status: BuyerMatchCriterionStatus) => {
+    criteria.push({ criterion, status });
+  };
+
+  if (search.budgetMin !== null || search.budgetMax !== null) {
+    const price = property.price ?? readNumber(readDetail(details, "finance", "salePriceTtc"));
+    check(
+      "BUDGET",
+      price === null
+        ? "UNKNOWN"
+        : (search.budgetMin === null || price >= search.budgetMin) &&
+            (search.budgetMax === null || price <= search.budgetMax)
+          ? "MATCH"
+          : "MISMATCH",
+    );
+  }
+
+  if (search.cities.length > 0 || search.postalCodes.length > 0 || search.radiusKm !== null) {
+    const inCity =
+      search.cities.some((city) => normalizeCity(city) === normalizeCity(property.city)) ||
+      search.postalCodes.includes(property.postalCode);
+    const coordinates = readCoordinates(details);
+    const inRadius =
+      search.radiusKm !== null && center && coordinates
+        ? distanceKm(center, coordinates) <= search.radiusKm
+        : null;
+    const radiusOnly = search.cities.length === 0 && search.postalCodes.length === 0;
+    check(
+      "LOCATION",
+      inCity || inRadius ? "MATCH" : radiusOnly && inRadius === null ? "UNKNOWN" : "MISMATCH",
+    );
+  }
+
+  if (search.propertyType) {
+    const propertyType = readDetail(details, "general", "propertyType");
+    check(
+      "PROPERTY_TYPE",
+      typeof propertyType !== "string" || !propertyType
+        ? "UNKNOWN"
+        : propertyType === search.propertyType
+          ? "MATCH"
+          : "MISMATCH",
+    );
+  }
+
+  if (search.minRooms !== null) {
+    const rooms = readNumber(readDetail(details, "characteristics", "rooms"));
+    check("ROOMS", rooms === null ? "UNKNOWN" : rooms >= search.minRooms ? "MATCH" : "MISMATCH");
+  }
+
+  if (search.minLivingArea !== null) {
+    const livingArea = readNumber(readDetail(details, "characteristics", "livingArea"));
+    check(
+      "LIVING_AREA",
+      livingArea === null ? "UNKNOWN" : livingArea >= search.minLivingArea ? "MATCH" : "MISMATCH",
+    );
+  }
+
+  if (search.requiredAmenities.length > 0) {
+    const presence = search.requiredAmenities.map((key) =>
+      isAmenityPresent(readDetail(details, "amenities", key)),
+    );
+    check(
+      "AMENITIES",
+      presence.includes(false) ? "MISMATCH" : presence.includes(null) ? "UNKNOWN" : "MATCH",
+    );
+  }
+
+  if (search.maxDpeClass) {
+    const dpeClass = readDetail(details, "regulation", "dpeClass");
+    check(
+      "DPE",
+      typeof dpeClass !== "string" || !DPE_CLASSES.includes(dpeClass as DpeClass)
+        ? "UNKNOWN"
+        : dpeClass <= search.maxDpeClass
+          ? "MATCH"
+          : "MISMATCH",
+    );
+  }
+
+  if (criteria.length === 0) {
+    return null;
+  }
+
+  if (criteria.some((item) => item.status === "MISMATCH" && BLOCKING_CRITERIA.includes(item.criterion))) {
+    return null;
+  }
+
+  const points = criteria.reduce(
+    (total, item) => total + (item.status === "MATCH" ? 1 : item.status === "UNKNOWN" ? 0.5 : 0),
+    0,
+  );
+  const score = Math.round((points / criteria.length) * 100);
+  return score >= MIN_MATCH_SCORE ? { score, criteria } : null;
+};
+
+const getClientOrThrow = async (orgId: string, userId: string) => {
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.id, userId), eq(users.orgId, orgId)),
+  });
+
+  if (!user) {
+    throw new HttpError(404, "USER_NOT_FOUND", "Utilisateur introuvable");
+  }
+
+  if (user.accountType !== "CLIENT") {
+    throw new HttpError(
+      400,
+      "BUYER_SEARCH_CLIENT_REQUIRED",
+      "Une recherche acquéreur ne peut être rattachée qu'à un client",
+    );
+  }
+
+  return user;
+};
+
+const getPropertyOrThrow = async (orgId: string, propertyId: string): Promise<PropertyRow> => {
+  const property = await db.query.properties.findFirst({
+    where: and(eq(properties.id, propertyId), eq(properties.orgId, orgId)),
+  });
+
+  if (!property) {
+    throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+  }
+
+  return property;
+};
+
+const listOrgSearches = async (orgId: string): Promise<BuyerSearchResponse[]> =>
+  (await db.select().from(buyerSearches).where(eq(buyerSearches.orgId, orgId))).map(
+    toBuyerSearchResponse,
+  );
+
+const PROPERTY_TYPE_LABELS = new Map(
+  (getObjectDataStructure("bien").find((field) => field.key === "propertyType")?.options ?? []).map(
+    (option) => [option.value, option.label],
+  ),
+);
+
+const buildAlertHighlights = (details: Record<string, unknown>): string[] => {
+  const propertyType = readText(readDetail(details, "general", "propertyType"));
+  const rooms = readNumber(readDetail(details, "characteristics", "rooms"));
+  const livingArea = readNumber(readDetail(details, "characteristics", "livingArea"));
+  const dpeClass = readText(readDetail(details, "regulation", "dpeClass"));
+
+  return [
+    propertyType ? (PROPERTY_TYPE_LABELS.get(propertyType) ?? propertyType) : null,
+    rooms !== null ? `${rooms} pièce(s)` : null,
+    livingArea !== null ? `${livingArea.toLocaleString("fr-FR")} m2` : null,
+    dpeClass ? `DPE ${dpeClass}` : null,
+  ].filter((item): item is string => item !== null);
+};
+
+// Photos HD du bien jointes en ligne; une photo illisible est ignorée plutôt que de bloquer l'envoi.
+const loadAlertPhotos = async (orgId: string, propertyId: string) => {
+  const rows = await db
+    .select()
+    .from(files)
+    .where(
+      and(
+        eq(files.orgId, orgId),
+        eq(files.propertyId, propertyId),
+        eq(files.typeDocument, "PHOTOS_HD"),
+        like(files.mimeType, "image/%"),
+      ),
+    )
+    .orderBy(asc(files.createdAt))
+    .limit(MAX_ALERT_PHOTOS);
+
+  const storage = getStorageProvider();
+  const photos: Array<{ fileId: string; attachment: EmailAttachment }> = [];
+  for (const row of rows) {
+    try {
+      const object = await storage.getObject(row.storageKey);
+      photos.push({
+        fileId: row.id,
+        attachment: {
+          fileName: row.fileName,
+          contentType: row.mimeType,
+          content: object.data,
+          contentId: `photo-${row.id}@monimmo`,
+        },
+      });
+    } catch {
+      // best effort
+    }
+  }
+
+  return photos;
+};
+
+export const buyerSearchesService = {
+  async getByUser(input: { orgId: string; userId: string }) {
+    const row = await db.query.buyerSearches.findFirst({
+      where: and(eq(buyerSearches.userId, input.userId), eq(buyerSearches.orgId, input.orgId)),
+    });
+
+    if (!row) {
+      throw new HttpError(404, "BUYER_SEARCH_NOT_FOUND", "Recherche acquéreur introuvable");
+    }
+
+    return toBuyerSearchResponse(row);
+  },
+
+  async upsert(input: { orgId: string; userId: string } & BuyerSearchInput) {
+    await getClientOrThrow(input.orgId, input.userId);
+
+    const budgetMin = input.budgetMin ?? null;
+    const budgetMax = input.budgetMax ?? null;
+    if (budgetMin !== null && budgetMax !== null && budgetMin > budgetMax) {
+      throw new HttpError(
+        400,
+        "BUYER_SEARCH_BUDGET_INVALID",
+        "Le budget minimum doit être inférieur au budget maximum",
+      );
+    }
+
+    const centerLat = input.centerLat ?? null;
+    const centerLng = input.centerLng ?? null;
+    if ((centerLat === null) !== (centerLng === null)) {
+      throw new HttpError(
+        400,
+        "BUYER_SEARCH_CENTER_INVALID",
+        "Le centre de recherche doit préciser latitude et longitude",
+      );
+    }
+
+    const requiredAmenities = normalizeList(input.requiredAmenities);
+    const unknownAmenities = requiredAmenities.filter((key) => !BUYER_SEARCH_AMENITY_KEYS.includes(key));
+    if (unknownAmenities.length > 0) {
+      throw new HttpError(400, "BUYER_SEARCH_AMENITY_INVALID", "Équipement inconnu", {
+        amenities: unknownAmenities,
+      });
+    }
+
+    if (input.propertyType && !MARKET_PROPERTY_TYPES.includes(input.propertyType)) {
+      throw new HttpError(400, "INVALID_PROPERTY_TYPE", "Type de bien invalide");
+    }
+
+    const now = new Date();
+    const values = {
+      budgetMin,
+      budgetMax,
+      cities: JSON.stringify(normalizeList(input.cities)),
+      postalCodes: JSON.stringify(normalizeList(input.postalCodes)),
+      radiusKm: input.radiusKm ?? null,
+      centerLat,
+      centerLng,
+      propertyType: input.propertyType ?? null,
+      minRooms: input.minRooms ?? null,
+      minLivingArea: input.minLivingArea ?? null,
+      requiredAmenities: JSON.stringify(requiredAmenities),
+      maxDpeClass: input.maxDpeClass ?? null,
+      updatedAt: now,
+    };
+
+    await db
+      .insert(buyerSearches)
+      .values({
+        id: crypto.randomUUID(),
+        orgId: input.orgId,
+        userId: input.userId,
+        ...values,
+        createdAt: now,
+      })
+      .onConflictDoUpdate({ target: buyerSearches.userId, set: values });
+
+    await this.matchUser({ orgId: input.orgId, userId: input.userId });
+    return this.getByUser({ orgId: input.orgId, userId: input.userId });
+  },
+
+  async remove(input: { orgId: string; userId: string }) {
+    await this.getByUser(input);
+    await db
+      .delete(propertyBuyerMatches)
+      .where(
+        and(eq(propertyBuyerMatches.orgId, input.orgId), eq(propertyBuyerMatches.userId, input.userId)),
+      );
+    await db
+      .delete(buyerSearches)
+      .where(and(eq(buyerSearches.orgId, input.orgId), eq(buyerSearches.userId, input.userId)));
+  },
+
+  async matchProperty(input: { orgId: string; propertyId: string; trigger: BuyerMatchTrigger }) {
+    const property = await getPropertyOrThrow(input.orgId, input.propertyId);
+    const [searches, orgProperties] = await Promise.all([
+      listOrgSearches(input.orgId),
+      db.select().from(properties).where(eq(properties.orgId, input.orgId)),
+    ]);
+
+    const now = new Date();
+    const matches = searches.flatMap((search) => {
+      const result = evaluateBuyerMatch(search, property, resolveSearchCenter(search, orgProperties));
+      return result ? [{ userId: search.userId, ...result }] : [];
+    });
+
+    await db.transaction(async (tx) => {
+      await tx.delete(propertyBuyerMatches).where(eq(propertyBuyerMatches.propertyId, property.id));
+      if (matches.length > 0) {
+        await tx.insert(propertyBuyerMatches).values(
+          matches.map((match) => ({
+            id: crypto.randomUUID(),
+            orgId: input.orgId,
+            propertyId: property.id,
+            userId: match.userId,
+            score: match.score,
+            criteria: JSON.stringify(match.criteria),
+            createdAt: now,
+          })),
+        );
+        await tx.insert(propertyTimelineEvents).values({
+          id: crypto.randomUUID(),
+          propertyId: property.id,
+          orgId: input.orgId,
+          eventType: "PROPERTY_BUYERS_MATCHED",
+          payload: JSON.stringify({
+            trigger: input.trigger,
+            matchCount: matches.length,
+            userIds: matches.map((match) => match.userId),
+          }),
+          createdAt: now,
+        });
+      }
+    });
+
+    return this.listMatchesForProperty({ orgId: input.orgId, propertyId: property.id });
+  },
+
+  async matchUser(input: { orgId: string; userId: string }) {
+    const search = await this.getByUser(input);
+    const orgProperties = await db.select().from(properties).where(eq(properties.orgId, input.orgId));
+    const center = resolveSearchCenter(search, orgProperties);
+
+    const now = new Date();
+    const matches = orgProperties
+      .filter((property) => !CLOSED_STATUSES.includes(property.status))
+      .flatMap((property) => {
+        const result = evaluateBuyerMatch(search, property, center);
+        return result ? [{ propertyId: property.id, ...result }] : [];
+      });
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(propertyBuyerMatches)
+        .where(
+          and(eq(propertyBuyerMatches.orgId, input.orgId), eq(propertyBuyerMatches.userId, input.userId)),
+        );
+      if (matches.length > 0) {
+        await tx.insert(propertyBuyerMatches).values(
+          matches.map((match) => ({
+            id: crypto.randomUUID(),
+            orgId: input.orgId,
+            propertyId: match.propertyId,
+            userId: input.userId,
+            score: match.score,
+            criteria: JSON.stringify(match.criteria),
+            createdAt: now,
+          })),
+        );
+      }
+    });
+  },
+
+  async listMatchesForProperty(input: { orgId: string; propertyId: string }) {
+    await getPropertyOrThrow(input.orgId, input.propertyId);
+    const rows = await db
+      .select({
+        match: propertyBuyerMatches,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        phone: users.phone,
+        alertSentAt: propertyBuyerAlerts.createdAt,
+      })
+      .from(propertyBuyerMatches)
+      .innerJoin(users, eq(users.id, propertyBuyerMatches.userId))
+      .leftJoin(
+        propertyBuyerAlerts,
+        and(
+          eq(propertyBuyerAlerts.propertyId, propertyBuyerMatches.propertyId),
+          eq(propertyBuyerAlerts.userId, propertyBuyerMatches.userId),
+        ),
+      )
+      .where(
+        and(
+          eq(propertyBuyerMatches.orgId, input.orgId),
+          eq(propertyBuyerMatches.propertyId, input.propertyId),
+        ),
+      );
+
+    return {
+      items: rows
+        .map((row) => ({
+          userId: row.match.userId,
+          firstName: row.firstName,
+          lastName: row.lastName,
+          email: row.email,
+          phone: row.phone,
+          score: row.match.score,
+          criteria: parseCriteria(row.match.criteria),
+          matchedAt: row.match.createdAt.toISOString(),
+          alertSentAt: row.alertSentAt?.toISOString() ?? null,
+        }))
+        .sort((a, b) => b.score - a.score),
+    };
+  },
+
+  // Envoie l'alerte email aux acquéreurs rapprochés, au plus une fois par couple bien/acquéreur.
+  async sendAlerts(input: { orgId: string; propertyId: string; userIds?: string[] }) {
+    const property = await getPropertyOrThrow(input.orgId, input.propertyId);
+    const matches = await db
+      .select({ userId: propertyBuyerMatches.userId, firstName: users.firstName, email: users.email })
+      .from(propertyBuyerMatches)
+      .innerJoin(users, eq(users.id, propertyBuyerMatches.userId))
+      .where(
+        and(
+          eq(propertyBuyerMatches.orgId, input.orgId),
+          eq(propertyBuyerMatches.propertyId, property.id),
+        ),
+      );
+    const matchesByUserId = new Map(matches.map((match) => [match.userId, match]));
+    const targetUserIds = input.userIds ? [...new Set(input.userIds)] : [...matchesByUserId.keys()];
+
+    const items: Array<{ userId: string; status: BuyerAlertStatus; messageId: string | null }> = [];
+    const pending = targetUserIds.flatMap((userId) => {
+      const match = matchesByUserId.get(userId);
+      if (!match) {
+        items.push({ userId, status: "NOT_MATCHED", messageId: null });
+        return [];
+      }
+      if (!match.email) {
+        items.push({ userId, status: "NO_EMAIL", messageId: null });
+        return [];
+      }
+      return [{ ...match, email: match.email }];
+    });
+
+    if (pending.length === 0) {
+      return { items };
+    }
+
+    const settings = await getGlobalProviderSettings();
+    const emailProvider = createEmailProvider(settings.emailProvider);
+    const [organization, photos] = await Promise.all([
+      db.query.organizations.findFirst({ where: eq(organizations.id, input.orgId) }),
+      loadAlertPhotos(input.orgId, property.id),
+    ]);
+    const details = parseJsonRecord(property.details);
+    const templateProperty = {
+      title: property.title,
+      city: property.city,
+      postalCode: property.postalCode,
+      price: property.price ?? readNumber(readDetail(details, "finance", "salePriceTtc")),
+      description:
+        readText(readDetail(details, "marketing", "shortDescription")) ??
+        readText(readDetail(details, "marketing", "marketingHook")),
+      highlights: buildAlertHighlights(details),
+    };
+
+    const sentUserIds: string[] = [];
+    for (const buyer of pending) {
+      // La réservation précède l'envoi: deux demandes concurrentes ne peuvent pas doubler l'alerte.
+      const alertId = crypto.randomUUID();
+      const claimed = await db
+        .insert(propertyBuyerAlerts)
+        .values({
+          id: alertId,
+          orgId: input.orgId,
+          propertyId: property.id,
+          userId: buyer.userId,
+          messageId: null,
+          createdAt: new Date(),
+        })
+        .onConflictDoNothing()
+        .returning({ id: propertyBuyerAlerts.id });
+
+      if (claimed.length === 0) {
+        items.push({ userId: buyer.userId, status: "ALREADY_SENT", messageId: null });
+        continue;
+      }
+
+      const email = renderBuyerAlertEmail({
+        buyerFirstName: buyer.firstName,
+        agencyName: organization?.name ?? "",
+        property: templateProperty,
+        photos: photos.map((photo) => ({
+          contentId: photo.attachment.contentId ?? photo.fileId,
+          fileName: photo.attachment.fileName,
+        })),
+      });
+
+      let sent: Awaited<ReturnType<typeof emailProvider.send>>;
+      try {
+        sent = await emailProvider.send({
+          to: [buyer.email],
+          subject: email.subject,
+          text: email.text,
+          html: email.html,
+          attachments: photos.map((photo) => photo.attachment),
+        });
+      } catch (error) {
+        // Seul un envoi en échec libère la réservation: l'alerte pourra être retentée.
+        await db.delete(propertyBuyerAlerts).where(eq(propertyBuyerAlerts.id, alertId));
+        console.warn(
+          `[BuyerAlerts] envoi impossible property=${property.id} user=${buyer.userId}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+        items.push({ userId: buyer.userId, status: "FAILED", messageId: null });
+        continue;
+      }
+
+      sentUserIds.push(buyer.userId);
+      try {
+        const message = await messagesService.recordOutboundMessage({
+          orgId: input.orgId,
+          propertyId: property.id,
+          channel: "EMAIL",
+          sourceProvider: settings.emailProvider,
+          externalId: sent.messageId,
+          subject: email.subject,
+          body: email.text,
+          sentAt: new Date(),
+          fromAddress: sent.from,
+          toAddresses: [buyer.email],
+          messageIdHeader: sent.messageId,
+        });
+        for (const photo of photos) {
+          await messagesService.linkFile({ orgId: input.orgId, messageId: message.id, fileId: photo.fileId });
+        }
+        await db
+          .update(propertyBuyerAlerts)
+          .set({ messageId: message.id })
+          .where(eq(propertyBuyerAlerts.id, alertId));
+
+        items.push({ userId: buyer.userId, status: "SENT", messageId: message.id });
+      } catch (error) {
+        // L'email est parti: la réservation reste pour ne pas relancer l'acheteur, seule la trace manque.
+        console.error(
+          `[BuyerAlerts] journalisation impossible property=${property.id} user=${buyer.userId}: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+        items.push({ userId: buyer.userId, status: "SENT", messageId: null });
+      }
+    }
+
+    if (sentUserIds.length > 0) {
+      await db.insert(propertyTimelineEvents).values({
+        id: crypto.randomUUID(),
+        propertyId: property.id,
+        orgId: input.orgId,
+        eventType: "PROPERTY_BUYER_ALERTS_SENT",
+        payload: JSON.stringify({ userIds: sentUserIds }),
+        createdAt: new Date(),
+      });
+    }
+
+    return { items };
+  },
+
+  async listMatchesForUser(input: { orgId: string; userId: string }) {
+    const rows = await db
+      .select({ match: propertyBuyerMatches, property: properties })
+      .from(propertyBuyerMatches)
+      .innerJoin(properties, eq(properties.id, propertyBuyerMatches.propertyId))
+      .where(
+        and(
+          eq(propertyBuyerMatches.orgId, input.orgId),
+          eq(propertyBuyerMatches.userId, input.userId),
+          notInArray(properties.status, CLOSED_STATUSES),
+        ),
+      );
+
+    return {
+      items: rows
+        .map((row) => ({
+          propertyId: row.property.id,
+          propertyTitle: row.property.title,
+          city: row.property.city,
+          postalCode: row.property.postalCode,
+          price: row.property.price,
+          status: row.property.status,
+          score: row.match.score,
+          criteria: parseCriteria(row.match.criteria),
+          matchedAt: row.match.createdAt.toISOString(),
+        }))
+        .sort((a, b) => b.score - a.score),
+    };
+  },
+};
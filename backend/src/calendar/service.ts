@@ -1,5 +1,6 @@
 import { and, eq, gt, inArray, lt } from "drizzle-orm";
 import { db } from "../db/client";
+import { closingService } from "../closing/service";
 import { businessLinks, calendarEvents, properties, propertyVisits, users } from "../db/schema";
 import { HttpError } from "../http/errors";
 import {
@@ -323,6 +324,36 @@ const mapVisitToRdv = (visit: {
   bonDeVisiteFileName: visit.bonDeVisiteFileName,
 });
 
+const mapClosingDeadlineToRdv = (
+  deadline: Awaited<ReturnType<typeof closingService.listCalendarDeadlines>>[number],
+) => ({
+  id: deadline.id,
+  title: deadline.title,
+  propertyId: deadline.propertyId,
+  propertyTitle: deadline.propertyTitle,
+  userId: null,
+  userFirstName: null,
+  userLastName: null,
+  address: deadline.address,
+  comment: deadline.comment,
+  startsAt: deadline.startsAt,
+  endsAt: deadline.endsAt,
+  createdAt: deadline.createdAt,
+  updatedAt: deadline.updatedAt,
+  rdvType: "ECHEANCE_VENTE" as const,
+  bonDeVisiteFileId: null,
+  bonDeVisiteFileName: null,
+});
+
+const parseCalendarBounds = (input: { from?: string; to?: string }) => ({
+  from: input.from
+    ? parseIsoDateTime(input.from, "INVALID_CALENDAR_FROM", "La borne de debut est invalide")
+    : null,
+  to: input.to
+    ? parseIsoDateTime(input.to, "INVALID_CALENDAR_TO", "La borne de fin est invalide")
+    : null,
+});
+
 export const calendarService = {
   async listManualAppointments(input: {
     orgId: string;
@@ -758,19 +789,39 @@ export const calendarService = {
     return created;
   },
 
+  async listCalendarEvents(input: {
+    orgId: string;
+    from?: string;
+    to?: string;
+  }) {
+    const [appointments, deadlines] = await Promise.all([
+      this.listManualAppointments(input),
+      closingService.listCalendarDeadlines({ orgId: input.orgId, ...parseCalendarBounds(input) }),
+    ]);
+
+    const items = [
+      ...appointments.items.map((item) => ({ ...item, kind: "MANUAL_APPOINTMENT" as const })),
+      ...deadlines,
+    ].sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+
+    return { items };
+  },
+
   async listRdv(input: {
     orgId: string;
     from?: string;
     to?: string;
   }) {
-    const [appointments, visits] = await Promise.all([
+    const [appointments, visits, deadlines] = await Promise.all([
       this.listManualAppointments(input),
       propertiesService.listCalendarVisits(input),
+      closingService.listCalendarDeadlines({ orgId: input.orgId, ...parseCalendarBounds(input) }),
     ]);
 
     const items = [
       ...appointments.items.map((item) => mapAppointmentToRdv(item)),
       ...visits.items.map((item) => mapVisitToRdv(item)),
+      ...deadlines.map((item) => mapClosingDeadlineToRdv(item)),
     ].sort((a, b) => a.startsAt.localeCompare(b.startsAt));
 
     return { items };
@@ -0,0 +1,363 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import { files, properties } from "../db/schema";
+import { HttpError } from "../http/errors";
+import { reviewQueueService } from "../review-queue/service";
+
+type PropertyRow = typeof properties.$inferSelect;
+
+export const CLOSING_DEADLINE_KINDS = ["SRU_RETRACTATION", "CONDITION_PRET", "ACTE_AUTHENTIQUE"] as const;
+export type ClosingDeadlineKind = (typeof CLOSING_DEADLINE_KINDS)[number];
+export type ClosingDeadlineState = "PENDING" | "DONE" | "OVERDUE";
+
+export const SRU_RETRACTATION_DAYS = 10;
+export const DEFAULT_LOAN_CONDITION_DAYS = 45;
+export const DEFAULT_ACTE_AUTHENTIQUE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+const DEADLINE_LABELS: Record<ClosingDeadlineKind, string> = {
+  SRU_RETRACTATION: "Fin du délai de rétractation SRU",
+  CONDITION_PRET: "Date limite de la condition suspensive de prêt",
+  ACTE_AUTHENTIQUE: "Signature de l'acte authentique",
+};
+
+// Pièce dont le dépôt solde l'échéance; le délai SRU se purge seul.
+const REQUIRED_DOCUMENTS: Record<ClosingDeadlineKind, string | null> = {
+  SRU_RETRACTATION: null,
+  CONDITION_PRET: "LEVEE_CONDITIONS_SUSPENSIVES",
+  ACTE_AUTHENTIQUE: "ACTE_AUTHENTIQUE",
+};
+
+const OVERDUE_REASONS: Partial<Record<ClosingDeadlineKind, string>> = {
+  CONDITION_PRET: "CLOSING_LOAN_CONDITION_OVERDUE",
+  ACTE_AUTHENTIQUE: "CLOSING_ACTE_AUTHENTIQUE_OVERDUE",
+};
+
+const normalizeOptionalString = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+};
+
+const parseDetails = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const readClosingDetails = (rawDetails: string) => {
+  const details = parseDetails(rawDetails);
+  const marketing =
+    details.marketing && typeof details.marketing === "object" && !Array.isArray(details.marketing)
+      ? (details.marketing as Record<string, unknown>)
+      : {};
+  const read = (key: string) => normalizeOptionalString(marketing[key] ?? details[key]);
+
+  return {
+    compromisSignatureDate: read("compromisSignatureDate"),
+    loanConditionDeadline: read("loanConditionDeadline"),
+    acteAuthentiqueDate: read("acteAuthentiqueDate"),
+  };
+};
+
+const toUtcDay = (value: string): number | null => {
+  const match = value.match(ISO_DATE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+const toIsoDay = (utcDay: number): string => new Date(utcDay).toISOString().slice(0, 10);
+
+const computeEasterSunday = (year: number): number => {
+  // Algorithme de Meeus/Jones/Butcher (calendrier grégorien).
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return Date.UTC(year, month - 1, day);
+};
+
+const isFrenchPublicHoliday = (utcDay: number): boolean => {
+  const date = new Date(utcDay);
+  const year = date.getUTCFullYear();
+  const monthDay = `${date.getUTCMonth() + 1}-${date.getUTCDate()}`;
+  if (["1-1", "5-1", "5-8", "7-14", "8-15", "11-1", "11-11", "12-25"].includes(monthDay)) {
+    return true;
+  }
+
+  const easter = computeEasterSunday(year);
+  return [1, 39, 50].some((offset) => easter + offset * DAY_MS === utcDay);
+};
+
+// Un délai qui expire un samedi, un dimanche ou un jour férié est prorogé au premier jour ouvrable.
+const extendToWorkingDay = (utcDay: number): number => {
+  let current = utcDay;
+  while ([0, 6].includes(new Date(current).getUTCDay()) || isFrenchPublicHoliday(current)) {
+    current += DAY_MS;
+  }
+
+  return current;
+};
+
+export const computeClosingDeadlines = (input: {
+  compromisSignatureDate: string;
+  loanConditionDeadline?: string | null;
+  acteAuthentiqueDate?: string | null;
+}): Array<{ kind: ClosingDeadlineKind; dueDate: string; computed: boolean }> => {
+  const signatureDay = toUtcDay(input.compromisSignatureDate);
+  if (signatureDay === null) {
+    return [];
+  }
+
+  const override = (value: string | null | undefined) => (value ? toUtcDay(value) : null);
+  const loanOverride = override(input.loanConditionDeadline);
+  const acteOverride = override(input.acteAuthentiqueDate);
+
+  return [
+    {
+      kind: "SRU_RETRACTATION",
+      dueDate: toIsoDay(extendToWorkingDay(signatureDay + SRU_RETRACTATION_DAYS * DAY_MS)),
+      computed: true,
+    },
+    {
+      kind: "CONDITION_PRET",
+      dueDate: toIsoDay(loanOverride ?? signatureDay + DEFAULT_LOAN_CONDITION_DAYS * DAY_MS),
+      computed: loanOverride === null,
+    },
+    {
+      kind: "ACTE_AUTHENTIQUE",
+      dueDate: toIsoDay(acteOverride ?? signatureDay + DEFAULT_ACTE_AUTHENTIQUE_DAYS * DAY_MS),
+      computed: acteOverride === null,
+    },
+  ];
+};
+
+const listPresentDocumentTypes = async (
+  orgId: string,
+  propertyIds: string[],
+): Promise<Map<string, Set<string>>> => {
+  const byProperty = new Map<string, Set<string>>();
+  if (propertyIds.length === 0) {
+    return byProperty;
+  }
+
+  const rows = await db
+    .select({ propertyId: files.propertyId, typeDocument: files.typeDocument })
+    .from(files)
+    .where(
+      and(
+        eq(files.orgId, orgId),
+        inArray(files.propertyId, propertyIds),
+        inArray(files.typeDocument, ["LEVEE_CONDITIONS_SUSPENSIVES", "ACTE_AUTHENTIQUE"]),
+      ),
+    );
+
+  for (const row of rows) {
+    if (!row.propertyId || !row.typeDocument) {
+      continue;
+    }
+
+    const types = byProperty.get(row.propertyId) ?? new Set<string>();
+    types.add(row.typeDocument);
+    byProperty.set(row.propertyId, types);
+  }
+
+  return byProperty;
+};
+
+const buildTracker = (property: PropertyRow, presentTypes: Set<string>, now: Date) => {
+  const closing = readClosingDetails(property.details);
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const deadlines = closing.compromisSignatureDate
+    ? computeClosingDeadlines({
+        compromisSignatureDate: closing.compromisSignatureDate,
+        loanConditionDeadline: closing.loanConditionDeadline,
+        acteAuthentiqueDate: closing.acteAuthentiqueDate,
+      })
+    : [];
+
+  return {
+    propertyId: property.id,
+    propertyTitle: property.title,
+    status: property.status,
+    compromisSignatureDate: closing.compromisSignatureDate,
+    deadlines: deadlines.map((deadline) => {
+      const requiredTypeDocument = REQUIRED_DOCUMENTS[deadline.kind];
+      const documentPresent = requiredTypeDocument ? presentTypes.has(requiredTypeDocument) : false;
+      const daysRemaining = Math.round((toUtcDay(deadline.dueDate)! - today) / DAY_MS);
+      const state: ClosingDeadlineState =
+        documentPresent || (!requiredTypeDocument && daysRemaining < 0)
+          ? "DONE"
+          : daysRemaining < 0
+            ? "OVERDUE"
+            : "PENDING";
+
+      return {
+        kind: deadline.kind,
+        label: DEADLINE_LABELS[deadline.kind],
+        dueDate: deadline.dueDate,
+        computed: deadline.computed,
+        daysRemaining,
+        requiredTypeDocument,
+        documentPresent,
+        state,
+      };
+    }),
+  };
+};
+
+export type ClosingTracker = ReturnType<typeof buildTracker>;
+
+const listCompromisProperties = async (orgId?: string): Promise<PropertyRow[]> =>
+  db
+    .select()
+    .from(properties)
+    .where(
+      and(
+        eq(properties.status, "COMPROMIS"),
+        orgId ? eq(properties.orgId, orgId) : undefined,
+        sql`coalesce(json_extract(${properties.details}, '$.marketing.compromisSignatureDate'), json_extract(${properties.details}, '$.compromisSignatureDate')) is not null`,
+      ),
+    );
+
+const formatPropertyAddress = (property: PropertyRow): string | null => {
+  const parts = [property.address, `${property.postalCode} ${property.city}`]
+    .map((part) => part?.trim())
+    .filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(", ") : null;
+};
+
+export const closingService = {
+  async getTracker(input: { orgId: string; propertyId: string; now?: Date }) {
+    const property = await db.query.properties.findFirst({
+      where: and(eq(properties.id, input.propertyId), eq(properties.orgId, input.orgId)),
+    });
+
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    const presentTypes = await listPresentDocumentTypes(input.orgId, [property.id]);
+    return buildTracker(property, presentTypes.get(property.id) ?? new Set(), input.now ?? new Date());
+  },
+
+  // Échéances des biens sous compromis, au format des rendez-vous du calendrier (journée entière).
+  async listCalendarDeadlines(input: { orgId: string; from?: Date | null; to?: Date | null; now?: Date }) {
+    const rows = await listCompromisProperties(input.orgId);
+    const presentTypes = await listPresentDocumentTypes(
+      input.orgId,
+      rows.map((row) => row.id),
+    );
+    const now = input.now ?? new Date();
+
+    return rows
+      .flatMap((property) => {
+        const tracker = buildTracker(property, presentTypes.get(property.id) ?? new Set(), now);
+        return tracker.deadlines.map((deadline) => {
+          const startsAt = new Date(toUtcDay(deadline.dueDate)!);
+          const endsAt = new Date(startsAt.getTime() + DAY_MS);
+          const documentNote = deadline.requiredTypeDocument
+            ? deadline.documentPresent
+              ? `Pièce reçue: ${deadline.requiredTypeDocument}`
+              : `Pièce attendue: ${deadline.requiredTypeDocument}`
+            : null;
+
+          return {
+            id: `closing:${property.id}:${deadline.kind}`,
+            title: deadline.label,
+            propertyId: property.id,
+            propertyTitle: property.title,
+            userId: null,
+            userFirstName: null,
+            userLastName: null,
+            address: formatPropertyAddress(property),
+            comment: documentNote,
+            startsAt: startsAt.toISOString(),
+            endsAt: endsAt.toISOString(),
+            createdAt: property.updatedAt.toISOString(),
+            updatedAt: property.updatedAt.toISOString(),
+            kind: "CLOSING_DEADLINE" as const,
+            closingDeadlineKind: deadline.kind,
+            closingDeadlineState: deadline.state,
+          };
+        });
+      })
+      .filter(
+        (item) =>
+          (!input.from || new Date(item.endsAt) > input.from) &&
+          (!input.to || new Date(item.startsAt) < input.to),
+      );
+  },
+
+  async runDeadlineChecks(input: { now?: Date } = {}) {
+    const now = input.now ?? new Date();
+    const summary = { alertsCreated: 0 };
+    const rows = await listCompromisProperties();
+
+    const rowsByOrg = new Map<string, PropertyRow[]>();
+    for (const row of rows) {
+      rowsByOrg.set(row.orgId, [...(rowsByOrg.get(row.orgId) ?? []), row]);
+    }
+
+    for (const [orgId, orgRows] of rowsByOrg) {
+      const presentTypes = await listPresentDocumentTypes(
+        orgId,
+        orgRows.map((row) => row.id),
+      );
+
+      for (const property of orgRows) {
+        const tracker = buildTracker(property, presentTypes.get(property.id) ?? new Set(), now);
+
+        for (const deadline of tracker.deadlines) {
+          const reason = OVERDUE_REASONS[deadline.kind];
+          if (!reason || deadline.state !== "OVERDUE") {
+            continue;
+          }
+
+          const created = await reviewQueueService.createOpenItemOnce({
+            orgId,
+            itemType: "PROPERTY",
+            itemId: property.id,
+            reason,
+            payload: {
+              propertyTitle: property.title,
+              deadlineKind: deadline.kind,
+              dueDate: deadline.dueDate,
+              missingTypeDocument: deadline.requiredTypeDocument,
+              compromisSignatureDate: tracker.compromisSignatureDate,
+            },
+            onceKey: "dueDate",
+          });
+          if (created) {
+            summary.alertsCreated += 1;
+          }
+        }
+      }
+    }
+
+    return summary;
+  },
+};
@@ -0,0 +1,216 @@
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/client";
+import { properties, propertyCommissions, users } from "../db/schema";
+import { HttpError } from "../http/errors";
+
+type PropertyRow = typeof properties.$inferSelect;
+type PropertyCommissionRow = typeof propertyCommissions.$inferSelect;
+
+export type CommissionSnapshot = {
+  feesAmount: number;
+  listingAgentUserId: string | null;
+  listingAgentAmount: number;
+  sellingAgentUserId: string | null;
+  sellingAgentAmount: number;
+  agencyAmount: number;
+};
+
+const parseDetails = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const readFinanceDetails = (rawDetails: string) => {
+  const details = parseDetails(rawDetails);
+  const finance =
+    details.finance && typeof details.finance === "object" && !Array.isArray(details.finance)
+      ? (details.finance as Record<string, unknown>)
+      : {};
+  const feesAmount = Number(finance.feesAmount ?? details.feesAmount);
+  const feesResponsibility = finance.feesResponsibility ?? details.feesResponsibility;
+
+  return {
+    feesAmount: Number.isFinite(feesAmount) && feesAmount > 0 ? Math.round(feesAmount) : 0,
+    feesResponsibility:
+      feesResponsibility === "VENDEUR" || feesResponsibility === "ACQUEREUR"
+        ? feesResponsibility
+        : null,
+  };
+};
+
+// Sans répartition saisie, l'intégralité des honoraires revient à l'agence.
+const toSnapshot = (property: PropertyRow, row: PropertyCommissionRow | undefined): CommissionSnapshot =>
+  row
+    ? {
+        feesAmount: row.feesAmount,
+        listingAgentUserId: row.listingAgentUserId,
+        listingAgentAmount: row.listingAgentAmount,
+        sellingAgentUserId: row.sellingAgentUserId,
+        sellingAgentAmount: row.sellingAgentAmount,
+        agencyAmount: row.agencyAmount,
+      }
+    : (() => {
+        const { feesAmount } = readFinanceDetails(property.details);
+        return {
+          feesAmount,
+          listingAgentUserId: null,
+          listingAgentAmount: 0,
+          sellingAgentUserId: null,
+          sellingAgentAmount: 0,
+          agencyAmount: feesAmount,
+        };
+      })();
+
+const getPropertyOrThrow = async (orgId: string, propertyId: string): Promise<PropertyRow> => {
+  const property = await db.query.properties.findFirst({
+    where: and(eq(properties.id, propertyId), eq(properties.orgId, orgId)),
+  });
+
+  if (!property) {
+    throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+  }
+
+  return property;
+};
+
+const assertAgent = async (orgId: string, userId: string | null, amount: number, field: string) => {
+  if (amount < 0) {
+    throw new HttpError(400, "INVALID_COMMISSION_AMOUNT", "Les montants de commission doivent être positifs");
+  }
+
+  if (!userId) {
+    if (amount > 0) {
+      throw new HttpError(
+        400,
+        "COMMISSION_AGENT_REQUIRED",
+        "Un agent est requis pour attribuer une part de commission",
+        { field },
+      );
+    }
+    return;
+  }
+
+  const agent = await db.query.users.findFirst({
+    where: and(eq(users.id, userId), eq(users.orgId, orgId)),
+  });
+  if (!agent) {
+    throw new HttpError(404, "USER_NOT_FOUND", "Utilisateur introuvable");
+  }
+
+  if (agent.accountType !== "AGENT") {
+    throw new HttpError(400, "COMMISSION_AGENT_INVALID", "Seul un agent peut percevoir une commission", {
+      field,
+    });
+  }
+};
+
+const toCommissionResponse = (
+  property: PropertyRow,
+  row: PropertyCommissionRow | undefined,
+) => ({
+  propertyId: property.id,
+  ...toSnapshot(property, row),
+  feesResponsibility: readFinanceDetails(property.details).feesResponsibility,
+  configured: Boolean(row),
+  updatedAt: row?.updatedAt.toISOString() ?? null,
+});
+
+export const commissionsService = {
+  async getByProperty(input: { orgId: string; propertyId: string }) {
+    const property = await getPropertyOrThrow(input.orgId, input.propertyId);
+    const row = await db.query.propertyCommissions.findFirst({
+      where: and(
+        eq(propertyCommissions.propertyId, property.id),
+        eq(propertyCommissions.orgId, input.orgId),
+      ),
+    });
+
+    return toCommissionResponse(property, row);
+  },
+
+  async upsert(input: {
+    orgId: string;
+    propertyId: string;
+    feesAmount?: number;
+    listingAgentUserId?: string | null;
+    listingAgentAmount?: number;
+    sellingAgentUserId?: string | null;
+    sellingAgentAmount?: number;
+    agencyAmount?: number;
+  }) {
+    const property = await getPropertyOrThrow(input.orgId, input.propertyId);
+    const feesAmount = input.feesAmount ?? readFinanceDetails(property.details).feesAmount;
+    const listingAgentUserId = input.listingAgentUserId ?? null;
+    const listingAgentAmount = input.listingAgentAmount ?? 0;
+    const sellingAgentUserId = input.sellingAgentUserId ?? null;
+    const sellingAgentAmount = input.sellingAgentAmount ?? 0;
+    const agencyAmount = input.agencyAmount ?? feesAmount - listingAgentAmount - sellingAgentAmount;
+
+    await assertAgent(input.orgId, listingAgentUserId, listingAgentAmount, "listingAgentUserId");
+    await assertAgent(input.orgId, sellingAgentUserId, sellingAgentAmount, "sellingAgentUserId");
+
+    if (agencyAmount < 0 || listingAgentAmount + sellingAgentAmount + agencyAmount !== feesAmount) {
+      throw new HttpError(
+        400,
+        "COMMISSION_SPLIT_MISMATCH",
+        "La répartition doit correspondre au montant total des honoraires",
+        { feesAmount, listingAgentAmount, sellingAgentAmount, agencyAmount },
+      );
+    }
+
+    const now = new Date();
+    const values = {
+      feesAmount,
+      listingAgentUserId,
+      listingAgentAmount,
+      sellingAgentUserId,
+      sellingAgentAmount,
+      agencyAmount,
+      updatedAt: now,
+    };
+
+    await db
+      .insert(propertyCommissions)
+      .values({
+        id: crypto.randomUUID(),
+        orgId: input.orgId,
+        propertyId: property.id,
+        ...values,
+        createdAt: now,
+      })
+      .onConflictDoUpdate({ target: propertyCommissions.propertyId, set: values });
+
+    return this.getByProperty({ orgId: input.orgId, propertyId: property.id });
+  },
+
+  // Photographie de la répartition enregistrée dans la timeline lors du passage en COMPROMIS / VENDU.
+  async snapshot(input: { orgId: string; propertyId: string }): Promise<CommissionSnapshot> {
+    const property = await getPropertyOrThrow(input.orgId, input.propertyId);
+    const row = await db.query.propertyCommissions.findFirst({
+      where: and(
+        eq(propertyCommissions.propertyId, property.id),
+        eq(propertyCommissions.orgId, input.orgId),
+      ),
+    });
+
+    return toSnapshot(property, row);
+  },
+
+  async listSnapshots(input: { orgId: string }): Promise<Map<string, CommissionSnapshot>> {
+    const [propertyRows, commissionRows] = await Promise.all([
+      db.select().from(properties).where(eq(properties.orgId, input.orgId)),
+      db.select().from(propertyCommissions).where(eq(propertyCommissions.orgId, input.orgId)),
+    ]);
+    const commissionByProperty = new Map(commissionRows.map((row) => [row.propertyId, row]));
+
+    return new Map(
+      propertyRows.map((property) => [property.id, toSnapshot(property, commissionByProperty.get(property.id))]),
+    );
+  },
+};
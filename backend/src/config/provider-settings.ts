@@ -2,7 +2,8 @@ import { eq } from "drizzle-orm";
 import { db } from "../db/client";
 import { platformSettings } from "../db/schema";
 
-export type GlobalAIProvider = "openai" | "anthropic";
+export type GlobalAIProvider = "openai" | "anthropic" | "local";
+export type GlobalTranscriptionProvider = "ai-provider" | "whisper-local";
 export type GlobalSearchEngine = "qmd" | "meilisearch";
 export type GlobalStorageProvider = "local" | "s3";
 export type GlobalEmailProvider = "smtp-server" | "google";
@@ -10,6 +11,7 @@ export type GlobalCalendarProvider = "google";
 
 export type GlobalProviderSettings = {
   aiProvider: GlobalAIProvider;
+  transcriptionProvider: GlobalTranscriptionProvider;
   searchEngine: GlobalSearchEngine;
   storageProvider: GlobalStorageProvider;
   emailProvider: GlobalEmailProvider;
@@ -19,13 +21,31 @@ export type GlobalProviderSettings = {
 const PLATFORM_SETTINGS_ID = "global";
 
 export const normalizeGlobalAIProvider = (value: unknown): GlobalAIProvider => {
-  if (typeof value === "string" && value.trim().toLowerCase() === "anthropic") {
-    return "anthropic";
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "anthropic") {
+      return "anthropic";
+    }
+    // Tout endpoint chat compatible OpenAI auto-hébergé (Ollama, vLLM, LM Studio).
+    if (normalized === "local" || normalized === "ollama" || normalized === "openai-compatible") {
+      return "local";
+    }
   }
 
   return "openai";
 };
 
+// "ai-provider" délègue la transcription au provider IA global.
+export const normalizeGlobalTranscriptionProvider = (
+  value: unknown,
+): GlobalTranscriptionProvider => {
+  if (typeof value === "string" && value.trim().toLowerCase() === "whisper-local") {
+    return "whisper-local";
+  }
+
+  return "ai-provider";
+};
+
 export const normalizeGlobalSearchEngine = (value: unknown): GlobalSearchEngine => {
   if (typeof value === "string" && value.trim().toLowerCase() === "meilisearch") {
     return "meilisearch";
@@ -68,6 +88,7 @@ export const normalizeGlobalCalendarProvider = (
 
 const toNormalizedSettings = (row: typeof platformSettings.$inferSelect): GlobalProviderSettings => ({
   aiProvider: normalizeGlobalAIProvider(row.aiProvider),
+  transcriptionProvider: normalizeGlobalTranscriptionProvider(row.transcriptionProvider),
   searchEngine: normalizeGlobalSearchEngine(row.searchEngine),
   storageProvider: normalizeGlobalStorageProvider(row.storageProvider),
   emailProvider: normalizeGlobalEmailProvider(row.emailProvider),
@@ -81,6 +102,7 @@ const ensurePlatformSettingsRow = async (): Promise<typeof platformSettings.$inf
     .values({
       id: PLATFORM_SETTINGS_ID,
       aiProvider: "openai",
+      transcriptionProvider: "ai-provider",
       searchEngine: "qmd",
       storageProvider: "local",
       emailProvider: "smtp-server",
@@ -116,6 +138,10 @@ export const updateGlobalProviderSettings = async (
       typeof input.aiProvider === "string"
         ? normalizeGlobalAIProvider(input.aiProvider)
         : normalizeGlobalAIProvider(current.aiProvider),
+    transcriptionProvider:
+      typeof input.transcriptionProvider === "string"
+        ? normalizeGlobalTranscriptionProvider(input.transcriptionProvider)
+        : normalizeGlobalTranscriptionProvider(current.transcriptionProvider),
     searchEngine:
       typeof input.searchEngine === "string"
         ? normalizeGlobalSearchEngine(input.searchEngine)
@@ -138,6 +164,7 @@ export const updateGlobalProviderSettings = async (
     .update(platformSettings)
     .set({
       aiProvider: next.aiProvider,
+      transcriptionProvider: next.transcriptionProvider,
       searchEngine: next.searchEngine,
       storageProvider: next.storageProvider,
       emailProvider: next.emailProvider,
@@ -11,12 +11,15 @@ export const organizations = sqliteTable("organizations", {
   notaryFeePct: real("notary_fee_pct").notNull().default(8),
   valuationAiOutputFormat: text("valuation_ai_output_format"),
   assistantSoul: text("assistant_soul"),
+  statusWorkflow: text("status_workflow"),
+  mandateRegisterSeq: integer("mandate_register_seq").notNull().default(0),
   ...timestampColumns,
 });
 
 export const platformSettings = sqliteTable("platform_settings", {
   id: text("id").primaryKey(),
   aiProvider: text("ai_provider").notNull().default("openai"),
+  transcriptionProvider: text("transcription_provider").notNull().default("ai-provider"),
   searchEngine: text("search_engine").notNull().default("qmd"),
   storageProvider: text("storage_provider").notNull().default("local"),
   emailProvider: text("email_provider").notNull().default("smtp-server"),
@@ -121,10 +124,13 @@ export const propertyVisits = sqliteTable(
     prospectUserId: text("prospect_user_id")
       .notNull()
       .references(() => users.id),
+    agentUserId: text("agent_user_id").references(() => users.id),
     startsAt: integer("starts_at", { mode: "timestamp_ms" }).notNull(),
     endsAt: integer("ends_at", { mode: "timestamp_ms" }).notNull(),
     compteRendu: text("compte_rendu"),
     bonDeVisiteFileId: text("bon_de_visite_file_id"),
+    bonDeVisiteSignedAt: integer("bon_de_visite_signed_at", { mode: "timestamp_ms" }),
+    bonDeVisiteSha256: text("bon_de_visite_sha256"),
     data: text("data").notNull().default("{}"),
     createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
     updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
@@ -135,6 +141,287 @@ export const propertyVisits = sqliteTable(
       table.propertyId,
       table.startsAt,
     ),
+    orgAgentStartsAtIdx: index("property_visits_org_agent_starts_at_idx").on(
+      table.orgId,
+      table.agentUserId,
+      table.startsAt,
+    ),
+  }),
+);
+
+export const propertyVisitFeedbacks = sqliteTable(
+  "property_visit_feedbacks",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    visitId: text("visit_id")
+      .notNull()
+      .references(() => propertyVisits.id),
+    propertyId: text("property_id")
+      .notNull()
+      .references(() => properties.id),
+    interestLevel: text("interest_level"),
+    perceivedPrice: text("perceived_price"),
+    positives: text("positives").notNull().default("[]"),
+    negatives: text("negatives").notNull().default("[]"),
+    offerIntention: text("offer_intention"),
+    source: text("source").notNull(),
+    vocalId: text("vocal_id"),
+    confidence: real("confidence"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    visitUnique: uniqueIndex("property_visit_feedbacks_visit_unique").on(table.visitId),
+    orgPropertyIdx: index("property_visit_feedbacks_org_property_idx").on(
+      table.orgId,
+      table.propertyId,
+    ),
+  }),
+);
+
+// Plages de disponibilité hebdomadaires d'un agent, en minutes depuis minuit (heure de Paris).
+export const agentWorkingHours = sqliteTable(
+  "agent_working_hours",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    weekday: integer("weekday").notNull(),
+    startMinute: integer("start_minute").notNull(),
+    endMinute: integer("end_minute").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    orgUserIdx: index("agent_working_hours_org_user_idx").on(table.orgId, table.userId),
+  }),
+);
+
+export const tasks = sqliteTable(
+  "tasks",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    propertyId: text("property_id").references(() => properties.id),
+    assigneeUserId: text("assignee_user_id").references(() => users.id),
+    title: text("title").notNull(),
+    description: text("description"),
+    status: text("status").notNull().default("TODO"),
+    dueAt: integer("due_at", { mode: "timestamp_ms" }),
+    completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+    source: text("source").notNull().default("MANUAL"),
+    templateKey: text("template_key"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    orgStatusDueAtIdx: index("tasks_org_status_due_at_idx").on(
+      table.orgId,
+      table.status,
+      table.dueAt,
+    ),
+    orgPropertyIdx: index("tasks_org_property_idx").on(table.orgId, table.propertyId),
+    orgAssigneeIdx: index("tasks_org_assignee_idx").on(table.orgId, table.assigneeUserId),
+  }),
+);
+
+export const offers = sqliteTable(
+  "offers",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    propertyId: text("property_id")
+      .notNull()
+      .references(() => properties.id),
+    buyerUserId: text("buyer_user_id")
+      .notNull()
+      .references(() => users.id),
+    parentOfferId: text("parent_offer_id"),
+    issuedBy: text("issued_by").notNull().default("ACHETEUR"),
+    amount: integer("amount").notNull(),
+    financingType: text("financing_type").notNull(),
+    conditionsSuspensives: text("conditions_suspensives").notNull().default("[]"),
+    validUntil: integer("valid_until", { mode: "timestamp_ms" }),
+    note: text("note"),
+    status: text("status").notNull().default("SUBMITTED"),
+    signedFileId: text("signed_file_id"),
+    decidedAt: integer("decided_at", { mode: "timestamp_ms" }),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    orgPropertyIdx: index("offers_org_property_idx").on(table.orgId, table.propertyId),
+    orgParentIdx: index("offers_org_parent_idx").on(table.orgId, table.parentOfferId),
+  }),
+);
+
+export const propertyCommissions = sqliteTable(
+  "property_commissions",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    propertyId: text("property_id")
+      .notNull()
+      .references(() => properties.id),
+    feesAmount: integer("fees_amount").notNull(),
+    listingAgentUserId: text("listing_agent_user_id").references(() => users.id),
+    listingAgentAmount: integer("listing_agent_amount").notNull().default(0),
+    sellingAgentUserId: text("selling_agent_user_id").references(() => users.id),
+    sellingAgentAmount: integer("selling_agent_amount").notNull().default(0),
+    agencyAmount: integer("agency_amount").notNull().default(0),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    propertyUnique: uniqueIndex("property_commissions_property_unique").on(table.propertyId),
+    orgIdx: index("property_commissions_org_idx").on(table.orgId),
+  }),
+);
+
+export const buyerSearches = sqliteTable(
+  "buyer_searches",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    budgetMin: integer("budget_min"),
+    budgetMax: integer("budget_max"),
+    cities: text("cities").notNull().default("[]"),
+    postalCodes: text("postal_codes").notNull().default("[]"),
+    radiusKm: real("radius_km"),
+    centerLat: real("center_lat"),
+    centerLng: real("center_lng"),
+    propertyType: text("property_type"),
+    minRooms: integer("min_rooms"),
+    minLivingArea: real("min_living_area"),
+    requiredAmenities: text("required_amenities").notNull().default("[]"),
+    maxDpeClass: text("max_dpe_class"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    userUnique: uniqueIndex("buyer_searches_user_unique").on(table.userId),
+    orgIdx: index("buyer_searches_org_idx").on(table.orgId),
+  }),
+);
+
+export const propertyBuyerMatches = sqliteTable(
+  "property_buyer_matches",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    propertyId: text("property_id")
+      .notNull()
+      .references(() => properties.id),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    score: integer("score").notNull(),
+    criteria: text("criteria").notNull().default("[]"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    propertyUserUnique: uniqueIndex("property_buyer_matches_property_user_unique").on(
+      table.propertyId,
+      table.userId,
+    ),
+    userIdx: index("property_buyer_matches_user_idx").on(table.userId),
+  }),
+);
+
+// Une alerte par couple bien/acquéreur: la ligne est réservée avant l'envoi pour éviter les doublons.
+export const propertyBuyerAlerts = sqliteTable(
+  "property_buyer_alerts",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    propertyId: text("property_id")
+      .notNull()
+      .references(() => properties.id),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    messageId: text("message_id").references(() => messages.id),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    propertyUserUnique: uniqueIndex("property_buyer_alerts_property_user_unique").on(
+      table.propertyId,
+      table.userId,
+    ),
+  }),
+);
+
+export const propertyBookingLinks = sqliteTable(
+  "property_booking_links",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    propertyId: text("property_id")
+      .notNull()
+      .references(() => properties.id),
+    token: text("token").notNull(),
+    enabled: integer("enabled", { mode: "boolean" }).notNull(),
+    requiresConfirmation: integer("requires_confirmation", { mode: "boolean" }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    tokenUnique: uniqueIndex("property_booking_links_token_unique").on(table.token),
+    propertyUnique: uniqueIndex("property_booking_links_property_unique").on(table.propertyId),
+  }),
+);
+
+export const mandateRegisterEntries = sqliteTable(
+  "mandate_register_entries",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    propertyId: text("property_id")
+      .notNull()
+      .references(() => properties.id),
+    registerNumber: integer("register_number").notNull(),
+    mandateType: text("mandate_type"),
+    startDate: text("start_date"),
+    endDate: text("end_date"),
+    mandatorNames: text("mandator_names"),
+    propertyAddress: text("property_address").notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    orgNumberUnique: uniqueIndex("mandate_register_entries_org_number_unique").on(
+      table.orgId,
+      table.registerNumber,
+    ),
+    orgPropertyIdx: index("mandate_register_entries_org_property_idx").on(
+      table.orgId,
+      table.propertyId,
+    ),
   }),
 );
 
@@ -163,6 +450,55 @@ export const files = sqliteTable("files", {
   ),
 }));
 
+export const messageThreads = sqliteTable(
+  "message_threads",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    channel: text("channel").notNull(),
+    // Fil du fournisseur (thread Gmail, conversation WhatsApp) ou clé dérivée des participants.
+    threadKey: text("thread_key").notNull(),
+    propertyId: text("property_id").references(() => properties.id),
+    subject: text("subject"),
+    participants: text("participants").notNull().default("[]"),
+    messageCount: integer("message_count").notNull().default(0),
+    summary: text("summary"),
+    summaryUpdatedAt: integer("summary_updated_at", { mode: "timestamp_ms" }),
+    lastActivityAt: integer("last_activity_at", { mode: "timestamp_ms" }).notNull(),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    orgKeyUnique: uniqueIndex("message_threads_org_key_unique").on(table.orgId, table.threadKey),
+    orgActivityIdx: index("message_threads_org_activity_idx").on(table.orgId, table.lastActivityAt),
+  }),
+);
+
+export const messageThreadUsers = sqliteTable(
+  "message_thread_users",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    threadId: text("thread_id")
+      .notNull()
+      .references(() => messageThreads.id),
+    userId: text("user_id")
+      .notNull()
+      .references(() => users.id),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    threadUserUnique: uniqueIndex("message_thread_users_thread_user_unique").on(
+      table.threadId,
+      table.userId,
+    ),
+  }),
+);
+
 export const messages = sqliteTable(
   "messages",
   {
@@ -171,11 +507,20 @@ export const messages = sqliteTable(
       .notNull()
       .references(() => organizations.id),
     propertyId: text("property_id").references(() => properties.id),
+    threadId: text("thread_id").references(() => messageThreads.id),
     channel: text("channel").notNull(),
+    direction: text("direction").notNull().default("INBOUND"),
     sourceProvider: text("source_provider"),
     externalId: text("external_id"),
     subject: text("subject"),
     body: text("body").notNull(),
+    fromAddress: text("from_address"),
+    toAddresses: text("to_addresses").notNull().default("[]"),
+    ccAddresses: text("cc_addresses").notNull().default("[]"),
+    // En-têtes RFC 5322 conservés pour répondre dans le même fil.
+    messageIdHeader: text("message_id_header"),
+    inReplyTo: text("in_reply_to"),
+    references: text("references").notNull().default("[]"),
     aiStatus: text("ai_status").notNull(),
     receivedAt: integer("received_at", { mode: "timestamp_ms" }).notNull(),
     createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
@@ -219,6 +564,7 @@ export const vocals = sqliteTable("vocals", {
     .notNull()
     .references(() => organizations.id),
   propertyId: text("property_id").references(() => properties.id),
+  prospectUserId: text("prospect_user_id").references(() => users.id),
   fileId: text("file_id")
     .notNull()
     .references(() => files.id),
@@ -229,11 +575,42 @@ export const vocals = sqliteTable("vocals", {
   transcript: text("transcript"),
   summary: text("summary"),
   insights: text("insights"),
+  segments: text("segments"),
   confidence: real("confidence"),
   createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
   updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
 });
 
+export const vocalTranscriptionChunks = sqliteTable(
+  "vocal_transcription_chunks",
+  {
+    id: text("id").primaryKey(),
+    orgId: text("org_id")
+      .notNull()
+      .references(() => organizations.id),
+    vocalId: text("vocal_id")
+      .notNull()
+      .references(() => vocals.id),
+    chunkIndex: integer("chunk_index").notNull(),
+    startMs: integer("start_ms").notNull(),
+    endMs: integer("end_ms"),
+    status: text("status").notNull(),
+    transcript: text("transcript"),
+    summary: text("summary"),
+    confidence: real("confidence"),
+    segments: text("segments"),
+    createdAt: integer("created_at", { mode: "timestamp_ms" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp_ms" }).notNull(),
+  },
+  (table) => ({
+    vocalChunkUnique: uniqueIndex("vocal_transcription_chunks_vocal_chunk_unique").on(
+      table.vocalId,
+      table.chunkIndex,
+    ),
+    orgVocalIdx: index("vocal_transcription_chunks_org_vocal_idx").on(table.orgId, table.vocalId),
+  }),
+);
+
 export const reviewQueueItems = sqliteTable("review_queue_items", {
   id: text("id").primaryKey(),
   orgId: text("org_id")
@@ -100,6 +100,22 @@ export interface paths {
         patch: operations["patchMeSettings"];
         trace?: never;
     };
+    "/me/settings/status-workflow": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getMeStatusWorkflow"];
+        put: operations["putMeStatusWorkflow"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
     "/me/ai-calls": {
         parameters: {
             query?: never;
@@ -388,87 +404,119 @@ export interface paths {
         patch: operations["patchUserById"];
         trace?: never;
     };
-    "/auth/register": {
+    "/users/{id}/working-hours": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
-        put?: never;
-        post: operations["postAuthRegister"];
+        get: operations["getUserWorkingHours"];
+        put: operations["putUserWorkingHours"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/auth/forgot-password": {
+    "/users/{id}/buyer-search": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getUserBuyerSearch"];
+        put: operations["putUserBuyerSearch"];
+        post?: never;
+        delete: operations["deleteUserBuyerSearch"];
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/users/{id}/property-matches": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["listUserPropertyMatches"];
         put?: never;
-        post: operations["postAuthForgotPassword"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/auth/reset-password": {
+    "/tasks": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getTasks"];
         put?: never;
-        post: operations["postAuthResetPassword"];
+        post: operations["postTasks"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/properties": {
+    "/tasks/{id}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getProperties"];
+        get: operations["getTaskById"];
         put?: never;
-        post: operations["postProperties"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: operations["patchTaskById"];
+        trace?: never;
+    };
+    "/offers": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getOffers"];
+        put?: never;
+        post: operations["postOffers"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/properties/{id}": {
+    "/offers/{id}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getPropertyById"];
+        get: operations["getOfferById"];
         put?: never;
         post?: never;
         delete?: never;
         options?: never;
         head?: never;
-        patch: operations["patchPropertyById"];
+        patch?: never;
         trace?: never;
     };
-    "/properties/{id}/status": {
+    "/offers/{id}/counter": {
         parameters: {
             query?: never;
             header?: never;
@@ -477,62 +525,62 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post?: never;
+        post: operations["postOfferCounter"];
         delete?: never;
         options?: never;
         head?: never;
-        patch: operations["patchPropertyStatusById"];
+        patch?: never;
         trace?: never;
     };
-    "/properties/{id}/visits": {
+    "/offers/{id}/accept": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getPropertyVisits"];
+        get?: never;
         put?: never;
-        post: operations["postPropertyVisits"];
+        post: operations["postOfferAccept"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/properties/{id}/risks": {
+    "/offers/{id}/reject": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getPropertyRisks"];
+        get?: never;
         put?: never;
-        post?: never;
+        post: operations["postOfferReject"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/properties/{id}/comparables": {
+    "/auth/register": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getPropertyComparables"];
+        get?: never;
         put?: never;
-        post?: never;
+        post: operations["postAuthRegister"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/properties/{id}/valuation-ai": {
+    "/auth/forgot-password": {
         parameters: {
             query?: never;
             header?: never;
@@ -541,14 +589,14 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post: operations["postPropertyValuationAI"];
+        post: operations["postAuthForgotPassword"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/properties/{id}/valuation-ai/prompt": {
+    "/auth/reset-password": {
         parameters: {
             query?: never;
             header?: never;
@@ -557,69 +605,69 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post: operations["postPropertyValuationAIPrompt"];
+        post: operations["postAuthResetPassword"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/visits": {
+    "/properties": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getVisits"];
+        get: operations["getProperties"];
         put?: never;
-        post?: never;
+        post: operations["postProperties"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/calendar-events": {
+    "/properties/{id}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getCalendarEvents"];
+        get: operations["getPropertyById"];
         put?: never;
-        post: operations["postCalendarEvent"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
-        patch?: never;
+        patch: operations["patchPropertyById"];
         trace?: never;
     };
-    "/calendar-events/{id}": {
+    "/properties/{id}/status": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getCalendarEventById"];
+        get?: never;
         put?: never;
         post?: never;
         delete?: never;
         options?: never;
         head?: never;
-        patch?: never;
+        patch: operations["patchPropertyStatusById"];
         trace?: never;
     };
-    "/rdv": {
+    "/properties/{id}/document-checklist": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getRdv"];
+        get: operations["getPropertyDocumentChecklist"];
         put?: never;
         post?: never;
         delete?: never;
@@ -628,46 +676,62 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/rdv/{id}": {
+    "/properties/{id}/mandate-register": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getRdvById"];
+        get?: never;
         put?: never;
-        post?: never;
+        post: operations["postPropertyMandateRegister"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/visits/{id}": {
+    "/properties/{id}/closing-tracker": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getVisitById"];
+        get: operations["getPropertyClosingTracker"];
         put?: never;
         post?: never;
         delete?: never;
         options?: never;
         head?: never;
-        patch: operations["patchVisitById"];
+        patch?: never;
         trace?: never;
     };
-    "/files": {
+    "/properties/{id}/commission": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getFiles"];
+        get: operations["getPropertyCommission"];
+        put: operations["putPropertyCommission"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/properties/{id}/buyer-matches": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["listPropertyBuyerMatches"];
         put?: never;
         post?: never;
         delete?: never;
@@ -676,7 +740,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/files/upload": {
+    "/properties/{id}/buyer-alerts": {
         parameters: {
             query?: never;
             header?: never;
@@ -685,37 +749,37 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post: operations["postFilesUpload"];
+        post: operations["sendPropertyBuyerAlerts"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/files/{id}": {
+    "/reports/revenue": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getFileById"];
+        get: operations["getRevenueReport"];
         put?: never;
         post?: never;
         delete?: never;
         options?: never;
         head?: never;
-        patch: operations["patchFileById"];
+        patch?: never;
         trace?: never;
     };
-    "/files/{id}/download-url": {
+    "/reports/pipeline": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getFileDownloadUrlById"];
+        get: operations["getPipelineReport"];
         put?: never;
         post?: never;
         delete?: never;
@@ -724,30 +788,30 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/files/{id}/run-ai": {
+    "/reports/pipeline/export": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getPipelineReportExport"];
         put?: never;
-        post: operations["postFileRunAi"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/messages": {
+    "/mandates/register": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getMessages"];
+        get: operations["getMandateRegister"];
         put?: never;
         post?: never;
         delete?: never;
@@ -756,63 +820,63 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/messages/{id}": {
+    "/mandates/register/export": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getMessageById"];
+        get: operations["getMandateRegisterExport"];
         put?: never;
         post?: never;
         delete?: never;
         options?: never;
         head?: never;
-        patch: operations["patchMessageById"];
+        patch?: never;
         trace?: never;
     };
-    "/messages/{id}/run-ai": {
+    "/properties/{id}/visits": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getPropertyVisits"];
         put?: never;
-        post: operations["postMessageRunAi"];
+        post: operations["postPropertyVisits"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/vocals/upload": {
+    "/properties/{id}/visit-slots": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getPropertyVisitSlots"];
         put?: never;
-        post: operations["postVocalsUpload"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/vocals": {
+    "/properties/{id}/booking-link": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getVocals"];
-        put?: never;
+        get: operations["getPropertyBookingLink"];
+        put: operations["putPropertyBookingLink"];
         post?: never;
         delete?: never;
         options?: never;
@@ -820,23 +884,39 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/vocals/{id}": {
+    "/public/visit-booking/{token}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getVocalById"];
+        get: operations["getPublicVisitBooking"];
+        put?: never;
+        post: operations["postPublicVisitBooking"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/properties/{id}/risks": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getPropertyRisks"];
         put?: never;
         post?: never;
         delete?: never;
         options?: never;
         head?: never;
-        patch: operations["patchVocalById"];
+        patch?: never;
         trace?: never;
     };
-    "/vocals/{id}/transcribe": {
+    "/properties/{id}/seller-reports": {
         parameters: {
             query?: never;
             header?: never;
@@ -845,14 +925,14 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post: operations["postVocalTranscribeById"];
+        post: operations["createSellerReport"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/vocals/{id}/extract-insights": {
+    "/properties/{id}/seller-reports/{fileId}/send": {
         parameters: {
             query?: never;
             header?: never;
@@ -861,21 +941,21 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post: operations["postVocalExtractInsightsById"];
+        post: operations["sendSellerReport"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/review-queue": {
+    "/properties/{id}/comparables": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get: operations["getReviewQueue"];
+        get: operations["getPropertyComparables"];
         put?: never;
         post?: never;
         delete?: never;
@@ -884,7 +964,7 @@ export interface paths {
         patch?: never;
         trace?: never;
     };
-    "/review-queue/{id}/resolve": {
+    "/properties/{id}/valuation-ai": {
         parameters: {
             query?: never;
             header?: never;
@@ -893,14 +973,14 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post: operations["postReviewQueueResolveById"];
+        post: operations["postPropertyValuationAI"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/integrations/gmail/connect": {
+    "/properties/{id}/valuation-ai/prompt": {
         parameters: {
             query?: never;
             header?: never;
@@ -909,949 +989,3341 @@ export interface paths {
         };
         get?: never;
         put?: never;
-        post: operations["postIntegrationsGmailConnect"];
+        post: operations["postPropertyValuationAIPrompt"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/integrations/gmail/sync": {
+    "/visits": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getVisits"];
         put?: never;
-        post: operations["postIntegrationsGmailSync"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/integrations/google-calendar/connect": {
+    "/calendar-events": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getCalendarEvents"];
         put?: never;
-        post: operations["postIntegrationsGoogleCalendarConnect"];
+        post: operations["postCalendarEvent"];
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/integrations/google-calendar/sync": {
+    "/calendar-events/{id}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getCalendarEventById"];
         put?: never;
-        post: operations["postIntegrationsGoogleCalendarSync"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/integrations/whatsapp/connect": {
+    "/rdv": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getRdv"];
         put?: never;
-        post: operations["postIntegrationsWhatsappConnect"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-    "/integrations/whatsapp/sync": {
+    "/rdv/{id}": {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        get?: never;
+        get: operations["getRdvById"];
         put?: never;
-        post: operations["postIntegrationsWhatsappSync"];
+        post?: never;
         delete?: never;
         options?: never;
         head?: never;
         patch?: never;
         trace?: never;
     };
-}
-export type webhooks = Record<string, never>;
-export interface components {
-    schemas: {
-        HealthResponse: {
-            /** @example ok */
-            status: string;
+    "/visits/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        ErrorResponse: {
-            code: string;
-            message: string;
-            details?: unknown;
+        get: operations["getVisitById"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: operations["patchVisitById"];
+        trace?: never;
+    };
+    "/visits/{id}/bon-de-visite": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        UserResponse: {
+        get: operations["getVisitBonDeVisitePreview"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/visits/{id}/bon-de-visite/sign": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["signVisitBonDeVisite"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/visits/{id}/feedback": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getVisitFeedback"];
+        put: operations["putVisitFeedback"];
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/visits/{id}/feedback/extract": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["extractVisitFeedback"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/files": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getFiles"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/files/upload": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postFilesUpload"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/files/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getFileById"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: operations["patchFileById"];
+        trace?: never;
+    };
+    "/files/{id}/download-url": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getFileDownloadUrlById"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/files/{id}/run-ai": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postFileRunAi"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/messages": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getMessages"];
+        put?: never;
+        post: operations["postMessage"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/messages/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getMessageById"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: operations["patchMessageById"];
+        trace?: never;
+    };
+    "/messages/{id}/run-ai": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postMessageRunAi"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/message-threads": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getMessageThreads"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/message-threads/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getMessageThreadById"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/message-threads/{id}/summarize": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postMessageThreadSummarize"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/messages/{id}/reply": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postMessageReply"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/messages/{id}/sender-contact": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postMessageSenderContact"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/messages/{id}/suggest-reply": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postMessageSuggestReply"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/vocals/upload": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postVocalsUpload"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/vocals": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getVocals"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/vocals/insight-schemas/{vocalType}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getVocalInsightSchema"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/vocals/{id}": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getVocalById"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch: operations["patchVocalById"];
+        trace?: never;
+    };
+    "/vocals/{id}/transcribe": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postVocalTranscribeById"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/vocals/{id}/extract-insights": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postVocalExtractInsightsById"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/vocals/{id}/proposed-changes": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getVocalProposedChanges"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/vocals/{id}/proposed-changes/apply": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postVocalProposedChangesApply"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/review-queue": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get: operations["getReviewQueue"];
+        put?: never;
+        post?: never;
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/review-queue/{id}/resolve": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postReviewQueueResolveById"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/integrations/gmail/connect": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postIntegrationsGmailConnect"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/integrations/gmail/sync": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postIntegrationsGmailSync"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/integrations/google-calendar/connect": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postIntegrationsGoogleCalendarConnect"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/integrations/google-calendar/sync": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postIntegrationsGoogleCalendarSync"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/integrations/whatsapp/connect": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postIntegrationsWhatsappConnect"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+    "/integrations/whatsapp/sync": {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        get?: never;
+        put?: never;
+        post: operations["postIntegrationsWhatsappSync"];
+        delete?: never;
+        options?: never;
+        head?: never;
+        patch?: never;
+        trace?: never;
+    };
+}
+export type webhooks = Record<string, never>;
+export interface components {
+    schemas: {
+        HealthResponse: {
+            /** @example ok */
+            status: string;
+        };
+        ErrorResponse: {
+            code: string;
+            message: string;
+            details?: unknown;
+        };
+        UserResponse: {
+            id: string;
+            /** Format: email */
+            email: string;
+            firstName: string;
+            lastName: string;
+            orgId: string;
+            /** @enum {string} */
+            role: "AGENT" | "MANAGER" | "ADMIN";
+            /** Format: date-time */
+            createdAt: string;
+        };
+        /** @enum {string} */
+        AccountType: "AGENT" | "CLIENT" | "NOTAIRE";
+        AccountUserResponse: {
+            id: string;
+            /** Format: email */
+            email: string | null;
+            firstName: string;
+            lastName: string;
+            orgId: string;
+            accountType: components["schemas"]["AccountType"];
+            role: string;
+            phone: string | null;
+            address: string | null;
+            postalCode: string | null;
+            city: string | null;
+            personalNotes: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        AccountUserLinkedPropertyResponse: {
+            propertyId: string;
+            title: string;
+            city: string;
+            postalCode: string;
+            status: string;
+            relationRole: string;
+            /** @enum {string} */
+            source: "BUSINESS_LINK";
+        };
+        AccountUserDetailResponse: components["schemas"]["AccountUserResponse"] & {
+            linkedProperties: components["schemas"]["AccountUserLinkedPropertyResponse"][];
+        };
+        AccountUserListResponse: {
+            items: components["schemas"]["AccountUserDetailResponse"][];
+            nextCursor?: string | null;
+        };
+        UserCreateRequest: {
+            firstName?: string | null;
+            lastName?: string | null;
+            /** Format: email */
+            email?: string | null;
+            phone?: string | null;
+            address?: string | null;
+            postalCode?: string | null;
+            city?: string | null;
+            personalNotes?: string | null;
+            accountType?: components["schemas"]["AccountType"];
+        } | unknown | unknown;
+        UserPatchRequest: {
+            firstName?: string | null;
+            lastName?: string | null;
+            /** Format: email */
+            email?: string | null;
+            phone?: string | null;
+            address?: string | null;
+            postalCode?: string | null;
+            city?: string | null;
+            personalNotes?: string | null;
+            accountType?: components["schemas"]["AccountType"];
+        };
+        /** @enum {string} */
+        OfferStatus: "SUBMITTED" | "COUNTERED" | "ACCEPTED" | "REJECTED" | "EXPIRED";
+        /** @enum {string} */
+        OfferFinancingType: "COMPTANT" | "CREDIT" | "MIXTE";
+        OfferResponse: {
+            id: string;
+            propertyId: string;
+            propertyTitle: string | null;
+            buyerUserId: string;
+            buyerFirstName: string | null;
+            buyerLastName: string | null;
+            parentOfferId: string | null;
+            /** @enum {string} */
+            issuedBy: "ACHETEUR" | "VENDEUR";
+            amount: number;
+            financingType: components["schemas"]["OfferFinancingType"];
+            conditionsSuspensives: string[];
+            /** Format: date-time */
+            validUntil: string | null;
+            note: string | null;
+            status: components["schemas"]["OfferStatus"];
+            signedFileId: string | null;
+            /** Format: date-time */
+            decidedAt: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        OfferListResponse: {
+            items: components["schemas"]["OfferResponse"][];
+        };
+        OfferCreateRequest: {
+            propertyId: string;
+            buyerUserId: string;
+            amount: number;
+            financingType: components["schemas"]["OfferFinancingType"];
+            conditionsSuspensives?: string[];
+            /** Format: date-time */
+            validUntil?: string | null;
+            note?: string | null;
+        };
+        OfferCounterRequest: {
+            amount: number;
+            financingType?: components["schemas"]["OfferFinancingType"];
+            conditionsSuspensives?: string[];
+            /** Format: date-time */
+            validUntil?: string | null;
+            note?: string | null;
+        };
+        OfferAcceptRequest: {
+            signedFileId: string;
+        };
+        OfferRejectRequest: {
+            note?: string | null;
+        };
+        /** @enum {string} */
+        ClosingDeadlineKind: "SRU_RETRACTATION" | "CONDITION_PRET" | "ACTE_AUTHENTIQUE";
+        /** @enum {string} */
+        ClosingDeadlineState: "PENDING" | "DONE" | "OVERDUE";
+        ClosingDeadlineResponse: {
+            kind: components["schemas"]["ClosingDeadlineKind"];
+            label: string;
+            /** Format: date */
+            dueDate: string;
+            computed: boolean;
+            daysRemaining: number;
+            requiredTypeDocument: components["schemas"]["TypeDocument"] | null;
+            documentPresent: boolean;
+            state: components["schemas"]["ClosingDeadlineState"];
+        };
+        ClosingTrackerResponse: {
+            propertyId: string;
+            propertyTitle: string;
+            status: components["schemas"]["PropertyStatus"];
+            compromisSignatureDate: string | null;
+            deadlines: components["schemas"]["ClosingDeadlineResponse"][];
+        };
+        /** @enum {string} */
+        DpeClass: "A" | "B" | "C" | "D" | "E" | "F" | "G";
+        BuyerSearchUpsertRequest: {
+            budgetMin?: number | null;
+            budgetMax?: number | null;
+            cities?: string[];
+            postalCodes?: string[];
+            radiusKm?: number | null;
+            centerLat?: number | null;
+            centerLng?: number | null;
+            propertyType?: components["schemas"]["ComparablePropertyType"] | null;
+            minRooms?: number | null;
+            minLivingArea?: number | null;
+            requiredAmenities?: string[];
+            maxDpeClass?: components["schemas"]["DpeClass"] | null;
+        };
+        BuyerSearchResponse: {
+            id: string;
+            userId: string;
+            budgetMin: number | null;
+            budgetMax: number | null;
+            cities: string[];
+            postalCodes: string[];
+            radiusKm: number | null;
+            centerLat: number | null;
+            centerLng: number | null;
+            propertyType: components["schemas"]["ComparablePropertyType"] | null;
+            minRooms: number | null;
+            minLivingArea: number | null;
+            requiredAmenities: string[];
+            maxDpeClass: components["schemas"]["DpeClass"] | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        BuyerMatchCriterionResult: {
+            /** @enum {string} */
+            criterion: "BUDGET" | "LOCATION" | "PROPERTY_TYPE" | "ROOMS" | "LIVING_AREA" | "AMENITIES" | "DPE";
+            /** @enum {string} */
+            status: "MATCH" | "MISMATCH" | "UNKNOWN";
+        };
+        PropertyBuyerMatchListResponse: {
+            items: {
+                userId: string;
+                firstName: string;
+                lastName: string;
+                email: string | null;
+                phone: string | null;
+                score: number;
+                criteria: components["schemas"]["BuyerMatchCriterionResult"][];
+                /** Format: date-time */
+                matchedAt: string;
+                /** Format: date-time */
+                alertSentAt: string | null;
+            }[];
+        };
+        BuyerAlertSendRequest: {
+            userIds?: string[];
+        };
+        BuyerAlertSendResponse: {
+            items: {
+                userId: string;
+                /** @enum {string} */
+                status: "SENT" | "ALREADY_SENT" | "NO_EMAIL" | "NOT_MATCHED" | "FAILED";
+                messageId: string | null;
+            }[];
+        };
+        UserPropertyMatchListResponse: {
+            items: {
+                propertyId: string;
+                propertyTitle: string;
+                city: string;
+                postalCode: string;
+                price: number | null;
+                status: components["schemas"]["PropertyStatus"];
+                score: number;
+                criteria: components["schemas"]["BuyerMatchCriterionResult"][];
+                /** Format: date-time */
+                matchedAt: string;
+            }[];
+        };
+        PropertyCommissionResponse: {
+            propertyId: string;
+            feesAmount: number;
+            /** @enum {string|null} */
+            feesResponsibility: "VENDEUR" | "ACQUEREUR" | null;
+            listingAgentUserId: string | null;
+            listingAgentAmount: number;
+            sellingAgentUserId: string | null;
+            sellingAgentAmount: number;
+            agencyAmount: number;
+            configured: boolean;
+            /** Format: date-time */
+            updatedAt: string | null;
+        };
+        PropertyCommissionUpsertRequest: {
+            feesAmount?: number;
+            listingAgentUserId?: string | null;
+            listingAgentAmount?: number;
+            sellingAgentUserId?: string | null;
+            sellingAgentAmount?: number;
+            agencyAmount?: number;
+        };
+        RevenueReportTotals: {
+            signedFees: number;
+            collectedFees: number;
+            signedCount: number;
+            collectedCount: number;
+            agencySignedFees: number;
+            agencyCollectedFees: number;
+        };
+        RevenueReportMonthBucket: {
+            /** @description Mois au format YYYY-MM. */
+            month: string;
+            signedFees: number;
+            collectedFees: number;
+            signedCount: number;
+            collectedCount: number;
+        };
+        RevenueReportAgentBucket: {
+            userId: string;
+            firstName: string | null;
+            lastName: string | null;
+            signedFees: number;
+            collectedFees: number;
+            signedCount: number;
+            collectedCount: number;
+        };
+        RevenueReportCityBucket: {
+            city: string;
+            signedFees: number;
+            collectedFees: number;
+            signedCount: number;
+            collectedCount: number;
+        };
+        RevenueReportResponse: {
+            /** Format: date-time */
+            from: string | null;
+            /** Format: date-time */
+            to: string | null;
+            totals: components["schemas"]["RevenueReportTotals"];
+            byMonth: components["schemas"]["RevenueReportMonthBucket"][];
+            byAgent: components["schemas"]["RevenueReportAgentBucket"][];
+            byCity: components["schemas"]["RevenueReportCityBucket"][];
+        };
+        PipelineStatusDuration: {
+            status: components["schemas"]["PropertyStatus"];
+            medianDays: number | null;
+            stays: number;
+        };
+        PipelineConversion: {
+            prospectionCount: number;
+            mandatSigneCount: number;
+            venduCount: number;
+            prospectionToMandatRate: number | null;
+            mandatToVenduRate: number | null;
+            prospectionToVenduRate: number | null;
+        };
+        PipelineColumn: {
+            status: components["schemas"]["PropertyStatus"];
+            total: number;
+            stale: number;
+        };
+        PipelinePriceReductionItem: {
+            propertyId: string;
+            title: string;
+            city: string;
+            initialPrice: number;
+            finalPrice: number;
+            reductionCount: number;
+            reductionAmount: number;
+            reductionRate: number | null;
+        };
+        PipelinePriceReductions: {
+            soldCount: number;
+            reducedCount: number;
+            totalReductionAmount: number;
+            medianReductionRate: number | null;
+            items: components["schemas"]["PipelinePriceReductionItem"][];
+        };
+        PipelineReportResponse: {
+            /** Format: date-time */
+            generatedAt: string;
+            filters: {
+                agentUserId: string | null;
+                city: string | null;
+                propertyType: components["schemas"]["ComparablePropertyType"] | null;
+                staleAfterDays: number;
+            };
+            propertyCount: number;
+            statusDurations: components["schemas"]["PipelineStatusDuration"][];
+            conversion: components["schemas"]["PipelineConversion"];
+            columns: components["schemas"]["PipelineColumn"][];
+            priceReductions: components["schemas"]["PipelinePriceReductions"];
+        };
+        MandateRegisterEntryResponse: {
+            id: string;
+            registerNumber: number;
+            propertyId: string;
+            mandateType: string | null;
+            startDate: string | null;
+            endDate: string | null;
+            mandatorNames: string | null;
+            propertyAddress: string;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        MandateRegisterListResponse: {
+            items: components["schemas"]["MandateRegisterEntryResponse"][];
+        };
+        /** @enum {string} */
+        TaskStatus: "TODO" | "IN_PROGRESS" | "DONE" | "CANCELLED";
+        TaskResponse: {
+            id: string;
+            title: string;
+            description: string | null;
+            status: components["schemas"]["TaskStatus"];
+            /** Format: date-time */
+            dueAt: string | null;
+            /** Format: date-time */
+            completedAt: string | null;
+            propertyId: string | null;
+            propertyTitle: string | null;
+            assigneeUserId: string | null;
+            assigneeFirstName: string | null;
+            assigneeLastName: string | null;
+            /** @enum {string} */
+            source: "MANUAL" | "STATUS_TEMPLATE";
+            templateKey: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        TaskListResponse: {
+            items: components["schemas"]["TaskResponse"][];
+        };
+        TaskCreateRequest: {
+            title: string;
+            description?: string | null;
+            status?: components["schemas"]["TaskStatus"];
+            /** Format: date-time */
+            dueAt?: string | null;
+            propertyId?: string | null;
+            assigneeUserId?: string | null;
+        };
+        TaskPatchRequest: {
+            title?: string;
+            description?: string | null;
+            status?: components["schemas"]["TaskStatus"];
+            /** Format: date-time */
+            dueAt?: string | null;
+            propertyId?: string | null;
+            assigneeUserId?: string | null;
+        };
+        MeResponse: {
+            user: components["schemas"]["UserResponse"];
+        };
+        AppSettingsResponse: {
+            notaryFeePct: number;
+            /**
+             * @description Provider IA global (partagé par toutes les organisations). local cible un endpoint chat compatible OpenAI auto-hébergé (Ollama, vLLM, LM Studio).
+             * @enum {string}
+             */
+            aiProvider: "openai" | "anthropic" | "local";
+            /**
+             * @description Transcription des vocaux via le provider IA global ou un serveur Whisper local compatible OpenAI.
+             * @enum {string}
+             */
+            transcriptionProvider: "ai-provider" | "whisper-local";
+            /** @description Format Markdown attendu pour la clé justification de la valorisation IA. */
+            valuationAiOutputFormat: string;
+            /** @description Persona système injectée au début de chaque conversation assistant. */
+            assistantSoul: string;
+        };
+        AppSettingsPatchRequest: {
+            notaryFeePct?: number;
+            /** @enum {string} */
+            aiProvider?: "openai" | "anthropic" | "local";
+            /** @enum {string} */
+            transcriptionProvider?: "ai-provider" | "whisper-local";
+            /** @description Null ou chaîne vide pour revenir au format par défaut. */
+            valuationAiOutputFormat?: string | null;
+            /** @description Null ou chaîne vide pour revenir à la soul par défaut. */
+            assistantSoul?: string | null;
+        } | unknown | unknown | unknown | unknown | unknown;
+        AICallLogResponse: {
+            id: string;
+            /** Format: date-time */
+            datetime: string;
+            orgId: string;
+            useCase: string;
+            prompt: string;
+            textResponse: string;
+            price: number;
+            inputTokens: number | null;
+            outputTokens: number | null;
+            totalTokens: number | null;
+            redactionVersion: string;
+            /** Format: date-time */
+            expiresAt: string;
+        };
+        AICallLogListResponse: {
+            items: components["schemas"]["AICallLogResponse"][];
+        };
+        /** @enum {string} */
+        GlobalSearchItemType: "PROPERTY" | "USER" | "VOCAL" | "VISIT" | "TASK";
+        GlobalSearchItemResponse: {
+            type: components["schemas"]["GlobalSearchItemType"];
+            id: string;
+            label: string;
+            subtitle: string;
+            route: string;
+        };
+        GlobalSearchResponse: {
+            items: components["schemas"]["GlobalSearchItemResponse"][];
+        };
+        /** @enum {string} */
+        AssistantObjectType: "bien" | "user" | "rdv" | "lien" | "tache" | "offre";
+        AssistantCitationResponse: {
+            title: string;
+            /** Format: uri */
+            url: string;
+            snippet: string;
+        };
+        AssistantMessageResponse: {
+            id: string;
+            /** @enum {string} */
+            role: "USER" | "ASSISTANT";
+            text: string;
+            citations: components["schemas"]["AssistantCitationResponse"][];
+            /** Format: date-time */
+            createdAt: string;
+        };
+        AssistantConversationResponse: {
+            id: string;
+            greeting: string;
+            messages: components["schemas"]["AssistantMessageResponse"][];
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        AssistantMessageContextRequest: {
+            objectType: components["schemas"]["AssistantObjectType"];
+            objectId: string;
+        };
+        AssistantMessageCreateRequest: {
+            message: string;
+            context?: components["schemas"]["AssistantMessageContextRequest"];
+        };
+        AssistantMessageCreateResponse: {
+            conversation: components["schemas"]["AssistantConversationResponse"];
+            assistantMessage: components["schemas"]["AssistantMessageResponse"];
+        };
+        /** @enum {string} */
+        ObjectChangeMode: "USER" | "AI";
+        ObjectChangeEntry: {
+            id: string;
+            objectType: components["schemas"]["AssistantObjectType"];
+            objectId: string;
+            paramName: string;
+            paramValue: string;
+            mode: components["schemas"]["ObjectChangeMode"];
+            /** Format: date-time */
+            modifiedAt: string;
+        };
+        ObjectChangeListResponse: {
+            items: components["schemas"]["ObjectChangeEntry"][];
+        };
+        /** @enum {string} */
+        ObjectDataFieldType: "string" | "text" | "int" | "float" | "boolean" | "date" | "datetime" | "select";
+        /** @enum {string} */
+        ObjectDataFieldSource: "object" | "property";
+        /** @enum {string} */
+        ObjectDataFieldRuleOperator: "=" | "!=" | "in" | "notIn";
+        ObjectDataFieldOption: {
+            value: string;
+            label: string;
+        };
+        ObjectDataFieldHideRule: {
+            key: string;
+            operator: components["schemas"]["ObjectDataFieldRuleOperator"];
+            value: string | number | boolean | (string | number | boolean)[];
+        };
+        ObjectDataFieldDefinition: {
+            key: string;
+            name: string;
+            group: string;
+            subgroup?: string;
+            type: components["schemas"]["ObjectDataFieldType"];
+            source?: components["schemas"]["ObjectDataFieldSource"];
+            required?: boolean;
+            min?: number;
+            max?: number;
+            options?: components["schemas"]["ObjectDataFieldOption"][];
+            hide?: components["schemas"]["ObjectDataFieldHideRule"][];
+        };
+        ObjectDataStructureResponse: components["schemas"]["ObjectDataFieldDefinition"][];
+        /** @enum {string} */
+        LinkObjectType: "bien" | "user" | "rdv" | "offre" | "message";
+        /** @enum {string} */
+        LinkType: "bien_user" | "rdv_bien" | "rdv_user" | "offre_bien" | "offre_user" | "message_user";
+        LinkTypeDefinition: {
+            typeLien: components["schemas"]["LinkType"];
+            name: string;
+            objectType1: components["schemas"]["LinkObjectType"];
+            objectType2: components["schemas"]["LinkObjectType"];
+            paramsSchema: components["schemas"]["ObjectDataStructureResponse"];
+        };
+        LinkTypeDefinitionListResponse: {
+            items: components["schemas"]["LinkTypeDefinition"][];
+        };
+        LinkResponse: {
+            id: string;
+            typeLien: components["schemas"]["LinkType"];
+            objectId1: string;
+            objectId2: string;
+            params: {
+                [key: string]: unknown;
+            };
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        LinkListResponse: {
+            items: components["schemas"]["LinkResponse"][];
+            nextCursor?: string | null;
+        };
+        LinkCreateRequest: {
+            typeLien: components["schemas"]["LinkType"];
+            objectId1: string;
+            objectId2: string;
+            params?: {
+                [key: string]: unknown;
+            };
+        };
+        LinkPatchRequest: {
+            params: {
+                [key: string]: unknown;
+            };
+        };
+        LinkRelatedItemResponse: {
+            link: components["schemas"]["LinkResponse"];
+            otherSideObjectType: components["schemas"]["LinkObjectType"];
+            otherSideObjectId: string;
+            otherSide: unknown;
+        };
+        LinkRelatedResponse: {
+            items: components["schemas"]["LinkRelatedItemResponse"][];
+            grouped: {
+                bien: unknown[];
+                user: unknown[];
+                rdv: unknown[];
+                offre: unknown[];
+                message: unknown[];
+            };
+        };
+        LoginRequest: {
+            /** Format: email */
+            email: string;
+            password: string;
+        };
+        LoginResponse: {
+            accessToken: string;
+            refreshToken: string;
+            /** @example 900 */
+            expiresIn: number;
+            user: components["schemas"]["UserResponse"];
+        };
+        RefreshRequest: {
+            refreshToken: string;
+        };
+        RefreshResponse: {
+            accessToken: string;
+            refreshToken: string;
+            expiresIn: number;
+        };
+        LogoutRequest: {
+            refreshToken: string;
+        };
+        /** @enum {string} */
+        PrivacyExportStatus: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
+        PrivacyExportRequest: Record<string, never>;
+        PrivacyExportResponse: {
+            id: string;
+            status: components["schemas"]["PrivacyExportStatus"];
+            /** Format: date-time */
+            requestedAt: string;
+            /** Format: date-time */
+            startedAt: string | null;
+            /** Format: date-time */
+            completedAt: string | null;
+            /** Format: date-time */
+            expiresAt: string;
+            errorMessage: string | null;
+            data: unknown;
+        };
+        PrivacyEraseRequest: Record<string, never>;
+        PrivacyEraseResponse: {
+            requestId: string;
+            /** @enum {string} */
+            status: "PENDING";
+            /** Format: date-time */
+            requestedAt: string;
+        };
+        RegisterRequest: {
+            /** Format: email */
+            email: string;
+            password: string;
+            firstName: string;
+            lastName: string;
+        };
+        ForgotPasswordRequest: {
+            /** Format: email */
+            email: string;
+        };
+        ResetPasswordRequest: {
+            token: string;
+            newPassword: string;
+        };
+        /** @enum {string} */
+        PropertyStatus: "PROSPECTION" | "MANDAT_SIGNE" | "EN_DIFFUSION" | "VISITES" | "OFFRES" | "COMPROMIS" | "VENDU" | "ARCHIVE";
+        OwnerContact: {
+            firstName: string;
+            lastName: string;
+            phone: string;
+            /** Format: email */
+            email: string;
+            address?: string | null;
+            postalCode?: string | null;
+            city?: string | null;
+        };
+        PropertyDetails: {
+            [key: string]: unknown;
+        };
+        PropertyCreateRequest: {
+            title: string;
+            city: string;
+            postalCode: string;
+            address: string;
+            details?: components["schemas"]["PropertyDetails"];
+        };
+        PropertyPatchRequest: {
+            title?: string;
+            city?: string;
+            postalCode?: string;
+            address?: string;
+            price?: number;
+            details?: components["schemas"]["PropertyDetails"];
+            hiddenExpectedDocumentKeys?: string[];
+        };
+        PropertyResponse: {
+            id: string;
+            title: string;
+            city: string;
+            postalCode: string;
+            address?: string | null;
+            price?: number | null;
+            details: components["schemas"]["PropertyDetails"];
+            hiddenExpectedDocumentKeys: string[];
+            status: components["schemas"]["PropertyStatus"];
+            orgId: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        PropertyListResponse: {
+            items: components["schemas"]["PropertyResponse"][];
+            nextCursor?: string | null;
+        };
+        PropertyStatusUpdateRequest: {
+            status: components["schemas"]["PropertyStatus"];
+            force?: boolean;
+        };
+        PropertyParticipantCreateRequest: {
+            contactId: string;
+            /** @enum {string} */
+            role: "VENDEUR" | "ACHETEUR" | "LOCATAIRE" | "NOTAIRE" | "ARTISAN" | "AUTRE";
+        };
+        PropertyParticipantResponse: {
+            id: string;
+            propertyId: string;
+            contactId: string;
+            role: string;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        PropertyProspectCreateRequest: {
+            userId?: string;
+            newClient?: components["schemas"]["OwnerContact"];
+            /** @enum {string} */
+            relationRole?: "OWNER" | "PROSPECT" | "ACHETEUR";
+        } | unknown | unknown;
+        PropertyProspectResponse: {
+            id: string;
+            propertyId: string;
+            userId: string;
+            firstName: string;
+            lastName: string;
+            /** Format: email */
+            email: string | null;
+            phone: string | null;
+            address: string | null;
+            postalCode: string | null;
+            city: string | null;
+            relationRole: string;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        PropertyProspectListResponse: {
+            items: components["schemas"]["PropertyProspectResponse"][];
+        };
+        PropertyVisitCreateRequest: {
+            prospectUserId: string;
+            /** @description Agent qui assure la visite; ses horaires et ses conflits d'agenda sont alors vérifiés. */
+            agentUserId?: string | null;
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+        };
+        PropertyVisitPatchRequest: {
+            compteRendu?: string | null;
+            bonDeVisiteFileId?: string | null;
+        };
+        PropertyVisitResponse: {
+            id: string;
+            propertyId: string;
+            propertyTitle: string;
+            prospectUserId: string;
+            agentUserId: string | null;
+            prospectFirstName: string;
+            prospectLastName: string;
+            /** Format: email */
+            prospectEmail: string | null;
+            prospectPhone: string | null;
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+            compteRendu: string | null;
+            bonDeVisiteFileId: string | null;
+            bonDeVisiteFileName: string | null;
+            /**
+             * Format: date-time
+             * @description Horodatage de la signature électronique du bon de visite généré.
+             */
+            bonDeVisiteSignedAt: string | null;
+            /** @description Empreinte SHA-256 du PDF signé, pour en vérifier l'intégrité. */
+            bonDeVisiteSha256: string | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        BonDeVisiteSignaturePoint: {
+            x: number;
+            y: number;
+        };
+        BonDeVisiteSignRequest: {
+            /** @description Largeur du pad de signature, en pixels. */
+            width: number;
+            height: number;
+            /** @description Traits de la signature, en coordonnées du pad (origine en haut à gauche). */
+            strokes: components["schemas"]["BonDeVisiteSignaturePoint"][][];
+        };
+        PropertyVisitListResponse: {
+            items: components["schemas"]["PropertyVisitResponse"][];
+        };
+        /** @enum {string} */
+        VisitFeedbackInterestLevel: "LOW" | "MEDIUM" | "HIGH";
+        /** @enum {string} */
+        VisitFeedbackPerceivedPrice: "TOO_HIGH" | "FAIR" | "LOW";
+        /** @enum {string} */
+        VisitFeedbackOfferIntention: "YES" | "MAYBE" | "NO";
+        /** @enum {string} */
+        VisitFeedbackSource: "MANUAL" | "AI";
+        VisitFeedbackUpsertRequest: {
+            interestLevel?: components["schemas"]["VisitFeedbackInterestLevel"] | null;
+            perceivedPrice?: components["schemas"]["VisitFeedbackPerceivedPrice"] | null;
+            positives?: string[];
+            negatives?: string[];
+            offerIntention?: components["schemas"]["VisitFeedbackOfferIntention"] | null;
+        };
+        VisitFeedbackResponse: {
+            visitId: string;
+            propertyId: string;
+            interestLevel: components["schemas"]["VisitFeedbackInterestLevel"] | null;
+            perceivedPrice: components["schemas"]["VisitFeedbackPerceivedPrice"] | null;
+            positives: string[];
+            negatives: string[];
+            offerIntention: components["schemas"]["VisitFeedbackOfferIntention"] | null;
+            source: components["schemas"]["VisitFeedbackSource"];
+            vocalId: string | null;
+            confidence: number | null;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        VisitFeedbackExtractRequest: {
+            vocalId: string;
+        };
+        VisitFeedbackExtractResponse: {
+            /** @enum {string} */
+            status: "UPDATED" | "REVIEW_REQUIRED" | "SKIPPED";
+            reason: string | null;
+            feedback: components["schemas"]["VisitFeedbackResponse"] | null;
+        };
+        /** @description Période du reporting, par défaut les 30 derniers jours. */
+        SellerReportCreateRequest: {
+            /** Format: date-time */
+            from?: string;
+            /** Format: date-time */
+            to?: string;
+        };
+        SellerReportPointCount: {
+            label: string;
+            count: number;
+        };
+        SellerReportPeriodStats: {
+            visits: number;
+            feedbackCount: number;
+            interestLevels: {
+                LOW: number;
+                MEDIUM: number;
+                HIGH: number;
+            };
+            perceivedPrices: {
+                TOO_HIGH: number;
+                FAIR: number;
+                LOW: number;
+            };
+            offerIntentions: {
+                YES: number;
+                MAYBE: number;
+                NO: number;
+            };
+            topPositives: components["schemas"]["SellerReportPointCount"][];
+            topNegatives: components["schemas"]["SellerReportPointCount"][];
+        };
+        SellerReportComparables: {
+            count: number;
+            askingPrice: number | null;
+            medianPrice: number | null;
+            medianPricePerM2: number | null;
+            deviationPct: number | null;
+            /** @enum {string} */
+            pricingPosition: "UNDER_PRICED" | "NORMAL" | "OVER_PRICED" | "UNKNOWN";
+        };
+        SellerReportResponse: {
+            propertyId: string;
+            fileId: string;
+            fileName: string;
+            /** Format: date-time */
+            periodStart: string;
+            /** Format: date-time */
+            periodEnd: string;
+            /** Format: date-time */
+            generatedAt: string;
+            current: components["schemas"]["SellerReportPeriodStats"];
+            /** @description Période précédente de même durée, pour la tendance. */
+            previous: components["schemas"]["SellerReportPeriodStats"];
+            comparables: components["schemas"]["SellerReportComparables"] | null;
+            ownerEmails: string[];
+        };
+        VisitSlot: {
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+            /** @description Premier agent disponible; null si l'organisation n'a aucun agent. */
+            agentUserId: string | null;
+        };
+        VisitSlotListResponse: {
+            items: components["schemas"]["VisitSlot"][];
+        };
+        AgentWorkingHoursRange: {
+            /** @description 0 = dimanche, 6 = samedi. */
+            weekday: number;
+            startTime: string;
+            endTime: string;
+        };
+        AgentWorkingHoursRequest: {
+            items: components["schemas"]["AgentWorkingHoursRange"][];
+        };
+        AgentWorkingHoursResponse: {
+            userId: string;
+            /** @description Vrai tant que l'agent n'a saisi aucune plage (lundi-samedi 9h-19h). */
+            isDefault: boolean;
+            items: components["schemas"]["AgentWorkingHoursRange"][];
+        };
+        PropertyBookingLinkUpsertRequest: {
+            enabled?: boolean;
+            /** @description Les réservations publiques ouvrent un élément de revue pour confirmation par l'agent. */
+            requiresConfirmation?: boolean;
+            /** @description Génère un nouveau jeton; l'ancien lien cesse de fonctionner. */
+            rotateToken?: boolean;
+        };
+        PropertyBookingLinkResponse: {
+            propertyId: string;
+            token: string;
+            enabled: boolean;
+            requiresConfirmation: boolean;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+        };
+        PublicVisitBookingSlot: {
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+        };
+        PublicVisitBookingPageResponse: {
+            agencyName: string;
+            requiresConfirmation: boolean;
+            durationMinutes: number;
+            property: {
+                title: string;
+                city: string;
+                postalCode: string;
+                price: number | null;
+                propertyType: string | null;
+                livingArea: number | null;
+                rooms: number | null;
+                dpeClass: string | null;
+                description: string | null;
+            };
+            slots: components["schemas"]["PublicVisitBookingSlot"][];
+        };
+        PublicVisitBookingRequest: {
+            firstName: string;
+            lastName: string;
+            /** Format: email */
+            email: string;
+            phone?: string | null;
+            /** Format: date-time */
+            startsAt: string;
+        };
+        PublicVisitBookingResponse: {
+            visitId: string;
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+            /** @enum {string} */
+            status: "CONFIRMED" | "PENDING_CONFIRMATION";
+            confirmationEmailSent: boolean;
+        };
+        CalendarAppointmentCreateRequest: {
+            title: string;
+            propertyId: string;
+            userId?: string | null;
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+            address?: string | null;
+            comment?: string | null;
+        };
+        CalendarAppointmentResponse: {
             id: string;
-            /** Format: email */
-            email: string;
+            title: string;
+            propertyId: string;
+            propertyTitle: string;
+            userId: string | null;
+            userFirstName: string | null;
+            userLastName: string | null;
+            address: string | null;
+            comment: string | null;
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+            /** @enum {string} */
+            kind?: "MANUAL_APPOINTMENT" | "CLOSING_DEADLINE";
+            closingDeadlineKind?: components["schemas"]["ClosingDeadlineKind"];
+            closingDeadlineState?: components["schemas"]["ClosingDeadlineState"];
+        };
+        CalendarAppointmentListResponse: {
+            items: components["schemas"]["CalendarAppointmentResponse"][];
+        };
+        /** @enum {string} */
+        RdvType: "RENDEZ_VOUS" | "VISITE_BIEN" | "ECHEANCE_VENTE";
+        RdvResponse: {
+            id: string;
+            title: string;
+            propertyId: string;
+            propertyTitle: string;
+            userId: string | null;
+            userFirstName: string | null;
+            userLastName: string | null;
+            address: string | null;
+            comment: string | null;
+            /** Format: date-time */
+            startsAt: string;
+            /** Format: date-time */
+            endsAt: string;
+            /** Format: date-time */
+            createdAt: string;
+            /** Format: date-time */
+            updatedAt: string;
+            rdvType: components["schemas"]["RdvType"];
+            bonDeVisiteFileId: string | null;
+            bonDeVisiteFileName: string | null;
+        };
+        RdvListResponse: {
+            items: components["schemas"]["RdvResponse"][];
+        };
+        /** @enum {string} */
+        PropertyRiskStatus: "OK" | "NO_DATA" | "UNAVAILABLE";
+        PropertyRiskLocation: {
+            address: string | null;
+            postalCode: string;
+            city: string;
+            inseeCode: string | null;
+            latitude: number | null;
+            longitude: number | null;
+        };
+        PropertyRiskItemResponse: {
+            label: string;
+            categoryCode: string | null;
+            source: string | null;
+            startDate: string | null;
+            endDate: string | null;
+        };
+        PropertyRiskResponse: {
+            propertyId: string;
+            status: components["schemas"]["PropertyRiskStatus"];
+            /** @enum {string} */
+            source: "GEORISQUES";
+            /** Format: uri */
+            georisquesUrl: string;
+            /** Format: uri */
+            reportPdfUrl: string | null;
+            /** Format: date-time */
+            generatedAt: string;
+            message: string | null;
+            location: components["schemas"]["PropertyRiskLocation"];
+            items: components["schemas"]["PropertyRiskItemResponse"][];
+        };
+        DocumentChecklistItem: {
+            typeDocument: components["schemas"]["TypeDocument"];
+            label: string;
+            /** @enum {string} */
+            requirement: "MANDATORY" | "RECOMMENDED";
+            requiredFromStatus: components["schemas"]["PropertyStatus"];
+            reason: string;
+            /** @enum {string} */
+            state: "MISSING" | "PRESENT" | "HIDDEN";
+            fileIds: string[];
+            hiddenKey: string | null;
+        };
+        PropertyDocumentChecklistResponse: {
+            propertyId: string;
+            status: components["schemas"]["PropertyStatus"];
+            missing: components["schemas"]["DocumentChecklistItem"][];
+            present: components["schemas"]["DocumentChecklistItem"][];
+            hidden: components["schemas"]["DocumentChecklistItem"][];
+        };
+        StatusWorkflowGuard: {
+            /** @enum {string} */
+            type: "FIELD" | "DOCUMENT" | "LINK";
+            field?: string;
+            typeDocument?: components["schemas"]["TypeDocument"];
+            /** @enum {string} */
+            relationRole?: "OWNER" | "PROSPECT" | "ACHETEUR";
+            label?: string;
+        };
+        StatusWorkflowTransition: {
+            from: components["schemas"]["PropertyStatus"];
+            to: components["schemas"]["PropertyStatus"];
+            guards: components["schemas"]["StatusWorkflowGuard"][];
+        };
+        StatusWorkflowResponse: {
+            isDefault: boolean;
+            transitions: components["schemas"]["StatusWorkflowTransition"][];
+        };
+        StatusWorkflowUpdateRequest: {
+            transitions: components["schemas"]["StatusWorkflowTransition"][] | null;
+        };
+        /** @enum {string} */
+        ComparablePropertyType: "APPARTEMENT" | "MAISON" | "IMMEUBLE" | "TERRAIN" | "LOCAL_COMMERCIAL" | "AUTRE";
+        /** @enum {string} */
+        ComparablePricingPosition: "UNDER_PRICED" | "NORMAL" | "OVER_PRICED" | "UNKNOWN";
+        /** @enum {string} */
+        ComparableDataSource: "CACHE" | "LIVE";
+        ComparableSearchCenter: {
+            latitude: number;
+            longitude: number;
+        };
+        ComparableSearchResponse: {
+            center: components["schemas"]["ComparableSearchCenter"];
+            finalRadiusM: number;
+            radiiTried: number[];
+            targetCount: number;
+            targetReached: boolean;
+        };
+        ComparableSummaryResponse: {
+            count: number;
+            medianPrice: number | null;
+            medianPricePerM2: number | null;
+            minPrice: number | null;
+            maxPrice: number | null;
+        };
+        ComparableSubjectResponse: {
+            surfaceM2: number | null;
+            askingPrice: number | null;
+            affinePriceAtSubjectSurface: number | null;
+            predictedPrice: number | null;
+            deviationPct: number | null;
+            pricingPosition: components["schemas"]["ComparablePricingPosition"];
+        };
+        ComparableRegressionResponse: {
+            slope: number | null;
+            intercept: number | null;
+            r2: number | null;
+            pointsUsed: number;
+        };
+        ComparablePointResponse: {
+            /** Format: date-time */
+            saleDate: string;
+            surfaceM2: number;
+            landSurfaceM2: number | null;
+            salePrice: number;
+            pricePerM2: number;
+            distanceM: number | null;
+            city: string | null;
+            postalCode: string | null;
+        };
+        PropertyComparablesResponse: {
+            propertyId: string;
+            propertyType: components["schemas"]["ComparablePropertyType"];
+            source: components["schemas"]["ComparableDataSource"];
+            windowYears: number;
+            search: components["schemas"]["ComparableSearchResponse"];
+            summary: components["schemas"]["ComparableSummaryResponse"];
+            subject: components["schemas"]["ComparableSubjectResponse"];
+            regression: components["schemas"]["ComparableRegressionResponse"];
+            points: components["schemas"]["ComparablePointResponse"][];
+        };
+        PropertyValuationAICriteriaItem: {
+            label: string;
+            value: string;
+        };
+        PropertyValuationAIComparableFilters: {
+            propertyType?: components["schemas"]["ComparablePropertyType"];
+            radiusMaxM?: number | null;
+            surfaceMinM2?: number | null;
+            surfaceMaxM2?: number | null;
+            landSurfaceMinM2?: number | null;
+            landSurfaceMaxM2?: number | null;
+        };
+        PropertyValuationAIRequest: {
+            comparableFilters?: components["schemas"]["PropertyValuationAIComparableFilters"];
+            agentAdjustedPrice?: number | null;
+        };
+        PropertyValuationAIResponse: {
+            propertyId: string;
+            aiCalculatedValuation: number | null;
+            valuationJustification: string;
+            promptUsed: string;
+            /** Format: date-time */
+            generatedAt: string;
+            comparableCountUsed: number;
+            criteriaUsed: components["schemas"]["PropertyValuationAICriteriaItem"][];
+        };
+        PropertyValuationAIPromptResponse: {
+            propertyId: string;
+            promptUsed: string;
+        };
+        /** @enum {string} */
+        TypeDocument: "PIECE_IDENTITE" | "LIVRET_FAMILLE" | "CONTRAT_MARIAGE_PACS" | "JUGEMENT_DIVORCE" | "TITRE_PROPRIETE" | "ATTESTATION_NOTARIALE" | "TAXE_FONCIERE" | "REFERENCE_CADASTRALE" | "MANDAT_VENTE_SIGNE" | "OFFRE_ACHAT_SIGNEE" | "DPE" | "AMIANTE" | "PLOMB" | "ELECTRICITE" | "GAZ" | "TERMITES" | "ERP_ETAT_RISQUES" | "ASSAINISSEMENT" | "LOI_CARREZ" | "REGLEMENT_COPROPRIETE" | "ETAT_DESCRIPTIF_DIVISION" | "PV_AG_3_DERNIERES_ANNEES" | "MONTANT_CHARGES" | "CARNET_ENTRETIEN" | "FICHE_SYNTHETIQUE" | "PRE_ETAT_DATE" | "ETAT_DATE" | "PHOTOS_HD" | "VIDEO_VISITE" | "PLAN_BIEN" | "ANNONCE_IMMOBILIERE" | "AFFICHE_VITRINE" | "REPORTING_VENDEUR" | "BON_VISITE" | "SIMULATION_FINANCEMENT" | "ATTESTATION_CAPACITE_EMPRUNT" | "ACCORD_PRINCIPE_BANCAIRE" | "COMPROMIS_OU_PROMESSE" | "ANNEXES_COMPROMIS" | "PREUVE_SEQUESTRE" | "COURRIER_RETRACTATION" | "LEVEE_CONDITIONS_SUSPENSIVES" | "ACTE_AUTHENTIQUE" | "DECOMPTE_NOTAIRE";
+        /** @enum {string} */
+        FileStatus: "UPLOADED" | "CLASSIFIED" | "REVIEW_REQUIRED";
+        FileUploadRequest: {
+            propertyId: string;
+            typeDocument?: components["schemas"]["TypeDocument"];
+            fileName: string;
+            mimeType: string;
+            size: number;
+            contentBase64?: string;
+        };
+        FileUpdateRequest: {
+            propertyId?: string | null;
+            typeDocument?: components["schemas"]["TypeDocument"];
+            status?: components["schemas"]["FileStatus"];
+        };
+        FileResponse: {
+            id: string;
+            propertyId?: string | null;
+            typeDocument?: components["schemas"]["TypeDocument"];
+            fileName: string;
+            mimeType: string;
+            size: number;
+            status: components["schemas"]["FileStatus"];
+            storageKey: string;
+            /** Format: date-time */
+            createdAt: string;
+        };
+        FileListResponse: {
+            items: components["schemas"]["FileResponse"][];
+            nextCursor?: string | null;
+        };
+        FileDownloadUrlResponse: {
+            /** Format: uri */
+            url: string;
+            /** Format: date-time */
+            expiresAt: string;
+        };
+        /** @enum {string} */
+        MessageChannel: "GMAIL" | "WHATSAPP" | "TELEGRAM" | "EMAIL";
+        /** @enum {string} */
+        MessageDirection: "INBOUND" | "OUTBOUND";
+        /** @enum {string} */
+        MessageAIStatus: "PENDING" | "PROCESSED" | "REVIEW_REQUIRED";
+        MessageResponse: {
+            id: string;
+            channel: components["schemas"]["MessageChannel"];
+            direction: components["schemas"]["MessageDirection"];
+            propertyId?: string | null;
+            threadId?: string | null;
+            subject?: string | null;
+            body: string;
+            fromAddress?: string | null;
+            toAddresses: string[];
+            ccAddresses: string[];
+            inReplyTo?: string | null;
+            fileIds?: string[];
+            aiStatus: components["schemas"]["MessageAIStatus"];
+            /** Format: date-time */
+            receivedAt: string;
+        };
+        MessageListResponse: {
+            items: components["schemas"]["MessageResponse"][];
+            nextCursor?: string | null;
+        };
+        MessageUpdateRequest: {
+            propertyId: string;
+        };
+        MessageThreadUser: {
+            userId: string;
             firstName: string;
             lastName: string;
-            orgId: string;
-            /** @enum {string} */
-            role: "AGENT" | "MANAGER" | "ADMIN";
+            email: string | null;
+            phone: string | null;
+        };
+        MessageThreadLastMessage: {
+            id: string;
+            direction: components["schemas"]["MessageDirection"];
+            body: string;
             /** Format: date-time */
-            createdAt: string;
+            receivedAt: string;
         };
-        /** @enum {string} */
-        AccountType: "AGENT" | "CLIENT" | "NOTAIRE";
-        AccountUserResponse: {
+        MessageThreadResponse: {
             id: string;
-            /** Format: email */
-            email: string | null;
-            firstName: string;
-            lastName: string;
-            orgId: string;
-            accountType: components["schemas"]["AccountType"];
-            role: string;
-            phone: string | null;
-            address: string | null;
-            postalCode: string | null;
-            city: string | null;
-            personalNotes: string | null;
+            channel: components["schemas"]["MessageChannel"];
+            propertyId: string | null;
+            subject: string | null;
+            /** @description Adresses ou numéros des correspondants externes. */
+            participants: string[];
+            users: components["schemas"]["MessageThreadUser"][];
+            messageCount: number;
+            lastMessage: components["schemas"]["MessageThreadLastMessage"] | null;
+            summary: string | null;
             /** Format: date-time */
-            createdAt: string;
+            summaryUpdatedAt: string | null;
             /** Format: date-time */
-            updatedAt: string;
+            lastActivityAt: string;
         };
-        AccountUserLinkedPropertyResponse: {
-            propertyId: string;
-            title: string;
-            city: string;
-            postalCode: string;
-            status: string;
-            relationRole: string;
-            /** @enum {string} */
-            source: "BUSINESS_LINK";
+        MessageThreadListResponse: {
+            items: components["schemas"]["MessageThreadResponse"][];
+            nextCursor?: string | null;
         };
-        AccountUserDetailResponse: components["schemas"]["AccountUserResponse"] & {
-            linkedProperties: components["schemas"]["AccountUserLinkedPropertyResponse"][];
+        MessageComposeRequest: {
+            to: string[];
+            cc?: string[];
+            subject: string;
+            body: string;
+            propertyId?: string;
+            /** @description Documents du bien à joindre. */
+            fileIds?: string[];
         };
-        AccountUserListResponse: {
-            items: components["schemas"]["AccountUserDetailResponse"][];
-            nextCursor?: string | null;
+        MessageReplyRequest: {
+            body: string;
+            /** @description Par défaut, l'expéditeur du message d'origine. */
+            to?: string[];
+            cc?: string[];
+            subject?: string;
+            fileIds?: string[];
         };
-        UserCreateRequest: {
-            firstName?: string | null;
-            lastName?: string | null;
-            /** Format: email */
-            email?: string | null;
-            phone?: string | null;
-            address?: string | null;
-            postalCode?: string | null;
-            city?: string | null;
-            personalNotes?: string | null;
-            accountType?: components["schemas"]["AccountType"];
-        } | unknown | unknown;
-        UserPatchRequest: {
-            firstName?: string | null;
-            lastName?: string | null;
-            /** Format: email */
-            email?: string | null;
-            phone?: string | null;
-            address?: string | null;
-            postalCode?: string | null;
-            city?: string | null;
-            personalNotes?: string | null;
-            accountType?: components["schemas"]["AccountType"];
+        MessageSenderContactRequest: {
+            /** @description Contact existant; à défaut un contact CLIENT est créé. */
+            userId?: string;
+            firstName?: string;
+            lastName?: string;
         };
-        MeResponse: {
-            user: components["schemas"]["UserResponse"];
+        MessageSenderContactResponse: {
+            messageId: string;
+            userId: string;
+            created: boolean;
         };
-        AppSettingsResponse: {
-            notaryFeePct: number;
-            /**
-             * @description Provider IA global (partagé par toutes les organisations).
-             * @enum {string}
-             */
-            aiProvider: "openai" | "anthropic";
-            /** @description Format Markdown attendu pour la clé justification de la valorisation IA. */
-            valuationAiOutputFormat: string;
-            /** @description Persona système injectée au début de chaque conversation assistant. */
-            assistantSoul: string;
+        MessageReplyDraftResponse: {
+            messageId: string;
+            propertyId: string;
+            channel: components["schemas"]["MessageChannel"];
+            subject: string | null;
+            body: string;
+            visitSlots: components["schemas"]["VisitSlot"][];
         };
-        AppSettingsPatchRequest: {
-            notaryFeePct?: number;
-            /** @enum {string} */
-            aiProvider?: "openai" | "anthropic";
-            /** @description Null ou chaîne vide pour revenir au format par défaut. */
-            valuationAiOutputFormat?: string | null;
-            /** @description Null ou chaîne vide pour revenir à la soul par défaut. */
-            assistantSoul?: string | null;
-        } | unknown | unknown | unknown | unknown;
-        AICallLogResponse: {
-            id: string;
-            /** Format: date-time */
-            datetime: string;
-            orgId: string;
-            useCase: string;
-            prompt: string;
-            textResponse: string;
-            price: number;
-            inputTokens: number | null;
-            outputTokens: number | null;
-            totalTokens: number | null;
-            redactionVersion: string;
-            /** Format: date-time */
-            expiresAt: string;
+        /** @enum {string} */
+        VocalStatus: "UPLOADED" | "TRANSCRIBED" | "INSIGHTS_READY" | "REVIEW_REQUIRED";
+        /** @enum {string} */
+        VocalType: "VISITE_INITIALE" | "VISITE_SUIVI" | "COMPTE_RENDU_VISITE_CLIENT" | "ERREUR_TRAITEMENT";
+        VocalUploadRequest: {
+            propertyId?: string | null;
+            fileName: string;
+            mimeType: string;
+            size: number;
+            contentBase64?: string;
         };
-        AICallLogListResponse: {
-            items: components["schemas"]["AICallLogResponse"][];
+        VocalUpdateRequest: {
+            propertyId?: string;
+            prospectUserId?: string | null;
+            insights?: {
+                [key: string]: unknown;
+            };
+        };
+        VocalInsightSchemaResponse: {
+            vocalType: components["schemas"]["VocalType"];
+            fields: components["schemas"]["ObjectDataStructureResponse"];
         };
         /** @enum {string} */
-        GlobalSearchItemType: "PROPERTY" | "USER" | "VOCAL" | "VISIT";
-        GlobalSearchItemResponse: {
-            type: components["schemas"]["GlobalSearchItemType"];
+        VocalSpeaker: "AGENT" | "OTHER" | "UNKNOWN";
+        VocalTranscriptSegment: {
+            startMs: number;
+            endMs: number;
+            speaker: components["schemas"]["VocalSpeaker"];
+            text: string;
+        };
+        VocalResponse: {
             id: string;
-            label: string;
-            subtitle: string;
-            route: string;
+            propertyId?: string | null;
+            prospectUserId?: string | null;
+            fileId: string;
+            status: components["schemas"]["VocalStatus"];
+            vocalType?: components["schemas"]["VocalType"] | null;
+            processingError?: string | null;
+            transcript?: string | null;
+            summary?: string | null;
+            insights?: {
+                [key: string]: unknown;
+            } | null;
+            segments?: components["schemas"]["VocalTranscriptSegment"][] | null;
+            confidence?: number | null;
+            /** Format: date-time */
+            createdAt: string;
         };
-        GlobalSearchResponse: {
-            items: components["schemas"]["GlobalSearchItemResponse"][];
+        VocalListResponse: {
+            items: components["schemas"]["VocalResponse"][];
+            nextCursor?: string | null;
         };
         /** @enum {string} */
-        AssistantObjectType: "bien" | "user" | "rdv" | "lien";
-        AssistantCitationResponse: {
-            title: string;
-            /** Format: uri */
-            url: string;
-            snippet: string;
+        VocalProposedChangeTarget: "bien" | "bien_user";
+        VocalProposedChange: {
+            key: string;
+            name: string;
+            type: components["schemas"]["ObjectDataFieldType"];
+            options?: components["schemas"]["ObjectDataFieldOption"][];
+            target: components["schemas"]["VocalProposedChangeTarget"];
+            currentValue?: unknown;
+            proposedValue?: unknown;
+            changed: boolean;
         };
-        AssistantMessageResponse: {
+        VocalProposedChangesResponse: {
+            vocalId: string;
+            propertyId: string | null;
+            prospectUserId: string | null;
+            linkId: string | null;
+            items: components["schemas"]["VocalProposedChange"][];
+        };
+        VocalProposedChangesApplyRequest: {
+            keys: string[];
+        };
+        RunAIResponse: {
+            jobId: string;
+            /** @enum {string} */
+            status: "QUEUED";
+        };
+        ReviewQueueItemResponse: {
             id: string;
             /** @enum {string} */
-            role: "USER" | "ASSISTANT";
-            text: string;
-            citations: components["schemas"]["AssistantCitationResponse"][];
+            itemType: "MESSAGE" | "FILE" | "VOCAL" | "PROPERTY" | "VISIT";
+            itemId: string;
+            reason: string;
+            /** @enum {string} */
+            status: "OPEN" | "RESOLVED";
+            payload?: {
+                [key: string]: unknown;
+            } | null;
             /** Format: date-time */
             createdAt: string;
+            /** Format: date-time */
+            resolvedAt?: string | null;
         };
-        AssistantConversationResponse: {
-            id: string;
-            greeting: string;
-            messages: components["schemas"]["AssistantMessageResponse"][];
+        ReviewQueueListResponse: {
+            items: components["schemas"]["ReviewQueueItemResponse"][];
+            nextCursor?: string | null;
+        };
+        ReviewQueueResolveRequest: {
+            resolution: string;
+            propertyId?: string | null;
+            note?: string | null;
+        };
+        IntegrationConnectRequest: {
+            code?: string;
+            /** Format: uri */
+            redirectUri?: string;
+        };
+        IntegrationSyncRequest: {
+            cursor?: string;
+        };
+        IntegrationResponse: {
+            /** @enum {string} */
+            provider: "GMAIL" | "GOOGLE_CALENDAR" | "WHATSAPP";
+            /** @enum {string} */
+            status: "CONNECTED" | "SYNC_QUEUED";
             /** Format: date-time */
-            createdAt: string;
+            connectedAt?: string | null;
             /** Format: date-time */
-            updatedAt: string;
+            lastSyncedAt?: string | null;
         };
-        AssistantMessageContextRequest: {
-            objectType: components["schemas"]["AssistantObjectType"];
-            objectId: string;
+    };
+    responses: never;
+    parameters: {
+        IdParam: string;
+        LimitParam: number;
+        ObjectChangeLimitParam: number;
+        CursorParam: string;
+    };
+    requestBodies: never;
+    headers: never;
+    pathItems: never;
+}
+export type $defs = Record<string, never>;
+export interface operations {
+    getHealth: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        AssistantMessageCreateRequest: {
-            message: string;
-            context?: components["schemas"]["AssistantMessageContextRequest"];
+        requestBody?: never;
+        responses: {
+            /** @description Service en ligne. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["HealthResponse"];
+                };
+            };
         };
-        AssistantMessageCreateResponse: {
-            conversation: components["schemas"]["AssistantConversationResponse"];
-            assistantMessage: components["schemas"]["AssistantMessageResponse"];
+    };
+    postAuthLogin: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        /** @enum {string} */
-        ObjectChangeMode: "USER" | "AI";
-        ObjectChangeEntry: {
-            id: string;
-            objectType: components["schemas"]["AssistantObjectType"];
-            objectId: string;
-            paramName: string;
-            paramValue: string;
-            mode: components["schemas"]["ObjectChangeMode"];
-            /** Format: date-time */
-            modifiedAt: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LoginRequest"];
+            };
         };
-        ObjectChangeListResponse: {
-            items: components["schemas"]["ObjectChangeEntry"][];
+        responses: {
+            /** @description Authentification réussie. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LoginResponse"];
+                };
+            };
+            /** @description Identifiants invalides. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Trop de tentatives. */
+            429: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        /** @enum {string} */
-        ObjectDataFieldType: "string" | "text" | "int" | "float" | "boolean" | "date" | "datetime" | "select";
-        /** @enum {string} */
-        ObjectDataFieldSource: "object" | "property";
-        /** @enum {string} */
-        ObjectDataFieldRuleOperator: "=" | "!=" | "in" | "notIn";
-        ObjectDataFieldOption: {
-            value: string;
-            label: string;
+    };
+    postAuthRefresh: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        ObjectDataFieldHideRule: {
-            key: string;
-            operator: components["schemas"]["ObjectDataFieldRuleOperator"];
-            value: string | number | boolean | (string | number | boolean)[];
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RefreshRequest"];
+            };
         };
-        ObjectDataFieldDefinition: {
-            key: string;
-            name: string;
-            group: string;
-            subgroup?: string;
-            type: components["schemas"]["ObjectDataFieldType"];
-            source?: components["schemas"]["ObjectDataFieldSource"];
-            required?: boolean;
-            min?: number;
-            max?: number;
-            options?: components["schemas"]["ObjectDataFieldOption"][];
-            hide?: components["schemas"]["ObjectDataFieldHideRule"][];
+        responses: {
+            /** @description Tokens régénérés. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RefreshResponse"];
+                };
+            };
+            /** @description Refresh token invalide. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        ObjectDataStructureResponse: components["schemas"]["ObjectDataFieldDefinition"][];
-        /** @enum {string} */
-        LinkObjectType: "bien" | "user" | "rdv";
-        /** @enum {string} */
-        LinkType: "bien_user" | "rdv_bien" | "rdv_user";
-        LinkTypeDefinition: {
-            typeLien: components["schemas"]["LinkType"];
-            name: string;
-            objectType1: components["schemas"]["LinkObjectType"];
-            objectType2: components["schemas"]["LinkObjectType"];
-            paramsSchema: components["schemas"]["ObjectDataStructureResponse"];
+    };
+    postAuthLogout: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        LinkTypeDefinitionListResponse: {
-            items: components["schemas"]["LinkTypeDefinition"][];
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LogoutRequest"];
+            };
         };
-        LinkResponse: {
-            id: string;
-            typeLien: components["schemas"]["LinkType"];
-            objectId1: string;
-            objectId2: string;
-            params: {
-                [key: string]: unknown;
+        responses: {
+            /** @description Déconnecté. */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
             };
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            updatedAt: string;
         };
-        LinkListResponse: {
-            items: components["schemas"]["LinkResponse"][];
-            nextCursor?: string | null;
+    };
+    getMe: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        LinkCreateRequest: {
-            typeLien: components["schemas"]["LinkType"];
-            objectId1: string;
-            objectId2: string;
-            params?: {
-                [key: string]: unknown;
+        requestBody?: never;
+        responses: {
+            /** @description Utilisateur courant. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MeResponse"];
+                };
             };
-        };
-        LinkPatchRequest: {
-            params: {
-                [key: string]: unknown;
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
             };
         };
-        LinkRelatedItemResponse: {
-            link: components["schemas"]["LinkResponse"];
-            otherSideObjectType: components["schemas"]["LinkObjectType"];
-            otherSideObjectId: string;
-            otherSide: unknown;
+    };
+    getMeSettings: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        LinkRelatedResponse: {
-            items: components["schemas"]["LinkRelatedItemResponse"][];
-            grouped: {
-                bien: unknown[];
-                user: unknown[];
-                rdv: unknown[];
+        requestBody?: never;
+        responses: {
+            /** @description Paramètres applicatifs de l'utilisateur courant. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AppSettingsResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
             };
         };
-        LoginRequest: {
-            /** Format: email */
-            email: string;
-            password: string;
+    };
+    patchMeSettings: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        LoginResponse: {
-            accessToken: string;
-            refreshToken: string;
-            /** @example 900 */
-            expiresIn: number;
-            user: components["schemas"]["UserResponse"];
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AppSettingsPatchRequest"];
+            };
         };
-        RefreshRequest: {
-            refreshToken: string;
+        responses: {
+            /** @description Paramètres applicatifs mis à jour. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AppSettingsResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        RefreshResponse: {
-            accessToken: string;
-            refreshToken: string;
-            expiresIn: number;
+    };
+    getMeStatusWorkflow: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        LogoutRequest: {
-            refreshToken: string;
+        requestBody?: never;
+        responses: {
+            /** @description Workflow de statuts des biens de l'organisation (transitions autorisées et conditions). */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["StatusWorkflowResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        /** @enum {string} */
-        PrivacyExportStatus: "PENDING" | "RUNNING" | "COMPLETED" | "FAILED";
-        PrivacyExportRequest: Record<string, never>;
-        PrivacyExportResponse: {
-            id: string;
-            status: components["schemas"]["PrivacyExportStatus"];
-            /** Format: date-time */
-            requestedAt: string;
-            /** Format: date-time */
-            startedAt: string | null;
-            /** Format: date-time */
-            completedAt: string | null;
-            /** Format: date-time */
-            expiresAt: string;
-            errorMessage: string | null;
-            data: unknown;
+    };
+    putMeStatusWorkflow: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        PrivacyEraseRequest: Record<string, never>;
-        PrivacyEraseResponse: {
-            requestId: string;
-            /** @enum {string} */
-            status: "PENDING";
-            /** Format: date-time */
-            requestedAt: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["StatusWorkflowUpdateRequest"];
+            };
         };
-        RegisterRequest: {
-            /** Format: email */
-            email: string;
-            password: string;
-            firstName: string;
-            lastName: string;
+        responses: {
+            /** @description Workflow de statuts mis à jour (transitions=null rétablit le workflow par défaut). */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["StatusWorkflowResponse"];
+                };
+            };
+            /** @description Workflow invalide. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Rôle insuffisant. */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        ForgotPasswordRequest: {
-            /** Format: email */
-            email: string;
+    };
+    getMeAICalls: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["LimitParam"];
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        ResetPasswordRequest: {
-            token: string;
-            newPassword: string;
+        requestBody?: never;
+        responses: {
+            /** @description Historique des appels IA de l'organisation courante. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AICallLogListResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        /** @enum {string} */
-        PropertyStatus: "PROSPECTION" | "MANDAT_SIGNE" | "EN_DIFFUSION" | "VISITES" | "OFFRES" | "COMPROMIS" | "VENDU" | "ARCHIVE";
-        OwnerContact: {
-            firstName: string;
-            lastName: string;
-            phone: string;
-            /** Format: email */
-            email: string;
-            address?: string | null;
-            postalCode?: string | null;
-            city?: string | null;
+    };
+    postPrivacyExports: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        PropertyDetails: {
-            [key: string]: unknown;
+        requestBody?: {
+            content: {
+                "application/json": components["schemas"]["PrivacyExportRequest"];
+            };
         };
-        PropertyCreateRequest: {
-            title: string;
-            city: string;
-            postalCode: string;
-            address: string;
-            details?: components["schemas"]["PropertyDetails"];
+        responses: {
+            /** @description Export RGPD demandé. */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PrivacyExportResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Rôle insuffisant. */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyPatchRequest: {
-            title?: string;
-            city?: string;
-            postalCode?: string;
-            address?: string;
-            price?: number;
-            details?: components["schemas"]["PropertyDetails"];
-            hiddenExpectedDocumentKeys?: string[];
+    };
+    getPrivacyExportById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
         };
-        PropertyResponse: {
-            id: string;
-            title: string;
-            city: string;
-            postalCode: string;
-            address?: string | null;
-            price?: number | null;
-            details: components["schemas"]["PropertyDetails"];
-            hiddenExpectedDocumentKeys: string[];
-            status: components["schemas"]["PropertyStatus"];
-            orgId: string;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            updatedAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description État export RGPD. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PrivacyExportResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Rôle insuffisant. */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Export introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyListResponse: {
-            items: components["schemas"]["PropertyResponse"][];
-            nextCursor?: string | null;
+    };
+    postPrivacyErase: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        PropertyStatusUpdateRequest: {
-            status: components["schemas"]["PropertyStatus"];
+        requestBody?: {
+            content: {
+                "application/json": components["schemas"]["PrivacyEraseRequest"];
+            };
         };
-        PropertyParticipantCreateRequest: {
-            contactId: string;
-            /** @enum {string} */
-            role: "VENDEUR" | "ACHETEUR" | "LOCATAIRE" | "NOTAIRE" | "ARTISAN" | "AUTRE";
+        responses: {
+            /** @description Effacement RGPD demandé. */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PrivacyEraseResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Rôle insuffisant. */
+            403: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyParticipantResponse: {
-            id: string;
-            propertyId: string;
-            contactId: string;
-            role: string;
-            /** Format: date-time */
-            createdAt: string;
+    };
+    getSearch: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["LimitParam"];
+                q?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        PropertyProspectCreateRequest: {
-            userId?: string;
-            newClient?: components["schemas"]["OwnerContact"];
-            /** @enum {string} */
-            relationRole?: "OWNER" | "PROSPECT" | "ACHETEUR";
-        } | unknown | unknown;
-        PropertyProspectResponse: {
-            id: string;
-            propertyId: string;
-            userId: string;
-            firstName: string;
-            lastName: string;
-            /** Format: email */
-            email: string | null;
-            phone: string | null;
-            address: string | null;
-            postalCode: string | null;
-            city: string | null;
-            relationRole: string;
-            /** Format: date-time */
-            createdAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description Résultats de recherche globaux multi-objets. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["GlobalSearchResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyProspectListResponse: {
-            items: components["schemas"]["PropertyProspectResponse"][];
+    };
+    getLinkTypeDefinitions: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        PropertyVisitCreateRequest: {
-            prospectUserId: string;
-            /** Format: date-time */
-            startsAt: string;
-            /** Format: date-time */
-            endsAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description Catalogue des types de liens et de leurs paramètres. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkTypeDefinitionListResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyVisitPatchRequest: {
-            compteRendu?: string | null;
-            bonDeVisiteFileId?: string | null;
+    };
+    getLinkDataStructureByType: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                typeLien: components["schemas"]["LinkType"];
+            };
+            cookie?: never;
         };
-        PropertyVisitResponse: {
-            id: string;
-            propertyId: string;
-            propertyTitle: string;
-            prospectUserId: string;
-            prospectFirstName: string;
-            prospectLastName: string;
-            /** Format: email */
-            prospectEmail: string | null;
-            prospectPhone: string | null;
-            /** Format: date-time */
-            startsAt: string;
-            /** Format: date-time */
-            endsAt: string;
-            compteRendu: string | null;
-            bonDeVisiteFileId: string | null;
-            bonDeVisiteFileName: string | null;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            updatedAt: string;
+        requestBody?: never;
+        responses: {
+            /** @description Structure des paramètres pour un type de lien. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkTypeDefinition"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Type de lien introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyVisitListResponse: {
-            items: components["schemas"]["PropertyVisitResponse"][];
+    };
+    getObjectDataStructureByType: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                objectType: "bien" | "user" | "rdv" | "tache" | "offre";
+            };
+            cookie?: never;
         };
-        CalendarAppointmentCreateRequest: {
-            title: string;
-            propertyId: string;
-            userId?: string | null;
-            /** Format: date-time */
-            startsAt: string;
-            /** Format: date-time */
-            endsAt: string;
-            address?: string | null;
-            comment?: string | null;
+        requestBody?: never;
+        responses: {
+            /** @description Structure des paramètres pour un type d'objet. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ObjectDataStructureResponse"];
+                };
+            };
+            /** @description Type d'objet invalide. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        CalendarAppointmentResponse: {
-            id: string;
-            title: string;
-            propertyId: string;
-            propertyTitle: string;
-            userId: string | null;
-            userFirstName: string | null;
-            userLastName: string | null;
-            address: string | null;
-            comment: string | null;
-            /** Format: date-time */
-            startsAt: string;
-            /** Format: date-time */
-            endsAt: string;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            updatedAt: string;
+    };
+    getLinks: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["LimitParam"];
+                cursor?: components["parameters"]["CursorParam"];
+                typeLien?: components["schemas"]["LinkType"];
+                objectId?: string;
+                objectId1?: string;
+                objectId2?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        CalendarAppointmentListResponse: {
-            items: components["schemas"]["CalendarAppointmentResponse"][];
+        requestBody?: never;
+        responses: {
+            /** @description Liste des liens business. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkListResponse"];
+                };
+            };
         };
-        /** @enum {string} */
-        RdvType: "RENDEZ_VOUS" | "VISITE_BIEN";
-        RdvResponse: {
-            id: string;
-            title: string;
-            propertyId: string;
-            propertyTitle: string;
-            userId: string | null;
-            userFirstName: string | null;
-            userLastName: string | null;
-            address: string | null;
-            comment: string | null;
-            /** Format: date-time */
-            startsAt: string;
-            /** Format: date-time */
-            endsAt: string;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            updatedAt: string;
-            rdvType: components["schemas"]["RdvType"];
-            bonDeVisiteFileId: string | null;
-            bonDeVisiteFileName: string | null;
+    };
+    postLinks: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        RdvListResponse: {
-            items: components["schemas"]["RdvResponse"][];
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LinkCreateRequest"];
+            };
         };
-        /** @enum {string} */
-        PropertyRiskStatus: "OK" | "NO_DATA" | "UNAVAILABLE";
-        PropertyRiskLocation: {
-            address: string | null;
-            postalCode: string;
-            city: string;
-            inseeCode: string | null;
-            latitude: number | null;
-            longitude: number | null;
+        responses: {
+            /** @description Lien déjà existant mis à jour (upsert). */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkResponse"];
+                };
+            };
+            /** @description Lien créé. */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkResponse"];
+                };
+            };
         };
-        PropertyRiskItemResponse: {
-            label: string;
-            categoryCode: string | null;
-            source: string | null;
-            startDate: string | null;
-            endDate: string | null;
+    };
+    getLinkById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
         };
-        PropertyRiskResponse: {
-            propertyId: string;
-            status: components["schemas"]["PropertyRiskStatus"];
-            /** @enum {string} */
-            source: "GEORISQUES";
-            /** Format: uri */
-            georisquesUrl: string;
-            /** Format: uri */
-            reportPdfUrl: string | null;
-            /** Format: date-time */
-            generatedAt: string;
-            message: string | null;
-            location: components["schemas"]["PropertyRiskLocation"];
-            items: components["schemas"]["PropertyRiskItemResponse"][];
+        requestBody?: never;
+        responses: {
+            /** @description Détail d'un lien. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkResponse"];
+                };
+            };
+            /** @description Lien introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        /** @enum {string} */
-        ComparablePropertyType: "APPARTEMENT" | "MAISON" | "IMMEUBLE" | "TERRAIN" | "LOCAL_COMMERCIAL" | "AUTRE";
-        /** @enum {string} */
-        ComparablePricingPosition: "UNDER_PRICED" | "NORMAL" | "OVER_PRICED" | "UNKNOWN";
-        /** @enum {string} */
-        ComparableDataSource: "CACHE" | "LIVE";
-        ComparableSearchCenter: {
-            latitude: number;
-            longitude: number;
+    };
+    deleteLinkById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
         };
-        ComparableSearchResponse: {
-            center: components["schemas"]["ComparableSearchCenter"];
-            finalRadiusM: number;
-            radiiTried: number[];
-            targetCount: number;
-            targetReached: boolean;
+        requestBody?: never;
+        responses: {
+            /** @description Lien supprimé. */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description Lien introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        ComparableSummaryResponse: {
-            count: number;
-            medianPrice: number | null;
-            medianPricePerM2: number | null;
-            minPrice: number | null;
-            maxPrice: number | null;
+    };
+    patchLinkById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
         };
-        ComparableSubjectResponse: {
-            surfaceM2: number | null;
-            askingPrice: number | null;
-            affinePriceAtSubjectSurface: number | null;
-            predictedPrice: number | null;
-            deviationPct: number | null;
-            pricingPosition: components["schemas"]["ComparablePricingPosition"];
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["LinkPatchRequest"];
+            };
         };
-        ComparableRegressionResponse: {
-            slope: number | null;
-            intercept: number | null;
-            r2: number | null;
-            pointsUsed: number;
+        responses: {
+            /** @description Lien mis à jour. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkResponse"];
+                };
+            };
+            /** @description Lien introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        ComparablePointResponse: {
-            /** Format: date-time */
-            saleDate: string;
-            surfaceM2: number;
-            landSurfaceM2: number | null;
-            salePrice: number;
-            pricePerM2: number;
-            distanceM: number | null;
-            city: string | null;
-            postalCode: string | null;
+    };
+    getRelatedLinks: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                objectType: components["schemas"]["LinkObjectType"];
+                objectId: string;
+            };
+            cookie?: never;
         };
-        PropertyComparablesResponse: {
-            propertyId: string;
-            propertyType: components["schemas"]["ComparablePropertyType"];
-            source: components["schemas"]["ComparableDataSource"];
-            windowYears: number;
-            search: components["schemas"]["ComparableSearchResponse"];
-            summary: components["schemas"]["ComparableSummaryResponse"];
-            subject: components["schemas"]["ComparableSubjectResponse"];
-            regression: components["schemas"]["ComparableRegressionResponse"];
-            points: components["schemas"]["ComparablePointResponse"][];
+        requestBody?: never;
+        responses: {
+            /** @description Liens et objets liés hydratés pour un objet source. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["LinkRelatedResponse"];
+                };
+            };
+            /** @description Type d'objet invalide. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Objet source introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyValuationAICriteriaItem: {
-            label: string;
-            value: string;
+    };
+    getAssistantConversation: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        PropertyValuationAIComparableFilters: {
-            propertyType?: components["schemas"]["ComparablePropertyType"];
-            radiusMaxM?: number | null;
-            surfaceMinM2?: number | null;
-            surfaceMaxM2?: number | null;
-            landSurfaceMinM2?: number | null;
-            landSurfaceMaxM2?: number | null;
+        requestBody?: never;
+        responses: {
+            /** @description Conversation assistant courante (persistante, reset manuel). */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AssistantConversationResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyValuationAIRequest: {
-            comparableFilters?: components["schemas"]["PropertyValuationAIComparableFilters"];
-            agentAdjustedPrice?: number | null;
+    };
+    postAssistantConversationReset: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        PropertyValuationAIResponse: {
-            propertyId: string;
-            aiCalculatedValuation: number | null;
-            valuationJustification: string;
-            promptUsed: string;
-            /** Format: date-time */
-            generatedAt: string;
-            comparableCountUsed: number;
-            criteriaUsed: components["schemas"]["PropertyValuationAICriteriaItem"][];
+        requestBody?: never;
+        responses: {
+            /** @description Conversation assistant réinitialisée. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AssistantConversationResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        PropertyValuationAIPromptResponse: {
-            propertyId: string;
-            promptUsed: string;
+    };
+    postAssistantMessage: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        /** @enum {string} */
-        TypeDocument: "PIECE_IDENTITE" | "LIVRET_FAMILLE" | "CONTRAT_MARIAGE_PACS" | "JUGEMENT_DIVORCE" | "TITRE_PROPRIETE" | "ATTESTATION_NOTARIALE" | "TAXE_FONCIERE" | "REFERENCE_CADASTRALE" | "MANDAT_VENTE_SIGNE" | "OFFRE_ACHAT_SIGNEE" | "DPE" | "AMIANTE" | "PLOMB" | "ELECTRICITE" | "GAZ" | "TERMITES" | "ERP_ETAT_RISQUES" | "ASSAINISSEMENT" | "LOI_CARREZ" | "REGLEMENT_COPROPRIETE" | "ETAT_DESCRIPTIF_DIVISION" | "PV_AG_3_DERNIERES_ANNEES" | "MONTANT_CHARGES" | "CARNET_ENTRETIEN" | "FICHE_SYNTHETIQUE" | "PRE_ETAT_DATE" | "ETAT_DATE" | "PHOTOS_HD" | "VIDEO_VISITE" | "PLAN_BIEN" | "ANNONCE_IMMOBILIERE" | "AFFICHE_VITRINE" | "REPORTING_VENDEUR" | "SIMULATION_FINANCEMENT" | "ATTESTATION_CAPACITE_EMPRUNT" | "ACCORD_PRINCIPE_BANCAIRE" | "COMPROMIS_OU_PROMESSE" | "ANNEXES_COMPROMIS" | "PREUVE_SEQUESTRE" | "COURRIER_RETRACTATION" | "LEVEE_CONDITIONS_SUSPENSIVES" | "ACTE_AUTHENTIQUE" | "DECOMPTE_NOTAIRE";
-        /** @enum {string} */
-        FileStatus: "UPLOADED" | "CLASSIFIED" | "REVIEW_REQUIRED";
-        FileUploadRequest: {
-            propertyId: string;
-            typeDocument?: components["schemas"]["TypeDocument"];
-            fileName: string;
-            mimeType: string;
-            size: number;
-            contentBase64?: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AssistantMessageCreateRequest"];
+            };
         };
-        FileUpdateRequest: {
-            propertyId?: string | null;
-            typeDocument?: components["schemas"]["TypeDocument"];
-            status?: components["schemas"]["FileStatus"];
+        responses: {
+            /** @description Message utilisateur traité et réponse assistant produite. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AssistantMessageCreateResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        FileResponse: {
-            id: string;
-            propertyId?: string | null;
-            typeDocument?: components["schemas"]["TypeDocument"];
-            fileName: string;
-            mimeType: string;
-            size: number;
-            status: components["schemas"]["FileStatus"];
-            storageKey: string;
-            /** Format: date-time */
-            createdAt: string;
+    };
+    postAssistantMessageStream: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        FileListResponse: {
-            items: components["schemas"]["FileResponse"][];
-            nextCursor?: string | null;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AssistantMessageCreateRequest"];
+            };
         };
-        FileDownloadUrlResponse: {
-            /** Format: uri */
-            url: string;
-            /** Format: date-time */
-            expiresAt: string;
+        responses: {
+            /** @description Flux SSE de la réponse assistant (delta + final). */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "text/event-stream": string;
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        /** @enum {string} */
-        MessageChannel: "GMAIL" | "WHATSAPP" | "TELEGRAM";
-        /** @enum {string} */
-        MessageAIStatus: "PENDING" | "PROCESSED" | "REVIEW_REQUIRED";
-        MessageResponse: {
-            id: string;
-            channel: components["schemas"]["MessageChannel"];
-            propertyId?: string | null;
-            subject?: string | null;
-            body: string;
-            fileIds?: string[];
-            aiStatus: components["schemas"]["MessageAIStatus"];
-            /** Format: date-time */
-            receivedAt: string;
+    };
+    getObjectChangeHistory: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["ObjectChangeLimitParam"];
+            };
+            header?: never;
+            path: {
+                objectType: components["schemas"]["AssistantObjectType"];
+                objectId: string;
+            };
+            cookie?: never;
         };
-        MessageListResponse: {
-            items: components["schemas"]["MessageResponse"][];
-            nextCursor?: string | null;
+        requestBody?: never;
+        responses: {
+            /** @description Historique des modifications pour un objet. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ObjectChangeListResponse"];
+                };
+            };
+            /** @description Type d'objet invalide. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Non authentifié. */
+            401: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        MessageUpdateRequest: {
-            propertyId: string;
+    };
+    getUsers: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["LimitParam"];
+                cursor?: components["parameters"]["CursorParam"];
+                q?: string;
+                accountType?: components["schemas"]["AccountType"];
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        /** @enum {string} */
-        VocalStatus: "UPLOADED" | "TRANSCRIBED" | "INSIGHTS_READY" | "REVIEW_REQUIRED";
-        /** @enum {string} */
-        VocalType: "VISITE_INITIALE" | "VISITE_SUIVI" | "COMPTE_RENDU_VISITE_CLIENT" | "ERREUR_TRAITEMENT";
-        VocalUploadRequest: {
-            propertyId?: string | null;
-            fileName: string;
-            mimeType: string;
-            size: number;
-            contentBase64?: string;
+        requestBody?: never;
+        responses: {
+            /** @description Liste des utilisateurs du compte. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AccountUserListResponse"];
+                };
+            };
         };
-        VocalUpdateRequest: {
-            propertyId: string;
+    };
+    postUsers: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
         };
-        VocalResponse: {
-            id: string;
-            propertyId?: string | null;
-            fileId: string;
-            status: components["schemas"]["VocalStatus"];
-            vocalType?: components["schemas"]["VocalType"] | null;
-            processingError?: string | null;
-            transcript?: string | null;
-            summary?: string | null;
-            insights?: {
-                [key: string]: unknown;
-            } | null;
-            confidence?: number | null;
-            /** Format: date-time */
-            createdAt: string;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UserCreateRequest"];
+            };
         };
-        VocalListResponse: {
-            items: components["schemas"]["VocalResponse"][];
-            nextCursor?: string | null;
+        responses: {
+            /** @description Utilisateur créé. */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AccountUserDetailResponse"];
+                };
+            };
         };
-        RunAIResponse: {
-            jobId: string;
-            /** @enum {string} */
-            status: "QUEUED";
+    };
+    getUserById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
         };
-        ReviewQueueItemResponse: {
-            id: string;
-            /** @enum {string} */
-            itemType: "MESSAGE" | "FILE" | "VOCAL";
-            itemId: string;
-            reason: string;
-            /** @enum {string} */
-            status: "OPEN" | "RESOLVED";
-            payload?: {
-                [key: string]: unknown;
-            } | null;
-            /** Format: date-time */
-            createdAt: string;
-            /** Format: date-time */
-            resolvedAt?: string | null;
+        requestBody?: never;
+        responses: {
+            /** @description Détail utilisateur. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AccountUserDetailResponse"];
+                };
+            };
         };
-        ReviewQueueListResponse: {
-            items: components["schemas"]["ReviewQueueItemResponse"][];
-            nextCursor?: string | null;
+    };
+    patchUserById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
         };
-        ReviewQueueResolveRequest: {
-            resolution: string;
-            propertyId?: string | null;
-            note?: string | null;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["UserPatchRequest"];
+            };
         };
-        IntegrationConnectRequest: {
-            code?: string;
-            /** Format: uri */
-            redirectUri?: string;
+        responses: {
+            /** @description Utilisateur mis à jour. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AccountUserDetailResponse"];
+                };
+            };
+            /** @description Utilisateur introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
         };
-        IntegrationSyncRequest: {
-            cursor?: string;
+    };
+    getUserWorkingHours: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
         };
-        IntegrationResponse: {
-            /** @enum {string} */
-            provider: "GMAIL" | "GOOGLE_CALENDAR" | "WHATSAPP";
-            /** @enum {string} */
-            status: "CONNECTED" | "SYNC_QUEUED";
-            /** Format: date-time */
-            connectedAt?: string | null;
-            /** Format: date-time */
-            lastSyncedAt?: string | null;
+        requestBody?: never;
+        responses: {
+            /** @description Plages de travail hebdomadaires de l'agent. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AgentWorkingHoursResponse"];
+                };
+            };
         };
     };
-    responses: never;
-    parameters: {
-        IdParam: string;
-        LimitParam: number;
-        ObjectChangeLimitParam: number;
-        CursorParam: string;
-    };
-    requestBodies: never;
-    headers: never;
-    pathItems: never;
-}
-export type $defs = Record<string, never>;
-export interface operations {
-    getHealth: {
+    putUserWorkingHours: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["AgentWorkingHoursRequest"];
+            };
+        };
+        responses: {
+            /** @description Plages remplacées; une liste vide rétablit les horaires par défaut. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["AgentWorkingHoursResponse"];
+                };
+            };
+        };
+    };
+    getUserBuyerSearch: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Service en ligne. */
+            /** @description Recherche acquéreur du client. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["HealthResponse"];
+                    "application/json": components["schemas"]["BuyerSearchResponse"];
+                };
+            };
+            /** @description Utilisateur ou recherche introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
         };
     };
-    postAuthLogin: {
+    putUserBuyerSearch: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["LoginRequest"];
+                "application/json": components["schemas"]["BuyerSearchUpsertRequest"];
             };
         };
         responses: {
-            /** @description Authentification réussie. */
+            /** @description Recherche enregistrée. Le rapprochement avec les biens actifs est relancé. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LoginResponse"];
+                    "application/json": components["schemas"]["BuyerSearchResponse"];
                 };
             };
-            /** @description Identifiants invalides. */
-            401: {
+            /** @description Critères invalides ou utilisateur non client. */
+            400: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -1859,8 +4331,8 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Trop de tentatives. */
-            429: {
+            /** @description Utilisateur introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -1870,30 +4342,57 @@ export interface operations {
             };
         };
     };
-    postAuthRefresh: {
+    deleteUserBuyerSearch: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["RefreshRequest"];
+        requestBody?: never;
+        responses: {
+            /** @description Recherche et rapprochements supprimés. */
+            204: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description Utilisateur ou recherche introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    listUserPropertyMatches: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
-            /** @description Tokens régénérés. */
+            /** @description Biens actifs correspondant à la recherche du client, par score décroissant. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RefreshResponse"];
+                    "application/json": components["schemas"]["UserPropertyMatchListResponse"];
                 };
             };
-            /** @description Refresh token invalide. */
-            401: {
+            /** @description Utilisateur introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -1903,7 +4402,33 @@ export interface operations {
             };
         };
     };
-    postAuthLogout: {
+    getTasks: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["LimitParam"];
+                propertyId?: string;
+                assigneeUserId?: string;
+                status?: components["schemas"]["TaskStatus"];
+                q?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Liste des tâches, triées par échéance. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["TaskListResponse"];
+                };
+            };
+        };
+    };
+    postTasks: {
         parameters: {
             query?: never;
             header?: never;
@@ -1912,39 +4437,52 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["LogoutRequest"];
+                "application/json": components["schemas"]["TaskCreateRequest"];
             };
         };
         responses: {
-            /** @description Déconnecté. */
-            204: {
+            /** @description Tâche créée. */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["TaskResponse"];
+                };
+            };
+            /** @description Bien ou utilisateur introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
             };
         };
     };
-    getMe: {
+    getTaskById: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Utilisateur courant. */
+            /** @description Détail de la tâche. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["MeResponse"];
+                    "application/json": components["schemas"]["TaskResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Tâche introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -1954,26 +4492,32 @@ export interface operations {
             };
         };
     };
-    getMeSettings: {
+    patchTaskById: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["TaskPatchRequest"];
+            };
+        };
         responses: {
-            /** @description Paramètres applicatifs de l'utilisateur courant. */
+            /** @description Tâche mise à jour. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AppSettingsResponse"];
+                    "application/json": components["schemas"]["TaskResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Tâche introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -1983,7 +4527,32 @@ export interface operations {
             };
         };
     };
-    patchMeSettings: {
+    getOffers: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["LimitParam"];
+                propertyId?: string;
+                buyerUserId?: string;
+                status?: components["schemas"]["OfferStatus"];
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Liste des offres, les plus récentes en premier. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["OfferListResponse"];
+                };
+            };
+        };
+    };
+    postOffers: {
         parameters: {
             query?: never;
             header?: never;
@@ -1992,21 +4561,21 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["AppSettingsPatchRequest"];
+                "application/json": components["schemas"]["OfferCreateRequest"];
             };
         };
         responses: {
-            /** @description Paramètres applicatifs mis à jour. */
-            200: {
+            /** @description Offre enregistrée et liée au bien et à l'acquéreur. */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AppSettingsResponse"];
+                    "application/json": components["schemas"]["OfferResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Bien ou acquéreur introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2016,28 +4585,28 @@ export interface operations {
             };
         };
     };
-    getMeAICalls: {
+    getOfferById: {
         parameters: {
-            query?: {
-                limit?: components["parameters"]["LimitParam"];
-            };
+            query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Historique des appels IA de l'organisation courante. */
+            /** @description Détail de l'offre. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AICallLogListResponse"];
+                    "application/json": components["schemas"]["OfferResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Offre introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2047,30 +4616,32 @@ export interface operations {
             };
         };
     };
-    postPrivacyExports: {
+    postOfferCounter: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
-        requestBody?: {
+        requestBody: {
             content: {
-                "application/json": components["schemas"]["PrivacyExportRequest"];
+                "application/json": components["schemas"]["OfferCounterRequest"];
             };
         };
         responses: {
-            /** @description Export RGPD demandé. */
-            202: {
+            /** @description Contre-offre créée, l'offre d'origine passe en COUNTERED. */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PrivacyExportResponse"];
+                    "application/json": components["schemas"]["OfferResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description L'offre n'est plus en attente de réponse. */
+            409: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2078,8 +4649,43 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Rôle insuffisant. */
-            403: {
+        };
+    };
+    postOfferAccept: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["OfferAcceptRequest"];
+            };
+        };
+        responses: {
+            /** @description Offre acceptée, bien passé en OFFRES et PDF signé rattaché. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["OfferResponse"];
+                };
+            };
+            /** @description Le fichier signé n'est pas un PDF. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Offre déjà traitée ou transition de statut refusée. */
+            409: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2089,7 +4695,7 @@ export interface operations {
             };
         };
     };
-    getPrivacyExportById: {
+    postOfferReject: {
         parameters: {
             query?: never;
             header?: never;
@@ -2098,28 +4704,56 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["OfferRejectRequest"];
+            };
+        };
         responses: {
-            /** @description État export RGPD. */
+            /** @description Offre refusée. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PrivacyExportResponse"];
+                    "application/json": components["schemas"]["OfferResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description L'offre n'est plus en attente de réponse. */
+            409: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    postAuthRegister: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["RegisterRequest"];
+            };
+        };
+        responses: {
+            /** @description Compte créé. */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
+                    "application/json": components["schemas"]["LoginResponse"];
                 };
             };
-            /** @description Rôle insuffisant. */
-            403: {
+            /** @description Données invalides. */
+            400: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2127,8 +4761,30 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Export introuvable. */
-            404: {
+        };
+    };
+    postAuthForgotPassword: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["ForgotPasswordRequest"];
+            };
+        };
+        responses: {
+            /** @description Demande acceptée. */
+            202: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content?: never;
+            };
+            /** @description Trop de tentatives. */
+            429: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2138,30 +4794,28 @@ export interface operations {
             };
         };
     };
-    postPrivacyErase: {
+    postAuthResetPassword: {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody?: {
+        requestBody: {
             content: {
-                "application/json": components["schemas"]["PrivacyEraseRequest"];
+                "application/json": components["schemas"]["ResetPasswordRequest"];
             };
         };
         responses: {
-            /** @description Effacement RGPD demandé. */
-            202: {
+            /** @description Mot de passe modifié. */
+            204: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content: {
-                    "application/json": components["schemas"]["PrivacyEraseResponse"];
-                };
+                content?: never;
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Token invalide. */
+            400: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2169,8 +4823,8 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Rôle insuffisant. */
-            403: {
+            /** @description Trop de tentatives. */
+            429: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2180,10 +4834,11 @@ export interface operations {
             };
         };
     };
-    getSearch: {
+    getProperties: {
         parameters: {
             query?: {
                 limit?: components["parameters"]["LimitParam"];
+                cursor?: components["parameters"]["CursorParam"];
                 q?: string;
             };
             header?: never;
@@ -2192,46 +4847,63 @@ export interface operations {
         };
         requestBody?: never;
         responses: {
-            /** @description Résultats de recherche globaux multi-objets. */
+            /** @description Liste des biens. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["GlobalSearchResponse"];
+                    "application/json": components["schemas"]["PropertyListResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+        };
+    };
+    postProperties: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PropertyCreateRequest"];
+            };
+        };
+        responses: {
+            /** @description Bien créé. */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
+                    "application/json": components["schemas"]["PropertyResponse"];
                 };
             };
         };
     };
-    getLinkTypeDefinitions: {
+    getPropertyById: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Catalogue des types de liens et de leurs paramètres. */
+            /** @description Détail du bien. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkTypeDefinitionListResponse"];
+                    "application/json": components["schemas"]["PropertyResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Bien introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2241,37 +4913,58 @@ export interface operations {
             };
         };
     };
-    getLinkDataStructureByType: {
+    patchPropertyById: {
         parameters: {
             query?: never;
             header?: never;
             path: {
-                typeLien: components["schemas"]["LinkType"];
+                id: components["parameters"]["IdParam"];
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PropertyPatchRequest"];
+            };
+        };
         responses: {
-            /** @description Structure des paramètres pour un type de lien. */
+            /** @description Bien mis à jour. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkTypeDefinition"];
+                    "application/json": components["schemas"]["PropertyResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+        };
+    };
+    patchPropertyStatusById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PropertyStatusUpdateRequest"];
+            };
+        };
+        responses: {
+            /** @description Statut du bien mis à jour. */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
+                    "application/json": components["schemas"]["PropertyResponse"];
                 };
             };
-            /** @description Type de lien introuvable. */
-            404: {
+            /** @description Transition refusée par le workflow de l'organisation, conditions non remplies, ou documents obligatoires manquants (renvoyer avec force=true pour passer outre aux seuls documents). */
+            409: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2281,37 +4974,31 @@ export interface operations {
             };
         };
     };
-    getObjectDataStructureByType: {
+    getPropertyDocumentChecklist: {
         parameters: {
-            query?: never;
+            query?: {
+                /** @description Statut cible pour simuler la checklist (defaut statut courant). */
+                status?: components["schemas"]["PropertyStatus"];
+            };
             header?: never;
             path: {
-                objectType: "bien" | "user" | "rdv";
+                id: components["parameters"]["IdParam"];
             };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Structure des paramètres pour un type d'objet. */
+            /** @description Documents attendus pour le bien (manquants, presents, masques). */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ObjectDataStructureResponse"];
-                };
-            };
-            /** @description Type d'objet invalide. */
-            400: {
-                headers: {
-                    [name: string]: unknown;
-                };
-                content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
+                    "application/json": components["schemas"]["PropertyDocumentChecklistResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Bien introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2321,67 +5008,69 @@ export interface operations {
             };
         };
     };
-    getLinks: {
+    postPropertyMandateRegister: {
         parameters: {
-            query?: {
-                limit?: components["parameters"]["LimitParam"];
-                cursor?: components["parameters"]["CursorParam"];
-                typeLien?: components["schemas"]["LinkType"];
-                objectId?: string;
-                objectId1?: string;
-                objectId2?: string;
-            };
+            query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Liste des liens business. */
+            /** @description Inscription du mandat du bien au registre (numéro conservé pour un même mandat). */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkListResponse"];
+                    "application/json": components["schemas"]["MandateRegisterEntryResponse"];
+                };
+            };
+            /** @description Bien introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
         };
     };
-    postLinks: {
+    getPropertyClosingTracker: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["LinkCreateRequest"];
+            path: {
+                id: components["parameters"]["IdParam"];
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
-            /** @description Lien déjà existant mis à jour (upsert). */
+            /** @description Échéances compromis -> acte calculées depuis la date de signature du compromis. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkResponse"];
+                    "application/json": components["schemas"]["ClosingTrackerResponse"];
                 };
             };
-            /** @description Lien créé. */
-            201: {
+            /** @description Bien introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkResponse"];
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
         };
     };
-    getLinkById: {
+    getPropertyCommission: {
         parameters: {
             query?: never;
             header?: never;
@@ -2392,16 +5081,16 @@ export interface operations {
         };
         requestBody?: never;
         responses: {
-            /** @description Détail d'un lien. */
+            /** @description Répartition des honoraires entre agent inscripteur, agent vendeur et agence. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkResponse"];
+                    "application/json": components["schemas"]["PropertyCommissionResponse"];
                 };
             };
-            /** @description Lien introuvable. */
+            /** @description Bien introuvable. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -2412,7 +5101,7 @@ export interface operations {
             };
         };
     };
-    deleteLinkById: {
+    putPropertyCommission: {
         parameters: {
             query?: never;
             header?: never;
@@ -2421,16 +5110,31 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PropertyCommissionUpsertRequest"];
+            };
+        };
         responses: {
-            /** @description Lien supprimé. */
-            204: {
+            /** @description Répartition enregistrée. La part agence vaut le reliquat si elle est omise. */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
-                content?: never;
+                content: {
+                    "application/json": components["schemas"]["PropertyCommissionResponse"];
+                };
             };
-            /** @description Lien introuvable. */
+            /** @description Répartition incohérente ou bénéficiaire non agent. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Bien ou utilisateur introuvable. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -2441,7 +5145,7 @@ export interface operations {
             };
         };
     };
-    patchLinkById: {
+    listPropertyBuyerMatches: {
         parameters: {
             query?: never;
             header?: never;
@@ -2450,22 +5154,18 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["LinkPatchRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
-            /** @description Lien mis à jour. */
+            /** @description Acquéreurs dont la recherche correspond au bien, par score décroissant. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkResponse"];
+                    "application/json": components["schemas"]["PropertyBuyerMatchListResponse"];
                 };
             };
-            /** @description Lien introuvable. */
+            /** @description Bien introuvable. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -2476,29 +5176,41 @@ export interface operations {
             };
         };
     };
-    getRelatedLinks: {
+    sendPropertyBuyerAlerts: {
         parameters: {
             query?: never;
             header?: never;
             path: {
-                objectType: components["schemas"]["LinkObjectType"];
-                objectId: string;
+                id: components["parameters"]["IdParam"];
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BuyerAlertSendRequest"];
+            };
+        };
         responses: {
-            /** @description Liens et objets liés hydratés pour un objet source. */
+            /** @description Résultat par acquéreur. Une alerte déjà envoyée pour ce bien n'est jamais renvoyée. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["LinkRelatedResponse"];
+                    "application/json": components["schemas"]["BuyerAlertSendResponse"];
+                };
+            };
+            /** @description Bien introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Type d'objet invalide. */
-            400: {
+            /** @description Configuration SMTP incomplète. */
+            500: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2506,8 +5218,8 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Objet source introuvable. */
-            404: {
+            /** @description Le fournisseur email configuré ne permet pas l'envoi. */
+            501: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2517,26 +5229,29 @@ export interface operations {
             };
         };
     };
-    getAssistantConversation: {
+    getRevenueReport: {
         parameters: {
-            query?: never;
+            query?: {
+                from?: string;
+                to?: string;
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Conversation assistant courante (persistante, reset manuel). */
+            /** @description Honoraires signés (COMPROMIS) et encaissés (VENDU) agrégés par mois, agent et ville depuis la timeline des biens. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AssistantConversationResponse"];
+                    "application/json": components["schemas"]["RevenueReportResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Bornes de période invalides. */
+            400: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2546,26 +5261,31 @@ export interface operations {
             };
         };
     };
-    postAssistantConversationReset: {
+    getPipelineReport: {
         parameters: {
-            query?: never;
+            query?: {
+                agentUserId?: string;
+                city?: string;
+                propertyType?: components["schemas"]["ComparablePropertyType"];
+                staleAfterDays?: number;
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Conversation assistant réinitialisée. */
+            /** @description Analyse du pipeline calculée depuis la timeline des biens (durées médianes, conversion, biens dormants, baisses de prix). */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AssistantConversationResponse"];
+                    "application/json": components["schemas"]["PipelineReportResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Filtre invalide. */
+            400: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2575,30 +5295,32 @@ export interface operations {
             };
         };
     };
-    postAssistantMessage: {
+    getPipelineReportExport: {
         parameters: {
-            query?: never;
+            query?: {
+                agentUserId?: string;
+                city?: string;
+                propertyType?: components["schemas"]["ComparablePropertyType"];
+                staleAfterDays?: number;
+                format?: "csv";
+            };
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["AssistantMessageCreateRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
-            /** @description Message utilisateur traité et réponse assistant produite. */
+            /** @description Export CSV de l'analyse du pipeline. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AssistantMessageCreateResponse"];
+                    "text/csv": string;
                 };
             };
-            /** @description Non authentifié. */
-            401: {
+            /** @description Filtre ou format d'export invalide. */
+            400: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2608,63 +5330,48 @@ export interface operations {
             };
         };
     };
-    postAssistantMessageStream: {
+    getMandateRegister: {
         parameters: {
             query?: never;
             header?: never;
             path?: never;
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["AssistantMessageCreateRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
-            /** @description Flux SSE de la réponse assistant (delta + final). */
+            /** @description Registre des mandats de l'organisation, par numéro croissant. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "text/event-stream": string;
-                };
-            };
-            /** @description Non authentifié. */
-            401: {
-                headers: {
-                    [name: string]: unknown;
-                };
-                content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
+                    "application/json": components["schemas"]["MandateRegisterListResponse"];
                 };
             };
         };
     };
-    getObjectChangeHistory: {
+    getMandateRegisterExport: {
         parameters: {
             query?: {
-                limit?: components["parameters"]["ObjectChangeLimitParam"];
+                format?: "csv" | "pdf";
             };
             header?: never;
-            path: {
-                objectType: components["schemas"]["AssistantObjectType"];
-                objectId: string;
-            };
+            path?: never;
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Historique des modifications pour un objet. */
+            /** @description Export du registre des mandats. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ObjectChangeListResponse"];
+                    "text/csv": string;
+                    "application/pdf": string;
                 };
             };
-            /** @description Type d'objet invalide. */
+            /** @description Format d'export invalide. */
             400: {
                 headers: {
                     [name: string]: unknown;
@@ -2673,69 +5380,65 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Non authentifié. */
-            401: {
-                headers: {
-                    [name: string]: unknown;
-                };
-                content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
-                };
-            };
         };
     };
-    getUsers: {
+    getPropertyVisits: {
         parameters: {
-            query?: {
-                limit?: components["parameters"]["LimitParam"];
-                cursor?: components["parameters"]["CursorParam"];
-                q?: string;
-                accountType?: components["schemas"]["AccountType"];
-            };
+            query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Liste des utilisateurs du compte. */
+            /** @description Liste des visites du bien. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AccountUserListResponse"];
+                    "application/json": components["schemas"]["PropertyVisitListResponse"];
                 };
             };
         };
     };
-    postUsers: {
+    postPropertyVisits: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["UserCreateRequest"];
+                "application/json": components["schemas"]["PropertyVisitCreateRequest"];
             };
         };
         responses: {
-            /** @description Utilisateur créé. */
+            /** @description Visite ajoutée. */
             201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AccountUserDetailResponse"];
+                    "application/json": components["schemas"]["PropertyVisitResponse"];
                 };
             };
         };
     };
-    getUserById: {
+    getPropertyVisitSlots: {
         parameters: {
-            query?: never;
+            query?: {
+                from?: string;
+                days?: number;
+                durationMinutes?: number;
+                agentUserId?: string;
+                limit?: number;
+            };
             header?: never;
             path: {
                 id: components["parameters"]["IdParam"];
@@ -2744,18 +5447,18 @@ export interface operations {
         };
         requestBody?: never;
         responses: {
-            /** @description Détail utilisateur. */
+            /** @description Créneaux libres selon les horaires des agents, les visites (temps de trajet compris) et l'agenda synchronisé. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AccountUserDetailResponse"];
+                    "application/json": components["schemas"]["VisitSlotListResponse"];
                 };
             };
         };
     };
-    patchUserById: {
+    getPropertyBookingLink: {
         parameters: {
             query?: never;
             header?: never;
@@ -2764,22 +5467,18 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["UserPatchRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
-            /** @description Utilisateur mis à jour. */
+            /** @description Lien public de réservation de visite du bien. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["AccountUserDetailResponse"];
+                    "application/json": components["schemas"]["PropertyBookingLinkResponse"];
                 };
             };
-            /** @description Utilisateur introuvable. */
+            /** @description Bien introuvable ou lien non créé. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -2790,92 +5489,54 @@ export interface operations {
             };
         };
     };
-    postAuthRegister: {
+    putPropertyBookingLink: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["RegisterRequest"];
+                "application/json": components["schemas"]["PropertyBookingLinkUpsertRequest"];
             };
         };
         responses: {
-            /** @description Compte créé. */
-            201: {
-                headers: {
-                    [name: string]: unknown;
-                };
-                content: {
-                    "application/json": components["schemas"]["LoginResponse"];
-                };
-            };
-            /** @description Données invalides. */
-            400: {
+            /** @description Lien créé ou mis à jour. */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
+                    "application/json": components["schemas"]["PropertyBookingLinkResponse"];
                 };
             };
         };
     };
-    postAuthForgotPassword: {
+    getPublicVisitBooking: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["ForgotPasswordRequest"];
+            path: {
+                token: string;
             };
+            cookie?: never;
         };
+        requestBody?: never;
         responses: {
-            /** @description Demande acceptée. */
-            202: {
-                headers: {
-                    [name: string]: unknown;
-                };
-                content?: never;
-            };
-            /** @description Trop de tentatives. */
-            429: {
+            /** @description Résumé du bien et créneaux libres, sans authentification. */
+            200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["ErrorResponse"];
-                };
-            };
-        };
-    };
-    postAuthResetPassword: {
-        parameters: {
-            query?: never;
-            header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["ResetPasswordRequest"];
-            };
-        };
-        responses: {
-            /** @description Mot de passe modifié. */
-            204: {
-                headers: {
-                    [name: string]: unknown;
+                    "application/json": components["schemas"]["PublicVisitBookingPageResponse"];
                 };
-                content?: never;
             };
-            /** @description Token invalide. */
-            400: {
+            /** @description Lien inconnu ou désactivé. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2883,7 +5544,7 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Trop de tentatives. */
+            /** @description Trop de requêtes. */
             429: {
                 headers: {
                     [name: string]: unknown;
@@ -2894,76 +5555,41 @@ export interface operations {
             };
         };
     };
-    getProperties: {
-        parameters: {
-            query?: {
-                limit?: components["parameters"]["LimitParam"];
-                cursor?: components["parameters"]["CursorParam"];
-                q?: string;
-            };
-            header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody?: never;
-        responses: {
-            /** @description Liste des biens. */
-            200: {
-                headers: {
-                    [name: string]: unknown;
-                };
-                content: {
-                    "application/json": components["schemas"]["PropertyListResponse"];
-                };
-            };
-        };
-    };
-    postProperties: {
+    postPublicVisitBooking: {
         parameters: {
             query?: never;
             header?: never;
-            path?: never;
+            path: {
+                token: string;
+            };
             cookie?: never;
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["PropertyCreateRequest"];
+                "application/json": components["schemas"]["PublicVisitBookingRequest"];
             };
         };
         responses: {
-            /** @description Bien créé. */
+            /** @description Visite réservée; un email de confirmation avec invitation ICS est envoyé au prospect. */
             201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyResponse"];
+                    "application/json": components["schemas"]["PublicVisitBookingResponse"];
                 };
             };
-        };
-    };
-    getPropertyById: {
-        parameters: {
-            query?: never;
-            header?: never;
-            path: {
-                id: components["parameters"]["IdParam"];
-            };
-            cookie?: never;
-        };
-        requestBody?: never;
-        responses: {
-            /** @description Détail du bien. */
-            200: {
+            /** @description Lien inconnu ou désactivé. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyResponse"];
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Bien introuvable. */
-            404: {
+            /** @description Créneau plus disponible. */
+            409: {
                 headers: {
                     [name: string]: unknown;
                 };
@@ -2971,35 +5597,18 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-        };
-    };
-    patchPropertyById: {
-        parameters: {
-            query?: never;
-            header?: never;
-            path: {
-                id: components["parameters"]["IdParam"];
-            };
-            cookie?: never;
-        };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["PropertyPatchRequest"];
-            };
-        };
-        responses: {
-            /** @description Bien mis à jour. */
-            200: {
+            /** @description Trop de requêtes. */
+            429: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyResponse"];
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
         };
     };
-    patchPropertyStatusById: {
+    getPropertyRisks: {
         parameters: {
             query?: never;
             header?: never;
@@ -3008,46 +5617,29 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody: {
-            content: {
-                "application/json": components["schemas"]["PropertyStatusUpdateRequest"];
-            };
-        };
+        requestBody?: never;
         responses: {
-            /** @description Statut du bien mis à jour. */
+            /** @description Risques geographiques recuperes depuis Georisques. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyResponse"];
+                    "application/json": components["schemas"]["PropertyRiskResponse"];
                 };
             };
-        };
-    };
-    getPropertyVisits: {
-        parameters: {
-            query?: never;
-            header?: never;
-            path: {
-                id: components["parameters"]["IdParam"];
-            };
-            cookie?: never;
-        };
-        requestBody?: never;
-        responses: {
-            /** @description Liste des visites du bien. */
-            200: {
+            /** @description Bien introuvable. */
+            404: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyVisitListResponse"];
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
         };
     };
-    postPropertyVisits: {
+    createSellerReport: {
         parameters: {
             query?: never;
             header?: never;
@@ -3058,42 +5650,70 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["PropertyVisitCreateRequest"];
+                "application/json": components["schemas"]["SellerReportCreateRequest"];
             };
         };
         responses: {
-            /** @description Visite ajoutée. */
+            /** @description Reporting vendeur généré et stocké en REPORTING_VENDEUR. */
             201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyVisitResponse"];
+                    "application/json": components["schemas"]["SellerReportResponse"];
+                };
+            };
+            /** @description Période invalide. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Bien introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
         };
     };
-    getPropertyRisks: {
+    sendSellerReport: {
         parameters: {
             query?: never;
             header?: never;
             path: {
                 id: components["parameters"]["IdParam"];
+                fileId: string;
             };
             cookie?: never;
         };
         requestBody?: never;
         responses: {
-            /** @description Risques geographiques recuperes depuis Georisques. */
-            200: {
+            /** @description Reporting envoyé par email aux propriétaires (relation OWNER) du bien. */
+            201: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyRiskResponse"];
+                    "application/json": components["schemas"]["MessageResponse"];
                 };
             };
-            /** @description Bien introuvable. */
+            /** @description Aucun propriétaire avec une adresse email. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Bien ou reporting introuvable. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -3279,7 +5899,7 @@ export interface operations {
         };
         requestBody?: never;
         responses: {
-            /** @description Liste des rendez-vous manuels du calendrier. */
+            /** @description Rendez-vous manuels du calendrier et échéances des biens sous compromis. */
             200: {
                 headers: {
                     [name: string]: unknown;
@@ -3349,10 +5969,205 @@ export interface operations {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["CalendarAppointmentResponse"];
+                    "application/json": components["schemas"]["CalendarAppointmentResponse"];
+                };
+            };
+            /** @description Rendez-vous introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    getRdv: {
+        parameters: {
+            query?: {
+                from?: string;
+                to?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Liste unifiée des rendez-vous. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RdvListResponse"];
+                };
+            };
+        };
+    };
+    getRdvById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Détail d'un rendez-vous. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["RdvResponse"];
+                };
+            };
+            /** @description Rendez-vous introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    getVisitById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Détail d'une visite. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PropertyVisitResponse"];
+                };
+            };
+            /** @description Visite introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    patchVisitById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["PropertyVisitPatchRequest"];
+            };
+        };
+        responses: {
+            /** @description Visite mise à jour. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PropertyVisitResponse"];
+                };
+            };
+            /** @description Visite introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    getVisitBonDeVisitePreview: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Bon de visite généré, avant signature. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/pdf": string;
+                };
+            };
+            /** @description Visite introuvable. */
+            404: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+        };
+    };
+    signVisitBonDeVisite: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["BonDeVisiteSignRequest"];
+            };
+        };
+        responses: {
+            /** @description Bon de visite signé, stocké en BON_VISITE et rattaché à la visite. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["PropertyVisitResponse"];
+                };
+            };
+            /** @description Signature vide ou invalide. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-            /** @description Rendez-vous introuvable. */
+            /** @description Visite introuvable. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -3361,32 +6176,18 @@ export interface operations {
                     "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
-        };
-    };
-    getRdv: {
-        parameters: {
-            query?: {
-                from?: string;
-                to?: string;
-            };
-            header?: never;
-            path?: never;
-            cookie?: never;
-        };
-        requestBody?: never;
-        responses: {
-            /** @description Liste unifiée des rendez-vous. */
-            200: {
+            /** @description Bon de visite déjà signé. */
+            409: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RdvListResponse"];
+                    "application/json": components["schemas"]["ErrorResponse"];
                 };
             };
         };
     };
-    getRdvById: {
+    getVisitFeedback: {
         parameters: {
             query?: never;
             header?: never;
@@ -3397,16 +6198,16 @@ export interface operations {
         };
         requestBody?: never;
         responses: {
-            /** @description Détail d'un rendez-vous. */
+            /** @description Retour structuré du visiteur. */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["RdvResponse"];
+                    "application/json": components["schemas"]["VisitFeedbackResponse"];
                 };
             };
-            /** @description Rendez-vous introuvable. */
+            /** @description Visite introuvable ou retour non renseigné. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -3417,7 +6218,7 @@ export interface operations {
             };
         };
     };
-    getVisitById: {
+    putVisitFeedback: {
         parameters: {
             query?: never;
             header?: never;
@@ -3426,15 +6227,19 @@ export interface operations {
             };
             cookie?: never;
         };
-        requestBody?: never;
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["VisitFeedbackUpsertRequest"];
+            };
+        };
         responses: {
-            /** @description Détail d'une visite. */
+            /** @description Retour saisi par l'agent (source MANUAL). */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyVisitResponse"];
+                    "application/json": components["schemas"]["VisitFeedbackResponse"];
                 };
             };
             /** @description Visite introuvable. */
@@ -3448,7 +6253,7 @@ export interface operations {
             };
         };
     };
-    patchVisitById: {
+    extractVisitFeedback: {
         parameters: {
             query?: never;
             header?: never;
@@ -3459,20 +6264,29 @@ export interface operations {
         };
         requestBody: {
             content: {
-                "application/json": components["schemas"]["PropertyVisitPatchRequest"];
+                "application/json": components["schemas"]["VisitFeedbackExtractRequest"];
             };
         };
         responses: {
-            /** @description Visite mise à jour. */
+            /** @description Retour extrait par l'IA depuis la transcription du vocal. Un vocal sans transcription ou une extraction peu fiable part en file de revue (REVIEW_REQUIRED). */
             200: {
                 headers: {
                     [name: string]: unknown;
                 };
                 content: {
-                    "application/json": components["schemas"]["PropertyVisitResponse"];
+                    "application/json": components["schemas"]["VisitFeedbackExtractResponse"];
                 };
             };
-            /** @description Visite introuvable. */
+            /** @description Vocal rattaché à un autre bien. */
+            400: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["ErrorResponse"];
+                };
+            };
+            /** @description Visite ou vocal introuvable. */
             404: {
                 headers: {
                     [name: string]: unknown;
@@ -3630,6 +6444,9 @@ export interface operations {
                 cursor?: components["parameters"]["CursorParam"];
                 channel?: components["schemas"]["MessageChannel"];
                 propertyId?: string;
+                threadId?: string;
+                /** @description Messages dont le contact est expéditeur, destinataire ou en copie. */
+                userId?: string;
                 aiStatus?: components["schemas"]["MessageAIStatus"];
             };
             header?: never;
@@ -3649,6 +6466,30 @@ export interface operations {
             };
         };
     };
+    postMessage: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["MessageComposeRequest"];
+            };
+        };
+        responses: {
+            /** @description Email envoyé et enregistré comme message sortant. */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+        };
+    };
     getMessageById: {
         parameters: {
             query?: never;
@@ -3719,6 +6560,149 @@ export interface operations {
             };
         };
     };
+    getMessageThreads: {
+        parameters: {
+            query?: {
+                limit?: components["parameters"]["LimitParam"];
+                cursor?: components["parameters"]["CursorParam"];
+                propertyId?: string;
+                userId?: string;
+            };
+            header?: never;
+            path?: never;
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Conversations triées par dernière activité. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageThreadListResponse"];
+                };
+            };
+        };
+    };
+    getMessageThreadById: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Détail conversation. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageThreadResponse"];
+                };
+            };
+        };
+    };
+    postMessageThreadSummarize: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Résumé IA recalculé. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageThreadResponse"];
+                };
+            };
+        };
+    };
+    postMessageReply: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["MessageReplyRequest"];
+            };
+        };
+        responses: {
+            /** @description Réponse envoyée dans le fil du message d'origine. */
+            201: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageResponse"];
+                };
+            };
+        };
+    };
+    postMessageSenderContact: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["MessageSenderContactRequest"];
+            };
+        };
+        responses: {
+            /** @description Expéditeur rattaché à un contact existant ou créé; la proposition de revue est résolue. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageSenderContactResponse"];
+                };
+            };
+        };
+    };
+    postMessageSuggestReply: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Brouillon de réponse éditable, rédigé avec le fil, la fiche du bien et les prochains créneaux libres. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["MessageReplyDraftResponse"];
+                };
+            };
+        };
+    };
     postVocalsUpload: {
         parameters: {
             query?: never;
@@ -3766,6 +6750,28 @@ export interface operations {
             };
         };
     };
+    getVocalInsightSchema: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                vocalType: components["schemas"]["VocalType"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Champs d'insights attendus pour ce type de vocal. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VocalInsightSchemaResponse"];
+                };
+            };
+        };
+    };
     getVocalById: {
         parameters: {
             query?: never;
@@ -3858,6 +6864,54 @@ export interface operations {
             };
         };
     };
+    getVocalProposedChanges: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody?: never;
+        responses: {
+            /** @description Modifications proposées à partir des insights du vocal. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VocalProposedChangesResponse"];
+                };
+            };
+        };
+    };
+    postVocalProposedChangesApply: {
+        parameters: {
+            query?: never;
+            header?: never;
+            path: {
+                id: components["parameters"]["IdParam"];
+            };
+            cookie?: never;
+        };
+        requestBody: {
+            content: {
+                "application/json": components["schemas"]["VocalProposedChangesApplyRequest"];
+            };
+        };
+        responses: {
+            /** @description Champs acceptés appliqués au bien ou au lien prospect. */
+            200: {
+                headers: {
+                    [name: string]: unknown;
+                };
+                content: {
+                    "application/json": components["schemas"]["VocalProposedChangesResponse"];
+                };
+            };
+        };
+    };
     getReviewQueue: {
         parameters: {
             query?: {
@@ -105,7 +105,8 @@ export const MeResponseSchema = z.object({
 
 export const AppSettingsResponseSchema = z.object({
   notaryFeePct: z.number(),
-  aiProvider: z.enum(["openai", "anthropic"]),
+  aiProvider: z.enum(["openai", "anthropic", "local"]),
+  transcriptionProvider: z.enum(["ai-provider", "whisper-local"]),
   valuationAiOutputFormat: z.string(),
   assistantSoul: z.string(),
 });
@@ -113,7 +114,8 @@ export const AppSettingsResponseSchema = z.object({
 export const AppSettingsPatchRequestSchema = z
   .object({
     notaryFeePct: z.number().optional(),
-    aiProvider: z.enum(["openai", "anthropic"]).optional(),
+    aiProvider: z.enum(["openai", "anthropic", "local"]).optional(),
+    transcriptionProvider: z.enum(["ai-provider", "whisper-local"]).optional(),
     valuationAiOutputFormat: z.string().nullable().optional(),
     assistantSoul: z.string().nullable().optional(),
   })
@@ -121,12 +123,14 @@ export const AppSettingsPatchRequestSchema = z
     if (
       typeof value.notaryFeePct === "undefined" &&
       typeof value.aiProvider === "undefined" &&
+      typeof value.transcriptionProvider === "undefined" &&
       typeof value.valuationAiOutputFormat === "undefined" &&
       typeof value.assistantSoul === "undefined"
     ) {
       context.addIssue({
         code: "custom",
-        message: "notaryFeePct ou aiProvider ou valuationAiOutputFormat ou assistantSoul est obligatoire",
+        message:
+          "notaryFeePct ou aiProvider ou transcriptionProvider ou valuationAiOutputFormat ou assistantSoul est obligatoire",
         path: ["notaryFeePct"],
       });
     }
@@ -151,7 +155,7 @@ export const AICallLogListResponseSchema = z.object({
   items: z.array(AICallLogResponseSchema),
 });
 
-export const GlobalSearchItemTypeSchema = z.enum(["PROPERTY", "USER", "VOCAL", "VISIT"]);
+export const GlobalSearchItemTypeSchema = z.enum(["PROPERTY", "USER", "VOCAL", "VISIT", "TASK"]);
 
 export const GlobalSearchItemResponseSchema = z.object({
   type: GlobalSearchItemTypeSchema,
@@ -165,7 +169,7 @@ export const GlobalSearchResponseSchema = z.object({
   items: z.array(GlobalSearchItemResponseSchema),
 });
 
-export const AssistantObjectTypeSchema = z.enum(["bien", "user", "rdv", "lien"]);
+export const AssistantObjectTypeSchema = z.enum(["bien", "user", "rdv", "lien", "tache", "offre"]);
 
 export const AssistantCitationResponseSchema = z.object({
   title: z.string(),
@@ -267,11 +271,14 @@ export const ObjectDataFieldDefinitionSchema = z.object({
 
 export const ObjectDataStructureResponseSchema = z.array(ObjectDataFieldDefinitionSchema);
 
-export const LinkObjectTypeSchema = z.enum(["bien", "user", "rdv"]);
+export const LinkObjectTypeSchema = z.enum(["bien", "user", "rdv", "offre", "message"]);
 export const LinkTypeSchema = z.enum([
   "bien_user",
   "rdv_bien",
   "rdv_user",
+  "offre_bien",
+  "offre_user",
+  "message_user",
 ]);
 
 export const LinkTypeDefinitionSchema = z.object({
@@ -325,6 +332,8 @@ export const LinkRelatedResponseSchema = z.object({
     bien: z.array(z.unknown()),
     user: z.array(z.unknown()),
     rdv: z.array(z.unknown()),
+    offre: z.array(z.unknown()),
+    message: z.array(z.unknown()),
   }),
 });
 
@@ -457,6 +466,7 @@ export const PropertyListResponseSchema = z.object({
 
 export const PropertyStatusUpdateRequestSchema = z.object({
   status: PropertyStatusSchema,
+  force: z.boolean().optional(),
 });
 
 export const PropertyParticipantCreateRequestSchema = z.object({
@@ -501,6 +511,7 @@ export const PropertyProspectListResponseSchema = z.object({
 
 export const PropertyVisitCreateRequestSchema = z.object({
   prospectUserId: z.string(),
+  agentUserId: z.string().min(1).nullable().optional(),
   startsAt: z.iso.datetime(),
   endsAt: z.iso.datetime(),
 });
@@ -515,6 +526,7 @@ export const PropertyVisitResponseSchema = z.object({
   propertyId: z.string(),
   propertyTitle: z.string(),
   prospectUserId: z.string(),
+  agentUserId: z.string().nullable(),
   prospectFirstName: z.string(),
   prospectLastName: z.string(),
   prospectEmail: z.email().nullable(),
@@ -524,14 +536,194 @@ export const PropertyVisitResponseSchema = z.object({
   compteRendu: z.string().nullable(),
   bonDeVisiteFileId: z.string().nullable(),
   bonDeVisiteFileName: z.string().nullable(),
+  bonDeVisiteSignedAt: z.iso.datetime().nullable(),
+  bonDeVisiteSha256: z.string().nullable(),
   createdAt: z.iso.datetime(),
   updatedAt: z.iso.datetime(),
 });
 
+export const BonDeVisiteSignaturePointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
+export const BonDeVisiteSignRequestSchema = z.object({
+  width: z.number().min(1).max(4000),
+  height: z.number().min(1).max(4000),
+  strokes: z.array(z.array(BonDeVisiteSignaturePointSchema).max(2000)).min(1).max(500),
+});
+
 export const PropertyVisitListResponseSchema = z.object({
   items: z.array(PropertyVisitResponseSchema),
 });
 
+export const VisitFeedbackInterestLevelSchema = z.enum(["LOW", "MEDIUM", "HIGH"]);
+
+export const VisitFeedbackPerceivedPriceSchema = z.enum(["TOO_HIGH", "FAIR", "LOW"]);
+
+export const VisitFeedbackOfferIntentionSchema = z.enum(["YES", "MAYBE", "NO"]);
+
+export const VisitFeedbackSourceSchema = z.enum(["MANUAL", "AI"]);
+
+const VisitFeedbackPointSchema = z.string().trim().min(1).max(200);
+
+export const VisitFeedbackUpsertRequestSchema = z.object({
+  interestLevel: VisitFeedbackInterestLevelSchema.nullable().optional(),
+  perceivedPrice: VisitFeedbackPerceivedPriceSchema.nullable().optional(),
+  positives: z.array(VisitFeedbackPointSchema).max(10).optional(),
+  negatives: z.array(VisitFeedbackPointSchema).max(10).optional(),
+  offerIntention: VisitFeedbackOfferIntentionSchema.nullable().optional(),
+});
+
+export const VisitFeedbackResponseSchema = z.object({
+  visitId: z.string(),
+  propertyId: z.string(),
+  interestLevel: VisitFeedbackInterestLevelSchema.nullable(),
+  perceivedPrice: VisitFeedbackPerceivedPriceSchema.nullable(),
+  positives: z.array(z.string()),
+  negatives: z.array(z.string()),
+  offerIntention: VisitFeedbackOfferIntentionSchema.nullable(),
+  source: VisitFeedbackSourceSchema,
+  vocalId: z.string().nullable(),
+  confidence: z.number().nullable(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const VisitFeedbackExtractRequestSchema = z.object({
+  vocalId: z.string().min(1),
+});
+
+export const VisitFeedbackExtractResponseSchema = z.object({
+  status: z.enum(["UPDATED", "REVIEW_REQUIRED", "SKIPPED"]),
+  reason: z.string().nullable(),
+  feedback: VisitFeedbackResponseSchema.nullable(),
+});
+
+export const SellerReportCreateRequestSchema = z.object({
+  from: z.iso.datetime().optional(),
+  to: z.iso.datetime().optional(),
+});
+
+export const SellerReportPointCountSchema = z.object({
+  label: z.string(),
+  count: z.number().int(),
+});
+
+export const SellerReportPeriodStatsSchema = z.object({
+  visits: z.number().int(),
+  feedbackCount: z.number().int(),
+  interestLevels: z.object({ LOW: z.number().int(), MEDIUM: z.number().int(), HIGH: z.number().int() }),
+  perceivedPrices: z.object({ TOO_HIGH: z.number().int(), FAIR: z.number().int(), LOW: z.number().int() }),
+  offerIntentions: z.object({ YES: z.number().int(), MAYBE: z.number().int(), NO: z.number().int() }),
+  topPositives: z.array(SellerReportPointCountSchema),
+  topNegatives: z.array(SellerReportPointCountSchema),
+});
+
+export const SellerReportComparablesSchema = z.object({
+  count: z.number().int(),
+  askingPrice: z.number().nullable(),
+  medianPrice: z.number().nullable(),
+  medianPricePerM2: z.number().nullable(),
+  deviationPct: z.number().nullable(),
+  pricingPosition: z.enum(["UNDER_PRICED", "NORMAL", "OVER_PRICED", "UNKNOWN"]),
+});
+
+export const SellerReportResponseSchema = z.object({
+  propertyId: z.string(),
+  fileId: z.string(),
+  fileName: z.string(),
+  periodStart: z.iso.datetime(),
+  periodEnd: z.iso.datetime(),
+  generatedAt: z.iso.datetime(),
+  current: SellerReportPeriodStatsSchema,
+  previous: SellerReportPeriodStatsSchema,
+  comparables: SellerReportComparablesSchema.nullable(),
+  ownerEmails: z.array(z.string()),
+});
+
+export const VisitSlotSchema = z.object({
+  startsAt: z.iso.datetime(),
+  endsAt: z.iso.datetime(),
+  agentUserId: z.string().nullable(),
+});
+
+export const VisitSlotListResponseSchema = z.object({
+  items: z.array(VisitSlotSchema),
+});
+
+const WorkingHoursTimeSchema = z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/);
+
+export const AgentWorkingHoursRangeSchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  startTime: WorkingHoursTimeSchema,
+  endTime: WorkingHoursTimeSchema,
+});
+
+export const AgentWorkingHoursRequestSchema = z.object({
+  items: z.array(AgentWorkingHoursRangeSchema).max(28),
+});
+
+export const AgentWorkingHoursResponseSchema = z.object({
+  userId: z.string(),
+  isDefault: z.boolean(),
+  items: z.array(AgentWorkingHoursRangeSchema),
+});
+
+export const PropertyBookingLinkUpsertRequestSchema = z.object({
+  enabled: z.boolean().optional(),
+  requiresConfirmation: z.boolean().optional(),
+  rotateToken: z.boolean().optional(),
+});
+
+export const PropertyBookingLinkResponseSchema = z.object({
+  propertyId: z.string(),
+  token: z.string(),
+  enabled: z.boolean(),
+  requiresConfirmation: z.boolean(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const PublicVisitBookingSlotSchema = z.object({
+  startsAt: z.iso.datetime(),
+  endsAt: z.iso.datetime(),
+});
+
+export const PublicVisitBookingPageResponseSchema = z.object({
+  agencyName: z.string(),
+  requiresConfirmation: z.boolean(),
+  durationMinutes: z.number().int(),
+  property: z.object({
+    title: z.string(),
+    city: z.string(),
+    postalCode: z.string(),
+    price: z.number().nullable(),
+    propertyType: z.string().nullable(),
+    livingArea: z.number().nullable(),
+    rooms: z.number().nullable(),
+    dpeClass: z.string().nullable(),
+    description: z.string().nullable(),
+  }),
+  slots: z.array(PublicVisitBookingSlotSchema),
+});
+
+export const PublicVisitBookingRequestSchema = z.object({
+  firstName: z.string().trim().min(1),
+  lastName: z.string().trim().min(1),
+  email: z.email(),
+  phone: z.string().nullable().optional(),
+  startsAt: z.iso.datetime(),
+});
+
+export const PublicVisitBookingResponseSchema = z.object({
+  visitId: z.string(),
+  startsAt: z.iso.datetime(),
+  endsAt: z.iso.datetime(),
+  status: z.enum(["CONFIRMED", "PENDING_CONFIRMATION"]),
+  confirmationEmailSent: z.boolean(),
+});
+
 export const CalendarAppointmentCreateRequestSchema = z.object({
   title: z.string().min(1),
   propertyId: z.string().min(1),
@@ -542,6 +734,14 @@ export const CalendarAppointmentCreateRequestSchema = z.object({
   comment: z.string().nullable().optional(),
 });
 
+export const ClosingDeadlineKindSchema = z.enum([
+  "SRU_RETRACTATION",
+  "CONDITION_PRET",
+  "ACTE_AUTHENTIQUE",
+]);
+
+export const ClosingDeadlineStateSchema = z.enum(["PENDING", "DONE", "OVERDUE"]);
+
 export const CalendarAppointmentResponseSchema = z.object({
   id: z.string(),
   title: z.string(),
@@ -556,13 +756,16 @@ export const CalendarAppointmentResponseSchema = z.object({
   endsAt: z.iso.datetime(),
   createdAt: z.iso.datetime(),
   updatedAt: z.iso.datetime(),
+  kind: z.enum(["MANUAL_APPOINTMENT", "CLOSING_DEADLINE"]).optional(),
+  closingDeadlineKind: ClosingDeadlineKindSchema.optional(),
+  closingDeadlineState: ClosingDeadlineStateSchema.optional(),
 });
 
 export const CalendarAppointmentListResponseSchema = z.object({
   items: z.array(CalendarAppointmentResponseSchema),
 });
 
-export const RdvTypeSchema = z.enum(["RENDEZ_VOUS", "VISITE_BIEN"]);
+export const RdvTypeSchema = z.enum(["RENDEZ_VOUS", "VISITE_BIEN", "ECHEANCE_VENTE"]);
 
 export const RdvResponseSchema = z.object({
   id: z.string(),
@@ -772,6 +975,7 @@ export const TypeDocumentSchema = z.enum([
   "ANNONCE_IMMOBILIERE",
   "AFFICHE_VITRINE",
   "REPORTING_VENDEUR",
+  "BON_VISITE",
   "SIMULATION_FINANCEMENT",
   "ATTESTATION_CAPACITE_EMPRUNT",
   "ACCORD_PRINCIPE_BANCAIRE",
@@ -786,6 +990,391 @@ export const TypeDocumentSchema = z.enum([
 
 export const FileStatusSchema = z.enum(["UPLOADED", "CLASSIFIED", "REVIEW_REQUIRED"]);
 
+export const DocumentChecklistItemSchema = z.object({
+  typeDocument: TypeDocumentSchema,
+  label: z.string(),
+  requirement: z.enum(["MANDATORY", "RECOMMENDED"]),
+  requiredFromStatus: PropertyStatusSchema,
+  reason: z.string(),
+  state: z.enum(["MISSING", "PRESENT", "HIDDEN"]),
+  fileIds: z.array(z.string()),
+  hiddenKey: z.string().nullable(),
+});
+
+export const PropertyDocumentChecklistResponseSchema = z.object({
+  propertyId: z.string(),
+  status: PropertyStatusSchema,
+  missing: z.array(DocumentChecklistItemSchema),
+  present: z.array(DocumentChecklistItemSchema),
+  hidden: z.array(DocumentChecklistItemSchema),
+});
+
+export const StatusWorkflowGuardSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("FIELD"), field: z.string().min(1), label: z.string().optional() }),
+  z.object({
+    type: z.literal("DOCUMENT"),
+    typeDocument: TypeDocumentSchema,
+    label: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal("LINK"),
+    relationRole: z.enum(["OWNER", "PROSPECT", "ACHETEUR"]),
+    label: z.string().optional(),
+  }),
+]);
+
+export const StatusWorkflowTransitionSchema = z.object({
+  from: PropertyStatusSchema,
+  to: PropertyStatusSchema,
+  guards: z.array(StatusWorkflowGuardSchema).default([]),
+});
+
+export const StatusWorkflowResponseSchema = z.object({
+  isDefault: z.boolean(),
+  transitions: z.array(StatusWorkflowTransitionSchema),
+});
+
+export const StatusWorkflowUpdateRequestSchema = z
+  .object({
+    transitions: z.array(StatusWorkflowTransitionSchema).nullable(),
+  })
+  .superRefine((value, context) => {
+    const seen = new Set<string>();
+    for (const [index, transition] of (value.transitions ?? []).entries()) {
+      const key = `${transition.from}->${transition.to}`;
+      if (transition.from === transition.to || seen.has(key)) {
+        context.addIssue({
+          code: "custom",
+          message: `Transition invalide ou dupliquée: ${key}`,
+          path: ["transitions", index],
+        });
+      }
+      seen.add(key);
+    }
+  });
+
+export const TaskStatusSchema = z.enum(["TODO", "IN_PROGRESS", "DONE", "CANCELLED"]);
+
+export const TaskResponseSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  status: TaskStatusSchema,
+  dueAt: z.iso.datetime().nullable(),
+  completedAt: z.iso.datetime().nullable(),
+  propertyId: z.string().nullable(),
+  propertyTitle: z.string().nullable(),
+  assigneeUserId: z.string().nullable(),
+  assigneeFirstName: z.string().nullable(),
+  assigneeLastName: z.string().nullable(),
+  source: z.enum(["MANUAL", "STATUS_TEMPLATE"]),
+  templateKey: z.string().nullable(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const TaskListResponseSchema = z.object({
+  items: z.array(TaskResponseSchema),
+});
+
+export const TaskCreateRequestSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().nullable().optional(),
+  status: TaskStatusSchema.optional(),
+  dueAt: z.iso.datetime().nullable().optional(),
+  propertyId: z.string().nullable().optional(),
+  assigneeUserId: z.string().nullable().optional(),
+});
+
+export const TaskPatchRequestSchema = z
+  .object({
+    title: z.string().min(1).optional(),
+    description: z.string().nullable().optional(),
+    status: TaskStatusSchema.optional(),
+    dueAt: z.iso.datetime().nullable().optional(),
+    propertyId: z.string().nullable().optional(),
+    assigneeUserId: z.string().nullable().optional(),
+  })
+  .refine((value) => Object.values(value).some((field) => field !== undefined), {
+    message: "Au moins un champ est requis",
+  });
+
+export const OfferStatusSchema = z.enum(["SUBMITTED", "COUNTERED", "ACCEPTED", "REJECTED", "EXPIRED"]);
+export const OfferFinancingTypeSchema = z.enum(["COMPTANT", "CREDIT", "MIXTE"]);
+
+export const OfferResponseSchema = z.object({
+  id: z.string(),
+  propertyId: z.string(),
+  propertyTitle: z.string().nullable(),
+  buyerUserId: z.string(),
+  buyerFirstName: z.string().nullable(),
+  buyerLastName: z.string().nullable(),
+  parentOfferId: z.string().nullable(),
+  issuedBy: z.enum(["ACHETEUR", "VENDEUR"]),
+  amount: z.number().int().positive(),
+  financingType: OfferFinancingTypeSchema,
+  conditionsSuspensives: z.array(z.string()),
+  validUntil: z.iso.datetime().nullable(),
+  note: z.string().nullable(),
+  status: OfferStatusSchema,
+  signedFileId: z.string().nullable(),
+  decidedAt: z.iso.datetime().nullable(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const OfferListResponseSchema = z.object({
+  items: z.array(OfferResponseSchema),
+});
+
+export const OfferCreateRequestSchema = z.object({
+  propertyId: z.string().min(1),
+  buyerUserId: z.string().min(1),
+  amount: z.number().int().positive(),
+  financingType: OfferFinancingTypeSchema,
+  conditionsSuspensives: z.array(z.string()).optional(),
+  validUntil: z.iso.datetime().nullable().optional(),
+  note: z.string().nullable().optional(),
+});
+
+export const OfferCounterRequestSchema = z.object({
+  amount: z.number().int().positive(),
+  financingType: OfferFinancingTypeSchema.optional(),
+  conditionsSuspensives: z.array(z.string()).optional(),
+  validUntil: z.iso.datetime().nullable().optional(),
+  note: z.string().nullable().optional(),
+});
+
+export const OfferAcceptRequestSchema = z.object({
+  signedFileId: z.string().min(1),
+});
+
+export const OfferRejectRequestSchema = z.object({
+  note: z.string().nullable().optional(),
+});
+
+export const ClosingDeadlineResponseSchema = z.object({
+  kind: ClosingDeadlineKindSchema,
+  label: z.string(),
+  dueDate: z.iso.date(),
+  computed: z.boolean(),
+  daysRemaining: z.number().int(),
+  requiredTypeDocument: TypeDocumentSchema.nullable(),
+  documentPresent: z.boolean(),
+  state: ClosingDeadlineStateSchema,
+});
+
+export const ClosingTrackerResponseSchema = z.object({
+  propertyId: z.string(),
+  propertyTitle: z.string(),
+  status: PropertyStatusSchema,
+  compromisSignatureDate: z.string().nullable(),
+  deadlines: z.array(ClosingDeadlineResponseSchema),
+});
+
+export const PropertyCommissionResponseSchema = z.object({
+  propertyId: z.string(),
+  feesAmount: z.number().int().nonnegative(),
+  feesResponsibility: z.enum(["VENDEUR", "ACQUEREUR"]).nullable(),
+  listingAgentUserId: z.string().nullable(),
+  listingAgentAmount: z.number().int().nonnegative(),
+  sellingAgentUserId: z.string().nullable(),
+  sellingAgentAmount: z.number().int().nonnegative(),
+  agencyAmount: z.number().int().nonnegative(),
+  configured: z.boolean(),
+  updatedAt: z.iso.datetime().nullable(),
+});
+
+export const PropertyCommissionUpsertRequestSchema = z.object({
+  feesAmount: z.number().int().nonnegative().optional(),
+  listingAgentUserId: z.string().nullable().optional(),
+  listingAgentAmount: z.number().int().nonnegative().optional(),
+  sellingAgentUserId: z.string().nullable().optional(),
+  sellingAgentAmount: z.number().int().nonnegative().optional(),
+  agencyAmount: z.number().int().nonnegative().optional(),
+});
+
+const RevenueReportBucketShape = {
+  signedFees: z.number().int(),
+  collectedFees: z.number().int(),
+  signedCount: z.number().int().nonnegative(),
+  collectedCount: z.number().int().nonnegative(),
+};
+
+export const RevenueReportResponseSchema = z.object({
+  from: z.iso.datetime().nullable(),
+  to: z.iso.datetime().nullable(),
+  totals: z.object({
+    ...RevenueReportBucketShape,
+    agencySignedFees: z.number().int(),
+    agencyCollectedFees: z.number().int(),
+  }),
+  byMonth: z.array(z.object({ month: z.string(), ...RevenueReportBucketShape })),
+  byAgent: z.array(
+    z.object({
+      userId: z.string(),
+      firstName: z.string().nullable(),
+      lastName: z.string().nullable(),
+      ...RevenueReportBucketShape,
+    }),
+  ),
+  byCity: z.array(z.object({ city: z.string(), ...RevenueReportBucketShape })),
+});
+
+export const PipelineReportResponseSchema = z.object({
+  generatedAt: z.iso.datetime(),
+  filters: z.object({
+    agentUserId: z.string().nullable(),
+    city: z.string().nullable(),
+    propertyType: ComparablePropertyTypeSchema.nullable(),
+    staleAfterDays: z.number().int().positive(),
+  }),
+  propertyCount: z.number().int().nonnegative(),
+  statusDurations: z.array(
+    z.object({
+      status: PropertyStatusSchema,
+      medianDays: z.number().nonnegative().nullable(),
+      stays: z.number().int().nonnegative(),
+    }),
+  ),
+  conversion: z.object({
+    prospectionCount: z.number().int().nonnegative(),
+    mandatSigneCount: z.number().int().nonnegative(),
+    venduCount: z.number().int().nonnegative(),
+    prospectionToMandatRate: z.number().nonnegative().nullable(),
+    mandatToVenduRate: z.number().nonnegative().nullable(),
+    prospectionToVenduRate: z.number().nonnegative().nullable(),
+  }),
+  columns: z.array(
+    z.object({
+      status: PropertyStatusSchema,
+      total: z.number().int().nonnegative(),
+      stale: z.number().int().nonnegative(),
+    }),
+  ),
+  priceReductions: z.object({
+    soldCount: z.number().int().nonnegative(),
+    reducedCount: z.number().int().nonnegative(),
+    totalReductionAmount: z.number().int().nonnegative(),
+    medianReductionRate: z.number().nonnegative().nullable(),
+    items: z.array(
+      z.object({
+        propertyId: z.string(),
+        title: z.string(),
+        city: z.string(),
+        initialPrice: z.number().int(),
+        finalPrice: z.number().int(),
+        reductionCount: z.number().int().positive(),
+        reductionAmount: z.number().int().positive(),
+        reductionRate: z.number().nonnegative().nullable(),
+      }),
+    ),
+  }),
+});
+
+export const DpeClassSchema = z.enum(["A", "B", "C", "D", "E", "F", "G"]);
+
+export const BuyerSearchUpsertRequestSchema = z.object({
+  budgetMin: z.number().int().nonnegative().nullable().optional(),
+  budgetMax: z.number().int().nonnegative().nullable().optional(),
+  cities: z.array(z.string().min(1)).max(20).optional(),
+  postalCodes: z.array(z.string().regex(/^\d{5}$/)).max(20).optional(),
+  radiusKm: z.number().positive().max(200).nullable().optional(),
+  centerLat: z.number().min(-90).max(90).nullable().optional(),
+  centerLng: z.number().min(-180).max(180).nullable().optional(),
+  propertyType: ComparablePropertyTypeSchema.nullable().optional(),
+  minRooms: z.number().int().positive().nullable().optional(),
+  minLivingArea: z.number().positive().nullable().optional(),
+  requiredAmenities: z.array(z.string().min(1)).optional(),
+  maxDpeClass: DpeClassSchema.nullable().optional(),
+});
+
+export const BuyerSearchResponseSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  budgetMin: z.number().int().nullable(),
+  budgetMax: z.number().int().nullable(),
+  cities: z.array(z.string()),
+  postalCodes: z.array(z.string()),
+  radiusKm: z.number().nullable(),
+  centerLat: z.number().nullable(),
+  centerLng: z.number().nullable(),
+  propertyType: ComparablePropertyTypeSchema.nullable(),
+  minRooms: z.number().int().nullable(),
+  minLivingArea: z.number().nullable(),
+  requiredAmenities: z.array(z.string()),
+  maxDpeClass: DpeClassSchema.nullable(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const BuyerMatchCriterionResultSchema = z.object({
+  criterion: z.enum(["BUDGET", "LOCATION", "PROPERTY_TYPE", "ROOMS", "LIVING_AREA", "AMENITIES", "DPE"]),
+  status: z.enum(["MATCH", "MISMATCH", "UNKNOWN"]),
+});
+
+export const PropertyBuyerMatchListResponseSchema = z.object({
+  items: z.array(
+    z.object({
+      userId: z.string(),
+      firstName: z.string(),
+      lastName: z.string(),
+      email: z.string().nullable(),
+      phone: z.string().nullable(),
+      score: z.number().int().min(0).max(100),
+      criteria: z.array(BuyerMatchCriterionResultSchema),
+      matchedAt: z.iso.datetime(),
+      alertSentAt: z.iso.datetime().nullable(),
+    }),
+  ),
+});
+
+export const BuyerAlertSendRequestSchema = z.object({
+  userIds: z.array(z.string().min(1)).max(100).optional(),
+});
+
+export const BuyerAlertSendResponseSchema = z.object({
+  items: z.array(
+    z.object({
+      userId: z.string(),
+      status: z.enum(["SENT", "ALREADY_SENT", "NO_EMAIL", "NOT_MATCHED", "FAILED"]),
+      messageId: z.string().nullable(),
+    }),
+  ),
+});
+
+export const UserPropertyMatchListResponseSchema = z.object({
+  items: z.array(
+    z.object({
+      propertyId: z.string(),
+      propertyTitle: z.string(),
+      city: z.string(),
+      postalCode: z.string(),
+      price: z.number().int().nullable(),
+      status: PropertyStatusSchema,
+      score: z.number().int().min(0).max(100),
+      criteria: z.array(BuyerMatchCriterionResultSchema),
+      matchedAt: z.iso.datetime(),
+    }),
+  ),
+});
+
+export const MandateRegisterEntryResponseSchema = z.object({
+  id: z.string(),
+  registerNumber: z.number().int().positive(),
+  propertyId: z.string(),
+  mandateType: z.string().nullable(),
+  startDate: z.string().nullable(),
+  endDate: z.string().nullable(),
+  mandatorNames: z.string().nullable(),
+  propertyAddress: z.string(),
+  createdAt: z.iso.datetime(),
+});
+
+export const MandateRegisterListResponseSchema = z.object({
+  items: z.array(MandateRegisterEntryResponseSchema),
+});
+
 export const FileUploadRequestSchema = z.object({
   propertyId: z.string(),
   typeDocument: TypeDocumentSchema.optional(),
@@ -827,16 +1416,24 @@ export const FileDownloadUrlResponseSchema = z.object({
   expiresAt: z.iso.datetime(),
 });
 
-export const MessageChannelSchema = z.enum(["GMAIL", "WHATSAPP", "TELEGRAM"]);
+export const MessageChannelSchema = z.enum(["GMAIL", "WHATSAPP", "TELEGRAM", "EMAIL"]);
+
+export const MessageDirectionSchema = z.enum(["INBOUND", "OUTBOUND"]);
 
 export const MessageAIStatusSchema = z.enum(["PENDING", "PROCESSED", "REVIEW_REQUIRED"]);
 
 export const MessageResponseSchema = z.object({
   id: z.string(),
   channel: MessageChannelSchema,
+  direction: MessageDirectionSchema,
   propertyId: z.string().nullable().optional(),
+  threadId: z.string().nullable().optional(),
   subject: z.string().nullable().optional(),
   body: z.string(),
+  fromAddress: z.string().nullable().optional(),
+  toAddresses: z.array(z.string()),
+  ccAddresses: z.array(z.string()),
+  inReplyTo: z.string().nullable().optional(),
   fileIds: z.array(z.string()).optional(),
   aiStatus: MessageAIStatusSchema,
   receivedAt: z.iso.datetime(),
@@ -851,6 +1448,78 @@ export const MessageUpdateRequestSchema = z.object({
   propertyId: z.string(),
 });
 
+export const MessageThreadUserSchema = z.object({
+  userId: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+});
+
+export const MessageThreadLastMessageSchema = z.object({
+  id: z.string(),
+  direction: MessageDirectionSchema,
+  body: z.string(),
+  receivedAt: z.iso.datetime(),
+});
+
+export const MessageThreadResponseSchema = z.object({
+  id: z.string(),
+  channel: MessageChannelSchema,
+  propertyId: z.string().nullable(),
+  subject: z.string().nullable(),
+  participants: z.array(z.string()),
+  users: z.array(MessageThreadUserSchema),
+  messageCount: z.number().int(),
+  lastMessage: MessageThreadLastMessageSchema.nullable(),
+  summary: z.string().nullable(),
+  summaryUpdatedAt: z.iso.datetime().nullable(),
+  lastActivityAt: z.iso.datetime(),
+});
+
+export const MessageThreadListResponseSchema = z.object({
+  items: z.array(MessageThreadResponseSchema),
+  nextCursor: z.string().nullable().optional(),
+});
+
+export const MessageComposeRequestSchema = z.object({
+  to: z.array(z.email()).min(1).max(50),
+  cc: z.array(z.email()).max(50).optional(),
+  subject: z.string().trim().min(1).max(998),
+  body: z.string().min(1),
+  propertyId: z.string().min(1).optional(),
+  fileIds: z.array(z.string().min(1)).max(20).optional(),
+});
+
+export const MessageReplyRequestSchema = z.object({
+  body: z.string().min(1),
+  to: z.array(z.email()).max(50).optional(),
+  cc: z.array(z.email()).max(50).optional(),
+  subject: z.string().trim().min(1).max(998).optional(),
+  fileIds: z.array(z.string().min(1)).max(20).optional(),
+});
+
+export const MessageSenderContactRequestSchema = z.object({
+  userId: z.string().min(1).optional(),
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+});
+
+export const MessageSenderContactResponseSchema = z.object({
+  messageId: z.string(),
+  userId: z.string(),
+  created: z.boolean(),
+});
+
+export const MessageReplyDraftResponseSchema = z.object({
+  messageId: z.string(),
+  propertyId: z.string(),
+  channel: MessageChannelSchema,
+  subject: z.string().nullable(),
+  body: z.string(),
+  visitSlots: z.array(VisitSlotSchema),
+});
+
 export const VocalStatusSchema = z.enum([
   "UPLOADED",
   "TRANSCRIBED",
@@ -878,12 +1547,29 @@ export const VocalUploadRequestSchema = z.object({
 });
 
 export const VocalUpdateRequestSchema = z.object({
-  propertyId: z.string(),
+  propertyId: z.string().optional(),
+  prospectUserId: z.string().nullable().optional(),
+  insights: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const VocalInsightSchemaResponseSchema = z.object({
+  vocalType: VocalTypeSchema,
+  fields: ObjectDataStructureResponseSchema,
+});
+
+export const VocalSpeakerSchema = z.enum(["AGENT", "OTHER", "UNKNOWN"]);
+
+export const VocalTranscriptSegmentSchema = z.object({
+  startMs: z.number().int().min(0),
+  endMs: z.number().int().min(0),
+  speaker: VocalSpeakerSchema,
+  text: z.string(),
 });
 
 export const VocalResponseSchema = z.object({
   id: z.string(),
   propertyId: z.string().nullable().optional(),
+  prospectUserId: z.string().nullable().optional(),
   fileId: z.string(),
   status: VocalStatusSchema,
   vocalType: VocalTypeSchema.nullable().optional(),
@@ -891,6 +1577,7 @@ export const VocalResponseSchema = z.object({
   transcript: z.string().nullable().optional(),
   summary: z.string().nullable().optional(),
   insights: z.record(z.string(), z.unknown()).nullable().optional(),
+  segments: z.array(VocalTranscriptSegmentSchema).nullable().optional(),
   confidence: z.number().nullable().optional(),
   createdAt: z.iso.datetime(),
 });
@@ -900,6 +1587,31 @@ export const VocalListResponseSchema = z.object({
   nextCursor: z.string().nullable().optional(),
 });
 
+export const VocalProposedChangeTargetSchema = z.enum(["bien", "bien_user"]);
+
+export const VocalProposedChangeSchema = z.object({
+  key: z.string(),
+  name: z.string(),
+  type: ObjectDataFieldTypeSchema,
+  options: z.array(ObjectDataFieldOptionSchema).optional(),
+  target: VocalProposedChangeTargetSchema,
+  currentValue: z.unknown(),
+  proposedValue: z.unknown(),
+  changed: z.boolean(),
+});
+
+export const VocalProposedChangesResponseSchema = z.object({
+  vocalId: z.string(),
+  propertyId: z.string().nullable(),
+  prospectUserId: z.string().nullable(),
+  linkId: z.string().nullable(),
+  items: z.array(VocalProposedChangeSchema),
+});
+
+export const VocalProposedChangesApplyRequestSchema = z.object({
+  keys: z.array(z.string().min(1)).min(1),
+});
+
 export const RunAIResponseSchema = z.object({
   jobId: z.string(),
   status: z.literal("QUEUED"),
@@ -907,7 +1619,7 @@ export const RunAIResponseSchema = z.object({
 
 export const ReviewQueueItemResponseSchema = z.object({
   id: z.string(),
-  itemType: z.enum(["MESSAGE", "FILE", "VOCAL"]),
+  itemType: z.enum(["MESSAGE", "FILE", "VOCAL", "PROPERTY", "VISIT"]),
   itemId: z.string(),
   reason: z.string(),
   status: z.enum(["OPEN", "RESOLVED"]),
@@ -1019,6 +1731,32 @@ export const DtoSchemaMap = {
   PropertyVisitPatchRequest: PropertyVisitPatchRequestSchema,
   PropertyVisitResponse: PropertyVisitResponseSchema,
   PropertyVisitListResponse: PropertyVisitListResponseSchema,
+  VisitFeedbackInterestLevel: VisitFeedbackInterestLevelSchema,
+  VisitFeedbackPerceivedPrice: VisitFeedbackPerceivedPriceSchema,
+  VisitFeedbackOfferIntention: VisitFeedbackOfferIntentionSchema,
+  VisitFeedbackSource: VisitFeedbackSourceSchema,
+  VisitFeedbackUpsertRequest: VisitFeedbackUpsertRequestSchema,
+  VisitFeedbackResponse: VisitFeedbackResponseSchema,
+  VisitFeedbackExtractRequest: VisitFeedbackExtractRequestSchema,
+  VisitFeedbackExtractResponse: VisitFeedbackExtractResponseSchema,
+  SellerReportCreateRequest: SellerReportCreateRequestSchema,
+  SellerReportPointCount: SellerReportPointCountSchema,
+  SellerReportPeriodStats: SellerReportPeriodStatsSchema,
+  SellerReportComparables: SellerReportComparablesSchema,
+  SellerReportResponse: SellerReportResponseSchema,
+  BonDeVisiteSignaturePoint: BonDeVisiteSignaturePointSchema,
+  BonDeVisiteSignRequest: BonDeVisiteSignRequestSchema,
+  VisitSlot: VisitSlotSchema,
+  VisitSlotListResponse: VisitSlotListResponseSchema,
+  AgentWorkingHoursRange: AgentWorkingHoursRangeSchema,
+  AgentWorkingHoursRequest: AgentWorkingHoursRequestSchema,
+  AgentWorkingHoursResponse: AgentWorkingHoursResponseSchema,
+  PropertyBookingLinkUpsertRequest: PropertyBookingLinkUpsertRequestSchema,
+  PropertyBookingLinkResponse: PropertyBookingLinkResponseSchema,
+  PublicVisitBookingSlot: PublicVisitBookingSlotSchema,
+  PublicVisitBookingPageResponse: PublicVisitBookingPageResponseSchema,
+  PublicVisitBookingRequest: PublicVisitBookingRequestSchema,
+  PublicVisitBookingResponse: PublicVisitBookingResponseSchema,
   CalendarAppointmentCreateRequest: CalendarAppointmentCreateRequestSchema,
   CalendarAppointmentResponse: CalendarAppointmentResponseSchema,
   CalendarAppointmentListResponse: CalendarAppointmentListResponseSchema,
@@ -1029,6 +1767,41 @@ export const DtoSchemaMap = {
   PropertyRiskLocation: PropertyRiskLocationSchema,
   PropertyRiskItemResponse: PropertyRiskItemResponseSchema,
   PropertyRiskResponse: PropertyRiskResponseSchema,
+  DocumentChecklistItem: DocumentChecklistItemSchema,
+  PropertyDocumentChecklistResponse: PropertyDocumentChecklistResponseSchema,
+  OfferStatus: OfferStatusSchema,
+  OfferFinancingType: OfferFinancingTypeSchema,
+  OfferResponse: OfferResponseSchema,
+  OfferListResponse: OfferListResponseSchema,
+  OfferCreateRequest: OfferCreateRequestSchema,
+  OfferCounterRequest: OfferCounterRequestSchema,
+  OfferAcceptRequest: OfferAcceptRequestSchema,
+  OfferRejectRequest: OfferRejectRequestSchema,
+  ClosingDeadlineKind: ClosingDeadlineKindSchema,
+  ClosingDeadlineState: ClosingDeadlineStateSchema,
+  ClosingDeadlineResponse: ClosingDeadlineResponseSchema,
+  ClosingTrackerResponse: ClosingTrackerResponseSchema,
+  PropertyCommissionResponse: PropertyCommissionResponseSchema,
+  PropertyCommissionUpsertRequest: PropertyCommissionUpsertRequestSchema,
+  RevenueReportResponse: RevenueReportResponseSchema,
+  PipelineReportResponse: PipelineReportResponseSchema,
+  BuyerSearchUpsertRequest: BuyerSearchUpsertRequestSchema,
+  BuyerSearchResponse: BuyerSearchResponseSchema,
+  PropertyBuyerMatchListResponse: PropertyBuyerMatchListResponseSchema,
+  UserPropertyMatchListResponse: UserPropertyMatchListResponseSchema,
+  BuyerAlertSendRequest: BuyerAlertSendRequestSchema,
+  BuyerAlertSendResponse: BuyerAlertSendResponseSchema,
+  MandateRegisterEntryResponse: MandateRegisterEntryResponseSchema,
+  MandateRegisterListResponse: MandateRegisterListResponseSchema,
+  TaskStatus: TaskStatusSchema,
+  TaskResponse: TaskResponseSchema,
+  TaskListResponse: TaskListResponseSchema,
+  TaskCreateRequest: TaskCreateRequestSchema,
+  TaskPatchRequest: TaskPatchRequestSchema,
+  StatusWorkflowGuard: StatusWorkflowGuardSchema,
+  StatusWorkflowTransition: StatusWorkflowTransitionSchema,
+  StatusWorkflowResponse: StatusWorkflowResponseSchema,
+  StatusWorkflowUpdateRequest: StatusWorkflowUpdateRequestSchema,
   ComparablePropertyType: ComparablePropertyTypeSchema,
   ComparablePricingPosition: ComparablePricingPositionSchema,
   ComparableDataSource: ComparableDataSourceSchema,
@@ -1052,14 +1825,31 @@ export const DtoSchemaMap = {
   FileListResponse: FileListResponseSchema,
   FileDownloadUrlResponse: FileDownloadUrlResponseSchema,
   MessageChannel: MessageChannelSchema,
+  MessageDirection: MessageDirectionSchema,
   MessageAIStatus: MessageAIStatusSchema,
   MessageResponse: MessageResponseSchema,
   MessageListResponse: MessageListResponseSchema,
   MessageUpdateRequest: MessageUpdateRequestSchema,
+  MessageThreadUser: MessageThreadUserSchema,
+  MessageThreadLastMessage: MessageThreadLastMessageSchema,
+  MessageThreadResponse: MessageThreadResponseSchema,
+  MessageThreadListResponse: MessageThreadListResponseSchema,
+  MessageComposeRequest: MessageComposeRequestSchema,
+  MessageReplyRequest: MessageReplyRequestSchema,
+  MessageSenderContactRequest: MessageSenderContactRequestSchema,
+  MessageSenderContactResponse: MessageSenderContactResponseSchema,
+  MessageReplyDraftResponse: MessageReplyDraftResponseSchema,
   VocalStatus: VocalStatusSchema,
   VocalType: VocalTypeSchema,
   VocalUploadRequest: VocalUploadRequestSchema,
   VocalUpdateRequest: VocalUpdateRequestSchema,
+  VocalInsightSchemaResponse: VocalInsightSchemaResponseSchema,
+  VocalProposedChangeTarget: VocalProposedChangeTargetSchema,
+  VocalProposedChange: VocalProposedChangeSchema,
+  VocalProposedChangesResponse: VocalProposedChangesResponseSchema,
+  VocalProposedChangesApplyRequest: VocalProposedChangesApplyRequestSchema,
+  VocalSpeaker: VocalSpeakerSchema,
+  VocalTranscriptSegment: VocalTranscriptSegmentSchema,
   VocalResponse: VocalResponseSchema,
   VocalListResponse: VocalListResponseSchema,
   RunAIResponse: RunAIResponseSchema,
@@ -0,0 +1,28 @@
+export type EmailAttachment = {
+  fileName: string;
+  contentType: string;
+  content: Uint8Array;
+  // Renseigné pour les images affichées dans le corps HTML (cid:...).
+  contentId?: string;
+};
+
+export type EmailMessage = {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+  // Identifiants Message-ID sans chevrons, pour rester dans le fil de la conversation.
+  inReplyTo?: string;
+  references?: string[];
+};
+
+export type EmailSendResult = {
+  messageId: string;
+  from: string;
+};
+
+export interface EmailProvider {
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
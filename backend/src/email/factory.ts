@@ -0,0 +1,50 @@
+import { type GlobalEmailProvider, getGlobalProviderSettings } from "../config/provider-settings";
+import { HttpError } from "../http/errors";
+import type { EmailProvider } from "./email-provider";
+import { SmtpEmailProvider } from "./smtp-email-provider";
+
+type EnvLike = Record<string, string | undefined>;
+
+const DEFAULT_SMTP_PORT = 587;
+
+export const createEmailProvider = (
+  providerKind: GlobalEmailProvider,
+  env: EnvLike = process.env,
+): EmailProvider => {
+  if (providerKind !== "smtp-server") {
+    throw new HttpError(
+      501,
+      "EMAIL_PROVIDER_NOT_SUPPORTED",
+      "Ce fournisseur email ne permet pas encore l'envoi",
+      { provider: providerKind },
+    );
+  }
+
+  const host = env.SMTP_HOST;
+  const from = env.SMTP_FROM;
+
+  if (!host || !from) {
+    throw new HttpError(500, "EMAIL_CONFIG_ERROR", "Configuration SMTP incomplète", {
+      required: ["SMTP_HOST", "SMTP_FROM"],
+    });
+  }
+
+  const port = Number(env.SMTP_PORT ?? DEFAULT_SMTP_PORT);
+  const timeoutMs = Number(env.SMTP_TIMEOUT_MS);
+
+  return new SmtpEmailProvider({
+    host,
+    port: Number.isInteger(port) && port > 0 ? port : DEFAULT_SMTP_PORT,
+    from,
+    secure: env.SMTP_SECURE === "true",
+    username: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : undefined,
+  });
+};
+
+// Pas de singleton: le fournisseur suit les paramètres globaux modifiables à chaud.
+export const getEmailProvider = async (): Promise<EmailProvider> => {
+  const settings = await getGlobalProviderSettings();
+  return createEmailProvider(settings.emailProvider, process.env);
+};
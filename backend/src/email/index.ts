@@ -0,0 +1,4 @@
+export * from "./email-provider";
+export * from "./factory";
+export * from "./mime";
+export * from "./smtp-email-provider";
@@ -0,0 +1,92 @@
+import type { EmailAttachment, EmailMessage } from "./email-provider";
+
+const CRLF = "\r\n";
+
+const toBase64Lines = (content: Uint8Array | string): string => {
+  const encoded = Buffer.from(content).toString("base64");
+  return (encoded.match(/.{1,76}/g) ?? []).join(CRLF);
+};
+
+const encodeHeaderValue = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const sanitizeHeaderValue = (value: string): string => value.replace(/[\r\n]+/g, " ").trim();
+
+const addressList = (addresses: string[]): string =>
+  addresses.map((address) => sanitizeHeaderValue(address)).join(", ");
+
+const createBoundary = (label: string): string => `=_${label}_${crypto.randomUUID().replaceAll("-", "")}`;
+
+const textPart = (contentType: string, content: string): string =>
+  [
+    `Content-Type: ${contentType}; charset=utf-8`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    toBase64Lines(content),
+  ].join(CRLF);
+
+const multipart = (subtype: string, boundary: string, parts: string[]): string =>
+  [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF);
+
+const attachmentPart = (attachment: EmailAttachment): string => {
+  const fileName = sanitizeHeaderValue(attachment.fileName).replaceAll('"', "");
+  return [
+    `Content-Type: ${attachment.contentType}; name="${encodeHeaderValue(fileName)}"`,
+    "Content-Transfer-Encoding: base64",
+    ...(attachment.contentId ? [`Content-ID: <${attachment.contentId}>`] : []),
+    `Content-Disposition: ${attachment.contentId ? "inline" : "attachment"}; filename="${encodeHeaderValue(fileName)}"`,
+    "",
+    toBase64Lines(attachment.content),
+  ].join(CRLF);
+};
+
+export const buildMimeMessage = (input: {
+  from: string;
+  message: EmailMessage;
+  messageId: string;
+  date?: Date;
+}): string => {
+  const { message } = input;
+  const body = message.html
+    ? multipart("alternative", createBoundary("alt"), [
+        textPart("text/plain", message.text),
+        textPart("text/html", message.html),
+      ])
+    : textPart("text/plain", message.text);
+
+  // Seules les images référencées par cid: vont dans multipart/related; les pièces jointes passent en mixed.
+  const attachments = message.attachments ?? [];
+  const inlineAttachments = attachments.filter((attachment) => attachment.contentId);
+  const regularAttachments = attachments.filter((attachment) => !attachment.contentId);
+  const bodyWithInline =
+    inlineAttachments.length === 0
+      ? body
+      : multipart("related", createBoundary("rel"), [body, ...inlineAttachments.map(attachmentPart)]);
+  const content =
+    regularAttachments.length === 0
+      ? bodyWithInline
+      : multipart("mixed", createBoundary("mix"), [bodyWithInline, ...regularAttachments.map(attachmentPart)]);
+
+  const cc = message.cc ?? [];
+  const references = message.references ?? [];
+
+  return [
+    `From: ${sanitizeHeaderValue(input.from)}`,
+    `To: ${addressList(message.to)}`,
+    ...(cc.length > 0 ? [`Cc: ${addressList(cc)}`] : []),
+    `Subject: ${encodeHeaderValue(sanitizeHeaderValue(message.subject))}`,
+    `Date: ${(input.date ?? new Date()).toUTCString()}`,
+    `Message-ID: <${input.messageId}>`,
+    ...(message.inReplyTo ? [`In-Reply-To: <${sanitizeHeaderValue(message.inReplyTo)}>`] : []),
+    ...(references.length > 0
+      ? [`References: ${references.map((reference) => `<${sanitizeHeaderValue(reference)}>`).join(" ")}`]
+      : []),
+    "MIME-Version: 1.0",
+    content,
+  ].join(CRLF);
+};
@@ -0,0 +1,220 @@
+import { connect as connectTcp, type Socket } from "node:net";
+import { connect as connectTls } from "node:tls";
+import { HttpError } from "../http/errors";
+import type { EmailMessage, EmailProvider, EmailSendResult } from "./email-provider";
+import { buildMimeMessage } from "./mime";
+
+type SmtpEmailProviderOptions = {
+  host: string;
+  port: number;
+  from: string;
+  // TLS implicite (port 465). Sinon STARTTLS est négocié dès que le serveur le propose.
+  secure?: boolean;
+  username?: string;
+  password?: string;
+  timeoutMs?: number;
+};
+
+type SmtpReply = {
+  code: number;
+  lines: string[];
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+export const extractAddress = (value: string): string => {
+  const bracketed = value.match(/<([^>]+)>/);
+  return (bracketed ? bracketed[1] : value).trim();
+};
+
+// Transparence SMTP: une ligne commençant par un point est doublée (RFC 5321 §4.5.2).
+const dotStuff = (data: string): string =>
+  data
+    .replace(/\r?\n/g, "\r\n")
+    .split("\r\n")
+    .map((line) => (line.startsWith(".") ? `.${line}` : line))
+    .join("\r\n");
+
+class SmtpConnection {
+  private buffer = "";
+  private readonly replies: SmtpReply[] = [];
+  private pendingLines: string[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(
+    private socket: Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.attach(socket);
+  }
+
+  private attach(socket: Socket) {
+    socket.setTimeout(this.timeoutMs);
+    socket.on("data", (chunk: Buffer | string) => this.onData(chunk.toString()));
+    socket.on("timeout", () => this.fail(new Error("Délai SMTP dépassé")));
+    socket.on("error", (error: Error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("Connexion SMTP fermée")));
+  }
+
+  private detach() {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("timeout");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let newlineIndex = this.buffer.indexOf("\n");
+    while (newlineIndex >= 0) {
+      const line = this.buffer.slice(0, newlineIndex).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newlineIndex + 1);
+      this.pendingLines.push(line.slice(4));
+      // "250-..." annonce une suite, "250 ..." termine la réponse.
+      if (line.charAt(3) !== "-") {
+        this.push({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+      newlineIndex = this.buffer.indexOf("\n");
+    }
+  }
+
+  private push(reply: SmtpReply) {
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+      return;
+    }
+    this.replies.push(reply);
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) {
+      return Promise.resolve(queued);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  async command(line: string, expectedCodes: number[], step = line.split(" ")[0] ?? line) {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCodes, step);
+  }
+
+  async expect(expectedCodes: number[], step: string): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expectedCodes.includes(reply.code)) {
+      throw new HttpError(502, "EMAIL_SEND_FAILED", "Envoi de l'email impossible", {
+        step,
+        code: reply.code,
+        reply: reply.lines.join(" "),
+      });
+    }
+    return reply;
+  }
+
+  async upgradeToTls(host: string) {
+    this.detach();
+    const secureSocket = await new Promise<Socket>((resolve, reject) => {
+      const upgraded = connectTls({ socket: this.socket, servername: host }, () => resolve(upgraded));
+      upgraded.once("error", reject);
+    });
+    this.socket = secureSocket;
+    this.buffer = "";
+    this.attach(secureSocket);
+  }
+
+  close() {
+    this.detach();
+    this.socket.on("error", () => undefined);
+    this.socket.end();
+  }
+}
+
+export class SmtpEmailProvider implements EmailProvider {
+  constructor(private readonly options: SmtpEmailProviderOptions) {}
+
+  private async open(timeoutMs: number): Promise<Socket> {
+    return new Promise((resolve, reject) => {
+      const onConnect = () => {
+        socket.removeListener("error", reject);
+        resolve(socket);
+      };
+      const socket = this.options.secure
+        ? connectTls({ host: this.options.host, port: this.options.port, servername: this.options.host }, onConnect)
+        : connectTcp({ host: this.options.host, port: this.options.port }, onConnect);
+      socket.setTimeout(timeoutMs, () => socket.destroy(new Error("Délai SMTP dépassé")));
+      socket.once("error", reject);
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const domain = extractAddress(this.options.from).split("@")[1] ?? "localhost";
+    const messageId = `${crypto.randomUUID()}@${domain}`;
+
+    let socket: Socket;
+    try {
+      socket = await this.open(timeoutMs);
+    } catch (error) {
+      throw new HttpError(502, "EMAIL_SEND_FAILED", "Envoi de l'email impossible", {
+        step: "CONNECT",
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const connection = new SmtpConnection(socket, timeoutMs);
+    try {
+      await connection.expect([220], "GREETING");
+      const ehlo = await connection.command(`EHLO ${domain}`, [250]);
+
+      if (!this.options.secure && ehlo.lines.some((line) => line.toUpperCase().startsWith("STARTTLS"))) {
+        await connection.command("STARTTLS", [220]);
+        await connection.upgradeToTls(this.options.host);
+        await connection.command(`EHLO ${domain}`, [250]);
+      }
+
+      if (this.options.username) {
+        const credentials = Buffer.from(
+          `\u0000${this.options.username}\u0000${this.options.password ?? ""}`,
+        ).toString("base64");
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${extractAddress(this.options.from)}>`, [250]);
+      for (const recipient of [...message.to, ...(message.cc ?? [])]) {
+        await connection.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251]);
+      }
+      await connection.command("DATA", [354]);
+      const data = buildMimeMessage({ from: this.options.from, message, messageId });
+      await connection.command(`${dotStuff(data)}\r\n.`, [250], "MESSAGE");
+      await connection.command("QUIT", [221]).catch(() => undefined);
+      return { messageId, from: this.options.from };
+    } catch (error) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      throw new HttpError(502, "EMAIL_SEND_FAILED", "Envoi de l'email impossible", {
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      connection.close();
+    }
+  }
+}
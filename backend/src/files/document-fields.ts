@@ -0,0 +1,142 @@
+export type ExtractedDocumentField = {
+  paramName: string;
+  value: string | number;
+};
+
+type FieldRule = {
+  paramName: string;
+  pattern: RegExp;
+  parse: (match: RegExpExecArray) => string | number | null;
+};
+
+const normalize = (value: string): string =>
+  value
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .replace(/[\u00a0\u202f]/g, " ")
+    .toLowerCase();
+
+const AMOUNT = "(\\d{1,3}(?:[ .]\\d{3})+(?:,\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?)";
+
+const parseFrenchNumber = (raw: string | undefined): number | null => {
+  if (!raw) {
+    return null;
+  }
+
+  const compact = raw.replace(/\s/g, "");
+  const normalized = /,\d{1,2}$/.test(compact)
+    ? compact.replace(/\./g, "").replace(",", ".")
+    : /\.\d{3}(\.|$)/.test(compact)
+      ? compact.replace(/\./g, "")
+      : compact;
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const toInt = (group: number) => (match: RegExpExecArray) => {
+  const parsed = parseFrenchNumber(match[group]);
+  return parsed === null ? null : Math.round(parsed);
+};
+
+const toFloat = (group: number) => (match: RegExpExecArray) => {
+  const parsed = parseFrenchNumber(match[group]);
+  return parsed === null ? null : Math.round(parsed * 100) / 100;
+};
+
+const toEnergyClass = (group: number) => (match: RegExpExecArray) =>
+  match[group]?.toUpperCase() ?? null;
+
+const toIsoDate = (match: RegExpExecArray) => {
+  const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (!day || !month || !year || month > 12 || day > 31) {
+    return null;
+  }
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+const FIELD_RULES_BY_TYPE_DOCUMENT: Record<string, FieldRule[]> = {
+  DPE: [
+    {
+      paramName: "dpeClass",
+      pattern: /(?:classe|etiquette) (?:energie|energetique|dpe)\s*:?\s*([a-g])\b/,
+      parse: toEnergyClass(1),
+    },
+    {
+      paramName: "energyConsumption",
+      pattern: new RegExp(`${AMOUNT}\\s*kwh(?:\\s*ep)?\\s*\\/\\s*m(?:2|²)`),
+      parse: toInt(1),
+    },
+    {
+      paramName: "gesClass",
+      pattern: /(?:classe|etiquette) (?:climat|ges)\s*:?\s*([a-g])\b/,
+      parse: toEnergyClass(1),
+    },
+    {
+      paramName: "co2Emission",
+      pattern: new RegExp(`${AMOUNT}\\s*kg\\s*(?:eq\\.?\\s*)?co2\\s*\\/\\s*m(?:2|²)`),
+      parse: toInt(1),
+    },
+    {
+      paramName: "dpeDate",
+      pattern:
+        /(?:date d.etablissement|date de realisation|etabli le|realise le)\s*:?\s*(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/,
+      parse: toIsoDate,
+    },
+  ],
+  TAXE_FONCIERE: [
+    {
+      paramName: "propertyTax",
+      pattern: new RegExp(
+        `(?:montant (?:de votre impot|a payer|total)|total (?:de la |des )?cotisations?)[^0-9]{0,40}${AMOUNT}\\s*(?:€|eur)`,
+      ),
+      parse: toInt(1),
+    },
+  ],
+  LOI_CARREZ: [
+    {
+      paramName: "carrezArea",
+      pattern: new RegExp(
+        `(?:superficie privative(?: totale)?|surface (?:loi )?carrez)[^0-9]{0,40}${AMOUNT}\\s*m(?:2|²)`,
+      ),
+      parse: toFloat(1),
+    },
+  ],
+  MONTANT_CHARGES: [
+    {
+      paramName: "annualChargesEstimate",
+      pattern: new RegExp(`charges[a-z ]{0,30} annuelles[^0-9]{0,40}${AMOUNT}\\s*(?:€|eur)`),
+      parse: toInt(1),
+    },
+    {
+      paramName: "monthlyCharges",
+      pattern: new RegExp(
+        `charges[a-z ]{0,30} (?:mensuelles|par mois)[^0-9]{0,40}${AMOUNT}\\s*(?:€|eur)`,
+      ),
+      parse: toFloat(1),
+    },
+  ],
+};
+
+export const extractDocumentFields = (input: {
+  typeDocument: string;
+  text: string;
+}): ExtractedDocumentField[] => {
+  const rules = FIELD_RULES_BY_TYPE_DOCUMENT[input.typeDocument];
+  if (!rules) {
+    return [];
+  }
+
+  const haystack = normalize(input.text).replace(/[ \t]+/g, " ");
+  const fields: ExtractedDocumentField[] = [];
+
+  for (const rule of rules) {
+    const match = rule.pattern.exec(haystack);
+    const value = match ? rule.parse(match) : null;
+    if (value !== null) {
+      fields.push({ paramName: rule.paramName, value });
+    }
+  }
+
+  return fields;
+};
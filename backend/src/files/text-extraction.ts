@@ -0,0 +1,335 @@
+import { inflateSync } from "node:zlib";
+import { externalFetch } from "../http/external-fetch";
+
+type EnvLike = Record<string, string | undefined>;
+type FetchLike = typeof fetch;
+
+type TextExtractionOptions = {
+  env?: EnvLike;
+  fetchImpl?: FetchLike;
+};
+
+export type FileTextSource = "PDF_TEXT" | "OCR" | "PLAIN_TEXT";
+
+export type FileTextExtractionResult = {
+  text: string | null;
+  source: FileTextSource | null;
+};
+
+const MAX_EXTRACTED_TEXT_LENGTH = 20_000;
+const MIN_MEANINGFUL_PDF_TEXT_LENGTH = 20;
+const DEFAULT_OCR_TIMEOUT_MS = 15_000;
+const TEXT_OPERATORS_WITH_LINE_BREAK = new Set(["Td", "TD", "T*", "Tm", "'", '"', "ET"]);
+
+const normalizeMimeType = (mimeType: string): string =>
+  mimeType
+    .split(";", 1)[0]
+    ?.trim()
+    .toLowerCase() ?? "";
+
+const hasExtension = (fileName: string, extensions: string[]): boolean => {
+  const lowered = fileName.trim().toLowerCase();
+  return extensions.some((extension) => lowered.endsWith(`.${extension}`));
+};
+
+const isPdfFile = (input: { fileName: string; mimeType: string }): boolean =>
+  normalizeMimeType(input.mimeType) === "application/pdf" || hasExtension(input.fileName, ["pdf"]);
+
+const isImageFile = (input: { fileName: string; mimeType: string }): boolean =>
+  normalizeMimeType(input.mimeType).startsWith("image/") ||
+  hasExtension(input.fileName, ["jpg", "jpeg", "png", "tif", "tiff", "webp", "heic"]);
+
+const isPlainTextFile = (input: { fileName: string; mimeType: string }): boolean =>
+  normalizeMimeType(input.mimeType).startsWith("text/") || hasExtension(input.fileName, ["txt"]);
+
+const cleanupExtractedText = (value: string): string | null => {
+  const cleaned = value
+    .replace(/\u0000/g, "")
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\r]+/g, " ").trim())
+    .filter((line) => line.length > 0)
+    .join("\n")
+    .slice(0, MAX_EXTRACTED_TEXT_LENGTH)
+    .trim();
+
+  return cleaned ? cleaned : null;
+};
+
+const countMeaningfulCharacters = (value: string | null): number =>
+  value ? (value.match(/[\p{L}\p{N}]/gu) ?? []).length : 0;
+
+const decodePdfStringBytes = (bytes: number[]): string => {
+  if (bytes.length >= 2 && bytes[0] === 0xfe && bytes[1] === 0xff) {
+    let decoded = "";
+    for (let index = 2; index + 1 < bytes.length; index += 2) {
+      decoded += String.fromCharCode(((bytes[index] ?? 0) << 8) | (bytes[index + 1] ?? 0));
+    }
+    return decoded;
+  }
+
+  return Buffer.from(bytes).toString("latin1");
+};
+
+const readLiteralString = (content: string, start: number): { value: string; end: number } => {
+  const bytes: number[] = [];
+  let depth = 1;
+  let index = start + 1;
+
+  while (index < content.length && depth > 0) {
+    const char = content[index] as string;
+
+    if (char === "\\") {
+      const next = content[index + 1] ?? "";
+      const escapes: Record<string, number> = {
+        n: 0x0a,
+        r: 0x0d,
+        t: 0x09,
+        b: 0x08,
+        f: 0x0c,
+        "(": 0x28,
+        ")": 0x29,
+        "\\": 0x5c,
+      };
+
+      if (next in escapes) {
+        bytes.push(escapes[next] as number);
+        index += 2;
+        continue;
+      }
+
+      const octal = /^[0-7]{1,3}/.exec(content.slice(index + 1, index + 4))?.[0];
+      if (octal) {
+        bytes.push(Number.parseInt(octal, 8) & 0xff);
+        index += 1 + octal.length;
+        continue;
+      }
+
+      index += 2;
+      continue;
+    }
+
+    if (char === "(") {
+      depth += 1;
+    } else if (char === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        break;
+      }
+    }
+
+    bytes.push(char.charCodeAt(0) & 0xff);
+    index += 1;
+  }
+
+  return { value: decodePdfStringBytes(bytes), end: index + 1 };
+};
+
+const readHexString = (content: string, start: number): { value: string; end: number } => {
+  const end = content.indexOf(">", start);
+  const closing = end === -1 ? content.length : end;
+  const hex = content.slice(start + 1, closing).replace(/[^0-9a-fA-F]/g, "");
+  const padded = hex.length % 2 === 0 ? hex : `${hex}0`;
+  const bytes: number[] = [];
+
+  for (let index = 0; index < padded.length; index += 2) {
+    bytes.push(Number.parseInt(padded.slice(index, index + 2), 16));
+  }
+
+  return { value: decodePdfStringBytes(bytes), end: closing + 1 };
+};
+
+const extractTextFromContentStream = (content: string): string => {
+  const parts: string[] = [];
+  let insideTextObject = false;
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index] as string;
+
+    if (char === "%") {
+      const lineEnd = content.indexOf("\n", index);
+      index = lineEnd === -1 ? content.length : lineEnd + 1;
+      continue;
+    }
+
+    if (char === "(") {
+      const literal = readLiteralString(content, index);
+      if (insideTextObject) {
+        parts.push(literal.value);
+      }
+      index = literal.end;
+      continue;
+    }
+
+    if (char === "<" && content[index + 1] !== "<") {
+      const hex = readHexString(content, index);
+      if (insideTextObject) {
+        parts.push(hex.value);
+      }
+      index = hex.end;
+      continue;
+    }
+
+    if (/\s|[[\]<>{}/]/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    const tokenMatch = /^[^\s()<>[\]{}/%]+/.exec(content.slice(index, index + 64));
+    const token = tokenMatch?.[0] ?? char;
+    index += token.length;
+
+    if (token === "BT") {
+      insideTextObject = true;
+      continue;
+    }
+
+    if (insideTextObject && TEXT_OPERATORS_WITH_LINE_BREAK.has(token)) {
+      parts.push("\n");
+    }
+
+    if (token === "ET") {
+      insideTextObject = false;
+    }
+  }
+
+  return parts.join("");
+};
+
+const listPdfStreams = (raw: string): string[] => {
+  const streams: string[] = [];
+  const streamPattern = />>\s*stream\r?\n/g;
+  let match = streamPattern.exec(raw);
+
+  while (match) {
+    const dataStart = match.index + match[0].length;
+    const dataEnd = raw.indexOf("endstream", dataStart);
+    if (dataEnd === -1) {
+      break;
+    }
+
+    const dictionary = raw.slice(raw.lastIndexOf("obj", match.index) + 1, match.index);
+    streamPattern.lastIndex = dataEnd;
+    match = streamPattern.exec(raw);
+
+    if (
+      /\/Subtype\s*\/Image/.test(dictionary) ||
+      /\/(DCTDecode|JPXDecode|CCITTFaxDecode)/.test(dictionary)
+    ) {
+      continue;
+    }
+
+    const data = raw.slice(dataStart, dataEnd).replace(/\r?\n$/, "");
+    if (!/\/FlateDecode/.test(dictionary)) {
+      streams.push(data);
+      continue;
+    }
+
+    try {
+      streams.push(inflateSync(Buffer.from(data, "latin1")).toString("latin1"));
+    } catch {
+      continue;
+    }
+  }
+
+  return streams;
+};
+
+export const extractPdfText = (data: Uint8Array): string | null => {
+  const raw = Buffer.from(data).toString("latin1");
+  if (!raw.startsWith("%PDF")) {
+    return null;
+  }
+
+  const text = listPdfStreams(raw)
+    .filter((stream) => /\bBT\b/.test(stream))
+    .map(extractTextFromContentStream)
+    .join("\n");
+
+  return cleanupExtractedText(text);
+};
+
+const resolveOcrTimeoutMs = (env: EnvLike): number => {
+  const raw = Number(env.OCR_TIMEOUT_MS ?? DEFAULT_OCR_TIMEOUT_MS);
+  return Number.isFinite(raw) && raw > 0 ? Math.floor(raw) : DEFAULT_OCR_TIMEOUT_MS;
+};
+
+export const extractTextWithOcr = async (
+  input: { fileName: string; mimeType: string; data: Uint8Array },
+  options: TextExtractionOptions = {},
+): Promise<string | null> => {
+  const env = options.env ?? process.env;
+  const serviceUrl = env.OCR_SERVICE_URL?.trim();
+  if (!serviceUrl || input.data.byteLength === 0) {
+    return null;
+  }
+
+  const formData = new FormData();
+  formData.append(
+    "file",
+    new File([Buffer.from(input.data)], input.fileName, {
+      type: input.mimeType || "application/octet-stream",
+    }),
+  );
+  formData.append("language", env.OCR_LANGUAGE?.trim() || "fra");
+
+  const headers: Record<string, string> = {};
+  if (env.OCR_API_KEY?.trim()) {
+    headers.Authorization = `Bearer ${env.OCR_API_KEY.trim()}`;
+  }
+
+  const response = await externalFetch({
+    service: "ocr",
+    url: serviceUrl,
+    method: "POST",
+    headers,
+    body: formData,
+    signal: AbortSignal.timeout(resolveOcrTimeoutMs(env)),
+    fetchImpl: options.fetchImpl,
+  });
+
+  if (!response.ok) {
+    throw new Error(`OCR failed (${response.status})`);
+  }
+
+  const payload = (await response.json()) as { text?: unknown };
+  return typeof payload.text === "string" ? cleanupExtractedText(payload.text) : null;
+};
+
+export const extractFileText = async (
+  input: { fileName: string; mimeType: string; data: Uint8Array },
+  options: TextExtractionOptions = {},
+): Promise<FileTextExtractionResult> => {
+  if (input.data.byteLength === 0) {
+    return { text: null, source: null };
+  }
+
+  if (isPlainTextFile(input)) {
+    const text = cleanupExtractedText(new TextDecoder().decode(input.data));
+    return { text, source: text ? "PLAIN_TEXT" : null };
+  }
+
+  const isPdf = isPdfFile(input);
+  const fallbackPdfText = isPdf ? extractPdfText(input.data) : null;
+  if (isPdf) {
+    if (countMeaningfulCharacters(fallbackPdfText) >= MIN_MEANINGFUL_PDF_TEXT_LENGTH) {
+      return { text: fallbackPdfText, source: "PDF_TEXT" };
+    }
+  } else if (!isImageFile(input)) {
+    return { text: null, source: null };
+  }
+
+  try {
+    const ocrText = await extractTextWithOcr(input, options);
+    if (ocrText) {
+      return { text: ocrText, source: "OCR" };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[FILES][OCR] extraction failed file=${input.fileName} error=${message}`);
+  }
+
+  return fallbackPdfText
+    ? { text: fallbackPdfText, source: "PDF_TEXT" }
+    : { text: null, source: null };
+};
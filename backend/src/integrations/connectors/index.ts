@@ -1,3 +1,4 @@
 export * from "./factory";
 export * from "./mock-connectors";
+export * from "./smtp-email-connector";
 export * from "./types";
@@ -5,6 +5,8 @@ import type {
   ImportedCalendarEvent,
   ImportedMessage,
   OAuthTokenSet,
+  OutgoingEmail,
+  SentEmail,
   WhatsAppConnector,
 } from "./types";
 
@@ -37,6 +39,10 @@ const gmailMessages: ImportedMessage[] = [
     subject: "Appartement Lyon 69003",
     body: "Bonjour, je souhaite visiter l'appartement T3 lumineux à Lyon 69003.",
     receivedAt: new Date("2026-02-20T10:00:00.000Z"),
+    from: "Camille Martin <camille.martin@example.com>",
+    to: ["agence@example.com"],
+    messageIdHeader: "gmail-msg-1@mail.example.com",
+    threadId: "gmail_thread_1",
     attachments: [
       {
         externalId: "gmail_att_1",
@@ -51,6 +57,11 @@ const gmailMessages: ImportedMessage[] = [
     subject: "Question mandat",
     body: "Pouvez-vous partager le mandat signé et la taxe foncière ?",
     receivedAt: new Date("2026-02-21T10:00:00.000Z"),
+    from: "Bernard Lefevre <bernard.lefevre@example.com>",
+    to: ["agence@example.com"],
+    cc: ["Maître Durand <notaire.durand@example.com>"],
+    messageIdHeader: "gmail-msg-2@mail.example.com",
+    threadId: "gmail_thread_2",
     attachments: [
       {
         externalId: "gmail_att_2",
@@ -71,6 +82,11 @@ const gmailMessages: ImportedMessage[] = [
     subject: "Offre d'achat",
     body: "Je peux proposer 345000 euros si la visite se passe bien.",
     receivedAt: new Date("2026-02-22T10:00:00.000Z"),
+    from: "Camille Martin <camille.martin@example.com>",
+    to: ["agence@example.com"],
+    messageIdHeader: "gmail-msg-3@mail.example.com",
+    threadId: "gmail_thread_1",
+    references: ["gmail-msg-1@mail.example.com"],
     attachments: [],
   },
 ];
@@ -80,12 +96,18 @@ const whatsappMessages: ImportedMessage[] = [
     externalId: "wa_msg_1",
     body: "Bonjour, disponible pour visite demain ?",
     receivedAt: new Date("2026-02-20T14:00:00.000Z"),
+    threadId: "wa_chat_1",
+    from: "+33 6 12 34 56 78",
+    to: ["+33 1 23 45 67 89"],
     attachments: [],
   },
   {
     externalId: "wa_msg_2",
     body: "Je vous envoie la pièce d'identité",
     receivedAt: new Date("2026-02-21T14:00:00.000Z"),
+    threadId: "wa_chat_1",
+    from: "+33 6 12 34 56 78",
+    to: ["+33 1 23 45 67 89"],
     attachments: [
       {
         externalId: "wa_att_1",
@@ -126,6 +148,15 @@ export class MockGmailConnector implements GmailConnector {
       messages: chunk,
     };
   }
+
+  async sendMessage(_input: { accessToken?: string; message: OutgoingEmail }): Promise<SentEmail> {
+    const id = crypto.randomUUID();
+    return {
+      externalId: `gmail_sent_${id}`,
+      messageIdHeader: `${id}@mail.example.com`,
+      from: "agence@example.com",
+    };
+  }
 }
 
 export class MockCalendarConnector implements CalendarConnector {
@@ -0,0 +1,26 @@
+import type { EmailProvider } from "../../email";
+import type { EmailSendConnector, OutgoingEmail, SentEmail } from "./types";
+
+// Envoi sans compte Google: le message part par le serveur SMTP de l'agence.
+export class SmtpEmailConnector implements EmailSendConnector {
+  constructor(private readonly provider: EmailProvider) {}
+
+  async sendMessage(input: { accessToken?: string; message: OutgoingEmail }): Promise<SentEmail> {
+    const { message } = input;
+    const sent = await this.provider.send({
+      to: message.to,
+      cc: message.cc,
+      subject: message.subject,
+      text: message.body,
+      inReplyTo: message.inReplyTo,
+      references: message.references,
+      attachments: message.attachments.map((attachment) => ({
+        fileName: attachment.fileName,
+        contentType: attachment.mimeType,
+        content: attachment.content,
+      })),
+    });
+
+    return { externalId: sent.messageId, messageIdHeader: sent.messageId, from: sent.from };
+  }
+}
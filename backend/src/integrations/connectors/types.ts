@@ -24,8 +24,43 @@ export type ImportedMessage = {
   body: string;
   receivedAt: Date;
   attachments: ImportedAttachment[];
+  // Fil côté fournisseur: thread Gmail ou conversation WhatsApp.
+  threadId?: string;
+  // Correspondants: adresses email ("Nom <adresse>") ou numéros de téléphone.
+  from?: string;
+  to?: string[];
+  cc?: string[];
+  // En-têtes email (Message-ID, References) sans chevrons.
+  messageIdHeader?: string;
+  references?: string[];
 };
 
+export type OutgoingAttachment = {
+  fileName: string;
+  mimeType: string;
+  content: Uint8Array;
+};
+
+export type OutgoingEmail = {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  body: string;
+  inReplyTo?: string;
+  references?: string[];
+  attachments: OutgoingAttachment[];
+};
+
+export type SentEmail = {
+  externalId: string;
+  messageIdHeader: string;
+  from: string;
+};
+
+export interface EmailSendConnector {
+  sendMessage(input: { accessToken?: string; message: OutgoingEmail }): Promise<SentEmail>;
+}
+
 export type ImportedCalendarEvent = {
   externalId: string;
   title: string;
@@ -34,7 +69,7 @@ export type ImportedCalendarEvent = {
   payload?: Record<string, unknown>;
 };
 
-export interface GmailConnector {
+export interface GmailConnector extends EmailSendConnector {
   exchangeCodeForTokens(input: ConnectInput): Promise<OAuthTokenSet>;
   syncMessages(input: {
     cursor?: string;
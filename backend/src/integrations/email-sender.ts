@@ -0,0 +1,43 @@
+import { and, eq } from "drizzle-orm";
+import { getGlobalProviderSettings } from "../config/provider-settings";
+import { db } from "../db/client";
+import { integrations } from "../db/schema";
+import { createEmailProvider } from "../email";
+import { HttpError } from "../http/errors";
+import { getGmailConnector, SmtpEmailConnector, type EmailSendConnector } from "./connectors";
+import { decryptToken } from "./crypto";
+
+export type EmailSender = {
+  connector: EmailSendConnector;
+  accessToken?: string;
+  channel: "GMAIL" | "EMAIL";
+  sourceProvider: string;
+};
+
+// Le fournisseur email global décide du canal: boîte Gmail connectée ou serveur SMTP.
+export const resolveEmailSender = async (orgId: string): Promise<EmailSender> => {
+  const settings = await getGlobalProviderSettings();
+
+  if (settings.emailProvider === "google") {
+    const integration = await db.query.integrations.findFirst({
+      where: and(eq(integrations.orgId, orgId), eq(integrations.provider, "GMAIL")),
+    });
+
+    if (!integration?.accessTokenEnc) {
+      throw new HttpError(400, "INTEGRATION_NOT_CONNECTED", "Intégration GMAIL non connectée");
+    }
+
+    return {
+      connector: getGmailConnector(),
+      accessToken: decryptToken(integration.accessTokenEnc),
+      channel: "GMAIL",
+      sourceProvider: "GMAIL",
+    };
+  }
+
+  return {
+    connector: new SmtpEmailConnector(createEmailProvider(settings.emailProvider)),
+    channel: "EMAIL",
+    sourceProvider: settings.emailProvider,
+  };
+};
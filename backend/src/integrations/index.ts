@@ -1,3 +1,4 @@
 export * from "./connectors";
 export * from "./crypto";
+export * from "./email-sender";
 export * from "./service";
@@ -155,6 +155,12 @@ const syncGmail = async (input: {
       subject: item.subject ?? null,
       body: item.body,
       receivedAt: item.receivedAt,
+      from: item.from,
+      to: item.to,
+      cc: item.cc,
+      messageIdHeader: item.messageIdHeader,
+      references: item.references,
+      threadId: item.threadId,
     });
 
     await enqueueMessageAiJob({ orgId: input.orgId, messageId: message.id });
@@ -268,6 +274,9 @@ const syncWhatsApp = async (input: {
       externalId: item.externalId,
       body: item.body,
       receivedAt: item.receivedAt,
+      from: item.from,
+      to: item.to,
+      threadId: item.threadId,
     });
 
     await enqueueMessageAiJob({ orgId: input.orgId, messageId: message.id });
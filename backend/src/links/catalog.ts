@@ -1,11 +1,14 @@
 import type { ObjectFieldDefinition } from "../object-data/structure";
 
-export type LinkObjectType = "bien" | "user" | "rdv";
+export type LinkObjectType = "bien" | "user" | "rdv" | "offre" | "message";
 
 export type LinkType =
   | "bien_user"
   | "rdv_bien"
-  | "rdv_user";
+  | "rdv_user"
+  | "offre_bien"
+  | "offre_user"
+  | "message_user";
 
 export type LinkTypeDefinition = {
   typeLien: LinkType;
@@ -27,13 +30,63 @@ const relationRoleField: ObjectFieldDefinition = {
   ],
 };
 
+const messageRoleField: ObjectFieldDefinition = {
+  key: "messageRole",
+  name: "Rôle dans le message",
+  group: "relation",
+  type: "select",
+  options: [
+    { value: "FROM", label: "Expéditeur" },
+    { value: "TO", label: "Destinataire" },
+    { value: "CC", label: "Copie" },
+  ],
+};
+
+// Retours acquéreur sur le bien, alimentés à la main ou depuis les insights d'un vocal.
+const buyerFeedbackFields: ObjectFieldDefinition[] = [
+  {
+    key: "interestLevel",
+    name: "Intérêt",
+    group: "feedback",
+    type: "select",
+    options: [
+      { value: "HIGH", label: "Fort" },
+      { value: "MEDIUM", label: "Moyen" },
+      { value: "LOW", label: "Faible" },
+    ],
+  },
+  {
+    key: "perceivedPrice",
+    name: "Prix perçu",
+    group: "feedback",
+    type: "select",
+    options: [
+      { value: "TOO_HIGH", label: "Trop élevé" },
+      { value: "FAIR", label: "Juste" },
+      { value: "LOW", label: "Attractif" },
+    ],
+  },
+  {
+    key: "offerIntention",
+    name: "Intention d'offre",
+    group: "feedback",
+    type: "select",
+    options: [
+      { value: "YES", label: "Oui" },
+      { value: "MAYBE", label: "À réfléchir" },
+      { value: "NO", label: "Non" },
+    ],
+  },
+  { key: "budget", name: "Budget", group: "feedback", type: "int", min: 0 },
+];
+
 const LINK_TYPE_DEFINITIONS: Record<LinkType, LinkTypeDefinition> = {
   bien_user: {
     typeLien: "bien_user",
     name: "Lien bien-utilisateur",
     objectType1: "bien",
     objectType2: "user",
-    paramsSchema: [relationRoleField],
+    paramsSchema: [relationRoleField, ...buyerFeedbackFields],
   },
   rdv_bien: {
     typeLien: "rdv_bien",
@@ -49,6 +102,27 @@ const LINK_TYPE_DEFINITIONS: Record<LinkType, LinkTypeDefinition> = {
     objectType2: "user",
     paramsSchema: [relationRoleField],
   },
+  offre_bien: {
+    typeLien: "offre_bien",
+    name: "Lien offre-bien",
+    objectType1: "offre",
+    objectType2: "bien",
+    paramsSchema: [],
+  },
+  offre_user: {
+    typeLien: "offre_user",
+    name: "Lien offre-acheteur",
+    objectType1: "offre",
+    objectType2: "user",
+    paramsSchema: [relationRoleField],
+  },
+  message_user: {
+    typeLien: "message_user",
+    name: "Lien message-contact",
+    objectType1: "message",
+    objectType2: "user",
+    paramsSchema: [messageRoleField],
+  },
 };
 
 const cloneFieldDefinition = (field: ObjectFieldDefinition): ObjectFieldDefinition => ({
@@ -63,12 +137,19 @@ const cloneLinkTypeDefinition = (definition: LinkTypeDefinition): LinkTypeDefini
 });
 
 export const isLinkObjectType = (value: unknown): value is LinkObjectType =>
-  value === "bien" || value === "user" || value === "rdv";
+  value === "bien" ||
+  value === "user" ||
+  value === "rdv" ||
+  value === "offre" ||
+  value === "message";
 
 export const isLinkType = (value: unknown): value is LinkType =>
   value === "bien_user" ||
   value === "rdv_bien" ||
-  value === "rdv_user";
+  value === "rdv_user" ||
+  value === "offre_bien" ||
+  value === "offre_user" ||
+  value === "message_user";
 
 export const getLinkTypeDefinition = (typeLien: string): LinkTypeDefinition | null => {
   if (!isLinkType(typeLien)) {
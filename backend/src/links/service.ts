@@ -1,9 +1,19 @@
 import { and, desc, eq, inArray, lt, or } from "drizzle-orm";
 import { calendarService } from "../calendar/service";
 import { db } from "../db/client";
-import { businessLinks, calendarEvents, properties, propertyVisits, users } from "../db/schema";
+import {
+  businessLinks,
+  calendarEvents,
+  messages,
+  offers,
+  properties,
+  propertyVisits,
+  users,
+} from "../db/schema";
 import { HttpError } from "../http/errors";
 import type { ObjectFieldDefinition } from "../object-data/structure";
+import { messagesService } from "../messages/service";
+import { offersService } from "../offers/service";
 import { propertiesService } from "../properties/service";
 import { usersService } from "../users/service";
 import {
@@ -235,6 +245,26 @@ const assertLinkObjectExists = async (input: {
     }
     return;
   }
+
+  if (input.objectType === "offre") {
+    const found = await db.query.offers.findFirst({
+      where: and(eq(offers.id, input.objectId), eq(offers.orgId, input.orgId)),
+    });
+    if (!found) {
+      throw new HttpError(404, "LINK_OBJECT_NOT_FOUND", "Offre introuvable pour ce lien.");
+    }
+    return;
+  }
+
+  if (input.objectType === "message") {
+    const found = await db.query.messages.findFirst({
+      where: and(eq(messages.id, input.objectId), eq(messages.orgId, input.orgId)),
+    });
+    if (!found) {
+      throw new HttpError(404, "LINK_OBJECT_NOT_FOUND", "Message introuvable pour ce lien.");
+    }
+    return;
+  }
 };
 
 const loadHydratedObject = async (input: {
@@ -257,6 +287,14 @@ const loadHydratedObject = async (input: {
         id: input.objectId,
       });
     }
+
+    if (input.objectType === "offre") {
+      return await offersService.getById({ orgId: input.orgId, id: input.objectId });
+    }
+
+    if (input.objectType === "message") {
+      return await messagesService.getById({ orgId: input.orgId, id: input.objectId });
+    }
   } catch {
     return null;
   }
@@ -530,12 +568,16 @@ export const linksService = {
       bien: [],
       user: [],
       rdv: [],
+      offre: [],
+      message: [],
     };
 
     const toHydrateByType: Record<LinkObjectType, Set<string>> = {
       bien: new Set(),
       user: new Set(),
       rdv: new Set(),
+      offre: new Set(),
+      message: new Set(),
     };
 
     for (const row of allRows) {
@@ -582,6 +624,8 @@ export const linksService = {
       hydrate("bien", [...toHydrateByType.bien]),
       hydrate("user", [...toHydrateByType.user]),
       hydrate("rdv", [...toHydrateByType.rdv]),
+      hydrate("offre", [...toHydrateByType.offre]),
+      hydrate("message", [...toHydrateByType.message]),
     ]);
 
     return {
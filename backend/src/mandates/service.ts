@@ -0,0 +1,364 @@
+import { and, asc, desc, eq, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import {
+  businessLinks,
+  mandateRegisterEntries,
+  organizations,
+  properties,
+  propertyTimelineEvents,
+  users,
+} from "../db/schema";
+import { HttpError } from "../http/errors";
+import { renderTextPdf, type TextPdfLine } from "../pdf/text-pdf";
+import { reviewQueueService } from "../review-queue/service";
+
+type MandateRegisterEntryRow = typeof mandateRegisterEntries.$inferSelect;
+type PropertyRow = typeof properties.$inferSelect;
+
+export const MANDATE_EXPIRY_ALERT_DAYS = [30, 15, 7] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/;
+
+const MANDATE_TYPE_LABELS: Record<string, string> = {
+  SIMPLE: "Simple",
+  EXCLUSIF: "Exclusif",
+  SEMI_EXCLUSIF: "Semi-exclusif",
+};
+
+const normalizeOptionalString = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+};
+
+const parseDetails = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const readMandateDetails = (rawDetails: string) => {
+  const details = parseDetails(rawDetails);
+  const marketing =
+    details.marketing && typeof details.marketing === "object" && !Array.isArray(details.marketing)
+      ? (details.marketing as Record<string, unknown>)
+      : {};
+  const read = (key: string) => normalizeOptionalString(marketing[key] ?? details[key]);
+
+  return {
+    mandateType: read("mandateType"),
+    startDate: read("mandateStartDate"),
+    endDate: read("mandateEndDate"),
+  };
+};
+
+const toUtcDay = (value: string): number | null => {
+  const match = value.match(ISO_DATE_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+};
+
+const daysBetween = (from: Date, toDate: string): number | null => {
+  const target = toUtcDay(toDate);
+  if (target === null) {
+    return null;
+  }
+
+  const today = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+  return Math.round((target - today) / DAY_MS);
+};
+
+const formatPropertyAddress = (property: PropertyRow): string =>
+  [property.address, `${property.postalCode} ${property.city}`]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+
+const listMandatorNames = async (orgId: string, propertyId: string): Promise<string | null> => {
+  const rows = await db
+    .select({ firstName: users.firstName, lastName: users.lastName })
+    .from(businessLinks)
+    .innerJoin(users, and(eq(businessLinks.objectId2, users.id), eq(users.orgId, orgId)))
+    .where(
+      and(
+        eq(businessLinks.orgId, orgId),
+        eq(businessLinks.typeLien, "bien_user"),
+        eq(businessLinks.objectId1, propertyId),
+        sql`json_extract(${businessLinks.params}, '$.relationRole') = 'OWNER'`,
+      ),
+    )
+    .orderBy(asc(businessLinks.createdAt));
+
+  const names = rows
+    .map((row) => `${row.firstName} ${row.lastName}`.trim())
+    .filter((name) => name.length > 0);
+
+  return names.length > 0 ? names.join(", ") : null;
+};
+
+const toMandateRegisterEntryResponse = (row: MandateRegisterEntryRow) => ({
+  id: row.id,
+  registerNumber: row.registerNumber,
+  propertyId: row.propertyId,
+  mandateType: row.mandateType,
+  startDate: row.startDate,
+  endDate: row.endDate,
+  mandatorNames: row.mandatorNames,
+  propertyAddress: row.propertyAddress,
+  createdAt: row.createdAt.toISOString(),
+});
+
+export type MandateRegisterEntryResponse = ReturnType<typeof toMandateRegisterEntryResponse>;
+
+const escapeCsvValue = (value: string | number | null): string => {
+  if (value === null) {
+    return "";
+  }
+
+  const text = String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+const formatRegisterDate = (value: string | null): string => {
+  if (!value) {
+    return "";
+  }
+
+  const match = value.match(ISO_DATE_PATTERN);
+  return match ? `${match[3]}/${match[2]}/${match[1]}` : value;
+};
+
+const REGISTER_COLUMNS = [
+  "Numéro",
+  "Date d'inscription",
+  "Type de mandat",
+  "Début",
+  "Fin",
+  "Mandants",
+  "Adresse du bien",
+] as const;
+
+const toRegisterRow = (entry: MandateRegisterEntryResponse): (string | number)[] => [
+  entry.registerNumber,
+  formatRegisterDate(entry.createdAt),
+  entry.mandateType ? (MANDATE_TYPE_LABELS[entry.mandateType] ?? entry.mandateType) : "",
+  formatRegisterDate(entry.startDate),
+  formatRegisterDate(entry.endDate),
+  entry.mandatorNames ?? "",
+  entry.propertyAddress,
+];
+
+export const mandatesService = {
+  async register(input: { orgId: string; propertyId: string; now?: Date }) {
+    const property = await db.query.properties.findFirst({
+      where: and(eq(properties.id, input.propertyId), eq(properties.orgId, input.orgId)),
+    });
+
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    const mandate = readMandateDetails(property.details);
+    const snapshot = {
+      mandateType: mandate.mandateType,
+      startDate: mandate.startDate,
+      endDate: mandate.endDate,
+      mandatorNames: await listMandatorNames(input.orgId, property.id),
+      propertyAddress: formatPropertyAddress(property),
+    };
+
+    const latest = await db.query.mandateRegisterEntries.findFirst({
+      where: and(
+        eq(mandateRegisterEntries.orgId, input.orgId),
+        eq(mandateRegisterEntries.propertyId, property.id),
+      ),
+      orderBy: [desc(mandateRegisterEntries.registerNumber)],
+    });
+
+    // Un même mandat garde son numéro: on complète l'inscription tant que la date de début ne change pas.
+    if (
+      latest &&
+      (!latest.startDate || !snapshot.startDate || latest.startDate === snapshot.startDate)
+    ) {
+      await db
+        .update(mandateRegisterEntries)
+        .set({
+          mandateType: snapshot.mandateType ?? latest.mandateType,
+          startDate: snapshot.startDate ?? latest.startDate,
+          endDate: snapshot.endDate ?? latest.endDate,
+          mandatorNames: snapshot.mandatorNames ?? latest.mandatorNames,
+          propertyAddress: snapshot.propertyAddress,
+        })
+        .where(eq(mandateRegisterEntries.id, latest.id));
+
+      const refreshed = await db.query.mandateRegisterEntries.findFirst({
+        where: eq(mandateRegisterEntries.id, latest.id),
+      });
+      return toMandateRegisterEntryResponse(refreshed!);
+    }
+
+    const id = crypto.randomUUID();
+    await db.transaction(async (tx) => {
+      const [sequence] = await tx
+        .update(organizations)
+        .set({ mandateRegisterSeq: sql`${organizations.mandateRegisterSeq} + 1` })
+        .where(eq(organizations.id, input.orgId))
+        .returning({ value: organizations.mandateRegisterSeq });
+
+      if (!sequence) {
+        throw new HttpError(404, "ORGANIZATION_NOT_FOUND", "Organisation introuvable");
+      }
+
+      await tx.insert(mandateRegisterEntries).values({
+        id,
+        orgId: input.orgId,
+        propertyId: property.id,
+        registerNumber: sequence.value,
+        ...snapshot,
+        createdAt: input.now ?? new Date(),
+      });
+    });
+
+    const created = await db.query.mandateRegisterEntries.findFirst({
+      where: eq(mandateRegisterEntries.id, id),
+    });
+    return toMandateRegisterEntryResponse(created!);
+  },
+
+  async listRegister(input: { orgId: string }) {
+    const rows = await db
+      .select()
+      .from(mandateRegisterEntries)
+      .where(eq(mandateRegisterEntries.orgId, input.orgId))
+      .orderBy(asc(mandateRegisterEntries.registerNumber));
+
+    return { items: rows.map(toMandateRegisterEntryResponse) };
+  },
+
+  async exportRegisterCsv(input: { orgId: string }): Promise<string> {
+    const { items } = await this.listRegister(input);
+    const lines = [
+      REGISTER_COLUMNS.join(";"),
+      ...items.map((entry) => toRegisterRow(entry).map(escapeCsvValue).join(";")),
+    ];
+
+    return `\ufeff${lines.join("\r\n")}\r\n`;
+  },
+
+  async exportRegisterPdf(input: { orgId: string }): Promise<Uint8Array> {
+    const [{ items }, organization] = await Promise.all([
+      this.listRegister(input),
+      db.query.organizations.findFirst({ where: eq(organizations.id, input.orgId) }),
+    ]);
+
+    const lines: TextPdfLine[] = [
+      { text: "Registre des mandats", bold: true, size: 16 },
+      { text: organization?.name ?? "", size: 11 },
+      { text: `Édité le ${formatRegisterDate(new Date().toISOString())}`, size: 9 },
+      { text: "" },
+    ];
+
+    if (items.length === 0) {
+      lines.push({ text: "Aucun mandat inscrit au registre." });
+    }
+
+    for (const entry of items) {
+      const [number, registeredAt, type, start, end, mandators, address] = toRegisterRow(entry);
+      lines.push(
+        { text: `Mandat n° ${number} · inscrit le ${registeredAt}`, bold: true, size: 10 },
+        { text: `Type: ${type || "-"} · Du ${start || "-"} au ${end || "-"}` },
+        { text: `Mandants: ${mandators || "-"}` },
+        { text: `Bien: ${address}` },
+        { text: "" },
+      );
+    }
+
+    return renderTextPdf({ title: "Registre des mandats", lines });
+  },
+
+  async runExpiryChecks(input: { now?: Date } = {}) {
+    const now = input.now ?? new Date();
+    const summary = { alertsCreated: 0, expiredEvents: 0 };
+    const rows = await db
+      .select()
+      .from(properties)
+      .where(
+        sql`coalesce(json_extract(${properties.details}, '$.marketing.mandateEndDate'), json_extract(${properties.details}, '$.mandateEndDate')) is not null`,
+      );
+
+    for (const property of rows) {
+      const { endDate } = readMandateDetails(property.details);
+      const daysRemaining = endDate ? daysBetween(now, endDate) : null;
+      if (!endDate || daysRemaining === null) {
+        continue;
+      }
+
+      if (daysRemaining >= 0) {
+        const thresholdDays = [...MANDATE_EXPIRY_ALERT_DAYS]
+          .sort((a, b) => a - b)
+          .find((days) => daysRemaining <= days);
+        if (thresholdDays === undefined) {
+          continue;
+        }
+
+        const reason = `MANDATE_EXPIRES_IN_${thresholdDays}_DAYS`;
+        const created = await reviewQueueService.createOpenItemOnce({
+          orgId: property.orgId,
+          itemType: "PROPERTY",
+          itemId: property.id,
+          reason,
+          payload: {
+            propertyTitle: property.title,
+            mandateEndDate: endDate,
+            daysRemaining,
+            thresholdDays,
+          },
+          onceKey: "mandateEndDate",
+        });
+        if (created) {
+          summary.alertsCreated += 1;
+        }
+        continue;
+      }
+
+      if (property.status !== "EN_DIFFUSION") {
+        continue;
+      }
+
+      const alreadyRecorded = await db.query.propertyTimelineEvents.findFirst({
+        where: and(
+          eq(propertyTimelineEvents.propertyId, property.id),
+          eq(propertyTimelineEvents.eventType, "MANDATE_EXPIRED"),
+          sql`json_extract(${propertyTimelineEvents.payload}, '$.mandateEndDate') = ${endDate}`,
+        ),
+      });
+      if (alreadyRecorded) {
+        continue;
+      }
+
+      await db.insert(propertyTimelineEvents).values({
+        id: crypto.randomUUID(),
+        propertyId: property.id,
+        orgId: property.orgId,
+        eventType: "MANDATE_EXPIRED",
+        payload: JSON.stringify({ mandateEndDate: endDate, status: property.status }),
+        createdAt: now,
+      });
+      summary.expiredEvents += 1;
+    }
+
+    return summary;
+  },
+};
@@ -0,0 +1,291 @@
+import { and, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "../db/client";
+import { businessLinks, messages, reviewQueueItems, users } from "../db/schema";
+import { extractAddress } from "../email";
+import { HttpError } from "../http/errors";
+import { messageThreadsService } from "../message-threads/service";
+import { reviewQueueService } from "../review-queue/service";
+import { normalizeFrenchPhone } from "../users/phone";
+import { usersService } from "../users/service";
+
+type MessageRow = typeof messages.$inferSelect;
+type MessageContactRole = "FROM" | "TO" | "CC";
+
+const UNKNOWN_SENDER_REASON = "MESSAGE_UNKNOWN_SENDER";
+
+const parseStringArray = (value: string): string[] => {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const isEmailAddress = (address: string): boolean => address.includes("@");
+
+// Une adresse de correspondant est un email en minuscules ou un téléphone E.164.
+export const normalizeContactAddress = (value: string): string => {
+  const address = extractAddress(value);
+  if (isEmailAddress(address)) {
+    return address.toLowerCase();
+  }
+
+  return normalizeFrenchPhone(address) ?? address.trim();
+};
+
+// "Camille Martin <camille@exemple.fr>" -> "Camille Martin".
+export const parseDisplayName = (value: string): string | null => {
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<[^>]+>\s*$/);
+  const name = match?.[1]?.trim();
+  return name ? name : null;
+};
+
+const splitDisplayName = (name: string): { firstName: string; lastName: string } => {
+  const [firstName = "", ...rest] = name.split(/\s+/);
+  return { firstName, lastName: rest.join(" ") };
+};
+
+const collectAddresses = (row: MessageRow): Map<string, MessageContactRole> => {
+  const roles = new Map<string, MessageContactRole>();
+  const add = (address: string | null, role: MessageContactRole) => {
+    if (address && !roles.has(address)) {
+      roles.set(address, role);
+    }
+  };
+
+  add(row.fromAddress, "FROM");
+  parseStringArray(row.toAddresses).forEach((address) => add(address, "TO"));
+  parseStringArray(row.ccAddresses).forEach((address) => add(address, "CC"));
+  return roles;
+};
+
+// Les téléphones sont saisis librement: la comparaison se fait après normalisation.
+const findUsersByAddresses = async (
+  orgId: string,
+  addresses: string[],
+): Promise<Map<string, string>> => {
+  const matched = new Map<string, string>();
+  const emails = addresses.filter(isEmailAddress);
+  const phones = new Set(addresses.filter((address) => !isEmailAddress(address)));
+
+  if (emails.length > 0) {
+    const rows = await db
+      .select({ id: users.id, email: users.email })
+      .from(users)
+      .where(and(eq(users.orgId, orgId), inArray(sql`lower(${users.email})`, emails)));
+    for (const row of rows) {
+      if (row.email) {
+        matched.set(row.email.toLowerCase(), row.id);
+      }
+    }
+  }
+
+  if (phones.size > 0) {
+    const rows = await db
+      .select({ id: users.id, phone: users.phone })
+      .from(users)
+      .where(and(eq(users.orgId, orgId), isNotNull(users.phone)));
+    for (const row of rows) {
+      const phone = row.phone ? normalizeFrenchPhone(row.phone) : null;
+      if (phone && phones.has(phone) && !matched.has(phone)) {
+        matched.set(phone, row.id);
+      }
+    }
+  }
+
+  return matched;
+};
+
+const linkMessageUser = async (input: {
+  orgId: string;
+  messageId: string;
+  userId: string;
+  role: MessageContactRole;
+}) => {
+  const now = new Date();
+  await db
+    .insert(businessLinks)
+    .values({
+      id: crypto.randomUUID(),
+      orgId: input.orgId,
+      typeLien: "message_user",
+      objectId1: input.messageId,
+      objectId2: input.userId,
+      params: JSON.stringify({ messageRole: input.role }),
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing();
+};
+
+const createContact = async (input: {
+  orgId: string;
+  address: string;
+  firstName: string;
+  lastName: string;
+}): Promise<string> => {
+  const created = await usersService.create({
+    orgId: input.orgId,
+    data: {
+      firstName: input.firstName,
+      lastName: input.lastName,
+      email: isEmailAddress(input.address) ? input.address : null,
+      phone: isEmailAddress(input.address) ? null : input.address,
+      accountType: "CLIENT",
+    },
+  });
+
+  return created.id;
+};
+
+const readProposedName = (payload: string | null): string | null => {
+  try {
+    const parsed = payload ? JSON.parse(payload) : null;
+    return typeof parsed?.displayName === "string" ? parsed.displayName : null;
+  } catch {
+    return null;
+  }
+};
+
+const getMessageRow = async (orgId: string, messageId: string): Promise<MessageRow> => {
+  const row = await db.query.messages.findFirst({
+    where: and(eq(messages.id, messageId), eq(messages.orgId, orgId)),
+  });
+
+  if (!row) {
+    throw new HttpError(404, "MESSAGE_NOT_FOUND", "Message introuvable");
+  }
+
+  return row;
+};
+
+export const messageContactsService = {
+  // Rattache expéditeur et destinataires aux contacts connus. Un expéditeur inconnu qui se présente
+  // (nom affiché) devient un contact CLIENT; sinon il est proposé une seule fois dans la file de revue.
+  async resolveMessage(input: {
+    orgId: string;
+    messageId: string;
+    senderName?: string | null;
+  }): Promise<{ userIds: string[]; createdUserId: string | null; reviewRequired: boolean }> {
+    const row = await getMessageRow(input.orgId, input.messageId);
+    const roles = collectAddresses(row);
+    const matched = await findUsersByAddresses(input.orgId, [...roles.keys()]);
+
+    for (const [address, userId] of matched) {
+      await linkMessageUser({
+        orgId: input.orgId,
+        messageId: row.id,
+        userId,
+        role: roles.get(address) ?? "TO",
+      });
+    }
+
+    const sender = row.direction === "INBOUND" ? row.fromAddress : null;
+    if (!sender || matched.has(sender)) {
+      return { userIds: [...new Set(matched.values())], createdUserId: null, reviewRequired: false };
+    }
+
+    if (input.senderName) {
+      try {
+        const createdUserId = await createContact({
+          orgId: input.orgId,
+          address: sender,
+          ...splitDisplayName(input.senderName),
+        });
+        await linkMessageUser({ orgId: input.orgId, messageId: row.id, userId: createdUserId, role: "FROM" });
+        return {
+          userIds: [...new Set([...matched.values(), createdUserId])],
+          createdUserId,
+          reviewRequired: false,
+        };
+      } catch (error) {
+        // Email déjà pris dans une autre organisation: la décision revient à l'agent.
+        if (!(error instanceof HttpError) || error.status !== 409) {
+          throw error;
+        }
+      }
+    }
+
+    const alreadyProposed = await db.query.reviewQueueItems.findFirst({
+      where: and(
+        eq(reviewQueueItems.orgId, input.orgId),
+        eq(reviewQueueItems.itemType, "MESSAGE"),
+        eq(reviewQueueItems.itemId, row.id),
+        eq(reviewQueueItems.reason, UNKNOWN_SENDER_REASON),
+      ),
+    });
+
+    if (!alreadyProposed) {
+      await reviewQueueService.createOpenItem({
+        orgId: input.orgId,
+        itemType: "MESSAGE",
+        itemId: row.id,
+        reason: UNKNOWN_SENDER_REASON,
+        payload: { address: sender, displayName: input.senderName ?? null },
+      });
+    }
+
+    return { userIds: [...new Set(matched.values())], createdUserId: null, reviewRequired: true };
+  },
+
+  // Traite la proposition de la file de revue: rattacher l'expéditeur à un contact existant ou le créer.
+  async assignSender(input: {
+    orgId: string;
+    messageId: string;
+    userId?: string;
+    firstName?: string;
+    lastName?: string;
+  }) {
+    const row = await getMessageRow(input.orgId, input.messageId);
+    if (row.direction !== "INBOUND" || !row.fromAddress) {
+      throw new HttpError(400, "MESSAGE_SENDER_UNAVAILABLE", "Ce message n'a pas d'expéditeur à rattacher");
+    }
+
+    const openItems = await db
+      .select()
+      .from(reviewQueueItems)
+      .where(
+        and(
+          eq(reviewQueueItems.orgId, input.orgId),
+          eq(reviewQueueItems.itemType, "MESSAGE"),
+          eq(reviewQueueItems.itemId, row.id),
+          eq(reviewQueueItems.reason, UNKNOWN_SENDER_REASON),
+          eq(reviewQueueItems.status, "OPEN"),
+        ),
+      );
+
+    let userId = input.userId;
+    if (userId) {
+      await usersService.getById({ orgId: input.orgId, id: userId });
+    } else {
+      const proposedName = openItems
+        .map((item) => readProposedName(item.payload))
+        .find((name): name is string => Boolean(name));
+      const fallback = proposedName
+        ? splitDisplayName(proposedName)
+        : { firstName: row.fromAddress.split("@")[0] ?? row.fromAddress, lastName: "" };
+      userId = await createContact({
+        orgId: input.orgId,
+        address: row.fromAddress,
+        firstName: input.firstName?.trim() || fallback.firstName,
+        lastName: input.lastName?.trim() || fallback.lastName,
+      });
+    }
+
+    await linkMessageUser({ orgId: input.orgId, messageId: row.id, userId, role: "FROM" });
+    for (const item of openItems) {
+      await reviewQueueService.resolve({
+        orgId: input.orgId,
+        id: item.id,
+        resolution: input.userId ? "CONTACT_LINKED" : "CONTACT_CREATED",
+      });
+    }
+
+    if (row.threadId) {
+      await messageThreadsService.refresh({ orgId: input.orgId, threadId: row.threadId });
+    }
+
+    return { messageId: row.id, userId, created: !input.userId };
+  },
+};
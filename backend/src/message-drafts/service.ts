@@ -0,0 +1,156 @@
+import { and, desc, eq } from "drizzle-orm";
+import { trackAICallFromTelemetrySafe } from "../ai/call-logs";
+import { getAIProviderForOrg } from "../ai/factory";
+import type { DraftMessageReplyProperty } from "../ai/provider";
+import { DEFAULT_ASSISTANT_SOUL } from "../auth/service";
+import { db } from "../db/client";
+import { businessLinks, messages, organizations, properties, users } from "../db/schema";
+import { HttpError } from "../http/errors";
+import type { MessageChannel } from "../messages/service";
+import { parseJsonRecord, readDetail, readNumber, readText } from "../properties/detail-values";
+import { listFreeVisitSlots } from "../properties/visit-slots";
+
+type MessageRow = typeof messages.$inferSelect;
+
+const DRAFT_MAX_MESSAGES = 20;
+
+const toDraftProperty = (row: typeof properties.$inferSelect): DraftMessageReplyProperty => {
+  const details = parseJsonRecord(row.details);
+  return {
+    title: row.title,
+    city: row.city,
+    postalCode: row.postalCode,
+    price: row.price ?? readNumber(readDetail(details, "finance", "salePriceTtc")),
+    propertyType: readText(readDetail(details, "general", "propertyType")),
+    livingArea: readNumber(readDetail(details, "characteristics", "livingArea")),
+    rooms: readNumber(readDetail(details, "characteristics", "rooms")),
+    dpeClass: readText(readDetail(details, "regulation", "dpeClass")),
+    availability: readText(readDetail(details, "finance", "availability")),
+  };
+};
+
+const loadConversation = async (orgId: string, row: MessageRow): Promise<MessageRow[]> => {
+  if (!row.threadId) {
+    return [row];
+  }
+
+  const rows = await db
+    .select()
+    .from(messages)
+    .where(and(eq(messages.orgId, orgId), eq(messages.threadId, row.threadId)))
+    .orderBy(desc(messages.receivedAt))
+    .limit(DRAFT_MAX_MESSAGES);
+
+  return rows.reverse();
+};
+
+const findSenderName = async (orgId: string, messageId: string): Promise<string | null> => {
+  const [sender] = await db
+    .select({ firstName: users.firstName, lastName: users.lastName })
+    .from(businessLinks)
+    .innerJoin(users, eq(users.id, businessLinks.objectId2))
+    .where(
+      and(
+        eq(businessLinks.orgId, orgId),
+        eq(businessLinks.typeLien, "message_user"),
+        eq(businessLinks.objectId1, messageId),
+        eq(businessLinks.params, JSON.stringify({ messageRole: "FROM" })),
+      ),
+    )
+    .limit(1);
+
+  const name = sender ? `${sender.firstName} ${sender.lastName}`.trim() : "";
+  return name ? name : null;
+};
+
+const toReplySubject = (subject: string | null): string | null => {
+  if (!subject) {
+    return null;
+  }
+
+  return /^re\s*:/i.test(subject) ? subject : `Re: ${subject}`;
+};
+
+export const messageDraftsService = {
+  // Brouillon de réponse à relire: fil, fiche du bien, créneaux libres et ton de l'agence.
+  async suggestReply(input: { orgId: string; messageId: string }) {
+    const row = await db.query.messages.findFirst({
+      where: and(eq(messages.id, input.messageId), eq(messages.orgId, input.orgId)),
+    });
+
+    if (!row) {
+      throw new HttpError(404, "MESSAGE_NOT_FOUND", "Message introuvable");
+    }
+
+    if (row.direction !== "INBOUND") {
+      throw new HttpError(
+        400,
+        "MESSAGE_REPLY_DRAFT_UNSUPPORTED",
+        "Seuls les messages reçus peuvent recevoir une suggestion de réponse",
+      );
+    }
+
+    if (!row.propertyId) {
+      throw new HttpError(
+        400,
+        "MESSAGE_PROPERTY_REQUIRED",
+        "Le message doit être rattaché à un bien pour suggérer une réponse",
+      );
+    }
+
+    const property = await db.query.properties.findFirst({
+      where: and(eq(properties.id, row.propertyId), eq(properties.orgId, input.orgId)),
+    });
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    const [conversation, visitSlots, organization, recipientName] = await Promise.all([
+      loadConversation(input.orgId, row),
+      listFreeVisitSlots({ orgId: input.orgId, propertyId: property.id }),
+      db.query.organizations.findFirst({ where: eq(organizations.id, input.orgId) }),
+      findSenderName(input.orgId, row.id),
+    ]);
+
+    const entries = conversation.map((message) => ({
+      direction: message.direction as "INBOUND" | "OUTBOUND",
+      sender: message.fromAddress,
+      sentAt: message.receivedAt.toISOString(),
+      subject: message.subject,
+      body: message.body,
+    }));
+    const draftProperty = toDraftProperty(property);
+
+    const provider = await getAIProviderForOrg(input.orgId);
+    const result = await provider.draftMessageReply({
+      tone: organization?.assistantSoul?.trim() || DEFAULT_ASSISTANT_SOUL,
+      channel: row.channel as MessageChannel,
+      recipientName,
+      messages: entries,
+      property: draftProperty,
+      visitSlots,
+    });
+    await trackAICallFromTelemetrySafe({
+      orgId: input.orgId,
+      useCase: "MESSAGE_REPLY_DRAFT",
+      fallbackPrompt: [
+        "Brouillon de réponse",
+        `messageId: ${row.id}`,
+        `property: ${draftProperty.title}`,
+        `messages: ${entries.length}`,
+        `visitSlots: ${visitSlots.length}`,
+      ].join("\n"),
+      fallbackResponse: result,
+      telemetry: result.telemetry,
+    });
+
+    return {
+      messageId: row.id,
+      propertyId: row.propertyId,
+      channel: row.channel as MessageChannel,
+      subject: toReplySubject(row.subject),
+      body: result.body,
+      visitSlots,
+    };
+  },
+};
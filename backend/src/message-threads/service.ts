@@ -0,0 +1,352 @@
+import { and, asc, desc, eq, inArray, lt } from "drizzle-orm";
+import { trackAICallFromTelemetrySafe } from "../ai/call-logs";
+import { getAIProviderForOrg } from "../ai/factory";
+import { db } from "../db/client";
+import { businessLinks, messageThreads, messageThreadUsers, messages, users } from "../db/schema";
+import { HttpError } from "../http/errors";
+
+type ThreadRow = typeof messageThreads.$inferSelect;
+type MessageRow = typeof messages.$inferSelect;
+
+const SUMMARY_MAX_MESSAGES = 30;
+
+const parseStringArray = (value: string): string[] => {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const parseCursor = (cursor?: string): number | undefined => {
+  if (!cursor) {
+    return undefined;
+  }
+
+  const numericCursor = Number(cursor);
+  if (Number.isNaN(numericCursor) || numericCursor <= 0) {
+    throw new HttpError(400, "INVALID_CURSOR", "Cursor invalide");
+  }
+
+  return numericCursor;
+};
+
+// "Re: Tr: Visite" et "visite" appartiennent au même fil.
+const normalizeSubject = (subject: string | null): string =>
+  (subject ?? "")
+    .replace(/^\s*((re|fwd?|tr)\s*:\s*)+/i, "")
+    .trim()
+    .toLowerCase();
+
+// Les correspondants externes: l'expéditeur d'un message reçu, les destinataires d'un envoi.
+const messageParticipants = (row: MessageRow): string[] =>
+  row.direction === "OUTBOUND"
+    ? [...parseStringArray(row.toAddresses), ...parseStringArray(row.ccAddresses)]
+    : row.fromAddress
+      ? [row.fromAddress]
+      : [];
+
+const participantsKey = (row: MessageRow): string | null => {
+  const participants = [...new Set(messageParticipants(row))].sort();
+  if (participants.length === 0) {
+    return null;
+  }
+
+  const subject = row.channel === "WHATSAPP" || row.channel === "TELEGRAM" ? "" : normalizeSubject(row.subject);
+  return `${row.channel}:participants:${participants.join(",")}|${subject}`;
+};
+
+const findThreadByKey = async (orgId: string, threadKey: string) =>
+  db.query.messageThreads.findFirst({
+    where: and(eq(messageThreads.orgId, orgId), eq(messageThreads.threadKey, threadKey)),
+  });
+
+// Une réponse rejoint le fil du message auquel elle répond, quel que soit le canal d'envoi.
+const findThreadByReferences = async (row: MessageRow): Promise<string | null> => {
+  const headers = [row.inReplyTo, ...parseStringArray(row.references)].filter(
+    (header): header is string => Boolean(header),
+  );
+  if (headers.length === 0) {
+    return null;
+  }
+
+  const referenced = await db
+    .select({ threadId: messages.threadId })
+    .from(messages)
+    .where(and(eq(messages.orgId, row.orgId), inArray(messages.messageIdHeader, headers)))
+    .orderBy(desc(messages.receivedAt));
+
+  return referenced.find((item) => item.threadId)?.threadId ?? null;
+};
+
+const ensureThread = async (row: MessageRow, threadKey: string): Promise<string> => {
+  const now = new Date();
+  await db
+    .insert(messageThreads)
+    .values({
+      id: crypto.randomUUID(),
+      orgId: row.orgId,
+      channel: row.channel,
+      threadKey,
+      propertyId: row.propertyId,
+      subject: row.subject,
+      participants: "[]",
+      messageCount: 0,
+      lastActivityAt: row.receivedAt,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing();
+
+  const thread = await findThreadByKey(row.orgId, threadKey);
+  if (!thread) {
+    throw new HttpError(500, "MESSAGE_THREAD_CREATE_FAILED", "Création du fil de conversation impossible");
+  }
+
+  return thread.id;
+};
+
+// Les contacts du fil sont ceux rattachés à l'un de ses messages (expéditeur, destinataire, copie).
+const linkThreadContacts = async (thread: ThreadRow) => {
+  const linked = await db
+    .selectDistinct({ userId: businessLinks.objectId2 })
+    .from(businessLinks)
+    .where(
+      and(
+        eq(businessLinks.orgId, thread.orgId),
+        eq(businessLinks.typeLien, "message_user"),
+        inArray(
+          businessLinks.objectId1,
+          db
+            .select({ id: messages.id })
+            .from(messages)
+            .where(and(eq(messages.orgId, thread.orgId), eq(messages.threadId, thread.id))),
+        ),
+      ),
+    );
+
+  for (const { userId } of linked) {
+    await db
+      .insert(messageThreadUsers)
+      .values({
+        id: crypto.randomUUID(),
+        orgId: thread.orgId,
+        threadId: thread.id,
+        userId,
+        createdAt: new Date(),
+      })
+      .onConflictDoNothing();
+  }
+};
+
+const toThreadResponse = async (row: ThreadRow) => {
+  const [linkedUsers, lastMessage] = await Promise.all([
+    db
+      .select({
+        userId: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+        phone: users.phone,
+      })
+      .from(messageThreadUsers)
+      .innerJoin(users, eq(users.id, messageThreadUsers.userId))
+      .where(and(eq(messageThreadUsers.orgId, row.orgId), eq(messageThreadUsers.threadId, row.id)))
+      .orderBy(asc(users.lastName), asc(users.firstName)),
+    db.query.messages.findFirst({
+      where: and(eq(messages.orgId, row.orgId), eq(messages.threadId, row.id)),
+      orderBy: [desc(messages.receivedAt)],
+    }),
+  ]);
+
+  return {
+    id: row.id,
+    channel: row.channel as "GMAIL" | "WHATSAPP" | "TELEGRAM" | "EMAIL",
+    propertyId: row.propertyId,
+    subject: row.subject,
+    participants: parseStringArray(row.participants),
+    users: linkedUsers,
+    messageCount: row.messageCount,
+    lastMessage: lastMessage
+      ? {
+          id: lastMessage.id,
+          direction: lastMessage.direction as "INBOUND" | "OUTBOUND",
+          body: lastMessage.body,
+          receivedAt: lastMessage.receivedAt.toISOString(),
+        }
+      : null,
+    summary: row.summary,
+    summaryUpdatedAt: row.summaryUpdatedAt?.toISOString() ?? null,
+    lastActivityAt: row.lastActivityAt.toISOString(),
+  };
+};
+
+const getThreadRow = async (orgId: string, id: string): Promise<ThreadRow> => {
+  const thread = await db.query.messageThreads.findFirst({
+    where: and(eq(messageThreads.id, id), eq(messageThreads.orgId, orgId)),
+  });
+
+  if (!thread) {
+    throw new HttpError(404, "MESSAGE_THREAD_NOT_FOUND", "Conversation introuvable");
+  }
+
+  return thread;
+};
+
+export const messageThreadsService = {
+  async list(input: {
+    orgId: string;
+    limit: number;
+    cursor?: string;
+    propertyId?: string;
+    userId?: string;
+  }) {
+    const cursorValue = parseCursor(input.cursor);
+    const clauses = [eq(messageThreads.orgId, input.orgId)];
+
+    if (cursorValue) {
+      clauses.push(lt(messageThreads.lastActivityAt, new Date(cursorValue)));
+    }
+
+    if (input.propertyId) {
+      clauses.push(eq(messageThreads.propertyId, input.propertyId));
+    }
+
+    if (input.userId) {
+      clauses.push(
+        inArray(
+          messageThreads.id,
+          db
+            .select({ threadId: messageThreadUsers.threadId })
+            .from(messageThreadUsers)
+            .where(
+              and(eq(messageThreadUsers.orgId, input.orgId), eq(messageThreadUsers.userId, input.userId)),
+            ),
+        ),
+      );
+    }
+
+    const rows = await db
+      .select()
+      .from(messageThreads)
+      .where(and(...clauses))
+      .orderBy(desc(messageThreads.lastActivityAt))
+      .limit(input.limit + 1);
+
+    const hasMore = rows.length > input.limit;
+    const sliced = hasMore ? rows.slice(0, input.limit) : rows;
+    const lastItem = sliced.at(-1);
+
+    return {
+      items: await Promise.all(sliced.map((row) => toThreadResponse(row))),
+      nextCursor: hasMore && lastItem ? String(lastItem.lastActivityAt.getTime()) : null,
+    };
+  },
+
+  async getById(input: { orgId: string; id: string }) {
+    return toThreadResponse(await getThreadRow(input.orgId, input.id));
+  },
+
+  // Range un message dans son fil: fil du fournisseur, puis réponse à un message connu, puis participants.
+  async assignMessage(input: {
+    orgId: string;
+    messageId: string;
+    providerThreadId?: string | null;
+  }): Promise<string> {
+    const row = await db.query.messages.findFirst({
+      where: and(eq(messages.id, input.messageId), eq(messages.orgId, input.orgId)),
+    });
+
+    if (!row) {
+      throw new HttpError(404, "MESSAGE_NOT_FOUND", "Message introuvable");
+    }
+
+    let threadId = row.threadId;
+    if (!threadId) {
+      const providerKey = input.providerThreadId
+        ? `${row.channel}:thread:${input.providerThreadId}`
+        : null;
+      threadId =
+        (providerKey ? (await findThreadByKey(row.orgId, providerKey))?.id : null) ??
+        (await findThreadByReferences(row)) ??
+        (await ensureThread(row, providerKey ?? participantsKey(row) ?? `message:${row.id}`));
+
+      await db
+        .update(messages)
+        .set({ threadId })
+        .where(and(eq(messages.id, row.id), eq(messages.orgId, row.orgId)));
+    }
+
+    await messageThreadsService.refresh({ orgId: input.orgId, threadId });
+    return threadId;
+  },
+
+  // Recalcule l'activité, le bien, les participants et les contacts liés à partir des messages du fil.
+  async refresh(input: { orgId: string; threadId: string }) {
+    const thread = await getThreadRow(input.orgId, input.threadId);
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.orgId, input.orgId), eq(messages.threadId, thread.id)))
+      .orderBy(asc(messages.receivedAt));
+
+    const participants = [...new Set(rows.flatMap((row) => messageParticipants(row)))];
+    const latestWithProperty = rows.findLast((row) => row.propertyId);
+    const lastActivityAt = rows.at(-1)?.receivedAt ?? thread.lastActivityAt;
+
+    await db
+      .update(messageThreads)
+      .set({
+        subject: rows.find((row) => row.subject)?.subject ?? thread.subject,
+        propertyId: latestWithProperty?.propertyId ?? thread.propertyId,
+        participants: JSON.stringify(participants),
+        messageCount: rows.length,
+        lastActivityAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(messageThreads.id, thread.id));
+
+    await linkThreadContacts(thread);
+  },
+
+  async summarize(input: { orgId: string; id: string }) {
+    const thread = await getThreadRow(input.orgId, input.id);
+    const rows = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.orgId, input.orgId), eq(messages.threadId, thread.id)))
+      .orderBy(desc(messages.receivedAt))
+      .limit(SUMMARY_MAX_MESSAGES);
+
+    const entries = rows.reverse().map((row) => ({
+      direction: row.direction as "INBOUND" | "OUTBOUND",
+      sender: row.fromAddress,
+      sentAt: row.receivedAt.toISOString(),
+      subject: row.subject,
+      body: row.body,
+    }));
+
+    const provider = await getAIProviderForOrg(input.orgId);
+    const result = await provider.summarizeMessageThread({ subject: thread.subject, messages: entries });
+    await trackAICallFromTelemetrySafe({
+      orgId: input.orgId,
+      useCase: "MESSAGE_THREAD_SUMMARY",
+      fallbackPrompt: [
+        "Résumé conversation",
+        `subject: ${thread.subject ?? ""}`,
+        `messages: ${entries.length}`,
+      ].join("\n"),
+      fallbackResponse: result,
+      telemetry: result.telemetry,
+    });
+
+    const now = new Date();
+    await db
+      .update(messageThreads)
+      .set({ summary: result.summary, summaryUpdatedAt: now, updatedAt: now })
+      .where(eq(messageThreads.id, thread.id));
+
+    return messageThreadsService.getById({ orgId: input.orgId, id: thread.id });
+  },
+};
@@ -1,10 +1,22 @@
-import { and, desc, eq, lt } from "drizzle-orm";
+import { and, desc, eq, inArray, lt } from "drizzle-orm";
 import { db } from "../db/client";
-import { messageFileLinks, messages, properties } from "../db/schema";
+import { businessLinks, files, messageFileLinks, messages, properties } from "../db/schema";
 import { HttpError } from "../http/errors";
+import type { OutgoingAttachment } from "../integrations/connectors";
+import { resolveEmailSender } from "../integrations/email-sender";
+import {
+  messageContactsService,
+  normalizeContactAddress,
+  parseDisplayName,
+} from "../message-contacts/service";
+import { messageThreadsService } from "../message-threads/service";
+import { getStorageProvider } from "../storage";
 
 type MessageRow = typeof messages.$inferSelect;
 
+export type MessageChannel = "GMAIL" | "WHATSAPP" | "TELEGRAM" | "EMAIL";
+export type MessageDirection = "INBOUND" | "OUTBOUND";
+
 const parseCursor = (cursor?: string): number | undefined => {
   if (!cursor) {
     return undefined;
@@ -34,12 +46,29 @@ const getFileIdsByMessageId = async (
   return links.map((link) => link.fileId);
 };
 
+const parseStringArray = (value: string): string[] => {
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const normalizeMessageIdHeader = (value: string): string => value.trim().replace(/^<|>$/g, "");
+
 const toMessageResponse = async (row: MessageRow) => ({
   id: row.id,
-  channel: row.channel as "GMAIL" | "WHATSAPP" | "TELEGRAM",
+  channel: row.channel as MessageChannel,
+  direction: row.direction as MessageDirection,
   propertyId: row.propertyId,
+  threadId: row.threadId,
   subject: row.subject,
   body: row.body,
+  fromAddress: row.fromAddress,
+  toAddresses: parseStringArray(row.toAddresses),
+  ccAddresses: parseStringArray(row.ccAddresses),
+  inReplyTo: row.inReplyTo,
   fileIds: await getFileIdsByMessageId(row.orgId, row.id),
   aiStatus: row.aiStatus as "PENDING" | "PROCESSED" | "REVIEW_REQUIRED",
   receivedAt: row.receivedAt.toISOString(),
@@ -59,13 +88,123 @@ const assertPropertyScope = async (orgId: string, propertyId?: string | null) =>
   }
 };
 
+const loadPropertyAttachments = async (input: {
+  orgId: string;
+  propertyId: string | null;
+  fileIds: string[];
+}): Promise<Array<{ fileId: string; attachment: OutgoingAttachment }>> => {
+  const fileIds = [...new Set(input.fileIds)];
+  if (fileIds.length === 0) {
+    return [];
+  }
+
+  if (!input.propertyId) {
+    throw new HttpError(
+      400,
+      "MESSAGE_ATTACHMENT_PROPERTY_REQUIRED",
+      "Les pièces jointes doivent provenir des documents d'un bien",
+    );
+  }
+
+  const rows = await db
+    .select()
+    .from(files)
+    .where(
+      and(
+        eq(files.orgId, input.orgId),
+        eq(files.propertyId, input.propertyId),
+        inArray(files.id, fileIds),
+      ),
+    );
+
+  const missing = fileIds.filter((fileId) => !rows.some((row) => row.id === fileId));
+  if (missing.length > 0) {
+    throw new HttpError(400, "MESSAGE_ATTACHMENT_INVALID", "Pièce jointe introuvable pour ce bien", {
+      fileIds: missing,
+    });
+  }
+
+  const storage = getStorageProvider();
+  const attachments: Array<{ fileId: string; attachment: OutgoingAttachment }> = [];
+  for (const fileId of fileIds) {
+    const row = rows.find((item) => item.id === fileId)!;
+    try {
+      const object = await storage.getObject(row.storageKey);
+      attachments.push({
+        fileId: row.id,
+        attachment: { fileName: row.fileName, mimeType: row.mimeType, content: object.data },
+      });
+    } catch {
+      throw new HttpError(400, "MESSAGE_ATTACHMENT_UNAVAILABLE", "Contenu de la pièce jointe indisponible", {
+        fileId: row.id,
+      });
+    }
+  }
+
+  return attachments;
+};
+
+const sendEmailMessage = async (input: {
+  orgId: string;
+  propertyId: string | null;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  fileIds: string[];
+  inReplyTo?: string;
+  references: string[];
+}) => {
+  const attachments = await loadPropertyAttachments(input);
+  const sender = await resolveEmailSender(input.orgId);
+  const sent = await sender.connector.sendMessage({
+    accessToken: sender.accessToken,
+    message: {
+      to: input.to,
+      cc: input.cc,
+      subject: input.subject,
+      body: input.body,
+      inReplyTo: input.inReplyTo,
+      references: input.references,
+      attachments: attachments.map((item) => item.attachment),
+    },
+  });
+
+  const recorded = await messagesService.recordOutboundMessage({
+    orgId: input.orgId,
+    propertyId: input.propertyId,
+    channel: sender.channel,
+    sourceProvider: sender.sourceProvider,
+    externalId: sent.externalId,
+    subject: input.subject,
+    body: input.body,
+    sentAt: new Date(),
+    fromAddress: sent.from,
+    toAddresses: input.to,
+    ccAddresses: input.cc,
+    messageIdHeader: sent.messageIdHeader,
+    inReplyTo: input.inReplyTo ?? null,
+    references: input.references,
+  });
+
+  for (const item of attachments) {
+    await messagesService.linkFile({ orgId: input.orgId, messageId: recorded.id, fileId: item.fileId });
+  }
+
+  return messagesService.getById({ orgId: input.orgId, id: recorded.id });
+};
+
+const EMAIL_CHANNELS: MessageChannel[] = ["GMAIL", "EMAIL"];
+
 export const messagesService = {
   async list(input: {
     orgId: string;
     limit: number;
     cursor?: string;
-    channel?: "GMAIL" | "WHATSAPP" | "TELEGRAM";
+    channel?: MessageChannel;
     propertyId?: string;
+    threadId?: string;
+    userId?: string;
     aiStatus?: "PENDING" | "PROCESSED" | "REVIEW_REQUIRED";
   }) {
     const cursorValue = parseCursor(input.cursor);
@@ -83,6 +222,28 @@ export const messagesService = {
       clauses.push(eq(messages.propertyId, input.propertyId));
     }
 
+    if (input.threadId) {
+      clauses.push(eq(messages.threadId, input.threadId));
+    }
+
+    if (input.userId) {
+      clauses.push(
+        inArray(
+          messages.id,
+          db
+            .select({ messageId: businessLinks.objectId1 })
+            .from(businessLinks)
+            .where(
+              and(
+                eq(businessLinks.orgId, input.orgId),
+                eq(businessLinks.typeLien, "message_user"),
+                eq(businessLinks.objectId2, input.userId),
+              ),
+            ),
+        ),
+      );
+    }
+
     if (input.aiStatus) {
       clauses.push(eq(messages.aiStatus, input.aiStatus));
     }
@@ -146,6 +307,10 @@ export const messagesService = {
       throw new HttpError(500, "MESSAGE_PATCH_FAILED", "Mise à jour du message impossible");
     }
 
+    if (updated.threadId) {
+      await messageThreadsService.refresh({ orgId: input.orgId, threadId: updated.threadId });
+    }
+
     return toMessageResponse(updated);
   },
 
@@ -175,6 +340,10 @@ export const messagesService = {
         updatedAt: new Date(),
       })
       .where(and(eq(messages.id, input.id), eq(messages.orgId, input.orgId)));
+
+    if (existing.threadId && input.propertyId !== undefined) {
+      await messageThreadsService.refresh({ orgId: input.orgId, threadId: existing.threadId });
+    }
   },
 
   async upsertImportedMessage(input: {
@@ -185,7 +354,22 @@ export const messagesService = {
     subject?: string | null;
     body: string;
     receivedAt: Date;
+    from?: string;
+    to?: string[];
+    cc?: string[];
+    messageIdHeader?: string;
+    references?: string[];
+    // Identifiant du fil chez le fournisseur (thread Gmail, conversation WhatsApp).
+    threadId?: string;
   }): Promise<{ id: string; created: boolean }> {
+    const threading = {
+      fromAddress: input.from ? normalizeContactAddress(input.from) : null,
+      toAddresses: JSON.stringify((input.to ?? []).map(normalizeContactAddress)),
+      ccAddresses: JSON.stringify((input.cc ?? []).map(normalizeContactAddress)),
+      messageIdHeader: input.messageIdHeader ? normalizeMessageIdHeader(input.messageIdHeader) : null,
+      references: JSON.stringify((input.references ?? []).map(normalizeMessageIdHeader)),
+    };
+
     const existing = await db.query.messages.findFirst({
       where: and(
         eq(messages.orgId, input.orgId),
@@ -201,10 +385,21 @@ export const messagesService = {
         .set({
           subject: input.subject ?? null,
           body: input.body,
+          ...threading,
           receivedAt: input.receivedAt,
           updatedAt: now,
         })
         .where(and(eq(messages.id, existing.id), eq(messages.orgId, input.orgId)));
+      await messageContactsService.resolveMessage({
+        orgId: input.orgId,
+        messageId: existing.id,
+        senderName: input.from ? parseDisplayName(input.from) : null,
+      });
+      await messageThreadsService.assignMessage({
+        orgId: input.orgId,
+        messageId: existing.id,
+        providerThreadId: input.threadId,
+      });
 
       return { id: existing.id, created: false };
     }
@@ -219,15 +414,150 @@ export const messagesService = {
       externalId: input.externalId,
       subject: input.subject ?? null,
       body: input.body,
+      ...threading,
       aiStatus: "PENDING",
       receivedAt: input.receivedAt,
       createdAt: now,
       updatedAt: now,
     });
+    await messageContactsService.resolveMessage({
+      orgId: input.orgId,
+      messageId: id,
+      senderName: input.from ? parseDisplayName(input.from) : null,
+    });
+    await messageThreadsService.assignMessage({
+      orgId: input.orgId,
+      messageId: id,
+      providerThreadId: input.threadId,
+    });
 
     return { id, created: true };
   },
 
+  // Trace un email envoyé depuis l'application: aucun traitement IA n'est nécessaire.
+  async recordOutboundMessage(input: {
+    orgId: string;
+    propertyId: string | null;
+    channel: MessageChannel;
+    sourceProvider: string;
+    externalId: string;
+    subject: string | null;
+    body: string;
+    sentAt: Date;
+    fromAddress?: string | null;
+    toAddresses?: string[];
+    ccAddresses?: string[];
+    messageIdHeader?: string | null;
+    inReplyTo?: string | null;
+    references?: string[];
+  }): Promise<{ id: string }> {
+    const id = crypto.randomUUID();
+    await db.insert(messages).values({
+      id,
+      orgId: input.orgId,
+      propertyId: input.propertyId,
+      channel: input.channel,
+      direction: "OUTBOUND",
+      sourceProvider: input.sourceProvider,
+      externalId: input.externalId,
+      subject: input.subject,
+      body: input.body,
+      fromAddress: input.fromAddress ? normalizeContactAddress(input.fromAddress) : null,
+      toAddresses: JSON.stringify((input.toAddresses ?? []).map(normalizeContactAddress)),
+      ccAddresses: JSON.stringify((input.ccAddresses ?? []).map(normalizeContactAddress)),
+      messageIdHeader: input.messageIdHeader ?? null,
+      inReplyTo: input.inReplyTo ?? null,
+      references: JSON.stringify(input.references ?? []),
+      aiStatus: "PROCESSED",
+      receivedAt: input.sentAt,
+      createdAt: input.sentAt,
+      updatedAt: input.sentAt,
+    });
+    await messageContactsService.resolveMessage({ orgId: input.orgId, messageId: id });
+    await messageThreadsService.assignMessage({ orgId: input.orgId, messageId: id });
+
+    return { id };
+  },
+
+  async compose(input: {
+    orgId: string;
+    to: string[];
+    cc?: string[];
+    subject: string;
+    body: string;
+    propertyId?: string | null;
+    fileIds?: string[];
+  }) {
+    await assertPropertyScope(input.orgId, input.propertyId);
+
+    return sendEmailMessage({
+      orgId: input.orgId,
+      propertyId: input.propertyId ?? null,
+      to: input.to,
+      cc: input.cc ?? [],
+      subject: input.subject,
+      body: input.body,
+      fileIds: input.fileIds ?? [],
+      references: [],
+    });
+  },
+
+  async reply(input: {
+    orgId: string;
+    messageId: string;
+    body: string;
+    to?: string[];
+    cc?: string[];
+    subject?: string;
+    fileIds?: string[];
+  }) {
+    const original = await db.query.messages.findFirst({
+      where: and(eq(messages.id, input.messageId), eq(messages.orgId, input.orgId)),
+    });
+
+    if (!original) {
+      throw new HttpError(404, "MESSAGE_NOT_FOUND", "Message introuvable");
+    }
+
+    if (!EMAIL_CHANNELS.includes(original.channel as MessageChannel)) {
+      throw new HttpError(400, "MESSAGE_REPLY_UNSUPPORTED", "Réponse possible uniquement aux emails", {
+        channel: original.channel,
+      });
+    }
+
+    // Par défaut on répond à l'expéditeur, ou on relance les destinataires d'un envoi.
+    const defaultRecipients =
+      original.direction === "OUTBOUND"
+        ? parseStringArray(original.toAddresses)
+        : original.fromAddress
+          ? [original.fromAddress]
+          : [];
+    const to = input.to && input.to.length > 0 ? input.to : defaultRecipients;
+    if (to.length === 0) {
+      throw new HttpError(400, "MESSAGE_RECIPIENT_REQUIRED", "Destinataire de la réponse inconnu");
+    }
+
+    const originalSubject = original.subject?.trim() ?? "";
+    const subject =
+      input.subject ?? (/^re\s*:/i.test(originalSubject) ? originalSubject : `Re: ${originalSubject}`.trim());
+    const references = [...parseStringArray(original.references)];
+    if (original.messageIdHeader && !references.includes(original.messageIdHeader)) {
+      references.push(original.messageIdHeader);
+    }
+
+    return sendEmailMessage({
+      orgId: input.orgId,
+      propertyId: original.propertyId,
+      to,
+      cc: input.cc ?? [],
+      subject,
+      body: input.body,
+      fileIds: input.fileIds ?? [],
+      inReplyTo: original.messageIdHeader ?? undefined,
+      references,
+    });
+  },
+
   async linkFile(input: { orgId: string; messageId: string; fileId: string }) {
     const existing = await db.query.messageFileLinks.findFirst({
       where: and(
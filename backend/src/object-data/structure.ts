@@ -1,6 +1,6 @@
 import { getLinkTypeDefinition, listLinkTypeDefinitions } from "../links/catalog";
 
-export type ObjectType = "bien" | "user" | "rdv";
+export type ObjectType = "bien" | "user" | "rdv" | "tache" | "offre";
 
 export type ObjectFieldType =
   | "string"
@@ -325,6 +325,9 @@ const bienFields: ObjectFieldDefinition[] = [
   },
   { key: "mandateStartDate", name: "Début mandat", group: "marketing", type: "date" },
   { key: "mandateEndDate", name: "Fin mandat", group: "marketing", type: "date" },
+  { key: "compromisSignatureDate", name: "Signature compromis", group: "marketing", type: "date" },
+  { key: "loanConditionDeadline", name: "Date limite condition de prêt", group: "marketing", type: "date" },
+  { key: "acteAuthentiqueDate", name: "Date acte authentique", group: "marketing", type: "date" },
 ];
 
 const userFields: ObjectFieldDefinition[] = [
@@ -359,10 +362,72 @@ const rdvFields: ObjectFieldDefinition[] = [
   { key: "comment", name: "Commentaire", group: "notes", type: "text" },
 ];
 
+const tacheFields: ObjectFieldDefinition[] = [
+  { key: "title", name: "Titre", group: "general", type: "string", required: true },
+  { key: "description", name: "Description", group: "general", type: "text" },
+  {
+    key: "status",
+    name: "Statut",
+    group: "general",
+    type: "select",
+    options: [
+      { value: "TODO", label: "À faire" },
+      { value: "IN_PROGRESS", label: "En cours" },
+      { value: "DONE", label: "Terminée" },
+      { value: "CANCELLED", label: "Annulée" },
+    ],
+  },
+  { key: "dueAt", name: "Échéance", group: "schedule", type: "datetime" },
+  { key: "propertyId", name: "Bien lié", group: "relations", type: "string" },
+  { key: "assigneeUserId", name: "Assignée à", group: "relations", type: "string" },
+];
+
+const offreFields: ObjectFieldDefinition[] = [
+  { key: "amount", name: "Montant de l'offre", group: "general", type: "int", required: true, min: 1 },
+  {
+    key: "financingType",
+    name: "Type de financement",
+    group: "general",
+    type: "select",
+    required: true,
+    options: [
+      { value: "COMPTANT", label: "Comptant" },
+      { value: "CREDIT", label: "Crédit immobilier" },
+      { value: "MIXTE", label: "Mixte" },
+    ],
+  },
+  {
+    key: "conditionsSuspensives",
+    name: "Conditions suspensives",
+    group: "general",
+    type: "text",
+  },
+  { key: "validUntil", name: "Valable jusqu'au", group: "schedule", type: "datetime" },
+  {
+    key: "status",
+    name: "Statut",
+    group: "general",
+    type: "select",
+    options: [
+      { value: "SUBMITTED", label: "Soumise" },
+      { value: "COUNTERED", label: "Contre-proposée" },
+      { value: "ACCEPTED", label: "Acceptée" },
+      { value: "REJECTED", label: "Refusée" },
+      { value: "EXPIRED", label: "Expirée" },
+    ],
+  },
+  { key: "propertyId", name: "Bien lié", group: "relations", type: "string", required: true },
+  { key: "buyerUserId", name: "Acquéreur", group: "relations", type: "string", required: true },
+  { key: "parentOfferId", name: "Offre d'origine", group: "relations", type: "string" },
+  { key: "note", name: "Note", group: "notes", type: "text" },
+];
+
 const byObjectType: Record<ObjectType, ObjectFieldDefinition[]> = {
   bien: bienFields,
   user: userFields,
   rdv: rdvFields,
+  tache: tacheFields,
+  offre: offreFields,
 };
 
 export const getObjectDataStructure = (objectType: ObjectType): ObjectFieldDefinition[] =>
@@ -0,0 +1,607 @@
+import { and, desc, eq, inArray, isNotNull, lt, type SQL } from "drizzle-orm";
+import { db } from "../db/client";
+import { businessLinks, offers, properties, propertyTimelineEvents, users } from "../db/schema";
+import { filesService } from "../files/service";
+import { HttpError } from "../http/errors";
+import { trackObjectChangesSafe, type ObjectChangeMode } from "../object-data/change-log";
+import { propertiesService } from "../properties/service";
+import { PROPERTY_STATUS_PROGRESSION } from "../properties/statuses";
+
+export const OFFER_STATUSES = ["SUBMITTED", "COUNTERED", "ACCEPTED", "REJECTED", "EXPIRED"] as const;
+export type OfferStatus = (typeof OFFER_STATUSES)[number];
+
+export const OFFER_FINANCING_TYPES = ["COMPTANT", "CREDIT", "MIXTE"] as const;
+export type OfferFinancingType = (typeof OFFER_FINANCING_TYPES)[number];
+
+export type OfferIssuer = "ACHETEUR" | "VENDEUR";
+
+type OfferRow = typeof offers.$inferSelect;
+
+// Un bien reçoit des offres jusqu'au statut OFFRES: au-delà (compromis, vente, archive) il n'est plus négociable.
+const OFFER_OPEN_PROPERTY_STATUSES = PROPERTY_STATUS_PROGRESSION.slice(
+  0,
+  PROPERTY_STATUS_PROGRESSION.indexOf("OFFRES") + 1,
+);
+
+const assertPropertyOpenToOffers = (status: string) => {
+  if (!OFFER_OPEN_PROPERTY_STATUSES.includes(status)) {
+    throw new HttpError(409, "OFFER_PROPERTY_STATUS_CLOSED", "Le bien n'accepte plus d'offre à ce statut", {
+      status,
+    });
+  }
+};
+
+const isOfferStatus = (value: unknown): value is OfferStatus =>
+  typeof value === "string" && (OFFER_STATUSES as readonly string[]).includes(value);
+
+const parseFinancingType = (value: unknown): OfferFinancingType => {
+  if (typeof value !== "string" || !(OFFER_FINANCING_TYPES as readonly string[]).includes(value)) {
+    throw new HttpError(400, "INVALID_OFFER_FINANCING_TYPE", "Type de financement invalide");
+  }
+
+  return value as OfferFinancingType;
+};
+
+const parseAmount = (value: unknown): number => {
+  if (typeof value !== "number" || !Number.isInteger(value) || value <= 0) {
+    throw new HttpError(400, "INVALID_OFFER_AMOUNT", "Le montant de l'offre est invalide");
+  }
+
+  return value;
+};
+
+const parseValidUntil = (value: string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new HttpError(400, "INVALID_OFFER_VALID_UNTIL", "La date de validité de l'offre est invalide");
+  }
+
+  return parsed;
+};
+
+const normalizeConditions = (value: string[] | undefined): string[] =>
+  (value ?? []).map((condition) => condition.trim()).filter((condition) => condition.length > 0);
+
+const parseConditions = (raw: string): string[] => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const normalizeOptionalString = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+};
+
+const toOfferResponses = async (orgId: string, rows: OfferRow[]) => {
+  const propertyIds = [...new Set(rows.map((row) => row.propertyId))];
+  const buyerIds = [...new Set(rows.map((row) => row.buyerUserId))];
+
+  const [propertyRows, buyerRows] = await Promise.all([
+    propertyIds.length > 0
+      ? db
+          .select({ id: properties.id, title: properties.title })
+          .from(properties)
+          .where(and(eq(properties.orgId, orgId), inArray(properties.id, propertyIds)))
+      : Promise.resolve([]),
+    buyerIds.length > 0
+      ? db
+          .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+          .from(users)
+          .where(and(eq(users.orgId, orgId), inArray(users.id, buyerIds)))
+      : Promise.resolve([]),
+  ]);
+
+  const propertyTitleById = new Map(propertyRows.map((row) => [row.id, row.title]));
+  const buyerById = new Map(buyerRows.map((row) => [row.id, row]));
+
+  return rows.map((row) => {
+    const buyer = buyerById.get(row.buyerUserId);
+    return {
+      id: row.id,
+      propertyId: row.propertyId,
+      propertyTitle: propertyTitleById.get(row.propertyId) ?? null,
+      buyerUserId: row.buyerUserId,
+      buyerFirstName: buyer?.firstName ?? null,
+      buyerLastName: buyer?.lastName ?? null,
+      parentOfferId: row.parentOfferId,
+      issuedBy: row.issuedBy as OfferIssuer,
+      amount: row.amount,
+      financingType: row.financingType as OfferFinancingType,
+      conditionsSuspensives: parseConditions(row.conditionsSuspensives),
+      validUntil: row.validUntil?.toISOString() ?? null,
+      note: row.note,
+      status: row.status as OfferStatus,
+      signedFileId: row.signedFileId,
+      decidedAt: row.decidedAt?.toISOString() ?? null,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  });
+};
+
+export type OfferResponse = Awaited<ReturnType<typeof toOfferResponses>>[number];
+
+const insertTimelineEvent = async (input: {
+  orgId: string;
+  propertyId: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  now: Date;
+}) => {
+  await db.insert(propertyTimelineEvents).values({
+    id: crypto.randomUUID(),
+    propertyId: input.propertyId,
+    orgId: input.orgId,
+    eventType: input.eventType,
+    payload: JSON.stringify(input.payload),
+    createdAt: input.now,
+  });
+};
+
+const expireOverdueOffers = async (orgId: string, now: Date) => {
+  await db
+    .update(offers)
+    .set({ status: "EXPIRED", decidedAt: now, updatedAt: now })
+    .where(
+      and(
+        eq(offers.orgId, orgId),
+        eq(offers.status, "SUBMITTED"),
+        isNotNull(offers.validUntil),
+        lt(offers.validUntil, now),
+      ),
+    );
+};
+
+const getPendingOfferRow = async (orgId: string, id: string): Promise<OfferRow> => {
+  await expireOverdueOffers(orgId, new Date());
+  const row = await db.query.offers.findFirst({
+    where: and(eq(offers.id, id), eq(offers.orgId, orgId)),
+  });
+
+  if (!row) {
+    throw new HttpError(404, "OFFER_NOT_FOUND", "Offre introuvable");
+  }
+
+  if (row.status !== "SUBMITTED") {
+    throw new HttpError(409, "OFFER_NOT_PENDING", "Cette offre n'est plus en attente de réponse", {
+      status: row.status,
+    });
+  }
+
+  return row;
+};
+
+// Ferme les offres encore ouvertes sur le bien, hors chaîne de contre-offres de l'offre acceptée.
+const closeCompetingOffers = async (input: {
+  orgId: string;
+  acceptedOffer: OfferRow;
+  now: Date;
+}): Promise<string[]> => {
+  const propertyOffers = await db
+    .select({ id: offers.id, parentOfferId: offers.parentOfferId, status: offers.status })
+    .from(offers)
+    .where(and(eq(offers.orgId, input.orgId), eq(offers.propertyId, input.acceptedOffer.propertyId)));
+  const parentById = new Map(propertyOffers.map((item) => [item.id, item.parentOfferId]));
+
+  const chainIds = new Set<string>();
+  let currentId: string | null = input.acceptedOffer.id;
+  while (currentId && !chainIds.has(currentId)) {
+    chainIds.add(currentId);
+    currentId = parentById.get(currentId) ?? null;
+  }
+
+  const closedIds = propertyOffers
+    .filter((item) => (item.status === "SUBMITTED" || item.status === "COUNTERED") && !chainIds.has(item.id))
+    .map((item) => item.id);
+  if (closedIds.length === 0) {
+    return [];
+  }
+
+  await db
+    .update(offers)
+    .set({ status: "REJECTED", decidedAt: input.now, updatedAt: input.now })
+    .where(and(eq(offers.orgId, input.orgId), inArray(offers.id, closedIds)));
+
+  return closedIds;
+};
+
+const insertOffer = async (input: {
+  orgId: string;
+  propertyId: string;
+  buyerUserId: string;
+  parentOfferId: string | null;
+  issuedBy: OfferIssuer;
+  amount: number;
+  financingType: OfferFinancingType;
+  conditionsSuspensives: string[];
+  validUntil: Date | null;
+  note: string | null;
+  now: Date;
+}): Promise<string> => {
+  const id = crypto.randomUUID();
+
+  await db.transaction(async (tx) => {
+    await tx.insert(offers).values({
+      id,
+      orgId: input.orgId,
+      propertyId: input.propertyId,
+      buyerUserId: input.buyerUserId,
+      parentOfferId: input.parentOfferId,
+      issuedBy: input.issuedBy,
+      amount: input.amount,
+      financingType: input.financingType,
+      conditionsSuspensives: JSON.stringify(input.conditionsSuspensives),
+      validUntil: input.validUntil,
+      note: input.note,
+      status: "SUBMITTED",
+      signedFileId: null,
+      decidedAt: null,
+      createdAt: input.now,
+      updatedAt: input.now,
+    });
+
+    await tx.insert(businessLinks).values({
+      id: crypto.randomUUID(),
+      orgId: input.orgId,
+      typeLien: "offre_bien",
+      objectId1: id,
+      objectId2: input.propertyId,
+      params: "{}",
+      createdAt: input.now,
+      updatedAt: input.now,
+    });
+
+    await tx.insert(businessLinks).values({
+      id: crypto.randomUUID(),
+      orgId: input.orgId,
+      typeLien: "offre_user",
+      objectId1: id,
+      objectId2: input.buyerUserId,
+      params: JSON.stringify({ relationRole: "ACHETEUR" }),
+      createdAt: input.now,
+      updatedAt: input.now,
+    });
+  });
+
+  return id;
+};
+
+export const offersService = {
+  async list(input: {
+    orgId: string;
+    propertyId?: string;
+    buyerUserId?: string;
+    status?: string;
+    limit: number;
+  }) {
+    await expireOverdueOffers(input.orgId, new Date());
+    const clauses: SQL[] = [eq(offers.orgId, input.orgId)];
+
+    if (input.propertyId) {
+      clauses.push(eq(offers.propertyId, input.propertyId));
+    }
+
+    if (input.buyerUserId) {
+      clauses.push(eq(offers.buyerUserId, input.buyerUserId));
+    }
+
+    if (input.status) {
+      if (!isOfferStatus(input.status)) {
+        throw new HttpError(400, "INVALID_OFFER_STATUS", "Statut d'offre invalide");
+      }
+      clauses.push(eq(offers.status, input.status));
+    }
+
+    const rows = await db
+      .select()
+      .from(offers)
+      .where(and(...clauses))
+      .orderBy(desc(offers.createdAt))
+      .limit(input.limit);
+
+    return { items: await toOfferResponses(input.orgId, rows) };
+  },
+
+  async getById(input: { orgId: string; id: string }) {
+    await expireOverdueOffers(input.orgId, new Date());
+    const row = await db.query.offers.findFirst({
+      where: and(eq(offers.id, input.id), eq(offers.orgId, input.orgId)),
+    });
+
+    if (!row) {
+      throw new HttpError(404, "OFFER_NOT_FOUND", "Offre introuvable");
+    }
+
+    const [offer] = await toOfferResponses(input.orgId, [row]);
+    return offer!;
+  },
+
+  async create(input: {
+    orgId: string;
+    propertyId: string;
+    buyerUserId: string;
+    amount: number;
+    financingType: string;
+    conditionsSuspensives?: string[];
+    validUntil?: string | null;
+    note?: string | null;
+    changeMode?: ObjectChangeMode;
+  }) {
+    const [property, buyer] = await Promise.all([
+      db.query.properties.findFirst({
+        where: and(eq(properties.id, input.propertyId), eq(properties.orgId, input.orgId)),
+      }),
+      db.query.users.findFirst({
+        where: and(eq(users.id, input.buyerUserId), eq(users.orgId, input.orgId)),
+      }),
+    ]);
+
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    if (!buyer) {
+      throw new HttpError(404, "USER_NOT_FOUND", "Utilisateur introuvable");
+    }
+
+    assertPropertyOpenToOffers(property.status);
+
+    const now = new Date();
+    const id = await insertOffer({
+      orgId: input.orgId,
+      propertyId: property.id,
+      buyerUserId: buyer.id,
+      parentOfferId: null,
+      issuedBy: "ACHETEUR",
+      amount: parseAmount(input.amount),
+      financingType: parseFinancingType(input.financingType),
+      conditionsSuspensives: normalizeConditions(input.conditionsSuspensives),
+      validUntil: parseValidUntil(input.validUntil),
+      note: normalizeOptionalString(input.note),
+      now,
+    });
+
+    await insertTimelineEvent({
+      orgId: input.orgId,
+      propertyId: property.id,
+      eventType: "OFFER_SUBMITTED",
+      payload: { offerId: id, buyerUserId: buyer.id, amount: input.amount },
+      now,
+    });
+
+    const created = await this.getById({ orgId: input.orgId, id });
+    await trackObjectChangesSafe({
+      orgId: input.orgId,
+      objectType: "offre",
+      objectId: id,
+      mode: input.changeMode ?? "USER",
+      changes: [
+        { paramName: "amount", paramValue: created.amount },
+        { paramName: "financingType", paramValue: created.financingType },
+        { paramName: "conditionsSuspensives", paramValue: created.conditionsSuspensives },
+        { paramName: "validUntil", paramValue: created.validUntil },
+        { paramName: "status", paramValue: created.status },
+      ].filter((change) => change.paramValue !== null),
+      modifiedAt: now,
+    });
+
+    return created;
+  },
+
+  async counter(input: {
+    orgId: string;
+    id: string;
+    amount: number;
+    financingType?: string;
+    conditionsSuspensives?: string[];
+    validUntil?: string | null;
+    note?: string | null;
+    changeMode?: ObjectChangeMode;
+  }) {
+    const parent = await getPendingOfferRow(input.orgId, input.id);
+    const now = new Date();
+
+    const id = await insertOffer({
+      orgId: input.orgId,
+      propertyId: parent.propertyId,
+      buyerUserId: parent.buyerUserId,
+      parentOfferId: parent.id,
+      issuedBy: parent.issuedBy === "ACHETEUR" ? "VENDEUR" : "ACHETEUR",
+      amount: parseAmount(input.amount),
+      financingType:
+        input.financingType === undefined
+          ? parseFinancingType(parent.financingType)
+          : parseFinancingType(input.financingType),
+      conditionsSuspensives:
+        input.conditionsSuspensives === undefined
+          ? parseConditions(parent.conditionsSuspensives)
+          : normalizeConditions(input.conditionsSuspensives),
+      validUntil: parseValidUntil(input.validUntil),
+      note: normalizeOptionalString(input.note),
+      now,
+    });
+
+    await db
+      .update(offers)
+      .set({ status: "COUNTERED", decidedAt: now, updatedAt: now })
+      .where(and(eq(offers.id, parent.id), eq(offers.orgId, input.orgId)));
+
+    await insertTimelineEvent({
+      orgId: input.orgId,
+      propertyId: parent.propertyId,
+      eventType: "OFFER_COUNTERED",
+      payload: { offerId: parent.id, counterOfferId: id, amount: input.amount },
+      now,
+    });
+
+    const created = await this.getById({ orgId: input.orgId, id });
+    await trackObjectChangesSafe({
+      orgId: input.orgId,
+      objectType: "offre",
+      objectId: parent.id,
+      mode: input.changeMode ?? "USER",
+      changes: [{ paramName: "status", paramValue: "COUNTERED" }],
+      modifiedAt: now,
+    });
+
+    return created;
+  },
+
+  async accept(input: {
+    orgId: string;
+    id: string;
+    signedFileId: string;
+    actorUserId?: string;
+    changeMode?: ObjectChangeMode;
+  }) {
+    const offer = await getPendingOfferRow(input.orgId, input.id);
+    const signedFile = await filesService.getById({ orgId: input.orgId, id: input.signedFileId });
+
+    const isPdf =
+      signedFile.mimeType.toLowerCase() === "application/pdf" ||
+      signedFile.fileName.toLowerCase().endsWith(".pdf");
+    if (!isPdf) {
+      throw new HttpError(400, "OFFER_SIGNED_FILE_NOT_PDF", "L'offre signée doit être un PDF");
+    }
+
+    if (signedFile.propertyId && signedFile.propertyId !== offer.propertyId) {
+      throw new HttpError(
+        409,
+        "OFFER_SIGNED_FILE_OTHER_PROPERTY",
+        "Le fichier signé est rattaché à un autre bien",
+      );
+    }
+
+    const property = await propertiesService.getById({ orgId: input.orgId, id: offer.propertyId });
+    assertPropertyOpenToOffers(property.status);
+
+    // L'offre signée est rattachée avant le changement de statut: elle compte dans la checklist d'OFFRES.
+    await filesService.patchById({
+      orgId: input.orgId,
+      id: signedFile.id,
+      data: {
+        propertyId: offer.propertyId,
+        typeDocument: "OFFRE_ACHAT_SIGNEE",
+        status: "CLASSIFIED",
+      },
+    });
+
+    if (property.status !== "OFFRES") {
+      // Le bien n'avance que vers OFFRES, sous le workflow et la checklist de l'organisation.
+      await propertiesService.updateStatus({
+        orgId: input.orgId,
+        id: offer.propertyId,
+        status: "OFFRES",
+        actorUserId: input.actorUserId,
+        changeMode: input.changeMode,
+      });
+    }
+
+    const now = new Date();
+    await db
+      .update(offers)
+      .set({ status: "ACCEPTED", signedFileId: signedFile.id, decidedAt: now, updatedAt: now })
+      .where(and(eq(offers.id, offer.id), eq(offers.orgId, input.orgId)));
+    const closedOfferIds = await closeCompetingOffers({ orgId: input.orgId, acceptedOffer: offer, now });
+
+    await propertiesService.addProspect({
+      orgId: input.orgId,
+      propertyId: offer.propertyId,
+      userId: offer.buyerUserId,
+      relationRole: "ACHETEUR",
+    });
+
+    await insertTimelineEvent({
+      orgId: input.orgId,
+      propertyId: offer.propertyId,
+      eventType: "OFFER_ACCEPTED",
+      payload: {
+        offerId: offer.id,
+        buyerUserId: offer.buyerUserId,
+        amount: offer.amount,
+        signedFileId: signedFile.id,
+        closedOfferIds,
+      },
+      now,
+    });
+
+    for (const closedOfferId of closedOfferIds) {
+      await trackObjectChangesSafe({
+        orgId: input.orgId,
+        objectType: "offre",
+        objectId: closedOfferId,
+        mode: input.changeMode ?? "USER",
+        changes: [{ paramName: "status", paramValue: "REJECTED" }],
+        modifiedAt: now,
+      });
+    }
+
+    await trackObjectChangesSafe({
+      orgId: input.orgId,
+      objectType: "offre",
+      objectId: offer.id,
+      mode: input.changeMode ?? "USER",
+      changes: [
+        { paramName: "status", paramValue: "ACCEPTED" },
+        { paramName: "signedFileId", paramValue: signedFile.id },
+      ],
+      modifiedAt: now,
+    });
+
+    return this.getById({ orgId: input.orgId, id: offer.id });
+  },
+
+  async reject(input: {
+    orgId: string;
+    id: string;
+    note?: string | null;
+    changeMode?: ObjectChangeMode;
+  }) {
+    const offer = await getPendingOfferRow(input.orgId, input.id);
+    const now = new Date();
+    const note = normalizeOptionalString(input.note);
+
+    await db
+      .update(offers)
+      .set({
+        status: "REJECTED",
+        note: note ?? offer.note,
+        decidedAt: now,
+        updatedAt: now,
+      })
+      .where(and(eq(offers.id, offer.id), eq(offers.orgId, input.orgId)));
+
+    await insertTimelineEvent({
+      orgId: input.orgId,
+      propertyId: offer.propertyId,
+      eventType: "OFFER_REJECTED",
+      payload: { offerId: offer.id, amount: offer.amount },
+      now,
+    });
+
+    await trackObjectChangesSafe({
+      orgId: input.orgId,
+      objectType: "offre",
+      objectId: offer.id,
+      mode: input.changeMode ?? "USER",
+      changes: [{ paramName: "status", paramValue: "REJECTED" }],
+      modifiedAt: now,
+    });
+
+    return this.getById({ orgId: input.orgId, id: offer.id });
+  },
+};
@@ -0,0 +1,205 @@
+// Tracé vectoriel (ex. signature manuscrite), en coordonnées canvas: origine en haut à gauche.
+export type TextPdfDrawing = {
+  width: number;
+  height: number;
+  strokes: Array<Array<{ x: number; y: number }>>;
+};
+
+export type TextPdfLine = {
+  text: string;
+  bold?: boolean;
+  size?: number;
+  drawing?: TextPdfDrawing;
+};
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const DEFAULT_FONT_SIZE = 9;
+const LINE_HEIGHT_FACTOR = 1.35;
+const DRAWING_MAX_WIDTH = 250;
+const DRAWING_MAX_HEIGHT = 100;
+const DRAWING_SPACING = 6;
+
+// Helvetica en WinAnsiEncoding: latin-1 direct, "€" et quelques signes typographiques remappés.
+const WIN_ANSI_OVERRIDES: Record<string, number> = {
+  "€": 0x80,
+  "’": 0x92,
+  "‘": 0x91,
+  "“": 0x93,
+  "”": 0x94,
+  "–": 0x96,
+  "—": 0x97,
+  "…": 0x85,
+  "œ": 0x9c,
+  "Œ": 0x8c,
+};
+
+const encodePdfText = (value: string): string => {
+  let encoded = "";
+
+  for (const char of value.replaceAll("\u202f", " ").replaceAll("\u00a0", " ")) {
+    const override = WIN_ANSI_OVERRIDES[char];
+    const code = override ?? char.charCodeAt(0);
+    const byte = code <= 0xff ? code : 0x3f;
+
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) {
+      encoded += `\\${String.fromCharCode(byte)}`;
+    } else if (byte < 0x20 || byte > 0x7e) {
+      encoded += `\\${byte.toString(8).padStart(3, "0")}`;
+    } else {
+      encoded += String.fromCharCode(byte);
+    }
+  }
+
+  return encoded;
+};
+
+const getDrawingScale = (drawing: TextPdfDrawing): number =>
+  Math.min(DRAWING_MAX_WIDTH / drawing.width, DRAWING_MAX_HEIGHT / drawing.height);
+
+const getLineHeight = (line: TextPdfLine): number =>
+  line.drawing
+    ? line.drawing.height * getDrawingScale(line.drawing) + DRAWING_SPACING
+    : (line.size ?? DEFAULT_FONT_SIZE) * LINE_HEIGHT_FACTOR;
+
+const wrapLine = (line: TextPdfLine): TextPdfLine[] => {
+  if (line.drawing) {
+    return [line];
+  }
+
+  const size = line.size ?? DEFAULT_FONT_SIZE;
+  // Approximation de la largeur moyenne d'un glyphe Helvetica.
+  const maxChars = Math.max(10, Math.floor((PAGE_WIDTH - MARGIN * 2) / (size * 0.5)));
+
+  if (line.text.length <= maxChars) {
+    return [line];
+  }
+
+  const wrapped: TextPdfLine[] = [];
+  let current = "";
+  for (const word of line.text.split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > maxChars && current) {
+      wrapped.push({ ...line, text: current });
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    wrapped.push({ ...line, text: current });
+  }
+
+  return wrapped;
+};
+
+const paginate = (lines: TextPdfLine[]): TextPdfLine[][] => {
+  const pages: TextPdfLine[][] = [[]];
+  let remainingHeight = PAGE_HEIGHT - MARGIN * 2;
+
+  for (const line of lines.flatMap(wrapLine)) {
+    const height = getLineHeight(line);
+    if (height > remainingHeight && pages.at(-1)!.length > 0) {
+      pages.push([]);
+      remainingHeight = PAGE_HEIGHT - MARGIN * 2;
+    }
+
+    pages.at(-1)!.push(line);
+    remainingHeight -= height;
+  }
+
+  return pages;
+};
+
+const buildDrawingContent = (drawing: TextPdfDrawing, bottom: number): string => {
+  const scale = getDrawingScale(drawing);
+  const boxHeight = drawing.height * scale;
+  const toPoint = (point: { x: number; y: number }) =>
+    `${(MARGIN + point.x * scale).toFixed(2)} ${(bottom + boxHeight - point.y * scale).toFixed(2)}`;
+
+  const operations = [
+    "q 0.5 w 0.6 G",
+    `${MARGIN} ${bottom.toFixed(2)} ${(drawing.width * scale).toFixed(2)} ${boxHeight.toFixed(2)} re S`,
+    "1.2 w 0 G 1 J 1 j",
+  ];
+  for (const stroke of drawing.strokes) {
+    const [first, ...rest] = stroke;
+    if (!first) {
+      continue;
+    }
+
+    // Un simple point reste visible grâce aux extrémités arrondies.
+    const points = rest.length > 0 ? rest : [first];
+    operations.push(`${toPoint(first)} m ${points.map((point) => `${toPoint(point)} l`).join(" ")} S`);
+  }
+  operations.push("Q");
+
+  return operations.join("\n");
+};
+
+const buildPageContent = (lines: TextPdfLine[]): string => {
+  let y = PAGE_HEIGHT - MARGIN;
+  const operations: string[] = [];
+
+  for (const line of lines) {
+    y -= getLineHeight(line);
+    if (line.drawing) {
+      operations.push(buildDrawingContent(line.drawing, y + DRAWING_SPACING / 2));
+      continue;
+    }
+
+    const size = line.size ?? DEFAULT_FONT_SIZE;
+    operations.push(
+      `BT /${line.bold ? "F2" : "F1"} ${size} Tf ${MARGIN} ${y.toFixed(2)} Td (${encodePdfText(line.text)}) Tj ET`,
+    );
+  }
+
+  return operations.join("\n");
+};
+
+export const renderTextPdf = (input: { title: string; lines: TextPdfLine[] }): Uint8Array => {
+  const pages = paginate(input.lines);
+  const objects: string[] = [];
+  const pageObjectIds: number[] = [];
+
+  // 1: catalogue, 2: arbre des pages, 3-4: polices, 5: métadonnées, puis page/contenu par page.
+  const firstPageObjectId = 6;
+  pages.forEach((_, index) => {
+    pageObjectIds.push(firstPageObjectId + index * 2);
+  });
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageObjectIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] =
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] = `<< /Title (${encodePdfText(input.title)}) /Producer (Monimmo) >>`;
+
+  pages.forEach((lines, index) => {
+    const pageId = pageObjectIds[index]!;
+    const content = buildPageContent(lines);
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  // Tout le contenu est déjà en ASCII (octets > 0x7e échappés), la longueur en caractères vaut la longueur en octets.
+  return new TextEncoder().encode(output);
+};
@@ -8,18 +8,31 @@ import {
   files,
   gdprAuditEvents,
   integrations,
+  mandateRegisterEntries,
   marketDvfQueryCache,
   messageFileLinks,
+  messageThreadUsers,
+  messageThreads,
   messages,
+  offers,
   organizations,
   privacyExports,
   properties,
+  propertyCommissions,
   propertyTimelineEvents,
   businessLinks,
+  buyerSearches,
+  propertyBookingLinks,
+  propertyBuyerAlerts,
+  propertyBuyerMatches,
+  propertyVisitFeedbacks,
   propertyVisits,
+  agentWorkingHours,
   reviewQueueItems,
+  tasks,
   users,
   vocals,
+  vocalTranscriptionChunks,
 } from "../db/schema";
 import { HttpError } from "../http/errors";
 import { propertyQmdDocsDirectoryForOrg } from "../properties/qmd-search";
@@ -89,11 +102,24 @@ const buildExportPayload = async (orgId: string): Promise<Record<string, unknown
     propertyRows,
     businessLinkRows,
     visitRows,
+    visitFeedbackRows,
+    workingHoursRows,
+    taskRows,
+    offerRows,
+    mandateRows,
+    commissionRows,
+    buyerSearchRows,
+    buyerMatchRows,
+    buyerAlertRows,
+    bookingLinkRows,
     timelineRows,
     fileRows,
     messageRows,
     messageFileLinkRows,
+    messageThreadRows,
+    messageThreadUserRows,
     vocalRows,
+    vocalChunkRows,
     reviewRows,
     aiLogRows,
     integrationRows,
@@ -107,11 +133,24 @@ const buildExportPayload = async (orgId: string): Promise<Record<string, unknown
     db.select().from(properties).where(eq(properties.orgId, orgId)),
     db.select().from(businessLinks).where(eq(businessLinks.orgId, orgId)),
     db.select().from(propertyVisits).where(eq(propertyVisits.orgId, orgId)),
+    db.select().from(propertyVisitFeedbacks).where(eq(propertyVisitFeedbacks.orgId, orgId)),
+    db.select().from(agentWorkingHours).where(eq(agentWorkingHours.orgId, orgId)),
+    db.select().from(tasks).where(eq(tasks.orgId, orgId)),
+    db.select().from(offers).where(eq(offers.orgId, orgId)),
+    db.select().from(mandateRegisterEntries).where(eq(mandateRegisterEntries.orgId, orgId)),
+    db.select().from(propertyCommissions).where(eq(propertyCommissions.orgId, orgId)),
+    db.select().from(buyerSearches).where(eq(buyerSearches.orgId, orgId)),
+    db.select().from(propertyBuyerMatches).where(eq(propertyBuyerMatches.orgId, orgId)),
+    db.select().from(propertyBuyerAlerts).where(eq(propertyBuyerAlerts.orgId, orgId)),
+    db.select().from(propertyBookingLinks).where(eq(propertyBookingLinks.orgId, orgId)),
     db.select().from(propertyTimelineEvents).where(eq(propertyTimelineEvents.orgId, orgId)),
     db.select().from(files).where(eq(files.orgId, orgId)),
     db.select().from(messages).where(eq(messages.orgId, orgId)),
     db.select().from(messageFileLinks).where(eq(messageFileLinks.orgId, orgId)),
+    db.select().from(messageThreads).where(eq(messageThreads.orgId, orgId)),
+    db.select().from(messageThreadUsers).where(eq(messageThreadUsers.orgId, orgId)),
     db.select().from(vocals).where(eq(vocals.orgId, orgId)),
+    db.select().from(vocalTranscriptionChunks).where(eq(vocalTranscriptionChunks.orgId, orgId)),
     db.select().from(reviewQueueItems).where(eq(reviewQueueItems.orgId, orgId)),
     db.select().from(aiCallLogs).where(eq(aiCallLogs.orgId, orgId)),
     db.select().from(integrations).where(eq(integrations.orgId, orgId)),
@@ -127,11 +166,24 @@ const buildExportPayload = async (orgId: string): Promise<Record<string, unknown
     properties: propertyRows,
     businessLinks: businessLinkRows,
     propertyVisits: visitRows,
+    propertyVisitFeedbacks: visitFeedbackRows,
+    agentWorkingHours: workingHoursRows,
+    tasks: taskRows,
+    offers: offerRows,
+    mandateRegisterEntries: mandateRows,
+    propertyCommissions: commissionRows,
+    buyerSearches: buyerSearchRows,
+    propertyBuyerMatches: buyerMatchRows,
+    propertyBuyerAlerts: buyerAlertRows,
+    propertyBookingLinks: bookingLinkRows,
     propertyTimelineEvents: timelineRows,
     files: fileRows,
     messages: messageRows,
     messageFileLinks: messageFileLinkRows,
+    messageThreads: messageThreadRows,
+    messageThreadUsers: messageThreadUserRows,
     vocals: vocalRows,
+    vocalTranscriptionChunks: vocalChunkRows,
     reviewQueueItems: reviewRows,
     aiCallLogs: aiLogRows,
     integrations: integrationRows,
@@ -263,12 +315,25 @@ const executeEraseJob = async (input: {
 
     await db.transaction(async (tx) => {
       await tx.delete(messageFileLinks).where(eq(messageFileLinks.orgId, input.orgId));
+      await tx.delete(propertyVisitFeedbacks).where(eq(propertyVisitFeedbacks.orgId, input.orgId));
       await tx.delete(propertyVisits).where(eq(propertyVisits.orgId, input.orgId));
+      await tx.delete(agentWorkingHours).where(eq(agentWorkingHours.orgId, input.orgId));
+      await tx.delete(tasks).where(eq(tasks.orgId, input.orgId));
+      await tx.delete(offers).where(eq(offers.orgId, input.orgId));
+      await tx.delete(mandateRegisterEntries).where(eq(mandateRegisterEntries.orgId, input.orgId));
+      await tx.delete(propertyCommissions).where(eq(propertyCommissions.orgId, input.orgId));
+      await tx.delete(propertyBuyerMatches).where(eq(propertyBuyerMatches.orgId, input.orgId));
+      await tx.delete(propertyBuyerAlerts).where(eq(propertyBuyerAlerts.orgId, input.orgId));
+      await tx.delete(propertyBookingLinks).where(eq(propertyBookingLinks.orgId, input.orgId));
+      await tx.delete(buyerSearches).where(eq(buyerSearches.orgId, input.orgId));
       await tx.delete(businessLinks).where(eq(businessLinks.orgId, input.orgId));
       await tx.delete(propertyTimelineEvents).where(eq(propertyTimelineEvents.orgId, input.orgId));
       await tx.delete(reviewQueueItems).where(eq(reviewQueueItems.orgId, input.orgId));
+      await tx.delete(vocalTranscriptionChunks).where(eq(vocalTranscriptionChunks.orgId, input.orgId));
       await tx.delete(vocals).where(eq(vocals.orgId, input.orgId));
+      await tx.delete(messageThreadUsers).where(eq(messageThreadUsers.orgId, input.orgId));
       await tx.delete(messages).where(eq(messages.orgId, input.orgId));
+      await tx.delete(messageThreads).where(eq(messageThreads.orgId, input.orgId));
       await tx.delete(files).where(eq(files.orgId, input.orgId));
       await tx.delete(aiCallLogs).where(eq(aiCallLogs.orgId, input.orgId));
       await tx.delete(integrations).where(eq(integrations.orgId, input.orgId));
@@ -0,0 +1,39 @@
+export const parseJsonRecord = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+// Les détails sont stockés à plat, avec repli sur l'ancien format groupé.
+export const readDetail = (details: Record<string, unknown>, group: string, key: string): unknown => {
+  const rawGroup = details[group];
+  if (rawGroup && typeof rawGroup === "object" && !Array.isArray(rawGroup)) {
+    const value = (rawGroup as Record<string, unknown>)[key];
+    if (value !== undefined && value !== null && value !== "") {
+      return value;
+    }
+  }
+
+  return details[key];
+};
+
+export const readNumber = (value: unknown): number | null => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string" && value.trim()) {
+    const parsed = Number(value.replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  return null;
+};
+
+export const readText = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
@@ -0,0 +1,349 @@
+import { PROPERTY_STATUS_PROGRESSION } from "./statuses";
+
+export type DocumentChecklistRequirement = "MANDATORY" | "RECOMMENDED";
+
+export type DocumentChecklistState = "MISSING" | "PRESENT" | "HIDDEN";
+
+export type DocumentChecklistItem = {
+  typeDocument: string;
+  label: string;
+  requirement: DocumentChecklistRequirement;
+  requiredFromStatus: string;
+  reason: string;
+  state: DocumentChecklistState;
+  fileIds: string[];
+  hiddenKey: string | null;
+};
+
+export type DocumentChecklist = {
+  status: string;
+  missing: DocumentChecklistItem[];
+  present: DocumentChecklistItem[];
+  hidden: DocumentChecklistItem[];
+};
+
+type ChecklistContext = {
+  details: Record<string, unknown>;
+  currentYear: number;
+};
+
+type ChecklistRule = {
+  typeDocument: string;
+  label: string;
+  fromStatus: string;
+  requirement: (context: ChecklistContext) => DocumentChecklistRequirement | null;
+  reason: (context: ChecklistContext) => string;
+};
+
+const RESIDENTIAL_PROPERTY_TYPES = new Set(["APPARTEMENT", "MAISON", "IMMEUBLE"]);
+const INSTALLATION_DIAGNOSTIC_MIN_AGE_YEARS = 15;
+
+const toBoolean = (value: unknown): boolean | null => {
+  if (typeof value === "boolean") {
+    return value;
+  }
+
+  if (value === "true") {
+    return true;
+  }
+
+  if (value === "false") {
+    return false;
+  }
+
+  return null;
+};
+
+const toYear = (value: unknown): number | null => {
+  const parsed = typeof value === "number" ? value : Number(value);
+  return Number.isInteger(parsed) && parsed > 1000 ? parsed : null;
+};
+
+const readPropertyType = (context: ChecklistContext): string | null =>
+  typeof context.details.propertyType === "string" ? context.details.propertyType : null;
+
+const isBuilding = (context: ChecklistContext): boolean => readPropertyType(context) !== "TERRAIN";
+
+const isCopropriete = (context: ChecklistContext): boolean =>
+  toBoolean(context.details.isCopropriete) === true;
+
+const always = (): DocumentChecklistRequirement => "MANDATORY";
+
+const whenCopropriete = (context: ChecklistContext): DocumentChecklistRequirement | null =>
+  isCopropriete(context) ? "MANDATORY" : null;
+
+const installationRequirement =
+  (detailKey: "gas" | "electricity") =>
+  (context: ChecklistContext): DocumentChecklistRequirement | null => {
+    if (!isBuilding(context) || toBoolean(context.details[detailKey]) !== true) {
+      return null;
+    }
+
+    const constructionYear = toYear(context.details.constructionYear);
+    if (constructionYear === null) {
+      return "RECOMMENDED";
+    }
+
+    return context.currentYear - constructionYear > INSTALLATION_DIAGNOSTIC_MIN_AGE_YEARS
+      ? "MANDATORY"
+      : null;
+  };
+
+const constructionYearRequirement =
+  (beforeYear: number, residentialOnly: boolean) =>
+  (context: ChecklistContext): DocumentChecklistRequirement | null => {
+    if (!isBuilding(context)) {
+      return null;
+    }
+
+    const propertyType = readPropertyType(context);
+    if (residentialOnly && propertyType && !RESIDENTIAL_PROPERTY_TYPES.has(propertyType)) {
+      return null;
+    }
+
+    const constructionYear = toYear(context.details.constructionYear);
+    if (constructionYear === null) {
+      return "RECOMMENDED";
+    }
+
+    return constructionYear < beforeYear ? "MANDATORY" : null;
+  };
+
+const CHECKLIST_RULES: ChecklistRule[] = [
+  {
+    typeDocument: "MANDAT_VENTE_SIGNE",
+    label: "Mandat de vente signé",
+    fromStatus: "MANDAT_SIGNE",
+    requirement: () => "RECOMMENDED",
+    reason: () => "Mandat signé avec le vendeur",
+  },
+  {
+    typeDocument: "PIECE_IDENTITE",
+    label: "Pièce d'identité",
+    fromStatus: "MANDAT_SIGNE",
+    requirement: () => "RECOMMENDED",
+    reason: () => "Identité du vendeur",
+  },
+  {
+    typeDocument: "TITRE_PROPRIETE",
+    label: "Titre de propriété",
+    fromStatus: "MANDAT_SIGNE",
+    requirement: () => "RECOMMENDED",
+    reason: () => "Justificatif de propriété du vendeur",
+  },
+  {
+    typeDocument: "MANDAT_VENTE_SIGNE",
+    label: "Mandat de vente signé",
+    fromStatus: "EN_DIFFUSION",
+    requirement: always,
+    reason: () => "Aucune diffusion sans mandat écrit (loi Hoguet)",
+  },
+  {
+    typeDocument: "DPE",
+    label: "DPE",
+    fromStatus: "EN_DIFFUSION",
+    requirement: (context) => (isBuilding(context) ? "MANDATORY" : null),
+    reason: () => "Classe énergie obligatoire dans l'annonce",
+  },
+  {
+    typeDocument: "OFFRE_ACHAT_SIGNEE",
+    label: "Offre d'achat signée",
+    fromStatus: "OFFRES",
+    requirement: always,
+    reason: () => "Offre acceptée par le vendeur",
+  },
+  {
+    typeDocument: "TITRE_PROPRIETE",
+    label: "Titre de propriété",
+    fromStatus: "COMPROMIS",
+    requirement: always,
+    reason: () => "Pièce requise par le notaire pour le compromis",
+  },
+  {
+    typeDocument: "ERP_ETAT_RISQUES",
+    label: "ERP",
+    fromStatus: "COMPROMIS",
+    requirement: always,
+    reason: () => "État des risques annexé au compromis",
+  },
+  {
+    typeDocument: "AMIANTE",
+    label: "Amiante",
+    fromStatus: "COMPROMIS",
+    requirement: constructionYearRequirement(1997, false),
+    reason: (context) =>
+      toYear(context.details.constructionYear) === null
+        ? "Année de construction inconnue (obligatoire avant 1997)"
+        : "Permis de construire antérieur à juillet 1997",
+  },
+  {
+    typeDocument: "PLOMB",
+    label: "Plomb",
+    fromStatus: "COMPROMIS",
+    requirement: constructionYearRequirement(1949, true),
+    reason: (context) =>
+      toYear(context.details.constructionYear) === null
+        ? "Année de construction inconnue (obligatoire avant 1949)"
+        : "Logement construit avant 1949",
+  },
+  {
+    typeDocument: "ELECTRICITE",
+    label: "Électricité",
+    fromStatus: "COMPROMIS",
+    requirement: installationRequirement("electricity"),
+    reason: () => "Installation électrique de plus de 15 ans",
+  },
+  {
+    typeDocument: "GAZ",
+    label: "Gaz",
+    fromStatus: "COMPROMIS",
+    requirement: installationRequirement("gas"),
+    reason: () => "Installation gaz de plus de 15 ans",
+  },
+  {
+    typeDocument: "ASSAINISSEMENT",
+    label: "Assainissement",
+    fromStatus: "COMPROMIS",
+    requirement: (context) =>
+      context.details.sanitationType === "FOSSE_SEPTIQUE" ? "MANDATORY" : null,
+    reason: () => "Assainissement non collectif",
+  },
+  {
+    typeDocument: "TERMITES",
+    label: "Termites",
+    fromStatus: "COMPROMIS",
+    requirement: (context) => (isBuilding(context) ? "RECOMMENDED" : null),
+    reason: () => "Obligatoire en zone déclarée par arrêté préfectoral",
+  },
+  {
+    typeDocument: "LOI_CARREZ",
+    label: "Loi Carrez",
+    fromStatus: "COMPROMIS",
+    requirement: whenCopropriete,
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "REGLEMENT_COPROPRIETE",
+    label: "Règlement de copropriété",
+    fromStatus: "COMPROMIS",
+    requirement: whenCopropriete,
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "ETAT_DESCRIPTIF_DIVISION",
+    label: "État descriptif de division",
+    fromStatus: "COMPROMIS",
+    requirement: whenCopropriete,
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "PV_AG_3_DERNIERES_ANNEES",
+    label: "Procès-verbaux d'assemblée générale",
+    fromStatus: "COMPROMIS",
+    requirement: whenCopropriete,
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "MONTANT_CHARGES",
+    label: "Montant des charges",
+    fromStatus: "COMPROMIS",
+    requirement: whenCopropriete,
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "CARNET_ENTRETIEN",
+    label: "Carnet d'entretien",
+    fromStatus: "COMPROMIS",
+    requirement: whenCopropriete,
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "FICHE_SYNTHETIQUE",
+    label: "Fiche synthétique",
+    fromStatus: "COMPROMIS",
+    requirement: whenCopropriete,
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "PRE_ETAT_DATE",
+    label: "Pré-état daté",
+    fromStatus: "COMPROMIS",
+    requirement: (context) => (isCopropriete(context) ? "RECOMMENDED" : null),
+    reason: () => "Lot de copropriété",
+  },
+  {
+    typeDocument: "COMPROMIS_OU_PROMESSE",
+    label: "Compromis / promesse",
+    fromStatus: "VENDU",
+    requirement: always,
+    reason: () => "Avant-contrat signé",
+  },
+  {
+    typeDocument: "ACTE_AUTHENTIQUE",
+    label: "Acte authentique",
+    fromStatus: "VENDU",
+    requirement: always,
+    reason: () => "Vente signée chez le notaire",
+  },
+  {
+    typeDocument: "ETAT_DATE",
+    label: "État daté",
+    fromStatus: "VENDU",
+    requirement: (context) => (isCopropriete(context) ? "RECOMMENDED" : null),
+    reason: () => "Lot de copropriété",
+  },
+];
+
+const findHiddenKey = (hiddenKeys: string[], typeDocument: string): string | null =>
+  hiddenKeys.find((key) => key === typeDocument || key.endsWith(`::${typeDocument}`)) ?? null;
+
+export const computeDocumentChecklist = (input: {
+  status: string;
+  details: Record<string, unknown>;
+  hiddenExpectedDocumentKeys: string[];
+  files: Array<{ id: string; typeDocument: string | null }>;
+  now?: Date;
+}): DocumentChecklist => {
+  const statusIndex = PROPERTY_STATUS_PROGRESSION.indexOf(input.status);
+  const context: ChecklistContext = {
+    details: input.details,
+    currentYear: (input.now ?? new Date()).getFullYear(),
+  };
+  const itemsByTypeDocument = new Map<string, DocumentChecklistItem>();
+
+  for (const rule of CHECKLIST_RULES) {
+    const ruleStatusIndex = PROPERTY_STATUS_PROGRESSION.indexOf(rule.fromStatus);
+    if (statusIndex < 0 || ruleStatusIndex > statusIndex) {
+      continue;
+    }
+
+    const requirement = rule.requirement(context);
+    if (!requirement) {
+      continue;
+    }
+
+    const fileIds = input.files
+      .filter((file) => file.typeDocument === rule.typeDocument)
+      .map((file) => file.id);
+    const hiddenKey = findHiddenKey(input.hiddenExpectedDocumentKeys, rule.typeDocument);
+
+    itemsByTypeDocument.set(rule.typeDocument, {
+      typeDocument: rule.typeDocument,
+      label: rule.label,
+      requirement,
+      requiredFromStatus: rule.fromStatus,
+      reason: rule.reason(context),
+      state: fileIds.length > 0 ? "PRESENT" : hiddenKey ? "HIDDEN" : "MISSING",
+      fileIds,
+      hiddenKey,
+    });
+  }
+
+  const items = [...itemsByTypeDocument.values()];
+  return {
+    status: input.status,
+    missing: items.filter((item) => item.state === "MISSING"),
+    present: items.filter((item) => item.state === "PRESENT"),
+    hidden: items.filter((item) => item.state === "HIDDEN"),
+  };
+};
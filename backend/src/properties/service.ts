@@ -22,6 +22,15 @@ import {
 } from "./dvf-client";
 import { findCoordinatesForAddress, type PropertyCoordinates } from "./geocoding";
 import { getPropertyRisks, type PropertyRisksResponse } from "./georisques";
+import { computeDocumentChecklist, type DocumentChecklist } from "./document-checklist";
+import { PROPERTY_STATUS_PROGRESSION } from "./statuses";
+import { assertNoOverlappingVisit, assertVisitSlotAvailable, listFreeVisitSlots } from "./visit-slots";
+import {
+  DEFAULT_STATUS_WORKFLOW,
+  evaluateStatusTransition,
+  parseStatusWorkflow,
+  type StatusWorkflow,
+} from "./status-workflow";
 import { trackAICallFromTelemetrySafe } from "../ai/call-logs";
 import { getAIProviderForOrg } from "../ai/factory";
 import {
@@ -29,6 +38,10 @@ import {
   type ObjectChangeMode,
 } from "../object-data/change-log";
 import { getSearchEngine } from "../search/factory";
+import { buyerSearchesService, type BuyerMatchTrigger } from "../buyer-searches/service";
+import { commissionsService } from "../commissions/service";
+import { mandatesService } from "../mandates/service";
+import { tasksService } from "../tasks/service";
 import { listObjectDataFieldKeysByGroup } from "../object-data/structure";
 import { usersService } from "../users/service";
 
@@ -485,6 +498,91 @@ const toPropertyResponse = (row: PropertyRow) => ({
   updatedAt: row.updatedAt.toISOString(),
 });
 
+const buildDocumentChecklist = async (
+  row: PropertyRow,
+  status: string,
+): Promise<DocumentChecklist> => {
+  const propertyFiles = await db
+    .select({ id: files.id, typeDocument: files.typeDocument, status: files.status })
+    .from(files)
+    .where(and(eq(files.orgId, row.orgId), eq(files.propertyId, row.id)));
+
+  return computeDocumentChecklist({
+    status,
+    details: parseDetails(row.details),
+    hiddenExpectedDocumentKeys: parseHiddenExpectedDocumentKeys(row.hiddenExpectedDocumentKeys),
+    files: propertyFiles.filter((file) => file.status !== "REVIEW_REQUIRED"),
+  });
+};
+
+const loadStatusWorkflow = async (orgId: string): Promise<StatusWorkflow | null> => {
+  const organization = await db.query.organizations.findFirst({
+    where: eq(organizations.id, orgId),
+  });
+
+  return parseStatusWorkflow(organization?.statusWorkflow);
+};
+
+const assertStatusTransitionAllowed = async (row: PropertyRow, to: string): Promise<void> => {
+  const workflow = (await loadStatusWorkflow(row.orgId)) ?? DEFAULT_STATUS_WORKFLOW;
+  const [propertyFiles, relationRows] = await Promise.all([
+    db
+      .select({ typeDocument: files.typeDocument, status: files.status })
+      .from(files)
+      .where(and(eq(files.orgId, row.orgId), eq(files.propertyId, row.id))),
+    db
+      .select({
+        relationRole: sql<string>`coalesce(json_extract(${businessLinks.params}, '$.relationRole'), 'PROSPECT')`,
+      })
+      .from(businessLinks)
+      .where(
+        and(
+          eq(businessLinks.orgId, row.orgId),
+          eq(businessLinks.typeLien, "bien_user"),
+          eq(businessLinks.objectId1, row.id),
+        ),
+      ),
+  ]);
+
+  const evaluation = evaluateStatusTransition({
+    workflow,
+    from: row.status,
+    to,
+    fields: {
+      ...parseDetails(row.details),
+      title: row.title,
+      city: row.city,
+      postalCode: row.postalCode,
+      address: row.address,
+      price: row.price,
+    },
+    documentTypes: propertyFiles
+      .filter((file) => file.status !== "REVIEW_REQUIRED")
+      .flatMap((file) => (file.typeDocument ? [file.typeDocument] : [])),
+    relationRoles: relationRows.map((item) => item.relationRole),
+  });
+
+  if (evaluation.allowed) {
+    return;
+  }
+
+  if (evaluation.reason === "TRANSITION_NOT_ALLOWED") {
+    throw new HttpError(
+      409,
+      "PROPERTY_STATUS_TRANSITION_NOT_ALLOWED",
+      "Transition de statut non autorisée",
+      { from: row.status, to, allowedTargets: evaluation.allowedTargets },
+    );
+  }
+
+  throw new HttpError(
+    409,
+    "PROPERTY_STATUS_GUARDS_UNMET",
+    `Conditions non remplies pour ce statut: ${evaluation.unmet.map((guard) => guard.label).join(", ")}`,
+    { from: row.status, to, unmet: evaluation.unmet },
+  );
+};
+
 const updateSearchDocumentSafe = async (property: PropertyRow): Promise<void> => {
   try {
     await searchEngine.upsertPropertyDocument(property);
@@ -494,6 +592,19 @@ const updateSearchDocumentSafe = async (property: PropertyRow): Promise<void> =>
   }
 };
 
+const matchBuyersSafe = async (input: {
+  orgId: string;
+  propertyId: string;
+  trigger: BuyerMatchTrigger;
+}): Promise<void> => {
+  try {
+    await buyerSearchesService.matchProperty(input);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[BuyerMatch][properties] rapprochement impossible pour le bien ${input.propertyId}: ${message}`);
+  }
+};
+
 const resolveVisitBusinessData = (row: {
   propertyId: string;
   prospectUserId: string;
@@ -539,6 +650,7 @@ const toPropertyVisitResponse = (row: {
   propertyId: string;
   propertyTitle: string;
   prospectUserId: string;
+  agentUserId: string | null;
   prospectFirstName: string;
   prospectLastName: string;
   prospectEmail: string | null;
@@ -548,6 +660,8 @@ const toPropertyVisitResponse = (row: {
   compteRendu: string | null;
   bonDeVisiteFileId: string | null;
   bonDeVisiteFileName: string | null;
+  bonDeVisiteSignedAt: Date | null;
+  bonDeVisiteSha256: string | null;
   data: string;
   createdAt: Date;
   updatedAt: Date;
@@ -559,6 +673,7 @@ const toPropertyVisitResponse = (row: {
     propertyId: data.propertyId,
     propertyTitle: row.propertyTitle,
     prospectUserId: data.prospectUserId,
+    agentUserId: row.agentUserId,
     prospectFirstName: row.prospectFirstName,
     prospectLastName: row.prospectLastName,
     prospectEmail: row.prospectEmail,
@@ -568,6 +683,8 @@ const toPropertyVisitResponse = (row: {
     compteRendu: data.compteRendu,
     bonDeVisiteFileId: data.bonDeVisiteFileId,
     bonDeVisiteFileName: row.bonDeVisiteFileName,
+    bonDeVisiteSignedAt: row.bonDeVisiteSignedAt?.toISOString() ?? null,
+    bonDeVisiteSha256: row.bonDeVisiteSha256,
     createdAt: row.createdAt.toISOString(),
     updatedAt: row.updatedAt.toISOString(),
   };
@@ -1725,6 +1842,7 @@ export const propertiesService = {
     }
 
     await updateSearchDocumentSafe(created);
+    await matchBuyersSafe({ orgId: input.orgId, propertyId: created.id, trigger: "PROPERTY_CREATED" });
 
     const createdProperty = toPropertyResponse(created);
     const createdDetails = isRecord(createdProperty.details)
@@ -1838,6 +1956,18 @@ export const propertiesService = {
       throw new HttpError(500, "PROPERTY_PATCH_FAILED", "Mise à jour impossible");
     }
 
+    // Historise les changements de prix pour l'analyse des baisses avant vente.
+    if (updated.price !== existing.price) {
+      await db.insert(propertyTimelineEvents).values({
+        id: crypto.randomUUID(),
+        propertyId: existing.id,
+        orgId: input.orgId,
+        eventType: "PROPERTY_PRICE_CHANGED",
+        payload: JSON.stringify({ from: existing.price, to: updated.price }),
+        createdAt: modifiedAt,
+      });
+    }
+
     await updateSearchDocumentSafe(updated);
 
     const updatedProperty = toPropertyResponse(updated);
@@ -1888,11 +2018,49 @@ export const propertiesService = {
     return updatedProperty;
   },
 
+  async getDocumentChecklist(input: { orgId: string; propertyId: string; status?: string }) {
+    const property = await db.query.properties.findFirst({
+      where: and(eq(properties.id, input.propertyId), eq(properties.orgId, input.orgId)),
+    });
+
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    const checklist = await buildDocumentChecklist(property, input.status ?? property.status);
+    return {
+      propertyId: property.id,
+      ...checklist,
+    };
+  },
+
+  async getStatusWorkflow(input: { orgId: string }) {
+    const workflow = await loadStatusWorkflow(input.orgId);
+    return {
+      isDefault: workflow === null,
+      transitions: (workflow ?? DEFAULT_STATUS_WORKFLOW).transitions,
+    };
+  },
+
+  async updateStatusWorkflow(input: { orgId: string; workflow: StatusWorkflow | null }) {
+    await db
+      .update(organizations)
+      .set({
+        statusWorkflow: input.workflow ? JSON.stringify(input.workflow) : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(organizations.id, input.orgId));
+
+    return this.getStatusWorkflow({ orgId: input.orgId });
+  },
+
   async updateStatus(input: {
     orgId: string;
     id: string;
     status: string;
     changeMode?: ObjectChangeMode;
+    force?: boolean;
+    actorUserId?: string;
   }) {
     const existing = await db.query.properties.findFirst({
       where: and(eq(properties.id, input.id), eq(properties.orgId, input.orgId)),
@@ -1902,6 +2070,30 @@ export const propertiesService = {
       throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
     }
 
+    if (input.status !== existing.status) {
+      await assertStatusTransitionAllowed(existing, input.status);
+    }
+
+    const isForwardTransition =
+      PROPERTY_STATUS_PROGRESSION.indexOf(input.status) > PROPERTY_STATUS_PROGRESSION.indexOf(existing.status);
+    const missingMandatoryDocuments = isForwardTransition
+      ? (await buildDocumentChecklist(existing, input.status)).missing
+          .filter((item) => item.requirement === "MANDATORY")
+          .map((item) => ({ typeDocument: item.typeDocument, label: item.label }))
+      : [];
+
+    if (missingMandatoryDocuments.length > 0 && !input.force) {
+      throw new HttpError(
+        409,
+        "PROPERTY_DOCUMENTS_MISSING",
+        "Documents obligatoires manquants pour ce statut",
+        {
+          status: input.status,
+          missing: missingMandatoryDocuments,
+        },
+      );
+    }
+
     const now = new Date();
     await db
       .update(properties)
@@ -1911,6 +2103,25 @@ export const propertiesService = {
       })
       .where(and(eq(properties.id, input.id), eq(properties.orgId, input.orgId)));
 
+    const generatedTasks =
+      input.status !== existing.status
+        ? await tasksService.instantiateForStatus({
+            orgId: input.orgId,
+            propertyId: existing.id,
+            status: input.status,
+            assigneeUserId: input.actorUserId ?? null,
+            now,
+          })
+        : [];
+    const mandateRegisterEntry =
+      input.status === "MANDAT_SIGNE" && input.status !== existing.status
+        ? await mandatesService.register({ orgId: input.orgId, propertyId: existing.id, now })
+        : null;
+    const commission =
+      (input.status === "COMPROMIS" || input.status === "VENDU") && input.status !== existing.status
+        ? await commissionsService.snapshot({ orgId: input.orgId, propertyId: existing.id })
+        : null;
+
     await db.insert(propertyTimelineEvents).values({
       id: crypto.randomUUID(),
       propertyId: existing.id,
@@ -1919,6 +2130,16 @@ export const propertiesService = {
       payload: JSON.stringify({
         from: existing.status,
         to: input.status,
+        ...(missingMandatoryDocuments.length > 0
+          ? { missingDocuments: missingMandatoryDocuments }
+          : {}),
+        ...(generatedTasks.length > 0
+          ? { generatedTaskIds: generatedTasks.map((task) => task.id) }
+          : {}),
+        ...(mandateRegisterEntry
+          ? { mandateRegisterNumber: mandateRegisterEntry.registerNumber }
+          : {}),
+        ...(commission ? { commission } : {}),
       }),
       createdAt: now,
     });
@@ -1932,6 +2153,9 @@ export const propertiesService = {
     }
 
     await updateSearchDocumentSafe(updated);
+    if (input.status === "EN_DIFFUSION" && existing.status !== "EN_DIFFUSION") {
+      await matchBuyersSafe({ orgId: input.orgId, propertyId: existing.id, trigger: "STATUS_EN_DIFFUSION" });
+    }
 
     const updatedProperty = toPropertyResponse(updated);
     await trackObjectChangesSafe({
@@ -2127,6 +2351,7 @@ export const propertiesService = {
         propertyId: propertyVisits.propertyId,
         propertyTitle: properties.title,
         prospectUserId: propertyVisits.prospectUserId,
+        agentUserId: propertyVisits.agentUserId,
         prospectFirstName: users.firstName,
         prospectLastName: users.lastName,
         prospectEmail: users.email,
@@ -2136,6 +2361,8 @@ export const propertiesService = {
         compteRendu: propertyVisits.compteRendu,
         bonDeVisiteFileId: propertyVisits.bonDeVisiteFileId,
         bonDeVisiteFileName: files.fileName,
+        bonDeVisiteSignedAt: propertyVisits.bonDeVisiteSignedAt,
+        bonDeVisiteSha256: propertyVisits.bonDeVisiteSha256,
         data: propertyVisits.data,
         createdAt: propertyVisits.createdAt,
         updatedAt: propertyVisits.updatedAt,
@@ -2175,10 +2402,43 @@ export const propertiesService = {
     };
   },
 
+  async listVisitSlots(input: {
+    orgId: string;
+    propertyId: string;
+    agentUserId?: string;
+    from?: string;
+    days?: number;
+    durationMinutes?: number;
+    limit?: number;
+  }) {
+    const property = await db.query.properties.findFirst({
+      where: and(eq(properties.id, input.propertyId), eq(properties.orgId, input.orgId)),
+    });
+
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    const items = await listFreeVisitSlots({
+      orgId: input.orgId,
+      propertyId: input.propertyId,
+      agentUserId: input.agentUserId,
+      from: input.from
+        ? parseIsoDateTime(input.from, "INVALID_VISIT_SLOTS_FROM", "La date de debut de recherche est invalide")
+        : undefined,
+      days: input.days,
+      durationMinutes: input.durationMinutes,
+      limit: input.limit,
+    });
+
+    return { items };
+  },
+
   async addVisit(input: {
     orgId: string;
     propertyId: string;
     prospectUserId: string;
+    agentUserId?: string | null;
     startsAt: string;
     endsAt: string;
     changeMode?: ObjectChangeMode;
@@ -2226,6 +2486,14 @@ export const propertiesService = {
       );
     }
 
+    await assertVisitSlotAvailable({
+      orgId: input.orgId,
+      propertyId: input.propertyId,
+      agentUserId: input.agentUserId,
+      startsAt,
+      endsAt,
+    });
+
     const now = new Date();
 
     const visitId = crypto.randomUUID();
@@ -2238,63 +2506,84 @@ export const propertiesService = {
       bonDeVisiteFileId: null,
     };
 
-    await db.transaction(async (tx) => {
-      await tx.insert(propertyVisits).values({
-        id: visitId,
-        orgId: input.orgId,
-        propertyId: input.propertyId,
-        prospectUserId: input.prospectUserId,
-        startsAt,
-        endsAt,
-        compteRendu: null,
-        bonDeVisiteFileId: null,
-        data: serializeVisitBusinessData(visitData),
-        createdAt: now,
-        updatedAt: now,
-      });
-
-      await tx.insert(businessLinks).values({
-        id: crypto.randomUUID(),
-        orgId: input.orgId,
-        typeLien: "rdv_bien",
-        objectId1: visitId,
-        objectId2: input.propertyId,
-        params: "{}",
-        createdAt: now,
-        updatedAt: now,
-      });
-
-      await tx.insert(businessLinks).values({
-        id: crypto.randomUUID(),
-        orgId: input.orgId,
-        typeLien: "rdv_user",
-        objectId1: visitId,
-        objectId2: input.prospectUserId,
-        params: JSON.stringify({ relationRole: "PROSPECT" }),
-        createdAt: now,
-        updatedAt: now,
-      });
+    db.transaction(
+      (tx) => {
+        assertNoOverlappingVisit(tx, {
+          orgId: input.orgId,
+          propertyId: input.propertyId,
+          agentUserId: input.agentUserId,
+          startsAt,
+          endsAt,
+        });
 
-      await tx.insert(propertyTimelineEvents).values({
-        id: crypto.randomUUID(),
-        propertyId: input.propertyId,
-        orgId: input.orgId,
-        eventType: "VISIT_SCHEDULED",
-        payload: JSON.stringify({
-          visitId,
-          prospectUserId: input.prospectUserId,
-          startsAt: startsAt.toISOString(),
-          endsAt: endsAt.toISOString(),
-        }),
-        createdAt: now,
-      });
-    });
+        tx.insert(propertyVisits)
+          .values({
+            id: visitId,
+            orgId: input.orgId,
+            propertyId: input.propertyId,
+            prospectUserId: input.prospectUserId,
+            agentUserId: input.agentUserId ?? null,
+            startsAt,
+            endsAt,
+            compteRendu: null,
+            bonDeVisiteFileId: null,
+            data: serializeVisitBusinessData(visitData),
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+
+        tx.insert(businessLinks)
+          .values({
+            id: crypto.randomUUID(),
+            orgId: input.orgId,
+            typeLien: "rdv_bien",
+            objectId1: visitId,
+            objectId2: input.propertyId,
+            params: "{}",
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+
+        tx.insert(businessLinks)
+          .values({
+            id: crypto.randomUUID(),
+            orgId: input.orgId,
+            typeLien: "rdv_user",
+            objectId1: visitId,
+            objectId2: input.prospectUserId,
+            params: JSON.stringify({ relationRole: "PROSPECT" }),
+            createdAt: now,
+            updatedAt: now,
+          })
+          .run();
+
+        tx.insert(propertyTimelineEvents)
+          .values({
+            id: crypto.randomUUID(),
+            propertyId: input.propertyId,
+            orgId: input.orgId,
+            eventType: "VISIT_SCHEDULED",
+            payload: JSON.stringify({
+              visitId,
+              prospectUserId: input.prospectUserId,
+              startsAt: startsAt.toISOString(),
+              endsAt: endsAt.toISOString(),
+            }),
+            createdAt: now,
+          })
+          .run();
+      },
+      { behavior: "immediate" },
+    );
 
     const createdVisit = {
       id: visitId,
       propertyId: input.propertyId,
       propertyTitle: property.title,
       prospectUserId: prospect.id,
+      agentUserId: input.agentUserId ?? null,
       prospectFirstName: prospect.firstName,
       prospectLastName: prospect.lastName,
       prospectEmail: prospect.email,
@@ -2304,6 +2593,8 @@ export const propertiesService = {
       compteRendu: visitData.compteRendu,
       bonDeVisiteFileId: visitData.bonDeVisiteFileId,
       bonDeVisiteFileName: null,
+      bonDeVisiteSignedAt: null,
+      bonDeVisiteSha256: null,
       createdAt: now.toISOString(),
       updatedAt: now.toISOString(),
     };
@@ -2335,6 +2626,7 @@ export const propertiesService = {
         propertyId: propertyVisits.propertyId,
         propertyTitle: properties.title,
         prospectUserId: propertyVisits.prospectUserId,
+        agentUserId: propertyVisits.agentUserId,
         prospectFirstName: users.firstName,
         prospectLastName: users.lastName,
         prospectEmail: users.email,
@@ -2344,6 +2636,8 @@ export const propertiesService = {
         compteRendu: propertyVisits.compteRendu,
         bonDeVisiteFileId: propertyVisits.bonDeVisiteFileId,
         bonDeVisiteFileName: files.fileName,
+        bonDeVisiteSignedAt: propertyVisits.bonDeVisiteSignedAt,
+        bonDeVisiteSha256: propertyVisits.bonDeVisiteSha256,
         data: propertyVisits.data,
         createdAt: propertyVisits.createdAt,
         updatedAt: propertyVisits.updatedAt,
@@ -2428,6 +2722,10 @@ export const propertiesService = {
       .set({
         compteRendu: nextCompteRendu,
         bonDeVisiteFileId: nextBonDeVisiteFileId,
+        // Un autre fichier remplace le bon signé: sa signature électronique ne s'applique plus.
+        ...(nextBonDeVisiteFileId !== existingVisit.bonDeVisiteFileId
+          ? { bonDeVisiteSignedAt: null, bonDeVisiteSha256: null }
+          : {}),
         data: serializeVisitBusinessData({
           ...existingVisitData,
           compteRendu: nextCompteRendu,
@@ -2493,6 +2791,7 @@ export const propertiesService = {
         propertyId: propertyVisits.propertyId,
         propertyTitle: properties.title,
         prospectUserId: propertyVisits.prospectUserId,
+        agentUserId: propertyVisits.agentUserId,
         prospectFirstName: users.firstName,
         prospectLastName: users.lastName,
         prospectEmail: users.email,
@@ -2502,6 +2801,8 @@ export const propertiesService = {
         compteRendu: propertyVisits.compteRendu,
         bonDeVisiteFileId: propertyVisits.bonDeVisiteFileId,
         bonDeVisiteFileName: files.fileName,
+        bonDeVisiteSignedAt: propertyVisits.bonDeVisiteSignedAt,
+        bonDeVisiteSha256: propertyVisits.bonDeVisiteSha256,
         data: propertyVisits.data,
         createdAt: propertyVisits.createdAt,
         updatedAt: propertyVisits.updatedAt,
@@ -0,0 +1,140 @@
+import { PROPERTY_STATUS_PROGRESSION } from "./statuses";
+
+export type StatusWorkflowGuard =
+  | { type: "FIELD"; field: string; label?: string }
+  | { type: "DOCUMENT"; typeDocument: string; label?: string }
+  | { type: "LINK"; relationRole: string; label?: string };
+
+export type StatusWorkflowTransition = {
+  from: string;
+  to: string;
+  guards: StatusWorkflowGuard[];
+};
+
+export type StatusWorkflow = {
+  transitions: StatusWorkflowTransition[];
+};
+
+export type UnmetStatusGuard = StatusWorkflowGuard & { label: string };
+
+export type StatusTransitionEvaluation =
+  | { allowed: true; unmet: [] }
+  | { allowed: false; reason: "TRANSITION_NOT_ALLOWED"; allowedTargets: string[] }
+  | { allowed: false; reason: "GUARDS_UNMET"; unmet: UnmetStatusGuard[] };
+
+const RELATION_ROLE_LABELS: Record<string, string> = {
+  OWNER: "Propriétaire lié au bien",
+  PROSPECT: "Prospect lié au bien",
+  ACHETEUR: "Acheteur lié au bien",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  price: "Prix de vente",
+  address: "Adresse",
+  city: "Ville",
+  postalCode: "Code postal",
+};
+
+// Sans workflow configuré, tous les changements de statut restent libres et sans garde.
+const buildDefaultStatusWorkflow = (): StatusWorkflow => {
+  const statuses = [...PROPERTY_STATUS_PROGRESSION, "ARCHIVE"];
+
+  return {
+    transitions: statuses.flatMap((from) =>
+      statuses.filter((to) => to !== from).map((to) => ({ from, to, guards: [] })),
+    ),
+  };
+};
+
+export const DEFAULT_STATUS_WORKFLOW: StatusWorkflow = buildDefaultStatusWorkflow();
+
+export const parseStatusWorkflow = (raw: string | null | undefined): StatusWorkflow | null => {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Partial<StatusWorkflow>;
+    return Array.isArray(parsed.transitions) ? { transitions: parsed.transitions } : null;
+  } catch {
+    return null;
+  }
+};
+
+const resolveGuardLabel = (guard: StatusWorkflowGuard): string => {
+  if (guard.label?.trim()) {
+    return guard.label.trim();
+  }
+
+  if (guard.type === "FIELD") {
+    return FIELD_LABELS[guard.field] ?? guard.field;
+  }
+
+  if (guard.type === "DOCUMENT") {
+    return `Document ${guard.typeDocument}`;
+  }
+
+  return RELATION_ROLE_LABELS[guard.relationRole] ?? `Contact ${guard.relationRole} lié au bien`;
+};
+
+const hasValue = (value: unknown): boolean => {
+  if (value === null || value === undefined) {
+    return false;
+  }
+
+  if (typeof value === "string") {
+    return value.trim().length > 0;
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+
+  return true;
+};
+
+export const listAllowedTargetStatuses = (workflow: StatusWorkflow, from: string): string[] =>
+  workflow.transitions
+    .filter((transition) => transition.from === from)
+    .map((transition) => transition.to);
+
+export const evaluateStatusTransition = (input: {
+  workflow: StatusWorkflow;
+  from: string;
+  to: string;
+  fields: Record<string, unknown>;
+  documentTypes: string[];
+  relationRoles: string[];
+}): StatusTransitionEvaluation => {
+  const transition = input.workflow.transitions.find(
+    (item) => item.from === input.from && item.to === input.to,
+  );
+
+  if (!transition) {
+    return {
+      allowed: false,
+      reason: "TRANSITION_NOT_ALLOWED",
+      allowedTargets: listAllowedTargetStatuses(input.workflow, input.from),
+    };
+  }
+
+  const documentTypes = new Set(input.documentTypes);
+  const relationRoles = new Set(input.relationRoles);
+  const unmet = transition.guards
+    .filter((guard) => {
+      if (guard.type === "FIELD") {
+        return !hasValue(input.fields[guard.field]);
+      }
+
+      if (guard.type === "DOCUMENT") {
+        return !documentTypes.has(guard.typeDocument);
+      }
+
+      return !relationRoles.has(guard.relationRole);
+    })
+    .map((guard) => ({ ...guard, label: resolveGuardLabel(guard) }));
+
+  return unmet.length > 0
+    ? { allowed: false, reason: "GUARDS_UNMET", unmet }
+    : { allowed: true, unmet: [] };
+};
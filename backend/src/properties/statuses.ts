@@ -0,0 +1,10 @@
+// Ordre du cycle de vente d'un bien, ARCHIVE étant hors progression.
+export const PROPERTY_STATUS_PROGRESSION = [
+  "PROSPECTION",
+  "MANDAT_SIGNE",
+  "EN_DIFFUSION",
+  "VISITES",
+  "OFFRES",
+  "COMPROMIS",
+  "VENDU",
+];
@@ -0,0 +1,430 @@
+import { and, asc, eq, gt, inArray, isNull, lt, or } from "drizzle-orm";
+import { db } from "../db/client";
+import { calendarEvents, properties, propertyVisits, users } from "../db/schema";
+import { HttpError } from "../http/errors";
+import { DEFAULT_WORKING_HOURS, loadWorkingHours, type WorkingHoursRange } from "../users/working-hours";
+import { parseJsonRecord, readDetail, readNumber } from "./detail-values";
+
+export type VisitSlot = {
+  startsAt: string;
+  endsAt: string;
+  agentUserId: string | null;
+};
+
+type BusyInterval = {
+  type: "VISIT" | "CALENDAR_EVENT";
+  id: string;
+  start: number;
+  end: number;
+  propertyId: string | null;
+  agentUserId: string | null;
+};
+
+type Coordinates = { lat: number; lng: number };
+
+type AvailabilityContext = {
+  busy: BusyInterval[];
+  coordinates: Map<string, Coordinates | null>;
+};
+
+const VISIT_TIME_ZONE = "Europe/Paris";
+const DEFAULT_SLOT_MINUTES = 60;
+const DEFAULT_SEARCH_DAYS = 7;
+const DEFAULT_SLOT_LIMIT = 5;
+const SLOT_STEP_MINUTES = 30;
+// Trajet entre deux biens: marge fixe + parcours à vitesse urbaine, arrondi aux 5 minutes.
+const MIN_TRAVEL_BUFFER_MINUTES = 10;
+const DEFAULT_TRAVEL_BUFFER_MINUTES = 30;
+const TRAVEL_SPEED_KMH = 30;
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const parisParts = (date: Date) => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone: VISIT_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    weekday: "short",
+  }).formatToParts(date);
+  const read = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    year: Number(read("year")),
+    month: Number(read("month")),
+    day: Number(read("day")),
+    hour: Number(read("hour")),
+    minute: Number(read("minute")),
+    weekday: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].indexOf(read("weekday")),
+  };
+};
+
+// Instant UTC correspondant à une heure locale de Paris (gère l'heure d'été).
+const parisTimeToUtc = (year: number, month: number, day: number, minuteOfDay: number): Date => {
+  const guess = new Date(Date.UTC(year, month - 1, day, 0, minuteOfDay));
+  const local = parisParts(guess);
+  const offsetMs = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - guess.getTime();
+  return new Date(guess.getTime() - offsetMs);
+};
+
+const readCoordinates = (details: Record<string, unknown>): Coordinates | null => {
+  const lat = readNumber(readDetail(details, "location", "gpsLat"));
+  const lng = readNumber(readDetail(details, "location", "gpsLng"));
+  return lat !== null && lng !== null ? { lat, lng } : null;
+};
+
+const distanceKm = (from: Coordinates, to: Coordinates): number => {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+const travelBufferMinutes = (
+  context: AvailabilityContext,
+  fromPropertyId: string | null,
+  toPropertyId: string | null,
+): number => {
+  if (fromPropertyId && fromPropertyId === toPropertyId) {
+    return 0;
+  }
+
+  const from = fromPropertyId ? context.coordinates.get(fromPropertyId) : null;
+  const to = toPropertyId ? context.coordinates.get(toPropertyId) : null;
+  if (!from || !to) {
+    return DEFAULT_TRAVEL_BUFFER_MINUTES;
+  }
+
+  const travelMinutes = (distanceKm(from, to) / TRAVEL_SPEED_KMH) * 60;
+  return MIN_TRAVEL_BUFFER_MINUTES + Math.ceil(travelMinutes / 5) * 5;
+};
+
+// Une visite sans agent n'occupe que son bien; l'agenda synchronisé bloque tous les agents.
+const findConflicts = (
+  context: AvailabilityContext,
+  input: { agentUserId: string | null; propertyId: string | null; start: number; end: number },
+) =>
+  context.busy.flatMap((interval) => {
+    const sameProperty = interval.propertyId !== null && interval.propertyId === input.propertyId;
+    if (!input.agentUserId || (interval.type === "VISIT" && !interval.agentUserId)) {
+      if (!sameProperty) {
+        return [];
+      }
+    } else if (interval.agentUserId && interval.agentUserId !== input.agentUserId) {
+      return [];
+    }
+
+    const bufferMinutes =
+      interval.type === "VISIT" ? travelBufferMinutes(context, interval.propertyId, input.propertyId) : 0;
+    const bufferMs = bufferMinutes * MINUTE_MS;
+    if (input.start < interval.end + bufferMs && input.end > interval.start - bufferMs) {
+      return [{ interval, bufferMinutes }];
+    }
+
+    return [];
+  });
+
+const isWithinWorkingHours = (ranges: WorkingHoursRange[], start: Date, end: Date): boolean => {
+  const startParts = parisParts(start);
+  const endParts = parisParts(new Date(end.getTime() - 1));
+  if (startParts.year !== endParts.year || startParts.month !== endParts.month || startParts.day !== endParts.day) {
+    return false;
+  }
+
+  const startMinute = startParts.hour * 60 + startParts.minute;
+  const endMinute = startMinute + Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+  return ranges.some(
+    (range) =>
+      range.weekday === startParts.weekday && range.startMinute <= startMinute && endMinute <= range.endMinute,
+  );
+};
+
+const loadAvailabilityContext = async (input: {
+  orgId: string;
+  propertyId: string | null;
+  from: Date;
+  until: Date;
+  excludeVisitId?: string;
+}): Promise<AvailabilityContext> => {
+  // Fenêtre élargie d'un jour pour tenir compte des temps de trajet autour des bornes.
+  const windowStart = new Date(input.from.getTime() - DAY_MS);
+  const windowEnd = new Date(input.until.getTime() + DAY_MS);
+
+  const [visits, events] = await Promise.all([
+    db
+      .select({
+        id: propertyVisits.id,
+        propertyId: propertyVisits.propertyId,
+        agentUserId: propertyVisits.agentUserId,
+        startsAt: propertyVisits.startsAt,
+        endsAt: propertyVisits.endsAt,
+      })
+      .from(propertyVisits)
+      .where(
+        and(
+          eq(propertyVisits.orgId, input.orgId),
+          lt(propertyVisits.startsAt, windowEnd),
+          gt(propertyVisits.endsAt, windowStart),
+        ),
+      ),
+    db
+      .select({ id: calendarEvents.id, startsAt: calendarEvents.startsAt, endsAt: calendarEvents.endsAt })
+      .from(calendarEvents)
+      .where(
+        and(
+          eq(calendarEvents.orgId, input.orgId),
+          lt(calendarEvents.startsAt, windowEnd),
+          gt(calendarEvents.endsAt, windowStart),
+        ),
+      ),
+  ]);
+
+  const busy: BusyInterval[] = [
+    ...visits
+      .filter((visit) => visit.id !== input.excludeVisitId)
+      .map((visit) => ({
+        type: "VISIT" as const,
+        id: visit.id,
+        start: visit.startsAt.getTime(),
+        end: visit.endsAt.getTime(),
+        propertyId: visit.propertyId,
+        agentUserId: visit.agentUserId,
+      })),
+    ...events.map((event) => ({
+      type: "CALENDAR_EVENT" as const,
+      id: event.id,
+      start: event.startsAt.getTime(),
+      end: event.endsAt.getTime(),
+      propertyId: null,
+      agentUserId: null,
+    })),
+  ];
+
+  const propertyIds = [
+    ...new Set(
+      [input.propertyId, ...busy.map((interval) => interval.propertyId)].filter(
+        (propertyId): propertyId is string => Boolean(propertyId),
+      ),
+    ),
+  ];
+  const coordinates = new Map<string, Coordinates | null>();
+  if (propertyIds.length > 0) {
+    const rows = await db
+      .select({ id: properties.id, details: properties.details })
+      .from(properties)
+      .where(and(eq(properties.orgId, input.orgId), inArray(properties.id, propertyIds)));
+    for (const row of rows) {
+      coordinates.set(row.id, readCoordinates(parseJsonRecord(row.details)));
+    }
+  }
+
+  return { busy, coordinates };
+};
+
+const assertAgent = async (orgId: string, agentUserId: string) => {
+  const agent = await db.query.users.findFirst({
+    where: and(eq(users.id, agentUserId), eq(users.orgId, orgId)),
+  });
+
+  if (!agent) {
+    throw new HttpError(404, "USER_NOT_FOUND", "Agent introuvable");
+  }
+
+  if (agent.accountType !== "AGENT") {
+    throw new HttpError(400, "VISIT_AGENT_MUST_BE_AGENT", "La visite doit etre confiee a un agent");
+  }
+};
+
+// Agents candidats: celui demandé, sinon tous les agents de l'organisation (ou l'agence seule s'il n'y en a pas).
+const resolveAgents = async (orgId: string, agentUserId?: string): Promise<Array<string | null>> => {
+  if (agentUserId) {
+    await assertAgent(orgId, agentUserId);
+    return [agentUserId];
+  }
+
+  const agents = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.orgId, orgId), eq(users.accountType, "AGENT")))
+    .orderBy(asc(users.createdAt));
+  return agents.length > 0 ? agents.map((agent) => agent.id) : [null];
+};
+
+// Créneaux libres: plages de travail des agents, hors visites (trajet compris) et hors agenda synchronisé.
+export const listFreeVisitSlots = async (input: {
+  orgId: string;
+  propertyId?: string;
+  agentUserId?: string;
+  from?: Date;
+  days?: number;
+  durationMinutes?: number;
+  limit?: number;
+}): Promise<VisitSlot[]> => {
+  const from = input.from ?? new Date();
+  const days = input.days ?? DEFAULT_SEARCH_DAYS;
+  const until = new Date(from.getTime() + days * DAY_MS);
+  const durationMinutes = input.durationMinutes ?? DEFAULT_SLOT_MINUTES;
+  const limit = input.limit ?? DEFAULT_SLOT_LIMIT;
+
+  const agents = await resolveAgents(input.orgId, input.agentUserId);
+  const [workingHours, context] = await Promise.all([
+    loadWorkingHours(
+      input.orgId,
+      agents.filter((agent): agent is string => agent !== null),
+    ),
+    loadAvailabilityContext({ orgId: input.orgId, propertyId: input.propertyId ?? null, from, until }),
+  ]);
+  const hoursOf = (agent: string | null) => (agent ? workingHours.get(agent) : null) ?? DEFAULT_WORKING_HOURS;
+
+  const firstDay = parisParts(from);
+  const slots: VisitSlot[] = [];
+  for (let offset = 0; offset <= days && slots.length < limit; offset += 1) {
+    const calendarDay = new Date(Date.UTC(firstDay.year, firstDay.month - 1, firstDay.day + offset));
+    const year = calendarDay.getUTCFullYear();
+    const month = calendarDay.getUTCMonth() + 1;
+    const day = calendarDay.getUTCDate();
+    const weekday = calendarDay.getUTCDay();
+
+    const candidateStarts = new Set<number>();
+    for (const agent of agents) {
+      for (const range of hoursOf(agent).filter((item) => item.weekday === weekday)) {
+        for (
+          let minute = range.startMinute;
+          minute + durationMinutes <= range.endMinute;
+          minute += SLOT_STEP_MINUTES
+        ) {
+          candidateStarts.add(minute);
+        }
+      }
+    }
+
+    for (const minute of [...candidateStarts].sort((left, right) => left - right)) {
+      if (slots.length >= limit) {
+        break;
+      }
+
+      const start = parisTimeToUtc(year, month, day, minute);
+      const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+      if (start.getTime() < from.getTime() || start.getTime() >= until.getTime()) {
+        continue;
+      }
+
+      const agent = agents.find(
+        (candidate) =>
+          isWithinWorkingHours(hoursOf(candidate), start, end) &&
+          findConflicts(context, {
+            agentUserId: candidate,
+            propertyId: input.propertyId ?? null,
+            start: start.getTime(),
+            end: end.getTime(),
+          }).length === 0,
+      );
+      if (agent !== undefined) {
+        slots.push({ startsAt: start.toISOString(), endsAt: end.toISOString(), agentUserId: agent });
+      }
+    }
+  }
+
+  return slots;
+};
+
+type VisitTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Vérifie que le créneau est libre: pour un agent, dans ses horaires et sans trajet impossible;
+// sans agent, contre les seules visites du même bien.
+export const assertVisitSlotAvailable = async (input: {
+  orgId: string;
+  propertyId: string;
+  agentUserId?: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  excludeVisitId?: string;
+}) => {
+  const agentUserId = input.agentUserId ?? null;
+  if (agentUserId) {
+    await assertAgent(input.orgId, agentUserId);
+  }
+  const [workingHours, context] = await Promise.all([
+    loadWorkingHours(input.orgId, agentUserId ? [agentUserId] : []),
+    loadAvailabilityContext({
+      orgId: input.orgId,
+      propertyId: input.propertyId,
+      from: input.startsAt,
+      until: input.endsAt,
+      excludeVisitId: input.excludeVisitId,
+    }),
+  ]);
+
+  if (
+    agentUserId &&
+    !isWithinWorkingHours(workingHours.get(agentUserId) ?? DEFAULT_WORKING_HOURS, input.startsAt, input.endsAt)
+  ) {
+    throw new HttpError(
+      400,
+      "VISIT_OUTSIDE_WORKING_HOURS",
+      "Le creneau est en dehors des horaires de l'agent",
+    );
+  }
+
+  const conflicts = findConflicts(context, {
+    agentUserId,
+    propertyId: input.propertyId,
+    start: input.startsAt.getTime(),
+    end: input.endsAt.getTime(),
+  });
+  if (conflicts.length > 0) {
+    throw new HttpError(409, "VISIT_SLOT_CONFLICT", "Le creneau est deja occupe", {
+      conflicts: conflicts.map(({ interval, bufferMinutes }) => ({
+        type: interval.type,
+        id: interval.id,
+        startsAt: new Date(interval.start).toISOString(),
+        endsAt: new Date(interval.end).toISOString(),
+        bufferMinutes,
+      })),
+    });
+  }
+};
+
+// Dernier contrôle, synchrone, dans la transaction d'insertion: deux réservations simultanées
+// ne peuvent pas prendre le même créneau entre la vérification et l'écriture.
+export const assertNoOverlappingVisit = (
+  tx: VisitTransaction,
+  input: { orgId: string; propertyId: string; agentUserId?: string | null; startsAt: Date; endsAt: Date },
+) => {
+  const overlapping = tx
+    .select({ id: propertyVisits.id, startsAt: propertyVisits.startsAt, endsAt: propertyVisits.endsAt })
+    .from(propertyVisits)
+    .where(
+      and(
+        eq(propertyVisits.orgId, input.orgId),
+        lt(propertyVisits.startsAt, input.endsAt),
+        gt(propertyVisits.endsAt, input.startsAt),
+        input.agentUserId
+          ? or(
+              eq(propertyVisits.agentUserId, input.agentUserId),
+              and(isNull(propertyVisits.agentUserId), eq(propertyVisits.propertyId, input.propertyId)),
+            )
+          : eq(propertyVisits.propertyId, input.propertyId),
+      ),
+    )
+    .all();
+
+  if (overlapping.length > 0) {
+    throw new HttpError(409, "VISIT_SLOT_CONFLICT", "Le creneau est deja occupe", {
+      conflicts: overlapping.map((visit) => ({
+        type: "VISIT",
+        id: visit.id,
+        startsAt: visit.startsAt.toISOString(),
+        endsAt: visit.endsAt.toISOString(),
+        bufferMinutes: 0,
+      })),
+    });
+  }
+};
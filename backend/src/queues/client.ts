@@ -14,6 +14,7 @@ export type AiQueueClient = {
   processMessage: QueueWriter<AiJobPayloadByKey["processMessage"]>;
   processFile: QueueWriter<AiJobPayloadByKey["processFile"]>;
   transcribeVocal: QueueWriter<AiJobPayloadByKey["transcribeVocal"]>;
+  transcribeVocalChunk: QueueWriter<AiJobPayloadByKey["transcribeVocalChunk"]>;
   detectVocalType: QueueWriter<AiJobPayloadByKey["detectVocalType"]>;
   extractInitialVisitPropertyParams: QueueWriter<
     AiJobPayloadByKey["extractInitialVisitPropertyParams"]
@@ -25,6 +26,7 @@ export type AiBullQueueClient = {
   processMessage: Queue<AiJobPayloadByKey["processMessage"]>;
   processFile: Queue<AiJobPayloadByKey["processFile"]>;
   transcribeVocal: Queue<AiJobPayloadByKey["transcribeVocal"]>;
+  transcribeVocalChunk: Queue<AiJobPayloadByKey["transcribeVocalChunk"]>;
   detectVocalType: Queue<AiJobPayloadByKey["detectVocalType"]>;
   extractInitialVisitPropertyParams: Queue<
     AiJobPayloadByKey["extractInitialVisitPropertyParams"]
@@ -57,6 +59,11 @@ export const createAiQueueClient = (input: {
     input.connection,
     input.defaultJobOptions,
   ),
+  transcribeVocalChunk: createQueue(
+    AI_QUEUE_NAMES.transcribeVocalChunk,
+    input.connection,
+    input.defaultJobOptions,
+  ),
   detectVocalType: createQueue(
     AI_QUEUE_NAMES.detectVocalType,
     input.connection,
@@ -123,6 +130,13 @@ export const enqueueAiTranscribeVocal = (
   options?: JobsOptions,
 ) => queueClient.transcribeVocal.add(AI_JOB_NAMES.transcribeVocal, payload, options);
 
+export const enqueueAiTranscribeVocalChunk = (
+  queueClient: Pick<AiQueueClient, "transcribeVocalChunk">,
+  payload: AiJobPayloadByKey["transcribeVocalChunk"],
+  options?: JobsOptions,
+) =>
+  queueClient.transcribeVocalChunk.add(AI_JOB_NAMES.transcribeVocalChunk, payload, options);
+
 export const enqueueAiDetectVocalType = (
   queueClient: Pick<AiQueueClient, "detectVocalType">,
   payload: AiJobPayloadByKey["detectVocalType"],
@@ -0,0 +1,27 @@
+import { closingService } from "../closing/service";
+import { createPeriodicScanLoop, parsePositiveInteger } from "./periodic-scan";
+
+type EnvLike = Record<string, string | undefined>;
+
+export type ClosingDeadlinesConfig = {
+  intervalMs: number;
+};
+
+export const resolveClosingDeadlinesConfig = (
+  env: EnvLike = process.env,
+): ClosingDeadlinesConfig => ({
+  intervalMs: parsePositiveInteger(env.CLOSING_DEADLINES_INTERVAL_MS, 6 * 60 * 60 * 1000),
+});
+
+const closingDeadlinesLoop = createPeriodicScanLoop({
+  logLabel: "[Compromis] closing.deadlines",
+  resolveIntervalMs: (env) => resolveClosingDeadlinesConfig(env).intervalMs,
+  scan: () => closingService.runDeadlineChecks(),
+  describeSummary: (summary) => (summary.alertsCreated > 0 ? `alerts=${summary.alertsCreated}` : null),
+});
+
+export const startClosingDeadlinesLoop = (env: EnvLike = process.env): void => {
+  closingDeadlinesLoop.start(env);
+};
+
+export const stopClosingDeadlinesLoop = (): Promise<void> => closingDeadlinesLoop.stop();
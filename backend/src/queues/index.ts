@@ -1,7 +1,9 @@
 export * from "./client";
+export * from "./closing-deadlines";
 export * from "./config";
 export * from "./connection";
 export * from "./dispatch";
+export * from "./mandate-expiry";
 export * from "./metrics";
 export * from "./processors";
 export * from "./recovery";
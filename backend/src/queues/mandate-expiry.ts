@@ -0,0 +1,28 @@
+import { mandatesService } from "../mandates/service";
+import { createPeriodicScanLoop, parsePositiveInteger } from "./periodic-scan";
+
+type EnvLike = Record<string, string | undefined>;
+
+export type MandateExpiryConfig = {
+  intervalMs: number;
+};
+
+export const resolveMandateExpiryConfig = (env: EnvLike = process.env): MandateExpiryConfig => ({
+  intervalMs: parsePositiveInteger(env.MANDATE_EXPIRY_INTERVAL_MS, 6 * 60 * 60 * 1000),
+});
+
+const mandateExpiryLoop = createPeriodicScanLoop({
+  logLabel: "[Mandats] mandate.expiry",
+  resolveIntervalMs: (env) => resolveMandateExpiryConfig(env).intervalMs,
+  scan: () => mandatesService.runExpiryChecks(),
+  describeSummary: (summary) =>
+    summary.alertsCreated > 0 || summary.expiredEvents > 0
+      ? `alerts=${summary.alertsCreated} expired=${summary.expiredEvents}`
+      : null,
+});
+
+export const startMandateExpiryLoop = (env: EnvLike = process.env): void => {
+  mandateExpiryLoop.start(env);
+};
+
+export const stopMandateExpiryLoop = (): Promise<void> => mandateExpiryLoop.stop();
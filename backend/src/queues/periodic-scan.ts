@@ -0,0 +1,79 @@
+type EnvLike = Record<string, string | undefined>;
+
+export type PeriodicScanLoop = {
+  start: (env?: EnvLike) => void;
+  stop: () => Promise<void>;
+};
+
+export const parsePositiveInteger = (raw: string | undefined, fallback: number): number => {
+  if (raw === undefined) {
+    return fallback;
+  }
+
+  const parsed = Number(raw);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    return fallback;
+  }
+
+  return parsed;
+};
+
+// Boucle d'analyse périodique: une passe au démarrage puis à intervalle fixe, sans chevauchement.
+export const createPeriodicScanLoop = <TSummary>(input: {
+  logLabel: string;
+  resolveIntervalMs: (env: EnvLike) => number;
+  scan: () => Promise<TSummary>;
+  describeSummary: (summary: TSummary) => string | null;
+}): PeriodicScanLoop => {
+  let interval: ReturnType<typeof setInterval> | null = null;
+  let passInFlight: Promise<void> | null = null;
+
+  const runPassSafely = async (): Promise<void> => {
+    if (passInFlight) {
+      return passInFlight;
+    }
+
+    passInFlight = input
+      .scan()
+      .then((summary) => {
+        const description = input.describeSummary(summary);
+        if (description) {
+          console.info(`${input.logLabel} ${description}`);
+        }
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : "Erreur inconnue";
+        console.error(`${input.logLabel} error=${message}`);
+      })
+      .finally(() => {
+        passInFlight = null;
+      });
+
+    return passInFlight;
+  };
+
+  return {
+    start(env = process.env) {
+      if (interval) {
+        return;
+      }
+
+      const intervalMs = input.resolveIntervalMs(env);
+      void runPassSafely();
+      interval = setInterval(() => {
+        void runPassSafely();
+      }, intervalMs);
+    },
+
+    async stop() {
+      if (interval) {
+        clearInterval(interval);
+        interval = null;
+      }
+
+      if (passInFlight) {
+        await passInFlight;
+      }
+    },
+  };
+};
@@ -19,6 +19,7 @@ type AiJobHandlers = Pick<
   | "processMessage"
   | "processFile"
   | "transcribeVocal"
+  | "transcribeVocalChunk"
   | "detectVocalType"
   | "extractInitialVisitPropertyParams"
   | "extractVocalInsights"
@@ -61,6 +62,19 @@ export const createAiProcessorMap = (handlers: AiJobHandlers = aiJobsService): A
       processedAt: new Date().toISOString(),
     };
   },
+  transcribeVocalChunk: async (job) => {
+    await handlers.transcribeVocalChunk({
+      orgId: job.data.orgId,
+      vocalId: job.data.vocalId,
+      chunkIndex: job.data.chunkIndex,
+    });
+
+    return {
+      queue: "transcribeVocalChunk",
+      jobId: job.id,
+      processedAt: new Date().toISOString(),
+    };
+  },
   detectVocalType: async (job) => {
     await handlers.detectVocalType({
       orgId: job.data.orgId,
@@ -2,6 +2,7 @@ export const AI_QUEUE_NAMES = {
   processMessage: "ai.process-message",
   processFile: "ai.process-file",
   transcribeVocal: "ai.transcribe-vocal",
+  transcribeVocalChunk: "ai.transcribe-vocal-chunk",
   detectVocalType: "ai.detect-vocal-type",
   extractInitialVisitPropertyParams: "ai.extract-initial-visit-property-params",
   extractVocalInsights: "ai.extract-vocal-insights",
@@ -11,6 +12,7 @@ export const AI_JOB_NAMES = {
   processMessage: "process-message",
   processFile: "process-file",
   transcribeVocal: "transcribe-vocal",
+  transcribeVocalChunk: "transcribe-vocal-chunk",
   detectVocalType: "detect-vocal-type",
   extractInitialVisitPropertyParams: "extract-initial-visit-property-params",
   extractVocalInsights: "extract-vocal-insights",
@@ -33,6 +35,12 @@ export type AiTranscribeVocalPayload = {
   vocalId: string;
 };
 
+export type AiTranscribeVocalChunkPayload = {
+  orgId: string;
+  vocalId: string;
+  chunkIndex: number;
+};
+
 export type AiDetectVocalTypePayload = {
   orgId: string;
   vocalId: string;
@@ -52,6 +60,7 @@ export type AiJobPayloadByKey = {
   processMessage: AiProcessMessagePayload;
   processFile: AiProcessFilePayload;
   transcribeVocal: AiTranscribeVocalPayload;
+  transcribeVocalChunk: AiTranscribeVocalChunkPayload;
   detectVocalType: AiDetectVocalTypePayload;
   extractInitialVisitPropertyParams: AiExtractInitialVisitPropertyParamsPayload;
   extractVocalInsights: AiExtractVocalInsightsPayload;
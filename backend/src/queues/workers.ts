@@ -18,6 +18,7 @@ export type AiWorkers = {
   processMessage: Worker<AiJobPayloadByKey["processMessage"]>;
   processFile: Worker<AiJobPayloadByKey["processFile"]>;
   transcribeVocal: Worker<AiJobPayloadByKey["transcribeVocal"]>;
+  transcribeVocalChunk: Worker<AiJobPayloadByKey["transcribeVocalChunk"]>;
   detectVocalType: Worker<AiJobPayloadByKey["detectVocalType"]>;
   extractInitialVisitPropertyParams: Worker<
     AiJobPayloadByKey["extractInitialVisitPropertyParams"]
@@ -39,6 +40,7 @@ const VOCAL_FAILURE_STEP_BY_QUEUE: Partial<
   Record<AiQueueKey, VocalRecoveryStep | "INSIGHTS" | "INITIAL_VISIT_PARAMS">
 > = {
   transcribeVocal: "TRANSCRIBE",
+  transcribeVocalChunk: "TRANSCRIBE",
   detectVocalType: "DETECT_TYPE",
   extractVocalInsights: "INSIGHTS",
   extractInitialVisitPropertyParams: "INITIAL_VISIT_PARAMS",
@@ -194,6 +196,11 @@ export const createAiWorkers = (input: {
       processors.transcribeVocal,
       workerOptions,
     ),
+    transcribeVocalChunk: new Worker<AiJobPayloadByKey["transcribeVocalChunk"]>(
+      AI_QUEUE_NAMES.transcribeVocalChunk,
+      processors.transcribeVocalChunk,
+      workerOptions,
+    ),
     detectVocalType: new Worker<AiJobPayloadByKey["detectVocalType"]>(
       AI_QUEUE_NAMES.detectVocalType,
       processors.detectVocalType,
@@ -224,6 +231,11 @@ export const createAiWorkers = (input: {
     "transcribeVocal",
     AI_QUEUE_NAMES.transcribeVocal,
   );
+  bindWorkerInstrumentation(
+    workers.transcribeVocalChunk,
+    "transcribeVocalChunk",
+    AI_QUEUE_NAMES.transcribeVocalChunk,
+  );
   bindWorkerInstrumentation(
     workers.detectVocalType,
     "detectVocalType",
@@ -0,0 +1,563 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { commissionsService, type CommissionSnapshot } from "../commissions/service";
+import { db } from "../db/client";
+import { properties, propertyTimelineEvents, users } from "../db/schema";
+import { HttpError } from "../http/errors";
+import { MARKET_PROPERTY_TYPES, type MarketPropertyType } from "../properties/dvf-client";
+
+const PIPELINE_STATUSES = [
+  "PROSPECTION",
+  "MANDAT_SIGNE",
+  "EN_DIFFUSION",
+  "VISITES",
+  "OFFRES",
+  "COMPROMIS",
+  "VENDU",
+  "ARCHIVE",
+] as const;
+
+// Colonnes actives du pipeline: un bien vendu ou archivé n'est jamais dormant.
+const ACTIVE_PIPELINE_STATUSES = PIPELINE_STATUSES.filter(
+  (status) => status !== "VENDU" && status !== "ARCHIVE",
+);
+
+const FUNNEL_PROGRESSION = PIPELINE_STATUSES.filter((status) => status !== "ARCHIVE") as string[];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_STALE_AFTER_DAYS = 30;
+
+type RevenueKind = "signed" | "collected";
+
+type RevenueBucket = {
+  signedFees: number;
+  collectedFees: number;
+  signedCount: number;
+  collectedCount: number;
+};
+
+type CountedEvent = {
+  kind: RevenueKind;
+  propertyId: string;
+  occurredAt: Date;
+  commission: CommissionSnapshot;
+};
+
+const emptyBucket = (): RevenueBucket => ({
+  signedFees: 0,
+  collectedFees: 0,
+  signedCount: 0,
+  collectedCount: 0,
+});
+
+const addToBucket = (bucket: RevenueBucket, kind: RevenueKind, amount: number) => {
+  if (kind === "signed") {
+    bucket.signedFees += amount;
+    bucket.signedCount += 1;
+  } else {
+    bucket.collectedFees += amount;
+    bucket.collectedCount += 1;
+  }
+};
+
+const parseBound = (raw: string | undefined, code: string, message: string): Date | null => {
+  if (!raw) {
+    return null;
+  }
+
+  const parsed = new Date(raw);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new HttpError(400, code, message);
+  }
+
+  return parsed;
+};
+
+const parsePayload = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const readCommissionPayload = (value: unknown): CommissionSnapshot | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const amount = (key: string) => (typeof record[key] === "number" ? (record[key] as number) : 0);
+  const userId = (key: string) => (typeof record[key] === "string" ? (record[key] as string) : null);
+
+  return {
+    feesAmount: amount("feesAmount"),
+    listingAgentUserId: userId("listingAgentUserId"),
+    listingAgentAmount: amount("listingAgentAmount"),
+    sellingAgentUserId: userId("sellingAgentUserId"),
+    sellingAgentAmount: amount("sellingAgentAmount"),
+    agencyAmount: amount("agencyAmount"),
+  };
+};
+
+const toMonthKey = (date: Date): string => date.toISOString().slice(0, 7);
+
+const readPropertyType = (rawDetails: string): MarketPropertyType | null => {
+  const details = parsePayload(rawDetails);
+  const general =
+    details.general && typeof details.general === "object" && !Array.isArray(details.general)
+      ? (details.general as Record<string, unknown>)
+      : {};
+  const value = general.propertyType ?? details.propertyType;
+
+  return typeof value === "string" && MARKET_PROPERTY_TYPES.includes(value as MarketPropertyType)
+    ? (value as MarketPropertyType)
+    : null;
+};
+
+const toDays = (ms: number): number => Math.round((ms / DAY_MS) * 10) / 10;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+};
+
+const toRate = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : null;
+
+const toPercent = (rate: number | null): string =>
+  rate === null ? "" : `${(rate * 100).toFixed(1).replace(".", ",")} %`;
+
+const readPrice = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+const escapeCsvValue = (value: string | number | null): string => {
+  if (value === null) {
+    return "";
+  }
+
+  const text = String(value);
+  return /[";\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+};
+
+type PipelineFilters = {
+  orgId: string;
+  agentUserId?: string;
+  city?: string;
+  propertyType?: string;
+  staleAfterDays?: string;
+  now?: Date;
+};
+
+type PropertyHistory = {
+  propertyId: string;
+  title: string;
+  city: string;
+  status: string;
+  currentStatusSince: Date;
+  stays: Array<{ status: string; durationMs: number }>;
+  visited: Set<string>;
+  soldAt: Date | null;
+  priceChanges: Array<{ from: number | null; to: number | null; at: Date }>;
+};
+
+export const reportsService = {
+  async revenue(input: { orgId: string; from?: string; to?: string }) {
+    const from = parseBound(input.from, "INVALID_REPORT_FROM", "La borne de début est invalide");
+    const to = parseBound(input.to, "INVALID_REPORT_TO", "La borne de fin est invalide");
+
+    const events = await db
+      .select()
+      .from(propertyTimelineEvents)
+      .where(
+        and(
+          eq(propertyTimelineEvents.orgId, input.orgId),
+          eq(propertyTimelineEvents.eventType, "PROPERTY_STATUS_CHANGED"),
+        ),
+      )
+      .orderBy(asc(propertyTimelineEvents.createdAt));
+
+    const currentSnapshots = await commissionsService.listSnapshots({ orgId: input.orgId });
+
+    // Rejoue l'historique: un compromis annulé ou une vente défaite ne compte plus.
+    const signedByProperty = new Map<string, CountedEvent>();
+    const collectedByProperty = new Map<string, CountedEvent>();
+    for (const event of events) {
+      const payload = parsePayload(event.payload);
+      const commission =
+        readCommissionPayload(payload.commission) ?? currentSnapshots.get(event.propertyId) ?? null;
+
+      if (payload.from === "COMPROMIS" && payload.to !== "VENDU") {
+        signedByProperty.delete(event.propertyId);
+      }
+      if (payload.from === "VENDU" && payload.to !== "VENDU") {
+        collectedByProperty.delete(event.propertyId);
+      }
+
+      if (!commission || payload.from === payload.to) {
+        continue;
+      }
+
+      if (payload.to === "COMPROMIS") {
+        signedByProperty.set(event.propertyId, {
+          kind: "signed",
+          propertyId: event.propertyId,
+          occurredAt: event.createdAt,
+          commission,
+        });
+      }
+      if (payload.to === "VENDU") {
+        collectedByProperty.set(event.propertyId, {
+          kind: "collected",
+          propertyId: event.propertyId,
+          occurredAt: event.createdAt,
+          commission,
+        });
+      }
+    }
+
+    const counted = [...signedByProperty.values(), ...collectedByProperty.values()].filter(
+      (event) => (!from || event.occurredAt >= from) && (!to || event.occurredAt < to),
+    );
+
+    const propertyIds = [...new Set(counted.map((event) => event.propertyId))];
+    const agentIds = [
+      ...new Set(
+        counted.flatMap((event) =>
+          [event.commission.listingAgentUserId, event.commission.sellingAgentUserId].filter(
+            (id): id is string => Boolean(id),
+          ),
+        ),
+      ),
+    ];
+
+    const [propertyRows, agentRows] = await Promise.all([
+      propertyIds.length > 0
+        ? db
+            .select({ id: properties.id, city: properties.city })
+            .from(properties)
+            .where(and(eq(properties.orgId, input.orgId), inArray(properties.id, propertyIds)))
+        : Promise.resolve([]),
+      agentIds.length > 0
+        ? db
+            .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+            .from(users)
+            .where(and(eq(users.orgId, input.orgId), inArray(users.id, agentIds)))
+        : Promise.resolve([]),
+    ]);
+    const cityByProperty = new Map(propertyRows.map((row) => [row.id, row.city]));
+    const agentById = new Map(agentRows.map((row) => [row.id, row]));
+
+    const totals = { ...emptyBucket(), agencySignedFees: 0, agencyCollectedFees: 0 };
+    const byMonth = new Map<string, RevenueBucket>();
+    const byAgent = new Map<string, RevenueBucket>();
+    const byCity = new Map<string, RevenueBucket>();
+    const bucketFor = (map: Map<string, RevenueBucket>, key: string) => {
+      const existing = map.get(key);
+      if (existing) {
+        return existing;
+      }
+      const created = emptyBucket();
+      map.set(key, created);
+      return created;
+    };
+
+    for (const event of counted) {
+      const { commission, kind } = event;
+      addToBucket(totals, kind, commission.feesAmount);
+      if (kind === "signed") {
+        totals.agencySignedFees += commission.agencyAmount;
+      } else {
+        totals.agencyCollectedFees += commission.agencyAmount;
+      }
+
+      addToBucket(bucketFor(byMonth, toMonthKey(event.occurredAt)), kind, commission.feesAmount);
+      addToBucket(
+        bucketFor(byCity, cityByProperty.get(event.propertyId) ?? "Inconnue"),
+        kind,
+        commission.feesAmount,
+      );
+
+      const agentShares = new Map<string, number>();
+      for (const [userId, amount] of [
+        [commission.listingAgentUserId, commission.listingAgentAmount],
+        [commission.sellingAgentUserId, commission.sellingAgentAmount],
+      ] as const) {
+        if (userId) {
+          agentShares.set(userId, (agentShares.get(userId) ?? 0) + amount);
+        }
+      }
+      for (const [userId, amount] of agentShares) {
+        addToBucket(bucketFor(byAgent, userId), kind, amount);
+      }
+    }
+
+    return {
+      from: from?.toISOString() ?? null,
+      to: to?.toISOString() ?? null,
+      totals,
+      byMonth: [...byMonth.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, bucket]) => ({ month, ...bucket })),
+      byAgent: [...byAgent.entries()]
+        .map(([userId, bucket]) => ({
+          userId,
+          firstName: agentById.get(userId)?.firstName ?? null,
+          lastName: agentById.get(userId)?.lastName ?? null,
+          ...bucket,
+        }))
+        .sort((a, b) => b.signedFees + b.collectedFees - (a.signedFees + a.collectedFees)),
+      byCity: [...byCity.entries()]
+        .map(([city, bucket]) => ({ city, ...bucket }))
+        .sort((a, b) => a.city.localeCompare(b.city, "fr")),
+    };
+  },
+
+  async pipeline(input: PipelineFilters) {
+    const now = input.now ?? new Date();
+    const propertyType = input.propertyType?.trim() || null;
+    if (propertyType && !MARKET_PROPERTY_TYPES.includes(propertyType as MarketPropertyType)) {
+      throw new HttpError(400, "INVALID_REPORT_PROPERTY_TYPE", "Type de bien invalide");
+    }
+
+    const staleAfterDays =
+      input.staleAfterDays === undefined ? DEFAULT_STALE_AFTER_DAYS : Number(input.staleAfterDays);
+    if (!Number.isInteger(staleAfterDays) || staleAfterDays < 1) {
+      throw new HttpError(
+        400,
+        "INVALID_REPORT_STALE_AFTER_DAYS",
+        "Le seuil de dormance doit être un nombre de jours positif",
+      );
+    }
+
+    const city = input.city?.trim().toLocaleLowerCase("fr") || null;
+    const agentUserId = input.agentUserId?.trim() || null;
+
+    const [propertyRows, events, snapshots] = await Promise.all([
+      db.select().from(properties).where(eq(properties.orgId, input.orgId)),
+      db
+        .select()
+        .from(propertyTimelineEvents)
+        .where(
+          and(
+            eq(propertyTimelineEvents.orgId, input.orgId),
+            inArray(propertyTimelineEvents.eventType, [
+              "PROPERTY_STATUS_CHANGED",
+              "PROPERTY_PRICE_CHANGED",
+            ]),
+          ),
+        )
+        .orderBy(asc(propertyTimelineEvents.createdAt)),
+      agentUserId ? commissionsService.listSnapshots({ orgId: input.orgId }) : Promise.resolve(null),
+    ]);
+
+    // L'agent d'un bien est celui qui figure dans la répartition des honoraires.
+    const matchingProperties = propertyRows.filter((property) => {
+      if (city && property.city.trim().toLocaleLowerCase("fr") !== city) {
+        return false;
+      }
+      if (propertyType && readPropertyType(property.details) !== propertyType) {
+        return false;
+      }
+      if (agentUserId) {
+        const snapshot = snapshots?.get(property.id);
+        return (
+          snapshot?.listingAgentUserId === agentUserId || snapshot?.sellingAgentUserId === agentUserId
+        );
+      }
+      return true;
+    });
+
+    const eventsByProperty = new Map<string, typeof events>();
+    for (const event of events) {
+      const list = eventsByProperty.get(event.propertyId) ?? [];
+      list.push(event);
+      eventsByProperty.set(event.propertyId, list);
+    }
+
+    const histories: PropertyHistory[] = matchingProperties.map((property) => {
+      const propertyEvents = eventsByProperty.get(property.id) ?? [];
+      const firstStatusEvent = propertyEvents.find(
+        (event) => event.eventType === "PROPERTY_STATUS_CHANGED",
+      );
+      const initialStatus = firstStatusEvent
+        ? String(parsePayload(firstStatusEvent.payload).from ?? property.status)
+        : property.status;
+
+      const history: PropertyHistory = {
+        propertyId: property.id,
+        title: property.title,
+        city: property.city,
+        status: property.status,
+        currentStatusSince: property.createdAt,
+        stays: [],
+        visited: new Set([initialStatus]),
+        soldAt: null,
+        priceChanges: [],
+      };
+
+      let currentStatus = initialStatus;
+      for (const event of propertyEvents) {
+        const payload = parsePayload(event.payload);
+        if (event.eventType === "PROPERTY_PRICE_CHANGED") {
+          history.priceChanges.push({
+            from: readPrice(payload.from),
+            to: readPrice(payload.to),
+            at: event.createdAt,
+          });
+          continue;
+        }
+
+        const to = typeof payload.to === "string" ? payload.to : null;
+        if (!to || to === currentStatus) {
+          continue;
+        }
+
+        history.stays.push({
+          status: currentStatus,
+          durationMs: Math.max(0, event.createdAt.getTime() - history.currentStatusSince.getTime()),
+        });
+        history.visited.add(to);
+        history.currentStatusSince = event.createdAt;
+        if (to === "VENDU") {
+          history.soldAt = event.createdAt;
+        }
+        currentStatus = to;
+      }
+
+      return history;
+    });
+
+    const statusDurations = PIPELINE_STATUSES.map((status) => {
+      const durations = histories.flatMap((history) =>
+        history.stays.filter((stay) => stay.status === status).map((stay) => stay.durationMs),
+      );
+      const medianMs = median(durations);
+      return {
+        status,
+        medianDays: medianMs === null ? null : toDays(medianMs),
+        stays: durations.length,
+      };
+    });
+
+    // Un bien passé directement à une étape ultérieure compte comme ayant franchi les précédentes.
+    const reachedStage = (stage: string) =>
+      histories.filter((history) =>
+        [...history.visited].some(
+          (status) => FUNNEL_PROGRESSION.indexOf(status) >= FUNNEL_PROGRESSION.indexOf(stage),
+        ),
+      ).length;
+    const prospectionCount = reachedStage("PROSPECTION");
+    const mandatSigneCount = reachedStage("MANDAT_SIGNE");
+    const venduCount = reachedStage("VENDU");
+
+    const staleBefore = now.getTime() - staleAfterDays * DAY_MS;
+    const columns = ACTIVE_PIPELINE_STATUSES.map((status) => {
+      const inColumn = histories.filter((history) => history.status === status);
+      return {
+        status,
+        total: inColumn.length,
+        stale: inColumn.filter((history) => history.currentStatusSince.getTime() < staleBefore).length,
+      };
+    });
+
+    const soldHistories = histories.filter((history) => history.soldAt !== null);
+    const reductionItems = soldHistories.flatMap((history) => {
+      const beforeSale = history.priceChanges.filter((change) => change.at <= history.soldAt!);
+      const reductions = beforeSale.filter(
+        (change) => change.from !== null && change.to !== null && change.to < change.from,
+      );
+      if (reductions.length === 0) {
+        return [];
+      }
+
+      const initialPrice = reductions[0]!.from!;
+      const finalPrice = beforeSale.at(-1)!.to ?? reductions.at(-1)!.to!;
+      const reductionAmount = reductions.reduce(
+        (total, change) => total + (change.from! - change.to!),
+        0,
+      );
+      return [
+        {
+          propertyId: history.propertyId,
+          title: history.title,
+          city: history.city,
+          initialPrice,
+          finalPrice,
+          reductionCount: reductions.length,
+          reductionAmount,
+          reductionRate: toRate(reductionAmount, initialPrice),
+        },
+      ];
+    });
+    const totalReductionAmount = reductionItems.reduce((total, item) => total + item.reductionAmount, 0);
+    const rates = reductionItems.flatMap((item) => (item.reductionRate === null ? [] : [item.reductionRate]));
+
+    return {
+      generatedAt: now.toISOString(),
+      filters: {
+        agentUserId,
+        city: input.city?.trim() || null,
+        propertyType: propertyType as MarketPropertyType | null,
+        staleAfterDays,
+      },
+      propertyCount: histories.length,
+      statusDurations,
+      conversion: {
+        prospectionCount,
+        mandatSigneCount,
+        venduCount,
+        prospectionToMandatRate: toRate(mandatSigneCount, prospectionCount),
+        mandatToVenduRate: toRate(venduCount, mandatSigneCount),
+        prospectionToVenduRate: toRate(venduCount, prospectionCount),
+      },
+      columns,
+      priceReductions: {
+        soldCount: soldHistories.length,
+        reducedCount: reductionItems.length,
+        totalReductionAmount,
+        medianReductionRate: median(rates),
+        items: reductionItems,
+      },
+    };
+  },
+
+  async exportPipelineCsv(input: PipelineFilters): Promise<string> {
+    const report = await this.pipeline(input);
+    const rows: Array<Array<string | number | null>> = [
+      ["Section", "Libellé", "Indicateur", "Valeur"],
+      ...report.statusDurations.flatMap((item) => [
+        ["Durée par statut", item.status, "Médiane (jours)", item.medianDays],
+        ["Durée par statut", item.status, "Passages", item.stays],
+      ]),
+      ["Conversion", "PROSPECTION", "Biens", report.conversion.prospectionCount],
+      ["Conversion", "MANDAT_SIGNE", "Biens", report.conversion.mandatSigneCount],
+      ["Conversion", "VENDU", "Biens", report.conversion.venduCount],
+      ["Conversion", "PROSPECTION > MANDAT_SIGNE", "Taux", toPercent(report.conversion.prospectionToMandatRate)],
+      ["Conversion", "MANDAT_SIGNE > VENDU", "Taux", toPercent(report.conversion.mandatToVenduRate)],
+      ["Conversion", "PROSPECTION > VENDU", "Taux", toPercent(report.conversion.prospectionToVenduRate)],
+      ...report.columns.flatMap((column) => [
+        ["Colonnes", column.status, "Biens", column.total],
+        ["Colonnes", column.status, `Dormants (> ${report.filters.staleAfterDays} j)`, column.stale],
+      ]),
+      ["Baisses de prix", "Ventes", "Biens vendus", report.priceReductions.soldCount],
+      ["Baisses de prix", "Ventes", "Biens vendus après baisse", report.priceReductions.reducedCount],
+      ["Baisses de prix", "Ventes", "Montant total des baisses", report.priceReductions.totalReductionAmount],
+      ...report.priceReductions.items.map((item) => [
+        "Baisses de prix",
+        `${item.title} (${item.city})`,
+        `Prix ${item.initialPrice} > ${item.finalPrice}`,
+        toPercent(item.reductionRate),
+      ]),
+    ];
+
+    return `\ufeff${rows.map((row) => row.map(escapeCsvValue).join(";")).join("\r\n")}\r\n`;
+  },
+};
@@ -1,11 +1,11 @@
-import { and, desc, eq, lt } from "drizzle-orm";
+import { and, desc, eq, lt, sql } from "drizzle-orm";
 import { db } from "../db/client";
 import { files, messages, properties, reviewQueueItems, vocals } from "../db/schema";
 import { HttpError } from "../http/errors";
 
 type ReviewQueueItemRow = typeof reviewQueueItems.$inferSelect;
 
-type ReviewQueueItemType = "MESSAGE" | "FILE" | "VOCAL";
+type ReviewQueueItemType = "MESSAGE" | "FILE" | "VOCAL" | "PROPERTY" | "VISIT";
 type ReviewQueueItemStatus = "OPEN" | "RESOLVED";
 
 const parseCursor = (cursor?: string): number | undefined => {
@@ -60,7 +60,7 @@ const resolveLinkedEntity = async (input: {
   itemId: string;
   propertyId?: string | null;
 }) => {
-  if (!input.propertyId) {
+  if (!input.propertyId || input.itemType === "PROPERTY" || input.itemType === "VISIT") {
     return;
   }
 
@@ -180,6 +180,32 @@ export const reviewQueueService = {
     return toReviewQueueItemResponse(created);
   },
 
+  // Alerte des analyses périodiques: émise une seule fois par échéance, même après résolution.
+  async createOpenItemOnce(input: {
+    orgId: string;
+    itemType: ReviewQueueItemType;
+    itemId: string;
+    reason: string;
+    payload: Record<string, unknown>;
+    onceKey: string;
+  }): Promise<boolean> {
+    const alreadyAlerted = await db.query.reviewQueueItems.findFirst({
+      where: and(
+        eq(reviewQueueItems.orgId, input.orgId),
+        eq(reviewQueueItems.itemType, input.itemType),
+        eq(reviewQueueItems.itemId, input.itemId),
+        eq(reviewQueueItems.reason, input.reason),
+        sql`json_extract(${reviewQueueItems.payload}, ${`$.${input.onceKey}`}) = ${input.payload[input.onceKey]}`,
+      ),
+    });
+    if (alreadyAlerted) {
+      return false;
+    }
+
+    await this.createOpenItem(input);
+    return true;
+  },
+
   async resolve(input: {
     orgId: string;
     id: string;
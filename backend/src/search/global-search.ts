@@ -1,8 +1,8 @@
 import { and, desc, eq, like, or, sql } from "drizzle-orm";
 import { db } from "../db/client";
-import { files, properties, propertyVisits, users, vocals } from "../db/schema";
+import { files, properties, propertyVisits, tasks, users, vocals } from "../db/schema";
 
-export type GlobalSearchItemType = "PROPERTY" | "USER" | "VOCAL" | "VISIT";
+export type GlobalSearchItemType = "PROPERTY" | "USER" | "VOCAL" | "VISIT" | "TASK";
 
 export type GlobalSearchItem = {
   type: GlobalSearchItemType;
@@ -67,6 +67,20 @@ const toVisitSubtitle = (input: {
   return `${fullName} · ${date}`;
 };
 
+const toTaskSubtitle = (input: {
+  status: string;
+  dueAt: Date | null;
+  propertyTitle: string | null;
+}): string => {
+  const parts = [
+    input.propertyTitle?.trim() || null,
+    input.dueAt ? `Échéance ${input.dueAt.toISOString().slice(0, 10)}` : null,
+    input.status,
+  ].filter((part): part is string => Boolean(part));
+
+  return parts.join(" · ");
+};
+
 export const globalSearchService = {
   async search(input: {
     orgId: string;
@@ -81,7 +95,7 @@ export const globalSearchService = {
     const pattern = toLikePattern(normalized);
     const perTypeLimit = Math.max(3, Math.ceil(input.limit / 4));
 
-    const [propertyRows, userRows, vocalRows, visitRows] = await Promise.all([
+    const [propertyRows, userRows, vocalRows, visitRows, taskRows] = await Promise.all([
       db
         .select({
           id: properties.id,
@@ -192,6 +206,33 @@ export const globalSearchService = {
         )
         .orderBy(desc(propertyVisits.createdAt))
         .limit(perTypeLimit),
+      db
+        .select({
+          id: tasks.id,
+          title: tasks.title,
+          status: tasks.status,
+          dueAt: tasks.dueAt,
+          propertyId: tasks.propertyId,
+          createdAt: tasks.createdAt,
+          propertyTitle: properties.title,
+        })
+        .from(tasks)
+        .leftJoin(
+          properties,
+          and(eq(properties.id, tasks.propertyId), eq(properties.orgId, input.orgId)),
+        )
+        .where(
+          and(
+            eq(tasks.orgId, input.orgId),
+            or(
+              like(sql`lower(${tasks.title})`, pattern),
+              like(sql`lower(coalesce(${tasks.description}, ''))`, pattern),
+              like(sql`lower(coalesce(${properties.title}, ''))`, pattern),
+            ),
+          ),
+        )
+        .orderBy(desc(tasks.createdAt))
+        .limit(perTypeLimit),
     ]);
 
     const ranked: GlobalSearchRankedItem[] = [
@@ -227,6 +268,14 @@ export const globalSearchService = {
         route: `/app/rdv/${encodeURIComponent(row.id)}`,
         createdAtMs: toTimestamp(row.createdAt),
       })),
+      ...taskRows.map((row) => ({
+        type: "TASK" as const,
+        id: row.id,
+        label: `Tâche · ${row.title}`,
+        subtitle: toTaskSubtitle(row),
+        route: row.propertyId ? `/app/bien/${encodeURIComponent(row.propertyId)}` : "/app/kanban",
+        createdAtMs: toTimestamp(row.createdAt),
+      })),
     ]
       .sort((a, b) => b.createdAtMs - a.createdAtMs)
       .slice(0, input.limit);
@@ -0,0 +1,261 @@
+import { and, eq } from "drizzle-orm";
+import type {
+  VisitFeedbackInterestLevel,
+  VisitFeedbackOfferIntention,
+  VisitFeedbackPerceivedPrice,
+} from "../ai/provider";
+import { db } from "../db/client";
+import { files, organizations, properties } from "../db/schema";
+import { filesService } from "../files/service";
+import { HttpError } from "../http/errors";
+import { messagesService } from "../messages/service";
+import { renderTextPdf } from "../pdf/text-pdf";
+import { propertiesService } from "../properties/service";
+import { visitFeedbackService } from "../visit-feedback/service";
+import {
+  buildSellerReportLines,
+  renderSellerReportEmail,
+  type FeedbackPointCount,
+  type SellerReportComparables,
+  type SellerReportPeriodStats,
+} from "./template";
+
+type VisitFeedbackResponse = Awaited<ReturnType<typeof visitFeedbackService.listForProperty>>[number];
+
+const DEFAULT_REPORT_PERIOD_MS = 30 * 24 * 60 * 60 * 1000;
+const TOP_POINTS_LIMIT = 5;
+
+const parseReportDate = (value: string | undefined, fallback: Date): Date => {
+  if (!value) {
+    return fallback;
+  }
+
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new HttpError(400, "INVALID_REPORT_PERIOD", "La période du reporting est invalide");
+  }
+
+  return parsed;
+};
+
+const countBy = <T extends string>(keys: readonly T[], values: Array<T | null>): Record<T, number> => {
+  const counts = Object.fromEntries(keys.map((key) => [key, 0])) as Record<T, number>;
+  for (const value of values) {
+    if (value !== null) {
+      counts[value] += 1;
+    }
+  }
+
+  return counts;
+};
+
+// Les points sont regroupés sans tenir compte de la casse, le premier libellé rencontré est conservé.
+const topPoints = (lists: string[][]): FeedbackPointCount[] => {
+  const counts = new Map<string, FeedbackPointCount>();
+  for (const list of lists) {
+    for (const label of list) {
+      const key = label.toLocaleLowerCase("fr-FR");
+      const current = counts.get(key);
+      if (current) {
+        current.count += 1;
+      } else {
+        counts.set(key, { label, count: 1 });
+      }
+    }
+  }
+
+  return [...counts.values()]
+    .sort((left, right) => right.count - left.count || left.label.localeCompare(right.label, "fr"))
+    .slice(0, TOP_POINTS_LIMIT);
+};
+
+const buildPeriodStats = (visitCount: number, feedbacks: VisitFeedbackResponse[]): SellerReportPeriodStats => ({
+  visits: visitCount,
+  feedbackCount: feedbacks.length,
+  interestLevels: countBy<VisitFeedbackInterestLevel>(
+    ["HIGH", "MEDIUM", "LOW"],
+    feedbacks.map((feedback) => feedback.interestLevel),
+  ),
+  perceivedPrices: countBy<VisitFeedbackPerceivedPrice>(
+    ["TOO_HIGH", "FAIR", "LOW"],
+    feedbacks.map((feedback) => feedback.perceivedPrice),
+  ),
+  offerIntentions: countBy<VisitFeedbackOfferIntention>(
+    ["YES", "MAYBE", "NO"],
+    feedbacks.map((feedback) => feedback.offerIntention),
+  ),
+  topPositives: topPoints(feedbacks.map((feedback) => feedback.positives)),
+  topNegatives: topPoints(feedbacks.map((feedback) => feedback.negatives)),
+});
+
+// Les comparables dépendent du type de bien, de la géolocalisation et des données DVF:
+// le reporting reste généré sans cette section quand ils ne sont pas disponibles.
+const loadComparables = async (orgId: string, propertyId: string): Promise<SellerReportComparables | null> => {
+  try {
+    const comparables = await propertiesService.getComparables({ orgId, propertyId });
+    return {
+      count: comparables.summary.count,
+      askingPrice: comparables.subject.askingPrice,
+      medianPrice: comparables.summary.medianPrice,
+      medianPricePerM2: comparables.summary.medianPricePerM2,
+      deviationPct: comparables.subject.deviationPct,
+      pricingPosition: comparables.subject.pricingPosition,
+    };
+  } catch {
+    return null;
+  }
+};
+
+const listOwnerEmails = async (orgId: string, propertyId: string): Promise<string[]> => {
+  const prospects = await propertiesService.listProspects({ orgId, propertyId });
+  const emails = prospects.items
+    .filter((item) => item.relationRole === "OWNER")
+    .map((item) => item.email?.trim().toLowerCase())
+    .filter((email): email is string => Boolean(email));
+
+  return [...new Set(emails)];
+};
+
+const toFileName = (generatedAt: Date): string => `reporting-vendeur-${generatedAt.toISOString().slice(0, 10)}.pdf`;
+
+export const sellerReportsService = {
+  async generate(input: { orgId: string; propertyId: string; from?: string; to?: string }) {
+    const property = await db.query.properties.findFirst({
+      where: and(eq(properties.id, input.propertyId), eq(properties.orgId, input.orgId)),
+    });
+
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    const generatedAt = new Date();
+    const periodEnd = parseReportDate(input.to, generatedAt);
+    const periodStart = parseReportDate(input.from, new Date(periodEnd.getTime() - DEFAULT_REPORT_PERIOD_MS));
+    if (periodStart.getTime() >= periodEnd.getTime()) {
+      throw new HttpError(400, "INVALID_REPORT_PERIOD", "La période du reporting est invalide");
+    }
+
+    // La tendance compare la période à la période précédente de même durée.
+    const previousStart = new Date(periodStart.getTime() - (periodEnd.getTime() - periodStart.getTime()));
+    const [visits, feedbacks, comparables, ownerEmails, organization] = await Promise.all([
+      propertiesService.listVisits({ orgId: input.orgId, propertyId: input.propertyId }),
+      visitFeedbackService.listForProperty({ orgId: input.orgId, propertyId: input.propertyId }),
+      loadComparables(input.orgId, input.propertyId),
+      listOwnerEmails(input.orgId, input.propertyId),
+      db.query.organizations.findFirst({ where: eq(organizations.id, input.orgId) }),
+    ]);
+    const feedbackByVisitId = new Map(feedbacks.map((feedback) => [feedback.visitId, feedback]));
+
+    const visitsBetween = (start: Date, end: Date) =>
+      visits.items.filter((visit) => {
+        const startsAt = new Date(visit.startsAt).getTime();
+        return startsAt >= start.getTime() && startsAt < end.getTime();
+      });
+    const feedbacksOf = (items: typeof visits.items) =>
+      items
+        .map((visit) => feedbackByVisitId.get(visit.id))
+        .filter((feedback): feedback is VisitFeedbackResponse => feedback !== undefined);
+
+    const currentVisits = visitsBetween(periodStart, periodEnd);
+    const previousVisits = visitsBetween(previousStart, periodStart);
+    const current = buildPeriodStats(currentVisits.length, feedbacksOf(currentVisits));
+    const previous = buildPeriodStats(previousVisits.length, feedbacksOf(previousVisits));
+
+    const pdf = renderTextPdf({
+      title: "Reporting vendeur",
+      lines: buildSellerReportLines({
+        agencyName: organization?.name ?? "",
+        property: {
+          title: property.title,
+          address: property.address,
+          postalCode: property.postalCode,
+          city: property.city,
+        },
+        periodStart,
+        periodEnd,
+        generatedAt,
+        current,
+        previous,
+        comparables,
+        visits: [...currentVisits].reverse().map((visit) => {
+          const feedback = feedbackByVisitId.get(visit.id);
+          return {
+            startsAt: new Date(visit.startsAt),
+            interestLevel: feedback?.interestLevel ?? null,
+            perceivedPrice: feedback?.perceivedPrice ?? null,
+            offerIntention: feedback?.offerIntention ?? null,
+          };
+        }),
+      }),
+    });
+
+    const file = await filesService.upload({
+      orgId: input.orgId,
+      propertyId: input.propertyId,
+      typeDocument: "REPORTING_VENDEUR",
+      fileName: toFileName(generatedAt),
+      mimeType: "application/pdf",
+      size: pdf.byteLength,
+      contentBase64: Buffer.from(pdf).toString("base64"),
+    });
+
+    return {
+      propertyId: input.propertyId,
+      fileId: file.id,
+      fileName: file.fileName,
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      generatedAt: generatedAt.toISOString(),
+      current,
+      previous,
+      comparables,
+      ownerEmails,
+    };
+  },
+
+  async send(input: { orgId: string; propertyId: string; fileId: string }) {
+    const [property, file] = await Promise.all([
+      db.query.properties.findFirst({
+        where: and(eq(properties.id, input.propertyId), eq(properties.orgId, input.orgId)),
+      }),
+      db.query.files.findFirst({
+        where: and(eq(files.id, input.fileId), eq(files.orgId, input.orgId)),
+      }),
+    ]);
+
+    if (!property) {
+      throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+    }
+
+    if (!file || file.propertyId !== property.id || file.typeDocument !== "REPORTING_VENDEUR") {
+      throw new HttpError(404, "SELLER_REPORT_NOT_FOUND", "Reporting vendeur introuvable");
+    }
+
+    const ownerEmails = await listOwnerEmails(input.orgId, input.propertyId);
+    if (ownerEmails.length === 0) {
+      throw new HttpError(
+        400,
+        "SELLER_REPORT_NO_OWNER_EMAIL",
+        "Aucun propriétaire avec une adresse email n'est rattaché au bien",
+      );
+    }
+
+    const organization = await db.query.organizations.findFirst({
+      where: eq(organizations.id, input.orgId),
+    });
+    const email = renderSellerReportEmail({
+      agencyName: organization?.name ?? "",
+      propertyTitle: property.title,
+      generatedAt: file.createdAt,
+    });
+
+    return messagesService.compose({
+      orgId: input.orgId,
+      to: ownerEmails,
+      subject: email.subject,
+      body: email.body,
+      propertyId: input.propertyId,
+      fileIds: [file.id],
+    });
+  },
+};
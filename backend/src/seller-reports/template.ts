@@ -0,0 +1,204 @@
+import type {
+  VisitFeedbackInterestLevel,
+  VisitFeedbackOfferIntention,
+  VisitFeedbackPerceivedPrice,
+} from "../ai/provider";
+import type { ComparablePricingPosition } from "../properties/service";
+import type { TextPdfLine } from "../pdf/text-pdf";
+
+export type FeedbackPointCount = { label: string; count: number };
+
+export type SellerReportPeriodStats = {
+  visits: number;
+  feedbackCount: number;
+  interestLevels: Record<VisitFeedbackInterestLevel, number>;
+  perceivedPrices: Record<VisitFeedbackPerceivedPrice, number>;
+  offerIntentions: Record<VisitFeedbackOfferIntention, number>;
+  topPositives: FeedbackPointCount[];
+  topNegatives: FeedbackPointCount[];
+};
+
+export type SellerReportComparables = {
+  count: number;
+  askingPrice: number | null;
+  medianPrice: number | null;
+  medianPricePerM2: number | null;
+  deviationPct: number | null;
+  pricingPosition: ComparablePricingPosition;
+};
+
+export type SellerReportVisitLine = {
+  startsAt: Date;
+  interestLevel: VisitFeedbackInterestLevel | null;
+  perceivedPrice: VisitFeedbackPerceivedPrice | null;
+  offerIntention: VisitFeedbackOfferIntention | null;
+};
+
+export type SellerReportTemplateInput = {
+  agencyName: string;
+  property: {
+    title: string;
+    address: string | null;
+    postalCode: string;
+    city: string;
+  };
+  periodStart: Date;
+  periodEnd: Date;
+  generatedAt: Date;
+  current: SellerReportPeriodStats;
+  previous: SellerReportPeriodStats;
+  comparables: SellerReportComparables | null;
+  visits: SellerReportVisitLine[];
+};
+
+const REPORT_TIME_ZONE = "Europe/Paris";
+
+const INTEREST_LABELS: Record<VisitFeedbackInterestLevel, string> = {
+  HIGH: "fort",
+  MEDIUM: "moyen",
+  LOW: "faible",
+};
+
+const PERCEIVED_PRICE_LABELS: Record<VisitFeedbackPerceivedPrice, string> = {
+  TOO_HIGH: "trop élevé",
+  FAIR: "juste",
+  LOW: "attractif",
+};
+
+const OFFER_INTENTION_LABELS: Record<VisitFeedbackOfferIntention, string> = {
+  YES: "oui",
+  MAYBE: "à réfléchir",
+  NO: "non",
+};
+
+const PRICING_POSITION_LABELS: Record<ComparablePricingPosition, string> = {
+  UNDER_PRICED: "en dessous du marché",
+  NORMAL: "dans le marché",
+  OVER_PRICED: "au-dessus du marché",
+  UNKNOWN: "indéterminé",
+};
+
+const formatDate = (value: Date): string =>
+  new Intl.DateTimeFormat("fr-FR", { timeZone: REPORT_TIME_ZONE, dateStyle: "short" }).format(value);
+
+const formatDateTime = (value: Date): string =>
+  new Intl.DateTimeFormat("fr-FR", {
+    timeZone: REPORT_TIME_ZONE,
+    dateStyle: "short",
+    timeStyle: "short",
+  }).format(value);
+
+const formatEuro = (value: number | null): string =>
+  value === null
+    ? "-"
+    : new Intl.NumberFormat("fr-FR", {
+        style: "currency",
+        currency: "EUR",
+        maximumFractionDigits: 0,
+      }).format(value);
+
+const formatBreakdown = <T extends string>(counts: Record<T, number>, labels: Record<T, string>): string =>
+  (Object.keys(labels) as T[]).map((key) => `${labels[key]} ${counts[key]}`).join(" · ");
+
+const formatPoints = (points: FeedbackPointCount[]): string =>
+  points.length > 0 ? points.map((point) => `${point.label} (${point.count})`).join(", ") : "-";
+
+export const buildSellerReportLines = (input: SellerReportTemplateInput): TextPdfLine[] => {
+  const { current, previous } = input;
+  const location = [input.property.address, `${input.property.postalCode} ${input.property.city}`.trim()]
+    .filter((part): part is string => Boolean(part))
+    .join(", ");
+
+  const lines: TextPdfLine[] = [
+    { text: "Reporting vendeur", bold: true, size: 16 },
+    { text: input.agencyName, size: 11 },
+    { text: `${input.property.title} - ${location}`, size: 10 },
+    {
+      text: `Période du ${formatDate(input.periodStart)} au ${formatDate(input.periodEnd)} · édité le ${formatDate(input.generatedAt)}`,
+    },
+    { text: "" },
+    { text: "Activité", bold: true, size: 11 },
+    { text: `Visites réalisées: ${current.visits} (période précédente: ${previous.visits})` },
+    { text: `Retours visiteurs collectés: ${current.feedbackCount} (période précédente: ${previous.feedbackCount})` },
+    { text: "" },
+    { text: "Retours des visiteurs", bold: true, size: 11 },
+  ];
+
+  if (current.feedbackCount === 0) {
+    lines.push({ text: "Aucun retour de visite sur la période." });
+  } else {
+    lines.push(
+      { text: `Intérêt: ${formatBreakdown(current.interestLevels, INTEREST_LABELS)}` },
+      { text: `Prix perçu: ${formatBreakdown(current.perceivedPrices, PERCEIVED_PRICE_LABELS)}` },
+      { text: `Intention d'offre: ${formatBreakdown(current.offerIntentions, OFFER_INTENTION_LABELS)}` },
+      { text: `Points appréciés: ${formatPoints(current.topPositives)}` },
+      { text: `Points freinants: ${formatPoints(current.topNegatives)}` },
+    );
+
+    if (current.perceivedPrices.TOO_HIGH * 2 > current.feedbackCount) {
+      lines.push({ text: "La majorité des visiteurs jugent le prix trop élevé.", bold: true });
+    }
+  }
+
+  if (previous.feedbackCount > 0) {
+    lines.push({
+      text: `Période précédente - intérêt: ${formatBreakdown(previous.interestLevels, INTEREST_LABELS)} · prix perçu: ${formatBreakdown(previous.perceivedPrices, PERCEIVED_PRICE_LABELS)}`,
+      size: 8,
+    });
+  }
+
+  lines.push({ text: "" }, { text: "Positionnement marché", bold: true, size: 11 });
+  if (!input.comparables || input.comparables.count === 0) {
+    lines.push({ text: "Ventes comparables indisponibles pour ce bien." });
+  } else {
+    const { comparables } = input;
+    lines.push(
+      { text: `Prix affiché: ${formatEuro(comparables.askingPrice)}` },
+      {
+        text: `Prix médian des ${comparables.count} ventes comparables: ${formatEuro(comparables.medianPrice)} (${formatEuro(comparables.medianPricePerM2)}/m²)`,
+      },
+      {
+        text:
+          comparables.deviationPct === null
+            ? `Positionnement: ${PRICING_POSITION_LABELS[comparables.pricingPosition]}`
+            : `Positionnement: ${PRICING_POSITION_LABELS[comparables.pricingPosition]} (écart ${comparables.deviationPct > 0 ? "+" : ""}${comparables.deviationPct.toFixed(1)} % avec le prix estimé)`,
+      },
+    );
+  }
+
+  lines.push({ text: "" }, { text: "Détail des visites", bold: true, size: 11 });
+  if (input.visits.length === 0) {
+    lines.push({ text: "Aucune visite sur la période." });
+  }
+  for (const visit of input.visits) {
+    const details = [
+      visit.interestLevel ? `intérêt ${INTEREST_LABELS[visit.interestLevel]}` : null,
+      visit.perceivedPrice ? `prix ${PERCEIVED_PRICE_LABELS[visit.perceivedPrice]}` : null,
+      visit.offerIntention ? `offre: ${OFFER_INTENTION_LABELS[visit.offerIntention]}` : null,
+    ].filter((part): part is string => part !== null);
+    lines.push({
+      text: `${formatDateTime(visit.startsAt)} · ${details.length > 0 ? details.join(" · ") : "retour non renseigné"}`,
+    });
+  }
+
+  return lines;
+};
+
+export const renderSellerReportEmail = (input: {
+  agencyName: string;
+  propertyTitle: string;
+  generatedAt: Date;
+}): { subject: string; body: string } => ({
+  subject: `Point sur la commercialisation - ${input.propertyTitle}`,
+  body: [
+    "Bonjour,",
+    "",
+    `Vous trouverez ci-joint le point du ${formatDate(input.generatedAt)} sur la commercialisation de votre ` +
+      `bien « ${input.propertyTitle} »: visites réalisées, retours des visiteurs et positionnement par rapport ` +
+      "aux ventes récentes du secteur.",
+    "",
+    "Je reste à votre disposition pour en parler.",
+    "",
+    input.agencyName,
+  ].join("\n"),
+});
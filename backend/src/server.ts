@@ -5,6 +5,7 @@ import { assertManagerOrAdmin } from "./auth/rbac";
 import { authService } from "./auth/service";
 import {
   AssistantConversationResponseSchema,
+  BonDeVisiteSignRequestSchema,
   LinkCreateRequestSchema,
   LinkListResponseSchema,
   LinkPatchRequestSchema,
@@ -26,12 +27,18 @@ import {
   IntegrationSyncRequestSchema,
   LoginRequestSchema,
   LogoutRequestSchema,
+  MessageComposeRequestSchema,
+  MessageReplyRequestSchema,
+  MessageSenderContactRequestSchema,
   MessageUpdateRequestSchema,
+  PropertyBookingLinkUpsertRequestSchema,
   PropertyCreateRequestSchema,
   PropertyPatchRequestSchema,
   PropertyVisitPatchRequestSchema,
   PropertyVisitCreateRequestSchema,
   PropertyStatusUpdateRequestSchema,
+  PropertyStatusSchema,
+  PropertyDocumentChecklistResponseSchema,
   PropertyValuationAIPromptResponseSchema,
   PropertyValuationAIRequestSchema,
   RdvListResponseSchema,
@@ -40,23 +47,69 @@ import {
   PrivacyEraseResponseSchema,
   PrivacyExportRequestSchema,
   PrivacyExportResponseSchema,
+  PublicVisitBookingRequestSchema,
   ReviewQueueResolveRequestSchema,
   RegisterRequestSchema,
   RefreshRequestSchema,
   ResetPasswordRequestSchema,
+  SellerReportCreateRequestSchema,
+  StatusWorkflowResponseSchema,
+  StatusWorkflowUpdateRequestSchema,
+  ClosingTrackerResponseSchema,
+  PropertyCommissionResponseSchema,
+  PropertyCommissionUpsertRequestSchema,
+  RevenueReportResponseSchema,
+  PipelineReportResponseSchema,
+  BuyerSearchResponseSchema,
+  BuyerSearchUpsertRequestSchema,
+  AgentWorkingHoursRequestSchema,
+  PropertyBuyerMatchListResponseSchema,
+  BuyerAlertSendRequestSchema,
+  BuyerAlertSendResponseSchema,
+  UserPropertyMatchListResponseSchema,
+  MandateRegisterEntryResponseSchema,
+  MandateRegisterListResponseSchema,
+  OfferAcceptRequestSchema,
+  OfferCounterRequestSchema,
+  OfferCreateRequestSchema,
+  OfferListResponseSchema,
+  OfferRejectRequestSchema,
+  OfferResponseSchema,
+  OfferStatusSchema,
+  TaskCreateRequestSchema,
+  TaskListResponseSchema,
+  TaskPatchRequestSchema,
+  TaskResponseSchema,
+  TaskStatusSchema,
   UserCreateRequestSchema,
   UserPatchRequestSchema,
+  VisitFeedbackExtractRequestSchema,
+  VisitFeedbackUpsertRequestSchema,
+  VocalInsightSchemaResponseSchema,
+  VocalProposedChangesApplyRequestSchema,
+  VocalTypeSchema,
   VocalUpdateRequestSchema,
   VocalUploadRequestSchema,
 } from "./dto/zod";
 import { HttpError, toApiError } from "./http/errors";
 import { assistantService } from "./assistant/service";
+import { bonDeVisiteService } from "./bon-de-visite/service";
 import { calendarService } from "./calendar/service";
+import { closingService } from "./closing/service";
+import { buyerSearchesService } from "./buyer-searches/service";
+import { commissionsService } from "./commissions/service";
 import { filesService } from "./files/service";
 import { integrationsService } from "./integrations/service";
-import { messagesService } from "./messages/service";
+import { messageContactsService } from "./message-contacts/service";
+import { messageDraftsService } from "./message-drafts/service";
+import { messageThreadsService } from "./message-threads/service";
+import { type MessageChannel, messagesService } from "./messages/service";
+import { offersService } from "./offers/service";
 import { propertiesService } from "./properties/service";
+import { reportsService } from "./reports/service";
+import { mandatesService } from "./mandates/service";
 import { privacyService } from "./privacy/service";
+import { tasksService } from "./tasks/service";
 import { MARKET_PROPERTY_TYPES, type MarketPropertyType } from "./properties/dvf-client";
 import {
   enqueueFileAiJob,
@@ -65,6 +118,7 @@ import {
   enqueueVocalTranscriptionJob,
 } from "./queues";
 import { reviewQueueService } from "./review-queue/service";
+import { sellerReportsService } from "./seller-reports/service";
 import { globalSearchService } from "./search/global-search";
 import { getStorageProvider } from "./storage";
 import {
@@ -72,6 +126,10 @@ import {
   verifyStorageUrlSignature,
 } from "./storage/url-signing";
 import { usersService } from "./users/service";
+import { agentWorkingHoursService } from "./users/working-hours";
+import { visitBookingService } from "./visit-booking/service";
+import { visitFeedbackService } from "./visit-feedback/service";
+import { vocalChangesService } from "./vocal-changes/service";
 import { vocalsService } from "./vocals/service";
 import { objectChangeLogService } from "./object-data/change-log";
 import { getLinkDataStructure, getObjectDataStructure, listLinkDataStructures } from "./object-data/structure";
@@ -386,6 +444,23 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         throw new HttpError(400, "INVALID_QUERY_PARAM", `Le parametre ${name} est invalide`);
       };
 
+      const parseIntegerQueryParam = (
+        name: string,
+        options: { min: number; max: number },
+      ): number | undefined => {
+        const raw = url.searchParams.get(name);
+        if (raw === null || raw === "") {
+          return undefined;
+        }
+
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < options.min || value > options.max) {
+          throw new HttpError(400, "INVALID_QUERY_PARAM", `Le parametre ${name} est invalide`);
+        }
+
+        return value;
+      };
+
       const parseComparablePropertyTypeParam = (): MarketPropertyType | undefined => {
         const raw = url.searchParams.get("propertyType");
         if (!raw) {
@@ -490,6 +565,22 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         return withCors(request, new Response(null, { status: 204 }));
       }
 
+      const publicVisitBookingMatch = url.pathname.match(/^\/public\/visit-booking\/([^/]+)$/);
+      if (publicVisitBookingMatch && request.method === "GET") {
+        enforceAuthRateLimit({ action: "booking-page", request });
+        const token = decodeURIComponent(publicVisitBookingMatch[1]);
+        const response = await visitBookingService.getPublicPage({ token });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      if (publicVisitBookingMatch && request.method === "POST") {
+        enforceAuthRateLimit({ action: "booking-submit", request });
+        const token = decodeURIComponent(publicVisitBookingMatch[1]);
+        const payload = await parseJson(PublicVisitBookingRequestSchema);
+        const response = await visitBookingService.book({ token, ...payload });
+        return withCors(request, json(response, { status: 201 }));
+      }
+
       if (request.method === "GET" && url.pathname === "/me") {
         const accessToken = getBearerToken();
         const response = await authService.me(accessToken);
@@ -509,6 +600,27 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         return withCors(request, json(response, { status: 200 }));
       }
 
+      if (request.method === "GET" && url.pathname === "/me/settings/status-workflow") {
+        const user = await getAuthenticatedUser();
+        const response = StatusWorkflowResponseSchema.parse(
+          await propertiesService.getStatusWorkflow({ orgId: user.orgId }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      if (request.method === "PUT" && url.pathname === "/me/settings/status-workflow") {
+        const user = await getAuthenticatedUser();
+        assertManagerOrAdmin(user.role);
+        const payload = await parseJson(StatusWorkflowUpdateRequestSchema);
+        const response = StatusWorkflowResponseSchema.parse(
+          await propertiesService.updateStatusWorkflow({
+            orgId: user.orgId,
+            workflow: payload.transitions ? { transitions: payload.transitions } : null,
+          }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
       if (request.method === "GET" && url.pathname === "/me/ai-calls") {
         const user = await getAuthenticatedUser();
         const response = AICallLogListResponseSchema.parse(await aiCallLogsService.list({
@@ -595,7 +707,13 @@ export const createApp = (options?: { openapiPath?: string }) => ({
       if (objectDataStructureMatch && request.method === "GET") {
         const user = await getAuthenticatedUser();
         const objectType = decodeURIComponent(objectDataStructureMatch[1]).toLowerCase();
-        if (objectType !== "bien" && objectType !== "user" && objectType !== "rdv") {
+        if (
+          objectType !== "bien" &&
+          objectType !== "user" &&
+          objectType !== "rdv" &&
+          objectType !== "tache" &&
+          objectType !== "offre"
+        ) {
           throw new HttpError(400, "INVALID_OBJECT_TYPE", "Type d'objet invalide");
         }
 
@@ -853,6 +971,8 @@ export const createApp = (options?: { openapiPath?: string }) => ({
           objectType !== "bien" &&
           objectType !== "user" &&
           objectType !== "rdv" &&
+          objectType !== "tache" &&
+          objectType !== "offre" &&
           objectType !== "lien"
         ) {
           throw new HttpError(400, "INVALID_OBJECT_TYPE", "Type d'objet invalide");
@@ -909,6 +1029,139 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         }
       }
 
+      if (url.pathname === "/tasks") {
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const rawStatus = url.searchParams.get("status");
+          const parsedStatus = rawStatus ? TaskStatusSchema.safeParse(rawStatus) : null;
+          if (parsedStatus && !parsedStatus.success) {
+            throw new HttpError(400, "INVALID_TASK_STATUS", "Statut de tâche invalide");
+          }
+
+          const response = TaskListResponseSchema.parse(
+            await tasksService.list({
+              orgId: user.orgId,
+              limit: parseLimit(),
+              propertyId: url.searchParams.get("propertyId") ?? undefined,
+              assigneeUserId: url.searchParams.get("assigneeUserId") ?? undefined,
+              status: parsedStatus?.data,
+              query: url.searchParams.get("q") ?? undefined,
+            }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "POST") {
+          const payload = await parseJson(TaskCreateRequestSchema);
+          const response = TaskResponseSchema.parse(
+            await tasksService.create({
+              orgId: user.orgId,
+              ...payload,
+            }),
+          );
+          return withCors(request, json(response, { status: 201 }));
+        }
+      }
+
+      const taskMatch = url.pathname.match(/^\/tasks\/([^/]+)$/);
+      if (taskMatch) {
+        const taskId = decodeURIComponent(taskMatch[1]);
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const response = TaskResponseSchema.parse(
+            await tasksService.getById({ orgId: user.orgId, id: taskId }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "PATCH") {
+          const payload = await parseJson(TaskPatchRequestSchema);
+          const response = TaskResponseSchema.parse(
+            await tasksService.patchById({ orgId: user.orgId, id: taskId, data: payload }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+      }
+
+      if (url.pathname === "/offers") {
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const rawStatus = url.searchParams.get("status");
+          const parsedStatus = rawStatus ? OfferStatusSchema.safeParse(rawStatus) : null;
+          if (parsedStatus && !parsedStatus.success) {
+            throw new HttpError(400, "INVALID_OFFER_STATUS", "Statut d'offre invalide");
+          }
+
+          const response = OfferListResponseSchema.parse(
+            await offersService.list({
+              orgId: user.orgId,
+              limit: parseLimit(),
+              propertyId: url.searchParams.get("propertyId") ?? undefined,
+              buyerUserId: url.searchParams.get("buyerUserId") ?? undefined,
+              status: parsedStatus?.data,
+            }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "POST") {
+          const payload = await parseJson(OfferCreateRequestSchema);
+          const response = OfferResponseSchema.parse(
+            await offersService.create({
+              orgId: user.orgId,
+              ...payload,
+            }),
+          );
+          return withCors(request, json(response, { status: 201 }));
+        }
+      }
+
+      const offerMatch = url.pathname.match(/^\/offers\/([^/]+)$/);
+      if (offerMatch && request.method === "GET") {
+        const user = await getAuthenticatedUser();
+        const response = OfferResponseSchema.parse(
+          await offersService.getById({ orgId: user.orgId, id: decodeURIComponent(offerMatch[1]) }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const offerActionMatch = url.pathname.match(/^\/offers\/([^/]+)\/(counter|accept|reject)$/);
+      if (offerActionMatch && request.method === "POST") {
+        const user = await getAuthenticatedUser();
+        const offerId = decodeURIComponent(offerActionMatch[1]);
+        const action = offerActionMatch[2];
+
+        if (action === "counter") {
+          const payload = await parseJson(OfferCounterRequestSchema);
+          const response = OfferResponseSchema.parse(
+            await offersService.counter({ orgId: user.orgId, id: offerId, ...payload }),
+          );
+          return withCors(request, json(response, { status: 201 }));
+        }
+
+        if (action === "accept") {
+          const payload = await parseJson(OfferAcceptRequestSchema);
+          const response = OfferResponseSchema.parse(
+            await offersService.accept({
+              orgId: user.orgId,
+              id: offerId,
+              signedFileId: payload.signedFileId,
+              actorUserId: user.id,
+            }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        const payload = await parseJson(OfferRejectRequestSchema);
+        const response = OfferResponseSchema.parse(
+          await offersService.reject({ orgId: user.orgId, id: offerId, note: payload.note }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
       if (request.method === "GET" && url.pathname === "/properties") {
         const user = await getAuthenticatedUser();
         const response = await propertiesService.list({
@@ -942,7 +1195,7 @@ export const createApp = (options?: { openapiPath?: string }) => ({
 
       if (request.method === "GET" && url.pathname === "/calendar-events") {
         const user = await getAuthenticatedUser();
-        const response = await calendarService.listManualAppointments({
+        const response = await calendarService.listCalendarEvents({
           orgId: user.orgId,
           from: url.searchParams.get("from") ?? undefined,
           to: url.searchParams.get("to") ?? undefined,
@@ -1026,6 +1279,77 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         }
       }
 
+      const bonDeVisiteMatch = url.pathname.match(/^\/visits\/([^/]+)\/bon-de-visite$/);
+      if (bonDeVisiteMatch && request.method === "GET") {
+        const visitId = decodeURIComponent(bonDeVisiteMatch[1]);
+        const user = await getAuthenticatedUser();
+        const body = await bonDeVisiteService.preview({ orgId: user.orgId, visitId });
+        return withCors(
+          request,
+          new Response(new Blob([Buffer.from(body)]), {
+            status: 200,
+            headers: {
+              "content-type": "application/pdf",
+              "content-disposition": 'inline; filename="bon-de-visite.pdf"',
+              "cache-control": "no-store",
+            },
+          }),
+        );
+      }
+
+      const bonDeVisiteSignMatch = url.pathname.match(/^\/visits\/([^/]+)\/bon-de-visite\/sign$/);
+      if (bonDeVisiteSignMatch && request.method === "POST") {
+        const visitId = decodeURIComponent(bonDeVisiteSignMatch[1]);
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(BonDeVisiteSignRequestSchema);
+        const response = await bonDeVisiteService.sign({
+          orgId: user.orgId,
+          visitId,
+          signature: payload,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const visitFeedbackMatch = url.pathname.match(/^\/visits\/([^/]+)\/feedback$/);
+      if (visitFeedbackMatch) {
+        const visitId = decodeURIComponent(visitFeedbackMatch[1]);
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const response = await visitFeedbackService.get({ orgId: user.orgId, visitId });
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "PUT") {
+          const payload = await parseJson(VisitFeedbackUpsertRequestSchema);
+          const response = await visitFeedbackService.upsert({
+            orgId: user.orgId,
+            visitId,
+            data: {
+              interestLevel: payload.interestLevel ?? null,
+              perceivedPrice: payload.perceivedPrice ?? null,
+              positives: payload.positives ?? [],
+              negatives: payload.negatives ?? [],
+              offerIntention: payload.offerIntention ?? null,
+            },
+          });
+          return withCors(request, json(response, { status: 200 }));
+        }
+      }
+
+      const visitFeedbackExtractMatch = url.pathname.match(/^\/visits\/([^/]+)\/feedback\/extract$/);
+      if (visitFeedbackExtractMatch && request.method === "POST") {
+        const visitId = decodeURIComponent(visitFeedbackExtractMatch[1]);
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(VisitFeedbackExtractRequestSchema);
+        const response = await visitFeedbackService.extractFromVocal({
+          orgId: user.orgId,
+          vocalId: payload.vocalId,
+          visitId,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
       if (request.method === "GET" && url.pathname === "/files") {
         const user = await getAuthenticatedUser();
         const response = await filesService.list({
@@ -1103,9 +1427,11 @@ export const createApp = (options?: { openapiPath?: string }) => ({
           limit: parseLimit(),
           cursor: url.searchParams.get("cursor") ?? undefined,
           channel: channelParam
-            ? (channelParam as "GMAIL" | "WHATSAPP" | "TELEGRAM")
+            ? (channelParam as MessageChannel)
             : undefined,
           propertyId: url.searchParams.get("propertyId") ?? undefined,
+          threadId: url.searchParams.get("threadId") ?? undefined,
+          userId: url.searchParams.get("userId") ?? undefined,
           aiStatus: aiStatusParam
             ? (aiStatusParam as "PENDING" | "PROCESSED" | "REVIEW_REQUIRED")
             : undefined,
@@ -1114,6 +1440,87 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         return withCors(request, json(response, { status: 200 }));
       }
 
+      if (request.method === "GET" && url.pathname === "/message-threads") {
+        const user = await getAuthenticatedUser();
+        const response = await messageThreadsService.list({
+          orgId: user.orgId,
+          limit: parseLimit(),
+          cursor: url.searchParams.get("cursor") ?? undefined,
+          propertyId: url.searchParams.get("propertyId") ?? undefined,
+          userId: url.searchParams.get("userId") ?? undefined,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const messageThreadSummarizeMatch = url.pathname.match(/^\/message-threads\/([^/]+)\/summarize$/);
+      if (messageThreadSummarizeMatch && request.method === "POST") {
+        const threadId = decodeURIComponent(messageThreadSummarizeMatch[1]);
+        const user = await getAuthenticatedUser();
+        const response = await messageThreadsService.summarize({
+          orgId: user.orgId,
+          id: threadId,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const messageThreadByIdMatch = url.pathname.match(/^\/message-threads\/([^/]+)$/);
+      if (messageThreadByIdMatch && request.method === "GET") {
+        const threadId = decodeURIComponent(messageThreadByIdMatch[1]);
+        const user = await getAuthenticatedUser();
+        const response = await messageThreadsService.getById({
+          orgId: user.orgId,
+          id: threadId,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      if (request.method === "POST" && url.pathname === "/messages") {
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(MessageComposeRequestSchema);
+        const response = await messagesService.compose({
+          orgId: user.orgId,
+          ...payload,
+        });
+        return withCors(request, json(response, { status: 201 }));
+      }
+
+      const messageReplyMatch = url.pathname.match(/^\/messages\/([^/]+)\/reply$/);
+      if (messageReplyMatch && request.method === "POST") {
+        const messageId = decodeURIComponent(messageReplyMatch[1]);
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(MessageReplyRequestSchema);
+        const response = await messagesService.reply({
+          orgId: user.orgId,
+          messageId,
+          ...payload,
+        });
+        return withCors(request, json(response, { status: 201 }));
+      }
+
+      const messageSenderContactMatch = url.pathname.match(/^\/messages\/([^/]+)\/sender-contact$/);
+      if (messageSenderContactMatch && request.method === "POST") {
+        const messageId = decodeURIComponent(messageSenderContactMatch[1]);
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(MessageSenderContactRequestSchema);
+        const response = await messageContactsService.assignSender({
+          orgId: user.orgId,
+          messageId,
+          ...payload,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const messageSuggestReplyMatch = url.pathname.match(/^\/messages\/([^/]+)\/suggest-reply$/);
+      if (messageSuggestReplyMatch && request.method === "POST") {
+        const messageId = decodeURIComponent(messageSuggestReplyMatch[1]);
+        const user = await getAuthenticatedUser();
+        const response = await messageDraftsService.suggestReply({
+          orgId: user.orgId,
+          messageId,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
       const messageRunAiMatch = url.pathname.match(/^\/messages\/([^/]+)\/run-ai$/);
       if (messageRunAiMatch && request.method === "POST") {
         const messageId = decodeURIComponent(messageRunAiMatch[1]);
@@ -1173,6 +1580,21 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         return withCors(request, json(response, { status: 200 }));
       }
 
+      const vocalInsightSchemaMatch = url.pathname.match(/^\/vocals\/insight-schemas\/([^/]+)$/);
+      if (vocalInsightSchemaMatch && request.method === "GET") {
+        await getAuthenticatedUser();
+        const vocalType = VocalTypeSchema.safeParse(decodeURIComponent(vocalInsightSchemaMatch[1]));
+        if (!vocalType.success) {
+          throw new HttpError(400, "INVALID_VOCAL_TYPE", "Type de vocal invalide");
+        }
+
+        const response = VocalInsightSchemaResponseSchema.parse({
+          vocalType: vocalType.data,
+          fields: vocalsService.getInsightSchema({ vocalType: vocalType.data }),
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
       const vocalTranscribeMatch = url.pathname.match(/^\/vocals\/([^/]+)\/transcribe$/);
       if (vocalTranscribeMatch && request.method === "POST") {
         const vocalId = decodeURIComponent(vocalTranscribeMatch[1]);
@@ -1195,6 +1617,32 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         return withCors(request, json(response, { status: 202 }));
       }
 
+      const vocalProposedChangesMatch = url.pathname.match(/^\/vocals\/([^/]+)\/proposed-changes$/);
+      if (vocalProposedChangesMatch && request.method === "GET") {
+        const vocalId = decodeURIComponent(vocalProposedChangesMatch[1]);
+        const user = await getAuthenticatedUser();
+        const response = await vocalChangesService.list({
+          orgId: user.orgId,
+          vocalId,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const vocalProposedChangesApplyMatch = url.pathname.match(
+        /^\/vocals\/([^/]+)\/proposed-changes\/apply$/,
+      );
+      if (vocalProposedChangesApplyMatch && request.method === "POST") {
+        const vocalId = decodeURIComponent(vocalProposedChangesApplyMatch[1]);
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(VocalProposedChangesApplyRequestSchema);
+        const response = await vocalChangesService.apply({
+          orgId: user.orgId,
+          vocalId,
+          keys: payload.keys,
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
       const vocalByIdMatch = url.pathname.match(/^\/vocals\/([^/]+)$/);
       if (vocalByIdMatch) {
         const vocalId = decodeURIComponent(vocalByIdMatch[1]);
@@ -1214,6 +1662,8 @@ export const createApp = (options?: { openapiPath?: string }) => ({
             orgId: user.orgId,
             id: vocalId,
             propertyId: payload.propertyId,
+            prospectUserId: payload.prospectUserId,
+            insights: payload.insights,
           });
           return withCors(request, json(response, { status: 200 }));
         }
@@ -1322,10 +1772,191 @@ export const createApp = (options?: { openapiPath?: string }) => ({
           orgId: user.orgId,
           id: propertyId,
           status: payload.status,
+          force: payload.force,
+          actorUserId: user.id,
         });
         return withCors(request, json(response, { status: 200 }));
       }
 
+      const propertyDocumentChecklistMatch = url.pathname.match(
+        /^\/properties\/([^/]+)\/document-checklist$/,
+      );
+      if (propertyDocumentChecklistMatch && request.method === "GET") {
+        const propertyId = decodeURIComponent(propertyDocumentChecklistMatch[1]);
+        const user = await getAuthenticatedUser();
+        const rawStatus = url.searchParams.get("status");
+        const parsedStatus = rawStatus ? PropertyStatusSchema.safeParse(rawStatus) : null;
+        if (parsedStatus && !parsedStatus.success) {
+          throw new HttpError(400, "INVALID_STATUS", "Statut invalide");
+        }
+
+        const response = await propertiesService.getDocumentChecklist({
+          orgId: user.orgId,
+          propertyId,
+          status: parsedStatus?.data,
+        });
+        return withCors(
+          request,
+          json(PropertyDocumentChecklistResponseSchema.parse(response), { status: 200 }),
+        );
+      }
+
+      const propertyClosingTrackerMatch = url.pathname.match(
+        /^\/properties\/([^/]+)\/closing-tracker$/,
+      );
+      if (propertyClosingTrackerMatch && request.method === "GET") {
+        const user = await getAuthenticatedUser();
+        const response = ClosingTrackerResponseSchema.parse(
+          await closingService.getTracker({
+            orgId: user.orgId,
+            propertyId: decodeURIComponent(propertyClosingTrackerMatch[1]),
+          }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const propertyCommissionMatch = url.pathname.match(/^\/properties\/([^/]+)\/commission$/);
+      if (propertyCommissionMatch) {
+        const propertyId = decodeURIComponent(propertyCommissionMatch[1]);
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const response = PropertyCommissionResponseSchema.parse(
+            await commissionsService.getByProperty({ orgId: user.orgId, propertyId }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "PUT") {
+          const payload = await parseJson(PropertyCommissionUpsertRequestSchema);
+          const response = PropertyCommissionResponseSchema.parse(
+            await commissionsService.upsert({ orgId: user.orgId, propertyId, ...payload }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+      }
+
+      const propertyBuyerMatchesMatch = url.pathname.match(/^\/properties\/([^/]+)\/buyer-matches$/);
+      if (propertyBuyerMatchesMatch) {
+        const propertyId = decodeURIComponent(propertyBuyerMatchesMatch[1]);
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const response = PropertyBuyerMatchListResponseSchema.parse(
+            await buyerSearchesService.listMatchesForProperty({ orgId: user.orgId, propertyId }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+      }
+
+      const propertyBuyerAlertsMatch = url.pathname.match(/^\/properties\/([^/]+)\/buyer-alerts$/);
+      if (request.method === "POST" && propertyBuyerAlertsMatch) {
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(BuyerAlertSendRequestSchema);
+        const response = BuyerAlertSendResponseSchema.parse(
+          await buyerSearchesService.sendAlerts({
+            orgId: user.orgId,
+            propertyId: decodeURIComponent(propertyBuyerAlertsMatch[1]),
+            userIds: payload.userIds,
+          }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      if (request.method === "GET" && url.pathname === "/reports/revenue") {
+        const user = await getAuthenticatedUser();
+        const response = RevenueReportResponseSchema.parse(
+          await reportsService.revenue({
+            orgId: user.orgId,
+            from: url.searchParams.get("from") ?? undefined,
+            to: url.searchParams.get("to") ?? undefined,
+          }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      if (
+        request.method === "GET" &&
+        (url.pathname === "/reports/pipeline" || url.pathname === "/reports/pipeline/export")
+      ) {
+        const user = await getAuthenticatedUser();
+        const filters = {
+          orgId: user.orgId,
+          agentUserId: url.searchParams.get("agentUserId") ?? undefined,
+          city: url.searchParams.get("city") ?? undefined,
+          propertyType: url.searchParams.get("propertyType") ?? undefined,
+          staleAfterDays: url.searchParams.get("staleAfterDays") ?? undefined,
+        };
+
+        if (url.pathname === "/reports/pipeline") {
+          const response = PipelineReportResponseSchema.parse(await reportsService.pipeline(filters));
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        const format = url.searchParams.get("format") ?? "csv";
+        if (format !== "csv") {
+          throw new HttpError(400, "INVALID_EXPORT_FORMAT", "Format d'export invalide");
+        }
+
+        return withCors(
+          request,
+          new Response(await reportsService.exportPipelineCsv(filters), {
+            status: 200,
+            headers: {
+              "content-type": "text/csv; charset=utf-8",
+              "content-disposition": 'attachment; filename="analyse-pipeline.csv"',
+              "cache-control": "no-store",
+            },
+          }),
+        );
+      }
+
+      const propertyMandateRegisterMatch = url.pathname.match(
+        /^\/properties\/([^/]+)\/mandate-register$/,
+      );
+      if (propertyMandateRegisterMatch && request.method === "POST") {
+        const propertyId = decodeURIComponent(propertyMandateRegisterMatch[1]);
+        const user = await getAuthenticatedUser();
+        const response = MandateRegisterEntryResponseSchema.parse(
+          await mandatesService.register({ orgId: user.orgId, propertyId }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      if (request.method === "GET" && url.pathname === "/mandates/register") {
+        const user = await getAuthenticatedUser();
+        const response = MandateRegisterListResponseSchema.parse(
+          await mandatesService.listRegister({ orgId: user.orgId }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      if (request.method === "GET" && url.pathname === "/mandates/register/export") {
+        const user = await getAuthenticatedUser();
+        const format = url.searchParams.get("format") ?? "csv";
+        if (format !== "csv" && format !== "pdf") {
+          throw new HttpError(400, "INVALID_EXPORT_FORMAT", "Format d'export invalide");
+        }
+
+        const body =
+          format === "csv"
+            ? await mandatesService.exportRegisterCsv({ orgId: user.orgId })
+            : await mandatesService.exportRegisterPdf({ orgId: user.orgId });
+
+        return withCors(
+          request,
+          new Response(typeof body === "string" ? body : new Blob([Buffer.from(body)]), {
+            status: 200,
+            headers: {
+              "content-type":
+                format === "csv" ? "text/csv; charset=utf-8" : "application/pdf",
+              "content-disposition": `attachment; filename="registre-des-mandats.${format}"`,
+              "cache-control": "no-store",
+            },
+          }),
+        );
+      }
+
       const propertyVisitsMatch = url.pathname.match(/^\/properties\/([^/]+)\/visits$/);
       if (propertyVisitsMatch) {
         const propertyId = decodeURIComponent(propertyVisitsMatch[1]);
@@ -1345,6 +1976,7 @@ export const createApp = (options?: { openapiPath?: string }) => ({
             orgId: user.orgId,
             propertyId,
             prospectUserId: payload.prospectUserId,
+            agentUserId: payload.agentUserId,
             startsAt: payload.startsAt,
             endsAt: payload.endsAt,
           });
@@ -1352,6 +1984,69 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         }
       }
 
+      const propertyVisitSlotsMatch = url.pathname.match(/^\/properties\/([^/]+)\/visit-slots$/);
+      if (propertyVisitSlotsMatch && request.method === "GET") {
+        const propertyId = decodeURIComponent(propertyVisitSlotsMatch[1]);
+        const user = await getAuthenticatedUser();
+        const response = await propertiesService.listVisitSlots({
+          orgId: user.orgId,
+          propertyId,
+          agentUserId: url.searchParams.get("agentUserId") ?? undefined,
+          from: url.searchParams.get("from") ?? undefined,
+          days: parseIntegerQueryParam("days", { min: 1, max: 60 }),
+          durationMinutes: parseIntegerQueryParam("durationMinutes", { min: 15, max: 240 }),
+          limit: parseLimit({ max: 50, defaultValue: 10 }),
+        });
+        return withCors(request, json(response, { status: 200 }));
+      }
+
+      const propertyBookingLinkMatch = url.pathname.match(/^\/properties\/([^/]+)\/booking-link$/);
+      if (propertyBookingLinkMatch) {
+        const propertyId = decodeURIComponent(propertyBookingLinkMatch[1]);
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const response = await visitBookingService.getLink({ orgId: user.orgId, propertyId });
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "PUT") {
+          const payload = await parseJson(PropertyBookingLinkUpsertRequestSchema);
+          const response = await visitBookingService.upsertLink({
+            orgId: user.orgId,
+            propertyId,
+            ...payload,
+          });
+          return withCors(request, json(response, { status: 200 }));
+        }
+      }
+
+      const sellerReportsMatch = url.pathname.match(/^\/properties\/([^/]+)\/seller-reports$/);
+      if (sellerReportsMatch && request.method === "POST") {
+        const propertyId = decodeURIComponent(sellerReportsMatch[1]);
+        const user = await getAuthenticatedUser();
+        const payload = await parseJson(SellerReportCreateRequestSchema);
+        const response = await sellerReportsService.generate({
+          orgId: user.orgId,
+          propertyId,
+          ...payload,
+        });
+        return withCors(request, json(response, { status: 201 }));
+      }
+
+      const sellerReportSendMatch = url.pathname.match(/^\/properties\/([^/]+)\/seller-reports\/([^/]+)\/send$/);
+      if (sellerReportSendMatch && request.method === "POST") {
+        const propertyId = decodeURIComponent(sellerReportSendMatch[1]);
+        const fileId = decodeURIComponent(sellerReportSendMatch[2]);
+        const user = await getAuthenticatedUser();
+        const response = await sellerReportsService.send({
+          orgId: user.orgId,
+          propertyId,
+          fileId,
+        });
+        return withCors(request, json(response, { status: 201 }));
+      }
+
       const propertyRisksMatch = url.pathname.match(/^\/properties\/([^/]+)\/risks$/);
       if (propertyRisksMatch && request.method === "GET") {
         const propertyId = decodeURIComponent(propertyRisksMatch[1]);
@@ -1431,6 +2126,65 @@ export const createApp = (options?: { openapiPath?: string }) => ({
         }
       }
 
+      const userBuyerSearchMatch = url.pathname.match(/^\/users\/([^/]+)\/buyer-search$/);
+      if (userBuyerSearchMatch) {
+        const userId = decodeURIComponent(userBuyerSearchMatch[1]);
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const response = BuyerSearchResponseSchema.parse(
+            await buyerSearchesService.getByUser({ orgId: user.orgId, userId }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "PUT") {
+          const payload = await parseJson(BuyerSearchUpsertRequestSchema);
+          const response = BuyerSearchResponseSchema.parse(
+            await buyerSearchesService.upsert({ orgId: user.orgId, userId, ...payload }),
+          );
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "DELETE") {
+          await buyerSearchesService.remove({ orgId: user.orgId, userId });
+          return withCors(request, new Response(null, { status: 204 }));
+        }
+      }
+
+      const userWorkingHoursMatch = url.pathname.match(/^\/users\/([^/]+)\/working-hours$/);
+      if (userWorkingHoursMatch) {
+        const userId = decodeURIComponent(userWorkingHoursMatch[1]);
+        const user = await getAuthenticatedUser();
+
+        if (request.method === "GET") {
+          const response = await agentWorkingHoursService.get({ orgId: user.orgId, userId });
+          return withCors(request, json(response, { status: 200 }));
+        }
+
+        if (request.method === "PUT") {
+          const payload = await parseJson(AgentWorkingHoursRequestSchema);
+          const response = await agentWorkingHoursService.replace({
+            orgId: user.orgId,
+            userId,
+            items: payload.items,
+          });
+          return withCors(request, json(response, { status: 200 }));
+        }
+      }
+
+      const userPropertyMatchesMatch = url.pathname.match(/^\/users\/([^/]+)\/property-matches$/);
+      if (request.method === "GET" && userPropertyMatchesMatch) {
+        const user = await getAuthenticatedUser();
+        const response = UserPropertyMatchListResponseSchema.parse(
+          await buyerSearchesService.listMatchesForUser({
+            orgId: user.orgId,
+            userId: decodeURIComponent(userPropertyMatchesMatch[1]),
+          }),
+        );
+        return withCors(request, json(response, { status: 200 }));
+      }
+
       const userByIdMatch = url.pathname.match(/^\/users\/([^/]+)$/);
       if (userByIdMatch) {
         const userId = decodeURIComponent(userByIdMatch[1]);
@@ -0,0 +1,382 @@
+import { and, asc, desc, eq, inArray, like, or, sql, type SQL } from "drizzle-orm";
+import { db } from "../db/client";
+import { properties, tasks, users } from "../db/schema";
+import { HttpError } from "../http/errors";
+import { trackObjectChangesSafe, type ObjectChangeMode } from "../object-data/change-log";
+import { listTaskTemplatesForStatus } from "./templates";
+
+export const TASK_STATUSES = ["TODO", "IN_PROGRESS", "DONE", "CANCELLED"] as const;
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+export type TaskSource = "MANUAL" | "STATUS_TEMPLATE";
+
+type TaskRow = typeof tasks.$inferSelect;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OPEN_TASK_STATUSES: TaskStatus[] = ["TODO", "IN_PROGRESS"];
+
+const normalizeOptionalString = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+};
+
+const isTaskStatus = (value: unknown): value is TaskStatus =>
+  typeof value === "string" && (TASK_STATUSES as readonly string[]).includes(value);
+
+const parseTaskStatus = (value: unknown): TaskStatus => {
+  if (!isTaskStatus(value)) {
+    throw new HttpError(400, "INVALID_TASK_STATUS", "Statut de tâche invalide");
+  }
+
+  return value;
+};
+
+const parseDueAt = (value: string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new HttpError(400, "INVALID_TASK_DUE_AT", "L'échéance de la tâche est invalide");
+  }
+
+  return parsed;
+};
+
+const assertPropertyExistsInOrg = async (orgId: string, propertyId: string) => {
+  const property = await db.query.properties.findFirst({
+    where: and(eq(properties.id, propertyId), eq(properties.orgId, orgId)),
+  });
+
+  if (!property) {
+    throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+  }
+
+  return property;
+};
+
+const assertUserExistsInOrg = async (orgId: string, userId: string) => {
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.id, userId), eq(users.orgId, orgId)),
+  });
+
+  if (!user) {
+    throw new HttpError(404, "USER_NOT_FOUND", "Utilisateur introuvable");
+  }
+
+  return user;
+};
+
+const toTaskResponses = async (orgId: string, rows: TaskRow[]) => {
+  const propertyIds = [...new Set(rows.flatMap((row) => (row.propertyId ? [row.propertyId] : [])))];
+  const userIds = [
+    ...new Set(rows.flatMap((row) => (row.assigneeUserId ? [row.assigneeUserId] : []))),
+  ];
+
+  const [propertyRows, userRows] = await Promise.all([
+    propertyIds.length > 0
+      ? db
+          .select({ id: properties.id, title: properties.title })
+          .from(properties)
+          .where(and(eq(properties.orgId, orgId), inArray(properties.id, propertyIds)))
+      : Promise.resolve([]),
+    userIds.length > 0
+      ? db
+          .select({ id: users.id, firstName: users.firstName, lastName: users.lastName })
+          .from(users)
+          .where(and(eq(users.orgId, orgId), inArray(users.id, userIds)))
+      : Promise.resolve([]),
+  ]);
+
+  const propertyTitleById = new Map(propertyRows.map((row) => [row.id, row.title]));
+  const userById = new Map(userRows.map((row) => [row.id, row]));
+
+  return rows.map((row) => {
+    const assignee = row.assigneeUserId ? userById.get(row.assigneeUserId) : undefined;
+    return {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      status: row.status as TaskStatus,
+      dueAt: row.dueAt?.toISOString() ?? null,
+      completedAt: row.completedAt?.toISOString() ?? null,
+      propertyId: row.propertyId,
+      propertyTitle: row.propertyId ? (propertyTitleById.get(row.propertyId) ?? null) : null,
+      assigneeUserId: row.assigneeUserId,
+      assigneeFirstName: assignee?.firstName ?? null,
+      assigneeLastName: assignee?.lastName ?? null,
+      source: row.source as TaskSource,
+      templateKey: row.templateKey,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  });
+};
+
+export type TaskResponse = Awaited<ReturnType<typeof toTaskResponses>>[number];
+
+export const tasksService = {
+  async list(input: {
+    orgId: string;
+    propertyId?: string;
+    assigneeUserId?: string;
+    status?: string;
+    query?: string;
+    limit: number;
+  }) {
+    const clauses: SQL[] = [eq(tasks.orgId, input.orgId)];
+
+    if (input.propertyId) {
+      clauses.push(eq(tasks.propertyId, input.propertyId));
+    }
+
+    if (input.assigneeUserId) {
+      clauses.push(eq(tasks.assigneeUserId, input.assigneeUserId));
+    }
+
+    if (input.status) {
+      clauses.push(eq(tasks.status, parseTaskStatus(input.status)));
+    }
+
+    const normalizedQuery = input.query?.trim().toLowerCase();
+    if (normalizedQuery) {
+      const likeValue = `%${normalizedQuery}%`;
+      clauses.push(
+        or(
+          like(sql`lower(${tasks.title})`, likeValue),
+          like(sql`lower(coalesce(${tasks.description}, ''))`, likeValue),
+        )!,
+      );
+    }
+
+    const rows = await db
+      .select()
+      .from(tasks)
+      .where(and(...clauses))
+      .orderBy(sql`${tasks.dueAt} is null`, asc(tasks.dueAt), desc(tasks.createdAt))
+      .limit(input.limit);
+
+    return { items: await toTaskResponses(input.orgId, rows) };
+  },
+
+  async getById(input: { orgId: string; id: string }) {
+    const row = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, input.id), eq(tasks.orgId, input.orgId)),
+    });
+
+    if (!row) {
+      throw new HttpError(404, "TASK_NOT_FOUND", "Tâche introuvable");
+    }
+
+    const [task] = await toTaskResponses(input.orgId, [row]);
+    return task!;
+  },
+
+  async create(input: {
+    orgId: string;
+    title: string;
+    description?: string | null;
+    propertyId?: string | null;
+    assigneeUserId?: string | null;
+    dueAt?: string | null;
+    status?: string;
+    changeMode?: ObjectChangeMode;
+  }) {
+    const title = normalizeOptionalString(input.title);
+    if (!title) {
+      throw new HttpError(400, "INVALID_TASK_TITLE", "Le titre de la tâche est requis");
+    }
+
+    const propertyId = normalizeOptionalString(input.propertyId);
+    const assigneeUserId = normalizeOptionalString(input.assigneeUserId);
+    if (propertyId) {
+      await assertPropertyExistsInOrg(input.orgId, propertyId);
+    }
+    if (assigneeUserId) {
+      await assertUserExistsInOrg(input.orgId, assigneeUserId);
+    }
+
+    const status = input.status ? parseTaskStatus(input.status) : "TODO";
+    const now = new Date();
+    const id = crypto.randomUUID();
+
+    await db.insert(tasks).values({
+      id,
+      orgId: input.orgId,
+      propertyId,
+      assigneeUserId,
+      title,
+      description: normalizeOptionalString(input.description),
+      status,
+      dueAt: parseDueAt(input.dueAt),
+      completedAt: status === "DONE" ? now : null,
+      source: "MANUAL",
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const created = await this.getById({ orgId: input.orgId, id });
+    await trackObjectChangesSafe({
+      orgId: input.orgId,
+      objectType: "tache",
+      objectId: id,
+      mode: input.changeMode ?? "USER",
+      changes: [
+        { paramName: "title", paramValue: created.title },
+        { paramName: "description", paramValue: created.description },
+        { paramName: "status", paramValue: created.status },
+        { paramName: "dueAt", paramValue: created.dueAt },
+        { paramName: "propertyId", paramValue: created.propertyId },
+        { paramName: "assigneeUserId", paramValue: created.assigneeUserId },
+      ].filter((change) => change.paramValue !== null && change.paramValue !== ""),
+      modifiedAt: now,
+    });
+
+    return created;
+  },
+
+  async patchById(input: {
+    orgId: string;
+    id: string;
+    data: {
+      title?: string;
+      description?: string | null;
+      status?: string;
+      dueAt?: string | null;
+      propertyId?: string | null;
+      assigneeUserId?: string | null;
+    };
+    changeMode?: ObjectChangeMode;
+  }) {
+    const existing = await db.query.tasks.findFirst({
+      where: and(eq(tasks.id, input.id), eq(tasks.orgId, input.orgId)),
+    });
+
+    if (!existing) {
+      throw new HttpError(404, "TASK_NOT_FOUND", "Tâche introuvable");
+    }
+
+    const updates: Partial<typeof tasks.$inferInsert> = {};
+
+    if (input.data.title !== undefined) {
+      const title = normalizeOptionalString(input.data.title);
+      if (!title) {
+        throw new HttpError(400, "INVALID_TASK_TITLE", "Le titre de la tâche est requis");
+      }
+      updates.title = title;
+    }
+
+    if (input.data.description !== undefined) {
+      updates.description = normalizeOptionalString(input.data.description);
+    }
+
+    if (input.data.dueAt !== undefined) {
+      updates.dueAt = parseDueAt(input.data.dueAt);
+    }
+
+    if (input.data.propertyId !== undefined) {
+      const propertyId = normalizeOptionalString(input.data.propertyId);
+      if (propertyId) {
+        await assertPropertyExistsInOrg(input.orgId, propertyId);
+      }
+      updates.propertyId = propertyId;
+    }
+
+    if (input.data.assigneeUserId !== undefined) {
+      const assigneeUserId = normalizeOptionalString(input.data.assigneeUserId);
+      if (assigneeUserId) {
+        await assertUserExistsInOrg(input.orgId, assigneeUserId);
+      }
+      updates.assigneeUserId = assigneeUserId;
+    }
+
+    const now = new Date();
+    if (input.data.status !== undefined) {
+      const status = parseTaskStatus(input.data.status);
+      updates.status = status;
+      if (status !== existing.status) {
+        updates.completedAt = status === "DONE" ? now : null;
+      }
+    }
+
+    await db
+      .update(tasks)
+      .set({ ...updates, updatedAt: now })
+      .where(and(eq(tasks.id, input.id), eq(tasks.orgId, input.orgId)));
+
+    const updated = await this.getById({ orgId: input.orgId, id: input.id });
+    await trackObjectChangesSafe({
+      orgId: input.orgId,
+      objectType: "tache",
+      objectId: input.id,
+      mode: input.changeMode ?? "USER",
+      changes: Object.keys(input.data)
+        .filter((key) => input.data[key as keyof typeof input.data] !== undefined)
+        .map((key) => ({
+          paramName: key,
+          paramValue: updated[key as keyof TaskResponse],
+        })),
+      modifiedAt: now,
+    });
+
+    return updated;
+  },
+
+  async instantiateForStatus(input: {
+    orgId: string;
+    propertyId: string;
+    status: string;
+    assigneeUserId?: string | null;
+    now?: Date;
+  }): Promise<TaskResponse[]> {
+    const templates = listTaskTemplatesForStatus(input.status);
+    if (templates.length === 0) {
+      return [];
+    }
+
+    const openTemplateKeys = new Set(
+      (
+        await db
+          .select({ templateKey: tasks.templateKey })
+          .from(tasks)
+          .where(
+            and(
+              eq(tasks.orgId, input.orgId),
+              eq(tasks.propertyId, input.propertyId),
+              inArray(tasks.status, OPEN_TASK_STATUSES),
+            ),
+          )
+      ).flatMap((row) => (row.templateKey ? [row.templateKey] : [])),
+    );
+
+    const now = input.now ?? new Date();
+    const rows: TaskRow[] = templates
+      .filter((template) => !openTemplateKeys.has(template.key))
+      .map((template) => ({
+        id: crypto.randomUUID(),
+        orgId: input.orgId,
+        propertyId: input.propertyId,
+        assigneeUserId: input.assigneeUserId ?? null,
+        title: template.title,
+        description: template.description,
+        status: "TODO",
+        dueAt: new Date(now.getTime() + template.dueInDays * DAY_MS),
+        completedAt: null,
+        source: "STATUS_TEMPLATE",
+        templateKey: template.key,
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+    if (rows.length === 0) {
+      return [];
+    }
+
+    await db.insert(tasks).values(rows);
+    return toTaskResponses(input.orgId, rows);
+  },
+};
@@ -0,0 +1,85 @@
+export type TaskTemplate = {
+  key: string;
+  title: string;
+  description: string;
+  dueInDays: number;
+};
+
+// Repris des "#Taches" décrites par statut dans contracts/bien.json.
+const TASK_TEMPLATES_BY_STATUS: Record<string, TaskTemplate[]> = {
+  PROSPECTION: [
+    {
+      key: "PROSPECTION_EVALUATION",
+      title: "Évaluation du bien",
+      description: "Estimer le prix de vente à partir des comparables et de la visite.",
+      dueInDays: 7,
+    },
+    {
+      key: "PROSPECTION_PREPARATION_MANDAT",
+      title: "Préparation du mandat",
+      description: "Préparer le mandat de vente à faire signer au vendeur.",
+      dueInDays: 10,
+    },
+  ],
+  MANDAT_SIGNE: [
+    {
+      key: "MANDAT_SIGNE_RECUPERATION_DOCUMENTS",
+      title: "Récupération des documents du bien",
+      description: "Collecter diagnostics, titre de propriété et documents de copropriété.",
+      dueInDays: 7,
+    },
+    {
+      key: "MANDAT_SIGNE_PREPARATION_ANNONCE",
+      title: "Préparation de l'annonce",
+      description: "Rédiger l'annonce et préparer les photos pour la diffusion.",
+      dueInDays: 5,
+    },
+  ],
+  EN_DIFFUSION: [
+    {
+      key: "EN_DIFFUSION_ORGANISATION_VISITES",
+      title: "Organisation des visites",
+      description: "Planifier les visites avec les prospects intéressés.",
+      dueInDays: 7,
+    },
+  ],
+  OFFRES: [
+    {
+      key: "OFFRES_FACILITATION_NOTAIRES",
+      title: "Mise en relation des notaires",
+      description: "Transmettre les coordonnées et pièces aux notaires des deux parties.",
+      dueInDays: 5,
+    },
+    {
+      key: "OFFRES_RDV_NOTAIRE",
+      title: "Organisation du rendez-vous notaire",
+      description: "Fixer la date de signature du compromis chez le notaire.",
+      dueInDays: 14,
+    },
+  ],
+  COMPROMIS: [
+    {
+      key: "COMPROMIS_SUIVI_OFFRE_BANCAIRE",
+      title: "Suivi de l'offre bancaire",
+      description: "Suivre l'obtention du financement de l'acquéreur.",
+      dueInDays: 30,
+    },
+    {
+      key: "COMPROMIS_RDV_NOTAIRE",
+      title: "Organisation du rendez-vous de signature",
+      description: "Fixer la date de signature de l'acte authentique.",
+      dueInDays: 45,
+    },
+  ],
+  VENDU: [
+    {
+      key: "VENDU_ENREGISTREMENT_VENTE",
+      title: "Enregistrement de la vente",
+      description: "Enregistrer la vente et assurer le suivi comptable de la commission.",
+      dueInDays: 7,
+    },
+  ],
+};
+
+export const listTaskTemplatesForStatus = (status: string): TaskTemplate[] =>
+  (TASK_TEMPLATES_BY_STATUS[status] ?? []).map((template) => ({ ...template }));
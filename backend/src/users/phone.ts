@@ -0,0 +1,34 @@
+const FRENCH_COUNTRY_CODE = "33";
+
+// Ramène "06 12 34 56 78", "0033 6..." ou "+33 (0)6..." au format E.164 (+33612345678).
+export const normalizeFrenchPhone = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  let digits = trimmed.replace(/\(0\)/g, "").replace(/[^\d+]/g, "");
+  if (digits.startsWith("00")) {
+    digits = `+${digits.slice(2)}`;
+  }
+
+  if (digits.startsWith("+")) {
+    const international = digits.slice(1).replace(/\D/g, "");
+    if (international.startsWith(`${FRENCH_COUNTRY_CODE}0`)) {
+      return `+${FRENCH_COUNTRY_CODE}${international.slice(3)}`;
+    }
+
+    return international.length >= 8 ? `+${international}` : null;
+  }
+
+  const national = digits.replace(/\D/g, "");
+  if (national.length === 10 && national.startsWith("0")) {
+    return `+${FRENCH_COUNTRY_CODE}${national.slice(1)}`;
+  }
+
+  if (national.length === 11 && national.startsWith(FRENCH_COUNTRY_CODE)) {
+    return `+${national}`;
+  }
+
+  return null;
+};
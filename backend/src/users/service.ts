@@ -46,6 +46,8 @@ type ListUsersInput = {
 type CreateUserInput = {
   orgId: string;
   changeMode?: ObjectChangeMode;
+  // Fiche créée par un flux public dont le contact est à compléter par l'agence.
+  allowMissingContact?: boolean;
   data: {
     firstName?: string | null;
     lastName?: string | null;
@@ -401,7 +403,7 @@ export const usersService = {
       accountType: input.data.accountType,
     };
 
-    if (!businessData.email && !businessData.phone) {
+    if (!businessData.email && !businessData.phone && !input.allowMissingContact) {
       throw new HttpError(
         400,
         "VALIDATION_ERROR",
@@ -0,0 +1,145 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { db } from "../db/client";
+import { agentWorkingHours, users } from "../db/schema";
+import { HttpError } from "../http/errors";
+
+export type WorkingHoursRange = {
+  weekday: number;
+  startMinute: number;
+  endMinute: number;
+};
+
+// Sans plage saisie, un agent travaille du lundi au samedi de 9h à 19h (heure de Paris).
+export const DEFAULT_WORKING_HOURS: WorkingHoursRange[] = [1, 2, 3, 4, 5, 6].map((weekday) => ({
+  weekday,
+  startMinute: 9 * 60,
+  endMinute: 19 * 60,
+}));
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const parseTime = (value: string): number | null => {
+  const match = value.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+  if (!match) {
+    return value === "24:00" ? MINUTES_PER_DAY : null;
+  }
+
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const formatTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+const toResponse = (userId: string, ranges: WorkingHoursRange[], isDefault: boolean) => ({
+  userId,
+  isDefault,
+  items: ranges.map((range) => ({
+    weekday: range.weekday,
+    startTime: formatTime(range.startMinute),
+    endTime: formatTime(range.endMinute),
+  })),
+});
+
+const getAgentRow = async (orgId: string, userId: string) => {
+  const user = await db.query.users.findFirst({
+    where: and(eq(users.id, userId), eq(users.orgId, orgId)),
+  });
+
+  if (!user) {
+    throw new HttpError(404, "USER_NOT_FOUND", "Utilisateur introuvable");
+  }
+
+  if (user.accountType !== "AGENT") {
+    throw new HttpError(400, "USER_NOT_AGENT", "Les horaires ne concernent que les agents");
+  }
+
+  return user;
+};
+
+// Plages hebdomadaires de chaque agent demandé, avec repli sur les horaires par défaut.
+export const loadWorkingHours = async (
+  orgId: string,
+  userIds: string[],
+): Promise<Map<string, WorkingHoursRange[]>> => {
+  const byUser = new Map<string, WorkingHoursRange[]>(userIds.map((userId) => [userId, []]));
+  if (userIds.length > 0) {
+    const rows = await db
+      .select()
+      .from(agentWorkingHours)
+      .where(and(eq(agentWorkingHours.orgId, orgId), inArray(agentWorkingHours.userId, userIds)))
+      .orderBy(asc(agentWorkingHours.weekday), asc(agentWorkingHours.startMinute));
+    for (const row of rows) {
+      byUser.get(row.userId)?.push({
+        weekday: row.weekday,
+        startMinute: row.startMinute,
+        endMinute: row.endMinute,
+      });
+    }
+  }
+
+  for (const [userId, ranges] of byUser) {
+    if (ranges.length === 0) {
+      byUser.set(userId, DEFAULT_WORKING_HOURS);
+    }
+  }
+
+  return byUser;
+};
+
+export const agentWorkingHoursService = {
+  async get(input: { orgId: string; userId: string }) {
+    await getAgentRow(input.orgId, input.userId);
+    const rows = await db
+      .select()
+      .from(agentWorkingHours)
+      .where(and(eq(agentWorkingHours.orgId, input.orgId), eq(agentWorkingHours.userId, input.userId)))
+      .orderBy(asc(agentWorkingHours.weekday), asc(agentWorkingHours.startMinute));
+
+    return rows.length > 0
+      ? toResponse(input.userId, rows, false)
+      : toResponse(input.userId, DEFAULT_WORKING_HOURS, true);
+  },
+
+  // Remplace toutes les plages de l'agent; une liste vide rétablit les horaires par défaut.
+  async replace(input: {
+    orgId: string;
+    userId: string;
+    items: Array<{ weekday: number; startTime: string; endTime: string }>;
+  }) {
+    await getAgentRow(input.orgId, input.userId);
+
+    const ranges = input.items.map((item) => {
+      const startMinute = parseTime(item.startTime);
+      const endMinute = parseTime(item.endTime);
+      if (startMinute === null || endMinute === null || endMinute <= startMinute) {
+        throw new HttpError(
+          400,
+          "INVALID_WORKING_HOURS",
+          "Chaque plage doit commencer avant de finir (format HH:MM)",
+          { weekday: item.weekday, startTime: item.startTime, endTime: item.endTime },
+        );
+      }
+
+      return { weekday: item.weekday, startMinute, endMinute };
+    });
+
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(agentWorkingHours)
+        .where(and(eq(agentWorkingHours.orgId, input.orgId), eq(agentWorkingHours.userId, input.userId)));
+      for (const range of ranges) {
+        await tx.insert(agentWorkingHours).values({
+          id: crypto.randomUUID(),
+          orgId: input.orgId,
+          userId: input.userId,
+          ...range,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+    });
+
+    return agentWorkingHoursService.get({ orgId: input.orgId, userId: input.userId });
+  },
+};
@@ -0,0 +1,375 @@
+import { and, eq, sql } from "drizzle-orm";
+import { getGlobalProviderSettings } from "../config/provider-settings";
+import { db } from "../db/client";
+import { organizations, properties, propertyBookingLinks, users } from "../db/schema";
+import { createEmailProvider } from "../email";
+import { HttpError } from "../http/errors";
+import { messagesService } from "../messages/service";
+import { parseJsonRecord, readDetail, readNumber, readText } from "../properties/detail-values";
+import { propertiesService } from "../properties/service";
+import { listFreeVisitSlots } from "../properties/visit-slots";
+import { reviewQueueService } from "../review-queue/service";
+import { usersService } from "../users/service";
+import { renderVisitBookingEmail, renderVisitIcs } from "./template";
+
+type BookingLinkRow = typeof propertyBookingLinks.$inferSelect;
+
+const BOOKING_DURATION_MINUTES = 60;
+const BOOKING_SEARCH_DAYS = 14;
+const BOOKING_SLOT_LIMIT = 30;
+const BOOKING_REVIEW_REASON = "PUBLIC_BOOKING_CONFIRMATION";
+const BOOKING_PROSPECT_REVIEW_REASON = "PUBLIC_BOOKING_EMAIL_CONFLICT";
+const BOOKING_CLOSED_STATUSES = ["VENDU", "ARCHIVE"];
+
+const generateToken = (): string => Buffer.from(crypto.getRandomValues(new Uint8Array(24))).toString("base64url");
+
+const toBookingLinkResponse = (row: BookingLinkRow) => ({
+  propertyId: row.propertyId,
+  token: row.token,
+  enabled: row.enabled,
+  requiresConfirmation: row.requiresConfirmation,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+const assertPropertyScope = async (orgId: string, propertyId: string) => {
+  const property = await db.query.properties.findFirst({
+    where: and(eq(properties.id, propertyId), eq(properties.orgId, orgId)),
+  });
+
+  if (!property) {
+    throw new HttpError(404, "PROPERTY_NOT_FOUND", "Bien introuvable");
+  }
+
+  return property;
+};
+
+// Un lien désactivé, ou celui d'un bien vendu ou archivé, se comporte comme un lien inconnu
+// pour ne rien révéler au public.
+const getActiveLink = async (token: string) => {
+  const link = await db.query.propertyBookingLinks.findFirst({
+    where: eq(propertyBookingLinks.token, token),
+  });
+
+  if (!link?.enabled) {
+    throw new HttpError(404, "BOOKING_LINK_NOT_FOUND", "Lien de réservation introuvable");
+  }
+
+  const property = await assertPropertyScope(link.orgId, link.propertyId);
+  if (BOOKING_CLOSED_STATUSES.includes(property.status)) {
+    throw new HttpError(404, "BOOKING_LINK_NOT_FOUND", "Lien de réservation introuvable");
+  }
+
+  return { link, property };
+};
+
+// Prospect de la réservation publique. Un email déjà pris ailleurs (autre agence, compte non client)
+// ne doit pas se deviner: la réservation aboutit comme les autres, sur une fiche client sans email à vérifier.
+const resolveProspect = async (input: {
+  orgId: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+}) => {
+  const email = input.email.trim().toLowerCase();
+  const existing = await db.query.users.findFirst({
+    where: and(eq(users.orgId, input.orgId), eq(sql`lower(${users.email})`, email)),
+  });
+
+  if (existing?.accountType === "CLIENT") {
+    return { id: existing.id, firstName: existing.firstName, email, emailConflict: false };
+  }
+
+  const createClient = (withEmail: boolean) =>
+    usersService.create({
+      orgId: input.orgId,
+      allowMissingContact: !withEmail,
+      data: {
+        firstName: input.firstName,
+        lastName: input.lastName,
+        email: withEmail ? email : null,
+        phone: input.phone,
+        accountType: "CLIENT",
+      },
+    });
+
+  if (existing) {
+    const created = await createClient(false);
+    return { id: created.id, firstName: input.firstName, email, emailConflict: true };
+  }
+
+  try {
+    const created = await createClient(true);
+    return { id: created.id, firstName: input.firstName, email, emailConflict: false };
+  } catch (error) {
+    if (error instanceof HttpError && error.code === "EMAIL_ALREADY_USED") {
+      const created = await createClient(false);
+      return { id: created.id, firstName: input.firstName, email, emailConflict: true };
+    }
+    throw error;
+  }
+};
+
+const sendConfirmationEmail = async (input: {
+  orgId: string;
+  propertyId: string;
+  to: string;
+  email: { subject: string; text: string };
+  ics: string;
+}): Promise<boolean> => {
+  try {
+    const settings = await getGlobalProviderSettings();
+    const sent = await createEmailProvider(settings.emailProvider).send({
+      to: [input.to],
+      subject: input.email.subject,
+      text: input.email.text,
+      attachments: [
+        {
+          fileName: "visite.ics",
+          contentType: "text/calendar; method=PUBLISH",
+          content: new TextEncoder().encode(input.ics),
+        },
+      ],
+    });
+    await messagesService.recordOutboundMessage({
+      orgId: input.orgId,
+      propertyId: input.propertyId,
+      channel: "EMAIL",
+      sourceProvider: settings.emailProvider,
+      externalId: sent.messageId,
+      subject: input.email.subject,
+      body: input.email.text,
+      sentAt: new Date(),
+      fromAddress: sent.from,
+      toAddresses: [input.to],
+      messageIdHeader: sent.messageId,
+    });
+    return true;
+  } catch (error) {
+    // La visite est réservée même si l'email échoue: l'agent voit la visite et peut relancer.
+    console.warn(
+      `[VisitBooking] confirmation impossible property=${input.propertyId}: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+    return false;
+  }
+};
+
+export const visitBookingService = {
+  async getLink(input: { orgId: string; propertyId: string }) {
+    await assertPropertyScope(input.orgId, input.propertyId);
+    const link = await db.query.propertyBookingLinks.findFirst({
+      where: and(
+        eq(propertyBookingLinks.orgId, input.orgId),
+        eq(propertyBookingLinks.propertyId, input.propertyId),
+      ),
+    });
+
+    if (!link) {
+      throw new HttpError(404, "BOOKING_LINK_NOT_FOUND", "Lien de réservation introuvable");
+    }
+
+    return toBookingLinkResponse(link);
+  },
+
+  async upsertLink(input: {
+    orgId: string;
+    propertyId: string;
+    enabled?: boolean;
+    requiresConfirmation?: boolean;
+    rotateToken?: boolean;
+  }) {
+    await assertPropertyScope(input.orgId, input.propertyId);
+    const existing = await db.query.propertyBookingLinks.findFirst({
+      where: and(
+        eq(propertyBookingLinks.orgId, input.orgId),
+        eq(propertyBookingLinks.propertyId, input.propertyId),
+      ),
+    });
+    const now = new Date();
+
+    if (!existing) {
+      await db.insert(propertyBookingLinks).values({
+        id: crypto.randomUUID(),
+        orgId: input.orgId,
+        propertyId: input.propertyId,
+        token: generateToken(),
+        enabled: input.enabled ?? true,
+        requiresConfirmation: input.requiresConfirmation ?? false,
+        createdAt: now,
+        updatedAt: now,
+      });
+    } else {
+      await db
+        .update(propertyBookingLinks)
+        .set({
+          token: input.rotateToken ? generateToken() : existing.token,
+          enabled: input.enabled ?? existing.enabled,
+          requiresConfirmation: input.requiresConfirmation ?? existing.requiresConfirmation,
+          updatedAt: now,
+        })
+        .where(eq(propertyBookingLinks.id, existing.id));
+    }
+
+    return visitBookingService.getLink({ orgId: input.orgId, propertyId: input.propertyId });
+  },
+
+  async getPublicPage(input: { token: string }) {
+    const { link, property } = await getActiveLink(input.token);
+    const [organization, slots] = await Promise.all([
+      db.query.organizations.findFirst({ where: eq(organizations.id, link.orgId) }),
+      listFreeVisitSlots({
+        orgId: link.orgId,
+        propertyId: property.id,
+        days: BOOKING_SEARCH_DAYS,
+        durationMinutes: BOOKING_DURATION_MINUTES,
+        limit: BOOKING_SLOT_LIMIT,
+      }),
+    ]);
+    const details = parseJsonRecord(property.details);
+
+    return {
+      agencyName: organization?.name ?? "",
+      requiresConfirmation: link.requiresConfirmation,
+      durationMinutes: BOOKING_DURATION_MINUTES,
+      property: {
+        title: property.title,
+        city: property.city,
+        postalCode: property.postalCode,
+        price: property.price ?? readNumber(readDetail(details, "finance", "salePriceTtc")),
+        propertyType: readText(readDetail(details, "general", "propertyType")),
+        livingArea: readNumber(readDetail(details, "characteristics", "livingArea")),
+        rooms: readNumber(readDetail(details, "characteristics", "rooms")),
+        dpeClass: readText(readDetail(details, "regulation", "dpeClass")),
+        description:
+          readText(readDetail(details, "marketing", "shortDescription")) ??
+          readText(readDetail(details, "marketing", "marketingHook")),
+      },
+      // L'agent pressenti reste interne: le public ne voit que les horaires.
+      slots: slots.map((slot) => ({ startsAt: slot.startsAt, endsAt: slot.endsAt })),
+    };
+  },
+
+  async book(input: {
+    token: string;
+    firstName: string;
+    lastName: string;
+    email: string;
+    phone?: string | null;
+    startsAt: string;
+  }) {
+    const { link, property } = await getActiveLink(input.token);
+    const requestedStart = new Date(input.startsAt);
+    if (Number.isNaN(requestedStart.getTime())) {
+      throw new HttpError(400, "INVALID_VISIT_START", "La date de debut de visite est invalide");
+    }
+
+    // Le créneau doit encore figurer parmi les créneaux libres au moment de la réservation.
+    const [slot] =
+      requestedStart.getTime() > Date.now()
+        ? await listFreeVisitSlots({
+            orgId: link.orgId,
+            propertyId: property.id,
+            from: requestedStart,
+            days: 1,
+            durationMinutes: BOOKING_DURATION_MINUTES,
+            limit: 1,
+          })
+        : [];
+    if (!slot || slot.startsAt !== requestedStart.toISOString()) {
+      throw new HttpError(409, "BOOKING_SLOT_UNAVAILABLE", "Ce créneau n'est plus disponible");
+    }
+
+    const prospect = await resolveProspect({
+      orgId: link.orgId,
+      firstName: input.firstName.trim(),
+      lastName: input.lastName.trim(),
+      email: input.email,
+      phone: input.phone?.trim() || null,
+    });
+
+    // La visite revérifie le créneau à l'insertion, agent ou non: une réservation concurrente l'a peut-être pris.
+    const visit = await propertiesService
+      .addVisit({
+        orgId: link.orgId,
+        propertyId: property.id,
+        prospectUserId: prospect.id,
+        agentUserId: slot.agentUserId,
+        startsAt: slot.startsAt,
+        endsAt: slot.endsAt,
+      })
+      .catch((error) => {
+        if (error instanceof HttpError && error.code === "VISIT_SLOT_CONFLICT") {
+          throw new HttpError(409, "BOOKING_SLOT_UNAVAILABLE", "Ce créneau n'est plus disponible");
+        }
+        throw error;
+      });
+
+    if (link.requiresConfirmation) {
+      await reviewQueueService.createOpenItem({
+        orgId: link.orgId,
+        itemType: "VISIT",
+        itemId: visit.id,
+        reason: BOOKING_REVIEW_REASON,
+        payload: {
+          propertyId: property.id,
+          prospectUserId: prospect.id,
+          agentUserId: slot.agentUserId,
+          startsAt: slot.startsAt,
+          endsAt: slot.endsAt,
+        },
+      });
+    }
+
+    if (prospect.emailConflict) {
+      await reviewQueueService.createOpenItem({
+        orgId: link.orgId,
+        itemType: "VISIT",
+        itemId: visit.id,
+        reason: BOOKING_PROSPECT_REVIEW_REASON,
+        payload: {
+          propertyId: property.id,
+          prospectUserId: prospect.id,
+          email: prospect.email,
+          startsAt: slot.startsAt,
+          endsAt: slot.endsAt,
+        },
+      });
+    }
+
+    const organization = await db.query.organizations.findFirst({
+      where: eq(organizations.id, link.orgId),
+    });
+    const templateInput = {
+      visitId: visit.id,
+      prospectFirstName: prospect.firstName,
+      agencyName: organization?.name ?? "",
+      pendingConfirmation: link.requiresConfirmation,
+      startsAt: new Date(slot.startsAt),
+      endsAt: new Date(slot.endsAt),
+      property: {
+        title: property.title,
+        city: property.city,
+        postalCode: property.postalCode,
+        address: property.address,
+      },
+    };
+    const confirmationEmailSent = await sendConfirmationEmail({
+      orgId: link.orgId,
+      propertyId: property.id,
+      to: prospect.email,
+      email: renderVisitBookingEmail(templateInput),
+      ics: renderVisitIcs(templateInput),
+    });
+
+    return {
+      visitId: visit.id,
+      startsAt: slot.startsAt,
+      endsAt: slot.endsAt,
+      status: link.requiresConfirmation ? ("PENDING_CONFIRMATION" as const) : ("CONFIRMED" as const),
+      confirmationEmailSent,
+    };
+  },
+};
@@ -0,0 +1,115 @@
+export type VisitBookingTemplateInput = {
+  visitId: string;
+  prospectFirstName: string;
+  agencyName: string;
+  pendingConfirmation: boolean;
+  startsAt: Date;
+  endsAt: Date;
+  property: {
+    title: string;
+    city: string;
+    postalCode: string;
+    address: string | null;
+  };
+};
+
+const VISIT_TIME_ZONE = "Europe/Paris";
+
+const formatVisitDate = (value: Date): string =>
+  new Intl.DateTimeFormat("fr-FR", {
+    timeZone: VISIT_TIME_ZONE,
+    dateStyle: "full",
+    timeStyle: "short",
+  }).format(value);
+
+const formatLocation = (property: VisitBookingTemplateInput["property"]): string =>
+  [property.address, `${property.postalCode} ${property.city}`.trim()]
+    .filter((part): part is string => Boolean(part))
+    .join(", ");
+
+const toIcsDate = (value: Date): string => value.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeIcsText = (value: string): string =>
+  value
+    .replaceAll("\\", "\\\\")
+    .replaceAll(";", "\\;")
+    .replaceAll(",", "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// RFC 5545: lignes de 75 octets au plus, repliées par CRLF + espace.
+const foldIcsLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+};
+
+export const renderVisitIcs = (input: VisitBookingTemplateInput, now = new Date()): string => {
+  const summary = `Visite - ${input.property.title}`;
+  const description = input.pendingConfirmation
+    ? `Demande de visite en attente de confirmation par ${input.agencyName}.`
+    : `Visite confirmée par ${input.agencyName}.`;
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Monimmo//Visites//FR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:visit-${input.visitId}@monimmo`,
+    `DTSTAMP:${toIcsDate(now)}`,
+    `DTSTART:${toIcsDate(input.startsAt)}`,
+    `DTEND:${toIcsDate(input.endsAt)}`,
+    `SUMMARY:${escapeIcsText(summary)}`,
+    `LOCATION:${escapeIcsText(formatLocation(input.property))}`,
+    `DESCRIPTION:${escapeIcsText(description)}`,
+    `STATUS:${input.pendingConfirmation ? "TENTATIVE" : "CONFIRMED"}`,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ]
+    .map(foldIcsLine)
+    .join("\r\n")
+    .concat("\r\n");
+};
+
+export const renderVisitBookingEmail = (
+  input: VisitBookingTemplateInput,
+): { subject: string; text: string } => {
+  const when = formatVisitDate(input.startsAt);
+  const greeting = input.prospectFirstName ? `Bonjour ${input.prospectFirstName},` : "Bonjour,";
+  const summary = input.pendingConfirmation
+    ? [
+        `Votre demande de visite du bien « ${input.property.title} » le ${when} est bien enregistrée.`,
+        "L'agence va vérifier sa disponibilité et vous confirmera le rendez-vous très vite.",
+      ]
+    : [`Votre visite du bien « ${input.property.title} » est confirmée le ${when}.`];
+
+  const text = [
+    greeting,
+    "",
+    ...summary,
+    "",
+    `Adresse : ${formatLocation(input.property)}`,
+    "",
+    "L'invitation jointe vous permet d'ajouter le rendez-vous à votre agenda.",
+    "Répondez à cet email pour toute question ou pour modifier le créneau.",
+    "",
+    input.agencyName,
+  ].join("\n");
+
+  return {
+    subject: input.pendingConfirmation
+      ? `Demande de visite enregistrée - ${input.property.title}`
+      : `Visite confirmée - ${input.property.title}`,
+    text,
+  };
+};
@@ -0,0 +1,259 @@
+import { and, desc, eq, gte, lte } from "drizzle-orm";
+import { trackAICallFromTelemetrySafe } from "../ai/call-logs";
+import { getAIProviderForOrg } from "../ai/factory";
+import type {
+  VisitFeedbackInterestLevel,
+  VisitFeedbackOfferIntention,
+  VisitFeedbackPerceivedPrice,
+} from "../ai/provider";
+import { db } from "../db/client";
+import { propertyVisitFeedbacks, propertyVisits } from "../db/schema";
+import { HttpError } from "../http/errors";
+import { propertiesService } from "../properties/service";
+import { reviewQueueService } from "../review-queue/service";
+import { vocalsService } from "../vocals/service";
+
+type VisitFeedbackRow = typeof propertyVisitFeedbacks.$inferSelect;
+export type VisitFeedbackSource = "MANUAL" | "AI";
+
+export type VisitFeedbackData = {
+  interestLevel: VisitFeedbackInterestLevel | null;
+  perceivedPrice: VisitFeedbackPerceivedPrice | null;
+  positives: string[];
+  negatives: string[];
+  offerIntention: VisitFeedbackOfferIntention | null;
+};
+
+const MIN_VISIT_FEEDBACK_CONFIDENCE = 0.55;
+// Un compte rendu vocal se rattache à la dernière visite du bien dans la semaine qui précède.
+const VOCAL_VISIT_MATCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_FEEDBACK_POINTS = 10;
+
+const parseStringList = (raw: string): string[] => {
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? parsed.filter((item): item is string => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const normalizePoints = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  const points: string[] = [];
+  for (const value of values) {
+    const trimmed = value.trim();
+    const key = trimmed.toLocaleLowerCase("fr-FR");
+    if (!trimmed || seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+    points.push(trimmed);
+  }
+
+  return points.slice(0, MAX_FEEDBACK_POINTS);
+};
+
+const toVisitFeedbackResponse = (row: VisitFeedbackRow) => ({
+  visitId: row.visitId,
+  propertyId: row.propertyId,
+  interestLevel: row.interestLevel as VisitFeedbackInterestLevel | null,
+  perceivedPrice: row.perceivedPrice as VisitFeedbackPerceivedPrice | null,
+  positives: parseStringList(row.positives),
+  negatives: parseStringList(row.negatives),
+  offerIntention: row.offerIntention as VisitFeedbackOfferIntention | null,
+  source: row.source as VisitFeedbackSource,
+  vocalId: row.vocalId,
+  confidence: row.confidence,
+  createdAt: row.createdAt.toISOString(),
+  updatedAt: row.updatedAt.toISOString(),
+});
+
+const findFeedback = (orgId: string, visitId: string) =>
+  db.query.propertyVisitFeedbacks.findFirst({
+    where: and(eq(propertyVisitFeedbacks.orgId, orgId), eq(propertyVisitFeedbacks.visitId, visitId)),
+  });
+
+const findVisitForVocal = async (orgId: string, propertyId: string, recordedAt: Date) => {
+  const [visit] = await db
+    .select({ id: propertyVisits.id })
+    .from(propertyVisits)
+    .where(
+      and(
+        eq(propertyVisits.orgId, orgId),
+        eq(propertyVisits.propertyId, propertyId),
+        lte(propertyVisits.startsAt, recordedAt),
+        gte(propertyVisits.startsAt, new Date(recordedAt.getTime() - VOCAL_VISIT_MATCH_WINDOW_MS)),
+      ),
+    )
+    .orderBy(desc(propertyVisits.startsAt))
+    .limit(1);
+
+  return visit?.id ?? null;
+};
+
+export const visitFeedbackService = {
+  async get(input: { orgId: string; visitId: string }) {
+    await propertiesService.getVisitById({ orgId: input.orgId, id: input.visitId });
+    const row = await findFeedback(input.orgId, input.visitId);
+
+    if (!row) {
+      throw new HttpError(404, "VISIT_FEEDBACK_NOT_FOUND", "Retour de visite introuvable");
+    }
+
+    return toVisitFeedbackResponse(row);
+  },
+
+  async upsert(input: {
+    orgId: string;
+    visitId: string;
+    data: VisitFeedbackData;
+    source?: VisitFeedbackSource;
+    vocalId?: string | null;
+    confidence?: number | null;
+  }) {
+    const visit = await propertiesService.getVisitById({ orgId: input.orgId, id: input.visitId });
+    const existing = await findFeedback(input.orgId, input.visitId);
+    const now = new Date();
+    const values = {
+      interestLevel: input.data.interestLevel,
+      perceivedPrice: input.data.perceivedPrice,
+      positives: JSON.stringify(normalizePoints(input.data.positives)),
+      negatives: JSON.stringify(normalizePoints(input.data.negatives)),
+      offerIntention: input.data.offerIntention,
+      source: input.source ?? "MANUAL",
+      vocalId: input.vocalId ?? null,
+      confidence: input.confidence ?? null,
+      updatedAt: now,
+    };
+
+    if (existing) {
+      await db
+        .update(propertyVisitFeedbacks)
+        .set(values)
+        .where(eq(propertyVisitFeedbacks.id, existing.id));
+    } else {
+      await db.insert(propertyVisitFeedbacks).values({
+        id: crypto.randomUUID(),
+        orgId: input.orgId,
+        visitId: visit.id,
+        propertyId: visit.propertyId,
+        ...values,
+        createdAt: now,
+      });
+    }
+
+    return visitFeedbackService.get({ orgId: input.orgId, visitId: input.visitId });
+  },
+
+  async listForProperty(input: { orgId: string; propertyId: string }) {
+    const rows = await db
+      .select()
+      .from(propertyVisitFeedbacks)
+      .where(
+        and(
+          eq(propertyVisitFeedbacks.orgId, input.orgId),
+          eq(propertyVisitFeedbacks.propertyId, input.propertyId),
+        ),
+      );
+
+    return rows.map(toVisitFeedbackResponse);
+  },
+
+  // Sans visite explicite, le retour saisi à la main par l'agent n'est jamais écrasé par l'IA.
+  async extractFromVocal(input: { orgId: string; vocalId: string; visitId?: string }) {
+    const vocal = await vocalsService.getById({ orgId: input.orgId, id: input.vocalId });
+
+    if (!vocal.transcript?.trim()) {
+      await reviewQueueService.createOpenItem({
+        orgId: input.orgId,
+        itemType: "VOCAL",
+        itemId: vocal.id,
+        reason: "VOCAL_NO_TRANSCRIPT",
+      });
+      return { status: "REVIEW_REQUIRED" as const, reason: "missing_transcript", feedback: null };
+    }
+
+    let visitId: string | null = null;
+    if (input.visitId) {
+      const visit = await propertiesService.getVisitById({ orgId: input.orgId, id: input.visitId });
+      if (vocal.propertyId && vocal.propertyId !== visit.propertyId) {
+        throw new HttpError(
+          400,
+          "VISIT_VOCAL_PROPERTY_MISMATCH",
+          "Le vocal est rattaché à un autre bien que la visite",
+        );
+      }
+      visitId = visit.id;
+    } else if (vocal.propertyId) {
+      visitId = await findVisitForVocal(input.orgId, vocal.propertyId, new Date(vocal.createdAt));
+    }
+
+    if (!visitId) {
+      await reviewQueueService.createOpenItem({
+        orgId: input.orgId,
+        itemType: "VOCAL",
+        itemId: vocal.id,
+        reason: "VOCAL_VISIT_FEEDBACK_NO_VISIT",
+      });
+      return { status: "REVIEW_REQUIRED" as const, reason: "missing_visit", feedback: null };
+    }
+
+    const existing = await findFeedback(input.orgId, visitId);
+    if (!input.visitId && existing?.source === "MANUAL") {
+      return {
+        status: "SKIPPED" as const,
+        reason: "manual_feedback",
+        feedback: toVisitFeedbackResponse(existing),
+      };
+    }
+
+    const provider = await getAIProviderForOrg(input.orgId);
+    const extracted = await provider.extractVisitFeedback({
+      transcript: vocal.transcript,
+      summary: vocal.summary,
+    });
+    await trackAICallFromTelemetrySafe({
+      orgId: input.orgId,
+      useCase: "VISIT_FEEDBACK_EXTRACTION",
+      fallbackPrompt: [
+        "Extraction retour de visite",
+        `visitId: ${visitId}`,
+        `transcript: ${vocal.transcript}`,
+        `summary: ${vocal.summary ?? ""}`,
+      ].join("\n"),
+      fallbackResponse: extracted,
+      telemetry: extracted.telemetry,
+    });
+
+    const data: VisitFeedbackData = {
+      interestLevel: extracted.interestLevel,
+      perceivedPrice: extracted.perceivedPrice,
+      positives: extracted.positives,
+      negatives: extracted.negatives,
+      offerIntention: extracted.offerIntention,
+    };
+
+    if (extracted.confidence < MIN_VISIT_FEEDBACK_CONFIDENCE) {
+      await reviewQueueService.createOpenItem({
+        orgId: input.orgId,
+        itemType: "VOCAL",
+        itemId: vocal.id,
+        reason: "VOCAL_VISIT_FEEDBACK_LOW_CONFIDENCE",
+        payload: { visitId, confidence: extracted.confidence, proposed: data },
+      });
+      return { status: "REVIEW_REQUIRED" as const, reason: "low_confidence", feedback: null };
+    }
+
+    const feedback = await visitFeedbackService.upsert({
+      orgId: input.orgId,
+      visitId,
+      data,
+      source: "AI",
+      vocalId: vocal.id,
+      confidence: extracted.confidence,
+    });
+    return { status: "UPDATED" as const, reason: null, feedback };
+  },
+};
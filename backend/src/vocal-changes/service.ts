@@ -0,0 +1,162 @@
+import { HttpError } from "../http/errors";
+import { getLinkTypeDefinition } from "../links/catalog";
+import { linksService } from "../links/service";
+import { trackObjectChangesSafe } from "../object-data/change-log";
+import {
+  getObjectDataFieldDefinition,
+  type ObjectFieldDefinition,
+  type ObjectFieldOption,
+} from "../object-data/structure";
+import { propertiesService } from "../properties/service";
+import { getVocalInsightFields } from "../vocals/insight-schemas";
+import { vocalsService } from "../vocals/service";
+
+export type VocalProposedChangeTarget = "bien" | "bien_user";
+
+export type VocalProposedChange = {
+  key: string;
+  name: string;
+  type: ObjectFieldDefinition["type"];
+  options?: ObjectFieldOption[];
+  target: VocalProposedChangeTarget;
+  currentValue: unknown;
+  proposedValue: unknown;
+  changed: boolean;
+};
+
+type VocalResponse = Awaited<ReturnType<typeof vocalsService.getById>>;
+type LinkResponse = Awaited<ReturnType<typeof linksService.getById>>;
+
+const isSameValue = (left: unknown, right: unknown): boolean =>
+  JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+
+const findProspectLink = async (
+  orgId: string,
+  propertyId: string,
+  prospectUserId: string,
+): Promise<LinkResponse | null> => {
+  const links = await linksService.list({
+    orgId,
+    limit: 1,
+    typeLien: "bien_user",
+    objectId1: propertyId,
+    objectId2: prospectUserId,
+  });
+
+  return links.items[0] ?? null;
+};
+
+// Les champs du bien vont dans ses détails, les retours acquéreur dans les paramètres du lien bien-prospect.
+const buildProposedChanges = async (orgId: string, vocal: VocalResponse) => {
+  const fields = getVocalInsightFields(vocal.vocalType ?? null) ?? [];
+  const insights = vocal.insights ?? {};
+  const property = vocal.propertyId
+    ? await propertiesService.getById({ orgId, id: vocal.propertyId })
+    : null;
+  const link =
+    property && vocal.prospectUserId ? await findProspectLink(orgId, property.id, vocal.prospectUserId) : null;
+  const linkFieldByKey = new Map(
+    (getLinkTypeDefinition("bien_user")?.paramsSchema ?? []).map((field) => [field.key, field]),
+  );
+
+  const items: VocalProposedChange[] = [];
+  for (const field of property ? fields : []) {
+    const proposedValue = insights[field.key];
+    if (proposedValue === null || proposedValue === undefined) {
+      continue;
+    }
+
+    const bienField = field.group === "vocal" ? null : getObjectDataFieldDefinition("bien", field.key);
+    const linkField = vocal.prospectUserId ? linkFieldByKey.get(field.key) : undefined;
+    const target: VocalProposedChangeTarget | null = bienField ? "bien" : linkField ? "bien_user" : null;
+    if (!target) {
+      continue;
+    }
+
+    const definition = bienField ?? linkField!;
+    const currentValue =
+      (target === "bien" ? property!.details[field.key] : link?.params[field.key]) ?? null;
+    items.push({
+      key: field.key,
+      name: definition.name,
+      type: definition.type,
+      ...(definition.options ? { options: definition.options } : {}),
+      target,
+      currentValue,
+      proposedValue,
+      changed: !isSameValue(currentValue, proposedValue),
+    });
+  }
+
+  return {
+    vocalId: vocal.id,
+    propertyId: property?.id ?? null,
+    prospectUserId: vocal.prospectUserId ?? null,
+    linkId: link?.id ?? null,
+    items,
+  };
+};
+
+export const vocalChangesService = {
+  async list(input: { orgId: string; vocalId: string }) {
+    const vocal = await vocalsService.getById({ orgId: input.orgId, id: input.vocalId });
+    return buildProposedChanges(input.orgId, vocal);
+  },
+
+  async apply(input: { orgId: string; vocalId: string; keys: string[] }) {
+    const vocal = await vocalsService.getById({ orgId: input.orgId, id: input.vocalId });
+    const proposals = await buildProposedChanges(input.orgId, vocal);
+    const proposalByKey = new Map(proposals.items.map((item) => [item.key, item]));
+
+    const unknownKey = input.keys.find((key) => !proposalByKey.has(key));
+    if (unknownKey) {
+      throw new HttpError(
+        400,
+        "VOCAL_CHANGE_NOT_FOUND",
+        `Aucune modification proposée pour le champ ${unknownKey}`,
+      );
+    }
+
+    const accepted = [...new Set(input.keys)]
+      .map((key) => proposalByKey.get(key)!)
+      .filter((item) => item.changed);
+    const bienChanges = accepted.filter((item) => item.target === "bien");
+    const linkChanges = accepted.filter((item) => item.target === "bien_user");
+
+    if (bienChanges.length > 0 && proposals.propertyId) {
+      await propertiesService.patchById({
+        orgId: input.orgId,
+        id: proposals.propertyId,
+        changeMode: "AI",
+        data: {
+          details: Object.fromEntries(bienChanges.map((item) => [item.key, item.proposedValue])),
+        },
+      });
+    }
+
+    if (linkChanges.length > 0 && proposals.propertyId && proposals.prospectUserId) {
+      const params = Object.fromEntries(linkChanges.map((item) => [item.key, item.proposedValue]));
+      const link = proposals.linkId
+        ? await linksService.patchById({ orgId: input.orgId, id: proposals.linkId, params })
+        : (
+            await linksService.upsert({
+              orgId: input.orgId,
+              typeLien: "bien_user",
+              objectId1: proposals.propertyId,
+              objectId2: proposals.prospectUserId,
+              params,
+            })
+          ).item;
+
+      await trackObjectChangesSafe({
+        orgId: input.orgId,
+        objectType: "lien",
+        objectId: link.id,
+        mode: "AI",
+        changes: linkChanges.map((item) => ({ paramName: item.key, paramValue: item.proposedValue })),
+      });
+    }
+
+    return buildProposedChanges(input.orgId, vocal);
+  },
+};
@@ -0,0 +1,756 @@
+// Conteneurs compressés (WebM, Ogg, MP4): pas de décodage, le fichier est recomposé autour d'une suite
+// de blocs horodatés (cluster WebM, pages Ogg, échantillons MP4) avec une horloge ramenée à zéro.
+
+export type TimedAudioBlock = {
+  startMs: number;
+  endMs: number;
+  byteLength: number;
+};
+
+export type BlockAudioLayout = {
+  blocks: TimedAudioBlock[];
+  // Fichier autonome contenant les blocs first à last inclus.
+  build: (first: number, last: number) => Uint8Array;
+};
+
+export const readAscii = (data: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...data.subarray(offset, offset + length));
+
+export const writeAscii = (target: Uint8Array, offset: number, value: string) => {
+  for (let index = 0; index < value.length; index += 1) {
+    target[index + offset] = value.charCodeAt(index);
+  }
+};
+
+export const toDataView = (data: Uint8Array): DataView =>
+  new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.byteLength;
+  }
+  return output;
+};
+
+const readUint = (data: Uint8Array, offset: number, length: number): number => {
+  let value = 0;
+  for (let index = 0; index < length; index += 1) {
+    value = value * 256 + (data[offset + index] ?? 0);
+  }
+  return value;
+};
+
+const writeUint = (target: Uint8Array, offset: number, length: number, value: number) => {
+  let remaining = value;
+  for (let index = length - 1; index >= 0; index -= 1) {
+    target[offset + index] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+};
+
+// --- WebM (Matroska) ---
+
+const EBML_HEADER_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549a966;
+const TRACKS_ID = 0x1654ae6b;
+const CLUSTER_ID = 0x1f43b675;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+const CLUSTER_TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+const DEFAULT_TIMECODE_SCALE_NS = 1_000_000;
+// Éléments de niveau Segment: ils ferment un cluster de taille inconnue (MediaRecorder écrit en flux).
+const SEGMENT_CHILD_IDS = new Set([
+  0x114d9b74,
+  INFO_ID,
+  TRACKS_ID,
+  CLUSTER_ID,
+  0x1c53bb6b,
+  0x1941a469,
+  0x1043a770,
+  0x1254c367,
+]);
+const UNKNOWN_SIZE_SEGMENT_HEADER = new Uint8Array([
+  0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff,
+]);
+
+type EbmlElement = { id: number; dataOffset: number; size: number | null };
+
+type WebmCluster = {
+  offset: number;
+  end: number;
+  timecode: number;
+  timecodeOffset: number;
+  timecodeLength: number;
+  lastBlockTimecode: number;
+};
+
+const readVintLength = (byte: number | undefined): number => {
+  if (!byte) {
+    return 0;
+  }
+
+  let length = 1;
+  while (!(byte & (0x80 >> (length - 1)))) {
+    length += 1;
+  }
+  return length;
+};
+
+const readEbmlElement = (data: Uint8Array, offset: number): EbmlElement | null => {
+  const idLength = readVintLength(data[offset]);
+  const sizeOffset = offset + idLength;
+  const sizeLength = readVintLength(data[sizeOffset]);
+  if (idLength === 0 || idLength > 4 || sizeLength === 0 || sizeLength > 8) {
+    return null;
+  }
+  if (sizeOffset + sizeLength > data.byteLength) {
+    return null;
+  }
+
+  const marker = 0xff >> sizeLength;
+  let size = data[sizeOffset]! & marker;
+  let unknown = size === marker;
+  for (let index = 1; index < sizeLength; index += 1) {
+    const byte = data[sizeOffset + index]!;
+    size = size * 256 + byte;
+    unknown = unknown && byte === 0xff;
+  }
+
+  return {
+    id: readUint(data, offset, idLength),
+    dataOffset: sizeOffset + sizeLength,
+    size: unknown ? null : size,
+  };
+};
+
+const encodeEbmlElement = (id: number, body: Uint8Array): Uint8Array => {
+  const idLength = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1;
+  const output = new Uint8Array(idLength + 8 + body.byteLength);
+  writeUint(output, 0, idLength, id);
+  // Taille sur 8 octets: premier octet 0x01 puis 7 octets de valeur.
+  output[idLength] = 0x01;
+  writeUint(output, idLength + 1, 7, body.byteLength);
+  output.set(body, idLength + 8);
+  return output;
+};
+
+// Le temps relatif d'un bloc suit le numéro de piste (entier signé 16 bits).
+const readBlockTimecode = (data: Uint8Array, offset: number, end: number): number => {
+  const trackLength = readVintLength(data[offset]);
+  if (trackLength === 0 || offset + trackLength + 2 > end) {
+    return 0;
+  }
+  return toDataView(data).getInt16(offset + trackLength);
+};
+
+const readWebmCluster = (
+  data: Uint8Array,
+  offset: number,
+  element: EbmlElement,
+  limit: number,
+): WebmCluster | null => {
+  const end = element.size === null ? limit : Math.min(limit, element.dataOffset + element.size);
+  let cursor = element.dataOffset;
+  let timecode: number | null = null;
+  let timecodeOffset = 0;
+  let timecodeLength = 0;
+  let lastBlockTimecode = 0;
+
+  while (cursor < end) {
+    const child = readEbmlElement(data, cursor);
+    if (!child || (element.size === null && SEGMENT_CHILD_IDS.has(child.id))) {
+      break;
+    }
+    if (child.size === null) {
+      return null;
+    }
+
+    const childEnd = Math.min(end, child.dataOffset + child.size);
+    if (child.id === CLUSTER_TIMECODE_ID) {
+      timecode = readUint(data, child.dataOffset, child.size);
+      timecodeOffset = child.dataOffset;
+      timecodeLength = child.size;
+    } else if (child.id === SIMPLE_BLOCK_ID) {
+      lastBlockTimecode = Math.max(lastBlockTimecode, readBlockTimecode(data, child.dataOffset, childEnd));
+    } else if (child.id === BLOCK_GROUP_ID) {
+      let groupCursor = child.dataOffset;
+      while (groupCursor < childEnd) {
+        const groupChild = readEbmlElement(data, groupCursor);
+        if (!groupChild || groupChild.size === null) {
+          break;
+        }
+        if (groupChild.id === BLOCK_ID) {
+          lastBlockTimecode = Math.max(
+            lastBlockTimecode,
+            readBlockTimecode(data, groupChild.dataOffset, childEnd),
+          );
+        }
+        groupCursor = groupChild.dataOffset + groupChild.size;
+      }
+    }
+    cursor = child.dataOffset + child.size;
+  }
+
+  // Au-delà de 6 octets l'horodatage dépasse les entiers exacts: cas non rencontré en pratique.
+  if (timecode === null || timecodeLength === 0 || timecodeLength > 6) {
+    return null;
+  }
+
+  return {
+    offset,
+    end: Math.min(cursor, end),
+    timecode,
+    timecodeOffset,
+    timecodeLength,
+    lastBlockTimecode,
+  };
+};
+
+// Chaque morceau reprend l'en-tête EBML, Info (sans durée) et Tracks, puis une suite de clusters recalés à zéro.
+export const parseWebmLayout = (data: Uint8Array): BlockAudioLayout | null => {
+  const header = readEbmlElement(data, 0);
+  if (!header || header.id !== EBML_HEADER_ID || header.size === null) {
+    return null;
+  }
+
+  const headerEnd = header.dataOffset + header.size;
+  const segment = readEbmlElement(data, headerEnd);
+  if (!segment || segment.id !== SEGMENT_ID) {
+    return null;
+  }
+
+  const segmentEnd =
+    segment.size === null ? data.byteLength : Math.min(data.byteLength, segment.dataOffset + segment.size);
+  let info: Uint8Array | null = null;
+  let tracks: Uint8Array | null = null;
+  let timecodeScale = DEFAULT_TIMECODE_SCALE_NS;
+  const clusters: WebmCluster[] = [];
+  let offset = segment.dataOffset;
+  while (offset < segmentEnd) {
+    const element = readEbmlElement(data, offset);
+    if (!element) {
+      break;
+    }
+
+    if (element.id === CLUSTER_ID) {
+      const cluster = readWebmCluster(data, offset, element, segmentEnd);
+      if (!cluster) {
+        return null;
+      }
+      clusters.push(cluster);
+      offset = cluster.end;
+      continue;
+    }
+
+    if (element.size === null) {
+      return null;
+    }
+
+    const end = Math.min(segmentEnd, element.dataOffset + element.size);
+    if (element.id === INFO_ID) {
+      const kept: Uint8Array[] = [];
+      let cursor = element.dataOffset;
+      while (cursor < end) {
+        const child = readEbmlElement(data, cursor);
+        if (!child || child.size === null) {
+          return null;
+        }
+        const childEnd = child.dataOffset + child.size;
+        if (child.id === TIMECODE_SCALE_ID) {
+          timecodeScale = readUint(data, child.dataOffset, child.size) || DEFAULT_TIMECODE_SCALE_NS;
+        }
+        if (child.id !== DURATION_ID) {
+          kept.push(data.subarray(cursor, childEnd));
+        }
+        cursor = childEnd;
+      }
+      info = encodeEbmlElement(INFO_ID, concatBytes(kept));
+    } else if (element.id === TRACKS_ID) {
+      tracks = data.subarray(offset, end);
+    }
+    offset = end;
+  }
+
+  if (!info || !tracks || clusters.length === 0) {
+    return null;
+  }
+
+  const toMs = (timecode: number) => Math.round((timecode * timecodeScale) / 1_000_000);
+  const blocks = clusters.map((cluster, index) => {
+    const next = clusters[index + 1];
+    const startMs = toMs(cluster.timecode);
+    return {
+      startMs,
+      endMs: Math.max(startMs, next ? toMs(next.timecode) : toMs(cluster.timecode + cluster.lastBlockTimecode)),
+      byteLength: cluster.end - cluster.offset,
+    };
+  });
+  const headerParts = [data.subarray(0, headerEnd), UNKNOWN_SIZE_SEGMENT_HEADER, info, tracks];
+
+  return {
+    blocks,
+    build: (first, last) => {
+      const baseTimecode = clusters[first]!.timecode;
+      const parts = [...headerParts];
+      for (const cluster of clusters.slice(first, last + 1)) {
+        const copy = data.slice(cluster.offset, cluster.end);
+        writeUint(
+          copy,
+          cluster.timecodeOffset - cluster.offset,
+          cluster.timecodeLength,
+          cluster.timecode - baseTimecode,
+        );
+        parts.push(copy);
+      }
+      return concatBytes(parts);
+    },
+  };
+};
+
+// --- Ogg (Opus, Vorbis) ---
+
+const OGG_CONTINUED_PACKET = 0x01;
+const OGG_FIRST_PAGE = 0x02;
+const OGG_LAST_PAGE = 0x04;
+const OPUS_SAMPLE_RATE = 48_000;
+
+type OggPage = {
+  offset: number;
+  end: number;
+  headerType: number;
+  granule: bigint;
+};
+
+const OGG_CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let remainder = index << 24;
+    for (let bit = 0; bit < 8; bit += 1) {
+      remainder = remainder & 0x80000000 ? (remainder << 1) ^ 0x04c11db7 : remainder << 1;
+    }
+    table[index] = remainder >>> 0;
+  }
+  return table;
+})();
+
+const computeOggCrc = (page: Uint8Array): number => {
+  let crc = 0;
+  for (const byte of page) {
+    crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]!) >>> 0;
+  }
+  return crc;
+};
+
+const readOggPages = (data: Uint8Array): OggPage[] | null => {
+  const view = toDataView(data);
+  const pages: OggPage[] = [];
+  let serial: number | null = null;
+  let offset = 0;
+  while (offset + 27 <= data.byteLength) {
+    if (readAscii(data, offset, 4) !== "OggS" || data[offset + 4] !== 0) {
+      return null;
+    }
+
+    const segmentCount = data[offset + 26]!;
+    const bodyOffset = offset + 27 + segmentCount;
+    if (bodyOffset > data.byteLength) {
+      break;
+    }
+    let bodyLength = 0;
+    for (let index = 0; index < segmentCount; index += 1) {
+      bodyLength += data[offset + 27 + index]!;
+    }
+    if (bodyOffset + bodyLength > data.byteLength) {
+      break;
+    }
+
+    // Un seul flux logique: un fichier multiplexé n'est pas découpé.
+    const pageSerial = view.getUint32(offset + 14, true);
+    if (serial !== null && pageSerial !== serial) {
+      return null;
+    }
+    serial = pageSerial;
+
+    pages.push({
+      offset,
+      end: bodyOffset + bodyLength,
+      headerType: data[offset + 5]!,
+      granule: view.getBigInt64(offset + 6, true),
+    });
+    offset = bodyOffset + bodyLength;
+  }
+
+  return pages;
+};
+
+const readOggClock = (data: Uint8Array, page: OggPage) => {
+  const body = page.offset + 27 + data[page.offset + 26]!;
+  const view = toDataView(data);
+  if (readAscii(data, body, 8) === "OpusHead" && body + 12 <= page.end) {
+    return { sampleRate: OPUS_SAMPLE_RATE, preSkip: view.getUint16(body + 10, true) };
+  }
+  if (data[body] === 1 && readAscii(data, body + 1, 6) === "vorbis" && body + 16 <= page.end) {
+    return { sampleRate: view.getUint32(body + 12, true), preSkip: 0 };
+  }
+  return null;
+};
+
+// Les pages d'en-tête (granule nul) ouvrent chaque morceau; une coupe ne tombe jamais au milieu d'un paquet.
+export const parseOggLayout = (data: Uint8Array): BlockAudioLayout | null => {
+  const pages = readOggPages(data);
+  const firstPage = pages?.[0];
+  if (!pages || !firstPage) {
+    return null;
+  }
+
+  const clock = readOggClock(data, firstPage);
+  if (!clock || clock.sampleRate === 0) {
+    return null;
+  }
+
+  let headerCount = 0;
+  while (headerCount < pages.length && pages[headerCount]!.granule <= 0n) {
+    headerCount += 1;
+  }
+
+  const groups: Array<{ firstPage: number; lastPage: number; granule: bigint }> = [];
+  let groupStart = headerCount;
+  for (let index = headerCount; index < pages.length; index += 1) {
+    const page = pages[index]!;
+    const next = pages[index + 1];
+    if (page.granule < 0n || (next && next.headerType & OGG_CONTINUED_PACKET)) {
+      continue;
+    }
+    groups.push({ firstPage: groupStart, lastPage: index, granule: page.granule });
+    groupStart = index + 1;
+  }
+  if (groups.length === 0) {
+    return null;
+  }
+  groups.at(-1)!.lastPage = pages.length - 1;
+
+  const toMs = (granule: bigint) =>
+    Math.max(0, Math.round(((Number(granule) - clock.preSkip) * 1000) / clock.sampleRate));
+  const blocks = groups.map((group, index) => ({
+    startMs: index === 0 ? 0 : toMs(groups[index - 1]!.granule),
+    endMs: toMs(group.granule),
+    byteLength: pages[group.lastPage]!.end - pages[group.firstPage]!.offset,
+  }));
+
+  return {
+    blocks,
+    build: (first, last) => {
+      const baseGranule = first === 0 ? 0n : groups[first - 1]!.granule;
+      const selected = [
+        ...pages.slice(0, headerCount),
+        ...pages.slice(groups[first]!.firstPage, groups[last]!.lastPage + 1),
+      ];
+      return concatBytes(
+        selected.map((page, sequence) => {
+          const copy = data.slice(page.offset, page.end);
+          const view = toDataView(copy);
+          const isLast = sequence === selected.length - 1;
+          let headerType = page.headerType & ~OGG_LAST_PAGE;
+          if (sequence > 0) {
+            headerType &= ~OGG_FIRST_PAGE;
+          }
+          copy[5] = isLast ? headerType | OGG_LAST_PAGE : headerType;
+          if (sequence >= headerCount && page.granule >= 0n) {
+            view.setBigInt64(6, page.granule - baseGranule, true);
+          }
+          view.setUint32(18, sequence, true);
+          view.setUint32(22, 0, true);
+          view.setUint32(22, computeOggCrc(copy), true);
+          return copy;
+        }),
+      );
+    },
+  };
+};
+
+// --- MP4 / M4A ---
+
+type Mp4Box = { type: string; offset: number; dataOffset: number; end: number };
+
+const readMp4Boxes = (data: Uint8Array, start: number, end: number): Mp4Box[] | null => {
+  const view = toDataView(data);
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let dataOffset = offset + 8;
+    if (size === 1) {
+      if (offset + 16 > end) {
+        return null;
+      }
+      size = Number(view.getBigUint64(offset + 8));
+      dataOffset = offset + 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < dataOffset - offset || offset + size > end) {
+      return null;
+    }
+
+    boxes.push({ type: readAscii(data, offset + 4, 4), offset, dataOffset, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const findMp4Box = (boxes: Mp4Box[], type: string) => boxes.filter((box) => box.type === type);
+
+const encodeMp4Box = (type: string, parts: Uint8Array[]): Uint8Array => {
+  const body = concatBytes(parts);
+  const output = new Uint8Array(8 + body.byteLength);
+  toDataView(output).setUint32(0, output.byteLength);
+  writeAscii(output, 4, type);
+  output.set(body, 8);
+  return output;
+};
+
+const encodeFullMp4Box = (type: string, values: number[]): Uint8Array => {
+  const body = new Uint8Array(4 + values.length * 4);
+  const view = toDataView(body);
+  values.forEach((value, index) => view.setUint32(4 + index * 4, value));
+  return encodeMp4Box(type, [body]);
+};
+
+// Recopie un conteneur en remplaçant (ou retirant, avec null) certains enfants.
+const rebuildMp4Box = (
+  data: Uint8Array,
+  box: Mp4Box,
+  replace: (child: Mp4Box) => Uint8Array | null | undefined,
+): Uint8Array | null => {
+  const children = readMp4Boxes(data, box.dataOffset, box.end);
+  if (!children) {
+    return null;
+  }
+
+  const parts: Uint8Array[] = [];
+  for (const child of children) {
+    const replaced = replace(child);
+    if (replaced !== null) {
+      parts.push(replaced ?? data.subarray(child.offset, child.end));
+    }
+  }
+  return encodeMp4Box(box.type, parts);
+};
+
+// Durée d'un mvhd, tkhd ou mdhd: son emplacement dépend de la version de la boîte.
+const withMp4Duration = (data: Uint8Array, box: Mp4Box, duration: number): Uint8Array => {
+  const copy = data.slice(box.offset, box.end);
+  const headerLength = box.dataOffset - box.offset;
+  const version = copy[headerLength]!;
+  const offsets: Record<string, [number, number]> = {
+    mvhd: version === 1 ? [24, 8] : [16, 4],
+    mdhd: version === 1 ? [24, 8] : [16, 4],
+    tkhd: version === 1 ? [28, 8] : [20, 4],
+  };
+  const [offset, length] = offsets[box.type] ?? [0, 0];
+  if (length > 0) {
+    writeUint(copy, headerLength + offset, length, Math.round(duration));
+  }
+  return copy;
+};
+
+const readMp4Timescale = (data: Uint8Array, box: Mp4Box): number => {
+  const version = data[box.dataOffset];
+  return toDataView(data).getUint32(box.dataOffset + (version === 1 ? 20 : 12));
+};
+
+type Mp4SampleTable = {
+  sizes: number[];
+  offsets: number[];
+  // Début de chaque échantillon dans l'échelle du média, plus la fin du dernier.
+  times: number[];
+};
+
+const readMp4SampleTable = (data: Uint8Array, stbl: Mp4Box[]): Mp4SampleTable | null => {
+  const view = toDataView(data);
+  const [stts] = findMp4Box(stbl, "stts");
+  const [stsc] = findMp4Box(stbl, "stsc");
+  const [stsz] = findMp4Box(stbl, "stsz");
+  const [chunkOffsetBox] = [...findMp4Box(stbl, "stco"), ...findMp4Box(stbl, "co64")];
+  if (!stts || !stsc || !stsz || !chunkOffsetBox || findMp4Box(stbl, "ctts").length > 0) {
+    return null;
+  }
+
+  const sampleCount = view.getUint32(stsz.dataOffset + 8);
+  const uniformSize = view.getUint32(stsz.dataOffset + 4);
+  if (sampleCount === 0 || (uniformSize === 0 && stsz.dataOffset + 12 + sampleCount * 4 > stsz.end)) {
+    return null;
+  }
+  const sizes = Array.from({ length: sampleCount }, (_, index) =>
+    uniformSize || view.getUint32(stsz.dataOffset + 12 + index * 4),
+  );
+
+  const times = [0];
+  const timeEntries = view.getUint32(stts.dataOffset + 4);
+  for (let entry = 0; entry < timeEntries && times.length <= sampleCount; entry += 1) {
+    const count = view.getUint32(stts.dataOffset + 8 + entry * 8);
+    const delta = view.getUint32(stts.dataOffset + 12 + entry * 8);
+    for (let index = 0; index < count && times.length <= sampleCount; index += 1) {
+      times.push(times.at(-1)! + delta);
+    }
+  }
+  if (times.length !== sampleCount + 1) {
+    return null;
+  }
+
+  const is64 = chunkOffsetBox.type === "co64";
+  const chunkCount = view.getUint32(chunkOffsetBox.dataOffset + 4);
+  const chunkOffsets = Array.from({ length: chunkCount }, (_, index) =>
+    is64
+      ? Number(view.getBigUint64(chunkOffsetBox.dataOffset + 8 + index * 8))
+      : view.getUint32(chunkOffsetBox.dataOffset + 8 + index * 4),
+  );
+
+  const runs = Array.from({ length: view.getUint32(stsc.dataOffset + 4) }, (_, index) => ({
+    firstChunk: view.getUint32(stsc.dataOffset + 8 + index * 12),
+    samplesPerChunk: view.getUint32(stsc.dataOffset + 12 + index * 12),
+    descriptionIndex: view.getUint32(stsc.dataOffset + 16 + index * 12),
+  }));
+  if (runs.some((run) => run.descriptionIndex !== 1)) {
+    return null;
+  }
+
+  const offsets: number[] = [];
+  runs.forEach((run, runIndex) => {
+    const lastChunk = (runs[runIndex + 1]?.firstChunk ?? chunkCount + 1) - 1;
+    for (let chunk = run.firstChunk; chunk <= lastChunk && offsets.length < sampleCount; chunk += 1) {
+      let offset = chunkOffsets[chunk - 1] ?? Number.NaN;
+      for (let index = 0; index < run.samplesPerChunk && offsets.length < sampleCount; index += 1) {
+        offsets.push(offset);
+        offset += sizes[offsets.length - 1]!;
+      }
+    }
+  });
+  if (
+    offsets.length !== sampleCount ||
+    offsets.some((offset, index) => !(offset >= 0) || offset + sizes[index]! > data.byteLength)
+  ) {
+    return null;
+  }
+
+  return { sizes, offsets, times };
+};
+
+// Piste audio unique, non fragmentée: chaque morceau reçoit un moov réduit à ses échantillons,
+// regroupés dans un seul mdat. La liste d'édition (décalage de l'encodeur) n'est pas reprise.
+export const parseMp4Layout = (data: Uint8Array): BlockAudioLayout | null => {
+  const topLevel = readMp4Boxes(data, 0, data.byteLength);
+  const [ftyp] = findMp4Box(topLevel ?? [], "ftyp");
+  const [moov] = findMp4Box(topLevel ?? [], "moov");
+  if (!topLevel || !ftyp || !moov || findMp4Box(topLevel, "moof").length > 0) {
+    return null;
+  }
+
+  const moovChildren = readMp4Boxes(data, moov.dataOffset, moov.end);
+  const [mvhd] = findMp4Box(moovChildren ?? [], "mvhd");
+  const traks = findMp4Box(moovChildren ?? [], "trak");
+  const trak = traks[0];
+  if (!mvhd || !trak || traks.length !== 1) {
+    return null;
+  }
+
+  const trakChildren = readMp4Boxes(data, trak.dataOffset, trak.end) ?? [];
+  const [mdia] = findMp4Box(trakChildren, "mdia");
+  const mdiaChildren = mdia ? (readMp4Boxes(data, mdia.dataOffset, mdia.end) ?? []) : [];
+  const [mdhd] = findMp4Box(mdiaChildren, "mdhd");
+  const [minf] = findMp4Box(mdiaChildren, "minf");
+  const minfChildren = minf ? (readMp4Boxes(data, minf.dataOffset, minf.end) ?? []) : [];
+  const [stbl] = findMp4Box(minfChildren, "stbl");
+  const stblChildren = stbl ? (readMp4Boxes(data, stbl.dataOffset, stbl.end) ?? []) : [];
+  const [stsd] = findMp4Box(stblChildren, "stsd");
+  if (!mdia || !mdhd || !minf || !stbl || !stsd) {
+    return null;
+  }
+
+  const table = readMp4SampleTable(data, stblChildren);
+  const mediaTimescale = readMp4Timescale(data, mdhd);
+  const movieTimescale = readMp4Timescale(data, mvhd);
+  if (!table || mediaTimescale === 0 || movieTimescale === 0) {
+    return null;
+  }
+
+  const toMs = (time: number) => Math.round((time * 1000) / mediaTimescale);
+  const blocks = table.sizes.map((size, index) => ({
+    startMs: toMs(table.times[index]!),
+    endMs: toMs(table.times[index + 1]!),
+    byteLength: size,
+  }));
+
+  const buildMoov = (first: number, last: number, mdatPayloadOffset: number): Uint8Array | null => {
+    const count = last - first + 1;
+    const mediaDuration = table.times[last + 1]! - table.times[first]!;
+    const movieDuration = (mediaDuration * movieTimescale) / mediaTimescale;
+
+    const timeEntries: number[] = [];
+    for (let index = first; index <= last; index += 1) {
+      const delta = table.times[index + 1]! - table.times[index]!;
+      const countIndex = timeEntries.length - 2;
+      if (countIndex >= 0 && timeEntries[countIndex + 1] === delta) {
+        timeEntries[countIndex] = timeEntries[countIndex]! + 1;
+      } else {
+        timeEntries.push(1, delta);
+      }
+    }
+    const sampleTable = encodeMp4Box("stbl", [
+      data.subarray(stsd.offset, stsd.end),
+      encodeFullMp4Box("stts", [timeEntries.length / 2, ...timeEntries]),
+      encodeFullMp4Box("stsc", [1, 1, count, 1]),
+      encodeFullMp4Box("stsz", [0, count, ...table.sizes.slice(first, last + 1)]),
+      encodeFullMp4Box("stco", [1, mdatPayloadOffset]),
+    ]);
+
+    const mediaInfo = rebuildMp4Box(data, minf, (child) => (child.type === "stbl" ? sampleTable : undefined));
+    const media =
+      mediaInfo &&
+      rebuildMp4Box(data, mdia, (child) => {
+        if (child.type === "mdhd") {
+          return withMp4Duration(data, child, mediaDuration);
+        }
+        return child.type === "minf" ? mediaInfo : undefined;
+      });
+    const track =
+      media &&
+      rebuildMp4Box(data, trak, (child) => {
+        if (child.type === "tkhd") {
+          return withMp4Duration(data, child, movieDuration);
+        }
+        if (child.type === "edts") {
+          return null;
+        }
+        return child.type === "mdia" ? media : undefined;
+      });
+    return track && encodeMp4Box("moov", [withMp4Duration(data, mvhd, movieDuration), track]);
+  };
+
+  // Le découpage n'est proposé que si l'arbre se recompose: on l'essaie une fois sur le premier échantillon.
+  if (!buildMoov(0, 0, 0)) {
+    return null;
+  }
+
+  return {
+    blocks,
+    build: (first, last) => {
+      const header = data.subarray(ftyp.offset, ftyp.end);
+      const moovLength = buildMoov(first, last, 0)!.byteLength;
+      const samples: Uint8Array[] = [];
+      for (let index = first; index <= last; index += 1) {
+        const offset = table.offsets[index]!;
+        samples.push(data.subarray(offset, offset + table.sizes[index]!));
+      }
+      const mdat = encodeMp4Box("mdat", samples);
+      return concatBytes([header, buildMoov(first, last, header.byteLength + moovLength + 8)!, mdat]);
+    },
+  };
+};
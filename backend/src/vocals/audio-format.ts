@@ -1,3 +1,13 @@
+import {
+  parseMp4Layout,
+  parseOggLayout,
+  parseWebmLayout,
+  readAscii,
+  toDataView,
+  writeAscii,
+  type BlockAudioLayout,
+} from "./audio-containers";
+
 const SUPPORTED_AUDIO_EXTENSIONS = new Set([
   "flac",
   "m4a",
@@ -88,3 +98,298 @@ export const validateVocalAudioFormat = (input: {
     message: `Type MIME vocal non supporté (${normalizedMimeType}).`,
   };
 };
+
+export type VocalAudioChunk = {
+  index: number;
+  startMs: number;
+  // null quand la durée du fichier n'est pas lisible (conteneur compressé envoyé tel quel).
+  endMs: number | null;
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+};
+
+export const VOCAL_CHUNK_DURATION_MS = 5 * 60_000;
+export const VOCAL_CHUNK_OVERLAP_MS = 3_000;
+// Reste sous la limite d'upload des API de transcription (25 Mo chez OpenAI).
+export const VOCAL_CHUNK_MAX_BYTES = 20 * 1024 * 1024;
+
+type AudioLayout = {
+  audioOffset: number;
+  audioLength: number;
+  bytesPerSecond: number;
+  blockAlign: number;
+  wrap: (audio: Uint8Array) => Uint8Array;
+};
+
+// WAV: chaque morceau reprend le bloc "fmt " d'origine avec un nouveau bloc "data".
+const parseWavLayout = (data: Uint8Array): AudioLayout | null => {
+  if (data.byteLength < 12 || readAscii(data, 0, 4) !== "RIFF" || readAscii(data, 8, 4) !== "WAVE") {
+    return null;
+  }
+
+  const view = toDataView(data);
+  let fmtChunk: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const chunkId = readAscii(data, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const bodyOffset = offset + 8;
+
+    if (chunkId === "fmt ") {
+      fmtChunk = data.slice(offset, Math.min(data.byteLength, bodyOffset + chunkSize + (chunkSize % 2)));
+    }
+
+    if (chunkId === "data") {
+      if (!fmtChunk || fmtChunk.byteLength < 24) {
+        return null;
+      }
+
+      const fmtView = toDataView(fmtChunk);
+      const bytesPerSecond = fmtView.getUint32(16, true);
+      const blockAlign = fmtView.getUint16(20, true);
+      if (bytesPerSecond === 0 || blockAlign === 0) {
+        return null;
+      }
+
+      const header = fmtChunk;
+      return {
+        audioOffset: bodyOffset,
+        audioLength: Math.min(chunkSize, data.byteLength - bodyOffset),
+        bytesPerSecond,
+        blockAlign,
+        wrap: (audio) => {
+          const output = new Uint8Array(12 + header.byteLength + 8 + audio.byteLength);
+          const outputView = toDataView(output);
+          writeAscii(output, 0, "RIFF");
+          outputView.setUint32(4, output.byteLength - 8, true);
+          writeAscii(output, 8, "WAVE");
+          output.set(header, 12);
+          const dataHeaderOffset = 12 + header.byteLength;
+          writeAscii(output, dataHeaderOffset, "data");
+          outputView.setUint32(dataHeaderOffset + 4, audio.byteLength, true);
+          output.set(audio, dataHeaderOffset + 8);
+          return output;
+        },
+      };
+    }
+
+    offset = bodyOffset + chunkSize + (chunkSize % 2);
+  }
+
+  return null;
+};
+
+const MPEG1_LAYER3_BITRATES_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_BITRATES_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// MP3: les décodeurs se resynchronisent sur la trame suivante, une coupe à l'octet suffit.
+// Le débit de la première trame est supposé constant (horodatage approximatif en VBR).
+const parseMp3Layout = (data: Uint8Array): AudioLayout | null => {
+  let offset = 0;
+  if (data.byteLength >= 10 && readAscii(data, 0, 3) === "ID3") {
+    const tagSize = ((data[6]! & 0x7f) << 21) | ((data[7]! & 0x7f) << 14) | ((data[8]! & 0x7f) << 7) | (data[9]! & 0x7f);
+    offset = 10 + tagSize;
+  }
+
+  if (offset + 4 > data.byteLength || data[offset] !== 0xff || (data[offset + 1]! & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const version = (data[offset + 1]! >> 3) & 0x03;
+  const layer = (data[offset + 1]! >> 1) & 0x03;
+  const bitrateIndex = (data[offset + 2]! >> 4) & 0x0f;
+  if (version === 1 || layer !== 1) {
+    return null;
+  }
+
+  const bitrates = version === 3 ? MPEG1_LAYER3_BITRATES_KBPS : MPEG2_LAYER3_BITRATES_KBPS;
+  const bitrateKbps = bitrates[bitrateIndex] ?? 0;
+  if (bitrateKbps === 0) {
+    return null;
+  }
+
+  return {
+    audioOffset: offset,
+    audioLength: data.byteLength - offset,
+    bytesPerSecond: (bitrateKbps * 1000) / 8,
+    blockAlign: 1,
+    wrap: (audio) => audio,
+  };
+};
+
+const resolveAudioLayout = (input: { fileName: string; mimeType: string; data: Uint8Array }) => {
+  const extension = extractFileExtension(input.fileName);
+  const mimeType = normalizeMimeType(input.mimeType);
+
+  if (extension === "wav" || mimeType === "audio/wav" || mimeType === "audio/x-wav") {
+    return parseWavLayout(input.data);
+  }
+
+  if (extension === "mp3" || extension === "mpga" || mimeType === "audio/mpeg" || mimeType === "audio/mpga") {
+    return parseMp3Layout(input.data);
+  }
+
+  return null;
+};
+
+const resolveBlockAudioLayout = (input: {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+}): BlockAudioLayout | null => {
+  const extension = extractFileExtension(input.fileName);
+  const mimeType = normalizeMimeType(input.mimeType);
+
+  if (extension === "webm" || mimeType === "audio/webm" || mimeType === "video/webm") {
+    return parseWebmLayout(input.data);
+  }
+
+  if (extension === "ogg" || extension === "oga" || mimeType === "audio/ogg" || mimeType === "audio/oga") {
+    return parseOggLayout(input.data);
+  }
+
+  if (
+    extension === "m4a" ||
+    extension === "mp4" ||
+    mimeType === "audio/mp4" ||
+    mimeType === "audio/m4a" ||
+    mimeType === "video/mp4"
+  ) {
+    return parseMp4Layout(input.data);
+  }
+
+  return null;
+};
+
+const toChunkFileName = (fileName: string, index: number): string => {
+  const extension = extractFileExtension(fileName);
+  const baseName = extension ? fileName.slice(0, -(extension.length + 1)) : fileName;
+  return `${baseName}.part-${index + 1}${extension ? `.${extension}` : ""}`;
+};
+
+type SplitVocalAudioInput = {
+  fileName: string;
+  mimeType: string;
+  data: Uint8Array;
+  chunkDurationMs?: number;
+  overlapMs?: number;
+  maxChunkBytes?: number;
+};
+
+const wholeAudioChunk = (input: SplitVocalAudioInput, endMs: number | null): VocalAudioChunk[] => [
+  {
+    index: 0,
+    startMs: 0,
+    endMs,
+    fileName: input.fileName,
+    mimeType: input.mimeType,
+    data: input.data,
+  },
+];
+
+const resolveChunkDurationMs = (input: SplitVocalAudioInput, bytesPerSecond: number): number =>
+  Math.max(
+    1000,
+    Math.min(
+      input.chunkDurationMs ?? VOCAL_CHUNK_DURATION_MS,
+      Math.floor(((input.maxChunkBytes ?? VOCAL_CHUNK_MAX_BYTES) / bytesPerSecond) * 1000),
+    ),
+  );
+
+const resolveOverlapMs = (input: SplitVocalAudioInput, chunkDurationMs: number): number =>
+  Math.min(input.overlapMs ?? VOCAL_CHUNK_OVERLAP_MS, Math.floor(chunkDurationMs / 4));
+
+const splitByteAudio = (input: SplitVocalAudioInput, layout: AudioLayout): VocalAudioChunk[] => {
+  const durationMs = Math.floor((layout.audioLength / layout.bytesPerSecond) * 1000);
+  const chunkDurationMs = resolveChunkDurationMs(input, layout.bytesPerSecond);
+  if (durationMs <= chunkDurationMs) {
+    return wholeAudioChunk(input, durationMs);
+  }
+
+  const overlapMs = resolveOverlapMs(input, chunkDurationMs);
+  const toByteOffset = (ms: number): number => {
+    const raw = Math.floor((ms / 1000) * layout.bytesPerSecond);
+    return layout.audioOffset + raw - (raw % layout.blockAlign);
+  };
+
+  const chunks: VocalAudioChunk[] = [];
+  for (let startMs = 0; startMs < durationMs; startMs += chunkDurationMs - overlapMs) {
+    const endMs = Math.min(startMs + chunkDurationMs, durationMs);
+    const index = chunks.length;
+    const audio = input.data.subarray(
+      toByteOffset(startMs),
+      endMs === durationMs ? layout.audioOffset + layout.audioLength : toByteOffset(endMs),
+    );
+    chunks.push({
+      index,
+      startMs,
+      endMs,
+      fileName: toChunkFileName(input.fileName, index),
+      mimeType: input.mimeType,
+      data: layout.wrap(audio),
+    });
+
+    if (endMs === durationMs) {
+      break;
+    }
+  }
+
+  return chunks;
+};
+
+// Conteneurs compressés: les coupes tombent entre deux blocs, morceaux et recouvrement s'arrondissent au bloc.
+const splitBlockAudio = (input: SplitVocalAudioInput, layout: BlockAudioLayout): VocalAudioChunk[] => {
+  const { blocks } = layout;
+  const durationMs = blocks.at(-1)!.endMs;
+  const totalBytes = blocks.reduce((total, block) => total + block.byteLength, 0);
+  const chunkDurationMs = resolveChunkDurationMs(input, (totalBytes / Math.max(1, durationMs)) * 1000);
+  if (durationMs <= chunkDurationMs) {
+    return wholeAudioChunk(input, durationMs);
+  }
+
+  const overlapMs = resolveOverlapMs(input, chunkDurationMs);
+  const chunks: VocalAudioChunk[] = [];
+  let first = 0;
+  for (;;) {
+    const startMs = blocks[first]!.startMs;
+    let last = first;
+    while (last + 1 < blocks.length && blocks[last + 1]!.endMs <= startMs + chunkDurationMs) {
+      last += 1;
+    }
+
+    const endMs = blocks[last]!.endMs;
+    const index = chunks.length;
+    chunks.push({
+      index,
+      startMs,
+      endMs,
+      fileName: toChunkFileName(input.fileName, index),
+      mimeType: input.mimeType,
+      data: layout.build(first, last),
+    });
+
+    if (last === blocks.length - 1) {
+      break;
+    }
+
+    // Le morceau suivant repart du dernier bloc qui commence avant la zone de recouvrement.
+    let next = last + 1;
+    while (next > first + 1 && blocks[next]!.startMs > endMs - overlapMs) {
+      next -= 1;
+    }
+    first = next;
+  }
+
+  return chunks;
+};
+
+export const splitVocalAudio = (input: SplitVocalAudioInput): VocalAudioChunk[] => {
+  const layout = resolveAudioLayout(input);
+  if (layout) {
+    return splitByteAudio(input, layout);
+  }
+
+  const blockLayout = resolveBlockAudioLayout(input);
+  return blockLayout ? splitBlockAudio(input, blockLayout) : wholeAudioChunk(input, null);
+};
@@ -0,0 +1,251 @@
+import { z } from "zod";
+import { getObjectDataFieldDefinition, type ObjectFieldDefinition } from "../object-data/structure";
+import type { VocalType } from "./service";
+
+export type VocalInsightInvalidField = {
+  key: string;
+  value: unknown;
+  message: string;
+};
+
+export type VocalInsightResponseSchema = {
+  name: string;
+  schema: Record<string, unknown>;
+};
+
+// Les champs du bien reprennent la définition de la fiche pour que les insights puissent y être reportés.
+const bienField = (key: string): ObjectFieldDefinition => {
+  const definition = getObjectDataFieldDefinition("bien", key);
+  if (!definition) {
+    throw new Error(`Unknown bien field for vocal insights: ${key}`);
+  }
+
+  const { required: _required, hide: _hide, ...field } = definition;
+  return { ...field, options: field.options?.map((option) => ({ ...option })) };
+};
+
+const nextActionField: ObjectFieldDefinition = {
+  key: "nextAction",
+  name: "Prochaine action",
+  group: "vocal",
+  type: "text",
+};
+
+const budgetField: ObjectFieldDefinition = {
+  key: "budget",
+  name: "Budget du client",
+  group: "vocal",
+  type: "int",
+  min: 0,
+};
+
+const INSIGHT_FIELDS_BY_VOCAL_TYPE: Record<
+  Exclude<VocalType, "ERREUR_TRAITEMENT">,
+  () => ObjectFieldDefinition[]
+> = {
+  VISITE_INITIALE: () => [
+    ...[
+      "propertyType",
+      "rooms",
+      "bedrooms",
+      "livingArea",
+      "landArea",
+      "floor",
+      "constructionYear",
+      "dpeClass",
+      "elevator",
+      "balcony",
+      "terrace",
+      "parking",
+      "netSellerPrice",
+      "monthlyCharges",
+      "propertyTax",
+      "availability",
+      "strengths",
+      "weaknesses",
+    ].map(bienField),
+    { key: "sellerMotivation", name: "Motivation du vendeur", group: "vocal", type: "text" },
+    nextActionField,
+  ],
+  VISITE_SUIVI: () => [
+    {
+      key: "sentiment",
+      name: "Ressenti du client",
+      group: "vocal",
+      type: "select",
+      options: [
+        { value: "POSITIF", label: "Positif" },
+        { value: "NEUTRE", label: "Neutre" },
+        { value: "NEGATIF", label: "Négatif" },
+      ],
+    },
+    budgetField,
+    { key: "objections", name: "Objections", group: "vocal", type: "text" },
+    nextActionField,
+    { key: "nextContactDate", name: "Date de recontact", group: "vocal", type: "date" },
+    bienField("netSellerPrice"),
+    bienField("salePriceTtc"),
+  ],
+  COMPTE_RENDU_VISITE_CLIENT: () => [
+    {
+      key: "interestLevel",
+      name: "Intérêt du visiteur",
+      group: "vocal",
+      type: "select",
+      options: [
+        { value: "HIGH", label: "Fort" },
+        { value: "MEDIUM", label: "Moyen" },
+        { value: "LOW", label: "Faible" },
+      ],
+    },
+    {
+      key: "perceivedPrice",
+      name: "Prix perçu",
+      group: "vocal",
+      type: "select",
+      options: [
+        { value: "TOO_HIGH", label: "Trop élevé" },
+        { value: "FAIR", label: "Juste" },
+        { value: "LOW", label: "Attractif" },
+      ],
+    },
+    {
+      key: "offerIntention",
+      name: "Intention d'offre",
+      group: "vocal",
+      type: "select",
+      options: [
+        { value: "YES", label: "Oui" },
+        { value: "MAYBE", label: "À réfléchir" },
+        { value: "NO", label: "Non" },
+      ],
+    },
+    { key: "positives", name: "Points appréciés", group: "vocal", type: "text" },
+    { key: "negatives", name: "Points freinants", group: "vocal", type: "text" },
+    budgetField,
+    nextActionField,
+  ],
+};
+
+export const getVocalInsightFields = (vocalType: VocalType | null): ObjectFieldDefinition[] | null => {
+  if (!vocalType || vocalType === "ERREUR_TRAITEMENT") {
+    return null;
+  }
+
+  return INSIGHT_FIELDS_BY_VOCAL_TYPE[vocalType]();
+};
+
+const toJsonSchemaProperty = (field: ObjectFieldDefinition): Record<string, unknown> => {
+  const base = { description: field.name };
+
+  switch (field.type) {
+    case "int":
+    case "float":
+      return {
+        ...base,
+        type: [field.type === "int" ? "integer" : "number", "null"],
+        ...(field.min !== undefined ? { minimum: field.min } : {}),
+        ...(field.max !== undefined ? { maximum: field.max } : {}),
+      };
+    case "boolean":
+      return { ...base, type: ["boolean", "null"] };
+    case "date":
+      return { ...base, type: ["string", "null"], format: "date" };
+    case "datetime":
+      return { ...base, type: ["string", "null"], format: "date-time" };
+    case "select":
+      return {
+        ...base,
+        type: ["string", "null"],
+        enum: [...(field.options ?? []).map((option) => option.value), null],
+      };
+    default:
+      return { ...base, type: ["string", "null"] };
+  }
+};
+
+// Format strict: toutes les clés sont requises, une information absente du vocal vaut null.
+export const buildVocalInsightResponseSchema = (
+  vocalType: VocalType,
+  fields: ObjectFieldDefinition[],
+): VocalInsightResponseSchema => ({
+  name: `vocal_insights_${vocalType.toLowerCase()}`,
+  schema: {
+    type: "object",
+    additionalProperties: false,
+    required: ["insights", "confidence"],
+    properties: {
+      insights: {
+        type: "object",
+        additionalProperties: false,
+        required: fields.map((field) => field.key),
+        properties: Object.fromEntries(fields.map((field) => [field.key, toJsonSchemaProperty(field)])),
+      },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+  },
+});
+
+const toZodSchema = (field: ObjectFieldDefinition): z.ZodType => {
+  switch (field.type) {
+    case "int":
+    case "float": {
+      let schema = field.type === "int" ? z.number().int() : z.number();
+      if (field.min !== undefined) {
+        schema = schema.min(field.min);
+      }
+      if (field.max !== undefined) {
+        schema = schema.max(field.max);
+      }
+      return schema;
+    }
+    case "boolean":
+      return z.boolean();
+    case "date":
+      return z.iso.date();
+    case "datetime":
+      return z.iso.datetime({ offset: true });
+    case "select": {
+      const values = (field.options ?? []).map((option) => option.value);
+      return z.string().refine((value) => values.includes(value), {
+        message: `Valeur attendue parmi: ${values.join(", ")}`,
+      });
+    }
+    default:
+      return z.string().trim();
+  }
+};
+
+// Seules les valeurs conformes sont conservées; les autres sont renvoyées pour passer en revue.
+export const validateVocalInsights = (
+  fields: ObjectFieldDefinition[],
+  raw: Record<string, unknown>,
+): { insights: Record<string, unknown>; invalidFields: VocalInsightInvalidField[] } => {
+  const fieldByKey = new Map(fields.map((field) => [field.key, field]));
+  const insights: Record<string, unknown> = {};
+  const invalidFields: VocalInsightInvalidField[] = [];
+
+  for (const [key, value] of Object.entries(raw)) {
+    const field = fieldByKey.get(key);
+    if (!field) {
+      invalidFields.push({ key, value, message: "Champ inconnu pour ce type de vocal" });
+      continue;
+    }
+
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    const result = toZodSchema(field).safeParse(value);
+    if (!result.success) {
+      invalidFields.push({ key, value, message: result.error.issues[0]?.message ?? "Valeur invalide" });
+      continue;
+    }
+
+    if (result.data !== "") {
+      insights[key] = result.data;
+    }
+  }
+
+  return { insights, invalidFields };
+};
@@ -1,9 +1,11 @@
 import { and, desc, eq, gte, isNull, lt, ne, or } from "drizzle-orm";
 import { db } from "../db/client";
-import { files, properties, vocals } from "../db/schema";
+import { files, properties, users, vocals } from "../db/schema";
 import { filesService } from "../files/service";
 import { HttpError } from "../http/errors";
 import { validateVocalAudioFormat } from "./audio-format";
+import { getVocalInsightFields, validateVocalInsights } from "./insight-schemas";
+import type { VocalTranscriptSegment } from "./transcript-segments";
 
 type VocalRow = typeof vocals.$inferSelect;
 export type VocalType =
@@ -43,9 +45,23 @@ const parseInsights = (raw: string | null): Record<string, unknown> | null => {
   }
 };
 
+const parseSegments = (raw: string | null): VocalTranscriptSegment[] | null => {
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as VocalTranscriptSegment[]) : null;
+  } catch {
+    return null;
+  }
+};
+
 const toVocalResponse = (row: VocalRow) => ({
   id: row.id,
   propertyId: row.propertyId,
+  prospectUserId: row.prospectUserId,
   fileId: row.fileId,
   status: row.status as VocalStatus,
   vocalType: row.vocalType as VocalType | null,
@@ -53,6 +69,7 @@ const toVocalResponse = (row: VocalRow) => ({
   transcript: row.transcript,
   summary: row.summary,
   insights: parseInsights(row.insights),
+  segments: parseSegments(row.segments),
   confidence: row.confidence,
   createdAt: row.createdAt.toISOString(),
 });
@@ -71,6 +88,20 @@ const assertPropertyScope = async (orgId: string, propertyId?: string | null) =>
   }
 };
 
+const assertProspectScope = async (orgId: string, prospectUserId?: string | null) => {
+  if (!prospectUserId) {
+    return;
+  }
+
+  const prospect = await db.query.users.findFirst({
+    where: and(eq(users.id, prospectUserId), eq(users.orgId, orgId)),
+  });
+
+  if (!prospect) {
+    throw new HttpError(404, "USER_NOT_FOUND", "Utilisateur introuvable");
+  }
+};
+
 export const vocalsService = {
   async upload(input: {
     orgId: string;
@@ -127,6 +158,7 @@ export const vocalsService = {
       transcript: null,
       summary: null,
       insights: null,
+      segments: null,
       confidence: null,
       createdAt: now,
       updatedAt: now,
@@ -178,12 +210,28 @@ export const vocalsService = {
     return toVocalResponse(vocal);
   },
 
+  getInsightSchema(input: { vocalType: VocalType }) {
+    const fields = getVocalInsightFields(input.vocalType);
+    if (!fields) {
+      throw new HttpError(
+        404,
+        "VOCAL_INSIGHT_SCHEMA_NOT_FOUND",
+        "Aucun schéma d'insights pour ce type de vocal",
+      );
+    }
+
+    return fields;
+  },
+
   async patchById(input: {
     orgId: string;
     id: string;
-    propertyId: string;
+    propertyId?: string;
+    prospectUserId?: string | null;
+    insights?: Record<string, unknown>;
   }) {
     await assertPropertyScope(input.orgId, input.propertyId);
+    await assertProspectScope(input.orgId, input.prospectUserId);
 
     const existing = await db.query.vocals.findFirst({
       where: and(eq(vocals.id, input.id), eq(vocals.orgId, input.orgId)),
@@ -193,10 +241,32 @@ export const vocalsService = {
       throw new HttpError(404, "VOCAL_NOT_FOUND", "Vocal introuvable");
     }
 
+    let insights: Record<string, unknown> | undefined;
+    if (input.insights) {
+      const fields = getVocalInsightFields(existing.vocalType as VocalType | null);
+      if (!fields) {
+        throw new HttpError(
+          400,
+          "VOCAL_INSIGHT_SCHEMA_NOT_FOUND",
+          "Aucun schéma d'insights pour ce type de vocal",
+        );
+      }
+
+      const validation = validateVocalInsights(fields, input.insights);
+      if (validation.invalidFields.length > 0) {
+        throw new HttpError(400, "VOCAL_INSIGHTS_INVALID", "Insights du vocal invalides", {
+          invalidFields: validation.invalidFields,
+        });
+      }
+      insights = validation.insights;
+    }
+
     await db
       .update(vocals)
       .set({
-        propertyId: input.propertyId,
+        ...(input.propertyId !== undefined ? { propertyId: input.propertyId } : {}),
+        ...(input.prospectUserId !== undefined ? { prospectUserId: input.prospectUserId } : {}),
+        ...(insights ? { insights: JSON.stringify(insights) } : {}),
         updatedAt: new Date(),
       })
       .where(and(eq(vocals.id, input.id), eq(vocals.orgId, input.orgId)));
@@ -218,6 +288,7 @@ export const vocalsService = {
     transcript: string | null;
     summary: string | null;
     confidence: number | null;
+    segments?: VocalTranscriptSegment[];
     status: Extract<VocalStatus, "TRANSCRIBED" | "REVIEW_REQUIRED">;
     propertyId?: string | null;
   }) {
@@ -238,6 +309,7 @@ export const vocalsService = {
       .set({
         transcript: input.transcript,
         summary: input.summary,
+        segments: input.segments ? JSON.stringify(input.segments) : null,
         confidence: input.confidence,
         status: input.status,
         propertyId: input.propertyId === undefined ? existing.propertyId : input.propertyId,
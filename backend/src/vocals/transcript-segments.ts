@@ -0,0 +1,146 @@
+import type { TranscribeVocalSegment } from "../ai/provider";
+
+// UNKNOWN: texte sans diarisation, dont le locuteur ne peut pas être attribué.
+export type VocalSpeaker = "AGENT" | "OTHER" | "UNKNOWN";
+
+export type VocalTranscriptSegment = {
+  startMs: number;
+  endMs: number;
+  speaker: VocalSpeaker;
+  text: string;
+};
+
+export type VocalTranscribedChunk = {
+  startMs: number;
+  endMs: number | null;
+  transcript: string;
+  summary: string;
+  confidence: number;
+  segments?: TranscribeVocalSegment[];
+};
+
+// L'agent enregistre le vocal: le locuteur qui parle le plus longtemps sur un morceau est l'agent.
+// Les libellés de diarisation changent d'un morceau à l'autre, l'attribution se fait donc par morceau.
+const resolveAgentSpeaker = (segments: TranscribeVocalSegment[]): string | null => {
+  const durations = new Map<string, number>();
+  for (const segment of segments) {
+    if (segment.speaker) {
+      durations.set(
+        segment.speaker,
+        (durations.get(segment.speaker) ?? 0) + Math.max(0, segment.endMs - segment.startMs),
+      );
+    }
+  }
+
+  let agent: string | null = null;
+  let agentDuration = -1;
+  for (const [speaker, duration] of durations) {
+    if (duration > agentDuration) {
+      agent = speaker;
+      agentDuration = duration;
+    }
+  }
+
+  return agent;
+};
+
+const MAX_OVERLAP_WORDS = 60;
+
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+// Sans segments horodatés, le recouvrement se retrouve en tête du texte du morceau: on retire
+// les mots qui reprennent la fin du texte déjà retenu (le premier mot peut être coupé).
+const trimRepeatedOverlap = (previousText: string, text: string): string => {
+  const previousWords = previousText.split(/\s+/).filter(Boolean).slice(-MAX_OVERLAP_WORDS).map(normalizeWord);
+  const words = text.split(/\s+/).filter(Boolean);
+  const normalized = words.map(normalizeWord);
+
+  for (let length = Math.min(previousWords.length, words.length, MAX_OVERLAP_WORDS); length >= 2; length -= 1) {
+    const tail = previousWords.slice(-length);
+    for (const skipped of [0, 1]) {
+      if (tail.every((word, index) => word === normalized[skipped + index])) {
+        return words.slice(skipped + length).join(" ");
+      }
+    }
+  }
+
+  return text;
+};
+
+const weightedConfidence = (chunks: VocalTranscribedChunk[]): number => {
+  let total = 0;
+  let weights = 0;
+  for (const chunk of chunks) {
+    const weight = chunk.endMs !== null && chunk.endMs > chunk.startMs ? chunk.endMs - chunk.startMs : 1;
+    total += chunk.confidence * weight;
+    weights += weight;
+  }
+
+  return weights > 0 ? total / weights : 0;
+};
+
+export const stitchVocalTranscription = (chunks: VocalTranscribedChunk[]) => {
+  const ordered = [...chunks].sort((left, right) => left.startMs - right.startMs);
+  const segments: VocalTranscriptSegment[] = [];
+
+  ordered.forEach((chunk, index) => {
+    const previous = ordered[index - 1];
+    const next = ordered[index + 1];
+    // Dans un recouvrement, chaque morceau garde les segments centrés sur sa moitié.
+    const ownStart =
+      previous && previous.endMs !== null
+        ? Math.max(chunk.startMs, (chunk.startMs + previous.endMs) / 2)
+        : chunk.startMs;
+    const ownEnd = next && chunk.endMs !== null ? (next.startMs + chunk.endMs) / 2 : Number.POSITIVE_INFINITY;
+    const rawSegments = (chunk.segments ?? []).filter((segment) => segment.text.trim());
+
+    if (rawSegments.length === 0) {
+      const text = previous
+        ? trimRepeatedOverlap(segments.map((segment) => segment.text).join(" "), chunk.transcript.trim())
+        : chunk.transcript.trim();
+      if (text) {
+        segments.push({
+          startMs: chunk.startMs,
+          endMs: chunk.endMs ?? chunk.startMs,
+          speaker: "UNKNOWN",
+          text,
+        });
+      }
+      return;
+    }
+
+    const agentSpeaker = resolveAgentSpeaker(rawSegments);
+    for (const segment of rawSegments) {
+      const startMs = chunk.startMs + segment.startMs;
+      const endMs = chunk.startMs + Math.max(segment.startMs, segment.endMs);
+      const middleMs = (startMs + endMs) / 2;
+      if (middleMs < ownStart || middleMs >= ownEnd) {
+        continue;
+      }
+
+      segments.push({
+        startMs: Math.round(startMs),
+        endMs: Math.round(endMs),
+        speaker: !segment.speaker ? "UNKNOWN" : segment.speaker === agentSpeaker ? "AGENT" : "OTHER",
+        text: segment.text.trim(),
+      });
+    }
+  });
+
+  if (ordered.length <= 1) {
+    const single = ordered[0];
+    return {
+      transcript: single?.transcript ?? "",
+      summary: single?.summary ?? "",
+      confidence: single?.confidence ?? 0,
+      segments,
+    };
+  }
+
+  return {
+    transcript: segments.map((segment) => segment.text).join(" "),
+    summary: [...new Set(ordered.map((chunk) => chunk.summary.trim()).filter(Boolean))].join(" "),
+    confidence: weightedConfidence(ordered),
+    segments,
+  };
+};
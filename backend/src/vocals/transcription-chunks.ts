@@ -0,0 +1,138 @@
+import { and, asc, eq } from "drizzle-orm";
+import type { TranscribeVocalSegment } from "../ai/provider";
+import { db } from "../db/client";
+import { vocals, vocalTranscriptionChunks } from "../db/schema";
+import type { VocalTranscribedChunk } from "./transcript-segments";
+
+export type VocalTranscriptionChunkStatus = "PENDING" | "DONE";
+
+const parseSegments = (raw: string | null): TranscribeVocalSegment[] | undefined => {
+  if (!raw) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return Array.isArray(parsed) ? (parsed as TranscribeVocalSegment[]) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const byVocal = (orgId: string, vocalId: string) =>
+  and(eq(vocalTranscriptionChunks.orgId, orgId), eq(vocalTranscriptionChunks.vocalId, vocalId));
+
+export const vocalTranscriptionChunksService = {
+  // Un découpage identique conserve les morceaux déjà transcrits (reprise après un job en échec).
+  async plan(input: {
+    orgId: string;
+    vocalId: string;
+    chunks: Array<{ index: number; startMs: number; endMs: number | null }>;
+  }): Promise<number[]> {
+    const existing = await db
+      .select()
+      .from(vocalTranscriptionChunks)
+      .where(byVocal(input.orgId, input.vocalId))
+      .orderBy(asc(vocalTranscriptionChunks.chunkIndex));
+
+    const samePlan =
+      existing.length === input.chunks.length &&
+      input.chunks.every(
+        (chunk, position) =>
+          existing[position]?.chunkIndex === chunk.index &&
+          existing[position]?.startMs === chunk.startMs &&
+          existing[position]?.endMs === chunk.endMs,
+      );
+    if (samePlan) {
+      return existing.filter((row) => row.status !== "DONE").map((row) => row.chunkIndex);
+    }
+
+    await db.delete(vocalTranscriptionChunks).where(byVocal(input.orgId, input.vocalId));
+    const now = new Date();
+    if (input.chunks.length > 0) {
+      await db.insert(vocalTranscriptionChunks).values(
+        input.chunks.map((chunk) => ({
+          id: crypto.randomUUID(),
+          orgId: input.orgId,
+          vocalId: input.vocalId,
+          chunkIndex: chunk.index,
+          startMs: chunk.startMs,
+          endMs: chunk.endMs,
+          status: "PENDING" satisfies VocalTranscriptionChunkStatus,
+          transcript: null,
+          summary: null,
+          confidence: null,
+          segments: null,
+          createdAt: now,
+          updatedAt: now,
+        })),
+      );
+    }
+
+    return input.chunks.map((chunk) => chunk.index);
+  },
+
+  async complete(input: {
+    orgId: string;
+    vocalId: string;
+    chunkIndex: number;
+    transcript: string;
+    summary: string;
+    confidence: number;
+    segments?: TranscribeVocalSegment[];
+  }) {
+    const now = new Date();
+    await db
+      .update(vocalTranscriptionChunks)
+      .set({
+        status: "DONE" satisfies VocalTranscriptionChunkStatus,
+        transcript: input.transcript,
+        summary: input.summary,
+        confidence: input.confidence,
+        segments: input.segments ? JSON.stringify(input.segments) : null,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          byVocal(input.orgId, input.vocalId),
+          eq(vocalTranscriptionChunks.chunkIndex, input.chunkIndex),
+        ),
+      );
+
+    // Chaque morceau terminé rafraîchit le vocal pour que la reprise ne le croie pas abandonné.
+    await db
+      .update(vocals)
+      .set({ updatedAt: now })
+      .where(and(eq(vocals.id, input.vocalId), eq(vocals.orgId, input.orgId)));
+  },
+
+  // La suppression sert de verrou: seul le dernier job terminé récupère les morceaux à assembler.
+  async claimCompleted(input: { orgId: string; vocalId: string }): Promise<VocalTranscribedChunk[] | null> {
+    const rows = await db
+      .select({ status: vocalTranscriptionChunks.status })
+      .from(vocalTranscriptionChunks)
+      .where(byVocal(input.orgId, input.vocalId));
+    if (rows.length === 0 || rows.some((row) => row.status !== "DONE")) {
+      return null;
+    }
+
+    const claimed = await db
+      .delete(vocalTranscriptionChunks)
+      .where(and(byVocal(input.orgId, input.vocalId), eq(vocalTranscriptionChunks.status, "DONE")))
+      .returning();
+    if (claimed.length !== rows.length) {
+      return null;
+    }
+
+    return claimed
+      .sort((left, right) => left.chunkIndex - right.chunkIndex)
+      .map((row) => ({
+        startMs: row.startMs,
+        endMs: row.endMs,
+        transcript: row.transcript ?? "",
+        summary: row.summary ?? "",
+        confidence: row.confidence ?? 0,
+        segments: parseSegments(row.segments),
+      }));
+  },
+};
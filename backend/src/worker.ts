@@ -1,5 +1,7 @@
 import { closeAiQueueClient } from "./queues/client";
+import { startClosingDeadlinesLoop, stopClosingDeadlinesLoop } from "./queues/closing-deadlines";
 import { getQueueRedisConnection } from "./queues/connection";
+import { startMandateExpiryLoop, stopMandateExpiryLoop } from "./queues/mandate-expiry";
 import { startVocalRecoveryLoop, stopVocalRecoveryLoop } from "./queues/recovery";
 import { startAiWorkers, stopAiWorkers } from "./queues/workers";
 
@@ -16,6 +18,8 @@ const shutdown = async (signal: string) => {
 
   if (workersStarted) {
     await stopVocalRecoveryLoop();
+    await stopMandateExpiryLoop();
+    await stopClosingDeadlinesLoop();
     await stopAiWorkers();
     await closeAiQueueClient();
   }
@@ -37,6 +41,8 @@ try {
   const workers = startAiWorkers();
   workersStarted = true;
   startVocalRecoveryLoop();
+  startMandateExpiryLoop();
+  startClosingDeadlinesLoop();
   const workerNames = Object.keys(workers).join(", ");
   console.info(`[BullMQ] Workers démarrés: ${workerNames}`);
 } catch (error) {
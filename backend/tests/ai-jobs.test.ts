@@ -4,7 +4,68 @@ import { aiJobsService } from "../src/ai";
 import { db } from "../src/db/client";
 import { runMigrations } from "../src/db/migrate";
 import { runSeed } from "../src/db/seed";
-import { files, messages, reviewQueueItems } from "../src/db/schema";
+import {
+  files,
+  messages,
+  objectChanges,
+  properties,
+  reviewQueueItems,
+} from "../src/db/schema";
+import { filesService } from "../src/files/service";
+
+const insertProperty = async (details: Record<string, unknown>) => {
+  const now = new Date();
+  const id = crypto.randomUUID();
+  await db.insert(properties).values({
+    id,
+    orgId: "org_demo",
+    title: "Appartement extraction documentaire",
+    city: "Lyon",
+    postalCode: "69003",
+    address: "12 rue Paul Bert",
+    details: JSON.stringify(details),
+    status: "PROSPECTION",
+    createdAt: now,
+    updatedAt: now,
+  });
+  return id;
+};
+
+const buildPdfBase64 = (lines: string[]): string => {
+  const content = [
+    "BT",
+    "/F1 12 Tf",
+    "72 720 Td",
+    ...lines.map((line) => `(${line}) Tj T*`),
+    "ET",
+  ].join("\n");
+  const pdf = [
+    "%PDF-1.4",
+    "1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj",
+    "2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj",
+    "3 0 obj << /Type /Page /Parent 2 0 R /Contents 4 0 R >> endobj",
+    `4 0 obj << /Length ${content.length} >>`,
+    "stream",
+    content,
+    "endstream",
+    "endobj",
+    "%%EOF",
+  ].join("\n");
+
+  return Buffer.from(pdf, "latin1").toString("base64");
+};
+
+const uploadPdf = async (fileName: string, lines: string[], propertyId = "property_demo") => {
+  const contentBase64 = buildPdfBase64(lines);
+  return filesService.upload({
+    orgId: "org_demo",
+    propertyId,
+    fileName,
+    mimeType: "application/pdf",
+    size: Buffer.from(contentBase64, "base64").byteLength,
+    contentBase64,
+  });
+};
 
 describe("ai jobs (matching + classification + review queue)", () => {
   beforeAll(async () => {
@@ -146,4 +207,107 @@ describe("ai jobs (matching + classification + review queue)", () => {
     });
     expect(review).toBeDefined();
   });
+
+  it("classe un scan anonyme a partir du texte embarque du PDF", async () => {
+    const uploaded = await uploadPdf("scan_0042.pdf", [
+      "Diagnostic de performance \\351nerg\\351tique (DPE)",
+      "Logement - classe energie D",
+    ]);
+
+    const result = await aiJobsService.processFile({
+      orgId: "org_demo",
+      fileId: uploaded.id,
+    });
+    expect(result.status).toBe("CLASSIFIED");
+
+    const classified = await db.query.files.findFirst({
+      where: and(eq(files.id, uploaded.id), eq(files.orgId, "org_demo")),
+    });
+    expect(classified?.typeDocument).toBe("DPE");
+  });
+
+  it("ajoute l'extrait de texte au review item quand contenu et nom divergent", async () => {
+    const uploaded = await uploadPdf("dpe_maison.pdf", [
+      "Avis d'impot 2025",
+      "Taxe fonciere sur les proprietes baties",
+    ]);
+
+    const result = await aiJobsService.processFile({
+      orgId: "org_demo",
+      fileId: uploaded.id,
+    });
+    expect(result.status).toBe("REVIEW_REQUIRED");
+
+    const review = await db.query.reviewQueueItems.findFirst({
+      where: and(
+        eq(reviewQueueItems.orgId, "org_demo"),
+        eq(reviewQueueItems.itemType, "FILE"),
+        eq(reviewQueueItems.itemId, uploaded.id),
+      ),
+    });
+    const payload = JSON.parse(review?.payload ?? "{}") as Record<string, unknown>;
+    expect(payload.proposedTypeDocument).toBe("TAXE_FONCIERE");
+    expect(payload.textSource).toBe("PDF_TEXT");
+    expect(String(payload.snippet)).toContain("Taxe fonciere");
+  });
+
+  it("reporte les valeurs d'un DPE classe dans les details du bien en mode IA", async () => {
+    const propertyId = await insertProperty({});
+    const uploaded = await uploadPdf(
+      "scan_0100.pdf",
+      [
+        "Diagnostic de performance energetique",
+        "Classe energie : D - 212 kWh/m2.an",
+        "Classe climat : E - 48 kg CO2/m2.an",
+        "Date d'etablissement : 04/02/2025",
+      ],
+      propertyId,
+    );
+
+    await aiJobsService.processFile({ orgId: "org_demo", fileId: uploaded.id });
+
+    const property = await db.query.properties.findFirst({
+      where: eq(properties.id, propertyId),
+    });
+    expect(JSON.parse(property?.details ?? "{}")).toMatchObject({
+      dpeClass: "D",
+      energyConsumption: 212,
+      gesClass: "E",
+      co2Emission: 48,
+      dpeDate: "2025-02-04",
+    });
+
+    const changes = await db
+      .select()
+      .from(objectChanges)
+      .where(and(eq(objectChanges.objectId, propertyId), eq(objectChanges.paramName, "dpeClass")));
+    expect(changes.map((change) => change.mode)).toEqual(["AI"]);
+  });
+
+  it("ouvre un review item au lieu d'ecraser une valeur existante", async () => {
+    const propertyId = await insertProperty({ propertyTax: 900 });
+    const uploaded = await uploadPdf(
+      "scan_0101.pdf",
+      ["Avis de taxe fonciere 2025", "Montant de votre impot : 1 234 EUR"],
+      propertyId,
+    );
+
+    const result = await aiJobsService.processFile({ orgId: "org_demo", fileId: uploaded.id });
+    expect(result.status).toBe("CLASSIFIED");
+
+    const property = await db.query.properties.findFirst({
+      where: eq(properties.id, propertyId),
+    });
+    expect(JSON.parse(property?.details ?? "{}").propertyTax).toBe(900);
+
+    const review = await db.query.reviewQueueItems.findFirst({
+      where: and(
+        eq(reviewQueueItems.itemId, uploaded.id),
+        eq(reviewQueueItems.reason, "FILE_EXTRACTED_FIELDS_CONFLICT"),
+      ),
+    });
+    expect(JSON.parse(review?.payload ?? "{}").conflicts).toEqual([
+      { paramName: "propertyTax", currentValue: 900, extractedValue: 1234 },
+    ]);
+  });
 });
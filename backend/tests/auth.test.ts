@@ -190,6 +190,7 @@ describe("auth endpoints", () => {
     expect(await updateResponse.json()).toEqual({
       notaryFeePct: 7.35,
       aiProvider: "anthropic",
+      transcriptionProvider: "ai-provider",
       valuationAiOutputFormat: "## Format custom agent\n\n- Bloc A\n- Bloc B",
       assistantSoul: "Assistant perso",
     });
@@ -207,6 +208,7 @@ describe("auth endpoints", () => {
     expect(await getUpdatedResponse.json()).toEqual({
       notaryFeePct: 7.35,
       aiProvider: "anthropic",
+      transcriptionProvider: "ai-provider",
       valuationAiOutputFormat: "## Format custom agent\n\n- Bloc A\n- Bloc B",
       assistantSoul: "Assistant perso",
     });
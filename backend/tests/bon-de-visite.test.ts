@@ -0,0 +1,193 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { createHash } from "node:crypto";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { bonDeVisiteService } from "../src/bon-de-visite/service";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { files, organizations } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { getStorageProvider } from "../src/storage";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_bdv_${crypto.randomUUID()}`;
+
+const SIGNATURE = {
+  width: 400,
+  height: 160,
+  strokes: [
+    [
+      { x: 20, y: 120 },
+      { x: 80, y: 40 },
+      { x: 140, y: 110 },
+      { x: 520, y: 30 },
+    ],
+    [{ x: 200, y: 80 }],
+  ],
+};
+
+const createVisit = async (input: { orgId: string; propertyTitle: string }) => {
+  const property = await propertiesService.create({
+    orgId: input.orgId,
+    title: input.propertyTitle,
+    city: "Lyon",
+    postalCode: "69006",
+    address: "12 boulevard des Belges",
+  });
+  const prospect = await usersService.create({
+    orgId: input.orgId,
+    data: {
+      firstName: "Hélène",
+      lastName: "Visiteuse",
+      email: `helene.${crypto.randomUUID()}@client.test`,
+      phone: "0611223344",
+      accountType: "CLIENT",
+    },
+  });
+  return propertiesService.addVisit({
+    orgId: input.orgId,
+    propertyId: property.id,
+    prospectUserId: prospect.id,
+    startsAt: "2026-03-03T09:00:00.000Z",
+    endsAt: "2026-03-03T10:00:00.000Z",
+  });
+};
+
+describe("bon de visite", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence du Parc", createdAt, updatedAt: createdAt });
+  });
+
+  it("génère le bon de visite à signer avec le bien et le visiteur", async () => {
+    const visit = await createVisit({ orgId, propertyTitle: "Appartement Brotteaux" });
+    const pdf = new TextDecoder().decode(await bonDeVisiteService.preview({ orgId, visitId: visit.id }));
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("(Bon de visite) Tj");
+    expect(pdf).toContain("(12 boulevard des Belges) Tj");
+    expect(pdf).toContain("(69006 Lyon) Tj");
+    expect(pdf).toContain("(Nom: H\\351l\\350ne Visiteuse) Tj");
+    expect(pdf).toContain("(En attente de signature.) Tj");
+  });
+
+  it("stocke le PDF signé en BON_VISITE avec horodatage et empreinte", async () => {
+    const visit = await createVisit({ orgId, propertyTitle: "Maison Tête d'Or" });
+    const signed = await bonDeVisiteService.sign({ orgId, visitId: visit.id, signature: SIGNATURE });
+
+    expect(signed.bonDeVisiteFileId).not.toBeNull();
+    expect(signed.bonDeVisiteFileName).toEndWith(".pdf");
+    expect(signed.bonDeVisiteSignedAt).not.toBeNull();
+    expect(signed.bonDeVisiteSha256).toMatch(/^[0-9a-f]{64}$/);
+
+    const file = await db.query.files.findFirst({
+      where: and(eq(files.id, signed.bonDeVisiteFileId!), eq(files.orgId, orgId)),
+    });
+    expect(file).toMatchObject({
+      propertyId: visit.propertyId,
+      typeDocument: "BON_VISITE",
+      mimeType: "application/pdf",
+    });
+
+    const stored = await getStorageProvider().getObject(file!.storageKey);
+    expect(createHash("sha256").update(stored.data).digest("hex")).toBe(signed.bonDeVisiteSha256!);
+    const pdf = new TextDecoder().decode(stored.data);
+    expect(pdf).toContain(`Sign\\351 \\351lectroniquement le ${signed.bonDeVisiteSignedAt}`);
+    // Le point hors cadre est ramené au bord du pad (400 px => 250 pt).
+    expect(pdf).toContain("290.00");
+    expect(pdf).toContain(" re S");
+
+    await expect(
+      bonDeVisiteService.sign({ orgId, visitId: visit.id, signature: SIGNATURE }),
+    ).rejects.toMatchObject({ status: 409, code: "BON_DE_VISITE_ALREADY_SIGNED" });
+  });
+
+  it("efface la signature quand un autre bon de visite est rattaché", async () => {
+    const visit = await createVisit({ orgId, propertyTitle: "Studio Part-Dieu" });
+    await expect(
+      bonDeVisiteService.sign({ orgId, visitId: visit.id, signature: { width: 400, height: 160, strokes: [[]] } }),
+    ).rejects.toMatchObject({ status: 400, code: "BON_DE_VISITE_SIGNATURE_EMPTY" });
+
+    await bonDeVisiteService.sign({ orgId, visitId: visit.id, signature: SIGNATURE });
+    const scan = await filesService.upload({
+      orgId,
+      propertyId: visit.propertyId,
+      typeDocument: "BON_VISITE",
+      fileName: "bon-de-visite-scan.pdf",
+      mimeType: "application/pdf",
+      size: 0,
+    });
+    const patched = await propertiesService.patchVisitById({
+      orgId,
+      id: visit.id,
+      data: { bonDeVisiteFileId: scan.id },
+    });
+
+    expect(patched.bonDeVisiteFileName).toBe("bon-de-visite-scan.pdf");
+    expect(patched.bonDeVisiteSignedAt).toBeNull();
+    expect(patched.bonDeVisiteSha256).toBeNull();
+  });
+
+  it("expose l'aperçu et la signature via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}`, "content-type": "application/json" };
+    const visit = await createVisit({ orgId: "org_demo", propertyTitle: "Loft Confluence" });
+
+    const previewResponse = await createApp().fetch(
+      new Request(`http://localhost/visits/${visit.id}/bon-de-visite`, { headers }),
+    );
+    expect(previewResponse.status).toBe(200);
+    expect(previewResponse.headers.get("content-type")).toBe("application/pdf");
+
+    const invalidResponse = await createApp().fetch(
+      new Request(`http://localhost/visits/${visit.id}/bon-de-visite/sign`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ width: 0, height: 160, strokes: [] }),
+      }),
+    );
+    expect(invalidResponse.status).toBe(400);
+
+    const signResponse = await createApp().fetch(
+      new Request(`http://localhost/visits/${visit.id}/bon-de-visite/sign`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(SIGNATURE),
+      }),
+    );
+    expect(signResponse.status).toBe(200);
+    expect(await signResponse.json()).toMatchObject({
+      id: visit.id,
+      bonDeVisiteSignedAt: expect.any(String),
+      bonDeVisiteSha256: expect.any(String),
+    });
+
+    const missingResponse = await createApp().fetch(
+      new Request("http://localhost/visits/visite-inconnue/bon-de-visite", { headers }),
+    );
+    expect(missingResponse.status).toBe(404);
+  });
+});
@@ -0,0 +1,229 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { buyerSearchesService } from "../src/buyer-searches/service";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { messageFileLinks, messages, organizations } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { messagesService } from "../src/messages/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+import { startSmtpStandIn } from "./helpers/smtp-stand-in";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const decodeBase64Parts = (data: string): string =>
+  [...data.matchAll(/Content-Transfer-Encoding: base64\r\n(?:[^\r\n]+\r\n)*\r\n([A-Za-z0-9+/=\r\n]+)/g)]
+    .map((match) => Buffer.from(match[1].replace(/\r\n/g, ""), "base64").toString("utf8"))
+    .join("\n");
+
+const orgId = `org_buyer_alert_${crypto.randomUUID()}`;
+const smtpEnvKeys = ["SMTP_HOST", "SMTP_PORT", "SMTP_FROM"] as const;
+const previousEnv = Object.fromEntries(smtpEnvKeys.map((key) => [key, process.env[key]]));
+
+describe("buyer alerts", () => {
+  const smtp = startSmtpStandIn();
+  let propertyId = "";
+  let buyerId = "";
+  let buyerEmail = "";
+  let noEmailBuyerId = "";
+  let photoId = "";
+
+  beforeAll(async () => {
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtp.server.port);
+    process.env.SMTP_FROM = "Agence Test <alertes@agence.test>";
+
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Alertes", createdAt, updatedAt: createdAt });
+
+    buyerEmail = `alice.${crypto.randomUUID()}@client.test`;
+    const buyer = await usersService.create({
+      orgId,
+      data: { firstName: "Alice", lastName: "Acheteuse", email: buyerEmail, accountType: "CLIENT" },
+    });
+    buyerId = buyer.id;
+    await buyerSearchesService.upsert({ orgId, userId: buyerId, cities: ["Nantes"], propertyType: "MAISON" });
+
+    const noEmailBuyer = await usersService.create({
+      orgId,
+      data: { firstName: "Bruno", lastName: "Telephone", phone: "0600000000", accountType: "CLIENT" },
+    });
+    noEmailBuyerId = noEmailBuyer.id;
+    await buyerSearchesService.upsert({
+      orgId,
+      userId: noEmailBuyerId,
+      cities: ["Nantes"],
+      propertyType: "MAISON",
+    });
+
+    const property = await propertiesService.create({
+      orgId,
+      title: "Maison avec jardin",
+      city: "Nantes",
+      postalCode: "44000",
+      address: "8 rue Crebillon",
+      details: {
+        general: { propertyType: "MAISON" },
+        finance: { salePriceTtc: 415000 },
+        characteristics: { rooms: 5, livingArea: 120 },
+        marketing: { shortDescription: "Maison lumineuse <proche> du centre." },
+      },
+    });
+    propertyId = property.id;
+
+    const photoContent = Buffer.from("fake-jpeg-content");
+    const photo = await filesService.upload({
+      orgId,
+      propertyId,
+      typeDocument: "PHOTOS_HD",
+      fileName: "facade.jpg",
+      mimeType: "image/jpeg",
+      size: photoContent.byteLength,
+      contentBase64: photoContent.toString("base64"),
+    });
+    photoId = photo.id;
+  });
+
+  afterAll(() => {
+    smtp.server.stop(true);
+    for (const key of smtpEnvKeys) {
+      if (previousEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = previousEnv[key];
+      }
+    }
+  });
+
+  it("envoie l'alerte par SMTP et la journalise comme message sortant", async () => {
+    const result = await buyerSearchesService.sendAlerts({ orgId, propertyId });
+
+    const sent = result.items.find((item) => item.userId === buyerId);
+    expect(sent?.status).toBe("SENT");
+    expect(result.items.find((item) => item.userId === noEmailBuyerId)?.status).toBe("NO_EMAIL");
+
+    expect(smtp.received).toHaveLength(1);
+    const mail = smtp.received[0];
+    expect(mail?.mailFrom).toBe("<alertes@agence.test>");
+    expect(mail?.rcptTo).toEqual([`<${buyerEmail}>`]);
+    expect(mail?.data).toContain(`Content-ID: <photo-${photoId}@monimmo>`);
+    const decoded = decodeBase64Parts(mail?.data ?? "");
+    expect(decoded).toContain("Bonjour Alice,");
+    expect(decoded).toContain("Maison avec jardin - 44000 Nantes");
+    expect(decoded).toContain("5 pièce(s)");
+    expect(decoded).toContain("Maison lumineuse &lt;proche&gt; du centre.");
+    expect(decoded).toContain(`cid:photo-${photoId}@monimmo`);
+    expect(decoded).toContain("fake-jpeg-content");
+
+    const message = await db.query.messages.findFirst({
+      where: eq(messages.id, sent?.messageId ?? ""),
+    });
+    expect(message).toMatchObject({
+      orgId,
+      propertyId,
+      channel: "EMAIL",
+      direction: "OUTBOUND",
+      sourceProvider: "smtp-server",
+      aiStatus: "PROCESSED",
+    });
+    const links = await db.query.messageFileLinks.findMany({
+      where: and(eq(messageFileLinks.orgId, orgId), eq(messageFileLinks.messageId, message?.id ?? "")),
+    });
+    expect(links.map((link) => link.fileId)).toEqual([photoId]);
+
+    const matches = await buyerSearchesService.listMatchesForProperty({ orgId, propertyId });
+    expect(matches.items.find((item) => item.userId === buyerId)?.alertSentAt).not.toBeNull();
+    expect(matches.items.find((item) => item.userId === noEmailBuyerId)?.alertSentAt).toBeNull();
+  });
+
+  it("n'envoie jamais deux fois la meme alerte", async () => {
+    const result = await buyerSearchesService.sendAlerts({
+      orgId,
+      propertyId,
+      userIds: [buyerId, "utilisateur-inconnu"],
+    });
+
+    expect(result.items).toEqual([
+      { userId: "utilisateur-inconnu", status: "NOT_MATCHED", messageId: null },
+      { userId: buyerId, status: "ALREADY_SENT", messageId: null },
+    ]);
+    expect(smtp.received).toHaveLength(1);
+  });
+
+  it("signale un echec SMTP sans bloquer un nouvel essai", async () => {
+    const retryEmail = `chloe.${crypto.randomUUID()}@client.test`;
+    const retryBuyer = await usersService.create({
+      orgId,
+      data: { firstName: "Chloe", lastName: "Relance", email: retryEmail, accountType: "CLIENT" },
+    });
+    await buyerSearchesService.upsert({ orgId, userId: retryBuyer.id, cities: ["Nantes"] });
+
+    process.env.SMTP_PORT = "1";
+    const failed = await buyerSearchesService.sendAlerts({ orgId, propertyId, userIds: [retryBuyer.id] });
+    expect(failed.items).toEqual([{ userId: retryBuyer.id, status: "FAILED", messageId: null }]);
+
+    process.env.SMTP_PORT = String(smtp.server.port);
+    const retried = await buyerSearchesService.sendAlerts({ orgId, propertyId, userIds: [retryBuyer.id] });
+    expect(retried.items[0]?.status).toBe("SENT");
+    expect(smtp.received.at(-1)?.rcptTo).toEqual([`<${retryEmail}>`]);
+  });
+
+  it("garde la reservation quand seule la journalisation echoue apres l'envoi", async () => {
+    const loggedEmail = `denis.${crypto.randomUUID()}@client.test`;
+    const loggedBuyer = await usersService.create({
+      orgId,
+      data: { firstName: "Denis", lastName: "Journal", email: loggedEmail, accountType: "CLIENT" },
+    });
+    await buyerSearchesService.upsert({ orgId, userId: loggedBuyer.id, cities: ["Nantes"] });
+
+    const receivedBefore = smtp.received.length;
+    const recordOutboundMessage = messagesService.recordOutboundMessage;
+    messagesService.recordOutboundMessage = async () => {
+      throw new Error("database is locked");
+    };
+    try {
+      const result = await buyerSearchesService.sendAlerts({ orgId, propertyId, userIds: [loggedBuyer.id] });
+      expect(result.items).toEqual([{ userId: loggedBuyer.id, status: "SENT", messageId: null }]);
+    } finally {
+      messagesService.recordOutboundMessage = recordOutboundMessage;
+    }
+
+    const again = await buyerSearchesService.sendAlerts({ orgId, propertyId, userIds: [loggedBuyer.id] });
+    expect(again.items).toEqual([{ userId: loggedBuyer.id, status: "ALREADY_SENT", messageId: null }]);
+    expect(smtp.received).toHaveLength(receivedBefore + 1);
+  });
+
+  it("expose l'envoi des alertes via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const response = await createApp().fetch(
+      new Request("http://localhost/properties/bien-inconnu/buyer-alerts", {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify({}),
+      }),
+    );
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,330 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { buyerSearchesService } from "../src/buyer-searches/service";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { organizations, properties, propertyTimelineEvents } from "../src/db/schema";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_buyer_search_${crypto.randomUUID()}`;
+
+const createClient = async (lastName: string) =>
+  usersService.create({
+    orgId,
+    data: {
+      firstName: "Lea",
+      lastName,
+      email: `lea.${crypto.randomUUID()}@client.test`,
+      accountType: "CLIENT",
+    },
+  });
+
+const createProperty = async (input: {
+  title: string;
+  city: string;
+  postalCode: string;
+  propertyType: string;
+  salePrice: number;
+}) =>
+  propertiesService.create({
+    orgId,
+    title: input.title,
+    city: input.city,
+    postalCode: input.postalCode,
+    address: "4 rue de la Republique",
+    details: {
+      general: { propertyType: input.propertyType },
+      finance: { salePriceTtc: input.salePrice },
+      characteristics: { rooms: 4, livingArea: 85 },
+      amenities: { balcony: true },
+      regulation: { dpeClass: "C" },
+    },
+  });
+
+const setCoordinates = async (propertyId: string, gpsLat: number, gpsLng: number) => {
+  const row = await db.query.properties.findFirst({ where: eq(properties.id, propertyId) });
+  const details = JSON.parse(row?.details ?? "{}") as Record<string, unknown>;
+  await db
+    .update(properties)
+    .set({ details: JSON.stringify({ ...details, gpsLat, gpsLng }) })
+    .where(eq(properties.id, propertyId));
+};
+
+describe("buyer searches", () => {
+  let buyerId = "";
+
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Organisation recherches", createdAt, updatedAt: createdAt });
+
+    buyerId = (await createClient("Acquereur")).id;
+    await buyerSearchesService.upsert({
+      orgId,
+      userId: buyerId,
+      budgetMin: 200000,
+      budgetMax: 350000,
+      cities: ["Lyon"],
+      propertyType: "APPARTEMENT",
+      minRooms: 3,
+      minLivingArea: 70,
+      requiredAmenities: ["balcony"],
+      maxDpeClass: "D",
+    });
+  });
+
+  it("valide les criteres et reserve la recherche aux clients", async () => {
+    const agent = await usersService.create({
+      orgId,
+      data: {
+        firstName: "Paul",
+        lastName: "Agent",
+        email: `paul.${crypto.randomUUID()}@agence.test`,
+        accountType: "AGENT",
+      },
+    });
+
+    await expect(
+      buyerSearchesService.upsert({ orgId, userId: agent.id, cities: ["Lyon"] }),
+    ).rejects.toMatchObject({ status: 400, code: "BUYER_SEARCH_CLIENT_REQUIRED" });
+    await expect(
+      buyerSearchesService.upsert({ orgId, userId: buyerId, budgetMin: 400000, budgetMax: 300000 }),
+    ).rejects.toMatchObject({ status: 400, code: "BUYER_SEARCH_BUDGET_INVALID" });
+    await expect(
+      buyerSearchesService.upsert({ orgId, userId: buyerId, centerLat: 45.76 }),
+    ).rejects.toMatchObject({ status: 400, code: "BUYER_SEARCH_CENTER_INVALID" });
+    await expect(
+      buyerSearchesService.upsert({ orgId, userId: buyerId, requiredAmenities: ["helipad"] }),
+    ).rejects.toMatchObject({
+      status: 400,
+      code: "BUYER_SEARCH_AMENITY_INVALID",
+      details: { amenities: ["helipad"] },
+    });
+    await expect(buyerSearchesService.getByUser({ orgId, userId: agent.id })).rejects.toMatchObject({
+      status: 404,
+      code: "BUYER_SEARCH_NOT_FOUND",
+    });
+  });
+
+  it("rapproche les acquereurs a la creation d'un bien", async () => {
+    const matching = await createProperty({
+      title: "T4 avec balcon",
+      city: "Lyon",
+      postalCode: "69006",
+      propertyType: "APPARTEMENT",
+      salePrice: 320000,
+    });
+    const wrongType = await createProperty({
+      title: "Maison lyonnaise",
+      city: "Lyon",
+      postalCode: "69005",
+      propertyType: "MAISON",
+      salePrice: 320000,
+    });
+
+    const matches = await buyerSearchesService.listMatchesForProperty({ orgId, propertyId: matching.id });
+    expect(matches.items).toHaveLength(1);
+    expect(matches.items[0]).toMatchObject({ userId: buyerId, lastName: "Acquereur", score: 100 });
+    expect(matches.items[0]?.criteria.map((item) => item.criterion)).toEqual([
+      "BUDGET",
+      "LOCATION",
+      "PROPERTY_TYPE",
+      "ROOMS",
+      "LIVING_AREA",
+      "AMENITIES",
+      "DPE",
+    ]);
+
+    expect(
+      (await buyerSearchesService.listMatchesForProperty({ orgId, propertyId: wrongType.id })).items,
+    ).toEqual([]);
+
+    const events = await db.query.propertyTimelineEvents.findMany({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, matching.id),
+        eq(propertyTimelineEvents.eventType, "PROPERTY_BUYERS_MATCHED"),
+      ),
+    });
+    expect(events.map((event) => JSON.parse(event.payload))).toEqual([
+      { trigger: "PROPERTY_CREATED", matchCount: 1, userIds: [buyerId] },
+    ]);
+
+    const userMatches = await buyerSearchesService.listMatchesForUser({ orgId, userId: buyerId });
+    expect(userMatches.items.map((item) => item.propertyId)).toContain(matching.id);
+  });
+
+  it("relance le rapprochement au passage en diffusion", async () => {
+    const property = await createProperty({
+      title: "T3 a Villeurbanne",
+      city: "Villeurbanne",
+      postalCode: "69100",
+      propertyType: "APPARTEMENT",
+      salePrice: 250000,
+    });
+    await setCoordinates(property.id, 45.7719, 4.8902);
+
+    const radiusBuyer = await createClient("Rayon");
+    await buyerSearchesService.upsert({
+      orgId,
+      userId: radiusBuyer.id,
+      radiusKm: 5,
+      centerLat: 45.764,
+      centerLng: 4.8357,
+      propertyType: "APPARTEMENT",
+    });
+    await buyerSearchesService.remove({ orgId, userId: radiusBuyer.id });
+    expect(
+      (await buyerSearchesService.listMatchesForProperty({ orgId, propertyId: property.id })).items,
+    ).toEqual([]);
+
+    await buyerSearchesService.upsert({
+      orgId,
+      userId: radiusBuyer.id,
+      radiusKm: 5,
+      centerLat: 45.764,
+      centerLng: 4.8357,
+      propertyType: "APPARTEMENT",
+    });
+    await db
+      .update(properties)
+      .set({ status: "MANDAT_SIGNE", price: 250000 })
+      .where(eq(properties.id, property.id));
+    await propertiesService.updateStatus({ orgId, id: property.id, status: "EN_DIFFUSION", force: true });
+
+    const matches = await buyerSearchesService.listMatchesForProperty({ orgId, propertyId: property.id });
+    expect(matches.items.map((item) => item.userId)).toEqual([radiusBuyer.id]);
+    expect(matches.items[0]?.criteria).toEqual([
+      { criterion: "LOCATION", status: "MATCH" },
+      { criterion: "PROPERTY_TYPE", status: "MATCH" },
+    ]);
+
+    const event = await db.query.propertyTimelineEvents.findFirst({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, property.id),
+        eq(propertyTimelineEvents.eventType, "PROPERTY_BUYERS_MATCHED"),
+      ),
+    });
+    expect(JSON.parse(event?.payload ?? "{}")).toMatchObject({ trigger: "STATUS_EN_DIFFUSION" });
+  });
+
+  it("calcule le centre du rayon a partir des biens des villes recherchees", async () => {
+    const lyon = await createProperty({
+      title: "Reference Lyon",
+      city: "Lyon",
+      postalCode: "69002",
+      propertyType: "APPARTEMENT",
+      salePrice: 900000,
+    });
+    await setCoordinates(lyon.id, 45.75, 4.83);
+    const nearby = await createProperty({
+      title: "Appartement Caluire",
+      city: "Caluire-et-Cuire",
+      postalCode: "69300",
+      propertyType: "APPARTEMENT",
+      salePrice: 280000,
+    });
+    await setCoordinates(nearby.id, 45.795, 4.846);
+    const faraway = await createProperty({
+      title: "Appartement Grenoble",
+      city: "Grenoble",
+      postalCode: "38000",
+      propertyType: "APPARTEMENT",
+      salePrice: 280000,
+    });
+    await setCoordinates(faraway.id, 45.188, 5.724);
+
+    const buyer = await createClient("Barycentre");
+    await buyerSearchesService.upsert({
+      orgId,
+      userId: buyer.id,
+      cities: ["Lyon"],
+      radiusKm: 10,
+      budgetMax: 300000,
+    });
+
+    const matchedIds = (await buyerSearchesService.listMatchesForUser({ orgId, userId: buyer.id })).items.map(
+      (item) => item.propertyId,
+    );
+    expect(matchedIds).toContain(nearby.id);
+    expect(matchedIds).not.toContain(faraway.id);
+    expect(matchedIds).not.toContain(lyon.id);
+  });
+
+  it("expose la recherche et les rapprochements via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}`, "content-type": "application/json" };
+    const client = await usersService.create({
+      orgId: "org_demo",
+      data: {
+        firstName: "Hugo",
+        lastName: "Acheteur",
+        email: `hugo.${crypto.randomUUID()}@client.test`,
+        accountType: "CLIENT",
+      },
+    });
+
+    const putResponse = await createApp().fetch(
+      new Request(`http://localhost/users/${client.id}/buyer-search`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ cities: ["Nowhere"], propertyType: "MAISON", maxDpeClass: "E" }),
+      }),
+    );
+    expect(putResponse.status).toBe(200);
+    const search = await putResponse.json();
+    expect(search).toMatchObject({ userId: client.id, cities: ["Nowhere"], maxDpeClass: "E" });
+
+    const invalidResponse = await createApp().fetch(
+      new Request(`http://localhost/users/${client.id}/buyer-search`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ maxDpeClass: "H" }),
+      }),
+    );
+    expect(invalidResponse.status).toBe(400);
+
+    const matchesResponse = await createApp().fetch(
+      new Request(`http://localhost/users/${client.id}/property-matches`, { headers }),
+    );
+    expect(matchesResponse.status).toBe(200);
+    expect((await matchesResponse.json()).items).toEqual([]);
+
+    const deleteResponse = await createApp().fetch(
+      new Request(`http://localhost/users/${client.id}/buyer-search`, { method: "DELETE", headers }),
+    );
+    expect(deleteResponse.status).toBe(204);
+
+    const missingResponse = await createApp().fetch(
+      new Request(`http://localhost/users/${client.id}/buyer-search`, { headers }),
+    );
+    expect(missingResponse.status).toBe(404);
+
+    const propertyMatchesResponse = await createApp().fetch(
+      new Request("http://localhost/properties/unknown-property/buyer-matches", { headers }),
+    );
+    expect(propertyMatchesResponse.status).toBe(404);
+  });
+});
@@ -0,0 +1,176 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { closingService, computeClosingDeadlines } from "../src/closing/service";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { organizations, properties, reviewQueueItems } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const createPropertyUnderCompromis = async (input: {
+  orgId: string;
+  title: string;
+  marketing: Record<string, string>;
+}) => {
+  const created = await propertiesService.create({
+    orgId: input.orgId,
+    title: input.title,
+    city: "Toulouse",
+    postalCode: "31000",
+    address: "8 place du Capitole",
+    details: { marketing: input.marketing },
+  });
+  await db.update(properties).set({ status: "COMPROMIS" }).where(eq(properties.id, created.id));
+  return created;
+};
+
+const orgId = `org_closing_${crypto.randomUUID()}`;
+
+describe("closing tracker", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const now = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Organisation compromis", createdAt: now, updatedAt: now });
+  });
+
+  it("calcule les delais legaux depuis la signature du compromis", () => {
+    expect(computeClosingDeadlines({ compromisSignatureDate: "2026-03-05" })).toEqual([
+      // J+10 tombe un dimanche: prorogation au lundi.
+      { kind: "SRU_RETRACTATION", dueDate: "2026-03-16", computed: true },
+      { kind: "CONDITION_PRET", dueDate: "2026-04-19", computed: true },
+      { kind: "ACTE_AUTHENTIQUE", dueDate: "2026-06-03", computed: true },
+    ]);
+
+    // J+10 le vendredi 8 mai (férié), puis week-end.
+    const [sru, loan] = computeClosingDeadlines({
+      compromisSignatureDate: "2026-04-28",
+      loanConditionDeadline: "2026-06-30",
+    });
+    expect(sru!.dueDate).toBe("2026-05-11");
+    expect(loan).toEqual({ kind: "CONDITION_PRET", dueDate: "2026-06-30", computed: false });
+  });
+
+  it("signale les echeances depassees sans levee des conditions ni acte", async () => {
+    const property = await createPropertyUnderCompromis({
+      orgId,
+      title: "Compromis en retard",
+      marketing: { compromisSignatureDate: "2026-01-05", acteAuthentiqueDate: "2026-05-15" },
+    });
+
+    const now = new Date("2026-03-01T10:00:00.000Z");
+    await closingService.runDeadlineChecks({ now });
+    await closingService.runDeadlineChecks({ now });
+
+    const alerts = await db.query.reviewQueueItems.findMany({
+      where: and(eq(reviewQueueItems.itemType, "PROPERTY"), eq(reviewQueueItems.itemId, property.id)),
+    });
+    expect(alerts.map((alert) => alert.reason)).toEqual(["CLOSING_LOAN_CONDITION_OVERDUE"]);
+    expect(JSON.parse(alerts[0]!.payload!)).toMatchObject({
+      dueDate: "2026-02-19",
+      missingTypeDocument: "LEVEE_CONDITIONS_SUSPENSIVES",
+    });
+
+    await filesService.upload({
+      orgId,
+      propertyId: property.id,
+      typeDocument: "LEVEE_CONDITIONS_SUSPENSIVES",
+      fileName: "levee.pdf",
+      mimeType: "application/pdf",
+      size: 8,
+      contentBase64: Buffer.from("%PDF-1.4").toString("base64"),
+    });
+
+    const tracker = await closingService.getTracker({ orgId, propertyId: property.id, now });
+    expect(tracker.deadlines.map((deadline) => [deadline.kind, deadline.state])).toEqual([
+      ["SRU_RETRACTATION", "DONE"],
+      ["CONDITION_PRET", "DONE"],
+      ["ACTE_AUTHENTIQUE", "PENDING"],
+    ]);
+
+    await closingService.runDeadlineChecks({ now: new Date("2026-05-20T10:00:00.000Z") });
+    const reasons = (
+      await db.query.reviewQueueItems.findMany({
+        where: eq(reviewQueueItems.itemId, property.id),
+      })
+    ).map((alert) => alert.reason);
+    expect(reasons.sort()).toEqual([
+      "CLOSING_ACTE_AUTHENTIQUE_OVERDUE",
+      "CLOSING_LOAN_CONDITION_OVERDUE",
+    ]);
+  });
+
+  it("affiche les echeances dans les flux calendrier", async () => {
+    const token = await loginAndGetAccessToken();
+    const property = await createPropertyUnderCompromis({
+      orgId: "org_demo",
+      title: "Compromis calendrier",
+      marketing: { compromisSignatureDate: "2031-03-05" },
+    });
+
+    const eventsResponse = await createApp().fetch(
+      new Request(
+        "http://localhost/calendar-events?from=2031-03-01T00:00:00.000Z&to=2031-03-31T00:00:00.000Z",
+        { headers: { authorization: `Bearer ${token}` } },
+      ),
+    );
+    expect(eventsResponse.status).toBe(200);
+    const events = await eventsResponse.json();
+    expect(events.items).toContainEqual(
+      expect.objectContaining({
+        id: `closing:${property.id}:SRU_RETRACTATION`,
+        kind: "CLOSING_DEADLINE",
+        startsAt: "2031-03-17T00:00:00.000Z",
+        propertyTitle: "Compromis calendrier",
+      }),
+    );
+    expect(
+      events.items.some((item: { id: string }) => item.id === `closing:${property.id}:ACTE_AUTHENTIQUE`),
+    ).toBe(false);
+
+    const rdvResponse = await createApp().fetch(
+      new Request("http://localhost/rdv?from=2031-04-01T00:00:00.000Z&to=2031-06-30T00:00:00.000Z", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(rdvResponse.status).toBe(200);
+    const rdv = await rdvResponse.json();
+    expect(
+      rdv.items
+        .filter((item: { propertyId: string }) => item.propertyId === property.id)
+        .map((item: { rdvType: string; title: string }) => [item.rdvType, item.title]),
+    ).toEqual([
+      ["ECHEANCE_VENTE", "Date limite de la condition suspensive de prêt"],
+      ["ECHEANCE_VENTE", "Signature de l'acte authentique"],
+    ]);
+
+    const trackerResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/closing-tracker`, {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(trackerResponse.status).toBe(200);
+    expect((await trackerResponse.json()).compromisSignatureDate).toBe("2031-03-05");
+  });
+});
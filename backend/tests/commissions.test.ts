@@ -0,0 +1,262 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { commissionsService } from "../src/commissions/service";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { organizations, properties, propertyTimelineEvents } from "../src/db/schema";
+import { propertiesService } from "../src/properties/service";
+import { reportsService } from "../src/reports/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_commissions_${crypto.randomUUID()}`;
+
+const createProperty = async (title: string, city: string, feesAmount: number) =>
+  propertiesService.create({
+    orgId,
+    title,
+    city,
+    postalCode: "69001",
+    address: "3 quai Saint-Antoine",
+    details: { finance: { feesAmount, feesResponsibility: "VENDEUR" } },
+  });
+
+const insertStatusEvent = async (propertyId: string, createdAt: string, payload: Record<string, unknown>) => {
+  await db.insert(propertyTimelineEvents).values({
+    id: crypto.randomUUID(),
+    propertyId,
+    orgId,
+    eventType: "PROPERTY_STATUS_CHANGED",
+    payload: JSON.stringify(payload),
+    createdAt: new Date(createdAt),
+  });
+};
+
+describe("commissions and revenue report", () => {
+  let listingAgentId = "";
+  let sellingAgentId = "";
+  let clientId = "";
+
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const now = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Organisation honoraires", createdAt: now, updatedAt: now });
+
+    const listingAgent = await usersService.create({
+      orgId,
+      data: { firstName: "Lea", lastName: "Mandat", email: `lea.${crypto.randomUUID()}@agence.test`, accountType: "AGENT" },
+    });
+    const sellingAgent = await usersService.create({
+      orgId,
+      data: { firstName: "Marc", lastName: "Vente", email: `marc.${crypto.randomUUID()}@agence.test`, accountType: "AGENT" },
+    });
+    const client = await usersService.create({
+      orgId,
+      data: { firstName: "Paul", lastName: "Client", email: `paul.${crypto.randomUUID()}@client.test`, accountType: "CLIENT" },
+    });
+    listingAgentId = listingAgent.id;
+    sellingAgentId = sellingAgent.id;
+    clientId = client.id;
+  });
+
+  it("valide la repartition et photographie la commission au passage en compromis", async () => {
+    const property = await createProperty("Appartement Presqu'ile", "Lyon", 12000);
+
+    const defaults = await commissionsService.getByProperty({ orgId, propertyId: property.id });
+    expect(defaults).toMatchObject({
+      feesAmount: 12000,
+      feesResponsibility: "VENDEUR",
+      agencyAmount: 12000,
+      configured: false,
+    });
+
+    await expect(
+      commissionsService.upsert({
+        orgId,
+        propertyId: property.id,
+        listingAgentUserId: listingAgentId,
+        listingAgentAmount: 4000,
+        agencyAmount: 9000,
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "COMMISSION_SPLIT_MISMATCH" });
+    await expect(
+      commissionsService.upsert({
+        orgId,
+        propertyId: property.id,
+        listingAgentUserId: clientId,
+        listingAgentAmount: 4000,
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "COMMISSION_AGENT_INVALID" });
+    await expect(
+      commissionsService.upsert({ orgId, propertyId: property.id, sellingAgentAmount: 1000 }),
+    ).rejects.toMatchObject({ status: 400, code: "COMMISSION_AGENT_REQUIRED" });
+
+    const saved = await commissionsService.upsert({
+      orgId,
+      propertyId: property.id,
+      listingAgentUserId: listingAgentId,
+      listingAgentAmount: 3000,
+      sellingAgentUserId: sellingAgentId,
+      sellingAgentAmount: 3000,
+    });
+    expect(saved).toMatchObject({ agencyAmount: 6000, configured: true });
+
+    await db.update(properties).set({ status: "OFFRES" }).where(eq(properties.id, property.id));
+    await propertiesService.addProspect({
+      orgId,
+      propertyId: property.id,
+      userId: clientId,
+      relationRole: "ACHETEUR",
+    });
+    await propertiesService.updateStatus({ orgId, id: property.id, status: "COMPROMIS", force: true });
+
+    const events = await db.query.propertyTimelineEvents.findMany({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, property.id),
+        eq(propertyTimelineEvents.eventType, "PROPERTY_STATUS_CHANGED"),
+      ),
+    });
+    expect(events).toHaveLength(1);
+    expect(JSON.parse(events[0]!.payload).commission).toEqual({
+      feesAmount: 12000,
+      listingAgentUserId: listingAgentId,
+      listingAgentAmount: 3000,
+      sellingAgentUserId: sellingAgentId,
+      sellingAgentAmount: 3000,
+      agencyAmount: 6000,
+    });
+  });
+
+  it("agrege les honoraires signes et encaisses depuis la timeline", async () => {
+    const split = {
+      feesAmount: 10000,
+      listingAgentUserId: listingAgentId,
+      listingAgentAmount: 2500,
+      sellingAgentUserId: sellingAgentId,
+      sellingAgentAmount: 2500,
+      agencyAmount: 5000,
+    };
+    const sold = await createProperty("Maison vendue", "Lyon", 10000);
+    await insertStatusEvent(sold.id, "2020-01-10T10:00:00.000Z", { from: "OFFRES", to: "COMPROMIS", commission: split });
+    await insertStatusEvent(sold.id, "2020-03-02T10:00:00.000Z", { from: "COMPROMIS", to: "VENDU", commission: split });
+
+    // Compromis rompu: la signature ne compte plus.
+    const cancelled = await createProperty("Studio compromis rompu", "Villeurbanne", 5000);
+    await insertStatusEvent(cancelled.id, "2020-01-20T10:00:00.000Z", { from: "OFFRES", to: "COMPROMIS" });
+    await insertStatusEvent(cancelled.id, "2020-02-05T10:00:00.000Z", { from: "COMPROMIS", to: "OFFRES" });
+
+    // Sans répartition dans l'événement: repli sur la répartition courante (100% agence).
+    const agencyOnly = await createProperty("Loft agence", "Villeurbanne", 8000);
+    await insertStatusEvent(agencyOnly.id, "2020-02-14T10:00:00.000Z", { from: "OFFRES", to: "COMPROMIS" });
+
+    const report = await reportsService.revenue({
+      orgId,
+      from: "2020-01-01T00:00:00.000Z",
+      to: "2021-01-01T00:00:00.000Z",
+    });
+
+    expect(report.totals).toEqual({
+      signedFees: 18000,
+      collectedFees: 10000,
+      signedCount: 2,
+      collectedCount: 1,
+      agencySignedFees: 13000,
+      agencyCollectedFees: 5000,
+    });
+    expect(report.byMonth).toEqual([
+      { month: "2020-01", signedFees: 10000, collectedFees: 0, signedCount: 1, collectedCount: 0 },
+      { month: "2020-02", signedFees: 8000, collectedFees: 0, signedCount: 1, collectedCount: 0 },
+      { month: "2020-03", signedFees: 0, collectedFees: 10000, signedCount: 0, collectedCount: 1 },
+    ]);
+    expect(report.byCity).toEqual([
+      { city: "Lyon", signedFees: 10000, collectedFees: 10000, signedCount: 1, collectedCount: 1 },
+      { city: "Villeurbanne", signedFees: 8000, collectedFees: 0, signedCount: 1, collectedCount: 0 },
+    ]);
+    expect(report.byAgent).toContainEqual({
+      userId: listingAgentId,
+      firstName: "Lea",
+      lastName: "Mandat",
+      signedFees: 2500,
+      collectedFees: 2500,
+      signedCount: 1,
+      collectedCount: 1,
+    });
+
+    await expect(reportsService.revenue({ orgId, from: "pas-une-date" })).rejects.toMatchObject({
+      status: 400,
+      code: "INVALID_REPORT_FROM",
+    });
+  });
+
+  it("expose la repartition et le rapport via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const property = await propertiesService.create({
+      orgId: "org_demo",
+      title: "Commission API",
+      city: "Nantes",
+      postalCode: "44000",
+      address: "1 rue Crebillon",
+      details: { finance: { feesAmount: 9000 } },
+    });
+
+    const putResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/commission`, {
+        method: "PUT",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify({ listingAgentUserId: "user_demo", listingAgentAmount: 3000 }),
+      }),
+    );
+    expect(putResponse.status).toBe(200);
+    expect(await putResponse.json()).toMatchObject({
+      feesAmount: 9000,
+      listingAgentUserId: "user_demo",
+      agencyAmount: 6000,
+    });
+
+    const getResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/commission`, {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(getResponse.status).toBe(200);
+    expect((await getResponse.json()).configured).toBe(true);
+
+    const reportResponse = await createApp().fetch(
+      new Request("http://localhost/reports/revenue?from=2020-01-01T00:00:00.000Z", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(reportResponse.status).toBe(200);
+    const report = await reportResponse.json();
+    expect(report.from).toBe("2020-01-01T00:00:00.000Z");
+    expect(Array.isArray(report.byMonth)).toBe(true);
+
+    const invalidResponse = await createApp().fetch(
+      new Request("http://localhost/reports/revenue?to=demain", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(invalidResponse.status).toBe(400);
+  });
+});
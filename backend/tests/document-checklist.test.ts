@@ -0,0 +1,132 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { files, propertyTimelineEvents } from "../src/db/schema";
+import { computeDocumentChecklist } from "../src/properties/document-checklist";
+import { propertiesService } from "../src/properties/service";
+
+const insertFile = async (propertyId: string, typeDocument: string) => {
+  const now = new Date();
+  const id = crypto.randomUUID();
+  await db.insert(files).values({
+    id,
+    orgId: "org_demo",
+    propertyId,
+    typeDocument,
+    fileName: `${typeDocument.toLowerCase()}.pdf`,
+    mimeType: "application/pdf",
+    size: 10,
+    status: "CLASSIFIED",
+    storageKey: `org_demo/${id}/${typeDocument.toLowerCase()}.pdf`,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return id;
+};
+
+describe("document checklist", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+  });
+
+  it("calcule les diagnostics attendus selon l'annee de construction et la copropriete", () => {
+    const checklist = computeDocumentChecklist({
+      status: "COMPROMIS",
+      details: {
+        propertyType: "APPARTEMENT",
+        constructionYear: 1930,
+        isCopropriete: true,
+        gas: true,
+        electricity: false,
+        sanitationType: "TOUT_A_L_EGOUT",
+      },
+      hiddenExpectedDocumentKeys: ["technique::TERMITES"],
+      files: [{ id: "file_dpe", typeDocument: "DPE" }],
+      now: new Date("2026-03-01T00:00:00.000Z"),
+    });
+
+    const missing = checklist.missing.map((item) => item.typeDocument);
+    expect(missing).toContain("AMIANTE");
+    expect(missing).toContain("PLOMB");
+    expect(missing).toContain("GAZ");
+    expect(missing).toContain("LOI_CARREZ");
+    expect(missing).not.toContain("ELECTRICITE");
+    expect(missing).not.toContain("ASSAINISSEMENT");
+    expect(checklist.present).toEqual([
+      expect.objectContaining({ typeDocument: "DPE", state: "PRESENT", fileIds: ["file_dpe"] }),
+    ]);
+    expect(checklist.hidden).toEqual([
+      expect.objectContaining({ typeDocument: "TERMITES", hiddenKey: "technique::TERMITES" }),
+    ]);
+  });
+
+  it("ne demande ni plomb ni amiante pour une maison recente sur terrain sans fosse", () => {
+    const checklist = computeDocumentChecklist({
+      status: "COMPROMIS",
+      details: { propertyType: "MAISON", constructionYear: 2010, sanitationType: "FOSSE_SEPTIQUE" },
+      hiddenExpectedDocumentKeys: [],
+      files: [],
+    });
+
+    const missing = checklist.missing.map((item) => item.typeDocument);
+    expect(missing).not.toContain("AMIANTE");
+    expect(missing).not.toContain("PLOMB");
+    expect(missing).toContain("ASSAINISSEMENT");
+  });
+
+  it("bloque un passage en diffusion sans mandat ni DPE, sauf forcage", async () => {
+    const created = await propertiesService.create({
+      orgId: "org_demo",
+      title: "Checklist diffusion",
+      city: "Lyon",
+      postalCode: "69003",
+      address: "3 rue Paul Bert",
+      details: { propertyType: "APPARTEMENT" },
+    });
+    await propertiesService.patchById({ orgId: "org_demo", id: created.id, data: { price: 320000 } });
+    await propertiesService.updateStatus({ orgId: "org_demo", id: created.id, status: "MANDAT_SIGNE" });
+
+    const checklist = await propertiesService.getDocumentChecklist({
+      orgId: "org_demo",
+      propertyId: created.id,
+      status: "EN_DIFFUSION",
+    });
+    expect(checklist.missing.map((item) => item.typeDocument)).toEqual(
+      expect.arrayContaining(["MANDAT_VENTE_SIGNE", "DPE"]),
+    );
+
+    await expect(
+      propertiesService.updateStatus({ orgId: "org_demo", id: created.id, status: "EN_DIFFUSION" }),
+    ).rejects.toMatchObject({
+      status: 409,
+      code: "PROPERTY_DOCUMENTS_MISSING",
+      details: {
+        status: "EN_DIFFUSION",
+        missing: expect.arrayContaining([{ typeDocument: "DPE", label: "DPE" }]),
+      },
+    });
+
+    await insertFile(created.id, "MANDAT_VENTE_SIGNE");
+    const forced = await propertiesService.updateStatus({
+      orgId: "org_demo",
+      id: created.id,
+      status: "EN_DIFFUSION",
+      force: true,
+    });
+    expect(forced.status).toBe("EN_DIFFUSION");
+
+    const timeline = await db.query.propertyTimelineEvents.findMany({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, created.id),
+        eq(propertyTimelineEvents.eventType, "PROPERTY_STATUS_CHANGED"),
+      ),
+    });
+    const diffusionEvent = timeline
+      .map((event) => JSON.parse(event.payload))
+      .find((payload) => payload.to === "EN_DIFFUSION");
+    expect(diffusionEvent?.missingDocuments).toEqual([{ typeDocument: "DPE", label: "DPE" }]);
+  });
+});
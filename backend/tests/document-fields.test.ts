@@ -0,0 +1,31 @@
+import { describe, expect, it } from "bun:test";
+import { extractDocumentFields } from "../src/files/document-fields";
+
+describe("extractDocumentFields", () => {
+  it("extrait la surface d'un certificat Carrez", () => {
+    expect(
+      extractDocumentFields({
+        typeDocument: "LOI_CARREZ",
+        text: "Attestation de superficie\nSuperficie privative totale : 62,35 m²",
+      }),
+    ).toEqual([{ paramName: "carrezArea", value: 62.35 }]);
+  });
+
+  it("extrait les charges annuelles et mensuelles", () => {
+    expect(
+      extractDocumentFields({
+        typeDocument: "MONTANT_CHARGES",
+        text: "Charges de copropriété annuelles : 2 400,00 €\nSoit charges mensuelles : 200 €",
+      }),
+    ).toEqual([
+      { paramName: "annualChargesEstimate", value: 2400 },
+      { paramName: "monthlyCharges", value: 200 },
+    ]);
+  });
+
+  it("ignore les types sans regles d'extraction", () => {
+    expect(
+      extractDocumentFields({ typeDocument: "PIECE_IDENTITE", text: "Classe energie : A" }),
+    ).toEqual([]);
+  });
+});
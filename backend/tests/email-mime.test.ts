@@ -0,0 +1,61 @@
+import { describe, expect, it } from "bun:test";
+import { buildMimeMessage } from "../src/email/mime";
+
+const contentTypes = (raw: string): string[] =>
+  [...raw.matchAll(/^Content-Type: ([^;\r\n]+)/gm)].map((match) => match[1]!);
+
+describe("buildMimeMessage", () => {
+  it("envoie une piece jointe ordinaire en multipart/mixed", () => {
+    const raw = buildMimeMessage({
+      from: "Agence <contact@agence.test>",
+      messageId: "compose-1@agence.test",
+      message: {
+        to: ["acheteur@client.test"],
+        subject: "Mandat",
+        text: "Le mandat est joint.",
+        attachments: [
+          { fileName: "mandat.pdf", contentType: "application/pdf", content: new TextEncoder().encode("%PDF") },
+        ],
+      },
+    });
+
+    expect(contentTypes(raw)).toEqual(["multipart/mixed", "text/plain", "application/pdf"]);
+    expect(raw).not.toContain("multipart/related");
+    expect(raw).toContain('Content-Disposition: attachment; filename="mandat.pdf"');
+    expect(raw).not.toContain("Content-ID:");
+  });
+
+  it("garde les images cid dans multipart/related, a cote des pieces jointes", () => {
+    const raw = buildMimeMessage({
+      from: "Agence <contact@agence.test>",
+      messageId: "alerte-1@agence.test",
+      message: {
+        to: ["acheteur@client.test"],
+        subject: "Nouveau bien",
+        text: "Nouveau bien",
+        html: '<img src="cid:photo-1@monimmo" />',
+        attachments: [
+          {
+            fileName: "facade.jpg",
+            contentType: "image/jpeg",
+            content: new TextEncoder().encode("jpeg"),
+            contentId: "photo-1@monimmo",
+          },
+          { fileName: "plaquette.pdf", contentType: "application/pdf", content: new TextEncoder().encode("%PDF") },
+        ],
+      },
+    });
+
+    expect(contentTypes(raw)).toEqual([
+      "multipart/mixed",
+      "multipart/related",
+      "multipart/alternative",
+      "text/plain",
+      "text/html",
+      "image/jpeg",
+      "application/pdf",
+    ]);
+    expect(raw).toContain("Content-ID: <photo-1@monimmo>");
+    expect(raw).toContain('Content-Disposition: inline; filename="facade.jpg"');
+  });
+});
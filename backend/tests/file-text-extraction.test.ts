@@ -0,0 +1,78 @@
+import { describe, expect, it } from "bun:test";
+import { deflateSync } from "node:zlib";
+import { extractFileText, extractPdfText } from "../src/files/text-extraction";
+
+const buildPdf = (content: string, compressed: boolean): Uint8Array => {
+  const stream = compressed
+    ? deflateSync(Buffer.from(content, "latin1")).toString("latin1")
+    : content;
+  const filter = compressed ? " /Filter /FlateDecode" : "";
+  const pdf = [
+    "%PDF-1.4",
+    "1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj",
+    `4 0 obj << /Length ${stream.length}${filter} >>`,
+    "stream",
+    stream,
+    "endstream",
+    "endobj",
+    "%%EOF",
+  ].join("\n");
+
+  return new Uint8Array(Buffer.from(pdf, "latin1"));
+};
+
+describe("file text extraction", () => {
+  it("extrait le texte embarque d'un PDF compresse", () => {
+    const text = extractPdfText(
+      buildPdf(
+        "BT /F1 12 Tf 72 720 Td (Taxe fonci\\350re 2025) Tj T* [(Montant ) -250 (: 1 234 \\200)] TJ ET",
+        true,
+      ),
+    );
+
+    expect(text).toContain("Taxe foncière 2025");
+    expect(text?.split("\n")).toHaveLength(2);
+  });
+
+  it("decode les chaines hexadecimales UTF-16", () => {
+    const text = extractPdfText(buildPdf("BT <FEFF00C9007400610074> Tj ET", false));
+    expect(text).toBe("État");
+  });
+
+  it("bascule sur l'OCR pour un PDF scanne sans texte", async () => {
+    const calls: string[] = [];
+    const result = await extractFileText(
+      {
+        fileName: "scan_0042.pdf",
+        mimeType: "application/pdf",
+        data: buildPdf("q 595 0 0 842 0 0 cm /Im1 Do Q", false),
+      },
+      {
+        env: { OCR_SERVICE_URL: "http://ocr.local/extract" },
+        fetchImpl: (async (input: RequestInfo | URL): Promise<Response> => {
+          calls.push(typeof input === "string" ? input : input.toString());
+          return new Response(JSON.stringify({ text: "Titre de propriete\n  Lot 12 " }), {
+            status: 200,
+            headers: { "content-type": "application/json" },
+          });
+        }) as typeof fetch,
+      },
+    );
+
+    expect(calls).toEqual(["http://ocr.local/extract"]);
+    expect(result).toEqual({ text: "Titre de propriete\nLot 12", source: "OCR" });
+  });
+
+  it("ignore les images quand aucun service OCR n'est configure", async () => {
+    const result = await extractFileText(
+      {
+        fileName: "photo.jpg",
+        mimeType: "image/jpeg",
+        data: new Uint8Array([0xff, 0xd8, 0xff]),
+      },
+      { env: {} },
+    );
+
+    expect(result).toEqual({ text: null, source: null });
+  });
+});
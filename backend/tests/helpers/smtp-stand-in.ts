@@ -0,0 +1,59 @@
+type ReceivedMail = { mailFrom: string; rcptTo: string[]; data: string };
+
+// Serveur SMTP minimal: accepte tout et conserve les messages reçus.
+export const startSmtpStandIn = () => {
+  const received: ReceivedMail[] = [];
+  const server = Bun.listen<{ buffer: string; inData: boolean; mail: ReceivedMail }>({
+    hostname: "127.0.0.1",
+    port: 0,
+    socket: {
+      open(socket) {
+        socket.data = { buffer: "", inData: false, mail: { mailFrom: "", rcptTo: [], data: "" } };
+        socket.write("220 stand-in ESMTP\r\n");
+      },
+      data(socket, chunk) {
+        const state = socket.data;
+        state.buffer += chunk.toString();
+        let index = state.buffer.indexOf("\r\n");
+        while (index >= 0) {
+          const line = state.buffer.slice(0, index);
+          state.buffer = state.buffer.slice(index + 2);
+          index = state.buffer.indexOf("\r\n");
+
+          if (state.inData) {
+            if (line === ".") {
+              state.inData = false;
+              received.push(state.mail);
+              state.mail = { mailFrom: "", rcptTo: [], data: "" };
+              socket.write("250 queued\r\n");
+            } else {
+              state.mail.data += `${line.startsWith("..") ? line.slice(1) : line}\r\n`;
+            }
+            continue;
+          }
+
+          const command = line.slice(0, 4).toUpperCase();
+          if (command === "EHLO") {
+            socket.write("250-stand-in\r\n250 8BITMIME\r\n");
+          } else if (command === "MAIL") {
+            state.mail.mailFrom = line.slice(10);
+            socket.write("250 ok\r\n");
+          } else if (command === "RCPT") {
+            state.mail.rcptTo.push(line.slice(8));
+            socket.write("250 ok\r\n");
+          } else if (command === "DATA") {
+            state.inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (command === "QUIT") {
+            socket.write("221 bye\r\n");
+            socket.end();
+          } else {
+            socket.write("500 unknown\r\n");
+          }
+        }
+      },
+    },
+  });
+
+  return { server, received };
+};
@@ -0,0 +1,333 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { resolveAIProviderKindForOrg } from "../src/ai/factory";
+import { LocalLLMProvider } from "../src/ai/local-llm-provider";
+import { assistantWebSearchProvider } from "../src/assistant/web-search";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import {
+  getGlobalProviderSettings,
+  normalizeGlobalAIProvider,
+  updateGlobalProviderSettings,
+} from "../src/config/provider-settings";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { aiCallLogs, users } from "../src/db/schema";
+import { createApp } from "../src/server";
+
+type ChatCompletionRequest = Record<string, unknown> & {
+  model?: string;
+  messages?: Array<Record<string, unknown>>;
+  response_format?: { type: string };
+};
+
+const requests: ChatCompletionRequest[] = [];
+let handleCompletion: (body: ChatCompletionRequest) => Response = () =>
+  Response.json({ error: "aucun handler" }, { status: 500 });
+
+const completion = (message: Record<string, unknown>, usage?: Record<string, number>) =>
+  Response.json({
+    id: "chatcmpl-local",
+    object: "chat.completion",
+    choices: [{ index: 0, message: { role: "assistant", ...message }, finish_reason: "stop" }],
+    ...(usage ? { usage } : {}),
+  });
+
+// Serveur HTTP qui imite /v1/chat/completions d'Ollama, vLLM ou LM Studio.
+const stubServer = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    if (new URL(request.url).pathname !== "/v1/chat/completions") {
+      return new Response("not found", { status: 404 });
+    }
+
+    const body = (await request.json()) as ChatCompletionRequest;
+    requests.push(body);
+    return handleCompletion(body);
+  },
+});
+
+const stubBaseUrl = `http://127.0.0.1:${stubServer.port}/v1`;
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ email: DEMO_AUTH_EMAIL, password: DEMO_AUTH_PASSWORD }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+describe("LocalLLMProvider", () => {
+  beforeAll(() => {
+    runMigrations();
+  });
+
+  afterAll(() => {
+    stubServer.stop(true);
+  });
+
+  it("retombe sur json_object puis sur le prompt seul quand la sortie structurée est refusée", async () => {
+    requests.length = 0;
+    handleCompletion = (body) => {
+      if (body.response_format?.type === "json_schema") {
+        return Response.json({ error: "response_format json_schema non supporté" }, { status: 400 });
+      }
+
+      return completion(
+        { content: '{"insights":{"budget":280000,"nextAction":null},"confidence":0.8}' },
+        { prompt_tokens: 320, completion_tokens: 24, total_tokens: 344 },
+      );
+    };
+    const provider = new LocalLLMProvider({
+      baseUrl: `${stubBaseUrl}/`,
+      model: "llama3.1",
+      modelsByUseCase: { VOCAL_INSIGHTS_EXTRACTION: "qwen2.5:14b" },
+    });
+
+    const insights = await provider.extractVocalInsights({
+      transcript: "Le client a un budget de 280 000 euros.",
+      responseSchema: {
+        name: "vocal_insights",
+        schema: { type: "object", properties: { insights: { type: "object" } } },
+      },
+    });
+
+    expect(requests.map((request) => [request.model, request.response_format?.type])).toEqual([
+      ["qwen2.5:14b", "json_schema"],
+      ["qwen2.5:14b", "json_object"],
+    ]);
+    expect(insights).toMatchObject({
+      insights: { budget: 280000, nextAction: null },
+      confidence: 0.8,
+      telemetry: {
+        provider: "local",
+        model: "qwen2.5:14b",
+        price: 0,
+        inputTokens: 320,
+        outputTokens: 24,
+        totalTokens: 344,
+      },
+    });
+
+    requests.length = 0;
+    handleCompletion = (body) =>
+      body.response_format
+        ? Response.json({ error: "response_format non supporté" }, { status: 422 })
+        : completion({
+            content:
+              'Voici le retour:\n```json\n{"interestLevel":"HIGH","perceivedPrice":"FAIR","positives":["jardin"],"negatives":[],"offerIntention":"MAYBE","confidence":0.7}\n```',
+          });
+
+    const feedback = await provider.extractVisitFeedback({ transcript: "Ils ont adoré le jardin." });
+    expect(requests.map((request) => [request.model, request.response_format?.type ?? null])).toEqual([
+      ["llama3.1", "json_object"],
+      ["llama3.1", null],
+    ]);
+    expect(feedback).toMatchObject({
+      interestLevel: "HIGH",
+      perceivedPrice: "FAIR",
+      positives: ["jardin"],
+      negatives: [],
+      offerIntention: "MAYBE",
+      confidence: 0.7,
+    });
+  });
+
+  it("implémente les autres méthodes et reste sur site pour la transcription", async () => {
+    requests.length = 0;
+    handleCompletion = (body) => {
+      const prompt = String(body.messages?.[0]?.content ?? "");
+      if (prompt.includes("Tu classes un document")) {
+        return completion({
+          content: prompt.includes("dpe.pdf")
+            ? '{"typeDocument":"DPE","confidence":0.85,"reasoning":"Diagnostic de performance énergétique"}'
+            : '{"typeDocument":"FACTURE_EAU","confidence":0.9,"reasoning":"Facture"}',
+        });
+      }
+      if (prompt.includes("Types autorisés")) {
+        return completion({
+          content: '{"vocalType":"VISITE_SUIVI","confidence":0.9,"reasoning":"Deuxième visite"}',
+        });
+      }
+      if (prompt.includes("rattaches un message")) {
+        return completion({
+          content:
+            '{"propertyId":"bien_inconnu","confidence":0.6,"ambiguousPropertyIds":["bien_1","bien_inconnu"],"reasoning":"Adresse proche"}',
+        });
+      }
+
+      return Response.json({ error: "modèle indisponible" }, { status: 500 });
+    };
+    const transcribed: string[] = [];
+    const provider = new LocalLLMProvider({
+      baseUrl: stubBaseUrl,
+      transcriber: {
+        async transcribeVocal(input) {
+          transcribed.push(input.fileName);
+          return { transcript: "Bonjour", summary: "Bonjour", confidence: 0.9 };
+        },
+      },
+    });
+
+    expect(await provider.detectVocalType({ transcript: "Deuxième visite du bien." })).toMatchObject({
+      vocalType: "VISITE_SUIVI",
+      confidence: 0.9,
+      reasoning: "Deuxième visite",
+    });
+
+    const match = await provider.matchMessageToProperty({
+      body: "Je suis intéressé par la maison rue des Lilas.",
+      properties: [{ id: "bien_1", title: "Maison", city: "Lyon", postalCode: "69003" }],
+    });
+    expect(match).toMatchObject({ propertyId: null, ambiguousPropertyIds: ["bien_1"], confidence: 0.6 });
+
+    expect(
+      await provider.classifyFile({ fileName: "dpe.pdf", mimeType: "application/pdf", content: "Classe énergie D" }),
+    ).toMatchObject({ typeDocument: "DPE", confidence: 0.85, telemetry: { provider: "local" } });
+    expect(
+      await provider.classifyFile({ fileName: "facture.pdf", mimeType: "application/pdf", content: null }),
+    ).toMatchObject({ typeDocument: null, confidence: 0.9 });
+
+    // Aucune donnée simulée sur site: l'échec du serveur remonte à l'appelant.
+    await expect(
+      provider.summarizeMessageThread({
+        subject: "Visite",
+        messages: [{ direction: "INBOUND", sentAt: "2026-03-01T10:00:00.000Z", body: "Bonjour" }],
+      }),
+    ).rejects.toThrow("Local LLM chat failed (500)");
+
+    await expect(
+      provider.extractInitialVisitPropertyParams({ transcript: "Visite initiale" }),
+    ).rejects.toThrow("Local LLM chat failed (500)");
+
+    await provider.transcribeVocal({ fileName: "visite.wav", mimeType: "audio/wav", audioData: Buffer.from("x") });
+    expect(transcribed).toEqual(["visite.wav"]);
+  });
+
+  it("ne confond pas une URL ou un modèle introuvable avec une sortie structurée non supportée", async () => {
+    requests.length = 0;
+    handleCompletion = () => Response.json({ error: "model 'absent' not found" }, { status: 404 });
+    const provider = new LocalLLMProvider({ baseUrl: stubBaseUrl, model: "absent" });
+
+    await expect(
+      provider.computePropertyValuation({ prompt: "Appartement 3 pièces, Lyon 3e" }),
+    ).rejects.toThrow("Local LLM chat failed (404)");
+    expect(requests).toHaveLength(1);
+  });
+
+  it("se sélectionne comme provider IA global sans recherche web", async () => {
+    expect(normalizeGlobalAIProvider("Ollama")).toBe("local");
+    expect(await resolveAIProviderKindForOrg("org_demo", { AI_PROVIDER: "local" })).toBe("local");
+
+    const initial = await getGlobalProviderSettings();
+    try {
+      await updateGlobalProviderSettings({ aiProvider: "local" });
+      expect(await resolveAIProviderKindForOrg("org_demo", {})).toBe("local");
+    } finally {
+      await updateGlobalProviderSettings({ aiProvider: initial.aiProvider });
+    }
+
+    const previousProvider = process.env.AI_PROVIDER;
+    process.env.AI_PROVIDER = "local";
+    try {
+      expect(await assistantWebSearchProvider.search({ orgId: "org_demo", query: "taux immobilier" })).toEqual({
+        citations: [],
+        trace: null,
+      });
+    } finally {
+      process.env.AI_PROVIDER = previousProvider;
+    }
+  });
+
+  it("déroule la boucle d'outils de l'assistant via chat/completions", async () => {
+    await runSeed();
+    const token = await loginAndGetAccessToken();
+    const email = `local.${crypto.randomUUID()}@client.test`;
+    const previousEnv = {
+      AI_PROVIDER: process.env.AI_PROVIDER,
+      LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL,
+      LOCAL_LLM_MODEL_ASSISTANT_CHAT: process.env.LOCAL_LLM_MODEL_ASSISTANT_CHAT,
+    };
+    process.env.AI_PROVIDER = "local";
+    process.env.LOCAL_LLM_BASE_URL = stubBaseUrl;
+    process.env.LOCAL_LLM_MODEL_ASSISTANT_CHAT = "llama3.1:70b";
+    requests.length = 0;
+    handleCompletion = (body) => {
+      const toolMessage = body.messages?.find((message) => message.role === "tool");
+      if (!toolMessage) {
+        return completion(
+          {
+            content: null,
+            tool_calls: [
+              {
+                type: "function",
+                function: {
+                  name: "create",
+                  arguments: { objectType: "user", params: { firstName: "Lina", lastName: "Local", email } },
+                },
+              },
+            ],
+          },
+          { prompt_tokens: 900, completion_tokens: 30, total_tokens: 930 },
+        );
+      }
+
+      const output = JSON.parse(String(toolMessage.content)) as { status?: string; summary?: string };
+      return completion({ content: `${output.status}: ${output.summary}` });
+    };
+
+    try {
+      const response = await createApp().fetch(
+        new Request("http://localhost/assistant/messages", {
+          method: "POST",
+          headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+          body: JSON.stringify({ message: "Ajoute la cliente Lina Local" }),
+        }),
+      );
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).assistantMessage.text).toContain("EXECUTED");
+    } finally {
+      for (const [key, value] of Object.entries(previousEnv)) {
+        if (typeof value === "undefined") {
+          delete process.env[key];
+        } else {
+          process.env[key] = value;
+        }
+      }
+    }
+
+    expect(requests).toHaveLength(2);
+    expect(requests[0]).toMatchObject({ model: "llama3.1:70b", tool_choice: "auto" });
+    expect(requests[0]!.messages?.[0]?.role).toBe("system");
+    expect((requests[0]!.tools as Array<{ function: { name: string } }>).map((tool) => tool.function.name)).toEqual([
+      "search",
+      "get",
+      "getParams",
+      "create",
+      "update",
+    ]);
+    expect(requests[1]!.messages?.slice(-2)).toEqual([
+      expect.objectContaining({
+        role: "assistant",
+        tool_calls: [expect.objectContaining({ id: "call_0", type: "function" })],
+      }),
+      expect.objectContaining({ role: "tool", tool_call_id: "call_0" }),
+    ]);
+
+    const created = await db.query.users.findFirst({ where: and(eq(users.orgId, "org_demo"), eq(users.email, email)) });
+    expect(created).toMatchObject({ firstName: "Lina", lastName: "Local" });
+
+    const logs = await db
+      .select()
+      .from(aiCallLogs)
+      .where(and(eq(aiCallLogs.orgId, "org_demo"), eq(aiCallLogs.useCase, "ASSISTANT_CHAT")));
+    const localLog = logs.find((log) => log.prompt.includes("llama3.1:70b") && log.inputTokens === 900);
+    expect(localLog?.price).toBe(0);
+  });
+});
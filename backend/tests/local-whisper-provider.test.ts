@@ -0,0 +1,195 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { resolveTranscriptionProviderKindForOrg } from "../src/ai/factory";
+import { aiJobsService } from "../src/ai/jobs";
+import { LocalWhisperProvider } from "../src/ai/local-whisper-provider";
+import {
+  getGlobalProviderSettings,
+  updateGlobalProviderSettings,
+} from "../src/config/provider-settings";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { aiCallLogs, organizations } from "../src/db/schema";
+import { vocalsService } from "../src/vocals/service";
+
+const orgId = `org_whisper_local_${crypto.randomUUID()}`;
+
+type StubRequest = {
+  path: string;
+  authorization: string | null;
+  form: FormData;
+};
+
+const requests: StubRequest[] = [];
+let nextResponse: Response | null = null;
+
+// Serveur HTTP local qui imite l'endpoint /audio/transcriptions de whisper.cpp ou faster-whisper.
+const stubServer = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    requests.push({
+      path: new URL(request.url).pathname,
+      authorization: request.headers.get("authorization"),
+      form: await request.formData(),
+    });
+
+    const response = nextResponse;
+    nextResponse = null;
+    return (
+      response ??
+      Response.json({
+        text: " Bonjour, voici le séjour. Il donne sur le jardin. ",
+        duration: 95,
+        segments: [
+          { id: 0, start: 0, end: 2.4, text: " Bonjour, voici le séjour.", avg_logprob: -0.2 },
+          { id: 1, start: 2.4, end: 4.1, text: " Il donne sur le jardin.", avg_logprob: -0.3 },
+        ],
+      })
+    );
+  },
+});
+
+const stubBaseUrl = `http://127.0.0.1:${stubServer.port}/v1`;
+
+describe("transcription Whisper locale", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence Hors Ligne", createdAt, updatedAt: createdAt });
+  });
+
+  afterAll(() => {
+    stubServer.stop(true);
+  });
+
+  it("envoie l'audio à l'endpoint compatible OpenAI et lit les segments", async () => {
+    requests.length = 0;
+    const provider = new LocalWhisperProvider({
+      baseUrl: `${stubBaseUrl}/`,
+      model: "Systran/faster-whisper-small",
+      language: "fr",
+    });
+
+    const result = await provider.transcribeVocal({
+      fileName: "visite.wav",
+      mimeType: "audio/wav",
+      audioData: Buffer.from("voice"),
+    });
+
+    expect(requests).toHaveLength(1);
+    const [request] = requests;
+    expect(request!.path).toBe("/v1/audio/transcriptions");
+    expect(request!.authorization).toBeNull();
+    expect(request!.form.get("model")).toBe("Systran/faster-whisper-small");
+    expect(request!.form.get("response_format")).toBe("verbose_json");
+    expect(request!.form.get("timestamp_granularities[]")).toBe("segment");
+    expect(request!.form.get("language")).toBe("fr");
+    const file = request!.form.get("file") as File;
+    expect(file.name).toBe("visite.wav");
+    expect(await file.text()).toBe("voice");
+
+    expect(result.transcript).toBe("Bonjour, voici le séjour. Il donne sur le jardin.");
+    expect(result.segments).toEqual([
+      { startMs: 0, endMs: 2400, text: "Bonjour, voici le séjour.", speaker: null },
+      { startMs: 2400, endMs: 4100, text: "Il donne sur le jardin.", speaker: null },
+    ]);
+    expect(result.telemetry).toMatchObject({
+      provider: "whisper-local",
+      model: "Systran/faster-whisper-small",
+      price: 0,
+    });
+  });
+
+  it("transmet la clé API optionnelle et remonte les erreurs du serveur", async () => {
+    requests.length = 0;
+    nextResponse = new Response("invalid file format", { status: 400 });
+    const provider = new LocalWhisperProvider({ baseUrl: stubBaseUrl, apiKey: "local_key" });
+
+    await expect(
+      provider.transcribeVocal({ fileName: "visite.ogg", mimeType: "audio/ogg", audioData: Buffer.from("x") }),
+    ).rejects.toThrow("Local Whisper transcription failed (400): invalid file format");
+    expect(requests[0]?.authorization).toBe("Bearer local_key");
+    expect(requests[0]?.form.get("model")).toBe("whisper-1");
+    expect(requests[0]?.form.has("language")).toBe(false);
+  });
+
+  it("se choisit dans les paramètres globaux indépendamment du provider IA", async () => {
+    const initial = await getGlobalProviderSettings();
+    expect(initial.transcriptionProvider).toBe("ai-provider");
+
+    try {
+      const updated = await updateGlobalProviderSettings({ transcriptionProvider: "whisper-local" });
+      expect(updated).toMatchObject({ aiProvider: initial.aiProvider, transcriptionProvider: "whisper-local" });
+
+      expect(await resolveTranscriptionProviderKindForOrg(orgId, {})).toBe("whisper-local");
+      expect(await resolveTranscriptionProviderKindForOrg(orgId, { AI_PROVIDER: "anthropic" })).toBe(
+        "whisper-local",
+      );
+      expect(await resolveTranscriptionProviderKindForOrg(orgId, { AI_PROVIDER: "mock" })).toBe("ai-provider");
+      expect(
+        await resolveTranscriptionProviderKindForOrg(orgId, {
+          AI_PROVIDER: "mock",
+          TRANSCRIPTION_PROVIDER: "whisper-local",
+        }),
+      ).toBe("whisper-local");
+
+      await updateGlobalProviderSettings({ aiProvider: initial.aiProvider });
+      expect((await getGlobalProviderSettings()).transcriptionProvider).toBe("whisper-local");
+    } finally {
+      await updateGlobalProviderSettings({ transcriptionProvider: "ai-provider" });
+    }
+
+    expect(await resolveTranscriptionProviderKindForOrg(orgId, {})).toBe("ai-provider");
+  });
+
+  it("transcrit un vocal via le serveur local sans coût dans les logs IA", async () => {
+    const previousEnv = {
+      TRANSCRIPTION_PROVIDER: process.env.TRANSCRIPTION_PROVIDER,
+      LOCAL_WHISPER_BASE_URL: process.env.LOCAL_WHISPER_BASE_URL,
+    };
+    process.env.TRANSCRIPTION_PROVIDER = "whisper-local";
+    process.env.LOCAL_WHISPER_BASE_URL = stubBaseUrl;
+    requests.length = 0;
+
+    try {
+      const vocal = await vocalsService.upload({
+        orgId,
+        fileName: "visite-locale.m4a",
+        mimeType: "audio/mp4",
+        size: 5,
+        contentBase64: Buffer.from("voice").toString("base64"),
+      });
+
+      const result = await aiJobsService.transcribeVocal({ orgId, vocalId: vocal.id });
+      expect(result.status).toBe("REVIEW_REQUIRED");
+      expect(requests.map((request) => request.path)).toEqual(["/v1/audio/transcriptions"]);
+
+      const transcribed = await vocalsService.getById({ orgId, id: vocal.id });
+      expect(transcribed.transcript).toBe("Bonjour, voici le séjour. Il donne sur le jardin.");
+      expect(transcribed.segments).toEqual([
+        { startMs: 0, endMs: 2400, speaker: "UNKNOWN", text: "Bonjour, voici le séjour." },
+        { startMs: 2400, endMs: 4100, speaker: "UNKNOWN", text: "Il donne sur le jardin." },
+      ]);
+
+      const logs = await db
+        .select()
+        .from(aiCallLogs)
+        .where(and(eq(aiCallLogs.orgId, orgId), eq(aiCallLogs.useCase, "VOCAL_TRANSCRIPTION")));
+      expect(logs).toHaveLength(1);
+      expect(logs[0]!.price).toBe(0);
+      expect(logs[0]!.prompt).toContain("Transcription audio Whisper local");
+    } finally {
+      for (const [key, value] of Object.entries(previousEnv)) {
+        if (typeof value === "undefined") {
+          delete process.env[key];
+        } else {
+          process.env[key] = value;
+        }
+      }
+    }
+  });
+});
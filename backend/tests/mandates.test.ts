@@ -0,0 +1,196 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import {
+  organizations,
+  properties,
+  propertyTimelineEvents,
+  reviewQueueItems,
+} from "../src/db/schema";
+import { mandatesService } from "../src/mandates/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const createPropertyWithMandate = async (input: {
+  orgId: string;
+  title: string;
+  mandateStartDate: string;
+  mandateEndDate: string;
+  status?: string;
+}) => {
+  const created = await propertiesService.create({
+    orgId: input.orgId,
+    title: input.title,
+    city: "Bordeaux",
+    postalCode: "33000",
+    address: "12 cours de l'Intendance",
+    details: {
+      marketing: {
+        mandateType: "EXCLUSIF",
+        mandateStartDate: input.mandateStartDate,
+        mandateEndDate: input.mandateEndDate,
+      },
+    },
+  });
+
+  if (input.status) {
+    await db.update(properties).set({ status: input.status }).where(eq(properties.id, created.id));
+  }
+
+  return created;
+};
+
+const orgId = `org_mandates_${crypto.randomUUID()}`;
+
+describe("mandates", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const now = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Organisation mandats", createdAt: now, updatedAt: now });
+  });
+
+  it("numerote le registre par organisation a la signature du mandat", async () => {
+    const first = await createPropertyWithMandate({
+      orgId,
+      title: "Mandat 1",
+      mandateStartDate: "2026-01-05",
+      mandateEndDate: "2026-04-05",
+    });
+    const second = await createPropertyWithMandate({
+      orgId,
+      title: "Mandat 2",
+      mandateStartDate: "2026-01-10",
+      mandateEndDate: "2026-04-10",
+    });
+
+    await propertiesService.updateStatus({ orgId, id: first.id, status: "MANDAT_SIGNE" });
+    await propertiesService.updateStatus({ orgId, id: second.id, status: "MANDAT_SIGNE" });
+    const again = await mandatesService.register({ orgId, propertyId: first.id });
+
+    const register = await mandatesService.listRegister({ orgId });
+    expect(register.items.map((item) => [item.registerNumber, item.propertyId])).toEqual([
+      [1, first.id],
+      [2, second.id],
+    ]);
+    expect(again.registerNumber).toBe(1);
+    expect(register.items[0]).toMatchObject({
+      mandateType: "EXCLUSIF",
+      startDate: "2026-01-05",
+      endDate: "2026-04-05",
+      propertyAddress: "12 cours de l'Intendance, 33000 Bordeaux",
+    });
+
+    const statusEvent = await db.query.propertyTimelineEvents.findFirst({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, second.id),
+        eq(propertyTimelineEvents.eventType, "PROPERTY_STATUS_CHANGED"),
+      ),
+    });
+    expect(JSON.parse(statusEvent!.payload).mandateRegisterNumber).toBe(2);
+
+    const csv = await mandatesService.exportRegisterCsv({ orgId });
+    const [header, firstRow] = csv.replace("\ufeff", "").split("\r\n");
+    expect(header).toBe("Numéro;Date d'inscription;Type de mandat;Début;Fin;Mandants;Adresse du bien");
+    expect(firstRow).toContain("1;");
+    expect(firstRow).toContain(";Exclusif;05/01/2026;05/04/2026;;12 cours de l'Intendance, 33000 Bordeaux");
+  });
+
+  it("exporte le registre en CSV et en PDF", async () => {
+    const token = await loginAndGetAccessToken();
+
+    const csvResponse = await createApp().fetch(
+      new Request("http://localhost/mandates/register/export?format=csv", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(csvResponse.status).toBe(200);
+    expect(csvResponse.headers.get("content-type")).toContain("text/csv");
+
+    const pdfResponse = await createApp().fetch(
+      new Request("http://localhost/mandates/register/export?format=pdf", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(pdfResponse.status).toBe(200);
+    expect(pdfResponse.headers.get("content-type")).toBe("application/pdf");
+    const pdf = new TextDecoder().decode(await pdfResponse.arrayBuffer());
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("(Registre des mandats) Tj");
+
+    const invalidResponse = await createApp().fetch(
+      new Request("http://localhost/mandates/register/export?format=xlsx", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(invalidResponse.status).toBe(400);
+  });
+
+  it("alerte avant la fin du mandat et trace l'expiration d'un bien en diffusion", async () => {
+    const expiring = await createPropertyWithMandate({
+      orgId,
+      title: "Mandat bientot expire",
+      mandateStartDate: "2026-03-01",
+      mandateEndDate: "2026-06-10",
+    });
+    const expired = await createPropertyWithMandate({
+      orgId,
+      title: "Mandat expire",
+      mandateStartDate: "2026-01-01",
+      mandateEndDate: "2026-05-20",
+      status: "EN_DIFFUSION",
+    });
+
+    const now = new Date("2026-05-31T08:00:00.000Z");
+    await mandatesService.runExpiryChecks({ now });
+    await mandatesService.runExpiryChecks({ now });
+
+    const alerts = await db.query.reviewQueueItems.findMany({
+      where: and(eq(reviewQueueItems.itemType, "PROPERTY"), eq(reviewQueueItems.itemId, expiring.id)),
+    });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]!.reason).toBe("MANDATE_EXPIRES_IN_15_DAYS");
+    expect(JSON.parse(alerts[0]!.payload!)).toMatchObject({ daysRemaining: 10, thresholdDays: 15 });
+
+    await mandatesService.runExpiryChecks({ now: new Date("2026-06-04T08:00:00.000Z") });
+    const reasons = (
+      await db.query.reviewQueueItems.findMany({
+        where: eq(reviewQueueItems.itemId, expiring.id),
+      })
+    ).map((item) => item.reason);
+    expect(reasons.sort()).toEqual(["MANDATE_EXPIRES_IN_15_DAYS", "MANDATE_EXPIRES_IN_7_DAYS"]);
+
+    const expiredEvents = await db.query.propertyTimelineEvents.findMany({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, expired.id),
+        eq(propertyTimelineEvents.eventType, "MANDATE_EXPIRED"),
+      ),
+    });
+    expect(expiredEvents).toHaveLength(1);
+    expect(JSON.parse(expiredEvents[0]!.payload)).toEqual({
+      mandateEndDate: "2026-05-20",
+      status: "EN_DIFFUSION",
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { businessLinks, organizations, reviewQueueItems, users } from "../src/db/schema";
+import { linksService } from "../src/links/service";
+import { messagesService } from "../src/messages/service";
+import { createApp } from "../src/server";
+import { normalizeFrenchPhone } from "../src/users/phone";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_contacts_${crypto.randomUUID()}`;
+
+const messageLinks = (messageId: string) =>
+  db
+    .select()
+    .from(businessLinks)
+    .where(and(eq(businessLinks.typeLien, "message_user"), eq(businessLinks.objectId1, messageId)));
+
+const unknownSenderItems = (messageId: string) =>
+  db
+    .select()
+    .from(reviewQueueItems)
+    .where(
+      and(eq(reviewQueueItems.itemId, messageId), eq(reviewQueueItems.reason, "MESSAGE_UNKNOWN_SENDER")),
+    );
+
+describe("message contacts", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Contacts", createdAt, updatedAt: createdAt });
+  });
+
+  it("normalise les formats de téléphone français", () => {
+    expect(normalizeFrenchPhone("06 12 34 56 78")).toBe("+33612345678");
+    expect(normalizeFrenchPhone("06.12.34.56.78")).toBe("+33612345678");
+    expect(normalizeFrenchPhone("+33 (0)6 12 34 56 78")).toBe("+33612345678");
+    expect(normalizeFrenchPhone("0033 6 12 34 56 78")).toBe("+33612345678");
+    expect(normalizeFrenchPhone("33612345678")).toBe("+33612345678");
+    expect(normalizeFrenchPhone("+32 470 12 34 56")).toBe("+32470123456");
+    expect(normalizeFrenchPhone("12 34")).toBeNull();
+  });
+
+  it("rattache expéditeur et copies aux contacts existants, téléphones compris", async () => {
+    const suffix = String(Date.now()).slice(-6);
+    const seller = await usersService.create({
+      orgId,
+      data: { firstName: "Paul", lastName: "Vendeur", phone: `06 71 ${suffix.slice(0, 2)} ${suffix.slice(2, 4)} ${suffix.slice(4)}`, accountType: "CLIENT" },
+    });
+    const notaryEmail = `notaire.${crypto.randomUUID()}@etude.test`;
+    const notary = await usersService.create({
+      orgId,
+      data: { firstName: "Anne", lastName: "Notaire", email: notaryEmail, accountType: "CLIENT" },
+    });
+
+    const whatsapp = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "WHATSAPP",
+      sourceProvider: "WHATSAPP",
+      externalId: `wa_${crypto.randomUUID()}`,
+      body: "Je confirme la signature.",
+      receivedAt: new Date("2026-03-05T09:00:00.000Z"),
+      from: `+33671${suffix}`,
+    });
+    expect((await messageLinks(whatsapp.id)).map((link) => [link.objectId2, JSON.parse(link.params)])).toEqual([
+      [seller.id, { messageRole: "FROM" }],
+    ]);
+
+    const email = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "GMAIL",
+      sourceProvider: "GMAIL",
+      externalId: `gmail_${crypto.randomUUID()}`,
+      subject: "Compromis",
+      body: "Voici le projet de compromis.",
+      receivedAt: new Date("2026-03-05T10:00:00.000Z"),
+      from: `Anne Notaire <${notaryEmail.toUpperCase()}>`,
+      to: ["agence@agence.test"],
+      cc: [`+33 6 71 ${suffix.slice(0, 2)} ${suffix.slice(2, 4)} ${suffix.slice(4)}`],
+    });
+    const links = await messageLinks(email.id);
+    expect(links.map((link) => [link.objectId2, JSON.parse(link.params).messageRole]).sort()).toEqual(
+      [
+        [notary.id, "FROM"],
+        [seller.id, "CC"],
+      ].sort(),
+    );
+    expect(await unknownSenderItems(email.id)).toHaveLength(0);
+
+    const sellerMessages = await messagesService.list({ orgId, limit: 10, userId: seller.id });
+    expect(sellerMessages.items.map((item) => item.id)).toEqual([email.id, whatsapp.id]);
+
+    const related = await linksService.getRelated({ orgId, objectType: "user", objectId: seller.id });
+    expect(related.grouped.message.map((item) => (item as { id: string }).id).sort()).toEqual(
+      [email.id, whatsapp.id].sort(),
+    );
+  });
+
+  it("crée un contact CLIENT pour un expéditeur inconnu qui se présente", async () => {
+    const address = `jeanne.${crypto.randomUUID()}@client.test`;
+    const message = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "GMAIL",
+      sourceProvider: "GMAIL",
+      externalId: `gmail_${crypto.randomUUID()}`,
+      subject: "Estimation",
+      body: "Pouvez-vous estimer mon appartement ?",
+      receivedAt: new Date("2026-03-06T09:00:00.000Z"),
+      from: `"Jeanne De La Tour" <${address}>`,
+    });
+
+    const created = await db.query.users.findFirst({ where: eq(users.email, address) });
+    expect(created).toMatchObject({
+      orgId,
+      firstName: "Jeanne",
+      lastName: "De La Tour",
+      accountType: "CLIENT",
+    });
+    expect((await messageLinks(message.id)).map((link) => link.objectId2)).toEqual([created?.id ?? ""]);
+    expect(await unknownSenderItems(message.id)).toHaveLength(0);
+  });
+
+  it("propose un expéditeur anonyme en revue puis le rattache via l'API", async () => {
+    const address = `anonyme.${crypto.randomUUID()}@client.test`;
+    const externalId = `gmail_${crypto.randomUUID()}`;
+    const importMessage = () =>
+      messagesService.upsertImportedMessage({
+        orgId: "org_demo",
+        channel: "GMAIL",
+        sourceProvider: "GMAIL",
+        externalId,
+        subject: "Disponibilité",
+        body: "Le bien est-il toujours disponible ?",
+        receivedAt: new Date(),
+        from: address,
+      });
+
+    const message = await importMessage();
+    await importMessage();
+
+    const proposed = await unknownSenderItems(message.id);
+    expect(proposed).toHaveLength(1);
+    expect(proposed[0]).toMatchObject({ orgId: "org_demo", itemType: "MESSAGE", status: "OPEN" });
+    expect(JSON.parse(proposed[0]?.payload ?? "{}")).toEqual({ address, displayName: null });
+    expect(await messageLinks(message.id)).toHaveLength(0);
+
+    const token = await loginAndGetAccessToken();
+    const response = await createApp().fetch(
+      new Request(`http://localhost/messages/${message.id}/sender-contact`, {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify({ firstName: "Léa", lastName: "Acquéreuse" }),
+      }),
+    );
+    expect(response.status).toBe(200);
+    const payload = await response.json();
+    expect(payload).toMatchObject({ messageId: message.id, created: true });
+
+    const contact = await usersService.getById({ orgId: "org_demo", id: payload.userId });
+    expect(contact).toMatchObject({ email: address, firstName: "Léa", lastName: "Acquéreuse", accountType: "CLIENT" });
+    expect((await messageLinks(message.id)).map((link) => link.objectId2)).toEqual([payload.userId]);
+    expect((await unknownSenderItems(message.id)).map((item) => [item.status, item.resolution])).toEqual([
+      ["RESOLVED", "CONTACT_CREATED"],
+    ]);
+
+    const missingResponse = await createApp().fetch(
+      new Request("http://localhost/messages/message-inconnu/sender-contact", {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+        body: JSON.stringify({}),
+      }),
+    );
+    expect(missingResponse.status).toBe(404);
+  });
+});
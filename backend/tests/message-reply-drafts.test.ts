@@ -0,0 +1,167 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { aiCallLogs, organizations } from "../src/db/schema";
+import { messageDraftsService } from "../src/message-drafts/service";
+import { messagesService } from "../src/messages/service";
+import { propertiesService } from "../src/properties/service";
+import { listFreeVisitSlots } from "../src/properties/visit-slots";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_drafts_${crypto.randomUUID()}`;
+
+describe("message reply drafts", () => {
+  let propertyId = "";
+  let buyerEmail = "";
+  let buyerId = "";
+
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Brouillons", createdAt, updatedAt: createdAt });
+
+    buyerEmail = `lucas.${crypto.randomUUID()}@client.test`;
+    const buyer = await usersService.create({
+      orgId,
+      data: { firstName: "Lucas", lastName: "Acquereur", email: buyerEmail, accountType: "CLIENT" },
+    });
+    buyerId = buyer.id;
+
+    const property = await propertiesService.create({
+      orgId,
+      title: "Appartement Croix-Rousse",
+      city: "Lyon",
+      postalCode: "69004",
+      address: "8 rue d'Austerlitz",
+      details: {
+        characteristics: { livingArea: 65, rooms: 3 },
+        regulation: { dpeClass: "C" },
+        finance: { availability: "immédiatement" },
+      },
+    });
+    propertyId = property.id;
+    await propertiesService.patchById({ orgId, id: propertyId, data: { price: 320000 } });
+  });
+
+  it("propose des créneaux ouvrés hors visites planifiées", async () => {
+    // Lundi 2 mars 2026 à 9h heure de Paris, déjà occupé.
+    await propertiesService.addVisit({
+      orgId,
+      propertyId,
+      prospectUserId: buyerId,
+      startsAt: "2026-03-02T08:00:00.000Z",
+      endsAt: "2026-03-02T09:00:00.000Z",
+    });
+
+    const slots = await listFreeVisitSlots({
+      orgId,
+      propertyId,
+      from: new Date("2026-03-01T12:00:00.000Z"),
+      limit: 3,
+    });
+    expect(slots).toEqual([
+      { startsAt: "2026-03-02T09:00:00.000Z", endsAt: "2026-03-02T10:00:00.000Z", agentUserId: null },
+      { startsAt: "2026-03-02T09:30:00.000Z", endsAt: "2026-03-02T10:30:00.000Z", agentUserId: null },
+      { startsAt: "2026-03-02T10:00:00.000Z", endsAt: "2026-03-02T11:00:00.000Z", agentUserId: null },
+    ]);
+  });
+
+  it("rédige une réponse avec la fiche du bien et journalise l'appel IA", async () => {
+    const message = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "GMAIL",
+      sourceProvider: "GMAIL",
+      externalId: `gmail_${crypto.randomUUID()}`,
+      subject: "Appartement Croix-Rousse",
+      body: "Bonjour, l'appartement est-il toujours disponible ? Je souhaiterais le visiter.",
+      receivedAt: new Date("2026-03-05T09:00:00.000Z"),
+      from: `Lucas Acquereur <${buyerEmail}>`,
+    });
+    await messagesService.patchById({ orgId, id: message.id, propertyId });
+
+    const draft = await messageDraftsService.suggestReply({ orgId, messageId: message.id });
+    expect(draft).toMatchObject({
+      messageId: message.id,
+      propertyId,
+      channel: "GMAIL",
+      subject: "Re: Appartement Croix-Rousse",
+    });
+    expect(draft.visitSlots).toHaveLength(5);
+    expect(draft.body).toStartWith("Bonjour Lucas Acquereur,");
+    expect(draft.body).toContain("« Appartement Croix-Rousse » à Lyon");
+    expect(draft.body).toContain("65 m², 3 pièce(s), DPE C, disponible immédiatement");
+    expect(draft.body).toContain("Je peux vous proposer une visite");
+
+    const logs = await db.query.aiCallLogs.findMany({
+      where: and(eq(aiCallLogs.orgId, orgId), eq(aiCallLogs.useCase, "MESSAGE_REPLY_DRAFT")),
+    });
+    expect(logs).toHaveLength(1);
+  });
+
+  it("refuse les messages sortants ou sans bien", async () => {
+    const unmatched = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "WHATSAPP",
+      sourceProvider: "WHATSAPP",
+      externalId: `wa_${crypto.randomUUID()}`,
+      body: "Bonjour, vous avez des biens à vendre ?",
+      receivedAt: new Date("2026-03-05T10:00:00.000Z"),
+      from: "+33 6 98 76 54 32",
+    });
+    await expect(messageDraftsService.suggestReply({ orgId, messageId: unmatched.id })).rejects.toMatchObject({
+      status: 400,
+      code: "MESSAGE_PROPERTY_REQUIRED",
+    });
+
+    const outbound = await messagesService.recordOutboundMessage({
+      orgId,
+      propertyId,
+      channel: "EMAIL",
+      sourceProvider: "smtp-server",
+      externalId: `sent_${crypto.randomUUID()}`,
+      subject: "Visite",
+      body: "Je vous confirme la visite.",
+      sentAt: new Date("2026-03-05T11:00:00.000Z"),
+      fromAddress: "agence@agence.test",
+      toAddresses: [buyerEmail],
+    });
+    await expect(messageDraftsService.suggestReply({ orgId, messageId: outbound.id })).rejects.toMatchObject({
+      status: 400,
+      code: "MESSAGE_REPLY_DRAFT_UNSUPPORTED",
+    });
+  });
+
+  it("expose la suggestion via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const response = await createApp().fetch(
+      new Request("http://localhost/messages/message-inconnu/suggest-reply", {
+        method: "POST",
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(response.status).toBe(404);
+  });
+});
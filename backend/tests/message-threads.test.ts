@@ -0,0 +1,263 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { aiJobsService } from "../src/ai/jobs";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { aiCallLogs, messages, organizations } from "../src/db/schema";
+import { integrationsService } from "../src/integrations/service";
+import { messageThreadsService } from "../src/message-threads/service";
+import { messagesService } from "../src/messages/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_threads_${crypto.randomUUID()}`;
+
+const importEmail = (input: {
+  subject: string;
+  body: string;
+  from: string;
+  receivedAt: string;
+  threadId?: string;
+  messageIdHeader?: string;
+  references?: string[];
+}) =>
+  messagesService.upsertImportedMessage({
+    orgId,
+    channel: "GMAIL",
+    sourceProvider: "GMAIL",
+    externalId: `gmail_${crypto.randomUUID()}`,
+    subject: input.subject,
+    body: input.body,
+    receivedAt: new Date(input.receivedAt),
+    from: input.from,
+    threadId: input.threadId,
+    messageIdHeader: input.messageIdHeader,
+    references: input.references,
+  });
+
+const threadIdOf = async (messageId: string) =>
+  (await db.query.messages.findFirst({ where: eq(messages.id, messageId) }))?.threadId ?? "";
+
+describe("message threads", () => {
+  let propertyId = "";
+  let clientEmail = "";
+  let clientId = "";
+
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Conversations", createdAt, updatedAt: createdAt });
+
+    clientEmail = `lucie.${crypto.randomUUID()}@client.test`;
+    const client = await usersService.create({
+      orgId,
+      data: { firstName: "Lucie", lastName: "Vendeuse", email: clientEmail, accountType: "CLIENT" },
+    });
+    clientId = client.id;
+
+    const property = await propertiesService.create({
+      orgId,
+      title: "Maison Part-Dieu",
+      city: "Lyon",
+      postalCode: "69003",
+      address: "12 rue Garibaldi",
+    });
+    propertyId = property.id;
+  });
+
+  it("regroupe par fil fournisseur puis par reponse et rattache les contacts", async () => {
+    const first = await importEmail({
+      subject: "Estimation maison",
+      body: "Pouvez-vous estimer ma maison ?",
+      from: `Lucie Vendeuse <${clientEmail.toUpperCase()}>`,
+      receivedAt: "2026-03-02T09:00:00.000Z",
+      threadId: "thread-estimation",
+      messageIdHeader: "estimation-1@client.test",
+    });
+    const sameProviderThread = await importEmail({
+      subject: "Re: Estimation maison",
+      body: "Je vous joins les plans.",
+      from: clientEmail,
+      receivedAt: "2026-03-02T10:00:00.000Z",
+      threadId: "thread-estimation",
+    });
+    const outbound = await messagesService.recordOutboundMessage({
+      orgId,
+      propertyId: null,
+      channel: "EMAIL",
+      sourceProvider: "smtp-server",
+      externalId: `sent_${crypto.randomUUID()}`,
+      subject: "Re: Estimation maison",
+      body: "Je passe jeudi.",
+      sentAt: new Date("2026-03-02T11:00:00.000Z"),
+      fromAddress: "agence@agence.test",
+      toAddresses: [clientEmail],
+      messageIdHeader: "reponse-1@agence.test",
+      inReplyTo: "estimation-1@client.test",
+      references: ["estimation-1@client.test"],
+    });
+    const unrelated = await importEmail({
+      subject: "Autre sujet",
+      body: "Rien à voir.",
+      from: "inconnu@ailleurs.test",
+      receivedAt: "2026-03-01T08:00:00.000Z",
+    });
+
+    const threadId = await threadIdOf(first.id);
+    expect(threadId).not.toBe("");
+    expect(await threadIdOf(sameProviderThread.id)).toBe(threadId);
+    expect(await threadIdOf(outbound.id)).toBe(threadId);
+    expect(await threadIdOf(unrelated.id)).not.toBe(threadId);
+
+    const thread = await messageThreadsService.getById({ orgId, id: threadId });
+    expect(thread).toMatchObject({
+      channel: "GMAIL",
+      subject: "Estimation maison",
+      participants: [clientEmail],
+      messageCount: 3,
+      lastActivityAt: "2026-03-02T11:00:00.000Z",
+      lastMessage: { id: outbound.id, direction: "OUTBOUND" },
+    });
+    expect(thread.users.map((user) => user.userId)).toEqual([clientId]);
+
+    const listed = await messageThreadsService.list({ orgId, limit: 10 });
+    expect(listed.items.map((item) => item.id)).toEqual([threadId, await threadIdOf(unrelated.id)]);
+    expect((await messageThreadsService.list({ orgId, limit: 10, userId: clientId })).items).toHaveLength(1);
+
+    const threadMessages = await messagesService.list({ orgId, limit: 10, threadId: threadId });
+    expect(threadMessages.items.map((item) => item.id)).toEqual([outbound.id, sameProviderThread.id, first.id]);
+  });
+
+  it("regroupe les messages sans fil par participants et rattache le bien", async () => {
+    const phone = `+3361${String(Date.now()).slice(-7)}`;
+    const whatsappClient = await usersService.create({
+      orgId,
+      data: { firstName: "Marc", lastName: "Acquereur", phone, accountType: "CLIENT" },
+    });
+
+    const firstChat = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "WHATSAPP",
+      sourceProvider: "WHATSAPP",
+      externalId: `wa_${crypto.randomUUID()}`,
+      body: "Bonjour, la maison est-elle disponible ?",
+      receivedAt: new Date("2026-03-03T09:00:00.000Z"),
+      from: phone,
+    });
+    const secondChat = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "WHATSAPP",
+      sourceProvider: "WHATSAPP",
+      externalId: `wa_${crypto.randomUUID()}`,
+      body: "Je peux visiter samedi.",
+      receivedAt: new Date("2026-03-03T09:05:00.000Z"),
+      from: phone,
+    });
+
+    const threadId = await threadIdOf(firstChat.id);
+    expect(await threadIdOf(secondChat.id)).toBe(threadId);
+
+    await messagesService.patchById({ orgId, id: secondChat.id, propertyId });
+    const thread = await messageThreadsService.getById({ orgId, id: threadId });
+    expect(thread.propertyId).toBe(propertyId);
+    expect(thread.users.map((user) => user.userId)).toEqual([whatsappClient.id]);
+
+    const byProperty = await messageThreadsService.list({ orgId, limit: 10, propertyId });
+    expect(byProperty.items.map((item) => item.id)).toEqual([threadId]);
+  });
+
+  it("resume le fil apres le traitement IA du message", async () => {
+    const message = await importEmail({
+      subject: "Visite Part-Dieu",
+      body: "Bonjour, je confirme la visite de samedi à 10h.",
+      from: "visiteur@client.test",
+      receivedAt: "2026-03-04T09:00:00.000Z",
+    });
+
+    await aiJobsService.processMessage({ orgId, messageId: message.id });
+
+    const thread = await messageThreadsService.getById({ orgId, id: await threadIdOf(message.id) });
+    expect(thread.summary).toContain("1 message(s) échangé(s) sur « Visite Part-Dieu »");
+    expect(thread.summary).toContain("je confirme la visite de samedi");
+    expect(thread.summaryUpdatedAt).not.toBeNull();
+
+    const logs = await db.query.aiCallLogs.findMany({
+      where: and(eq(aiCallLogs.orgId, orgId), eq(aiCallLogs.useCase, "MESSAGE_THREAD_SUMMARY")),
+    });
+    expect(logs.length).toBeGreaterThan(0);
+  });
+
+  it("rattache les messages Gmail synchronises a leur fil", async () => {
+    const syncOrgId = `org_threads_sync_${crypto.randomUUID()}`;
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: syncOrgId, name: "Agence synchronisée", createdAt, updatedAt: createdAt });
+    await integrationsService.connect({ orgId: syncOrgId, provider: "GMAIL" });
+    await integrationsService.sync({ orgId: syncOrgId, provider: "GMAIL" });
+    await integrationsService.sync({ orgId: syncOrgId, provider: "GMAIL" });
+
+    const threads = await messageThreadsService.list({ orgId: syncOrgId, limit: 10 });
+    expect(threads.items.map((thread) => [thread.subject, thread.messageCount])).toEqual([
+      ["Appartement Lyon 69003", 2],
+      ["Question mandat", 1],
+    ]);
+  });
+
+  it("expose les conversations via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}` };
+
+    const listResponse = await createApp().fetch(
+      new Request("http://localhost/message-threads?limit=5", { headers }),
+    );
+    expect(listResponse.status).toBe(200);
+    const list = await listResponse.json();
+    expect(Array.isArray(list.items)).toBe(true);
+
+    const demoMessage = await messagesService.upsertImportedMessage({
+      orgId: "org_demo",
+      channel: "GMAIL",
+      sourceProvider: "GMAIL",
+      externalId: `api_thread_${crypto.randomUUID()}`,
+      subject: "Question API",
+      body: "Disponible demain ?",
+      receivedAt: new Date(),
+      from: `api.${crypto.randomUUID()}@client.test`,
+    });
+    const threadId = await threadIdOf(demoMessage.id);
+
+    const summarizeResponse = await createApp().fetch(
+      new Request(`http://localhost/message-threads/${threadId}/summarize`, { method: "POST", headers }),
+    );
+    expect(summarizeResponse.status).toBe(200);
+    expect((await summarizeResponse.json()).summary).toContain("Question API");
+
+    const missingResponse = await createApp().fetch(
+      new Request("http://localhost/message-threads/fil-inconnu", { headers }),
+    );
+    expect(missingResponse.status).toBe(404);
+  });
+});
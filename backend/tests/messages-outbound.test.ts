@@ -0,0 +1,297 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { updateGlobalProviderSettings } from "../src/config/provider-settings";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { messageFileLinks, messages, organizations } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { integrationsService } from "../src/integrations/service";
+import { messagesService } from "../src/messages/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { startSmtpStandIn } from "./helpers/smtp-stand-in";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_outbound_${crypto.randomUUID()}`;
+const smtpEnvKeys = ["SMTP_HOST", "SMTP_PORT", "SMTP_FROM"] as const;
+const previousEnv = Object.fromEntries(smtpEnvKeys.map((key) => [key, process.env[key]]));
+
+describe("messages sortants", () => {
+  const smtp = startSmtpStandIn();
+  let propertyId = "";
+  let otherPropertyId = "";
+  let mandateId = "";
+  let inboundId = "";
+
+  beforeAll(async () => {
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtp.server.port);
+    process.env.SMTP_FROM = "Agence Test <contact@agence.test>";
+
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Envois", createdAt, updatedAt: createdAt });
+
+    const property = await propertiesService.create({
+      orgId,
+      title: "Appartement Bellecour",
+      city: "Lyon",
+      postalCode: "69002",
+      address: "1 place Bellecour",
+    });
+    propertyId = property.id;
+    const otherProperty = await propertiesService.create({
+      orgId,
+      title: "Studio Croix-Rousse",
+      city: "Lyon",
+      postalCode: "69004",
+      address: "3 rue d'Austerlitz",
+    });
+    otherPropertyId = otherProperty.id;
+
+    const content = Buffer.from("mandat-signe");
+    const mandate = await filesService.upload({
+      orgId,
+      propertyId,
+      typeDocument: "MANDAT_VENTE_SIGNE",
+      fileName: "mandat.pdf",
+      mimeType: "application/pdf",
+      size: content.byteLength,
+      contentBase64: content.toString("base64"),
+    });
+    mandateId = mandate.id;
+
+    const inbound = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "GMAIL",
+      sourceProvider: "GMAIL",
+      externalId: `inbound_${crypto.randomUUID()}`,
+      subject: "Visite Bellecour",
+      body: "Bonjour, le mandat est-il signé ?",
+      receivedAt: new Date("2026-03-01T09:00:00.000Z"),
+      from: "Camille Martin <Camille.Martin@client.test>",
+      messageIdHeader: "<visite-1@client.test>",
+      references: ["<annonce-1@client.test>"],
+    });
+    inboundId = inbound.id;
+    await messagesService.patchById({ orgId, id: inboundId, propertyId });
+  });
+
+  afterAll(() => {
+    smtp.server.stop(true);
+    for (const key of smtpEnvKeys) {
+      if (previousEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = previousEnv[key];
+      }
+    }
+  });
+
+  it("compose un email avec une piece jointe du bien", async () => {
+    const sent = await messagesService.compose({
+      orgId,
+      to: ["acheteur@client.test"],
+      cc: ["notaire@etude.test"],
+      subject: "Documents du bien",
+      body: "Vous trouverez le mandat en pièce jointe.",
+      propertyId,
+      fileIds: [mandateId],
+    });
+
+    expect(sent).toMatchObject({
+      channel: "EMAIL",
+      direction: "OUTBOUND",
+      propertyId,
+      subject: "Documents du bien",
+      fromAddress: "contact@agence.test",
+      toAddresses: ["acheteur@client.test"],
+      ccAddresses: ["notaire@etude.test"],
+      inReplyTo: null,
+      fileIds: [mandateId],
+      aiStatus: "PROCESSED",
+    });
+
+    const mail = smtp.received.at(-1);
+    expect(mail?.rcptTo).toEqual(["<acheteur@client.test>", "<notaire@etude.test>"]);
+    expect(mail?.data).toContain("Cc: notaire@etude.test");
+    expect(mail?.data).toContain('filename="mandat.pdf"');
+    expect(mail?.data).toContain(Buffer.from("mandat-signe").toString("base64"));
+
+    const listed = await messagesService.list({ orgId, limit: 10, propertyId });
+    expect(listed.items.map((item) => item.id)).toContain(sent.id);
+  });
+
+  it("repond dans le fil avec les en-tetes de conversation", async () => {
+    const sent = await messagesService.reply({
+      orgId,
+      messageId: inboundId,
+      body: "Oui, le mandat est signé depuis lundi.",
+    });
+
+    expect(sent).toMatchObject({
+      direction: "OUTBOUND",
+      propertyId,
+      subject: "Re: Visite Bellecour",
+      toAddresses: ["camille.martin@client.test"],
+      inReplyTo: "visite-1@client.test",
+    });
+
+    const mail = smtp.received.at(-1);
+    expect(mail?.rcptTo).toEqual(["<camille.martin@client.test>"]);
+    expect(mail?.data).toContain("In-Reply-To: <visite-1@client.test>");
+    expect(mail?.data).toContain("References: <annonce-1@client.test> <visite-1@client.test>");
+
+    const row = await db.query.messages.findFirst({ where: eq(messages.id, sent.id) });
+    expect(JSON.parse(row?.references ?? "[]")).toEqual(["annonce-1@client.test", "visite-1@client.test"]);
+    expect(row?.messageIdHeader).toMatch(/@agence\.test$/);
+
+    // Relancer son propre envoi vise les mêmes destinataires et prolonge le fil.
+    const followUp = await messagesService.reply({ orgId, messageId: sent.id, body: "Je reste disponible." });
+    expect(followUp).toMatchObject({
+      subject: "Re: Visite Bellecour",
+      toAddresses: ["camille.martin@client.test"],
+      inReplyTo: row?.messageIdHeader,
+    });
+  });
+
+  it("refuse les pieces jointes d'un autre bien ou sans bien", async () => {
+    const sentBefore = smtp.received.length;
+
+    await expect(
+      messagesService.compose({
+        orgId,
+        to: ["acheteur@client.test"],
+        subject: "Mauvais document",
+        body: "Test",
+        propertyId: otherPropertyId,
+        fileIds: [mandateId],
+      }),
+    ).rejects.toMatchObject({
+      status: 400,
+      code: "MESSAGE_ATTACHMENT_INVALID",
+      details: { fileIds: [mandateId] },
+    });
+    await expect(
+      messagesService.compose({
+        orgId,
+        to: ["acheteur@client.test"],
+        subject: "Sans bien",
+        body: "Test",
+        fileIds: [mandateId],
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "MESSAGE_ATTACHMENT_PROPERTY_REQUIRED" });
+
+    expect(smtp.received.length).toBe(sentBefore);
+  });
+
+  it("refuse de repondre a un message sans canal email", async () => {
+    const whatsapp = await messagesService.upsertImportedMessage({
+      orgId,
+      channel: "WHATSAPP",
+      sourceProvider: "WHATSAPP",
+      externalId: `wa_${crypto.randomUUID()}`,
+      body: "Dispo demain ?",
+      receivedAt: new Date(),
+    });
+
+    await expect(
+      messagesService.reply({ orgId, messageId: whatsapp.id, body: "Oui" }),
+    ).rejects.toMatchObject({ status: 400, code: "MESSAGE_REPLY_UNSUPPORTED" });
+  });
+
+  it("envoie par la boite Gmail connectee quand Google est le fournisseur email", async () => {
+    await updateGlobalProviderSettings({ emailProvider: "google" });
+    try {
+      await expect(
+        messagesService.reply({ orgId, messageId: inboundId, body: "Via Gmail" }),
+      ).rejects.toMatchObject({ status: 400, code: "INTEGRATION_NOT_CONNECTED" });
+
+      await integrationsService.connect({ orgId, provider: "GMAIL" });
+      const sentBefore = smtp.received.length;
+      const sent = await messagesService.reply({ orgId, messageId: inboundId, body: "Via Gmail" });
+
+      expect(sent).toMatchObject({ channel: "GMAIL", direction: "OUTBOUND", propertyId });
+      expect(smtp.received.length).toBe(sentBefore);
+    } finally {
+      await updateGlobalProviderSettings({ emailProvider: "smtp-server" });
+    }
+  });
+
+  it("expose la composition et la reponse via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}`, "content-type": "application/json" };
+
+    const invalidResponse = await createApp().fetch(
+      new Request("http://localhost/messages", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ to: ["pas-un-email"], subject: "Test", body: "Test" }),
+      }),
+    );
+    expect(invalidResponse.status).toBe(400);
+
+    const composeResponse = await createApp().fetch(
+      new Request("http://localhost/messages", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          to: ["prospect@client.test"],
+          subject: "Premier contact",
+          body: "Bonjour, suite à votre appel.",
+          propertyId: "property_demo",
+        }),
+      }),
+    );
+    expect(composeResponse.status).toBe(201);
+    const composed = await composeResponse.json();
+    expect(composed).toMatchObject({ direction: "OUTBOUND", propertyId: "property_demo" });
+
+    const replyResponse = await createApp().fetch(
+      new Request(`http://localhost/messages/${composed.id}/reply`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ body: "Je me permets de vous relancer." }),
+      }),
+    );
+    expect(replyResponse.status).toBe(201);
+    expect(await replyResponse.json()).toMatchObject({
+      subject: "Re: Premier contact",
+      toAddresses: ["prospect@client.test"],
+    });
+
+    const links = await db.query.messageFileLinks.findMany({
+      where: and(eq(messageFileLinks.orgId, "org_demo"), eq(messageFileLinks.messageId, composed.id)),
+    });
+    expect(links).toEqual([]);
+
+    const missingResponse = await createApp().fetch(
+      new Request("http://localhost/messages/message-inconnu/reply", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ body: "Test" }),
+      }),
+    );
+    expect(missingResponse.status).toBe(404);
+  });
+});
@@ -0,0 +1,334 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { offers, organizations, properties, propertyTimelineEvents } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { linksService } from "../src/links/service";
+import { offersService } from "../src/offers/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_offers_${crypto.randomUUID()}`;
+
+const createPropertyAndBuyer = async (title: string, status = "VISITES") => {
+  const property = await propertiesService.create({
+    orgId,
+    title,
+    city: "Nantes",
+    postalCode: "44000",
+    address: "3 quai de la Fosse",
+  });
+  await db.update(properties).set({ status }).where(eq(properties.id, property.id));
+
+  const buyer = await usersService.create({
+    orgId,
+    data: {
+      firstName: "Claire",
+      lastName: "Acquereur",
+      email: `acquereur-${crypto.randomUUID()}@example.test`,
+      accountType: "CLIENT",
+    },
+  });
+
+  return { property, buyer };
+};
+
+// Pièces obligatoires avant OFFRES (hors offre signée, rattachée par l'acceptation).
+const uploadMandatoryDocuments = async (propertyId: string) => {
+  for (const typeDocument of ["MANDAT_VENTE_SIGNE", "DPE"]) {
+    await filesService.upload({
+      orgId,
+      propertyId,
+      typeDocument,
+      fileName: `${typeDocument.toLowerCase()}.pdf`,
+      mimeType: "application/pdf",
+      size: 8,
+      contentBase64: Buffer.from("%PDF-1.4").toString("base64"),
+    });
+  }
+};
+
+describe("offers", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const now = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Organisation offres", createdAt: now, updatedAt: now });
+  });
+
+  it("enchaine offre et contre-offres en conservant l'historique", async () => {
+    const { property, buyer } = await createPropertyAndBuyer("Offres chaine");
+
+    const offer = await offersService.create({
+      orgId,
+      propertyId: property.id,
+      buyerUserId: buyer.id,
+      amount: 310000,
+      financingType: "CREDIT",
+      conditionsSuspensives: ["Obtention du prêt", " "],
+    });
+    expect(offer).toMatchObject({
+      status: "SUBMITTED",
+      issuedBy: "ACHETEUR",
+      propertyTitle: "Offres chaine",
+      buyerLastName: "Acquereur",
+      conditionsSuspensives: ["Obtention du prêt"],
+    });
+
+    const counter = await offersService.counter({ orgId, id: offer.id, amount: 325000 });
+    expect(counter).toMatchObject({
+      parentOfferId: offer.id,
+      issuedBy: "VENDEUR",
+      financingType: "CREDIT",
+      conditionsSuspensives: ["Obtention du prêt"],
+      status: "SUBMITTED",
+    });
+    expect((await offersService.getById({ orgId, id: offer.id })).status).toBe("COUNTERED");
+
+    await expect(offersService.counter({ orgId, id: offer.id, amount: 315000 })).rejects.toMatchObject({
+      status: 409,
+      code: "OFFER_NOT_PENDING",
+    });
+
+    const rejected = await offersService.reject({ orgId, id: counter.id, note: "Trop haut" });
+    expect(rejected).toMatchObject({ status: "REJECTED", note: "Trop haut" });
+
+    const related = await linksService.getRelated({ orgId, objectType: "bien", objectId: property.id });
+    expect(related.grouped.offre.map((item) => (item as { id: string }).id).sort()).toEqual(
+      [offer.id, counter.id].sort(),
+    );
+  });
+
+  it("expire les offres dont la date de validite est depassee", async () => {
+    const { property, buyer } = await createPropertyAndBuyer("Offres expiration");
+    const offer = await offersService.create({
+      orgId,
+      propertyId: property.id,
+      buyerUserId: buyer.id,
+      amount: 200000,
+      financingType: "COMPTANT",
+      validUntil: "2026-01-10T18:00:00.000Z",
+    });
+
+    const listed = await offersService.list({ orgId, propertyId: property.id, limit: 10 });
+    expect(listed.items.map((item) => [item.id, item.status])).toEqual([[offer.id, "EXPIRED"]]);
+    await expect(
+      offersService.reject({ orgId, id: offer.id }),
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("accepte une offre: bien en OFFRES, PDF signe rattache et acquereur lie", async () => {
+    const { property, buyer } = await createPropertyAndBuyer("Offres acceptation");
+    const offer = await offersService.create({
+      orgId,
+      propertyId: property.id,
+      buyerUserId: buyer.id,
+      amount: 420000,
+      financingType: "MIXTE",
+    });
+
+    const image = await filesService.upload({
+      orgId,
+      fileName: "photo.jpg",
+      mimeType: "image/jpeg",
+      size: 4,
+      contentBase64: Buffer.from("jpeg").toString("base64"),
+    });
+    await expect(
+      offersService.accept({ orgId, id: offer.id, signedFileId: image.id }),
+    ).rejects.toMatchObject({ status: 400, code: "OFFER_SIGNED_FILE_NOT_PDF" });
+
+    const signed = await filesService.upload({
+      orgId,
+      fileName: "offre-signee.pdf",
+      mimeType: "application/pdf",
+      size: 8,
+      contentBase64: Buffer.from("%PDF-1.4").toString("base64"),
+    });
+
+    await expect(
+      offersService.accept({ orgId, id: offer.id, signedFileId: signed.id }),
+    ).rejects.toMatchObject({ status: 409, code: "PROPERTY_DOCUMENTS_MISSING" });
+    expect((await propertiesService.getById({ orgId, id: property.id })).status).toBe("VISITES");
+    expect((await offersService.getById({ orgId, id: offer.id })).status).toBe("SUBMITTED");
+
+    await uploadMandatoryDocuments(property.id);
+    const accepted = await offersService.accept({ orgId, id: offer.id, signedFileId: signed.id });
+    expect(accepted).toMatchObject({ status: "ACCEPTED", signedFileId: signed.id });
+
+    expect((await propertiesService.getById({ orgId, id: property.id })).status).toBe("OFFRES");
+    expect(await filesService.getById({ orgId, id: signed.id })).toMatchObject({
+      propertyId: property.id,
+      typeDocument: "OFFRE_ACHAT_SIGNEE",
+    });
+
+    const buyerLinks = await linksService.list({
+      orgId,
+      limit: 10,
+      typeLien: "bien_user",
+      objectId1: property.id,
+      objectId2: buyer.id,
+    });
+    expect(buyerLinks.items[0]?.params).toMatchObject({ relationRole: "ACHETEUR" });
+
+    const events = await db.query.propertyTimelineEvents.findMany({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, property.id),
+        eq(propertyTimelineEvents.orgId, orgId),
+      ),
+    });
+    expect(events.map((event) => event.eventType)).toEqual(
+      expect.arrayContaining(["OFFER_SUBMITTED", "PROPERTY_STATUS_CHANGED", "OFFER_ACCEPTED"]),
+    );
+  });
+
+  it("accepte depuis EN_DIFFUSION et ferme les offres concurrentes", async () => {
+    const { property, buyer } = await createPropertyAndBuyer("Offres diffusion", "EN_DIFFUSION");
+    const first = await offersService.create({
+      orgId,
+      propertyId: property.id,
+      buyerUserId: buyer.id,
+      amount: 280000,
+      financingType: "CREDIT",
+    });
+    const counter = await offersService.counter({ orgId, id: first.id, amount: 295000 });
+    const competing = await offersService.create({
+      orgId,
+      propertyId: property.id,
+      buyerUserId: buyer.id,
+      amount: 270000,
+      financingType: "COMPTANT",
+    });
+    await uploadMandatoryDocuments(property.id);
+    const signed = await filesService.upload({
+      orgId,
+      fileName: "contre-offre-signee.pdf",
+      mimeType: "application/pdf",
+      size: 8,
+      contentBase64: Buffer.from("%PDF-1.4").toString("base64"),
+    });
+
+    await offersService.accept({ orgId, id: counter.id, signedFileId: signed.id });
+
+    expect((await propertiesService.getById({ orgId, id: property.id })).status).toBe("OFFRES");
+    const listed = await offersService.list({ orgId, propertyId: property.id, limit: 10 });
+    expect(Object.fromEntries(listed.items.map((item) => [item.id, item.status]))).toEqual({
+      [first.id]: "COUNTERED",
+      [counter.id]: "ACCEPTED",
+      [competing.id]: "REJECTED",
+    });
+  });
+
+  it("refuse offre et acceptation sur un bien deja en COMPROMIS sans le faire reculer", async () => {
+    const { property, buyer } = await createPropertyAndBuyer("Offres compromis", "OFFRES");
+    const offer = await offersService.create({
+      orgId,
+      propertyId: property.id,
+      buyerUserId: buyer.id,
+      amount: 350000,
+      financingType: "CREDIT",
+    });
+    await db.update(properties).set({ status: "COMPROMIS" }).where(eq(properties.id, property.id));
+    const signed = await filesService.upload({
+      orgId,
+      fileName: "offre-tardive.pdf",
+      mimeType: "application/pdf",
+      size: 8,
+      contentBase64: Buffer.from("%PDF-1.4").toString("base64"),
+    });
+
+    await expect(
+      offersService.accept({ orgId, id: offer.id, signedFileId: signed.id }),
+    ).rejects.toMatchObject({ status: 409, code: "OFFER_PROPERTY_STATUS_CLOSED" });
+    await expect(
+      offersService.create({
+        orgId,
+        propertyId: property.id,
+        buyerUserId: buyer.id,
+        amount: 360000,
+        financingType: "COMPTANT",
+      }),
+    ).rejects.toMatchObject({ status: 409, code: "OFFER_PROPERTY_STATUS_CLOSED" });
+
+    expect((await propertiesService.getById({ orgId, id: property.id })).status).toBe("COMPROMIS");
+    expect((await offersService.getById({ orgId, id: offer.id })).status).toBe("SUBMITTED");
+  });
+
+  it("expose les offres via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const property = await propertiesService.create({
+      orgId: "org_demo",
+      title: "Offres API",
+      city: "Lille",
+      postalCode: "59000",
+      address: "1 place du Général de Gaulle",
+    });
+
+    const createResponse = await createApp().fetch(
+      new Request("http://localhost/offers", {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          propertyId: property.id,
+          buyerUserId: "user_demo",
+          amount: 150000,
+          financingType: "CREDIT",
+        }),
+      }),
+    );
+    expect(createResponse.status).toBe(201);
+    const created = await createResponse.json();
+
+    const counterResponse = await createApp().fetch(
+      new Request(`http://localhost/offers/${created.id}/counter`, {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+        body: JSON.stringify({ amount: 158000 }),
+      }),
+    );
+    expect(counterResponse.status).toBe(201);
+    expect((await counterResponse.json()).parentOfferId).toBe(created.id);
+
+    const listResponse = await createApp().fetch(
+      new Request(`http://localhost/offers?propertyId=${property.id}&status=COUNTERED`, {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(listResponse.status).toBe(200);
+    expect((await listResponse.json()).items.map((item: { id: string }) => item.id)).toEqual([
+      created.id,
+    ]);
+
+    const stored = await db.query.offers.findFirst({ where: eq(offers.id, created.id) });
+    expect(stored?.status).toBe("COUNTERED");
+
+    const missingResponse = await createApp().fetch(
+      new Request("http://localhost/offers/offre_inconnue", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(missingResponse.status).toBe(404);
+  });
+});
@@ -74,6 +74,52 @@ describe("OpenAIProvider", () => {
     );
   });
 
+  it("demande des segments horodatés et les libellés de locuteurs en diarisation", async () => {
+    const requests: FormData[] = [];
+    await withMockedFetch(
+      async (_url, init) => {
+        const body = init?.body as FormData;
+        requests.push(body);
+        const diarized = String(body.get("model")).includes("diarize");
+        return new Response(
+          JSON.stringify({
+            text: "Bonjour, voici le salon. Il est lumineux.",
+            duration: 120,
+            segments: [
+              { start: 0, end: 2.5, text: " Bonjour, voici le salon.", ...(diarized ? { speaker: "A" } : {}) },
+              { start: 2.5, end: 4, text: "Il est lumineux.", ...(diarized ? { speaker: "B" } : {}) },
+              { start: 4, end: 4.2, text: "  " },
+            ],
+          }),
+          { status: 200, headers: { "content-type": "application/json" } },
+        );
+      },
+      async () => {
+        const whisper = await new OpenAIProvider({
+          apiKey: "test_key",
+          baseUrl: "https://openai.example.test/v1",
+        }).transcribeVocal({ fileName: "visite.wav", mimeType: "audio/wav", audioData: Buffer.from("voice") });
+        expect(whisper.segments).toEqual([
+          { startMs: 0, endMs: 2500, text: "Bonjour, voici le salon.", speaker: null },
+          { startMs: 2500, endMs: 4000, text: "Il est lumineux.", speaker: null },
+        ]);
+        expect(whisper.telemetry?.price).toBe(0.012);
+
+        const diarized = await new OpenAIProvider({
+          apiKey: "test_key",
+          baseUrl: "https://openai.example.test/v1",
+          whisperModel: "gpt-4o-transcribe-diarize",
+        }).transcribeVocal({ fileName: "visite.wav", mimeType: "audio/wav", audioData: Buffer.from("voice") });
+        expect(diarized.segments?.map((segment) => segment.speaker)).toEqual(["A", "B"]);
+      },
+    );
+
+    expect(requests[0]?.get("response_format")).toBe("verbose_json");
+    expect(requests[0]?.get("timestamp_granularities[]")).toBe("segment");
+    expect(requests[1]?.get("response_format")).toBe("diarized_json");
+    expect(requests[1]?.get("chunking_strategy")).toBe("auto");
+  });
+
   it("parse les insights vocaux depuis output_text", async () => {
     const provider = new OpenAIProvider({
       apiKey: "test_key",
@@ -105,6 +151,60 @@ describe("OpenAIProvider", () => {
     );
   });
 
+  it("impose le schéma d'insights du type de vocal comme format de réponse", async () => {
+    const provider = new OpenAIProvider({
+      apiKey: "test_key",
+      baseUrl: "https://openai.example.test/v1",
+    });
+    const requestBodies: Array<Record<string, unknown>> = [];
+
+    await withMockedFetch(
+      async (_url, init) => {
+        requestBodies.push(JSON.parse(String(init?.body ?? "{}")) as Record<string, unknown>);
+        return new Response(
+          JSON.stringify({
+            output_text: '{"insights":{"rooms":4},"confidence":0.8}',
+          }),
+          {
+            status: 200,
+            headers: { "content-type": "application/json; charset=utf-8" },
+          },
+        );
+      },
+      async () => {
+        const result = await provider.extractVocalInsights({
+          transcript: "transcript",
+          responseSchema: {
+            name: "vocal_insights_visite_initiale",
+            schema: {
+              type: "object",
+              additionalProperties: false,
+              required: ["insights", "confidence"],
+              properties: {
+                insights: {
+                  type: "object",
+                  additionalProperties: false,
+                  required: ["rooms"],
+                  properties: { rooms: { type: ["integer", "null"] } },
+                },
+                confidence: { type: "number" },
+              },
+            },
+          },
+        });
+
+        expect(result.insights).toEqual({ rooms: 4 });
+      },
+    );
+
+    expect(requestBodies.length).toBeGreaterThan(0);
+    for (const body of requestBodies) {
+      expect(body.text).toMatchObject({
+        format: { type: "json_schema", name: "vocal_insights_visite_initiale", strict: true },
+      });
+    }
+  });
+
   it("détecte le type vocal même avec JSON encapsulé", async () => {
     const provider = new OpenAIProvider({
       apiKey: "test_key",
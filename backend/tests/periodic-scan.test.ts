@@ -0,0 +1,42 @@
+import { describe, expect, it } from "bun:test";
+import { resolveClosingDeadlinesConfig } from "../src/queues/closing-deadlines";
+import { resolveMandateExpiryConfig } from "../src/queues/mandate-expiry";
+import { createPeriodicScanLoop } from "../src/queues/periodic-scan";
+
+describe("periodic scan loop", () => {
+  it("lance une passe au demarrage, sans chevauchement, et attend la passe en cours a l'arret", async () => {
+    let scans = 0;
+    let releaseScan: () => void = () => {};
+    const loop = createPeriodicScanLoop({
+      logLabel: "[Test] periodic.scan",
+      resolveIntervalMs: () => 5,
+      scan: async () => {
+        scans += 1;
+        await new Promise<void>((resolve) => {
+          releaseScan = resolve;
+        });
+        return { alertsCreated: 0 };
+      },
+      describeSummary: () => null,
+    });
+
+    loop.start({});
+    loop.start({});
+    await Bun.sleep(30);
+    expect(scans).toBe(1);
+
+    const stopped = loop.stop();
+    releaseScan();
+    await stopped;
+    await Bun.sleep(20);
+    expect(scans).toBe(1);
+  });
+
+  it("lit les intervalles des analyses de mandats et de compromis", () => {
+    expect(resolveMandateExpiryConfig({})).toEqual({ intervalMs: 6 * 60 * 60 * 1000 });
+    expect(resolveMandateExpiryConfig({ MANDATE_EXPIRY_INTERVAL_MS: "60000" })).toEqual({ intervalMs: 60000 });
+    expect(resolveClosingDeadlinesConfig({ CLOSING_DEADLINES_INTERVAL_MS: "-1" })).toEqual({
+      intervalMs: 6 * 60 * 60 * 1000,
+    });
+  });
+});
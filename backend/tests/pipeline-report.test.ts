@@ -0,0 +1,258 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { commissionsService } from "../src/commissions/service";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { organizations, properties, propertyTimelineEvents } from "../src/db/schema";
+import { propertiesService } from "../src/properties/service";
+import { reportsService } from "../src/reports/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_pipeline_${crypto.randomUUID()}`;
+
+const createProperty = async (input: {
+  title: string;
+  city: string;
+  propertyType: string;
+  status: string;
+  createdAt: string;
+  price?: number;
+}) => {
+  const created = await propertiesService.create({
+    orgId,
+    title: input.title,
+    city: input.city,
+    postalCode: "69003",
+    address: "12 cours Lafayette",
+    details: { general: { propertyType: input.propertyType } },
+  });
+  await db
+    .update(properties)
+    .set({ status: input.status, price: input.price ?? null, createdAt: new Date(input.createdAt) })
+    .where(eq(properties.id, created.id));
+  return created;
+};
+
+const insertEvent = async (
+  propertyId: string,
+  eventType: string,
+  createdAt: string,
+  payload: Record<string, unknown>,
+) => {
+  await db.insert(propertyTimelineEvents).values({
+    id: crypto.randomUUID(),
+    propertyId,
+    orgId,
+    eventType,
+    payload: JSON.stringify(payload),
+    createdAt: new Date(createdAt),
+  });
+};
+
+describe("pipeline analytics", () => {
+  const now = new Date("2025-06-01T00:00:00.000Z");
+  let agentId = "";
+  let sold = { id: "" };
+  let fresh = { id: "" };
+
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Organisation pipeline", createdAt, updatedAt: createdAt });
+
+    const agent = await usersService.create({
+      orgId,
+      data: {
+        firstName: "Nina",
+        lastName: "Pipeline",
+        email: `nina.${crypto.randomUUID()}@agence.test`,
+        accountType: "AGENT",
+      },
+    });
+    agentId = agent.id;
+
+    sold = await createProperty({
+      title: "Appartement vendu",
+      city: "Lyon",
+      propertyType: "APPARTEMENT",
+      status: "VENDU",
+      createdAt: "2025-01-01T00:00:00.000Z",
+      price: 280000,
+    });
+    await insertEvent(sold.id, "PROPERTY_STATUS_CHANGED", "2025-01-11T00:00:00.000Z", {
+      from: "PROSPECTION",
+      to: "MANDAT_SIGNE",
+    });
+    await insertEvent(sold.id, "PROPERTY_STATUS_CHANGED", "2025-01-21T00:00:00.000Z", {
+      from: "MANDAT_SIGNE",
+      to: "EN_DIFFUSION",
+    });
+    await insertEvent(sold.id, "PROPERTY_PRICE_CHANGED", "2025-02-01T00:00:00.000Z", {
+      from: 300000,
+      to: 280000,
+    });
+    await insertEvent(sold.id, "PROPERTY_STATUS_CHANGED", "2025-03-02T00:00:00.000Z", {
+      from: "EN_DIFFUSION",
+      to: "VENDU",
+    });
+    await commissionsService.upsert({
+      orgId,
+      propertyId: sold.id,
+      feesAmount: 10000,
+      listingAgentUserId: agentId,
+      listingAgentAmount: 4000,
+    });
+
+    const stuck = await createProperty({
+      title: "Maison sans diffusion",
+      city: "Lyon",
+      propertyType: "MAISON",
+      status: "MANDAT_SIGNE",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    });
+    await insertEvent(stuck.id, "PROPERTY_STATUS_CHANGED", "2025-01-31T00:00:00.000Z", {
+      from: "PROSPECTION",
+      to: "MANDAT_SIGNE",
+    });
+
+    fresh = await createProperty({
+      title: "Studio en prospection",
+      city: "Villeurbanne",
+      propertyType: "APPARTEMENT",
+      status: "PROSPECTION",
+      createdAt: "2025-05-28T00:00:00.000Z",
+      price: 150000,
+    });
+  });
+
+  it("calcule durees medianes, conversion, biens dormants et baisses de prix", async () => {
+    const report = await reportsService.pipeline({ orgId, now });
+
+    expect(report.propertyCount).toBe(3);
+    expect(report.statusDurations.slice(0, 4)).toEqual([
+      { status: "PROSPECTION", medianDays: 20, stays: 2 },
+      { status: "MANDAT_SIGNE", medianDays: 10, stays: 1 },
+      { status: "EN_DIFFUSION", medianDays: 40, stays: 1 },
+      { status: "VISITES", medianDays: null, stays: 0 },
+    ]);
+    expect(report.conversion).toEqual({
+      prospectionCount: 3,
+      mandatSigneCount: 2,
+      venduCount: 1,
+      prospectionToMandatRate: 0.6667,
+      mandatToVenduRate: 0.5,
+      prospectionToVenduRate: 0.3333,
+    });
+    expect(report.columns.slice(0, 2)).toEqual([
+      { status: "PROSPECTION", total: 1, stale: 0 },
+      { status: "MANDAT_SIGNE", total: 1, stale: 1 },
+    ]);
+    expect(report.priceReductions).toEqual({
+      soldCount: 1,
+      reducedCount: 1,
+      totalReductionAmount: 20000,
+      medianReductionRate: 0.0667,
+      items: [
+        {
+          propertyId: sold.id,
+          title: "Appartement vendu",
+          city: "Lyon",
+          initialPrice: 300000,
+          finalPrice: 280000,
+          reductionCount: 1,
+          reductionAmount: 20000,
+          reductionRate: 0.0667,
+        },
+      ],
+    });
+  });
+
+  it("filtre par agent, ville et type de bien", async () => {
+    expect((await reportsService.pipeline({ orgId, now, city: "lyon" })).propertyCount).toBe(2);
+    expect((await reportsService.pipeline({ orgId, now, propertyType: "MAISON" })).propertyCount).toBe(1);
+
+    const byAgent = await reportsService.pipeline({ orgId, now, agentUserId: agentId });
+    expect(byAgent.propertyCount).toBe(1);
+    expect(byAgent.conversion.venduCount).toBe(1);
+
+    await expect(reportsService.pipeline({ orgId, propertyType: "CHATEAU" })).rejects.toMatchObject({
+      status: 400,
+      code: "INVALID_REPORT_PROPERTY_TYPE",
+    });
+    await expect(reportsService.pipeline({ orgId, staleAfterDays: "0" })).rejects.toMatchObject({
+      status: 400,
+      code: "INVALID_REPORT_STALE_AFTER_DAYS",
+    });
+  });
+
+  it("historise les changements de prix dans la timeline", async () => {
+    await propertiesService.patchById({ orgId, id: fresh.id, data: { price: 142000 } });
+    await propertiesService.patchById({ orgId, id: fresh.id, data: { title: "Studio renomme" } });
+
+    const events = await db.query.propertyTimelineEvents.findMany({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, fresh.id),
+        eq(propertyTimelineEvents.eventType, "PROPERTY_PRICE_CHANGED"),
+      ),
+    });
+    expect(events.map((event) => JSON.parse(event.payload))).toEqual([{ from: 150000, to: 142000 }]);
+  });
+
+  it("expose l'analyse et son export CSV via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+
+    const reportResponse = await createApp().fetch(
+      new Request("http://localhost/reports/pipeline?staleAfterDays=15&propertyType=APPARTEMENT", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(reportResponse.status).toBe(200);
+    const report = await reportResponse.json();
+    expect(report.filters).toEqual({
+      agentUserId: null,
+      city: null,
+      propertyType: "APPARTEMENT",
+      staleAfterDays: 15,
+    });
+
+    const exportResponse = await createApp().fetch(
+      new Request("http://localhost/reports/pipeline/export?format=csv", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(exportResponse.status).toBe(200);
+    expect(exportResponse.headers.get("content-type")).toContain("text/csv");
+    const csv = await exportResponse.text();
+    expect(csv.split("\r\n")[0]).toBe("Section;Libellé;Indicateur;Valeur");
+    expect(csv).toContain("Conversion;PROSPECTION > VENDU;Taux;");
+
+    const invalidResponse = await createApp().fetch(
+      new Request("http://localhost/reports/pipeline/export?format=pdf", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(invalidResponse.status).toBe(400);
+  });
+});
@@ -6,6 +6,7 @@ import {
   enqueueAiProcessFile,
   enqueueAiProcessMessage,
   enqueueAiTranscribeVocal,
+  enqueueAiTranscribeVocalChunk,
 } from "../src/queues/client";
 
 describe("queue client helpers", () => {
@@ -43,6 +44,7 @@ describe("queue client helpers", () => {
 
   it("couvre aussi les jobs vocaux", async () => {
     const addTranscribe = mock(async () => ({ id: "job-3" }));
+    const addChunk = mock(async () => ({ id: "job-7" }));
     const addType = mock(async () => ({ id: "job-5" }));
     const addPropertyExtract = mock(async () => ({ id: "job-6" }));
     const addInsights = mock(async () => ({ id: "job-4" }));
@@ -51,6 +53,10 @@ describe("queue client helpers", () => {
       { transcribeVocal: { add: addTranscribe } },
       { orgId: "org_1", vocalId: "voc_1" },
     );
+    await enqueueAiTranscribeVocalChunk(
+      { transcribeVocalChunk: { add: addChunk } },
+      { orgId: "org_1", vocalId: "voc_1", chunkIndex: 0 },
+    );
     await enqueueAiDetectVocalType(
       { detectVocalType: { add: addType } },
       { orgId: "org_1", vocalId: "voc_1" },
@@ -69,6 +75,11 @@ describe("queue client helpers", () => {
       { orgId: "org_1", vocalId: "voc_1" },
       undefined,
     );
+    expect(addChunk).toHaveBeenCalledWith(
+      "transcribe-vocal-chunk",
+      { orgId: "org_1", vocalId: "voc_1", chunkIndex: 0 },
+      undefined,
+    );
     expect(addInsights).toHaveBeenCalledWith(
       "extract-vocal-insights",
       { orgId: "org_1", vocalId: "voc_1" },
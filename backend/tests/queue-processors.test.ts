@@ -7,6 +7,7 @@ describe("queue processors", () => {
       processMessage: mock(async () => ({ status: "PROCESSED" as const, reason: "ok" })),
       processFile: mock(async () => ({ status: "CLASSIFIED" as const })),
       transcribeVocal: mock(async () => ({ status: "TRANSCRIBED" as const })),
+      transcribeVocalChunk: mock(async () => ({ status: "CHUNK_TRANSCRIBED" as const })),
       detectVocalType: mock(
         async () => ({ status: "TYPE_CLASSIFIED" as const, vocalType: "VISITE_INITIALE" as const }),
       ),
@@ -25,5 +26,17 @@ describe("queue processors", () => {
     expect(result.queue).toBe("processMessage");
     expect(result.jobId).toBe("job_123");
     expect(typeof result.processedAt).toBe("string");
+
+    const chunkResult = await processors.transcribeVocalChunk({
+      id: "job_456",
+      data: { orgId: "org_1", vocalId: "voc_1", chunkIndex: 2 },
+    } as never);
+
+    expect(handlers.transcribeVocalChunk).toHaveBeenCalledWith({
+      orgId: "org_1",
+      vocalId: "voc_1",
+      chunkIndex: 2,
+    });
+    expect(chunkResult.queue).toBe("transcribeVocalChunk");
   });
 });
@@ -0,0 +1,183 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { organizations, properties } from "../src/db/schema";
+import { propertiesService } from "../src/properties/service";
+import {
+  DEFAULT_STATUS_WORKFLOW,
+  evaluateStatusTransition,
+} from "../src/properties/status-workflow";
+import { createApp } from "../src/server";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const createPropertyWithStatus = async (orgId: string, status: string) => {
+  const created = await propertiesService.create({
+    orgId,
+    title: `Workflow ${status}`,
+    city: "Nantes",
+    postalCode: "44000",
+    address: "8 quai de la Fosse",
+  });
+  await db.update(properties).set({ status }).where(eq(properties.id, created.id));
+  return created;
+};
+
+describe("status workflow", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const now = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: "org_workflow", name: "Organisation workflow", createdAt: now, updatedAt: now })
+      .onConflictDoNothing({ target: organizations.id });
+  });
+
+  it("laisse toutes les transitions libres et sans garde par defaut", () => {
+    const evaluate = (from: string, to: string) =>
+      evaluateStatusTransition({
+        workflow: DEFAULT_STATUS_WORKFLOW,
+        from,
+        to,
+        fields: {},
+        documentTypes: [],
+        relationRoles: [],
+      });
+
+    expect(evaluate("PROSPECTION", "MANDAT_SIGNE")).toEqual({ allowed: true, unmet: [] });
+    expect(evaluate("VISITES", "EN_DIFFUSION")).toEqual({ allowed: true, unmet: [] });
+    expect(evaluate("OFFRES", "ARCHIVE")).toEqual({ allowed: true, unmet: [] });
+    expect(evaluate("PROSPECTION", "VISITES")).toEqual({ allowed: true, unmet: [] });
+    expect(evaluate("ARCHIVE", "OFFRES")).toEqual({ allowed: true, unmet: [] });
+    expect(evaluate("PROSPECTION", "EN_DIFFUSION")).toEqual({ allowed: true, unmet: [] });
+    expect(evaluate("MANDAT_SIGNE", "VENDU")).toEqual({ allowed: true, unmet: [] });
+  });
+
+  it("refuse le compromis sans acheteur lie au bien quand le workflow l'exige", async () => {
+    const orgId = `org_workflow_buyer_${crypto.randomUUID()}`;
+    const now = new Date();
+    await db.insert(organizations).values({ id: orgId, name: "Workflow acheteur", createdAt: now, updatedAt: now });
+    await propertiesService.updateStatusWorkflow({
+      orgId,
+      workflow: {
+        transitions: [{ from: "OFFRES", to: "COMPROMIS", guards: [{ type: "LINK", relationRole: "ACHETEUR" }] }],
+      },
+    });
+    const created = await createPropertyWithStatus(orgId, "OFFRES");
+
+    await expect(
+      propertiesService.updateStatus({ orgId, id: created.id, status: "COMPROMIS" }),
+    ).rejects.toMatchObject({
+      status: 409,
+      code: "PROPERTY_STATUS_GUARDS_UNMET",
+      details: {
+        from: "OFFRES",
+        to: "COMPROMIS",
+        unmet: [{ type: "LINK", relationRole: "ACHETEUR", label: "Acheteur lié au bien" }],
+      },
+    });
+
+    await propertiesService.addProspect({
+      orgId,
+      propertyId: created.id,
+      relationRole: "ACHETEUR",
+      newClient: {
+        firstName: "Paul",
+        lastName: "Acheteur",
+        phone: "0600000042",
+        email: `acheteur.${created.id}@example.com`,
+      },
+    });
+
+    await expect(
+      propertiesService.updateStatus({ orgId, id: created.id, status: "COMPROMIS" }),
+    ).rejects.toMatchObject({ code: "PROPERTY_DOCUMENTS_MISSING" });
+  });
+
+  it("applique le workflow personnalise de l'organisation", async () => {
+    const saved = await propertiesService.updateStatusWorkflow({
+      orgId: "org_workflow",
+      workflow: {
+        transitions: [
+          {
+            from: "PROSPECTION",
+            to: "EN_DIFFUSION",
+            guards: [{ type: "FIELD", field: "surfaceHabitable", label: "Surface habitable" }],
+          },
+        ],
+      },
+    });
+    expect(saved.isDefault).toBe(false);
+
+    const created = await createPropertyWithStatus("org_workflow", "PROSPECTION");
+    await expect(
+      propertiesService.updateStatus({ orgId: "org_workflow", id: created.id, status: "MANDAT_SIGNE" }),
+    ).rejects.toMatchObject({
+      code: "PROPERTY_STATUS_TRANSITION_NOT_ALLOWED",
+      details: { allowedTargets: ["EN_DIFFUSION"] },
+    });
+    await expect(
+      propertiesService.updateStatus({
+        orgId: "org_workflow",
+        id: created.id,
+        status: "EN_DIFFUSION",
+        force: true,
+      }),
+    ).rejects.toMatchObject({
+      code: "PROPERTY_STATUS_GUARDS_UNMET",
+      message: "Conditions non remplies pour ce statut: Surface habitable",
+    });
+
+    const reset = await propertiesService.updateStatusWorkflow({
+      orgId: "org_workflow",
+      workflow: null,
+    });
+    expect(reset.isDefault).toBe(true);
+    expect(reset.transitions).toEqual(DEFAULT_STATUS_WORKFLOW.transitions);
+  });
+
+  it("expose le workflow et reserve sa modification aux managers", async () => {
+    const token = await loginAndGetAccessToken();
+
+    const getResponse = await createApp().fetch(
+      new Request("http://localhost/me/settings/status-workflow", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(getResponse.status).toBe(200);
+    const payload = await getResponse.json();
+    expect(payload.isDefault).toBe(true);
+    expect(payload.transitions).toContainEqual({
+      from: "OFFRES",
+      to: "COMPROMIS",
+      guards: [],
+    });
+
+    const putResponse = await createApp().fetch(
+      new Request("http://localhost/me/settings/status-workflow", {
+        method: "PUT",
+        headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+        body: JSON.stringify({ transitions: null }),
+      }),
+    );
+    expect(putResponse.status).toBe(403);
+  });
+});
@@ -0,0 +1,188 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { assistantService } from "../src/assistant/service";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { propertyTimelineEvents, tasks } from "../src/db/schema";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { tasksService } from "../src/tasks/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const createProperty = (title: string) =>
+  propertiesService.create({
+    orgId: "org_demo",
+    title,
+    city: "Rennes",
+    postalCode: "35000",
+    address: "4 rue de la Monnaie",
+  });
+
+describe("tasks", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+  });
+
+  it("genere les taches du statut et les trace dans la timeline", async () => {
+    const created = await createProperty("Taches mandat");
+    const now = Date.now();
+
+    await propertiesService.updateStatus({
+      orgId: "org_demo",
+      id: created.id,
+      status: "MANDAT_SIGNE",
+      actorUserId: "user_demo",
+    });
+
+    const listed = await tasksService.list({
+      orgId: "org_demo",
+      propertyId: created.id,
+      limit: 20,
+    });
+    expect(listed.items.map((item) => item.templateKey).sort()).toEqual([
+      "MANDAT_SIGNE_PREPARATION_ANNONCE",
+      "MANDAT_SIGNE_RECUPERATION_DOCUMENTS",
+    ]);
+    expect(listed.items[0]).toMatchObject({
+      status: "TODO",
+      source: "STATUS_TEMPLATE",
+      propertyTitle: "Taches mandat",
+      assigneeUserId: "user_demo",
+    });
+    expect(new Date(listed.items[0]!.dueAt!).getTime()).toBeGreaterThan(now);
+
+    const timeline = await db.query.propertyTimelineEvents.findFirst({
+      where: and(
+        eq(propertyTimelineEvents.propertyId, created.id),
+        eq(propertyTimelineEvents.eventType, "PROPERTY_STATUS_CHANGED"),
+      ),
+    });
+    const payload = JSON.parse(timeline!.payload);
+    expect(payload.to).toBe("MANDAT_SIGNE");
+    expect([...payload.generatedTaskIds].sort()).toEqual(listed.items.map((item) => item.id).sort());
+  });
+
+  it("ne duplique pas une tache encore ouverte lors d'un retour au meme statut", async () => {
+    const created = await createProperty("Taches aller retour");
+
+    await propertiesService.updateStatus({ orgId: "org_demo", id: created.id, status: "MANDAT_SIGNE" });
+    await propertiesService.updateStatus({ orgId: "org_demo", id: created.id, status: "PROSPECTION" });
+    await propertiesService.updateStatus({ orgId: "org_demo", id: created.id, status: "MANDAT_SIGNE" });
+
+    const rows = await db.query.tasks.findMany({
+      where: and(eq(tasks.propertyId, created.id), eq(tasks.templateKey, "MANDAT_SIGNE_PREPARATION_ANNONCE")),
+    });
+    expect(rows).toHaveLength(1);
+  });
+
+  it("expose la creation, la lecture, la modification et la recherche des taches", async () => {
+    const token = await loginAndGetAccessToken();
+    const property = await createProperty("Taches API");
+
+    const createResponse = await createApp().fetch(
+      new Request("http://localhost/tasks", {
+        method: "POST",
+        headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+        body: JSON.stringify({
+          title: "Relancer le syndic",
+          propertyId: property.id,
+          dueAt: "2026-04-01T09:00:00.000Z",
+        }),
+      }),
+    );
+    expect(createResponse.status).toBe(201);
+    const task = await createResponse.json();
+    expect(task).toMatchObject({ status: "TODO", source: "MANUAL", propertyTitle: "Taches API" });
+
+    const patchResponse = await createApp().fetch(
+      new Request(`http://localhost/tasks/${task.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json", authorization: `Bearer ${token}` },
+        body: JSON.stringify({ status: "DONE" }),
+      }),
+    );
+    expect(patchResponse.status).toBe(200);
+    const patched = await patchResponse.json();
+    expect(patched.status).toBe("DONE");
+    expect(patched.completedAt).toBeString();
+
+    const listResponse = await createApp().fetch(
+      new Request(`http://localhost/tasks?propertyId=${property.id}&status=DONE`, {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(listResponse.status).toBe(200);
+    expect((await listResponse.json()).items.map((item: { id: string }) => item.id)).toEqual([
+      task.id,
+    ]);
+
+    const searchResponse = await createApp().fetch(
+      new Request("http://localhost/search?q=syndic", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(searchResponse.status).toBe(200);
+    const search = await searchResponse.json();
+    expect(search.items).toContainEqual(
+      expect.objectContaining({
+        type: "TASK",
+        id: task.id,
+        route: `/app/bien/${property.id}`,
+      }),
+    );
+
+    const missingResponse = await createApp().fetch(
+      new Request("http://localhost/tasks/task_inconnue", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    expect(missingResponse.status).toBe(404);
+  });
+
+  it("cree et met a jour une tache via les outils de l'assistant", async () => {
+    const token = await loginAndGetAccessToken();
+    const conversationResponse = await createApp().fetch(
+      new Request("http://localhost/assistant/conversation", {
+        headers: { authorization: `Bearer ${token}` },
+      }),
+    );
+    const conversation = await conversationResponse.json();
+
+    const created = await assistantService.toolCreate({
+      orgId: "org_demo",
+      userId: "user_demo",
+      conversationId: conversation.id,
+      objectType: "tache",
+      params: { title: "Appeler le notaire", dueAt: "2026-05-02T10:00:00.000Z" },
+    });
+    expect(created.summary).toBe("Tâche créée: Appeler le notaire.");
+
+    const updated = await assistantService.toolUpdate({
+      orgId: "org_demo",
+      userId: "user_demo",
+      conversationId: conversation.id,
+      objectType: "tache",
+      objectId: created.objectId,
+      params: { status: "IN_PROGRESS" },
+    });
+    expect(updated.result).toMatchObject({ status: "IN_PROGRESS", title: "Appeler le notaire" });
+  });
+});
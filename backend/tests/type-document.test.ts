@@ -35,6 +35,7 @@ const expectedTypes = [
   "ANNONCE_IMMOBILIERE",
   "AFFICHE_VITRINE",
   "REPORTING_VENDEUR",
+  "BON_VISITE",
   "SIMULATION_FINANCEMENT",
   "ATTESTATION_CAPACITE_EMPRUNT",
   "ACCORD_PRINCIPE_BANCAIRE",
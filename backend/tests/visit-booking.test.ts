@@ -0,0 +1,402 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { resetAuthRateLimiterForTests } from "../src/auth/rate-limit";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { messages, organizations, properties, propertyVisits, reviewQueueItems, users } from "../src/db/schema";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+import { visitBookingService } from "../src/visit-booking/service";
+import { startSmtpStandIn } from "./helpers/smtp-stand-in";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const decodeBase64Parts = (data: string): string =>
+  [...data.matchAll(/Content-Transfer-Encoding: base64\r\n(?:[^\r\n]+\r\n)*\r\n([A-Za-z0-9+/=\r\n]+)/g)]
+    .map((match) => Buffer.from(match[1].replace(/\r\n/g, ""), "base64").toString("utf8"))
+    .join("\n");
+
+
+const orgId = `org_booking_${crypto.randomUUID()}`;
+const smtpEnvKeys = ["SMTP_HOST", "SMTP_PORT", "SMTP_FROM"] as const;
+const previousEnv = Object.fromEntries(smtpEnvKeys.map((key) => [key, process.env[key]]));
+
+const publicRequest = (token: string, init?: { body?: unknown; ip?: string }) =>
+  createApp().fetch(
+    new Request(`http://localhost/public/visit-booking/${token}`, {
+      method: init?.body ? "POST" : "GET",
+      headers: {
+        "content-type": "application/json",
+        ...(init?.ip ? { "x-forwarded-for": init.ip } : {}),
+      },
+      body: init?.body ? JSON.stringify(init.body) : undefined,
+    }),
+  );
+
+describe("visit booking", () => {
+  const smtp = startSmtpStandIn();
+  let propertyId = "";
+  let agentId = "";
+
+  beforeAll(async () => {
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtp.server.port);
+    process.env.SMTP_FROM = "Agence Test <visites@agence.test>";
+
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Visites", createdAt, updatedAt: createdAt });
+
+    agentId = (
+      await usersService.create({
+        orgId,
+        data: {
+          firstName: "Victor",
+          lastName: "Agent",
+          email: `victor.${crypto.randomUUID()}@agence.test`,
+          accountType: "AGENT",
+        },
+      })
+    ).id;
+
+    const property = await propertiesService.create({
+      orgId,
+      title: "Loft Confluence",
+      city: "Lyon",
+      postalCode: "69002",
+      address: "12 quai Rambaud",
+      details: {
+        characteristics: { livingArea: 92, rooms: 4 },
+        marketing: { shortDescription: "Loft lumineux face à la Saône." },
+      },
+    });
+    propertyId = property.id;
+    await propertiesService.patchById({ orgId, id: propertyId, data: { price: 450000 } });
+  });
+
+  afterAll(() => {
+    smtp.server.stop(true);
+    for (const key of smtpEnvKeys) {
+      if (previousEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = previousEnv[key];
+      }
+    }
+  });
+
+  it("crée, régénère et désactive le lien de réservation", async () => {
+    await expect(visitBookingService.getLink({ orgId, propertyId })).rejects.toMatchObject({
+      status: 404,
+      code: "BOOKING_LINK_NOT_FOUND",
+    });
+
+    const created = await visitBookingService.upsertLink({ orgId, propertyId });
+    expect(created).toMatchObject({ propertyId, enabled: true, requiresConfirmation: false });
+
+    const rotated = await visitBookingService.upsertLink({ orgId, propertyId, rotateToken: true });
+    expect(rotated.token).not.toBe(created.token);
+    expect((await publicRequest(created.token)).status).toBe(404);
+
+    await visitBookingService.upsertLink({ orgId, propertyId, enabled: false });
+    expect((await publicRequest(rotated.token)).status).toBe(404);
+    await visitBookingService.upsertLink({ orgId, propertyId, enabled: true });
+
+    await expect(
+      visitBookingService.getLink({ orgId: "org_demo", propertyId }),
+    ).rejects.toMatchObject({ status: 404, code: "PROPERTY_NOT_FOUND" });
+  });
+
+  it("affiche le bien et les créneaux libres sans authentification", async () => {
+    const { token } = await visitBookingService.getLink({ orgId, propertyId });
+    const response = await publicRequest(token);
+    expect(response.status).toBe(200);
+
+    const page = await response.json();
+    expect(page).toMatchObject({
+      agencyName: "Agence des Visites",
+      requiresConfirmation: false,
+      durationMinutes: 60,
+      property: {
+        title: "Loft Confluence",
+        city: "Lyon",
+        price: 450000,
+        livingArea: 92,
+        rooms: 4,
+        description: "Loft lumineux face à la Saône.",
+      },
+    });
+    expect(page.slots.length).toBeGreaterThan(0);
+    expect(Object.keys(page.slots[0]).sort()).toEqual(["endsAt", "startsAt"]);
+  });
+
+  it("réserve un créneau, crée le prospect et envoie la confirmation ICS", async () => {
+    const { token } = await visitBookingService.getLink({ orgId, propertyId });
+    const page = await (await publicRequest(token)).json();
+    const slot = page.slots[0];
+    const email = `Nina.${crypto.randomUUID()}@client.test`;
+
+    const response = await publicRequest(token, {
+      body: { firstName: "Nina", lastName: "Prospect", email, phone: "0611223344", startsAt: slot.startsAt },
+    });
+    expect(response.status).toBe(201);
+    const booking = await response.json();
+    expect(booking).toMatchObject({
+      startsAt: slot.startsAt,
+      endsAt: slot.endsAt,
+      status: "CONFIRMED",
+      confirmationEmailSent: true,
+    });
+
+    const prospect = await db.query.users.findFirst({ where: eq(users.email, email.toLowerCase()) });
+    expect(prospect).toMatchObject({ orgId, accountType: "CLIENT", firstName: "Nina" });
+    const visit = await db.query.propertyVisits.findFirst({ where: eq(propertyVisits.id, booking.visitId) });
+    expect(visit).toMatchObject({ propertyId, prospectUserId: prospect?.id, agentUserId: agentId });
+
+    const mail = smtp.received.at(-1);
+    expect(mail?.rcptTo).toEqual([`<${email.toLowerCase()}>`]);
+    expect(mail?.data).toContain('Content-Type: text/calendar; method=PUBLISH; name="visite.ics"');
+    const decoded = decodeBase64Parts(mail?.data ?? "");
+    expect(decoded).toContain("Bonjour Nina,");
+    expect(decoded).toContain("Votre visite du bien « Loft Confluence » est confirmée");
+    expect(decoded).toContain("BEGIN:VCALENDAR");
+    expect(decoded).toContain(`UID:visit-${booking.visitId}@monimmo`);
+    expect(decoded).toContain("LOCATION:12 quai Rambaud\\, 69002 Lyon");
+    expect(decoded).toContain("STATUS:CONFIRMED");
+
+    const outbound = await db.query.messages.findFirst({
+      where: and(eq(messages.orgId, orgId), eq(messages.direction, "OUTBOUND")),
+    });
+    expect(outbound).toMatchObject({ propertyId, channel: "EMAIL" });
+
+    // Le créneau pris n'est plus proposé et ne peut pas être réservé deux fois.
+    const again = await publicRequest(token, {
+      body: { firstName: "Nina", lastName: "Prospect", email, startsAt: slot.startsAt },
+    });
+    expect(again.status).toBe(409);
+    expect((await again.json()).code).toBe("BOOKING_SLOT_UNAVAILABLE");
+  });
+
+  it("ouvre un élément de revue quand l'agent doit confirmer", async () => {
+    const { token } = await visitBookingService.upsertLink({ orgId, propertyId, requiresConfirmation: true });
+    const page = await visitBookingService.getPublicPage({ token });
+    expect(page.requiresConfirmation).toBe(true);
+
+    const email = `omar.${crypto.randomUUID()}@client.test`;
+    const existing = await usersService.create({
+      orgId,
+      data: { firstName: "Omar", lastName: "Connu", email, accountType: "CLIENT" },
+    });
+
+    const booking = await visitBookingService.book({
+      token,
+      firstName: "Omar",
+      lastName: "Connu",
+      email: email.toUpperCase(),
+      startsAt: page.slots[0].startsAt,
+    });
+    expect(booking.status).toBe("PENDING_CONFIRMATION");
+
+    const visit = await db.query.propertyVisits.findFirst({ where: eq(propertyVisits.id, booking.visitId) });
+    expect(visit?.prospectUserId).toBe(existing.id);
+
+    const review = await db.query.reviewQueueItems.findFirst({
+      where: and(eq(reviewQueueItems.orgId, orgId), eq(reviewQueueItems.itemId, booking.visitId)),
+    });
+    expect(review).toMatchObject({
+      itemType: "VISIT",
+      reason: "PUBLIC_BOOKING_CONFIRMATION",
+      status: "OPEN",
+    });
+    expect(decodeBase64Parts(smtp.received.at(-1)?.data ?? "")).toContain("STATUS:TENTATIVE");
+  });
+
+  it("réserve sans rien révéler quand l'email est déjà pris ailleurs et l'envoie en revue", async () => {
+    const { token } = await visitBookingService.upsertLink({ orgId, propertyId, requiresConfirmation: false });
+    const otherAgencyEmail = `ines.${crypto.randomUUID()}@client.test`;
+    await usersService.create({
+      orgId: "org_demo",
+      data: { firstName: "Ines", lastName: "Ailleurs", email: otherAgencyEmail, accountType: "CLIENT" },
+    });
+    const agent = await db.query.users.findFirst({ where: eq(users.id, agentId) });
+
+    const bookings = [];
+    for (const email of [otherAgencyEmail, agent?.email ?? ""]) {
+      const page = await visitBookingService.getPublicPage({ token });
+      const response = await publicRequest(token, {
+        body: { firstName: "Ines", lastName: "Ailleurs", email, startsAt: page.slots[0].startsAt },
+      });
+      expect(response.status).toBe(201);
+      const booking = await response.json();
+      expect(Object.keys(booking).sort()).toEqual([
+        "confirmationEmailSent",
+        "endsAt",
+        "startsAt",
+        "status",
+        "visitId",
+      ]);
+      expect(booking).toMatchObject({ status: "CONFIRMED", confirmationEmailSent: true });
+      bookings.push({ booking, email });
+    }
+
+    for (const { booking, email } of bookings) {
+      const visit = await db.query.propertyVisits.findFirst({ where: eq(propertyVisits.id, booking.visitId) });
+      const prospect = await db.query.users.findFirst({ where: eq(users.id, visit?.prospectUserId ?? "") });
+      expect(prospect).toMatchObject({ orgId, accountType: "CLIENT", firstName: "Ines", email: null });
+
+      const review = await db.query.reviewQueueItems.findFirst({
+        where: and(eq(reviewQueueItems.orgId, orgId), eq(reviewQueueItems.itemId, booking.visitId)),
+      });
+      expect(review).toMatchObject({ itemType: "VISIT", reason: "PUBLIC_BOOKING_EMAIL_CONFLICT", status: "OPEN" });
+      expect(JSON.parse(review?.payload ?? "{}")).toMatchObject({ email: email.toLowerCase() });
+    }
+  });
+
+  it("traite le lien d'un bien vendu ou archivé comme introuvable", async () => {
+    const property = await propertiesService.create({
+      orgId,
+      title: "Studio Perrache",
+      city: "Lyon",
+      postalCode: "69002",
+      address: "5 cours de Verdun",
+    });
+    const { token } = await visitBookingService.upsertLink({ orgId, propertyId: property.id });
+    const page = await visitBookingService.getPublicPage({ token });
+
+    for (const status of ["VENDU", "ARCHIVE"]) {
+      await db.update(properties).set({ status }).where(eq(properties.id, property.id));
+      const pageResponse = await publicRequest(token);
+      expect(pageResponse.status).toBe(404);
+      expect((await pageResponse.json()).code).toBe("BOOKING_LINK_NOT_FOUND");
+
+      const bookResponse = await publicRequest(token, {
+        body: {
+          firstName: "Paul",
+          lastName: "Tardif",
+          email: `paul.${crypto.randomUUID()}@client.test`,
+          startsAt: page.slots[0].startsAt,
+        },
+      });
+      expect(bookResponse.status).toBe(404);
+    }
+  });
+
+  it("ne réserve qu'une fois un créneau sans agent demandé en parallèle", async () => {
+    const soloOrgId = `org_booking_solo_${crypto.randomUUID()}`;
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: soloOrgId, name: "Agence sans agent", createdAt, updatedAt: createdAt });
+    const property = await propertiesService.create({
+      orgId: soloOrgId,
+      title: "Maison Croix-Rousse",
+      city: "Lyon",
+      postalCode: "69004",
+      address: "3 rue d'Austerlitz",
+    });
+    const { token } = await visitBookingService.upsertLink({ orgId: soloOrgId, propertyId: property.id });
+    const page = await visitBookingService.getPublicPage({ token });
+    const startsAt = page.slots[0].startsAt;
+
+    const results = await Promise.allSettled(
+      ["Lea", "Marc"].map((firstName) =>
+        visitBookingService.book({
+          token,
+          firstName,
+          lastName: "Rapide",
+          email: `${firstName.toLowerCase()}.${crypto.randomUUID()}@client.test`,
+          startsAt,
+        }),
+      ),
+    );
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+    const rejected = results.find((result) => result.status === "rejected");
+    expect(rejected?.status === "rejected" ? rejected.reason : null).toMatchObject({
+      status: 409,
+      code: "BOOKING_SLOT_UNAVAILABLE",
+    });
+
+    const visits = await db.query.propertyVisits.findMany({ where: eq(propertyVisits.orgId, soloOrgId) });
+    expect(visits).toHaveLength(1);
+    expect(visits[0]?.agentUserId).toBeNull();
+  });
+
+  it("limite le débit des réservations publiques", async () => {
+    const previousMax = process.env.BOOKING_RATE_LIMIT_SUBMIT_MAX;
+    process.env.BOOKING_RATE_LIMIT_SUBMIT_MAX = "1";
+    resetAuthRateLimiterForTests();
+
+    try {
+      const body = { firstName: "Zoe", lastName: "Presse", email: "zoe@client.test", startsAt: "2020-01-01T09:00:00.000Z" };
+      const first = await publicRequest("jeton-inconnu", { body, ip: "203.0.113.77" });
+      const second = await publicRequest("jeton-inconnu", { body, ip: "203.0.113.77" });
+
+      expect(first.status).toBe(404);
+      expect(second.status).toBe(429);
+      expect((await second.json()).code).toBe("RATE_LIMIT_EXCEEDED");
+    } finally {
+      if (previousMax === undefined) {
+        delete process.env.BOOKING_RATE_LIMIT_SUBMIT_MAX;
+      } else {
+        process.env.BOOKING_RATE_LIMIT_SUBMIT_MAX = previousMax;
+      }
+      resetAuthRateLimiterForTests();
+    }
+  });
+
+  it("gère le lien depuis l'API authentifiée", async () => {
+    const response = await createApp().fetch(
+      new Request("http://localhost/auth/login", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email: DEMO_AUTH_EMAIL, password: DEMO_AUTH_PASSWORD }),
+      }),
+    );
+    const { accessToken } = await response.json();
+    const headers = { authorization: `Bearer ${accessToken}`, "content-type": "application/json" };
+    const property = await propertiesService.create({
+      orgId: "org_demo",
+      title: "Studio Part-Dieu",
+      city: "Lyon",
+      postalCode: "69003",
+      address: "5 rue Garibaldi",
+    });
+
+    const putResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/booking-link`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ requiresConfirmation: true }),
+      }),
+    );
+    expect(putResponse.status).toBe(200);
+    const link = await putResponse.json();
+    expect(link).toMatchObject({ propertyId: property.id, enabled: true, requiresConfirmation: true });
+
+    const getResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/booking-link`, { headers }),
+    );
+    expect(await getResponse.json()).toEqual(link);
+  });
+});
@@ -0,0 +1,382 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { aiJobsService } from "../src/ai/jobs";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { files, organizations, reviewQueueItems, vocals } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { propertiesService } from "../src/properties/service";
+import { sellerReportsService } from "../src/seller-reports/service";
+import { createApp } from "../src/server";
+import { getStorageProvider } from "../src/storage";
+import { usersService } from "../src/users/service";
+import { visitFeedbackService } from "../src/visit-feedback/service";
+import { startSmtpStandIn } from "./helpers/smtp-stand-in";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_feedback_${crypto.randomUUID()}`;
+const smtpEnvKeys = ["SMTP_HOST", "SMTP_PORT", "SMTP_FROM"] as const;
+const previousEnv = Object.fromEntries(smtpEnvKeys.map((key) => [key, process.env[key]]));
+const HOUR_MS = 60 * 60 * 1000;
+
+const createProperty = (input: { orgId: string; title: string }) =>
+  propertiesService.create({
+    orgId: input.orgId,
+    title: input.title,
+    city: "Lyon",
+    postalCode: "69003",
+    address: "8 rue Paul Bert",
+  });
+
+const createVisit = async (input: { orgId: string; propertyId: string; startsAt: Date }) => {
+  const prospect = await usersService.create({
+    orgId: input.orgId,
+    data: {
+      firstName: "Paul",
+      lastName: "Visiteur",
+      email: `paul.${crypto.randomUUID()}@client.test`,
+      phone: "0611223344",
+      accountType: "CLIENT",
+    },
+  });
+  return propertiesService.addVisit({
+    orgId: input.orgId,
+    propertyId: input.propertyId,
+    prospectUserId: prospect.id,
+    startsAt: input.startsAt.toISOString(),
+    endsAt: new Date(input.startsAt.getTime() + HOUR_MS).toISOString(),
+  });
+};
+
+const createVisitVocal = async (input: { orgId: string; propertyId: string; transcript: string }) => {
+  const file = await filesService.upload({
+    orgId: input.orgId,
+    propertyId: input.propertyId,
+    fileName: "compte-rendu.m4a",
+    mimeType: "audio/mp4",
+    size: 0,
+  });
+  const id = crypto.randomUUID();
+  const now = new Date();
+  await db.insert(vocals).values({
+    id,
+    orgId: input.orgId,
+    propertyId: input.propertyId,
+    fileId: file.id,
+    status: "TRANSCRIBED",
+    vocalType: "COMPTE_RENDU_VISITE_CLIENT",
+    transcript: input.transcript,
+    summary: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return id;
+};
+
+describe("retours de visite et reporting vendeur", () => {
+  const smtp = startSmtpStandIn();
+
+  beforeAll(async () => {
+    process.env.SMTP_HOST = "127.0.0.1";
+    process.env.SMTP_PORT = String(smtp.server.port);
+    process.env.SMTP_FROM = "Agence Test <contact@agence.test>";
+
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Pentes", createdAt, updatedAt: createdAt });
+  });
+
+  afterAll(() => {
+    smtp.server.stop(true);
+    for (const key of smtpEnvKeys) {
+      if (previousEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = previousEnv[key];
+      }
+    }
+  });
+
+  it("enregistre un retour saisi par l'agent", async () => {
+    const property = await createProperty({ orgId, title: "Appartement Guillotière" });
+    const visit = await createVisit({ orgId, propertyId: property.id, startsAt: new Date(Date.now() - HOUR_MS) });
+
+    await expect(visitFeedbackService.get({ orgId, visitId: visit.id })).rejects.toMatchObject({
+      status: 404,
+      code: "VISIT_FEEDBACK_NOT_FOUND",
+    });
+
+    const saved = await visitFeedbackService.upsert({
+      orgId,
+      visitId: visit.id,
+      data: {
+        interestLevel: "HIGH",
+        perceivedPrice: "FAIR",
+        positives: ["Luminosité", " luminosité ", "Balcon"],
+        negatives: [""],
+        offerIntention: "MAYBE",
+      },
+    });
+
+    expect(saved).toMatchObject({
+      visitId: visit.id,
+      propertyId: property.id,
+      interestLevel: "HIGH",
+      perceivedPrice: "FAIR",
+      positives: ["Luminosité", "Balcon"],
+      negatives: [],
+      offerIntention: "MAYBE",
+      source: "MANUAL",
+      vocalId: null,
+    });
+  });
+
+  it("extrait le retour d'un compte rendu vocal sans écraser la saisie manuelle", async () => {
+    const property = await createProperty({ orgId, title: "Maison Monplaisir" });
+    const visit = await createVisit({ orgId, propertyId: property.id, startsAt: new Date(Date.now() - 2 * HOUR_MS) });
+    const vocalId = await createVisitVocal({
+      orgId,
+      propertyId: property.id,
+      transcript:
+        "Les acheteurs sont très intéressés, ils ont adoré le jardin et le calme, mais trouvent le bien trop cher " +
+        "et il y a des travaux dans la cuisine. Ils vont réfléchir.",
+    });
+
+    await aiJobsService.extractVocalInsights({ orgId, vocalId });
+    const extracted = await visitFeedbackService.get({ orgId, visitId: visit.id });
+    expect(extracted).toMatchObject({
+      interestLevel: "HIGH",
+      perceivedPrice: "TOO_HIGH",
+      offerIntention: "MAYBE",
+      source: "AI",
+      vocalId,
+    });
+    expect(extracted.positives).toContain("Calme");
+    expect(extracted.negatives).toContain("Travaux à prévoir");
+
+    await visitFeedbackService.upsert({
+      orgId,
+      visitId: visit.id,
+      data: { ...extracted, offerIntention: "YES" },
+    });
+    const skipped = await visitFeedbackService.extractFromVocal({ orgId, vocalId });
+    expect(skipped.status).toBe("SKIPPED");
+    expect((await visitFeedbackService.get({ orgId, visitId: visit.id })).offerIntention).toBe("YES");
+
+    // Une extraction explicite depuis la visite remplace la saisie.
+    const forced = await visitFeedbackService.extractFromVocal({ orgId, vocalId, visitId: visit.id });
+    expect(forced.status).toBe("UPDATED");
+    expect(forced.feedback?.source).toBe("AI");
+  });
+
+  it("envoie en revue un compte rendu sans visite ou trop vague", async () => {
+    const property = await createProperty({ orgId, title: "Studio Jean Macé" });
+    const orphanVocalId = await createVisitVocal({
+      orgId,
+      propertyId: property.id,
+      transcript: "Très intéressés, prix correct.",
+    });
+    const orphan = await visitFeedbackService.extractFromVocal({ orgId, vocalId: orphanVocalId });
+    expect(orphan).toMatchObject({ status: "REVIEW_REQUIRED", reason: "missing_visit" });
+
+    const visit = await createVisit({ orgId, propertyId: property.id, startsAt: new Date(Date.now() - HOUR_MS) });
+    const vagueVocalId = await createVisitVocal({
+      orgId,
+      propertyId: property.id,
+      transcript: "Visite faite ce matin avec le couple.",
+    });
+    const vague = await visitFeedbackService.extractFromVocal({ orgId, vocalId: vagueVocalId, visitId: visit.id });
+    expect(vague).toMatchObject({ status: "REVIEW_REQUIRED", reason: "low_confidence" });
+
+    const item = await db.query.reviewQueueItems.findFirst({
+      where: and(eq(reviewQueueItems.orgId, orgId), eq(reviewQueueItems.itemId, vagueVocalId)),
+    });
+    expect(item?.reason).toBe("VOCAL_VISIT_FEEDBACK_LOW_CONFIDENCE");
+
+    const otherProperty = await createProperty({ orgId, title: "Duplex Saxe" });
+    const otherVisit = await createVisit({
+      orgId,
+      propertyId: otherProperty.id,
+      startsAt: new Date(Date.now() - HOUR_MS),
+    });
+    await expect(
+      visitFeedbackService.extractFromVocal({ orgId, vocalId: vagueVocalId, visitId: otherVisit.id }),
+    ).rejects.toMatchObject({ status: 400, code: "VISIT_VOCAL_PROPERTY_MISMATCH" });
+  });
+
+  it("génère le reporting vendeur et l'envoie aux propriétaires", async () => {
+    const property = await createProperty({ orgId, title: "Appartement Préfecture" });
+    const now = Date.now();
+    const recentVisits = await Promise.all([
+      createVisit({ orgId, propertyId: property.id, startsAt: new Date(now - 3 * 24 * HOUR_MS) }),
+      createVisit({ orgId, propertyId: property.id, startsAt: new Date(now - 5 * 24 * HOUR_MS) }),
+    ]);
+    const olderVisit = await createVisit({ orgId, propertyId: property.id, startsAt: new Date(now - 40 * 24 * HOUR_MS) });
+    for (const visit of recentVisits) {
+      await visitFeedbackService.upsert({
+        orgId,
+        visitId: visit.id,
+        data: {
+          interestLevel: "MEDIUM",
+          perceivedPrice: "TOO_HIGH",
+          positives: ["Vue"],
+          negatives: ["Bruit"],
+          offerIntention: "NO",
+        },
+      });
+    }
+    await visitFeedbackService.upsert({
+      orgId,
+      visitId: olderVisit.id,
+      data: { interestLevel: "HIGH", perceivedPrice: "FAIR", positives: [], negatives: [], offerIntention: "YES" },
+    });
+
+    await expect(
+      sellerReportsService.generate({
+        orgId,
+        propertyId: property.id,
+        from: "2026-03-10T00:00:00.000Z",
+        to: "2026-03-01T00:00:00.000Z",
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "INVALID_REPORT_PERIOD" });
+
+    const report = await sellerReportsService.generate({ orgId, propertyId: property.id });
+    expect(report.current).toMatchObject({
+      visits: 2,
+      feedbackCount: 2,
+      interestLevels: { LOW: 0, MEDIUM: 2, HIGH: 0 },
+      perceivedPrices: { TOO_HIGH: 2, FAIR: 0, LOW: 0 },
+      offerIntentions: { YES: 0, MAYBE: 0, NO: 2 },
+      topPositives: [{ label: "Vue", count: 2 }],
+      topNegatives: [{ label: "Bruit", count: 2 }],
+    });
+    expect(report.previous).toMatchObject({ visits: 1, feedbackCount: 1 });
+    expect(report.comparables).toBeNull();
+    expect(report.ownerEmails).toEqual([]);
+
+    const file = await db.query.files.findFirst({
+      where: and(eq(files.id, report.fileId), eq(files.orgId, orgId)),
+    });
+    expect(file).toMatchObject({
+      propertyId: property.id,
+      typeDocument: "REPORTING_VENDEUR",
+      mimeType: "application/pdf",
+    });
+    const pdf = new TextDecoder().decode((await getStorageProvider().getObject(file!.storageKey)).data);
+    expect(pdf).toContain("(Reporting vendeur) Tj");
+    expect(pdf).toContain("(Visites r\\351alis\\351es: 2 \\(p\\351riode pr\\351c\\351dente: 1\\)) Tj");
+    expect(pdf).toContain("(La majorit\\351 des visiteurs jugent le prix trop \\351lev\\351.) Tj");
+
+    await expect(
+      sellerReportsService.send({ orgId, propertyId: property.id, fileId: report.fileId }),
+    ).rejects.toMatchObject({ status: 400, code: "SELLER_REPORT_NO_OWNER_EMAIL" });
+
+    const ownerEmail = `proprietaire.${crypto.randomUUID()}@client.test`;
+    await propertiesService.addProspect({
+      orgId,
+      propertyId: property.id,
+      relationRole: "OWNER",
+      newClient: { firstName: "Claire", lastName: "Vendeuse", phone: "0600000000", email: ownerEmail },
+    });
+
+    const sent = await sellerReportsService.send({ orgId, propertyId: property.id, fileId: report.fileId });
+    expect(sent).toMatchObject({
+      direction: "OUTBOUND",
+      propertyId: property.id,
+      toAddresses: [ownerEmail],
+      fileIds: [report.fileId],
+    });
+    const mail = smtp.received.at(-1);
+    expect(mail?.rcptTo).toEqual([`<${ownerEmail}>`]);
+    expect(mail?.data).toContain(`filename="${report.fileName}"`);
+
+    const otherProperty = await createProperty({ orgId, title: "Loft Part-Dieu" });
+    await expect(
+      sellerReportsService.send({ orgId, propertyId: otherProperty.id, fileId: report.fileId }),
+    ).rejects.toMatchObject({ status: 404, code: "SELLER_REPORT_NOT_FOUND" });
+  });
+
+  it("expose les retours et le reporting via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}`, "content-type": "application/json" };
+    const property = await createProperty({ orgId: "org_demo", title: "Maison Vaise" });
+    const visit = await createVisit({
+      orgId: "org_demo",
+      propertyId: property.id,
+      startsAt: new Date(Date.now() - HOUR_MS),
+    });
+
+    const missingResponse = await createApp().fetch(
+      new Request(`http://localhost/visits/${visit.id}/feedback`, { headers }),
+    );
+    expect(missingResponse.status).toBe(404);
+
+    const invalidResponse = await createApp().fetch(
+      new Request(`http://localhost/visits/${visit.id}/feedback`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ interestLevel: "ENORME" }),
+      }),
+    );
+    expect(invalidResponse.status).toBe(400);
+
+    const putResponse = await createApp().fetch(
+      new Request(`http://localhost/visits/${visit.id}/feedback`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ interestLevel: "LOW", negatives: ["Surface"] }),
+      }),
+    );
+    expect(putResponse.status).toBe(200);
+    expect(await putResponse.json()).toMatchObject({
+      interestLevel: "LOW",
+      perceivedPrice: null,
+      positives: [],
+      negatives: ["Surface"],
+      source: "MANUAL",
+    });
+
+    const reportResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/seller-reports`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({}),
+      }),
+    );
+    expect(reportResponse.status).toBe(201);
+    const report = await reportResponse.json();
+    expect(report).toMatchObject({
+      propertyId: property.id,
+      fileName: expect.stringMatching(/^reporting-vendeur-\d{4}-\d{2}-\d{2}\.pdf$/),
+      current: { visits: 1, feedbackCount: 1 },
+    });
+
+    const sendResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/seller-reports/fichier-inconnu/send`, {
+        method: "POST",
+        headers,
+      }),
+    );
+    expect(sendResponse.status).toBe(404);
+  });
+});
@@ -0,0 +1,315 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { calendarEvents, organizations, properties } from "../src/db/schema";
+import { propertiesService } from "../src/properties/service";
+import { listFreeVisitSlots } from "../src/properties/visit-slots";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+import { agentWorkingHoursService } from "../src/users/working-hours";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_slots_${crypto.randomUUID()}`;
+// Lundi 2 mars 2026, heure d'hiver: Paris = UTC+1.
+const MONDAY = new Date("2026-03-02T00:00:00.000Z");
+
+const createProperty = async (title: string, coordinates: { lat: number; lng: number }) => {
+  const property = await propertiesService.create({
+    orgId,
+    title,
+    city: "Lyon",
+    postalCode: "69001",
+    address: "1 place des Terreaux",
+  });
+  // Le géocodage est indisponible en test: on fixe directement les coordonnées.
+  await db
+    .update(properties)
+    .set({ details: JSON.stringify({ gpsLat: coordinates.lat, gpsLng: coordinates.lng }) })
+    .where(eq(properties.id, property.id));
+  return property.id;
+};
+
+describe("visit slots", () => {
+  let firstAgentId = "";
+  let secondAgentId = "";
+  let prospectId = "";
+  let terreauxId = "";
+  let villeurbanneId = "";
+
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence des Créneaux", createdAt, updatedAt: createdAt });
+
+    const createAgent = async (firstName: string) =>
+      (
+        await usersService.create({
+          orgId,
+          data: {
+            firstName,
+            lastName: "Agent",
+            email: `${firstName.toLowerCase()}.${crypto.randomUUID()}@agence.test`,
+            accountType: "AGENT",
+          },
+        })
+      ).id;
+    firstAgentId = await createAgent("Alice");
+    secondAgentId = await createAgent("Bruno");
+    prospectId = (
+      await usersService.create({
+        orgId,
+        data: { firstName: "Paula", lastName: "Prospect", phone: "0611223344", accountType: "CLIENT" },
+      })
+    ).id;
+
+    terreauxId = await createProperty("Appartement Terreaux", { lat: 45.7676, lng: 4.8344 });
+    // Environ 4,4 km: 9 minutes de trajet à 30 km/h, soit une marge de 20 minutes.
+    villeurbanneId = await createProperty("Maison Villeurbanne", { lat: 45.7719, lng: 4.8902 });
+  });
+
+  it("gère les plages de travail par agent", async () => {
+    expect(await agentWorkingHoursService.get({ orgId, userId: secondAgentId })).toMatchObject({
+      isDefault: true,
+      items: expect.arrayContaining([{ weekday: 1, startTime: "09:00", endTime: "19:00" }]),
+    });
+
+    const updated = await agentWorkingHoursService.replace({
+      orgId,
+      userId: firstAgentId,
+      items: [{ weekday: 1, startTime: "14:00", endTime: "18:00" }],
+    });
+    expect(updated).toEqual({
+      userId: firstAgentId,
+      isDefault: false,
+      items: [{ weekday: 1, startTime: "14:00", endTime: "18:00" }],
+    });
+
+    await expect(
+      agentWorkingHoursService.replace({
+        orgId,
+        userId: firstAgentId,
+        items: [{ weekday: 2, startTime: "18:00", endTime: "09:00" }],
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "INVALID_WORKING_HOURS" });
+    await expect(agentWorkingHoursService.get({ orgId, userId: prospectId })).rejects.toMatchObject({
+      status: 400,
+      code: "USER_NOT_AGENT",
+    });
+  });
+
+  it("écarte visites, temps de trajet et agenda synchronisé", async () => {
+    // Visite d'Alice à Villeurbanne, lundi 14h-15h.
+    const visit = await propertiesService.addVisit({
+      orgId,
+      propertyId: villeurbanneId,
+      prospectUserId: prospectId,
+      agentUserId: firstAgentId,
+      startsAt: "2026-03-02T13:00:00.000Z",
+      endsAt: "2026-03-02T14:00:00.000Z",
+    });
+    expect(visit.agentUserId).toBe(firstAgentId);
+
+    const createdAt = new Date();
+    await db.insert(calendarEvents).values({
+      id: crypto.randomUUID(),
+      orgId,
+      provider: "GOOGLE_CALENDAR",
+      externalId: `evt_${crypto.randomUUID()}`,
+      title: "Rendez-vous banque",
+      startsAt: new Date("2026-03-02T15:00:00.000Z"),
+      endsAt: new Date("2026-03-02T16:00:00.000Z"),
+      createdAt,
+      updatedAt: createdAt,
+    });
+
+    const aliceSlots = (propertyId: string) =>
+      listFreeVisitSlots({ orgId, propertyId, agentUserId: firstAgentId, from: MONDAY, days: 1, limit: 10 });
+
+    expect((await aliceSlots(terreauxId)).map((slot) => slot.startsAt)).toEqual(["2026-03-02T16:00:00.000Z"]);
+    expect((await aliceSlots(villeurbanneId)).map((slot) => slot.startsAt)).toEqual([
+      "2026-03-02T14:00:00.000Z",
+      "2026-03-02T16:00:00.000Z",
+    ]);
+
+    const anyAgent = await listFreeVisitSlots({ orgId, propertyId: terreauxId, from: MONDAY, days: 1, limit: 1 });
+    expect(anyAgent).toEqual([
+      { startsAt: "2026-03-02T08:00:00.000Z", endsAt: "2026-03-02T09:00:00.000Z", agentUserId: secondAgentId },
+    ]);
+  });
+
+  it("refuse une visite hors horaires ou en conflit pour l'agent", async () => {
+    await expect(
+      propertiesService.addVisit({
+        orgId,
+        propertyId: terreauxId,
+        prospectUserId: prospectId,
+        agentUserId: firstAgentId,
+        startsAt: "2026-03-02T14:10:00.000Z",
+        endsAt: "2026-03-02T14:40:00.000Z",
+      }),
+    ).rejects.toMatchObject({
+      status: 409,
+      code: "VISIT_SLOT_CONFLICT",
+      details: { conflicts: [{ type: "VISIT", bufferMinutes: 20 }] },
+    });
+
+    await expect(
+      propertiesService.addVisit({
+        orgId,
+        propertyId: terreauxId,
+        prospectUserId: prospectId,
+        agentUserId: firstAgentId,
+        startsAt: "2026-03-02T09:00:00.000Z",
+        endsAt: "2026-03-02T10:00:00.000Z",
+      }),
+    ).rejects.toMatchObject({ status: 400, code: "VISIT_OUTSIDE_WORKING_HOURS" });
+
+  });
+
+  it("limite les conflits d'une visite sans agent à son bien", async () => {
+    const withoutAgent = await propertiesService.addVisit({
+      orgId,
+      propertyId: terreauxId,
+      prospectUserId: prospectId,
+      startsAt: "2026-03-02T08:00:00.000Z",
+      endsAt: "2026-03-02T08:30:00.000Z",
+    });
+    expect(withoutAgent.agentUserId).toBeNull();
+
+    // Autre bien, même heure, sans agent: rien ne se chevauche, ni l'agenda synchronisé.
+    const elsewhere = await propertiesService.addVisit({
+      orgId,
+      propertyId: villeurbanneId,
+      prospectUserId: prospectId,
+      startsAt: "2026-03-02T08:00:00.000Z",
+      endsAt: "2026-03-02T08:30:00.000Z",
+    });
+    expect(elsewhere.agentUserId).toBeNull();
+    await propertiesService.addVisit({
+      orgId,
+      propertyId: villeurbanneId,
+      prospectUserId: prospectId,
+      startsAt: "2026-03-02T15:30:00.000Z",
+      endsAt: "2026-03-02T15:45:00.000Z",
+    });
+
+    await expect(
+      propertiesService.addVisit({
+        orgId,
+        propertyId: terreauxId,
+        prospectUserId: prospectId,
+        startsAt: "2026-03-02T08:15:00.000Z",
+        endsAt: "2026-03-02T08:45:00.000Z",
+      }),
+    ).rejects.toMatchObject({
+      status: 409,
+      code: "VISIT_SLOT_CONFLICT",
+      details: { conflicts: [{ type: "VISIT", id: withoutAgent.id, bufferMinutes: 0 }] },
+    });
+    await expect(
+      propertiesService.addVisit({
+        orgId,
+        propertyId: terreauxId,
+        prospectUserId: prospectId,
+        agentUserId: secondAgentId,
+        startsAt: "2026-03-02T08:00:00.000Z",
+        endsAt: "2026-03-02T08:30:00.000Z",
+      }),
+    ).rejects.toMatchObject({ status: 409, code: "VISIT_SLOT_CONFLICT" });
+
+    // Une visite non attribuée sur un autre bien ne bloque pas l'agent.
+    await propertiesService.addVisit({
+      orgId,
+      propertyId: villeurbanneId,
+      prospectUserId: prospectId,
+      startsAt: "2026-03-02T09:30:00.000Z",
+      endsAt: "2026-03-02T10:00:00.000Z",
+    });
+    const assigned = await propertiesService.addVisit({
+      orgId,
+      propertyId: terreauxId,
+      prospectUserId: prospectId,
+      agentUserId: secondAgentId,
+      startsAt: "2026-03-02T09:30:00.000Z",
+      endsAt: "2026-03-02T10:00:00.000Z",
+    });
+    expect(assigned.agentUserId).toBe(secondAgentId);
+  });
+
+  it("expose créneaux et horaires via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}`, "content-type": "application/json" };
+    const property = await propertiesService.create({
+      orgId: "org_demo",
+      title: "Studio Bellecour",
+      city: "Lyon",
+      postalCode: "69002",
+      address: "3 place Bellecour",
+    });
+
+    const slotsResponse = await createApp().fetch(
+      new Request(
+        `http://localhost/properties/${property.id}/visit-slots?from=2030-01-07T00:00:00.000Z&days=2&durationMinutes=45&limit=3`,
+        { headers },
+      ),
+    );
+    expect(slotsResponse.status).toBe(200);
+    const slots = await slotsResponse.json();
+    expect(slots.items).toHaveLength(3);
+    expect(
+      new Date(slots.items[0].endsAt).getTime() - new Date(slots.items[0].startsAt).getTime(),
+    ).toBe(45 * 60_000);
+
+    const invalidResponse = await createApp().fetch(
+      new Request(`http://localhost/properties/${property.id}/visit-slots?days=0`, { headers }),
+    );
+    expect(invalidResponse.status).toBe(400);
+
+    const agent = await usersService.create({
+      orgId: "org_demo",
+      data: {
+        firstName: "Agathe",
+        lastName: "Horaires",
+        email: `agathe.${crypto.randomUUID()}@monimmo.fr`,
+        accountType: "AGENT",
+      },
+    });
+    const putResponse = await createApp().fetch(
+      new Request(`http://localhost/users/${agent.id}/working-hours`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ items: [{ weekday: 3, startTime: "08:30", endTime: "12:00" }] }),
+      }),
+    );
+    expect(putResponse.status).toBe(200);
+    const getResponse = await createApp().fetch(
+      new Request(`http://localhost/users/${agent.id}/working-hours`, { headers }),
+    );
+    expect(await getResponse.json()).toEqual({
+      userId: agent.id,
+      isDefault: false,
+      items: [{ weekday: 3, startTime: "08:30", endTime: "12:00" }],
+    });
+  });
+});
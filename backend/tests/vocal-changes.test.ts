@@ -0,0 +1,232 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { objectChanges, organizations, vocals } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { linksService } from "../src/links/service";
+import { propertiesService } from "../src/properties/service";
+import { createApp } from "../src/server";
+import { usersService } from "../src/users/service";
+import { vocalChangesService } from "../src/vocal-changes/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_vocal_changes_${crypto.randomUUID()}`;
+
+const createFollowUpVocal = async (input: {
+  orgId: string;
+  propertyId: string | null;
+  prospectUserId: string | null;
+  insights: Record<string, unknown>;
+}) => {
+  const file = await filesService.upload({
+    orgId: input.orgId,
+    fileName: "suivi.m4a",
+    mimeType: "audio/mp4",
+    size: 0,
+  });
+  const id = crypto.randomUUID();
+  const now = new Date();
+  await db.insert(vocals).values({
+    id,
+    orgId: input.orgId,
+    propertyId: input.propertyId,
+    prospectUserId: input.prospectUserId,
+    fileId: file.id,
+    status: "INSIGHTS_READY",
+    vocalType: "VISITE_SUIVI",
+    transcript: "Point de suivi avec le vendeur et l'acquéreur.",
+    summary: null,
+    insights: JSON.stringify(input.insights),
+    createdAt: now,
+    updatedAt: now,
+  });
+  return id;
+};
+
+const createPropertyAndProspect = async (targetOrgId: string) => {
+  const property = await propertiesService.create({
+    orgId: targetOrgId,
+    title: "Maison Croix-Rousse",
+    city: "Lyon",
+    postalCode: "69004",
+    address: "12 rue d'Austerlitz",
+  });
+  await propertiesService.patchById({
+    orgId: targetOrgId,
+    id: property.id,
+    data: { details: { netSellerPrice: 300000, rooms: 5 } },
+  });
+  const prospect = await usersService.create({
+    orgId: targetOrgId,
+    data: {
+      firstName: "Paul",
+      lastName: "Acquéreur",
+      email: `paul.${crypto.randomUUID()}@client.test`,
+      accountType: "CLIENT",
+    },
+  });
+  return { property, prospect };
+};
+
+describe("modifications proposées depuis un vocal", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence Croix-Rousse", createdAt, updatedAt: createdAt });
+  });
+
+  it("compare les insights aux valeurs du bien et du lien prospect", async () => {
+    const { property, prospect } = await createPropertyAndProspect(orgId);
+    const vocalId = await createFollowUpVocal({
+      orgId,
+      propertyId: property.id,
+      prospectUserId: prospect.id,
+      insights: { netSellerPrice: 285000, budget: 280000, nextAction: "Rappeler jeudi" },
+    });
+
+    const proposals = await vocalChangesService.list({ orgId, vocalId });
+    expect(proposals).toMatchObject({ propertyId: property.id, prospectUserId: prospect.id, linkId: null });
+    expect(proposals.items).toEqual([
+      {
+        key: "budget",
+        name: "Budget",
+        type: "int",
+        target: "bien_user",
+        currentValue: null,
+        proposedValue: 280000,
+        changed: true,
+      },
+      {
+        key: "netSellerPrice",
+        name: "Prix net vendeur",
+        type: "int",
+        target: "bien",
+        currentValue: 300000,
+        proposedValue: 285000,
+        changed: true,
+      },
+    ]);
+
+    const withoutProspect = await createFollowUpVocal({
+      orgId,
+      propertyId: property.id,
+      prospectUserId: null,
+      insights: { netSellerPrice: 300000, budget: 280000 },
+    });
+    const bienOnly = await vocalChangesService.list({ orgId, vocalId: withoutProspect });
+    expect(bienOnly.items).toEqual([expect.objectContaining({ key: "netSellerPrice", changed: false })]);
+  });
+
+  it("applique les champs acceptés un par un en mode AI", async () => {
+    const { property, prospect } = await createPropertyAndProspect(orgId);
+    const vocalId = await createFollowUpVocal({
+      orgId,
+      propertyId: property.id,
+      prospectUserId: prospect.id,
+      insights: { netSellerPrice: 285000, budget: 280000 },
+    });
+
+    const afterPrice = await vocalChangesService.apply({ orgId, vocalId, keys: ["netSellerPrice"] });
+    expect(afterPrice.items.find((item) => item.key === "netSellerPrice")).toMatchObject({
+      currentValue: 285000,
+      changed: false,
+    });
+    expect(afterPrice.items.find((item) => item.key === "budget")?.changed).toBe(true);
+
+    const updatedProperty = await propertiesService.getById({ orgId, id: property.id });
+    expect(updatedProperty.details).toMatchObject({ netSellerPrice: 285000, rooms: 5 });
+
+    const bienChanges = await db
+      .select()
+      .from(objectChanges)
+      .where(and(eq(objectChanges.orgId, orgId), eq(objectChanges.objectId, property.id), eq(objectChanges.mode, "AI")));
+    expect(bienChanges.map((change) => [change.paramName, change.paramValue])).toEqual([["netSellerPrice", "285000"]]);
+
+    const afterBudget = await vocalChangesService.apply({ orgId, vocalId, keys: ["budget"] });
+    expect(afterBudget.linkId).not.toBeNull();
+    const link = await linksService.getById({ orgId, id: afterBudget.linkId! });
+    expect(link).toMatchObject({ objectId1: property.id, objectId2: prospect.id, params: { budget: 280000 } });
+
+    const linkChanges = await db
+      .select()
+      .from(objectChanges)
+      .where(and(eq(objectChanges.orgId, orgId), eq(objectChanges.objectId, link.id)));
+    expect(linkChanges).toEqual([
+      expect.objectContaining({ objectType: "lien", paramName: "budget", paramValue: "280000", mode: "AI" }),
+    ]);
+
+    await expect(
+      vocalChangesService.apply({ orgId, vocalId, keys: ["nextAction"] }),
+    ).rejects.toMatchObject({ status: 400, code: "VOCAL_CHANGE_NOT_FOUND" });
+  });
+
+  it("rattache le prospect et applique les modifications via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}`, "content-type": "application/json" };
+    const { property, prospect } = await createPropertyAndProspect("org_demo");
+    const vocalId = await createFollowUpVocal({
+      orgId: "org_demo",
+      propertyId: property.id,
+      prospectUserId: null,
+      insights: { budget: 310000 },
+    });
+
+    const patched = await createApp().fetch(
+      new Request(`http://localhost/vocals/${vocalId}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ prospectUserId: prospect.id }),
+      }),
+    );
+    expect(patched.status).toBe(200);
+    expect(await patched.json()).toMatchObject({ propertyId: property.id, prospectUserId: prospect.id });
+
+    const listed = await createApp().fetch(
+      new Request(`http://localhost/vocals/${vocalId}/proposed-changes`, { headers }),
+    );
+    expect(listed.status).toBe(200);
+    expect((await listed.json()).items).toEqual([expect.objectContaining({ key: "budget", target: "bien_user" })]);
+
+    const emptyApply = await createApp().fetch(
+      new Request(`http://localhost/vocals/${vocalId}/proposed-changes/apply`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ keys: [] }),
+      }),
+    );
+    expect(emptyApply.status).toBe(400);
+
+    const applied = await createApp().fetch(
+      new Request(`http://localhost/vocals/${vocalId}/proposed-changes/apply`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ keys: ["budget"] }),
+      }),
+    );
+    expect(applied.status).toBe(200);
+    expect((await applied.json()).items).toEqual([
+      expect.objectContaining({ key: "budget", currentValue: 310000, changed: false }),
+    ]);
+  });
+});
@@ -0,0 +1,488 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { getAIProviderForOrg } from "../src/ai";
+import { aiJobsService } from "../src/ai/jobs";
+import type { TranscribeVocalInput, TranscribeVocalResult } from "../src/ai/provider";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { files, organizations, reviewQueueItems, vocals, vocalTranscriptionChunks } from "../src/db/schema";
+import { closeAiQueueClient } from "../src/queues/client";
+import { closeQueueRedisConnection } from "../src/queues/connection";
+import { getStorageProvider } from "../src/storage";
+import { splitVocalAudio, VOCAL_CHUNK_MAX_BYTES } from "../src/vocals/audio-format";
+import { vocalsService } from "../src/vocals/service";
+import { stitchVocalTranscription } from "../src/vocals/transcript-segments";
+
+const orgId = `org_vocal_chunks_${crypto.randomUUID()}`;
+
+// WAV PCM 8 kHz mono 8 bits: 8 octets par milliseconde.
+const buildWav = (durationMs: number): Uint8Array => {
+  const dataLength = durationMs * 8;
+  const output = new Uint8Array(44 + dataLength);
+  const view = new DataView(output.buffer);
+  output.set(new TextEncoder().encode("RIFF"), 0);
+  view.setUint32(4, 36 + dataLength, true);
+  output.set(new TextEncoder().encode("WAVEfmt "), 8);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, 8000, true);
+  view.setUint32(28, 8000, true);
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  output.set(new TextEncoder().encode("data"), 36);
+  view.setUint32(40, dataLength, true);
+  output.fill(128, 44);
+  return output;
+};
+
+const readWavDataLength = (data: Uint8Array): number =>
+  new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(40, true);
+
+const ascii = (value: string): number[] => [...value].map((character) => character.charCodeAt(0));
+const uint32 = (value: number): number[] => [value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+
+const ebmlElement = (id: number[], body: number[]): number[] => [...id, 0x01, 0, 0, 0, ...uint32(body.length), ...body];
+
+// WebM façon MediaRecorder: Segment et clusters de taille inconnue, un cluster toutes les 2 s,
+// un bloc Opus factice toutes les 20 ms.
+const buildWebm = (durationMs: number): Uint8Array => {
+  const unknownSize = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+  const clusters: number[] = [];
+  for (let clusterMs = 0; clusterMs < durationMs; clusterMs += 2_000) {
+    clusters.push(0x1f, 0x43, 0xb6, 0x75, ...unknownSize, ...ebmlElement([0xe7], [clusterMs >> 8, clusterMs & 0xff]));
+    for (let relativeMs = 0; relativeMs < 2_000 && clusterMs + relativeMs < durationMs; relativeMs += 20) {
+      clusters.push(...ebmlElement([0xa3], [0x81, relativeMs >> 8, relativeMs & 0xff, 0x80, 0xfc, 0xff, 0xfe]));
+    }
+  }
+  return new Uint8Array([
+    ...ebmlElement([0x1a, 0x45, 0xdf, 0xa3], ebmlElement([0x42, 0x82], ascii("webm"))),
+    0x18, 0x53, 0x80, 0x67, ...unknownSize,
+    ...ebmlElement([0x15, 0x49, 0xa9, 0x66], [
+      ...ebmlElement([0x2a, 0xd7, 0xb1], [0x0f, 0x42, 0x40]),
+      ...ebmlElement([0x44, 0x89], [0x46, 0xc3, 0x50, 0x00]),
+    ]),
+    ...ebmlElement([0x16, 0x54, 0xae, 0x6b], ebmlElement([0xae], [...ebmlElement([0xd7], [1]), ...ebmlElement([0x86], ascii("A_OPUS"))])),
+    ...clusters,
+  ]);
+};
+
+// Ogg Opus sans pré-saut: une page par seconde, 50 paquets de 20 ms (960 échantillons à 48 kHz).
+const buildOggOpus = (durationMs: number): Uint8Array => {
+  const page = (headerType: number, granule: number, sequence: number, packets: number[][]) => {
+    const header = new Uint8Array(27);
+    const view = new DataView(header.buffer);
+    header.set(ascii("OggS"), 0);
+    header[5] = headerType;
+    view.setBigInt64(6, BigInt(granule), true);
+    view.setUint32(14, 7, true);
+    view.setUint32(18, sequence, true);
+    header[26] = packets.length;
+    return [...header, ...packets.map((packet) => packet.length), ...packets.flat()];
+  };
+  const bytes = [
+    ...page(0x02, 0, 0, [[...ascii("OpusHead"), 1, 1, 0, 0, 0x80, 0xbb, 0, 0, 0, 0, 0]]),
+    ...page(0, 0, 1, [[...ascii("OpusTags"), 0, 0, 0, 0, 0, 0, 0, 0]]),
+  ];
+  for (let second = 1; second * 1000 <= durationMs; second += 1) {
+    bytes.push(...page(0, second * 48_000, second + 1, Array.from({ length: 50 }, () => [0xfc, 0xff, 0xfe])));
+  }
+  return new Uint8Array(bytes);
+};
+
+// M4A: échantillons de 100 ms (échelle 1000), 10 par chunk, avec une liste d'édition.
+const buildM4a = (durationMs: number): Uint8Array => {
+  const box = (type: string, ...parts: number[][]): number[] => {
+    const body = parts.flat();
+    return [...uint32(8 + body.length), ...ascii(type), ...body];
+  };
+  const fullBox = (type: string, ...values: number[]) => box(type, [0, 0, 0, 0], ...values.map(uint32));
+  const sampleCount = durationMs / 100;
+  const samples = Array.from({ length: sampleCount }, (_, index) => uint32(index));
+  const moov = (firstChunkOffset: number) =>
+    box(
+      "moov",
+      fullBox("mvhd", 0, 0, 1000, durationMs),
+      box(
+        "trak",
+        fullBox("tkhd", 0, 0, 1, 0, durationMs),
+        box("edts", fullBox("elst", 1, durationMs, 0, 0x0001_0000)),
+        box(
+          "mdia",
+          fullBox("mdhd", 0, 0, 1000, durationMs, 0),
+          box("hdlr", [0, 0, 0, 0, 0, 0, 0, 0], ascii("soun")),
+          box(
+            "minf",
+            box(
+              "stbl",
+              fullBox("stsd", 0),
+              fullBox("stts", 1, sampleCount, 100),
+              fullBox("stsc", 1, 1, 10, 1),
+              fullBox("stsz", 0, sampleCount, ...samples.map(() => 4)),
+              fullBox(
+                "stco",
+                sampleCount / 10,
+                ...Array.from({ length: sampleCount / 10 }, (_, index) => firstChunkOffset + index * 40),
+              ),
+            ),
+          ),
+        ),
+      ),
+    );
+  const ftyp = box("ftyp", ascii("M4A "), uint32(0));
+  const mdatOffset = ftyp.length + moov(0).length + 8;
+  return new Uint8Array([...ftyp, ...moov(mdatOffset), ...box("mdat", ...samples)]);
+};
+
+const createUploadedVocal = async (fileName: string, audio: Uint8Array) => {
+  const vocal = await vocalsService.upload({
+    orgId,
+    fileName,
+    mimeType: "audio/wav",
+    size: audio.byteLength,
+    contentBase64: Buffer.from(audio).toString("base64"),
+  });
+  return vocal.id;
+};
+
+describe("transcription découpée des longs vocaux", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence Longs Vocaux", createdAt, updatedAt: createdAt });
+  });
+
+  it("découpe les WAV et MP3 en morceaux qui se recouvrent", () => {
+    const wavChunks = splitVocalAudio({
+      fileName: "visite.wav",
+      mimeType: "audio/wav",
+      data: buildWav(25_000),
+      chunkDurationMs: 10_000,
+      overlapMs: 2_000,
+    });
+    expect(wavChunks.map((chunk) => [chunk.startMs, chunk.endMs, chunk.fileName])).toEqual([
+      [0, 10_000, "visite.part-1.wav"],
+      [8_000, 18_000, "visite.part-2.wav"],
+      [16_000, 25_000, "visite.part-3.wav"],
+    ]);
+    expect(wavChunks.map((chunk) => readWavDataLength(chunk.data))).toEqual([80_000, 80_000, 72_000]);
+    expect(new TextDecoder().decode(wavChunks[1]!.data.subarray(0, 4))).toBe("RIFF");
+
+    const mp3 = new Uint8Array(16_000 * 20);
+    mp3.set([0xff, 0xfb, 0x90, 0x00], 0);
+    const mp3Chunks = splitVocalAudio({
+      fileName: "visite.mp3",
+      mimeType: "audio/mpeg",
+      data: mp3,
+      chunkDurationMs: 8_000,
+      overlapMs: 1_000,
+    });
+    expect(mp3Chunks.map((chunk) => [chunk.startMs, chunk.endMs, chunk.data.byteLength])).toEqual([
+      [0, 8_000, 128_000],
+      [7_000, 15_000, 128_000],
+      [14_000, 20_000, 96_000],
+    ]);
+
+    const m4a = new Uint8Array([1, 2, 3]);
+    expect(splitVocalAudio({ fileName: "visite.m4a", mimeType: "audio/mp4", data: m4a })).toEqual([
+      { index: 0, startMs: 0, endMs: null, fileName: "visite.m4a", mimeType: "audio/mp4", data: m4a },
+    ]);
+  });
+
+  it("découpe WebM, Ogg et M4A entre deux blocs en recalant chaque morceau à zéro", () => {
+    const options = { chunkDurationMs: 10_000, overlapMs: 2_000 };
+    const webmChunks = splitVocalAudio({
+      fileName: "enregistrement.webm",
+      mimeType: "audio/webm;codecs=opus",
+      data: buildWebm(25_000),
+      ...options,
+    });
+    expect(webmChunks.map((chunk) => [chunk.startMs, chunk.endMs, chunk.fileName])).toEqual([
+      [0, 10_000, "enregistrement.part-1.webm"],
+      [8_000, 18_000, "enregistrement.part-2.webm"],
+      [16_000, 24_980, "enregistrement.part-3.webm"],
+    ]);
+    // Relu seul, le deuxième morceau démarre à zéro: son dernier cluster (16 s) se retrouve à 8 s.
+    expect(
+      splitVocalAudio({ fileName: "part.webm", mimeType: "audio/webm", data: webmChunks[1]!.data }).map(
+        (chunk) => chunk.endMs,
+      ),
+    ).toEqual([9_980]);
+
+    const oggChunks = splitVocalAudio({
+      fileName: "visite.ogg",
+      mimeType: "audio/ogg",
+      data: buildOggOpus(25_000),
+      ...options,
+    });
+    expect(oggChunks.map((chunk) => [chunk.startMs, chunk.endMs])).toEqual([
+      [0, 10_000],
+      [8_000, 18_000],
+      [16_000, 25_000],
+    ]);
+    const oggPart = oggChunks[1]!.data;
+    expect(new TextDecoder().decode(oggPart.subarray(28, 36))).toBe("OpusHead");
+    expect(splitVocalAudio({ fileName: "part.ogg", mimeType: "audio/ogg", data: oggPart })[0]?.endMs).toBe(10_000);
+
+    const m4aChunks = splitVocalAudio({
+      fileName: "dictaphone.m4a",
+      mimeType: "audio/mp4",
+      data: buildM4a(25_000),
+      ...options,
+    });
+    expect(m4aChunks.map((chunk) => [chunk.startMs, chunk.endMs])).toEqual([
+      [0, 10_000],
+      [8_000, 18_000],
+      [16_000, 25_000],
+    ]);
+    const m4aPart = m4aChunks[1]!.data;
+    expect(splitVocalAudio({ fileName: "part.m4a", mimeType: "audio/mp4", data: m4aPart })[0]?.endMs).toBe(10_000);
+    // Le mdat du morceau contient exactement les échantillons 80 à 179.
+    const view = new DataView(m4aPart.buffer, m4aPart.byteOffset, m4aPart.byteLength);
+    expect([view.getUint32(m4aPart.byteLength - 400), view.getUint32(m4aPart.byteLength - 4)]).toEqual([80, 179]);
+  });
+
+  it("recolle les segments sans doublon dans le recouvrement et étiquette les locuteurs", () => {
+    const stitched = stitchVocalTranscription([
+      {
+        startMs: 8_000,
+        endMs: 18_000,
+        transcript: "suite",
+        summary: "Suite de visite.",
+        confidence: 0.6,
+        segments: [
+          { startMs: 0, endMs: 2_000, text: "la cuisine est refaite", speaker: "B" },
+          { startMs: 2_000, endMs: 9_000, text: "Voici la chambre principale.", speaker: "A" },
+          { startMs: 9_000, endMs: 10_000, text: "Fermez derrière vous.", speaker: null },
+        ],
+      },
+      {
+        startMs: 0,
+        endMs: 10_000,
+        transcript: "début",
+        summary: "Début de visite.",
+        confidence: 0.9,
+        segments: [
+          { startMs: 0, endMs: 6_000, text: "Bienvenue, voici le séjour.", speaker: "A" },
+          { startMs: 6_000, endMs: 8_500, text: "Il est très lumineux.", speaker: "B" },
+          { startMs: 8_500, endMs: 10_000, text: "la cuisine est refai", speaker: "B" },
+        ],
+      },
+    ]);
+
+    expect(stitched.segments).toEqual([
+      { startMs: 0, endMs: 6_000, speaker: "AGENT", text: "Bienvenue, voici le séjour." },
+      { startMs: 6_000, endMs: 8_500, speaker: "OTHER", text: "Il est très lumineux." },
+      { startMs: 8_000, endMs: 10_000, speaker: "OTHER", text: "la cuisine est refaite" },
+      { startMs: 10_000, endMs: 17_000, speaker: "AGENT", text: "Voici la chambre principale." },
+      { startMs: 17_000, endMs: 18_000, speaker: "UNKNOWN", text: "Fermez derrière vous." },
+    ]);
+    expect(stitched.transcript).toBe(
+      "Bienvenue, voici le séjour. Il est très lumineux. la cuisine est refaite Voici la chambre principale. Fermez derrière vous.",
+    );
+    expect(stitched.summary).toBe("Début de visite. Suite de visite.");
+    expect(stitched.confidence).toBeCloseTo(0.75);
+  });
+
+  it("retire le texte du recouvrement quand le provider ne renvoie pas de segments", () => {
+    const stitched = stitchVocalTranscription([
+      {
+        startMs: 0,
+        endMs: 10_000,
+        transcript: "Bienvenue, voici le séjour. Il est très lumineux.",
+        summary: "Début de visite.",
+        confidence: 0.9,
+      },
+      {
+        startMs: 8_000,
+        endMs: 18_000,
+        transcript: "x très lumineux. Voici la cuisine refaite.",
+        summary: "Suite de visite.",
+        confidence: 0.9,
+      },
+      {
+        startMs: 16_000,
+        endMs: 20_000,
+        transcript: "Le jardin donne plein sud.",
+        summary: "Fin de visite.",
+        confidence: 0.9,
+      },
+    ]);
+
+    expect(stitched.segments.map((segment) => [segment.speaker, segment.text])).toEqual([
+      ["UNKNOWN", "Bienvenue, voici le séjour. Il est très lumineux."],
+      ["UNKNOWN", "Voici la cuisine refaite."],
+      ["UNKNOWN", "Le jardin donne plein sud."],
+    ]);
+    expect(stitched.transcript).toBe(
+      "Bienvenue, voici le séjour. Il est très lumineux. Voici la cuisine refaite. Le jardin donne plein sud.",
+    );
+  });
+
+  it("met en revue un vocal trop lourd dans un format qui ne se découpe pas", async () => {
+    const vocal = await vocalsService.upload({
+      orgId,
+      fileName: "visite-longue.flac",
+      mimeType: "audio/flac",
+      size: 3,
+      contentBase64: Buffer.from([1, 2, 3]).toString("base64"),
+    });
+    const file = await db.query.files.findFirst({ where: eq(files.id, vocal.fileId) });
+    // L'upload plafonne la taille: le fichier stocké est remplacé pour simuler une autre source.
+    await getStorageProvider().putObject({
+      key: file!.storageKey,
+      data: new Uint8Array(VOCAL_CHUNK_MAX_BYTES + 1),
+      contentType: "audio/flac",
+    });
+    const provider = (await getAIProviderForOrg(orgId)) as unknown as {
+      transcribeVocal: (input: TranscribeVocalInput) => Promise<TranscribeVocalResult>;
+    };
+    const calls: string[] = [];
+    provider.transcribeVocal = async (input) => {
+      calls.push(input.fileName);
+      return { transcript: "Bonjour", summary: "Bonjour", confidence: 0.9 };
+    };
+
+    try {
+      expect((await aiJobsService.transcribeVocal({ orgId, vocalId: vocal.id })).status).toBe("REVIEW_REQUIRED");
+      expect(calls).toEqual([]);
+    } finally {
+      delete (provider as { transcribeVocal?: unknown }).transcribeVocal;
+      await getStorageProvider().deleteObject(file!.storageKey);
+    }
+
+    const review = await db.query.reviewQueueItems.findFirst({
+      where: and(eq(reviewQueueItems.orgId, orgId), eq(reviewQueueItems.itemId, vocal.id)),
+    });
+    expect(review).toMatchObject({ itemType: "VOCAL", reason: "VOCAL_AUDIO_TOO_LARGE", status: "OPEN" });
+  });
+
+  it("transcrit chaque morceau puis assemble le vocal, en reprenant seulement les morceaux en échec", async () => {
+    const vocalId = await createUploadedVocal("visite-longue.wav", buildWav(660_000));
+    const provider = (await getAIProviderForOrg(orgId)) as unknown as {
+      transcribeVocal: (input: TranscribeVocalInput) => Promise<TranscribeVocalResult>;
+    };
+    const calls: string[] = [];
+    let failSecondChunk = true;
+    provider.transcribeVocal = async (input) => {
+      calls.push(input.fileName);
+      const part = Number(/part-(\d+)/.exec(input.fileName)?.[1]);
+      if (part === 2 && failSecondChunk) {
+        throw new Error("OpenAI transcription failed (503): upstream timeout");
+      }
+
+      const durationMs = (input.audioData.byteLength - 44) / 8;
+      return {
+        transcript: `Morceau ${part}`,
+        summary: `Résumé ${part}.`,
+        confidence: 0.9,
+        segments: [
+          { startMs: 1_000, endMs: 2_000, text: `Client ${part}`, speaker: "spk_1" },
+          { startMs: 2_000, endMs: 60_000, text: `Agent ${part}`, speaker: "spk_0" },
+          ...(durationMs >= 300_000
+            ? [{ startMs: 299_000, endMs: 300_000, text: `Fin ${part}`, speaker: "spk_0" }]
+            : []),
+        ],
+      };
+    };
+
+    try {
+      await expect(aiJobsService.transcribeVocal({ orgId, vocalId })).rejects.toThrow("503");
+      expect(calls.sort()).toEqual([
+        "visite-longue.part-1.wav",
+        "visite-longue.part-2.wav",
+        "visite-longue.part-3.wav",
+      ]);
+      const pending = await db
+        .select()
+        .from(vocalTranscriptionChunks)
+        .where(eq(vocalTranscriptionChunks.vocalId, vocalId));
+      expect(pending.map((chunk) => [chunk.chunkIndex, chunk.status]).sort()).toEqual([
+        [0, "DONE"],
+        [1, "PENDING"],
+        [2, "DONE"],
+      ]);
+      expect((await vocalsService.getById({ orgId, id: vocalId })).status).toBe("UPLOADED");
+
+      calls.length = 0;
+      failSecondChunk = false;
+      const result = await aiJobsService.transcribeVocal({ orgId, vocalId });
+      expect(result.status).toBe("REVIEW_REQUIRED");
+      expect(calls).toEqual(["visite-longue.part-2.wav"]);
+    } finally {
+      delete (provider as { transcribeVocal?: unknown }).transcribeVocal;
+    }
+
+    const vocal = await vocalsService.getById({ orgId, id: vocalId });
+    expect(vocal.segments).toEqual([
+      { startMs: 1_000, endMs: 2_000, speaker: "OTHER", text: "Client 1" },
+      { startMs: 2_000, endMs: 60_000, speaker: "AGENT", text: "Agent 1" },
+      { startMs: 298_000, endMs: 299_000, speaker: "OTHER", text: "Client 2" },
+      { startMs: 299_000, endMs: 357_000, speaker: "AGENT", text: "Agent 2" },
+      { startMs: 595_000, endMs: 596_000, speaker: "OTHER", text: "Client 3" },
+      { startMs: 596_000, endMs: 654_000, speaker: "AGENT", text: "Agent 3" },
+    ]);
+    expect(vocal.transcript).toBe("Client 1 Agent 1 Client 2 Agent 2 Client 3 Agent 3");
+    expect(vocal.summary).toBe("Résumé 1. Résumé 2. Résumé 3.");
+    expect(vocal.confidence).toBeCloseTo(0.9);
+
+    const remainingChunks = await db
+      .select()
+      .from(vocalTranscriptionChunks)
+      .where(eq(vocalTranscriptionChunks.vocalId, vocalId));
+    expect(remainingChunks).toEqual([]);
+  });
+
+  it("transcrit sur place les morceaux que la file d'attente n'a pas pris", async () => {
+    const vocalId = await createUploadedVocal("visite-file.wav", buildWav(660_000));
+    const provider = (await getAIProviderForOrg(orgId)) as unknown as {
+      transcribeVocal: (input: TranscribeVocalInput) => Promise<TranscribeVocalResult>;
+    };
+    const calls: string[] = [];
+    provider.transcribeVocal = async (input) => {
+      calls.push(input.fileName);
+      const part = /part-(\d+)/.exec(input.fileName)?.[1];
+      return { transcript: `Morceau ${part}`, summary: `Résumé ${part}.`, confidence: 0.9 };
+    };
+    const previousEnableQueue = process.env.ENABLE_QUEUE;
+    const previousRedisUrl = process.env.REDIS_URL;
+    process.env.ENABLE_QUEUE = "true";
+    process.env.REDIS_URL = "redis://127.0.0.1:6397";
+
+    try {
+      expect((await aiJobsService.transcribeVocal({ orgId, vocalId })).status).not.toBe("CHUNKED");
+      expect(calls.sort()).toEqual(["visite-file.part-1.wav", "visite-file.part-2.wav", "visite-file.part-3.wav"]);
+    } finally {
+      delete (provider as { transcribeVocal?: unknown }).transcribeVocal;
+      await closeAiQueueClient();
+      await closeQueueRedisConnection();
+      process.env.ENABLE_QUEUE = previousEnableQueue;
+      if (previousRedisUrl === undefined) {
+        delete process.env.REDIS_URL;
+      } else {
+        process.env.REDIS_URL = previousRedisUrl;
+      }
+    }
+
+    expect((await vocalsService.getById({ orgId, id: vocalId })).transcript).toBe("Morceau 1 Morceau 2 Morceau 3");
+  });
+
+  it("garde un seul segment horodaté pour un vocal court sans diarisation", async () => {
+    const vocalId = await createUploadedVocal("visite-initiale.wav", buildWav(4_000));
+
+    const result = await aiJobsService.transcribeVocal({ orgId, vocalId });
+    expect(result.status).toBe("REVIEW_REQUIRED");
+
+    const vocal = await vocalsService.getById({ orgId, id: vocalId });
+    expect(vocal.transcript).toContain("visite initiale");
+    expect(vocal.segments).toEqual([
+      { startMs: 0, endMs: 4_000, speaker: "UNKNOWN", text: vocal.transcript! },
+    ]);
+    const row = await db.query.vocals.findFirst({ where: eq(vocals.id, vocalId) });
+    expect(JSON.parse(row!.segments!)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,240 @@
+import { beforeAll, describe, expect, it } from "bun:test";
+import { and, eq } from "drizzle-orm";
+import { getAIProviderForOrg } from "../src/ai";
+import { aiJobsService } from "../src/ai/jobs";
+import type { ExtractVocalInsightsInput } from "../src/ai/provider";
+import { DEMO_AUTH_EMAIL, DEMO_AUTH_PASSWORD } from "../src/auth/constants";
+import { db } from "../src/db/client";
+import { runMigrations } from "../src/db/migrate";
+import { runSeed } from "../src/db/seed";
+import { organizations, reviewQueueItems, vocals } from "../src/db/schema";
+import { filesService } from "../src/files/service";
+import { createApp } from "../src/server";
+import {
+  buildVocalInsightResponseSchema,
+  getVocalInsightFields,
+  validateVocalInsights,
+} from "../src/vocals/insight-schemas";
+import { vocalsService, type VocalType } from "../src/vocals/service";
+
+const loginAndGetAccessToken = async (): Promise<string> => {
+  const response = await createApp().fetch(
+    new Request("http://localhost/auth/login", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        email: DEMO_AUTH_EMAIL,
+        password: DEMO_AUTH_PASSWORD,
+      }),
+    }),
+  );
+
+  const payload = await response.json();
+  return payload.accessToken as string;
+};
+
+const orgId = `org_vocal_insights_${crypto.randomUUID()}`;
+
+const createTranscribedVocal = async (input: { orgId: string; vocalType: VocalType; transcript: string }) => {
+  const file = await filesService.upload({
+    orgId: input.orgId,
+    fileName: "vocal.m4a",
+    mimeType: "audio/mp4",
+    size: 0,
+  });
+  const id = crypto.randomUUID();
+  const now = new Date();
+  await db.insert(vocals).values({
+    id,
+    orgId: input.orgId,
+    fileId: file.id,
+    status: "TRANSCRIBED",
+    vocalType: input.vocalType,
+    transcript: input.transcript,
+    summary: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return id;
+};
+
+describe("schémas d'insights par type de vocal", () => {
+  beforeAll(async () => {
+    runMigrations();
+    await runSeed();
+    const createdAt = new Date();
+    await db
+      .insert(organizations)
+      .values({ id: orgId, name: "Agence Insights", createdAt, updatedAt: createdAt });
+  });
+
+  it("construit le format de réponse strict et valide les valeurs champ par champ", () => {
+    expect(getVocalInsightFields(null)).toBeNull();
+    expect(getVocalInsightFields("ERREUR_TRAITEMENT")).toBeNull();
+
+    const fields = getVocalInsightFields("VISITE_INITIALE")!;
+    const propertyType = fields.find((field) => field.key === "propertyType");
+    expect(propertyType?.name).toBe("Type de bien");
+    expect(propertyType?.required).toBeUndefined();
+
+    const responseSchema = buildVocalInsightResponseSchema("VISITE_INITIALE", fields);
+    expect(responseSchema.name).toBe("vocal_insights_visite_initiale");
+    const insightsSchema = (responseSchema.schema.properties as Record<string, Record<string, unknown>>).insights;
+    expect(insightsSchema.required).toEqual(fields.map((field) => field.key));
+    expect(insightsSchema.additionalProperties).toBe(false);
+    expect((insightsSchema.properties as Record<string, unknown>).rooms).toEqual({
+      description: "Nombre de pièces",
+      type: ["integer", "null"],
+      minimum: 0,
+    });
+    expect((insightsSchema.properties as Record<string, Record<string, unknown>>).dpeClass.enum).toContain(null);
+
+    const validation = validateVocalInsights(fields, {
+      propertyType: "MAISON",
+      rooms: 4.5,
+      livingArea: 92.5,
+      dpeClass: "H",
+      elevator: null,
+      strengths: "  Jardin au calme ",
+      weaknesses: "",
+      color: "bleu",
+    });
+    expect(validation.insights).toEqual({
+      propertyType: "MAISON",
+      livingArea: 92.5,
+      strengths: "Jardin au calme",
+    });
+    expect(validation.invalidFields.map((field) => field.key)).toEqual(["rooms", "dpeClass", "color"]);
+    expect(validation.invalidFields[1]).toMatchObject({ value: "H", message: expect.stringContaining("A, B") });
+  });
+
+  it("transmet le schéma au provider et envoie en revue les champs invalides", async () => {
+    const vocalId = await createTranscribedVocal({
+      orgId,
+      vocalType: "VISITE_SUIVI",
+      transcript: "Le client reste motivé, budget 410000 euros, il rappelle la semaine prochaine.",
+    });
+    const provider = (await getAIProviderForOrg(orgId)) as unknown as {
+      extractVocalInsights: (input: ExtractVocalInsightsInput) => Promise<unknown>;
+    };
+    const received: ExtractVocalInsightsInput[] = [];
+    provider.extractVocalInsights = async (input) => {
+      received.push(input);
+      return {
+        insights: {
+          sentiment: "ENTHOUSIASTE",
+          budget: 410000,
+          objections: null,
+          nextAction: "Rappeler mardi",
+          nextContactDate: "mardi prochain",
+          netSellerPrice: null,
+          salePriceTtc: null,
+        },
+        confidence: 0.9,
+      };
+    };
+
+    try {
+      const result = await aiJobsService.extractVocalInsights({ orgId, vocalId });
+      expect(result.status).toBe("REVIEW_REQUIRED");
+    } finally {
+      delete (provider as { extractVocalInsights?: unknown }).extractVocalInsights;
+    }
+
+    expect(received[0]?.responseSchema?.name).toBe("vocal_insights_visite_suivi");
+
+    const vocal = await vocalsService.getById({ orgId, id: vocalId });
+    expect(vocal.insights).toEqual({ budget: 410000, nextAction: "Rappeler mardi" });
+
+    const review = await db.query.reviewQueueItems.findFirst({
+      where: and(
+        eq(reviewQueueItems.orgId, orgId),
+        eq(reviewQueueItems.itemId, vocalId),
+        eq(reviewQueueItems.reason, "VOCAL_INSIGHTS_INVALID_FIELDS"),
+      ),
+    });
+    expect(review).toBeDefined();
+    const payload = JSON.parse(review!.payload ?? "{}");
+    expect(payload.vocalType).toBe("VISITE_SUIVI");
+    expect(payload.invalidFields.map((field: { key: string }) => field.key)).toEqual([
+      "sentiment",
+      "nextContactDate",
+    ]);
+
+    const lowConfidence = await db.query.reviewQueueItems.findFirst({
+      where: and(
+        eq(reviewQueueItems.orgId, orgId),
+        eq(reviewQueueItems.itemId, vocalId),
+        eq(reviewQueueItems.reason, "VOCAL_INSIGHTS_LOW_CONFIDENCE"),
+      ),
+    });
+    expect(lowConfidence).toBeUndefined();
+  });
+
+  it("ne conserve que les champs du schéma avec le provider mock", async () => {
+    const vocalId = await createTranscribedVocal({
+      orgId,
+      vocalType: "COMPTE_RENDU_VISITE_CLIENT",
+      transcript: "Visite correcte, budget 280000 euros maximum.",
+    });
+
+    const result = await aiJobsService.extractVocalInsights({ orgId, vocalId });
+    expect(result.status).toBe("INSIGHTS_READY");
+
+    const vocal = await vocalsService.getById({ orgId, id: vocalId });
+    expect(vocal.insights).toEqual({ budget: 280000, nextAction: "Rappeler le client pour caler une visite" });
+  });
+
+  it("expose le schéma et valide les insights corrigés via l'API", async () => {
+    const token = await loginAndGetAccessToken();
+    const headers = { authorization: `Bearer ${token}`, "content-type": "application/json" };
+
+    const schemaResponse = await createApp().fetch(
+      new Request("http://localhost/vocals/insight-schemas/COMPTE_RENDU_VISITE_CLIENT", { headers }),
+    );
+    expect(schemaResponse.status).toBe(200);
+    const schema = await schemaResponse.json();
+    expect(schema.vocalType).toBe("COMPTE_RENDU_VISITE_CLIENT");
+    expect(schema.fields.map((field: { key: string }) => field.key)).toContain("perceivedPrice");
+
+    const missingSchemaResponse = await createApp().fetch(
+      new Request("http://localhost/vocals/insight-schemas/ERREUR_TRAITEMENT", { headers }),
+    );
+    expect(missingSchemaResponse.status).toBe(404);
+
+    const invalidTypeResponse = await createApp().fetch(
+      new Request("http://localhost/vocals/insight-schemas/INCONNU", { headers }),
+    );
+    expect(invalidTypeResponse.status).toBe(400);
+
+    const vocalId = await createTranscribedVocal({
+      orgId: "org_demo",
+      vocalType: "COMPTE_RENDU_VISITE_CLIENT",
+      transcript: "Compte rendu de visite.",
+    });
+
+    const invalidPatch = await createApp().fetch(
+      new Request(`http://localhost/vocals/${vocalId}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ insights: { perceivedPrice: "CHER", budget: 300000 } }),
+      }),
+    );
+    expect(invalidPatch.status).toBe(400);
+    expect(await invalidPatch.json()).toMatchObject({ code: "VOCAL_INSIGHTS_INVALID" });
+
+    const patched = await createApp().fetch(
+      new Request(`http://localhost/vocals/${vocalId}`, {
+        method: "PATCH",
+        headers,
+        body: JSON.stringify({ insights: { perceivedPrice: "TOO_HIGH", budget: 300000, positives: null } }),
+      }),
+    );
+    expect(patched.status).toBe(200);
+    expect(await patched.json()).toMatchObject({
+      id: vocalId,
+      propertyId: null,
+      insights: { perceivedPrice: "TOO_HIGH", budget: 300000 },
+    });
+  });
+});
@@ -33,6 +33,13 @@ export const routes: Routes = [
         (module) => module.ResetPasswordPageComponent,
       ),
   },
+  {
+    path: "visite/:token",
+    loadComponent: () =>
+      import("./pages/visit-booking/visit-booking-page.component").then(
+        (module) => module.VisitBookingPageComponent,
+      ),
+  },
   {
     path: "app",
     canActivate: [authGuard],
@@ -109,6 +116,13 @@ export const routes: Routes = [
             (module) => module.PropertyDetailPageComponent,
           ),
       },
+      {
+        path: "analyse",
+        loadComponent: () =>
+          import("./pages/analytics/analytics-page.component").then(
+            (module) => module.AnalyticsPageComponent,
+          ),
+      },
       {
         path: "configuration",
         loadComponent: () =>
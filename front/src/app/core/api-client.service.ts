@@ -122,6 +122,27 @@ export class ApiClientService {
     return data as T;
   }
 
+  // Téléchargement authentifié d'un export (CSV, PDF...), hors cache AJAX.
+  async download(path: string, options: Pick<RequestOptions, "params"> = {}): Promise<Blob> {
+    const token = this.getAccessToken();
+    if (!token) {
+      throw new Error("Session expirée. Veuillez vous reconnecter.");
+    }
+
+    const response = await fetch(this.buildUrl(path, options.params), {
+      method: "GET",
+      headers: new Headers({ Authorization: `Bearer ${token}` }),
+    });
+
+    if (!response.ok) {
+      const payload = (await this.readJson(response)) as Partial<ErrorResponse> | null;
+      this.handleInvalidTokenError(payload?.message ?? null);
+      throw new Error(payload?.message ?? `Téléchargement impossible (${response.status}).`);
+    }
+
+    return response.blob();
+  }
+
   private buildUrl(
     path: string,
     params: Record<string, string | number | boolean | null | undefined> | undefined,
@@ -86,11 +86,13 @@ export interface AuthResponse {
   user: UserResponse;
 }
 
-export type AiProvider = "openai" | "anthropic";
+export type AiProvider = "openai" | "anthropic" | "local";
+export type TranscriptionProvider = "ai-provider" | "whisper-local";
 
 export interface AppSettingsResponse {
   notaryFeePct: number;
   aiProvider: AiProvider;
+  transcriptionProvider: TranscriptionProvider;
   valuationAiOutputFormat: string;
   assistantSoul: string;
 }
@@ -98,11 +100,12 @@ export interface AppSettingsResponse {
 export interface AppSettingsPatchRequest {
   notaryFeePct?: number;
   aiProvider?: AiProvider;
+  transcriptionProvider?: TranscriptionProvider;
   valuationAiOutputFormat?: string | null;
   assistantSoul?: string | null;
 }
 
-export type AssistantObjectType = "bien" | "user" | "rdv" | "lien";
+export type AssistantObjectType = "bien" | "user" | "rdv" | "lien" | "tache" | "offre";
 
 export interface AssistantCitationResponse {
   title: string;
@@ -197,8 +200,14 @@ export interface ObjectChangeListResponse {
   items: ObjectChangeEntryResponse[];
 }
 
-export type LinkObjectType = "bien" | "user" | "rdv";
-export type LinkType = "bien_user" | "rdv_bien" | "rdv_user";
+export type LinkObjectType = "bien" | "user" | "rdv" | "offre" | "message";
+export type LinkType =
+  | "bien_user"
+  | "rdv_bien"
+  | "rdv_user"
+  | "offre_bien"
+  | "offre_user"
+  | "message_user";
 
 export interface LinkResponse {
   id: string;
@@ -239,6 +248,8 @@ export interface LinkRelatedResponse {
     bien: unknown[];
     user: unknown[];
     rdv: unknown[];
+    offre: unknown[];
+    message: unknown[];
   };
 }
 
@@ -280,7 +291,7 @@ export interface PrivacyEraseResponse {
   requestedAt: string;
 }
 
-export type GlobalSearchItemType = "PROPERTY" | "USER" | "VOCAL" | "VISIT";
+export type GlobalSearchItemType = "PROPERTY" | "USER" | "VOCAL" | "VISIT" | "TASK";
 
 export interface GlobalSearchItemResponse {
   type: GlobalSearchItemType;
@@ -354,6 +365,339 @@ export interface PropertyPatchRequest {
 
 export interface PropertyStatusUpdateRequest {
   status: PropertyStatus;
+  force?: boolean;
+}
+
+export interface DocumentChecklistItem {
+  typeDocument: TypeDocument;
+  label: string;
+  requirement: "MANDATORY" | "RECOMMENDED";
+  requiredFromStatus: PropertyStatus;
+  reason: string;
+  state: "MISSING" | "PRESENT" | "HIDDEN";
+  fileIds: string[];
+  hiddenKey: string | null;
+}
+
+export type StatusWorkflowGuard =
+  | { type: "FIELD"; field: string; label?: string }
+  | { type: "DOCUMENT"; typeDocument: TypeDocument; label?: string }
+  | { type: "LINK"; relationRole: "OWNER" | "PROSPECT" | "ACHETEUR"; label?: string };
+
+export interface StatusWorkflowTransition {
+  from: PropertyStatus;
+  to: PropertyStatus;
+  guards: StatusWorkflowGuard[];
+}
+
+export interface StatusWorkflowResponse {
+  isDefault: boolean;
+  transitions: StatusWorkflowTransition[];
+}
+
+export interface StatusWorkflowUpdateRequest {
+  transitions: StatusWorkflowTransition[] | null;
+}
+
+export type TaskStatus = "TODO" | "IN_PROGRESS" | "DONE" | "CANCELLED";
+
+export interface TaskResponse {
+  id: string;
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  dueAt: string | null;
+  completedAt: string | null;
+  propertyId: string | null;
+  propertyTitle: string | null;
+  assigneeUserId: string | null;
+  assigneeFirstName: string | null;
+  assigneeLastName: string | null;
+  source: "MANUAL" | "STATUS_TEMPLATE";
+  templateKey: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaskListResponse {
+  items: TaskResponse[];
+}
+
+export interface TaskCreateRequest {
+  title: string;
+  description?: string | null;
+  status?: TaskStatus;
+  dueAt?: string | null;
+  propertyId?: string | null;
+  assigneeUserId?: string | null;
+}
+
+export type TaskPatchRequest = Partial<TaskCreateRequest>;
+
+export type OfferStatus = "SUBMITTED" | "COUNTERED" | "ACCEPTED" | "REJECTED" | "EXPIRED";
+export type OfferFinancingType = "COMPTANT" | "CREDIT" | "MIXTE";
+
+export interface OfferResponse {
+  id: string;
+  propertyId: string;
+  propertyTitle: string | null;
+  buyerUserId: string;
+  buyerFirstName: string | null;
+  buyerLastName: string | null;
+  parentOfferId: string | null;
+  issuedBy: "ACHETEUR" | "VENDEUR";
+  amount: number;
+  financingType: OfferFinancingType;
+  conditionsSuspensives: string[];
+  validUntil: string | null;
+  note: string | null;
+  status: OfferStatus;
+  signedFileId: string | null;
+  decidedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OfferListResponse {
+  items: OfferResponse[];
+}
+
+export interface OfferCreateRequest {
+  propertyId: string;
+  buyerUserId: string;
+  amount: number;
+  financingType: OfferFinancingType;
+  conditionsSuspensives?: string[];
+  validUntil?: string | null;
+  note?: string | null;
+}
+
+export interface OfferCounterRequest {
+  amount: number;
+  financingType?: OfferFinancingType;
+  conditionsSuspensives?: string[];
+  validUntil?: string | null;
+  note?: string | null;
+}
+
+export interface PropertyDocumentChecklistResponse {
+  propertyId: string;
+  status: PropertyStatus;
+  missing: DocumentChecklistItem[];
+  present: DocumentChecklistItem[];
+  hidden: DocumentChecklistItem[];
+}
+
+export type ClosingDeadlineKind = "SRU_RETRACTATION" | "CONDITION_PRET" | "ACTE_AUTHENTIQUE";
+export type ClosingDeadlineState = "PENDING" | "DONE" | "OVERDUE";
+
+export interface ClosingDeadlineResponse {
+  kind: ClosingDeadlineKind;
+  label: string;
+  dueDate: string;
+  computed: boolean;
+  daysRemaining: number;
+  requiredTypeDocument: TypeDocument | null;
+  documentPresent: boolean;
+  state: ClosingDeadlineState;
+}
+
+export interface ClosingTrackerResponse {
+  propertyId: string;
+  propertyTitle: string;
+  status: PropertyStatus;
+  compromisSignatureDate: string | null;
+  deadlines: ClosingDeadlineResponse[];
+}
+
+export interface PropertyCommissionResponse {
+  propertyId: string;
+  feesAmount: number;
+  feesResponsibility: "VENDEUR" | "ACQUEREUR" | null;
+  listingAgentUserId: string | null;
+  listingAgentAmount: number;
+  sellingAgentUserId: string | null;
+  sellingAgentAmount: number;
+  agencyAmount: number;
+  configured: boolean;
+  updatedAt: string | null;
+}
+
+export interface PropertyCommissionUpsertRequest {
+  feesAmount?: number;
+  listingAgentUserId?: string | null;
+  listingAgentAmount?: number;
+  sellingAgentUserId?: string | null;
+  sellingAgentAmount?: number;
+  agencyAmount?: number;
+}
+
+export interface RevenueReportBucket {
+  signedFees: number;
+  collectedFees: number;
+  signedCount: number;
+  collectedCount: number;
+}
+
+export interface RevenueReportResponse {
+  from: string | null;
+  to: string | null;
+  totals: RevenueReportBucket & { agencySignedFees: number; agencyCollectedFees: number };
+  byMonth: Array<RevenueReportBucket & { month: string }>;
+  byAgent: Array<
+    RevenueReportBucket & { userId: string; firstName: string | null; lastName: string | null }
+  >;
+  byCity: Array<RevenueReportBucket & { city: string }>;
+}
+
+export interface PipelineReportFilters {
+  agentUserId?: string;
+  city?: string;
+  propertyType?: ComparablePropertyType;
+  staleAfterDays?: number;
+}
+
+export interface PipelineStatusDuration {
+  status: PropertyStatus;
+  medianDays: number | null;
+  stays: number;
+}
+
+export interface PipelineColumn {
+  status: PropertyStatus;
+  total: number;
+  stale: number;
+}
+
+export interface PipelinePriceReductionItem {
+  propertyId: string;
+  title: string;
+  city: string;
+  initialPrice: number;
+  finalPrice: number;
+  reductionCount: number;
+  reductionAmount: number;
+  reductionRate: number | null;
+}
+
+export interface PipelineReportResponse {
+  generatedAt: string;
+  filters: {
+    agentUserId: string | null;
+    city: string | null;
+    propertyType: ComparablePropertyType | null;
+    staleAfterDays: number;
+  };
+  propertyCount: number;
+  statusDurations: PipelineStatusDuration[];
+  conversion: {
+    prospectionCount: number;
+    mandatSigneCount: number;
+    venduCount: number;
+    prospectionToMandatRate: number | null;
+    mandatToVenduRate: number | null;
+    prospectionToVenduRate: number | null;
+  };
+  columns: PipelineColumn[];
+  priceReductions: {
+    soldCount: number;
+    reducedCount: number;
+    totalReductionAmount: number;
+    medianReductionRate: number | null;
+    items: PipelinePriceReductionItem[];
+  };
+}
+
+export type DpeClass = "A" | "B" | "C" | "D" | "E" | "F" | "G";
+
+export interface BuyerSearchUpsertRequest {
+  budgetMin?: number | null;
+  budgetMax?: number | null;
+  cities?: string[];
+  postalCodes?: string[];
+  radiusKm?: number | null;
+  centerLat?: number | null;
+  centerLng?: number | null;
+  propertyType?: ComparablePropertyType | null;
+  minRooms?: number | null;
+  minLivingArea?: number | null;
+  requiredAmenities?: string[];
+  maxDpeClass?: DpeClass | null;
+}
+
+export interface BuyerSearchResponse {
+  id: string;
+  userId: string;
+  budgetMin: number | null;
+  budgetMax: number | null;
+  cities: string[];
+  postalCodes: string[];
+  radiusKm: number | null;
+  centerLat: number | null;
+  centerLng: number | null;
+  propertyType: ComparablePropertyType | null;
+  minRooms: number | null;
+  minLivingArea: number | null;
+  requiredAmenities: string[];
+  maxDpeClass: DpeClass | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type BuyerMatchCriterion =
+  | "BUDGET"
+  | "LOCATION"
+  | "PROPERTY_TYPE"
+  | "ROOMS"
+  | "LIVING_AREA"
+  | "AMENITIES"
+  | "DPE";
+
+export interface BuyerMatchCriterionResult {
+  criterion: BuyerMatchCriterion;
+  status: "MATCH" | "MISMATCH" | "UNKNOWN";
+}
+
+export interface PropertyBuyerMatchResponse {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+  score: number;
+  criteria: BuyerMatchCriterionResult[];
+  matchedAt: string;
+  alertSentAt: string | null;
+}
+
+export interface PropertyBuyerMatchListResponse {
+  items: PropertyBuyerMatchResponse[];
+}
+
+export type BuyerAlertStatus = "SENT" | "ALREADY_SENT" | "NO_EMAIL" | "NOT_MATCHED" | "FAILED";
+
+export interface BuyerAlertSendRequest {
+  userIds?: string[];
+}
+
+export interface BuyerAlertSendResponse {
+  items: Array<{ userId: string; status: BuyerAlertStatus; messageId: string | null }>;
+}
+
+export interface UserPropertyMatchResponse {
+  propertyId: string;
+  propertyTitle: string;
+  city: string;
+  postalCode: string;
+  price: number | null;
+  status: PropertyStatus;
+  score: number;
+  criteria: BuyerMatchCriterionResult[];
+  matchedAt: string;
+}
+
+export interface UserPropertyMatchListResponse {
+  items: UserPropertyMatchResponse[];
 }
 
 export type ParticipantRole =
@@ -404,6 +748,7 @@ export interface PropertyProspectCreateRequest {
 
 export interface PropertyVisitCreateRequest {
   prospectUserId: string;
+  agentUserId?: string | null;
   startsAt: string;
   endsAt: string;
 }
@@ -418,6 +763,7 @@ export interface PropertyVisitResponse {
   propertyId: string;
   propertyTitle: string;
   prospectUserId: string;
+  agentUserId: string | null;
   prospectFirstName: string;
   prospectLastName: string;
   prospectEmail: string | null;
@@ -427,14 +773,167 @@ export interface PropertyVisitResponse {
   compteRendu: string | null;
   bonDeVisiteFileId: string | null;
   bonDeVisiteFileName: string | null;
+  bonDeVisiteSignedAt: string | null;
+  bonDeVisiteSha256: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BonDeVisiteSignaturePoint {
+  x: number;
+  y: number;
+}
+
+export interface BonDeVisiteSignRequest {
+  width: number;
+  height: number;
+  strokes: BonDeVisiteSignaturePoint[][];
+}
+
 export interface PropertyVisitListResponse {
   items: PropertyVisitResponse[];
 }
 
+export type VisitFeedbackInterestLevel = "LOW" | "MEDIUM" | "HIGH";
+export type VisitFeedbackPerceivedPrice = "TOO_HIGH" | "FAIR" | "LOW";
+export type VisitFeedbackOfferIntention = "YES" | "MAYBE" | "NO";
+export type VisitFeedbackSource = "MANUAL" | "AI";
+
+export interface VisitFeedbackUpsertRequest {
+  interestLevel?: VisitFeedbackInterestLevel | null;
+  perceivedPrice?: VisitFeedbackPerceivedPrice | null;
+  positives?: string[];
+  negatives?: string[];
+  offerIntention?: VisitFeedbackOfferIntention | null;
+}
+
+export interface VisitFeedbackResponse {
+  visitId: string;
+  propertyId: string;
+  interestLevel: VisitFeedbackInterestLevel | null;
+  perceivedPrice: VisitFeedbackPerceivedPrice | null;
+  positives: string[];
+  negatives: string[];
+  offerIntention: VisitFeedbackOfferIntention | null;
+  source: VisitFeedbackSource;
+  vocalId: string | null;
+  confidence: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface VisitFeedbackExtractResponse {
+  status: "UPDATED" | "REVIEW_REQUIRED" | "SKIPPED";
+  reason: string | null;
+  feedback: VisitFeedbackResponse | null;
+}
+
+export interface SellerReportCreateRequest {
+  from?: string;
+  to?: string;
+}
+
+export interface SellerReportPointCount {
+  label: string;
+  count: number;
+}
+
+export interface SellerReportPeriodStats {
+  visits: number;
+  feedbackCount: number;
+  interestLevels: Record<VisitFeedbackInterestLevel, number>;
+  perceivedPrices: Record<VisitFeedbackPerceivedPrice, number>;
+  offerIntentions: Record<VisitFeedbackOfferIntention, number>;
+  topPositives: SellerReportPointCount[];
+  topNegatives: SellerReportPointCount[];
+}
+
+export interface SellerReportComparables {
+  count: number;
+  askingPrice: number | null;
+  medianPrice: number | null;
+  medianPricePerM2: number | null;
+  deviationPct: number | null;
+  pricingPosition: "UNDER_PRICED" | "NORMAL" | "OVER_PRICED" | "UNKNOWN";
+}
+
+export interface SellerReportResponse {
+  propertyId: string;
+  fileId: string;
+  fileName: string;
+  periodStart: string;
+  periodEnd: string;
+  generatedAt: string;
+  current: SellerReportPeriodStats;
+  previous: SellerReportPeriodStats;
+  comparables: SellerReportComparables | null;
+  ownerEmails: string[];
+}
+
+export interface VisitSlot {
+  startsAt: string;
+  endsAt: string;
+  agentUserId: string | null;
+}
+
+export interface VisitSlotListResponse {
+  items: VisitSlot[];
+}
+
+export interface PropertyBookingLinkUpsertRequest {
+  enabled?: boolean;
+  requiresConfirmation?: boolean;
+  rotateToken?: boolean;
+}
+
+export interface PropertyBookingLinkResponse {
+  propertyId: string;
+  token: string;
+  enabled: boolean;
+  requiresConfirmation: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PublicVisitBookingSlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface PublicVisitBookingPageResponse {
+  agencyName: string;
+  requiresConfirmation: boolean;
+  durationMinutes: number;
+  property: {
+    title: string;
+    city: string;
+    postalCode: string;
+    price: number | null;
+    propertyType: string | null;
+    livingArea: number | null;
+    rooms: number | null;
+    dpeClass: string | null;
+    description: string | null;
+  };
+  slots: PublicVisitBookingSlot[];
+}
+
+export interface PublicVisitBookingRequest {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone?: string | null;
+  startsAt: string;
+}
+
+export interface PublicVisitBookingResponse {
+  visitId: string;
+  startsAt: string;
+  endsAt: string;
+  status: "CONFIRMED" | "PENDING_CONFIRMATION";
+  confirmationEmailSent: boolean;
+}
+
 export interface CalendarAppointmentCreateRequest {
   title: string;
   propertyId: string;
@@ -459,13 +958,16 @@ export interface CalendarAppointmentResponse {
   endsAt: string;
   createdAt: string;
   updatedAt: string;
+  kind?: "MANUAL_APPOINTMENT" | "CLOSING_DEADLINE";
+  closingDeadlineKind?: ClosingDeadlineKind;
+  closingDeadlineState?: ClosingDeadlineState;
 }
 
 export interface CalendarAppointmentListResponse {
   items: CalendarAppointmentResponse[];
 }
 
-export type RdvType = "RENDEZ_VOUS" | "VISITE_BIEN";
+export type RdvType = "RENDEZ_VOUS" | "VISITE_BIEN" | "ECHEANCE_VENTE";
 
 export interface RdvResponse {
   id: string;
@@ -663,6 +1165,7 @@ export type TypeDocument =
   | "ANNONCE_IMMOBILIERE"
   | "AFFICHE_VITRINE"
   | "REPORTING_VENDEUR"
+  | "BON_VISITE"
   | "SIMULATION_FINANCEMENT"
   | "ATTESTATION_CAPACITE_EMPRUNT"
   | "ACCORD_PRINCIPE_BANCAIRE"
@@ -707,25 +1210,104 @@ export interface FileUploadRequest {
   contentBase64?: string;
 }
 
-export type MessageChannel = "GMAIL" | "WHATSAPP" | "TELEGRAM";
+export type MessageChannel = "GMAIL" | "WHATSAPP" | "TELEGRAM" | "EMAIL";
+export type MessageDirection = "INBOUND" | "OUTBOUND";
 export type MessageAIStatus = "PENDING" | "PROCESSED" | "REVIEW_REQUIRED";
 
 export interface MessageResponse {
   id: string;
   channel: MessageChannel;
+  direction: MessageDirection;
   propertyId?: string | null;
   subject?: string | null;
   body: string;
+  fromAddress?: string | null;
+  toAddresses: string[];
+  ccAddresses: string[];
+  inReplyTo?: string | null;
+  threadId?: string | null;
   fileIds?: string[];
   aiStatus: MessageAIStatus;
   receivedAt: string;
 }
 
+export interface MessageComposeRequest {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  body: string;
+  propertyId?: string;
+  fileIds?: string[];
+}
+
+export interface MessageReplyRequest {
+  body: string;
+  to?: string[];
+  cc?: string[];
+  subject?: string;
+  fileIds?: string[];
+}
+
+export interface MessageSenderContactRequest {
+  userId?: string;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface MessageSenderContactResponse {
+  messageId: string;
+  userId: string;
+  created: boolean;
+}
+
+export interface MessageReplyDraftResponse {
+  messageId: string;
+  propertyId: string;
+  channel: MessageChannel;
+  subject: string | null;
+  body: string;
+  visitSlots: VisitSlot[];
+}
+
 export interface MessageListResponse {
   items: MessageResponse[];
   nextCursor?: string | null;
 }
 
+export interface MessageThreadUser {
+  userId: string;
+  firstName: string;
+  lastName: string;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface MessageThreadLastMessage {
+  id: string;
+  direction: MessageDirection;
+  body: string;
+  receivedAt: string;
+}
+
+export interface MessageThreadResponse {
+  id: string;
+  channel: MessageChannel;
+  propertyId: string | null;
+  subject: string | null;
+  participants: string[];
+  users: MessageThreadUser[];
+  messageCount: number;
+  lastMessage: MessageThreadLastMessage | null;
+  summary: string | null;
+  summaryUpdatedAt: string | null;
+  lastActivityAt: string;
+}
+
+export interface MessageThreadListResponse {
+  items: MessageThreadResponse[];
+  nextCursor: string | null;
+}
+
 export type VocalStatus =
   | "UPLOADED"
   | "TRANSCRIBED"
@@ -746,9 +1328,19 @@ export interface VocalUploadRequest {
   contentBase64?: string;
 }
 
+export type VocalSpeaker = "AGENT" | "OTHER" | "UNKNOWN";
+
+export interface VocalTranscriptSegment {
+  startMs: number;
+  endMs: number;
+  speaker: VocalSpeaker;
+  text: string;
+}
+
 export interface VocalResponse {
   id: string;
   propertyId?: string | null;
+  prospectUserId?: string | null;
   fileId: string;
   status: VocalStatus;
   vocalType?: VocalType | null;
@@ -756,6 +1348,7 @@ export interface VocalResponse {
   transcript?: string | null;
   summary?: string | null;
   insights?: Record<string, unknown> | null;
+  segments?: VocalTranscriptSegment[] | null;
   confidence?: number | null;
   createdAt: string;
 }
@@ -765,6 +1358,42 @@ export interface VocalListResponse {
   nextCursor?: string | null;
 }
 
+export interface VocalUpdateRequest {
+  propertyId?: string;
+  prospectUserId?: string | null;
+  insights?: Record<string, unknown>;
+}
+
+export interface VocalInsightSchemaResponse {
+  vocalType: VocalType;
+  fields: ObjectDataFieldDefinition[];
+}
+
+export type VocalProposedChangeTarget = "bien" | "bien_user";
+
+export interface VocalProposedChange {
+  key: string;
+  name: string;
+  type: ObjectDataFieldType;
+  options?: ObjectDataFieldOption[];
+  target: VocalProposedChangeTarget;
+  currentValue: unknown;
+  proposedValue: unknown;
+  changed: boolean;
+}
+
+export interface VocalProposedChangesResponse {
+  vocalId: string;
+  propertyId: string | null;
+  prospectUserId: string | null;
+  linkId: string | null;
+  items: VocalProposedChange[];
+}
+
+export interface VocalProposedChangesApplyRequest {
+  keys: string[];
+}
+
 export interface RunAIResponse {
   jobId: string;
   status: "QUEUED";
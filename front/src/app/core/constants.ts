@@ -1,4 +1,9 @@
-import type { ParticipantRole, PropertyStatus, TypeDocument } from "./api.models";
+import type {
+  BuyerMatchCriterion,
+  ParticipantRole,
+  PropertyStatus,
+  TypeDocument,
+} from "./api.models";
 
 export const MIN_PASSWORD_LENGTH = 8;
 
@@ -36,6 +41,16 @@ export const STATUS_LABELS: Record<PropertyStatus, string> = {
   ARCHIVE: "Archivé",
 };
 
+export const BUYER_MATCH_CRITERION_LABELS: Record<BuyerMatchCriterion, string> = {
+  BUDGET: "Budget",
+  LOCATION: "Localisation",
+  PROPERTY_TYPE: "Type de bien",
+  ROOMS: "Pièces",
+  LIVING_AREA: "Surface",
+  AMENITIES: "Équipements",
+  DPE: "DPE",
+};
+
 export const PARTICIPANT_ROLES: readonly ParticipantRole[] = [
   "VENDEUR",
   "ACHETEUR",
@@ -88,6 +103,7 @@ export const TYPE_DOCUMENT_OPTIONS: readonly TypeDocument[] = [
   "ANNONCE_IMMOBILIERE",
   "AFFICHE_VITRINE",
   "REPORTING_VENDEUR",
+  "BON_VISITE",
   "SIMULATION_FINANCEMENT",
   "ATTESTATION_CAPACITE_EMPRUNT",
   "ACCORD_PRINCIPE_BANCAIRE",
@@ -144,7 +160,7 @@ const BOOL_OPTIONS: readonly DetailSelectOption[] = [
   { value: "false", label: "Non" },
 ];
 
-const PROPERTY_TYPE_OPTIONS: readonly DetailSelectOption[] = [
+export const PROPERTY_TYPE_OPTIONS: readonly DetailSelectOption[] = [
   { value: "APPARTEMENT", label: "Appartement" },
   { value: "MAISON", label: "Maison" },
   { value: "IMMEUBLE", label: "Immeuble" },
@@ -461,6 +477,9 @@ export const PROPERTY_DETAILS_CATEGORIES: readonly PropertyDetailsCategoryDefini
       { key: "mandateType", label: "Mandat", type: "select", options: MANDATE_TYPE_OPTIONS },
       { key: "mandateStartDate", label: "Date de début de mandat", type: "date" },
       { key: "mandateEndDate", label: "Date de fin de mandat", type: "date" },
+      { key: "compromisSignatureDate", label: "Date de signature du compromis", type: "date" },
+      { key: "loanConditionDeadline", label: "Date limite de la condition de prêt", type: "date" },
+      { key: "acteAuthentiqueDate", label: "Date prévue de l'acte authentique", type: "date" },
     ],
   },
 ];
@@ -582,6 +601,7 @@ export const DOCUMENT_TABS: readonly DocumentTabDefinition[] = [
       "ANNONCE_IMMOBILIERE",
       "AFFICHE_VITRINE",
       "REPORTING_VENDEUR",
+      "BON_VISITE",
     ],
     expected: [
       "Photos HD",
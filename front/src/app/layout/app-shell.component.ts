@@ -89,6 +89,7 @@ export class AppShellComponent {
     { label: "Calendrier", route: "/app/calendrier" },
     { label: "Utilisateurs", route: "/app/utilisateurs" },
     { label: "Vocaux", route: "/app/vocaux" },
+    { label: "Analyse", route: "/app/analyse" },
     { label: "Configuration", route: "/app/configuration" },
   ];
 
@@ -215,6 +216,9 @@ export class AppShellComponent {
     if (type === "VOCAL") {
       return "Vocal";
     }
+    if (type === "TASK") {
+      return "Tâche";
+    }
     return "Rendez-vous";
   }
 
@@ -235,6 +239,9 @@ export class AppShellComponent {
       case "calendrier":
         crumbs.push({ label: "Calendrier" });
         break;
+      case "analyse":
+        crumbs.push({ label: "Analyse" });
+        break;
       case "utilisateurs":
         crumbs.push({ label: "Utilisateurs", route: "/app/utilisateurs" });
         if (entityId) {
@@ -0,0 +1,176 @@
+import { CommonModule } from "@angular/common";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  OnInit,
+  computed,
+  inject,
+  signal,
+} from "@angular/core";
+import { RouterLink } from "@angular/router";
+
+import type {
+  ComparablePropertyType,
+  PipelineColumn,
+  PipelineReportFilters,
+  PipelineReportResponse,
+  PropertyStatus,
+} from "../../core/api.models";
+import { PROPERTY_TYPE_OPTIONS, STATUS_LABELS } from "../../core/constants";
+import { ReportService } from "../../services/report.service";
+import { UserService } from "../../services/user.service";
+
+interface AgentOption {
+  id: string;
+  label: string;
+}
+
+@Component({
+  selector: "app-analytics-page",
+  imports: [CommonModule, RouterLink],
+  templateUrl: "./analytics-page.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AnalyticsPageComponent implements OnInit {
+  private readonly reportService = inject(ReportService);
+  private readonly userService = inject(UserService);
+  private latestRequestId = 0;
+
+  readonly propertyTypeOptions = PROPERTY_TYPE_OPTIONS;
+  readonly loading = signal(true);
+  readonly exporting = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly report = signal<PipelineReportResponse | null>(null);
+  readonly agents = signal<AgentOption[]>([]);
+  readonly agentUserId = signal("");
+  readonly city = signal("");
+  readonly propertyType = signal("");
+  readonly staleAfterDays = signal(30);
+  readonly staleTotal = computed(() =>
+    (this.report()?.columns ?? []).reduce((total, column) => total + column.stale, 0),
+  );
+
+  ngOnInit(): void {
+    void this.loadAgents();
+    void this.loadReport();
+  }
+
+  onAgentChange(value: string): void {
+    this.agentUserId.set(value);
+    void this.loadReport();
+  }
+
+  onCityChange(value: string): void {
+    this.city.set(value);
+    void this.loadReport();
+  }
+
+  onPropertyTypeChange(value: string): void {
+    this.propertyType.set(value);
+    void this.loadReport();
+  }
+
+  onStaleAfterDaysChange(value: string): void {
+    const parsed = Math.trunc(Number(value));
+    if (!Number.isFinite(parsed) || parsed < 1) {
+      return;
+    }
+
+    this.staleAfterDays.set(parsed);
+    void this.loadReport();
+  }
+
+  async loadReport(): Promise<void> {
+    const requestId = ++this.latestRequestId;
+    this.loading.set(true);
+    this.error.set(null);
+
+    try {
+      const response = await this.reportService.pipeline(this.buildFilters());
+      if (requestId !== this.latestRequestId) {
+        return;
+      }
+      this.report.set(response);
+    } catch (error) {
+      if (requestId !== this.latestRequestId) {
+        return;
+      }
+      const message = error instanceof Error ? error.message : "Chargement de l'analyse impossible.";
+      this.error.set(message);
+      this.report.set(null);
+    } finally {
+      if (requestId === this.latestRequestId) {
+        this.loading.set(false);
+      }
+    }
+  }
+
+  async exportCsv(): Promise<void> {
+    this.exporting.set(true);
+    this.error.set(null);
+
+    try {
+      const blob = await this.reportService.exportPipelineCsv(this.buildFilters());
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "analyse-pipeline.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Export CSV impossible.";
+      this.error.set(message);
+    } finally {
+      this.exporting.set(false);
+    }
+  }
+
+  statusLabel(status: PropertyStatus): string {
+    return STATUS_LABELS[status] ?? status;
+  }
+
+  columnFor(report: PipelineReportResponse, status: PropertyStatus): PipelineColumn | null {
+    return report.columns.find((column) => column.status === status) ?? null;
+  }
+
+  formatDays(value: number | null): string {
+    return value === null ? "-" : `${value.toLocaleString("fr-FR")} j`;
+  }
+
+  formatRate(value: number | null): string {
+    return value === null
+      ? "-"
+      : new Intl.NumberFormat("fr-FR", { style: "percent", maximumFractionDigits: 1 }).format(value);
+  }
+
+  formatPrice(value: number): string {
+    return new Intl.NumberFormat("fr-FR", {
+      style: "currency",
+      currency: "EUR",
+      maximumFractionDigits: 0,
+    }).format(value);
+  }
+
+  private buildFilters(): PipelineReportFilters {
+    return {
+      agentUserId: this.agentUserId() || undefined,
+      city: this.city().trim() || undefined,
+      propertyType: (this.propertyType() || undefined) as ComparablePropertyType | undefined,
+      staleAfterDays: this.staleAfterDays(),
+    };
+  }
+
+  private async loadAgents(): Promise<void> {
+    try {
+      const response = await this.userService.list(100, undefined, "AGENT");
+      this.agents.set(
+        response.items.map((user) => ({
+          id: user.id,
+          label: `${user.firstName} ${user.lastName}`.trim() || user.email || user.id,
+        })),
+      );
+    } catch {
+      this.agents.set([]);
+    }
+  }
+}
@@ -6,26 +6,82 @@ import {
   inject,
   signal,
 } from "@angular/core";
+import { FormBuilder, ReactiveFormsModule } from "@angular/forms";
 import { ActivatedRoute, RouterLink } from "@angular/router";
 
-import type { RdvResponse } from "../../core/api.models";
+import type {
+  BonDeVisiteSignaturePoint,
+  PropertyVisitResponse,
+  RdvResponse,
+  VisitFeedbackInterestLevel,
+  VisitFeedbackOfferIntention,
+  VisitFeedbackPerceivedPrice,
+  VisitFeedbackResponse,
+  VocalResponse,
+} from "../../core/api.models";
+import { FileService } from "../../services/file.service";
 import { PropertyService } from "../../services/property.service";
+import { VocalService } from "../../services/vocal.service";
+
+const EXTRACT_STATUS_MESSAGES: Record<string, string> = {
+  missing_transcript: "Le vocal n'a pas encore de transcription.",
+  low_confidence: "Extraction peu fiable: le vocal a été envoyé en revue.",
+};
 
 @Component({
   selector: "app-appointment-detail-page",
-  imports: [CommonModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink],
   templateUrl: "./appointment-detail-page.component.html",
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class AppointmentDetailPageComponent implements OnInit {
   private readonly route = inject(ActivatedRoute);
   private readonly propertyService = inject(PropertyService);
+  private readonly fileService = inject(FileService);
+  private readonly vocalService = inject(VocalService);
+  private readonly formBuilder = inject(FormBuilder);
+  private signatureStrokes: BonDeVisiteSignaturePoint[][] = [];
+  private drawingSignature = false;
 
   readonly rdvId = this.route.snapshot.paramMap.get("id") ?? "";
 
   readonly loading = signal(true);
   readonly error = signal<string | null>(null);
   readonly rdv = signal<RdvResponse | null>(null);
+  readonly visit = signal<PropertyVisitResponse | null>(null);
+  readonly hasSignature = signal(false);
+  readonly bonDeVisitePending = signal(false);
+  readonly bonDeVisiteError = signal<string | null>(null);
+  readonly visitFeedback = signal<VisitFeedbackResponse | null>(null);
+  readonly visitVocals = signal<VocalResponse[]>([]);
+  readonly feedbackPending = signal(false);
+  readonly feedbackError = signal<string | null>(null);
+  readonly feedbackMessage = signal<string | null>(null);
+
+  readonly interestLevelOptions: Array<{ value: VisitFeedbackInterestLevel; label: string }> = [
+    { value: "HIGH", label: "Fort" },
+    { value: "MEDIUM", label: "Moyen" },
+    { value: "LOW", label: "Faible" },
+  ];
+  readonly perceivedPriceOptions: Array<{ value: VisitFeedbackPerceivedPrice; label: string }> = [
+    { value: "TOO_HIGH", label: "Trop élevé" },
+    { value: "FAIR", label: "Juste" },
+    { value: "LOW", label: "Attractif" },
+  ];
+  readonly offerIntentionOptions: Array<{ value: VisitFeedbackOfferIntention; label: string }> = [
+    { value: "YES", label: "Oui" },
+    { value: "MAYBE", label: "À réfléchir" },
+    { value: "NO", label: "Non" },
+  ];
+
+  readonly feedbackForm = this.formBuilder.nonNullable.group({
+    interestLevel: ["" as VisitFeedbackInterestLevel | ""],
+    perceivedPrice: ["" as VisitFeedbackPerceivedPrice | ""],
+    offerIntention: ["" as VisitFeedbackOfferIntention | ""],
+    positives: [""],
+    negatives: [""],
+    vocalId: [""],
+  });
 
   ngOnInit(): void {
     if (!this.rdvId) {
@@ -44,6 +100,11 @@ export class AppointmentDetailPageComponent implements OnInit {
     try {
       const rdv = await this.propertyService.getRdvById(this.rdvId);
       this.rdv.set(rdv);
+      if (rdv.rdvType === "VISITE_BIEN") {
+        const visit = await this.propertyService.getVisitById(rdv.id);
+        this.visit.set(visit);
+        await this.loadVisitFeedback(visit);
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Chargement du rendez-vous impossible.";
       this.error.set(message);
@@ -51,4 +112,208 @@ export class AppointmentDetailPageComponent implements OnInit {
       this.loading.set(false);
     }
   }
+
+  // Un retour absent (404) laisse simplement le formulaire vide.
+  private async loadVisitFeedback(visit: PropertyVisitResponse): Promise<void> {
+    const [feedback, vocals] = await Promise.all([
+      this.propertyService.getVisitFeedback(visit.id).catch(() => null),
+      this.vocalService.list().catch(() => ({ items: [] })),
+    ]);
+    this.applyVisitFeedback(feedback);
+    this.visitVocals.set(
+      vocals.items.filter(
+        (vocal) => vocal.propertyId === visit.propertyId && vocal.vocalType === "COMPTE_RENDU_VISITE_CLIENT",
+      ),
+    );
+  }
+
+  async saveVisitFeedback(): Promise<void> {
+    const value = this.feedbackForm.getRawValue();
+    await this.runFeedbackAction(async () => {
+      const feedback = await this.propertyService.saveVisitFeedback(this.rdvId, {
+        interestLevel: value.interestLevel || null,
+        perceivedPrice: value.perceivedPrice || null,
+        offerIntention: value.offerIntention || null,
+        positives: this.splitList(value.positives),
+        negatives: this.splitList(value.negatives),
+      });
+      this.applyVisitFeedback(feedback);
+      this.feedbackMessage.set("Retour de visite enregistré.");
+    });
+  }
+
+  async extractVisitFeedback(): Promise<void> {
+    const vocalId = this.feedbackForm.controls.vocalId.value;
+    if (!vocalId) {
+      return;
+    }
+
+    await this.runFeedbackAction(async () => {
+      const result = await this.propertyService.extractVisitFeedback(this.rdvId, vocalId);
+      if (result.feedback) {
+        this.applyVisitFeedback(result.feedback);
+        this.feedbackMessage.set("Retour extrait du compte rendu vocal.");
+        return;
+      }
+
+      this.feedbackMessage.set(
+        EXTRACT_STATUS_MESSAGES[result.reason ?? ""] ?? "Aucun retour n'a pu être extrait du vocal.",
+      );
+    });
+  }
+
+  private applyVisitFeedback(feedback: VisitFeedbackResponse | null): void {
+    this.visitFeedback.set(feedback);
+    this.feedbackForm.patchValue({
+      interestLevel: feedback?.interestLevel ?? "",
+      perceivedPrice: feedback?.perceivedPrice ?? "",
+      offerIntention: feedback?.offerIntention ?? "",
+      positives: feedback?.positives.join(", ") ?? "",
+      negatives: feedback?.negatives.join(", ") ?? "",
+    });
+  }
+
+  private async runFeedbackAction(action: () => Promise<void>): Promise<void> {
+    this.feedbackPending.set(true);
+    this.feedbackError.set(null);
+    this.feedbackMessage.set(null);
+
+    try {
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Enregistrement du retour impossible.";
+      this.feedbackError.set(message);
+    } finally {
+      this.feedbackPending.set(false);
+    }
+  }
+
+  private splitList(value: string): string[] {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  onSignaturePointerDown(event: PointerEvent): void {
+    const canvas = event.currentTarget as HTMLCanvasElement;
+    canvas.setPointerCapture(event.pointerId);
+    this.drawingSignature = true;
+    const point = this.toSignaturePoint(canvas, event);
+    this.signatureStrokes.push([point]);
+    this.drawSignatureSegment(canvas, point, point);
+    this.hasSignature.set(true);
+  }
+
+  onSignaturePointerMove(event: PointerEvent): void {
+    const stroke = this.signatureStrokes.at(-1);
+    if (!this.drawingSignature || !stroke) {
+      return;
+    }
+
+    const canvas = event.currentTarget as HTMLCanvasElement;
+    const point = this.toSignaturePoint(canvas, event);
+    this.drawSignatureSegment(canvas, stroke.at(-1) ?? point, point);
+    stroke.push(point);
+  }
+
+  onSignaturePointerUp(): void {
+    this.drawingSignature = false;
+  }
+
+  clearSignature(canvas: HTMLCanvasElement): void {
+    this.signatureStrokes = [];
+    this.hasSignature.set(false);
+    canvas.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+  }
+
+  async openBonDeVisitePreview(): Promise<void> {
+    await this.runBonDeVisiteAction(async () => {
+      const blob = await this.propertyService.downloadBonDeVisitePreview(this.rdvId);
+      const url = URL.createObjectURL(blob);
+      window.open(url, "_blank", "noopener");
+      // Laisse au nouvel onglet le temps de charger le PDF avant de libérer l'URL.
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    });
+  }
+
+  async openSignedBonDeVisite(): Promise<void> {
+    const fileId = this.visit()?.bonDeVisiteFileId;
+    if (!fileId) {
+      return;
+    }
+
+    await this.runBonDeVisiteAction(async () => {
+      const download = await this.fileService.getDownloadUrl(fileId);
+      window.open(download.url, "_blank", "noopener");
+    });
+  }
+
+  async signBonDeVisite(canvas: HTMLCanvasElement): Promise<void> {
+    if (this.signatureStrokes.length === 0) {
+      this.bonDeVisiteError.set("Le visiteur doit signer dans le cadre.");
+      return;
+    }
+
+    await this.runBonDeVisiteAction(async () => {
+      const visit = await this.propertyService.signBonDeVisite(this.rdvId, {
+        width: canvas.width,
+        height: canvas.height,
+        strokes: this.signatureStrokes,
+      });
+      this.visit.set(visit);
+      this.rdv.update((rdv) =>
+        rdv
+          ? { ...rdv, bonDeVisiteFileId: visit.bonDeVisiteFileId, bonDeVisiteFileName: visit.bonDeVisiteFileName }
+          : rdv,
+      );
+      this.signatureStrokes = [];
+      this.hasSignature.set(false);
+    });
+  }
+
+  private async runBonDeVisiteAction(action: () => Promise<void>): Promise<void> {
+    this.bonDeVisitePending.set(true);
+    this.bonDeVisiteError.set(null);
+
+    try {
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Action sur le bon de visite impossible.";
+      this.bonDeVisiteError.set(message);
+    } finally {
+      this.bonDeVisitePending.set(false);
+    }
+  }
+
+  // Le canvas peut être redimensionné par le CSS: on ramène le pointeur à sa résolution interne.
+  private toSignaturePoint(canvas: HTMLCanvasElement, event: PointerEvent): BonDeVisiteSignaturePoint {
+    const rect = canvas.getBoundingClientRect();
+    const scaleX = rect.width > 0 ? canvas.width / rect.width : 1;
+    const scaleY = rect.height > 0 ? canvas.height / rect.height : 1;
+    return {
+      x: Math.round((event.clientX - rect.left) * scaleX),
+      y: Math.round((event.clientY - rect.top) * scaleY),
+    };
+  }
+
+  private drawSignatureSegment(
+    canvas: HTMLCanvasElement,
+    from: BonDeVisiteSignaturePoint,
+    to: BonDeVisiteSignaturePoint,
+  ): void {
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return;
+    }
+
+    context.strokeStyle = "#0f172a";
+    context.lineWidth = 2;
+    context.lineCap = "round";
+    context.lineJoin = "round";
+    context.beginPath();
+    context.moveTo(from.x, from.y);
+    context.lineTo(to.x, to.y);
+    context.stroke();
+  }
 }
@@ -226,6 +226,12 @@ export class CalendarPageComponent implements OnDestroy {
       return;
     }
 
+    // Les échéances de compromis n'ont pas de fiche rendez-vous: on ouvre le bien.
+    if (clickInfo.event.extendedProps["rdvType"] === "ECHEANCE_VENTE") {
+      void this.router.navigate(["/app/bien", clickInfo.event.extendedProps["propertyId"]]);
+      return;
+    }
+
     void this.router.navigate(["/app/rdv", eventId]);
   }
 
@@ -274,14 +280,17 @@ export class CalendarPageComponent implements OnDestroy {
       .trim();
     const title = clientLabel ? `${rdv.title} · ${clientLabel}` : rdv.title;
     const isManualAppointment = rdv.rdvType === "RENDEZ_VOUS";
+    const isClosingDeadline = rdv.rdvType === "ECHEANCE_VENTE";
+    const color = isManualAppointment ? "#0f766e" : isClosingDeadline ? "#b45309" : undefined;
 
     return {
       id: rdv.id,
-      title,
+      title: isClosingDeadline ? `${rdv.title} · ${rdv.propertyTitle}` : title,
       start: rdv.startsAt,
       end: rdv.endsAt,
-      backgroundColor: isManualAppointment ? "#0f766e" : undefined,
-      borderColor: isManualAppointment ? "#0f766e" : undefined,
+      allDay: isClosingDeadline,
+      backgroundColor: color,
+      borderColor: color,
       extendedProps: {
         rdvType: rdv.rdvType,
         propertyId: rdv.propertyId,
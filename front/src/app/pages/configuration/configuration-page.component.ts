@@ -13,7 +13,12 @@ import {
   ReactiveFormsModule,
 } from "@angular/forms";
 
-import type { AICallLogResponse, AiProvider, IntegrationPath } from "../../core/api.models";
+import type {
+  AICallLogResponse,
+  AiProvider,
+  IntegrationPath,
+  TranscriptionProvider,
+} from "../../core/api.models";
 import { AICallsService } from "../../services/ai-calls.service";
 import { AppSettingsService } from "../../services/app-settings.service";
 import { IntegrationService } from "../../services/integration.service";
@@ -33,6 +38,7 @@ type SyncFormGroup = FormGroup<{
 type ValuationSettingsFormGroup = FormGroup<{
   notaryFeePct: FormControl<string>;
   aiProvider: FormControl<AiProvider>;
+  transcriptionProvider: FormControl<TranscriptionProvider>;
   valuationAiOutputFormat: FormControl<string>;
   assistantSoul: FormControl<string>;
 }>;
@@ -96,6 +102,7 @@ export class ConfigurationPageComponent {
   readonly valuationSettingsForm: ValuationSettingsFormGroup = this.formBuilder.nonNullable.group({
     notaryFeePct: [this.formatNotaryFeePct(this.appSettingsService.notaryFeePct())],
     aiProvider: [this.appSettingsService.aiProvider()],
+    transcriptionProvider: [this.appSettingsService.transcriptionProvider()],
     valuationAiOutputFormat: [this.appSettingsService.valuationAiOutputFormat()],
     assistantSoul: [this.appSettingsService.assistantSoul()],
   });
@@ -251,6 +258,10 @@ export class ConfigurationPageComponent {
     switch (useCase) {
       case "MESSAGE_PROPERTY_MATCH":
         return "Rattachement message";
+      case "MESSAGE_THREAD_SUMMARY":
+        return "Résumé conversation";
+      case "MESSAGE_REPLY_DRAFT":
+        return "Brouillon de réponse";
       case "FILE_CLASSIFICATION":
         return "Classification document";
       case "VOCAL_TRANSCRIPTION":
@@ -263,6 +274,8 @@ export class ConfigurationPageComponent {
         return "Extraction visite initiale";
       case "VOCAL_INSIGHTS_EXTRACTION":
         return "Insights vocal";
+      case "VISIT_FEEDBACK_EXTRACTION":
+        return "Retour de visite";
       case "PROPERTY_VALUATION":
         return "Valorisation";
       default:
@@ -366,6 +379,7 @@ export class ConfigurationPageComponent {
       const persisted = await this.appSettingsService.updateSettings({
         notaryFeePct: parsed,
         aiProvider: this.valuationSettingsForm.controls.aiProvider.value,
+        transcriptionProvider: this.valuationSettingsForm.controls.transcriptionProvider.value,
         valuationAiOutputFormat: normalizedOutputFormat || null,
         assistantSoul: normalizedAssistantSoul || null,
       });
@@ -373,6 +387,9 @@ export class ConfigurationPageComponent {
         this.formatNotaryFeePct(persisted.notaryFeePct),
       );
       this.valuationSettingsForm.controls.aiProvider.setValue(persisted.aiProvider);
+      this.valuationSettingsForm.controls.transcriptionProvider.setValue(
+        persisted.transcriptionProvider,
+      );
       this.valuationSettingsForm.controls.valuationAiOutputFormat.setValue(
         persisted.valuationAiOutputFormat,
       );
@@ -444,6 +461,7 @@ export class ConfigurationPageComponent {
       this.formatNotaryFeePct(loaded.notaryFeePct),
     );
     this.valuationSettingsForm.controls.aiProvider.setValue(loaded.aiProvider);
+    this.valuationSettingsForm.controls.transcriptionProvider.setValue(loaded.transcriptionProvider);
     this.valuationSettingsForm.controls.valuationAiOutputFormat.setValue(
       loaded.valuationAiOutputFormat,
     );
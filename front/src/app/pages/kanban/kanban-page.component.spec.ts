@@ -51,9 +51,11 @@ describe("KanbanPageComponent", () => {
     updateStatusImpl?: (propertyId: string) => Promise<PropertyResponse>;
     listByPropertyImpl?: (propertyId: string) => Promise<FileListResponse>;
     getDownloadUrlImpl?: () => Promise<FileDownloadUrlResponse>;
+    missingDocumentLabels?: string[];
   }) => {
     const properties = baseProperties();
     const updateStatusCalls: Array<{ propertyId: string; status: string }> = [];
+    const forcedUpdates: boolean[] = [];
 
     const propertyServiceMock: Partial<PropertyService> = {
       list:
@@ -62,8 +64,9 @@ describe("KanbanPageComponent", () => {
           Promise.resolve({
             items: properties,
           } as PropertyListResponse)),
-      updateStatus: async (propertyId, status) => {
+      updateStatus: async (propertyId, status, updateOptions) => {
         updateStatusCalls.push({ propertyId, status });
+        forcedUpdates.push(updateOptions?.force ?? false);
         if (options?.updateStatusImpl) {
           return options.updateStatusImpl(propertyId);
         }
@@ -73,6 +76,22 @@ describe("KanbanPageComponent", () => {
           status,
         };
       },
+      getDocumentChecklist: async (propertyId, status) => ({
+        propertyId,
+        status: status ?? "PROSPECTION",
+        missing: (options?.missingDocumentLabels ?? []).map((label) => ({
+          typeDocument: "DPE",
+          label,
+          requirement: "MANDATORY",
+          requiredFromStatus: "MANDAT_SIGNE",
+          reason: "Obligatoire",
+          state: "MISSING",
+          fileIds: [],
+          hiddenKey: null,
+        })),
+        present: [],
+        hidden: [],
+      }),
     };
 
     const fileServiceMock: Partial<FileService> = {
@@ -120,7 +139,7 @@ describe("KanbanPageComponent", () => {
 
     const fixture = TestBed.createComponent(KanbanPageComponent);
     const component = fixture.componentInstance;
-    return { fixture, component, updateStatusCalls };
+    return { fixture, component, updateStatusCalls, forcedUpdates };
   };
 
   it("affiche la photo HD si présente et fallback prix sur salePriceTtc", async () => {
@@ -171,6 +190,54 @@ describe("KanbanPageComponent", () => {
     expect(component.dropTargetStatus()).toBeNull();
   });
 
+  it("demande confirmation puis force le dépôt quand des documents obligatoires manquent", async () => {
+    const { fixture, component, updateStatusCalls, forcedUpdates } = setup({
+      missingDocumentLabels: ["DPE"],
+    });
+    fixture.detectChanges();
+    await component.loadProperties();
+    await fixture.whenStable();
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValueOnce(false).mockReturnValueOnce(true);
+
+    try {
+      for (let attempt = 0; attempt < 2; attempt += 1) {
+        component.draggingPropertyId.set("property_with_photo");
+        component.draggingFromStatus.set("PROSPECTION");
+        await component.onColumnDrop("MANDAT_SIGNE", { preventDefault: vi.fn() } as unknown as DragEvent);
+      }
+
+      expect(confirmSpy).toHaveBeenCalledTimes(2);
+      expect(confirmSpy.mock.calls[0]?.[0]).toContain("DPE");
+      expect(updateStatusCalls).toEqual([{ propertyId: "property_with_photo", status: "MANDAT_SIGNE" }]);
+      expect(forcedUpdates).toEqual([true]);
+    } finally {
+      confirmSpy.mockRestore();
+    }
+  });
+
+  it("refuse un dépôt qui ne respecte pas le workflow de statuts", async () => {
+    const { fixture, component, updateStatusCalls } = setup();
+    fixture.detectChanges();
+    await component.loadProperties();
+    await fixture.whenStable();
+
+    component.workflowTransitions.set([
+      { from: "PROSPECTION", to: "MANDAT_SIGNE", guards: [] },
+    ]);
+    component.draggingPropertyId.set("property_with_photo");
+    component.draggingFromStatus.set("PROSPECTION");
+
+    const dragOverEvent = { preventDefault: vi.fn() } as unknown as DragEvent;
+    component.onColumnDragOver("VISITES", dragOverEvent);
+    expect(dragOverEvent.preventDefault).not.toHaveBeenCalled();
+
+    await component.onColumnDrop("VISITES", { preventDefault: vi.fn() } as unknown as DragEvent);
+
+    expect(updateStatusCalls).toEqual([]);
+    expect(component.error()).toBe("Transition Prospection → Visites non autorisée par le workflow.");
+    expect(component.draggingPropertyId()).toBeNull();
+  });
+
   it("gère les erreurs de chargement et de mise à jour", async () => {
     const { fixture, component } = setup({
       listImpl: () => Promise.reject(new Error("load error")),
@@ -9,7 +9,11 @@ import {
 } from "@angular/core";
 import { Router } from "@angular/router";
 
-import type { PropertyResponse, PropertyStatus } from "../../core/api.models";
+import type {
+  PropertyResponse,
+  PropertyStatus,
+  StatusWorkflowTransition,
+} from "../../core/api.models";
 import {
   PROPERTY_FLOW_STATUSES,
   PROPERTY_STATUSES,
@@ -36,6 +40,7 @@ export class KanbanPageComponent implements OnInit {
   readonly draggingPropertyId = signal<string | null>(null);
   readonly draggingFromStatus = signal<PropertyStatus | null>(null);
   readonly dropTargetStatus = signal<PropertyStatus | null>(null);
+  readonly workflowTransitions = signal<StatusWorkflowTransition[] | null>(null);
 
   private readonly propertyService = inject(PropertyService);
   private readonly fileService = inject(FileService);
@@ -59,6 +64,16 @@ export class KanbanPageComponent implements OnInit {
 
   ngOnInit(): void {
     void this.loadProperties();
+    void this.loadStatusWorkflow();
+  }
+
+  canMoveToStatus(from: PropertyStatus, to: PropertyStatus): boolean {
+    const transitions = this.workflowTransitions();
+    if (!transitions) {
+      return true;
+    }
+
+    return transitions.some((transition) => transition.from === from && transition.to === to);
   }
 
   columnItems(status: PropertyStatus): PropertyResponse[] {
@@ -111,7 +126,12 @@ export class KanbanPageComponent implements OnInit {
     const draggingPropertyId = this.draggingPropertyId();
     const draggingFromStatus = this.draggingFromStatus();
 
-    if (!draggingPropertyId || !draggingFromStatus || draggingFromStatus === status) {
+    if (
+      !draggingPropertyId ||
+      !draggingFromStatus ||
+      draggingFromStatus === status ||
+      !this.canMoveToStatus(draggingFromStatus, status)
+    ) {
       return;
     }
 
@@ -152,7 +172,15 @@ export class KanbanPageComponent implements OnInit {
       return;
     }
 
-    await this.movePropertyToStatus(propertyId, status);
+    if (!this.canMoveToStatus(fromStatus, status)) {
+      this.error.set(
+        `Transition ${this.statusLabels[fromStatus]} → ${this.statusLabels[status]} non autorisée par le workflow.`,
+      );
+      this.resetDragState();
+      return;
+    }
+
+    await this.movePropertyToStatus(propertyId, fromStatus, status);
     this.resetDragState();
   }
 
@@ -169,14 +197,39 @@ export class KanbanPageComponent implements OnInit {
     this.openProperty(propertyId);
   }
 
+  private async loadStatusWorkflow(): Promise<void> {
+    try {
+      const workflow = await this.propertyService.getStatusWorkflow();
+      this.workflowTransitions.set(workflow.transitions);
+    } catch {
+      this.workflowTransitions.set(null);
+    }
+  }
+
   private async movePropertyToStatus(
     propertyId: string,
+    fromStatus: PropertyStatus,
     nextStatus: PropertyStatus,
   ): Promise<void> {
     this.updatingPropertyId.set(propertyId);
 
     try {
-      const updated = await this.propertyService.updateStatus(propertyId, nextStatus);
+      const missingDocuments = await this.findMissingMandatoryDocuments(
+        propertyId,
+        fromStatus,
+        nextStatus,
+      );
+      const force = missingDocuments.length > 0;
+      if (
+        force &&
+        !window.confirm(
+          `Documents obligatoires manquants pour le statut ${this.statusLabels[nextStatus]} : ${missingDocuments.join(", ")}. Forcer le changement de statut ?`,
+        )
+      ) {
+        return;
+      }
+
+      const updated = await this.propertyService.updateStatus(propertyId, nextStatus, { force });
       this.properties.update((items) =>
         items.map((item) => (item.id === updated.id ? updated : item)),
       );
@@ -188,6 +241,25 @@ export class KanbanPageComponent implements OnInit {
     }
   }
 
+  private async findMissingMandatoryDocuments(
+    propertyId: string,
+    fromStatus: PropertyStatus,
+    nextStatus: PropertyStatus,
+  ): Promise<string[]> {
+    if (PROPERTY_FLOW_STATUSES.indexOf(nextStatus) <= PROPERTY_FLOW_STATUSES.indexOf(fromStatus)) {
+      return [];
+    }
+
+    try {
+      const checklist = await this.propertyService.getDocumentChecklist(propertyId, nextStatus);
+      return checklist.missing
+        .filter((item) => item.requirement === "MANDATORY")
+        .map((item) => item.label);
+    } catch {
+      return [];
+    }
+  }
+
   formatPrice(price: number | null | undefined): string {
     if (typeof price !== "number") {
       return "Prix à définir";
@@ -1941,6 +1941,14 @@ describe('PropertyDetailPageComponent comparables', () => {
         statusCalls.push(status);
         return Promise.resolve({ ...baseProperty, status });
       },
+      getDocumentChecklist: (_propertyId, status) =>
+        Promise.resolve({
+          propertyId: 'property_flow',
+          status: status ?? currentStatus,
+          missing: [],
+          present: [],
+          hidden: [],
+        }),
       addProspect: async () =>
         ({
           id: 'prospect_1',
@@ -1962,6 +1970,7 @@ describe('PropertyDetailPageComponent comparables', () => {
           propertyId: 'property_flow',
           propertyTitle: 'Maison Nice',
           prospectUserId: 'user_1',
+          agentUserId: null,
           prospectFirstName: 'Julie',
           prospectLastName: 'Robert',
           prospectEmail: 'julie@example.com',
@@ -1971,6 +1980,8 @@ describe('PropertyDetailPageComponent comparables', () => {
           compteRendu: null,
           bonDeVisiteFileId: null,
           bonDeVisiteFileName: null,
+          bonDeVisiteSignedAt: null,
+          bonDeVisiteSha256: null,
           createdAt: '2026-02-03T09:00:00.000Z',
           updatedAt: '2026-02-03T09:00:00.000Z',
         }) as const,
@@ -2031,6 +2042,7 @@ describe('PropertyDetailPageComponent comparables', () => {
     const component = fixture.componentInstance;
     fixture.detectChanges();
     await fixture.whenStable();
+    await new Promise((resolve) => setTimeout(resolve, 0));
     fixture.detectChanges();
 
     await component.updateStatus('MANDAT_SIGNE');
@@ -2521,6 +2533,7 @@ describe('PropertyDetailPageComponent comparables', () => {
         propertyId: 'property_computed',
         propertyTitle: 'Maison Grasse',
         prospectUserId: 'client_1',
+        agentUserId: null,
         prospectFirstName: 'Anais',
         prospectLastName: 'Meyer',
         prospectEmail: 'anais@example.com',
@@ -2530,6 +2543,8 @@ describe('PropertyDetailPageComponent comparables', () => {
         compteRendu: null,
         bonDeVisiteFileId: null,
         bonDeVisiteFileName: null,
+        bonDeVisiteSignedAt: null,
+        bonDeVisiteSha256: null,
         createdAt: '2026-02-01T11:00:00.000Z',
         updatedAt: '2026-02-01T11:00:00.000Z',
       },
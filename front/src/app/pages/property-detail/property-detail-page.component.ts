@@ -23,6 +23,9 @@ import type {
   PropertyComparablesResponse,
   FileResponse,
   MessageResponse,
+  MessageThreadResponse,
+  PropertyBuyerMatchResponse,
+  PropertyDocumentChecklistResponse,
   PropertyPatchRequest,
   PropertyProspectResponse,
   PropertyRiskResponse,
@@ -31,12 +34,16 @@ import type {
   PropertyResponse,
   PropertyStatus,
   PropertyVisitResponse,
+  VisitSlot,
+  PropertyBookingLinkResponse,
+  SellerReportResponse,
   TypeDocument,
   ObjectDataFieldDefinition,
   ObjectDataFieldType,
   ObjectChangeEntryResponse,
 } from '../../core/api.models';
 import {
+  BUYER_MATCH_CRITERION_LABELS,
   DOCUMENT_TABS,
   PROPERTY_DETAILS_CATEGORIES,
   PROPERTY_FLOW_STATUSES,
@@ -100,6 +107,7 @@ type ExpectedDocumentItem = {
   label: string;
   typeDocument: TypeDocument | null;
   provided: boolean;
+  mandatory: boolean;
 };
 type MarketTrendYearRow = {
   year: number;
@@ -333,6 +341,15 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
   readonly visitModalOpen = signal(false);
   readonly visitProspectMode = signal<VisitProspectMode>('existing');
   readonly visitFeedback = signal<string | null>(null);
+  readonly visitSlots = signal<VisitSlot[]>([]);
+  readonly visitSlotsLoading = signal(false);
+  readonly visitSlotAgentId = signal<string | null>(null);
+  readonly bookingLink = signal<PropertyBookingLinkResponse | null>(null);
+  readonly bookingLinkPending = signal(false);
+  readonly bookingLinkFeedback = signal<string | null>(null);
+  readonly sellerReport = signal<SellerReportResponse | null>(null);
+  readonly sellerReportPending = signal(false);
+  readonly sellerReportFeedback = signal<string | null>(null);
   readonly clientsLoading = signal(false);
   readonly prospectSuggestionsOpen = signal(false);
   readonly visitSuggestionsOpen = signal(false);
@@ -345,6 +362,26 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
   readonly documentTabs = DOCUMENT_TABS;
   readonly categoryForms = signal<Partial<CategoryForms>>({});
   readonly hiddenExpectedDocumentKeys = signal<string[]>([]);
+  readonly documentChecklist = signal<PropertyDocumentChecklistResponse | null>(null);
+  readonly buyerMatches = signal<PropertyBuyerMatchResponse[]>([]);
+  readonly buyerMatchCriterionLabels = BUYER_MATCH_CRITERION_LABELS;
+  readonly buyerAlertPending = signal(false);
+  readonly buyerAlertFeedback = signal<string | null>(null);
+  readonly emailComposerOpen = signal(false);
+  readonly emailReplyTarget = signal<MessageResponse | null>(null);
+  readonly emailAttachmentIds = signal<string[]>([]);
+  readonly emailPending = signal(false);
+  readonly emailFeedback = signal<string | null>(null);
+  readonly messageThreads = signal<MessageThreadResponse[]>([]);
+  readonly threadSummaryPendingId = signal<string | null>(null);
+  readonly threadFeedback = signal<string | null>(null);
+  readonly replyDraftPendingId = signal<string | null>(null);
+  readonly replyDraft = signal<{ messageId: string; body: string } | null>(null);
+  readonly replyDraftFeedback = signal<string | null>(null);
+  readonly unthreadedMessages = computed(() => {
+    const threadIds = new Set(this.messageThreads().map((thread) => thread.id));
+    return this.messages().filter((message) => !message.threadId || !threadIds.has(message.threadId));
+  });
   readonly objectChangeHistoryByParam = signal<Record<string, ObjectChangeEntryResponse[]>>({});
 
   readonly prospectForm = this.formBuilder.nonNullable.group({
@@ -360,6 +397,13 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
     city: [''],
   });
 
+  readonly emailForm = this.formBuilder.nonNullable.group({
+    to: [''],
+    cc: [''],
+    subject: [''],
+    body: [''],
+  });
+
   readonly uploadForm = this.formBuilder.nonNullable.group({
     typeDocument: [DEFAULT_TYPE_DOCUMENT, [Validators.required]],
   });
@@ -436,10 +480,28 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
       .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
   });
 
+  readonly mandatoryDocumentTypes = computed<Set<TypeDocument>>(() => {
+    const checklist = this.documentChecklist();
+    if (!checklist) {
+      return new Set();
+    }
+
+    return new Set(
+      [...checklist.missing, ...checklist.present]
+        .filter((item) => item.requirement === 'MANDATORY')
+        .map((item) => item.typeDocument),
+    );
+  });
+
+  readonly mandatoryMissingDocuments = computed(() =>
+    (this.documentChecklist()?.missing ?? []).filter((item) => item.requirement === 'MANDATORY'),
+  );
+
   readonly expectedDocumentsForActiveTab = computed<ExpectedDocumentItem[]>(() => {
     const tab = this.activeDocumentTabDefinition();
     const hiddenExpectedDocumentKeys = new Set(this.hiddenExpectedDocumentKeys());
     const providedDocumentTypes = this.providedDocumentTypes();
+    const mandatoryDocumentTypes = this.mandatoryDocumentTypes();
 
     return tab.expected
       .map((label, index): ExpectedDocumentItem | null => {
@@ -455,6 +517,7 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
           label,
           typeDocument,
           provided: typeDocument !== null && providedDocumentTypes.has(typeDocument),
+          mandatory: typeDocument !== null && mandatoryDocumentTypes.has(typeDocument),
         };
       })
       .filter((item): item is ExpectedDocumentItem => item !== null);
@@ -1426,6 +1489,7 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
     this.comparablesChartInflationEnabled.set(false);
     this.salesPage.set(1);
     this.hiddenExpectedDocumentKeys.set([]);
+    this.documentChecklist.set(null);
     this.objectChangeHistoryByParam.set({});
     this.destroyComparablesChart();
     this.didInitialValuationComparablesRefresh = false;
@@ -1477,6 +1541,10 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
         this.groupObjectChangesByParam(objectChangesResponse?.items ?? []),
       );
       void this.loadPropertyRisks();
+      void this.loadDocumentChecklist();
+      void this.loadBuyerMatches();
+      void this.loadMessageThreads();
+      void this.loadBookingLink();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Chargement impossible.';
       this.error.set(message);
@@ -1850,9 +1918,23 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
     this.requestFeedback.set('Mise à jour du statut en cours...');
 
     try {
-      const updated = await this.propertyService.updateStatus(this.propertyId, status);
+      const missingDocuments = await this.findMissingMandatoryDocuments(status);
+      const force = missingDocuments.length > 0;
+      if (
+        force &&
+        !window.confirm(
+          `Documents obligatoires manquants pour le statut ${this.statusLabels[status]} : ${missingDocuments.join(', ')}. Forcer le changement de statut ?`,
+        )
+      ) {
+        this.requestFeedback.set('Changement de statut annulé.');
+        return;
+      }
+
+      const updated = await this.propertyService.updateStatus(this.propertyId, status, { force });
       this.property.set(updated);
       this.requestFeedback.set(`Statut mis à jour: ${this.statusLabels[updated.status]}.`);
+      void this.loadDocumentChecklist();
+      void this.loadBuyerMatches();
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Mise à jour impossible.';
       this.requestFeedback.set(message);
@@ -1861,6 +1943,25 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
     }
   }
 
+  private async findMissingMandatoryDocuments(status: PropertyStatus): Promise<string[]> {
+    const current = this.property()?.status;
+    if (
+      !current ||
+      PROPERTY_FLOW_STATUSES.indexOf(status) <= PROPERTY_FLOW_STATUSES.indexOf(current)
+    ) {
+      return [];
+    }
+
+    try {
+      const checklist = await this.propertyService.getDocumentChecklist(this.propertyId, status);
+      return checklist.missing
+        .filter((item) => item.requirement === 'MANDATORY')
+        .map((item) => item.label);
+    } catch {
+      return [];
+    }
+  }
+
   async goToPreviousStatus(): Promise<void> {
     const status = this.previousStatus();
     if (!status) {
@@ -2023,6 +2124,7 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
 
       this.files.update((items) => [uploaded, ...items]);
       this.closeUploadModal();
+      void this.loadDocumentChecklist();
       this.uploadFeedback.set('Document ajouté.');
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Upload impossible.';
@@ -2333,12 +2435,117 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
       city: '',
     });
     this.visitFeedback.set(null);
+    this.visitSlotAgentId.set(null);
     this.visitSuggestionsOpen.set(false);
     this.visitModalOpen.set(true);
 
     if (this.clients().length === 0) {
       void this.loadClientOptions();
     }
+    void this.loadVisitSlots();
+  }
+
+  bookingLinkUrl(): string | null {
+    const link = this.bookingLink();
+    return link ? `${window.location.origin}/visite/${encodeURIComponent(link.token)}` : null;
+  }
+
+  async updateBookingLink(
+    payload: { enabled?: boolean; requiresConfirmation?: boolean; rotateToken?: boolean },
+    successMessage: string,
+  ): Promise<void> {
+    if (this.bookingLinkPending()) {
+      return;
+    }
+
+    this.bookingLinkPending.set(true);
+    this.bookingLinkFeedback.set(null);
+
+    try {
+      this.bookingLink.set(await this.propertyService.upsertBookingLink(this.propertyId, payload));
+      this.bookingLinkFeedback.set(successMessage);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Mise à jour du lien impossible.';
+      this.bookingLinkFeedback.set(message);
+    } finally {
+      this.bookingLinkPending.set(false);
+    }
+  }
+
+  async copyBookingLink(): Promise<void> {
+    const url = this.bookingLinkUrl();
+    if (!url) {
+      return;
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      this.bookingLinkFeedback.set('Lien copié.');
+    } catch {
+      this.bookingLinkFeedback.set('Copie impossible, sélectionnez le lien manuellement.');
+    }
+  }
+
+  async generateSellerReport(): Promise<void> {
+    await this.runSellerReportAction(async () => {
+      const report = await this.propertyService.generateSellerReport(this.propertyId);
+      this.sellerReport.set(report);
+      this.files.set((await this.fileService.listByProperty(this.propertyId, 100)).items);
+      this.sellerReportFeedback.set('Reporting généré et ajouté aux documents du bien.');
+    });
+  }
+
+  async openSellerReport(): Promise<void> {
+    const report = this.sellerReport();
+    if (!report) {
+      return;
+    }
+
+    await this.runSellerReportAction(async () => {
+      const download = await this.fileService.getDownloadUrl(report.fileId);
+      window.open(download.url, '_blank', 'noopener');
+    });
+  }
+
+  async sendSellerReport(): Promise<void> {
+    const report = this.sellerReport();
+    if (!report) {
+      return;
+    }
+
+    await this.runSellerReportAction(async () => {
+      const message = await this.propertyService.sendSellerReport(this.propertyId, report.fileId);
+      this.sellerReportFeedback.set(`Reporting envoyé à ${message.toAddresses.join(', ')}.`);
+    });
+  }
+
+  private async runSellerReportAction(action: () => Promise<void>): Promise<void> {
+    if (this.sellerReportPending()) {
+      return;
+    }
+
+    this.sellerReportPending.set(true);
+    this.sellerReportFeedback.set(null);
+
+    try {
+      await action();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Action sur le reporting impossible.';
+      this.sellerReportFeedback.set(message);
+    } finally {
+      this.sellerReportPending.set(false);
+    }
+  }
+
+  selectVisitSlot(slot: VisitSlot): void {
+    this.visitForm.controls.startsAt.setValue(this.formatForDateTimeInput(new Date(slot.startsAt)));
+    this.visitForm.controls.endsAt.setValue(this.formatForDateTimeInput(new Date(slot.endsAt)));
+    this.visitSlotAgentId.set(slot.agentUserId);
+  }
+
+  isVisitSlotSelected(slot: VisitSlot): boolean {
+    const startsAt = this.visitForm.controls.startsAt.value;
+    return Boolean(startsAt) && startsAt === this.formatForDateTimeInput(new Date(slot.startsAt));
   }
 
   closeVisitModal(): void {
@@ -2367,6 +2574,8 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
       return;
     }
 
+    // Horaire saisi à la main: plus de créneau proposé, donc pas d'agent imposé.
+    this.visitSlotAgentId.set(null);
     const startsAtRaw = target.value.trim();
     if (!startsAtRaw) {
       return;
@@ -2492,6 +2701,7 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
 
       const createdVisit = await this.propertyService.addVisit(this.propertyId, {
         prospectUserId,
+        agentUserId: this.visitSlotAgentId() ?? undefined,
         startsAt: startsAtIso,
         endsAt: endsAtIso,
       });
@@ -2551,6 +2761,267 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
     }
   }
 
+  private async loadDocumentChecklist(): Promise<void> {
+    try {
+      this.documentChecklist.set(await this.propertyService.getDocumentChecklist(this.propertyId));
+    } catch {
+      this.documentChecklist.set(null);
+    }
+  }
+
+  async sendBuyerAlerts(userId?: string): Promise<void> {
+    if (this.buyerAlertPending()) {
+      return;
+    }
+
+    this.buyerAlertPending.set(true);
+    this.buyerAlertFeedback.set(null);
+
+    try {
+      const response = await this.propertyService.sendBuyerAlerts(
+        this.propertyId,
+        userId ? { userIds: [userId] } : {},
+      );
+      const count = (status: string) => response.items.filter((item) => item.status === status).length;
+      const sentCount = count('SENT');
+      const failedCount = count('FAILED');
+      const skippedCount = count('ALREADY_SENT') + count('NO_EMAIL');
+      this.buyerAlertFeedback.set(
+        `${sentCount} alerte(s) envoyée(s)` +
+          (skippedCount > 0 ? `, ${skippedCount} ignorée(s) (déjà alerté ou sans email)` : '') +
+          (failedCount > 0 ? `, ${failedCount} en échec` : '') +
+          '.',
+      );
+      if (sentCount > 0) {
+        await this.loadBuyerMatches();
+        await this.reloadMessages();
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Envoi des alertes impossible.';
+      this.buyerAlertFeedback.set(message);
+    } finally {
+      this.buyerAlertPending.set(false);
+    }
+  }
+
+  canReplyToMessage(message: MessageResponse): boolean {
+    return message.channel === 'GMAIL' || message.channel === 'EMAIL';
+  }
+
+  openEmailComposer(): void {
+    this.emailReplyTarget.set(null);
+    this.emailForm.reset();
+    this.emailAttachmentIds.set([]);
+    this.emailFeedback.set(null);
+    this.emailComposerOpen.set(true);
+  }
+
+  openEmailReply(message: MessageResponse): void {
+    const subject = message.subject?.trim() ?? '';
+    const recipients =
+      message.direction === 'OUTBOUND' ? message.toAddresses : message.fromAddress ? [message.fromAddress] : [];
+
+    this.emailReplyTarget.set(message);
+    this.emailForm.reset({
+      to: recipients.join(', '),
+      cc: '',
+      subject: /^re\s*:/i.test(subject) ? subject : `Re: ${subject}`.trim(),
+      body: '',
+    });
+    this.emailAttachmentIds.set([]);
+    this.emailFeedback.set(null);
+    this.emailComposerOpen.set(true);
+  }
+
+  closeEmailComposer(): void {
+    this.emailComposerOpen.set(false);
+    this.emailReplyTarget.set(null);
+    this.emailFeedback.set(null);
+  }
+
+  toggleEmailAttachment(fileId: string): void {
+    this.emailAttachmentIds.update((ids) =>
+      ids.includes(fileId) ? ids.filter((id) => id !== fileId) : [...ids, fileId],
+    );
+  }
+
+  async sendEmail(): Promise<void> {
+    if (this.emailPending()) {
+      return;
+    }
+
+    const { to, cc, subject, body } = this.emailForm.getRawValue();
+    const toAddresses = this.parseEmailAddresses(to);
+    const ccAddresses = this.parseEmailAddresses(cc);
+    const replyTarget = this.emailReplyTarget();
+
+    if (!body.trim()) {
+      this.emailFeedback.set('Le message est vide.');
+      return;
+    }
+
+    if (!replyTarget && (toAddresses.length === 0 || !subject.trim())) {
+      this.emailFeedback.set("Renseignez au moins un destinataire et l'objet.");
+      return;
+    }
+
+    this.emailPending.set(true);
+    this.emailFeedback.set('Envoi en cours...');
+
+    try {
+      const fileIds = this.emailAttachmentIds();
+      if (replyTarget) {
+        await this.messageService.reply(replyTarget.id, {
+          body,
+          to: toAddresses.length > 0 ? toAddresses : undefined,
+          cc: ccAddresses.length > 0 ? ccAddresses : undefined,
+          subject: subject.trim() || undefined,
+          fileIds: fileIds.length > 0 ? fileIds : undefined,
+        });
+      } else {
+        await this.messageService.compose({
+          to: toAddresses,
+          cc: ccAddresses.length > 0 ? ccAddresses : undefined,
+          subject: subject.trim(),
+          body,
+          propertyId: this.propertyId,
+          fileIds: fileIds.length > 0 ? fileIds : undefined,
+        });
+      }
+
+      await this.reloadMessages();
+      this.closeEmailComposer();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Envoi de l'email impossible.";
+      this.emailFeedback.set(message);
+    } finally {
+      this.emailPending.set(false);
+    }
+  }
+
+  canSuggestReply(message: MessageResponse): boolean {
+    return message.direction === 'INBOUND';
+  }
+
+  async suggestReply(message: MessageResponse): Promise<void> {
+    if (this.replyDraftPendingId()) {
+      return;
+    }
+
+    this.replyDraftPendingId.set(message.id);
+    this.replyDraftFeedback.set(null);
+    this.replyDraft.set(null);
+
+    try {
+      const draft = await this.messageService.suggestReply(message.id);
+      if (this.canReplyToMessage(message)) {
+        this.openEmailReply(message);
+        this.emailForm.patchValue({ subject: draft.subject ?? '', body: draft.body });
+      } else {
+        this.replyDraft.set({ messageId: message.id, body: draft.body });
+      }
+    } catch (error) {
+      const feedback = error instanceof Error ? error.message : 'Suggestion de réponse impossible.';
+      this.replyDraftFeedback.set(feedback);
+    } finally {
+      this.replyDraftPendingId.set(null);
+    }
+  }
+
+  updateReplyDraft(body: string): void {
+    this.replyDraft.update((draft) => (draft ? { ...draft, body } : draft));
+  }
+
+  closeReplyDraft(): void {
+    this.replyDraft.set(null);
+  }
+
+  threadMessages(threadId: string): MessageResponse[] {
+    return this.messages()
+      .filter((message) => message.threadId === threadId)
+      .sort((left, right) => left.receivedAt.localeCompare(right.receivedAt));
+  }
+
+  threadParticipantsLabel(thread: MessageThreadResponse): string {
+    const names = thread.users.map((user) => `${user.firstName} ${user.lastName}`.trim());
+    const linked = new Set(
+      thread.users.flatMap((user) => [user.email, user.phone]).map((value) => value?.toLowerCase()),
+    );
+    const others = thread.participants.filter((participant) => !linked.has(participant.toLowerCase()));
+    return [...names, ...others].join(', ') || 'Participants inconnus';
+  }
+
+  async summarizeMessageThread(threadId: string): Promise<void> {
+    if (this.threadSummaryPendingId()) {
+      return;
+    }
+
+    this.threadSummaryPendingId.set(threadId);
+    this.threadFeedback.set(null);
+
+    try {
+      const updated = await this.messageService.summarizeThread(threadId);
+      this.messageThreads.update((threads) =>
+        threads.map((thread) => (thread.id === updated.id ? updated : thread)),
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Résumé de la conversation impossible.';
+      this.threadFeedback.set(message);
+    } finally {
+      this.threadSummaryPendingId.set(null);
+    }
+  }
+
+  private async reloadMessages(): Promise<void> {
+    this.messages.set((await this.messageService.listByProperty(this.propertyId, 100)).items);
+    await this.loadMessageThreads();
+  }
+
+  private async loadVisitSlots(): Promise<void> {
+    this.visitSlotsLoading.set(true);
+    try {
+      this.visitSlots.set((await this.propertyService.listVisitSlots(this.propertyId, { limit: 6 })).items);
+    } catch {
+      this.visitSlots.set([]);
+    } finally {
+      this.visitSlotsLoading.set(false);
+    }
+  }
+
+  private async loadBookingLink(): Promise<void> {
+    try {
+      this.bookingLink.set(await this.propertyService.getBookingLink(this.propertyId));
+    } catch {
+      // 404 tant que le lien n'a pas été créé.
+      this.bookingLink.set(null);
+    }
+  }
+
+  private async loadMessageThreads(): Promise<void> {
+    try {
+      this.messageThreads.set(
+        (await this.messageService.listThreads({ propertyId: this.propertyId, limit: 50 })).items,
+      );
+    } catch {
+      this.messageThreads.set([]);
+    }
+  }
+
+  private parseEmailAddresses(value: string): string[] {
+    return value
+      .split(/[,;\s]+/)
+      .map((address) => address.trim())
+      .filter((address) => address.length > 0);
+  }
+
+  private async loadBuyerMatches(): Promise<void> {
+    try {
+      this.buyerMatches.set((await this.propertyService.listBuyerMatches(this.propertyId)).items);
+    } catch {
+      this.buyerMatches.set([]);
+    }
+  }
+
   private async loadPropertyRisks(): Promise<void> {
     this.risksLoading.set(true);
     this.risksError.set(null);
@@ -4533,6 +5004,7 @@ export class PropertyDetailPageComponent implements OnInit, OnDestroy {
       this.hiddenExpectedDocumentKeys.set(
         this.normalizeHiddenExpectedDocumentKeys(updated.hiddenExpectedDocumentKeys),
       );
+      void this.loadDocumentChecklist();
     } catch (error) {
       const message =
         error instanceof Error ? error.message : 'Mise à jour des documents masqués impossible.';
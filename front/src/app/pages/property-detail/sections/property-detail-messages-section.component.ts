@@ -1,9 +1,10 @@
 import { CommonModule } from "@angular/common";
 import { Component, Input } from "@angular/core";
+import { ReactiveFormsModule } from "@angular/forms";
 
 @Component({
   selector: "app-property-detail-messages-section",
-  imports: [CommonModule],
+  imports: [CommonModule, ReactiveFormsModule],
   templateUrl: "./property-detail-messages-section.component.html",
 })
 export class PropertyDetailMessagesSectionComponent {
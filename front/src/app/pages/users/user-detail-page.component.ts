@@ -18,10 +18,22 @@ import { ActivatedRoute, RouterLink } from "@angular/router";
 import type {
   AccountUserDetailResponse,
   AccountUserLinkedPropertyResponse,
+  BuyerMatchCriterion,
+  BuyerSearchResponse,
+  ComparablePropertyType,
+  DpeClass,
+  MessageThreadResponse,
   RdvResponse,
+  UserPropertyMatchResponse,
 } from "../../core/api.models";
+import { MessageService } from "../../services/message.service";
 import { PropertyService } from "../../services/property.service";
 import { isEmailValid } from "../../core/auth-helpers";
+import {
+  BUYER_MATCH_CRITERION_LABELS,
+  PROPERTY_DETAILS_CATEGORIES,
+  PROPERTY_TYPE_OPTIONS,
+} from "../../core/constants";
 import { UserService } from "../../services/user.service";
 
 type UserFormGroup = FormGroup<{
@@ -35,6 +47,18 @@ type UserFormGroup = FormGroup<{
   personalNotes: FormControl<string>;
 }>;
 
+type BuyerSearchFormGroup = FormGroup<{
+  budgetMin: FormControl<string>;
+  budgetMax: FormControl<string>;
+  cities: FormControl<string>;
+  postalCodes: FormControl<string>;
+  radiusKm: FormControl<string>;
+  propertyType: FormControl<string>;
+  minRooms: FormControl<string>;
+  minLivingArea: FormControl<string>;
+  maxDpeClass: FormControl<string>;
+}>;
+
 type VisitedObjectSummary = {
   propertyId: string;
   propertyTitle: string;
@@ -54,6 +78,7 @@ export class UserDetailPageComponent implements OnInit {
   private readonly route = inject(ActivatedRoute);
   private readonly userService = inject(UserService);
   private readonly propertyService = inject(PropertyService);
+  private readonly messageService = inject(MessageService);
   private readonly formBuilder = inject(FormBuilder);
 
   readonly userId = this.route.snapshot.paramMap.get("id") ?? "";
@@ -66,6 +91,21 @@ export class UserDetailPageComponent implements OnInit {
   readonly userVisits = signal<RdvResponse[]>([]);
   readonly visitsLoading = signal(false);
   readonly visitsError = signal<string | null>(null);
+  readonly userThreads = signal<MessageThreadResponse[]>([]);
+  readonly threadsLoading = signal(false);
+  readonly threadsError = signal<string | null>(null);
+  readonly buyerSearch = signal<BuyerSearchResponse | null>(null);
+  readonly buyerSearchPending = signal(false);
+  readonly buyerSearchFeedback = signal<string | null>(null);
+  readonly requiredAmenities = signal<string[]>([]);
+  readonly propertyMatches = signal<UserPropertyMatchResponse[]>([]);
+
+  readonly propertyTypeOptions = PROPERTY_TYPE_OPTIONS;
+  readonly dpeClassOptions: readonly DpeClass[] = ["A", "B", "C", "D", "E", "F", "G"];
+  readonly amenityOptions =
+    PROPERTY_DETAILS_CATEGORIES.find((category) => category.id === "amenities")?.fields.filter(
+      (field) => field.type === "select",
+    ) ?? [];
 
   readonly form: UserFormGroup = this.formBuilder.nonNullable.group({
     firstName: [""],
@@ -78,6 +118,18 @@ export class UserDetailPageComponent implements OnInit {
     personalNotes: [""],
   });
 
+  readonly buyerSearchForm: BuyerSearchFormGroup = this.formBuilder.nonNullable.group({
+    budgetMin: [""],
+    budgetMax: [""],
+    cities: [""],
+    postalCodes: [""],
+    radiusKm: [""],
+    propertyType: [""],
+    minRooms: [""],
+    minLivingArea: [""],
+    maxDpeClass: [""],
+  });
+
   readonly linkedProperties = computed<AccountUserLinkedPropertyResponse[]>(() => {
     return this.user()?.linkedProperties ?? [];
   });
@@ -141,6 +193,10 @@ export class UserDetailPageComponent implements OnInit {
       this.user.set(user);
       this.patchForm(user);
       void this.loadUserVisits();
+      void this.loadUserThreads();
+      if (user.accountType === "CLIENT") {
+        void this.loadBuyerSearch();
+      }
     } catch (error) {
       const message = error instanceof Error ? error.message : "Chargement impossible.";
       this.error.set(message);
@@ -215,6 +271,80 @@ export class UserDetailPageComponent implements OnInit {
     }
   }
 
+  toggleAmenity(key: string, checked: boolean): void {
+    this.requiredAmenities.update((current) =>
+      checked ? [...new Set([...current, key])] : current.filter((item) => item !== key),
+    );
+  }
+
+  async saveBuyerSearch(): Promise<void> {
+    if (this.buyerSearchPending()) {
+      return;
+    }
+
+    const controls = this.buyerSearchForm.controls;
+    this.buyerSearchPending.set(true);
+    this.buyerSearchFeedback.set(null);
+
+    try {
+      const saved = await this.userService.saveBuyerSearch(this.userId, {
+        budgetMin: this.parseOptionalNumber(controls.budgetMin.value),
+        budgetMax: this.parseOptionalNumber(controls.budgetMax.value),
+        cities: this.splitList(controls.cities.value),
+        postalCodes: this.splitList(controls.postalCodes.value),
+        radiusKm: this.parseOptionalNumber(controls.radiusKm.value),
+        propertyType: (controls.propertyType.value || null) as ComparablePropertyType | null,
+        minRooms: this.parseOptionalNumber(controls.minRooms.value),
+        minLivingArea: this.parseOptionalNumber(controls.minLivingArea.value),
+        requiredAmenities: this.requiredAmenities(),
+        maxDpeClass: (controls.maxDpeClass.value || null) as DpeClass | null,
+      });
+      this.patchBuyerSearchForm(saved);
+      this.propertyMatches.set((await this.userService.listPropertyMatches(this.userId)).items);
+      this.buyerSearchFeedback.set("Recherche enregistrée, rapprochement mis à jour.");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Enregistrement de la recherche impossible.";
+      this.buyerSearchFeedback.set(message);
+    } finally {
+      this.buyerSearchPending.set(false);
+    }
+  }
+
+  async deleteBuyerSearch(): Promise<void> {
+    if (this.buyerSearchPending() || !this.buyerSearch()) {
+      return;
+    }
+
+    this.buyerSearchPending.set(true);
+    this.buyerSearchFeedback.set(null);
+
+    try {
+      await this.userService.deleteBuyerSearch(this.userId);
+      this.patchBuyerSearchForm(null);
+      this.propertyMatches.set([]);
+      this.buyerSearchFeedback.set("Recherche supprimée.");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Suppression de la recherche impossible.";
+      this.buyerSearchFeedback.set(message);
+    } finally {
+      this.buyerSearchPending.set(false);
+    }
+  }
+
+  criterionLabel(criterion: BuyerMatchCriterion): string {
+    return BUYER_MATCH_CRITERION_LABELS[criterion];
+  }
+
+  formatPrice(value: number | null): string {
+    return value === null
+      ? "Prix non renseigné"
+      : new Intl.NumberFormat("fr-FR", {
+          style: "currency",
+          currency: "EUR",
+          maximumFractionDigits: 0,
+        }).format(value);
+  }
+
   displayValue(value: string | null): string {
     return value && value.trim() ? value : "Non renseigné";
   }
@@ -299,11 +429,74 @@ export class UserDetailPageComponent implements OnInit {
     });
   }
 
+  private patchBuyerSearchForm(search: BuyerSearchResponse | null): void {
+    this.buyerSearch.set(search);
+    this.requiredAmenities.set(search?.requiredAmenities ?? []);
+    this.buyerSearchForm.setValue({
+      budgetMin: search?.budgetMin?.toString() ?? "",
+      budgetMax: search?.budgetMax?.toString() ?? "",
+      cities: search?.cities.join(", ") ?? "",
+      postalCodes: search?.postalCodes.join(", ") ?? "",
+      radiusKm: search?.radiusKm?.toString() ?? "",
+      propertyType: search?.propertyType ?? "",
+      minRooms: search?.minRooms?.toString() ?? "",
+      minLivingArea: search?.minLivingArea?.toString() ?? "",
+      maxDpeClass: search?.maxDpeClass ?? "",
+    });
+  }
+
+  private parseOptionalNumber(value: string): number | null {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    const parsed = Number(trimmed.replace(",", "."));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+
+  private splitList(value: string): string[] {
+    return value
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
   private normalizeEmptyAsNull(value: string): string | null {
     const trimmed = value.trim();
     return trimmed ? trimmed : null;
   }
 
+  private async loadBuyerSearch(): Promise<void> {
+    try {
+      const [search, matches] = await Promise.all([
+        this.userService.getBuyerSearch(this.userId).catch(() => null),
+        this.userService.listPropertyMatches(this.userId),
+      ]);
+      this.patchBuyerSearchForm(search);
+      this.propertyMatches.set(matches.items);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Chargement de la recherche impossible.";
+      this.buyerSearchFeedback.set(message);
+    }
+  }
+
+  private async loadUserThreads(): Promise<void> {
+    this.threadsLoading.set(true);
+    this.threadsError.set(null);
+
+    try {
+      const response = await this.messageService.listThreads({ userId: this.userId, limit: 50 });
+      this.userThreads.set(response.items);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Chargement de la correspondance impossible.";
+      this.threadsError.set(message);
+      this.userThreads.set([]);
+    } finally {
+      this.threadsLoading.set(false);
+    }
+  }
+
   private async loadUserVisits(): Promise<void> {
     this.visitsLoading.set(true);
     this.visitsError.set(null);
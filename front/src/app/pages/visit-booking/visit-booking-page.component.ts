@@ -0,0 +1,173 @@
+import { CommonModule } from "@angular/common";
+import { ChangeDetectionStrategy, Component, OnInit, computed, inject, signal } from "@angular/core";
+import { FormBuilder, ReactiveFormsModule, Validators } from "@angular/forms";
+import { ActivatedRoute } from "@angular/router";
+
+import type {
+  PublicVisitBookingPageResponse,
+  PublicVisitBookingResponse,
+  PublicVisitBookingSlot,
+} from "../../core/api.models";
+import { VisitBookingService } from "../../services/visit-booking.service";
+
+const VISIT_TIME_ZONE = "Europe/Paris";
+
+interface SlotDay {
+  label: string;
+  slots: PublicVisitBookingSlot[];
+}
+
+@Component({
+  selector: "app-visit-booking-page",
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: "./visit-booking-page.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class VisitBookingPageComponent implements OnInit {
+  private readonly route = inject(ActivatedRoute);
+  private readonly formBuilder = inject(FormBuilder);
+  private readonly visitBookingService = inject(VisitBookingService);
+
+  readonly loading = signal(true);
+  readonly error = signal<string | null>(null);
+  readonly page = signal<PublicVisitBookingPageResponse | null>(null);
+  readonly selectedSlot = signal<PublicVisitBookingSlot | null>(null);
+  readonly pending = signal(false);
+  readonly feedback = signal<string | null>(null);
+  readonly booking = signal<PublicVisitBookingResponse | null>(null);
+
+  readonly form = this.formBuilder.nonNullable.group({
+    firstName: ["", [Validators.required]],
+    lastName: ["", [Validators.required]],
+    email: ["", [Validators.required, Validators.email]],
+    phone: [""],
+  });
+
+  readonly slotDays = computed<SlotDay[]>(() => {
+    const days: SlotDay[] = [];
+    for (const slot of this.page()?.slots ?? []) {
+      const label = this.formatDay(slot.startsAt);
+      const current = days.at(-1);
+      if (current?.label === label) {
+        current.slots.push(slot);
+      } else {
+        days.push({ label, slots: [slot] });
+      }
+    }
+
+    return days;
+  });
+
+  readonly submitLabel = computed(() => {
+    if (this.pending()) {
+      return "Réservation...";
+    }
+
+    return this.page()?.requiresConfirmation ? "Demander cette visite" : "Réserver cette visite";
+  });
+
+  private token = "";
+
+  ngOnInit(): void {
+    void this.loadPage();
+  }
+
+  selectSlot(slot: PublicVisitBookingSlot): void {
+    this.selectedSlot.set(slot);
+    this.feedback.set(null);
+  }
+
+  isSelected(slot: PublicVisitBookingSlot): boolean {
+    return this.selectedSlot()?.startsAt === slot.startsAt;
+  }
+
+  async submit(): Promise<void> {
+    if (this.pending()) {
+      return;
+    }
+
+    const slot = this.selectedSlot();
+    if (!slot) {
+      this.feedback.set("Choisissez un créneau.");
+      return;
+    }
+
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      this.feedback.set("Renseignez votre nom, prénom et un email valide.");
+      return;
+    }
+
+    const value = this.form.getRawValue();
+    this.pending.set(true);
+    this.feedback.set(null);
+
+    try {
+      const booking = await this.visitBookingService.book(this.token, {
+        firstName: value.firstName.trim(),
+        lastName: value.lastName.trim(),
+        email: value.email.trim(),
+        phone: value.phone.trim() || null,
+        startsAt: slot.startsAt,
+      });
+      this.booking.set(booking);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Réservation impossible.";
+      this.feedback.set(message);
+      // Le créneau a pu être pris entre-temps: on rafraîchit la liste.
+      this.selectedSlot.set(null);
+      await this.loadPage();
+    } finally {
+      this.pending.set(false);
+    }
+  }
+
+  formatPrice(value: number | null): string {
+    return value === null
+      ? "Prix sur demande"
+      : new Intl.NumberFormat("fr-FR", {
+          style: "currency",
+          currency: "EUR",
+          maximumFractionDigits: 0,
+        }).format(value);
+  }
+
+  formatDay(value: string): string {
+    return new Intl.DateTimeFormat("fr-FR", {
+      timeZone: VISIT_TIME_ZONE,
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+    }).format(new Date(value));
+  }
+
+  formatTime(value: string): string {
+    return new Intl.DateTimeFormat("fr-FR", {
+      timeZone: VISIT_TIME_ZONE,
+      hour: "2-digit",
+      minute: "2-digit",
+    }).format(new Date(value));
+  }
+
+  private async loadPage(): Promise<void> {
+    const token = this.route.snapshot.paramMap.get("token");
+    if (!token) {
+      this.error.set("Lien de réservation invalide.");
+      this.loading.set(false);
+      return;
+    }
+
+    this.token = token;
+    this.loading.set(true);
+
+    try {
+      this.page.set(await this.visitBookingService.getPage(token));
+      this.error.set(null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Lien de réservation introuvable.";
+      this.error.set(message);
+    } finally {
+      this.loading.set(false);
+    }
+  }
+}
@@ -1,14 +1,34 @@
 import { CommonModule } from "@angular/common";
-import { ChangeDetectionStrategy, Component, OnInit, computed, inject, signal } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  ElementRef,
+  OnInit,
+  ViewChild,
+  computed,
+  inject,
+  signal,
+} from "@angular/core";
+import { AbstractControl, FormBuilder, FormGroup, ReactiveFormsModule } from "@angular/forms";
 import { ActivatedRoute, RouterLink } from "@angular/router";
 
-import type { VocalResponse, VocalType } from "../../core/api.models";
+import type {
+  ObjectDataFieldDefinition,
+  PropertyProspectResponse,
+  VocalProposedChange,
+  VocalProposedChangesResponse,
+  VocalResponse,
+  VocalSpeaker,
+  VocalTranscriptSegment,
+  VocalType,
+} from "../../core/api.models";
 import { FileService } from "../../services/file.service";
+import { PropertyService } from "../../services/property.service";
 import { VocalService } from "../../services/vocal.service";
 
 @Component({
   selector: "app-vocal-detail-page",
-  imports: [CommonModule, RouterLink],
+  imports: [CommonModule, ReactiveFormsModule, RouterLink],
   templateUrl: "./vocal-detail-page.component.html",
   changeDetection: ChangeDetectionStrategy.OnPush,
 })
@@ -16,13 +36,25 @@ export class VocalDetailPageComponent implements OnInit {
   private readonly route = inject(ActivatedRoute);
   private readonly vocalService = inject(VocalService);
   private readonly fileService = inject(FileService);
+  private readonly propertyService = inject(PropertyService);
+  private readonly formBuilder = inject(FormBuilder);
 
   readonly loading = signal(true);
   readonly retrying = signal(false);
+  readonly savingInsights = signal(false);
+  readonly matchingProspect = signal(false);
+  readonly applyingChangeKey = signal<string | null>(null);
   readonly error = signal<string | null>(null);
   readonly info = signal<string | null>(null);
   readonly vocal = signal<VocalResponse | null>(null);
   readonly audioUrl = signal<string | null>(null);
+  readonly insightFields = signal<ObjectDataFieldDefinition[]>([]);
+  readonly insightForm = new FormGroup<{ [key: string]: AbstractControl<string> }>({});
+  readonly prospects = signal<PropertyProspectResponse[]>([]);
+  readonly proposedChanges = signal<VocalProposedChangesResponse | null>(null);
+
+  @ViewChild("audioPlayer")
+  private audioPlayer?: ElementRef<HTMLAudioElement>;
 
   readonly canRetry = computed(() => {
     const vocal = this.vocal();
@@ -89,6 +121,207 @@ export class VocalDetailPageComponent implements OnInit {
     }
   }
 
+  fieldOptions(field: ObjectDataFieldDefinition): { value: string; label: string }[] {
+    if (field.type === "boolean") {
+      return [
+        { value: "true", label: "Oui" },
+        { value: "false", label: "Non" },
+      ];
+    }
+
+    return field.options ?? [];
+  }
+
+  async saveInsights(): Promise<void> {
+    const vocal = this.vocal();
+    if (!vocal || this.savingInsights()) {
+      return;
+    }
+
+    this.savingInsights.set(true);
+    this.error.set(null);
+    this.info.set(null);
+
+    const values = this.insightForm.getRawValue();
+    const insights: Record<string, unknown> = {};
+    for (const field of this.insightFields()) {
+      insights[field.key] = this.toInsightValue(field, values[field.key]);
+    }
+
+    try {
+      const updated = await this.vocalService.patch(vocal.id, { insights });
+      this.vocal.set(updated);
+      this.resetInsightForm(this.insightFields(), updated.insights ?? {});
+      await this.loadProposedChanges(updated);
+      this.info.set("Insights enregistrés.");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Enregistrement impossible.";
+      this.error.set(message);
+    } finally {
+      this.savingInsights.set(false);
+    }
+  }
+
+  async matchProspect(event: Event): Promise<void> {
+    const vocal = this.vocal();
+    if (!vocal || this.matchingProspect()) {
+      return;
+    }
+
+    const prospectUserId = (event.target as HTMLSelectElement).value || null;
+    this.matchingProspect.set(true);
+    this.error.set(null);
+    this.info.set(null);
+
+    try {
+      const updated = await this.vocalService.patch(vocal.id, { prospectUserId });
+      this.vocal.set(updated);
+      await this.loadProposedChanges(updated);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Rattachement impossible.";
+      this.error.set(message);
+    } finally {
+      this.matchingProspect.set(false);
+    }
+  }
+
+  async acceptChange(change: VocalProposedChange): Promise<void> {
+    const vocal = this.vocal();
+    if (!vocal || this.applyingChangeKey()) {
+      return;
+    }
+
+    this.applyingChangeKey.set(change.key);
+    this.error.set(null);
+    this.info.set(null);
+
+    try {
+      const proposals = await this.vocalService.applyProposedChanges(vocal.id, { keys: [change.key] });
+      this.proposedChanges.set(proposals);
+      this.info.set(`${change.name} mis à jour.`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Application impossible.";
+      this.error.set(message);
+    } finally {
+      this.applyingChangeKey.set(null);
+    }
+  }
+
+  speakerLabel(speaker: VocalSpeaker): string {
+    if (speaker === "UNKNOWN") {
+      return "Locuteur inconnu";
+    }
+
+    return speaker === "AGENT" ? "Agent" : "Interlocuteur";
+  }
+
+  formatTimestamp(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = String(totalSeconds % 60).padStart(2, "0");
+    return hours > 0
+      ? `${hours}:${String(minutes).padStart(2, "0")}:${seconds}`
+      : `${String(minutes).padStart(2, "0")}:${seconds}`;
+  }
+
+  playSegment(segment: VocalTranscriptSegment): void {
+    const player = this.audioPlayer?.nativeElement;
+    if (!player) {
+      return;
+    }
+
+    player.currentTime = segment.startMs / 1000;
+    void player.play().catch(() => undefined);
+  }
+
+  formatChangeValue(change: VocalProposedChange, value: unknown): string {
+    if (value === null || value === undefined || value === "") {
+      return "—";
+    }
+
+    if (typeof value === "boolean") {
+      return value ? "Oui" : "Non";
+    }
+
+    const option = change.options?.find((item) => item.value === value);
+    if (option) {
+      return option.label;
+    }
+
+    if (typeof value === "number") {
+      return value.toLocaleString("fr-FR");
+    }
+
+    return typeof value === "string" ? value : JSON.stringify(value);
+  }
+
+  private async loadProposedChanges(vocal: VocalResponse): Promise<void> {
+    if (!vocal.propertyId) {
+      this.prospects.set([]);
+      this.proposedChanges.set(null);
+      return;
+    }
+
+    try {
+      const [proposals, prospects] = await Promise.all([
+        this.vocalService.getProposedChanges(vocal.id),
+        this.propertyService.listProspects(vocal.propertyId),
+      ]);
+      this.proposedChanges.set(proposals);
+      this.prospects.set(prospects.items.filter((item) => item.relationRole !== "OWNER"));
+    } catch {
+      this.prospects.set([]);
+      this.proposedChanges.set(null);
+    }
+  }
+
+  private toInsightValue(field: ObjectDataFieldDefinition, raw: unknown): unknown {
+    const value = String(raw ?? "").trim();
+    if (!value) {
+      return null;
+    }
+
+    switch (field.type) {
+      case "int":
+      case "float":
+        return Number(value.replace(",", "."));
+      case "boolean":
+        return value === "true";
+      default:
+        return value;
+    }
+  }
+
+  private async loadInsightSchema(vocal: VocalResponse): Promise<void> {
+    if (!vocal.vocalType || vocal.vocalType === "ERREUR_TRAITEMENT") {
+      this.resetInsightForm([], {});
+      return;
+    }
+
+    try {
+      const schema = await this.vocalService.getInsightSchema(vocal.vocalType);
+      this.resetInsightForm(schema.fields, vocal.insights ?? {});
+    } catch {
+      this.resetInsightForm([], {});
+    }
+  }
+
+  private resetInsightForm(fields: ObjectDataFieldDefinition[], insights: Record<string, unknown>): void {
+    for (const key of Object.keys(this.insightForm.controls)) {
+      this.insightForm.removeControl(key);
+    }
+
+    for (const field of fields) {
+      const value = insights[field.key];
+      this.insightForm.addControl(
+        field.key,
+        this.formBuilder.nonNullable.control(value === null || value === undefined ? "" : String(value)),
+      );
+    }
+    this.insightFields.set(fields);
+  }
+
   private async loadVocal(): Promise<void> {
     const vocalId = this.route.snapshot.paramMap.get("id");
     if (!vocalId) {
@@ -103,6 +336,8 @@ export class VocalDetailPageComponent implements OnInit {
     try {
       const vocal = await this.vocalService.getById(vocalId);
       this.vocal.set(vocal);
+      await this.loadInsightSchema(vocal);
+      await this.loadProposedChanges(vocal);
 
       try {
         const download = await this.fileService.getDownloadUrl(vocal.fileId);
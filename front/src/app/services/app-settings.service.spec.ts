@@ -21,6 +21,7 @@ describe("AppSettingsService", () => {
                 return Promise.resolve({
                   notaryFeePct: 7.4,
                   aiProvider: "openai",
+                  transcriptionProvider: "whisper-local",
                   valuationAiOutputFormat: defaultFormat,
                   assistantSoul: "Soul test",
                 });
@@ -29,6 +30,7 @@ describe("AppSettingsService", () => {
                 return Promise.resolve({
                   notaryFeePct: 6.9,
                   aiProvider: "openai",
+                  transcriptionProvider: "whisper-local",
                   valuationAiOutputFormat: defaultFormat,
                   assistantSoul: "Soul test",
                 });
@@ -43,11 +45,13 @@ describe("AppSettingsService", () => {
     const service = TestBed.inject(AppSettingsService);
     expect(service.notaryFeePct()).toBe(DEFAULT_NOTARY_FEE_PCT);
     expect(service.aiProvider()).toBe("openai");
+    expect(service.transcriptionProvider()).toBe("ai-provider");
     expect(service.valuationAiOutputFormat()).toBe("");
     expect(service.assistantSoul().length).toBeGreaterThan(0);
     await service.refresh();
     expect(service.notaryFeePct()).toBe(7.4);
     expect(service.aiProvider()).toBe("openai");
+    expect(service.transcriptionProvider()).toBe("whisper-local");
     expect(service.valuationAiOutputFormat()).toBe(defaultFormat);
     expect(service.assistantSoul()).toBe("Soul test");
 
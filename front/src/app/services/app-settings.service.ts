@@ -4,11 +4,13 @@ import type {
   AiProvider,
   AppSettingsPatchRequest,
   AppSettingsResponse,
+  TranscriptionProvider,
 } from "../core/api.models";
 import { ApiClientService } from "../core/api-client.service";
 
 const DEFAULT_NOTARY_FEE_PCT = 8;
 const DEFAULT_AI_PROVIDER: AiProvider = "openai";
+const DEFAULT_TRANSCRIPTION_PROVIDER: TranscriptionProvider = "ai-provider";
 const MIN_NOTARY_FEE_PCT = 0;
 const MAX_NOTARY_FEE_PCT = 100;
 const DEFAULT_ASSISTANT_SOUL =
@@ -20,6 +22,7 @@ export class AppSettingsService {
 
   readonly notaryFeePct = signal<number>(DEFAULT_NOTARY_FEE_PCT);
   readonly aiProvider = signal<AiProvider>(DEFAULT_AI_PROVIDER);
+  readonly transcriptionProvider = signal<TranscriptionProvider>(DEFAULT_TRANSCRIPTION_PROVIDER);
   readonly valuationAiOutputFormat = signal<string>("");
   readonly assistantSoul = signal<string>(DEFAULT_ASSISTANT_SOUL);
   readonly loaded = signal(false);
@@ -38,6 +41,7 @@ export class AppSettingsService {
       return {
         notaryFeePct: this.notaryFeePct(),
         aiProvider: this.aiProvider(),
+        transcriptionProvider: this.transcriptionProvider(),
         valuationAiOutputFormat: this.valuationAiOutputFormat(),
         assistantSoul: this.assistantSoul(),
       };
@@ -54,6 +58,9 @@ export class AppSettingsService {
     if (typeof input.aiProvider === "string") {
       payload.aiProvider = this.normalizeAiProvider(input.aiProvider);
     }
+    if (typeof input.transcriptionProvider === "string") {
+      payload.transcriptionProvider = this.normalizeTranscriptionProvider(input.transcriptionProvider);
+    }
     if (typeof input.valuationAiOutputFormat !== "undefined") {
       payload.valuationAiOutputFormat = this.normalizeValuationAiOutputFormatInput(
         input.valuationAiOutputFormat,
@@ -98,6 +105,7 @@ export class AppSettingsService {
     return {
       notaryFeePct: this.normalizeNotaryFeePct(response.notaryFeePct),
       aiProvider: this.normalizeAiProvider(response.aiProvider),
+      transcriptionProvider: this.normalizeTranscriptionProvider(response.transcriptionProvider),
       valuationAiOutputFormat: this.normalizeValuationAiOutputFormatResponse(
         response.valuationAiOutputFormat,
       ),
@@ -108,18 +116,27 @@ export class AppSettingsService {
   private applySettings(response: AppSettingsResponse): void {
     this.notaryFeePct.set(response.notaryFeePct);
     this.aiProvider.set(response.aiProvider);
+    this.transcriptionProvider.set(response.transcriptionProvider);
     this.valuationAiOutputFormat.set(response.valuationAiOutputFormat);
     this.assistantSoul.set(response.assistantSoul);
   }
 
   private normalizeAiProvider(value: unknown): AiProvider {
-    if (value === "anthropic") {
-      return "anthropic";
+    if (value === "anthropic" || value === "local") {
+      return value;
     }
 
     return DEFAULT_AI_PROVIDER;
   }
 
+  private normalizeTranscriptionProvider(value: unknown): TranscriptionProvider {
+    if (value === "whisper-local") {
+      return "whisper-local";
+    }
+
+    return DEFAULT_TRANSCRIPTION_PROVIDER;
+  }
+
   private normalizeValuationAiOutputFormatResponse(value: unknown): string {
     if (typeof value !== "string") {
       return this.valuationAiOutputFormat();
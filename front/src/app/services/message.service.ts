@@ -1,6 +1,16 @@
 import { inject, Injectable } from "@angular/core";
 
-import type { MessageListResponse } from "../core/api.models";
+import type {
+  MessageComposeRequest,
+  MessageListResponse,
+  MessageReplyDraftResponse,
+  MessageReplyRequest,
+  MessageResponse,
+  MessageSenderContactRequest,
+  MessageSenderContactResponse,
+  MessageThreadListResponse,
+  MessageThreadResponse,
+} from "../core/api.models";
 import { ApiClientService } from "../core/api-client.service";
 
 @Injectable({ providedIn: "root" })
@@ -15,4 +25,63 @@ export class MessageService {
       },
     });
   }
+
+  listByThread(threadId: string, limit = 100): Promise<MessageListResponse> {
+    return this.api.request<MessageListResponse>("GET", "/messages", {
+      params: {
+        threadId,
+        limit,
+      },
+    });
+  }
+
+  listThreads(params: {
+    propertyId?: string;
+    userId?: string;
+    limit?: number;
+  }): Promise<MessageThreadListResponse> {
+    return this.api.request<MessageThreadListResponse>("GET", "/message-threads", {
+      params: {
+        ...params,
+        limit: params.limit ?? 50,
+      },
+    });
+  }
+
+  summarizeThread(id: string): Promise<MessageThreadResponse> {
+    return this.api.request<MessageThreadResponse>(
+      "POST",
+      `/message-threads/${encodeURIComponent(id)}/summarize`,
+    );
+  }
+
+  compose(payload: MessageComposeRequest): Promise<MessageResponse> {
+    return this.api.request<MessageResponse>("POST", "/messages", { body: payload });
+  }
+
+  reply(id: string, payload: MessageReplyRequest): Promise<MessageResponse> {
+    return this.api.request<MessageResponse>(
+      "POST",
+      `/messages/${encodeURIComponent(id)}/reply`,
+      { body: payload },
+    );
+  }
+
+  assignSenderContact(
+    id: string,
+    payload: MessageSenderContactRequest,
+  ): Promise<MessageSenderContactResponse> {
+    return this.api.request<MessageSenderContactResponse>(
+      "POST",
+      `/messages/${encodeURIComponent(id)}/sender-contact`,
+      { body: payload },
+    );
+  }
+
+  suggestReply(id: string): Promise<MessageReplyDraftResponse> {
+    return this.api.request<MessageReplyDraftResponse>(
+      "POST",
+      `/messages/${encodeURIComponent(id)}/suggest-reply`,
+    );
+  }
 }
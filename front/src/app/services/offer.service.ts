@@ -0,0 +1,60 @@
+import { inject, Injectable } from "@angular/core";
+
+import type {
+  OfferCounterRequest,
+  OfferCreateRequest,
+  OfferListResponse,
+  OfferResponse,
+  OfferStatus,
+} from "../core/api.models";
+import { ApiClientService } from "../core/api-client.service";
+
+@Injectable({ providedIn: "root" })
+export class OfferService {
+  private readonly api = inject(ApiClientService);
+
+  list(
+    filters: { propertyId?: string; buyerUserId?: string; status?: OfferStatus } = {},
+    limit = 100,
+  ): Promise<OfferListResponse> {
+    const normalizedLimit = Number.isFinite(limit) ? Math.trunc(limit) : 100;
+    const safeLimit = Math.min(100, Math.max(1, normalizedLimit || 100));
+
+    return this.api.request<OfferListResponse>("GET", "/offers", {
+      params: {
+        limit: safeLimit,
+        propertyId: filters.propertyId,
+        buyerUserId: filters.buyerUserId,
+        status: filters.status,
+      },
+    });
+  }
+
+  getById(id: string): Promise<OfferResponse> {
+    return this.api.request<OfferResponse>("GET", `/offers/${encodeURIComponent(id)}`);
+  }
+
+  create(payload: OfferCreateRequest): Promise<OfferResponse> {
+    return this.api.request<OfferResponse>("POST", "/offers", {
+      body: payload,
+    });
+  }
+
+  counter(id: string, payload: OfferCounterRequest): Promise<OfferResponse> {
+    return this.api.request<OfferResponse>("POST", `/offers/${encodeURIComponent(id)}/counter`, {
+      body: payload,
+    });
+  }
+
+  accept(id: string, signedFileId: string): Promise<OfferResponse> {
+    return this.api.request<OfferResponse>("POST", `/offers/${encodeURIComponent(id)}/accept`, {
+      body: { signedFileId },
+    });
+  }
+
+  reject(id: string, note?: string | null): Promise<OfferResponse> {
+    return this.api.request<OfferResponse>("POST", `/offers/${encodeURIComponent(id)}/reject`, {
+      body: { note: note ?? null },
+    });
+  }
+}
@@ -3,6 +3,7 @@ import { ApiClientService } from "../core/api-client.service";
 import { FileService } from "./file.service";
 import { MessageService } from "./message.service";
 import { UserService } from "./user.service";
+import { VisitBookingService } from "./visit-booking.service";
 import { VocalService } from "./vocal.service";
 
 describe("service API wrappers", () => {
@@ -40,6 +41,18 @@ describe("service API wrappers", () => {
     });
     await fileService.getDownloadUrl("file:1");
     await messageService.listByProperty("property:1");
+    await messageService.compose({
+      to: ["client@example.com"],
+      subject: "Visite",
+      body: "Bonjour",
+      propertyId: "property_1",
+    });
+    await messageService.reply("message:1", { body: "Merci" });
+    await messageService.listByThread("thread:1");
+    await messageService.listThreads({ propertyId: "property_1" });
+    await messageService.summarizeThread("thread:1");
+    await messageService.assignSenderContact("message:1", { userId: "user_1" });
+    await messageService.suggestReply("message:1");
     await vocalService.list();
     await vocalService.upload({
       fileName: "vocal.m4a",
@@ -49,6 +62,10 @@ describe("service API wrappers", () => {
       propertyId: "property_1",
     });
     await vocalService.getById("vocal:1");
+    await vocalService.patch("vocal:1", { insights: { budget: 300000 } });
+    await vocalService.getInsightSchema("VISITE_SUIVI");
+    await vocalService.getProposedChanges("vocal:1");
+    await vocalService.applyProposedChanges("vocal:1", { keys: ["budget"] });
     await vocalService.enqueueTranscription("vocal:1");
 
     expect(calls).toEqual([
@@ -68,6 +85,24 @@ describe("service API wrappers", () => {
       ],
       ["GET", "/files/file%3A1/download-url"],
       ["GET", "/messages", { params: { propertyId: "property:1", limit: 100 } }],
+      [
+        "POST",
+        "/messages",
+        {
+          body: {
+            to: ["client@example.com"],
+            subject: "Visite",
+            body: "Bonjour",
+            propertyId: "property_1",
+          },
+        },
+      ],
+      ["POST", "/messages/message%3A1/reply", { body: { body: "Merci" } }],
+      ["GET", "/messages", { params: { threadId: "thread:1", limit: 100 } }],
+      ["GET", "/message-threads", { params: { propertyId: "property_1", limit: 50 } }],
+      ["POST", "/message-threads/thread%3A1/summarize"],
+      ["POST", "/messages/message%3A1/sender-contact", { body: { userId: "user_1" } }],
+      ["POST", "/messages/message%3A1/suggest-reply"],
       ["GET", "/vocals", { params: { limit: 100 } }],
       [
         "POST",
@@ -83,6 +118,10 @@ describe("service API wrappers", () => {
         },
       ],
       ["GET", "/vocals/vocal%3A1"],
+      ["PATCH", "/vocals/vocal%3A1", { body: { insights: { budget: 300000 } } }],
+      ["GET", "/vocals/insight-schemas/VISITE_SUIVI"],
+      ["GET", "/vocals/vocal%3A1/proposed-changes"],
+      ["POST", "/vocals/vocal%3A1/proposed-changes/apply", { body: { keys: ["budget"] } }],
       ["POST", "/vocals/vocal%3A1/transcribe"],
     ]);
   });
@@ -141,4 +180,50 @@ describe("service API wrappers", () => {
       ["PATCH", "/users/user%3A1", { body: { city: "Paris" } }],
     ]);
   });
+
+  it("visit booking appelle les routes publiques sans authentification", async () => {
+    const calls: unknown[][] = [];
+
+    TestBed.configureTestingModule({
+      providers: [
+        VisitBookingService,
+        {
+          provide: ApiClientService,
+          useValue: {
+            request: (...args: unknown[]) => {
+              calls.push(args);
+              return Promise.resolve({});
+            },
+          },
+        },
+      ],
+    });
+
+    const visitBookingService = TestBed.inject(VisitBookingService);
+
+    await visitBookingService.getPage("jeton/1");
+    await visitBookingService.book("jeton/1", {
+      firstName: "Nina",
+      lastName: "Prospect",
+      email: "nina@demo.fr",
+      startsAt: "2026-03-02T09:00:00.000Z",
+    });
+
+    expect(calls).toEqual([
+      ["GET", "/public/visit-booking/jeton%2F1", { auth: false }],
+      [
+        "POST",
+        "/public/visit-booking/jeton%2F1",
+        {
+          auth: false,
+          body: {
+            firstName: "Nina",
+            lastName: "Prospect",
+            email: "nina@demo.fr",
+            startsAt: "2026-03-02T09:00:00.000Z",
+          },
+        },
+      ],
+    ]);
+  });
 });
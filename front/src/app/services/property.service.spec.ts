@@ -90,6 +90,9 @@ describe("PropertyService", () => {
     await service.listProspects("property:1");
     await service.addProspect("property:1", { userId: "user_1" });
     await service.listVisits("property:1");
+    await service.listVisitSlots("property:1", { days: 3 });
+    await service.getBookingLink("property:1");
+    await service.upsertBookingLink("property:1", { requiresConfirmation: true });
     await service.addVisit("property:1", {
       prospectUserId: "user_2",
       startsAt: "2026-02-01T10:00:00.000Z",
@@ -100,6 +103,16 @@ describe("PropertyService", () => {
       compteRendu: "RAS",
       bonDeVisiteFileId: "file_1",
     });
+    await service.signBonDeVisite("visit:1", {
+      width: 400,
+      height: 160,
+      strokes: [[{ x: 10, y: 20 }]],
+    });
+    await service.getVisitFeedback("visit:1");
+    await service.saveVisitFeedback("visit:1", { interestLevel: "HIGH", positives: ["Vue"] });
+    await service.extractVisitFeedback("visit:1", "vocal_1");
+    await service.generateSellerReport("property:1");
+    await service.sendSellerReport("property:1", "file_1");
     await service.getRisks("property:1");
     await service.runValuationAnalysis("property:1", {
       comparableFilters: {
@@ -183,6 +196,9 @@ describe("PropertyService", () => {
         },
       ],
       ["GET", "/properties/property%3A1/visits"],
+      ["GET", "/properties/property%3A1/visit-slots", { params: { days: 3 } }],
+      ["GET", "/properties/property%3A1/booking-link"],
+      ["PUT", "/properties/property%3A1/booking-link", { body: { requiresConfirmation: true } }],
       [
         "POST",
         "/properties/property%3A1/visits",
@@ -200,6 +216,20 @@ describe("PropertyService", () => {
         "/visits/visit%3A1",
         { body: { compteRendu: "RAS", bonDeVisiteFileId: "file_1" } },
       ],
+      [
+        "POST",
+        "/visits/visit%3A1/bon-de-visite/sign",
+        { body: { width: 400, height: 160, strokes: [[{ x: 10, y: 20 }]] } },
+      ],
+      ["GET", "/visits/visit%3A1/feedback"],
+      [
+        "PUT",
+        "/visits/visit%3A1/feedback",
+        { body: { interestLevel: "HIGH", positives: ["Vue"] } },
+      ],
+      ["POST", "/visits/visit%3A1/feedback/extract", { body: { vocalId: "vocal_1" } }],
+      ["POST", "/properties/property%3A1/seller-reports", { body: {} }],
+      ["POST", "/properties/property%3A1/seller-reports/file_1/send"],
       ["GET", "/properties/property%3A1/risks"],
       [
         "POST",
@@ -3,6 +3,7 @@ import { inject, Injectable } from "@angular/core";
 import type {
   AccountUserCreateRequest,
   AccountUserResponse,
+  BonDeVisiteSignRequest,
   PropertyCreateRequest,
   PropertyListResponse,
   PropertyParticipantCreateRequest,
@@ -20,6 +21,15 @@ import type {
   PropertyVisitListResponse,
   PropertyVisitPatchRequest,
   PropertyVisitResponse,
+  VisitSlotListResponse,
+  VisitFeedbackExtractResponse,
+  VisitFeedbackResponse,
+  VisitFeedbackUpsertRequest,
+  SellerReportCreateRequest,
+  SellerReportResponse,
+  MessageResponse,
+  PropertyBookingLinkResponse,
+  PropertyBookingLinkUpsertRequest,
   CalendarAppointmentCreateRequest,
   CalendarAppointmentListResponse,
   CalendarAppointmentResponse,
@@ -27,6 +37,15 @@ import type {
   RdvResponse,
   PropertyResponse,
   PropertyStatus,
+  PropertyDocumentChecklistResponse,
+  BuyerAlertSendRequest,
+  BuyerAlertSendResponse,
+  PropertyBuyerMatchListResponse,
+  PropertyCommissionResponse,
+  PropertyCommissionUpsertRequest,
+  ClosingTrackerResponse,
+  StatusWorkflowResponse,
+  StatusWorkflowUpdateRequest,
   ComparablePropertyType,
   AssistantObjectType,
   ObjectDataStructureResponse,
@@ -90,16 +109,83 @@ export class PropertyService {
     });
   }
 
-  updateStatus(id: string, status: PropertyStatus): Promise<PropertyResponse> {
+  updateStatus(
+    id: string,
+    status: PropertyStatus,
+    options: { force?: boolean } = {},
+  ): Promise<PropertyResponse> {
     return this.api.request<PropertyResponse>(
       "PATCH",
       `/properties/${encodeURIComponent(id)}/status`,
       {
-        body: { status },
+        body: options.force ? { status, force: true } : { status },
       },
     );
   }
 
+  getStatusWorkflow(): Promise<StatusWorkflowResponse> {
+    return this.api.request<StatusWorkflowResponse>("GET", "/me/settings/status-workflow");
+  }
+
+  updateStatusWorkflow(payload: StatusWorkflowUpdateRequest): Promise<StatusWorkflowResponse> {
+    return this.api.request<StatusWorkflowResponse>("PUT", "/me/settings/status-workflow", {
+      body: payload,
+    });
+  }
+
+  getDocumentChecklist(
+    id: string,
+    status?: PropertyStatus,
+  ): Promise<PropertyDocumentChecklistResponse> {
+    return this.api.request<PropertyDocumentChecklistResponse>(
+      "GET",
+      `/properties/${encodeURIComponent(id)}/document-checklist`,
+      {
+        params: { status },
+      },
+    );
+  }
+
+  getClosingTracker(id: string): Promise<ClosingTrackerResponse> {
+    return this.api.request<ClosingTrackerResponse>(
+      "GET",
+      `/properties/${encodeURIComponent(id)}/closing-tracker`,
+    );
+  }
+
+  getCommission(id: string): Promise<PropertyCommissionResponse> {
+    return this.api.request<PropertyCommissionResponse>(
+      "GET",
+      `/properties/${encodeURIComponent(id)}/commission`,
+    );
+  }
+
+  updateCommission(
+    id: string,
+    payload: PropertyCommissionUpsertRequest,
+  ): Promise<PropertyCommissionResponse> {
+    return this.api.request<PropertyCommissionResponse>(
+      "PUT",
+      `/properties/${encodeURIComponent(id)}/commission`,
+      { body: payload },
+    );
+  }
+
+  listBuyerMatches(id: string): Promise<PropertyBuyerMatchListResponse> {
+    return this.api.request<PropertyBuyerMatchListResponse>(
+      "GET",
+      `/properties/${encodeURIComponent(id)}/buyer-matches`,
+    );
+  }
+
+  sendBuyerAlerts(id: string, payload: BuyerAlertSendRequest = {}): Promise<BuyerAlertSendResponse> {
+    return this.api.request<BuyerAlertSendResponse>(
+      "POST",
+      `/properties/${encodeURIComponent(id)}/buyer-alerts`,
+      { body: payload },
+    );
+  }
+
   addParticipant(
     propertyId: string,
     payload: PropertyParticipantCreateRequest,
@@ -196,6 +282,41 @@ export class PropertyService {
     );
   }
 
+  listVisitSlots(
+    propertyId: string,
+    params: {
+      from?: string;
+      days?: number;
+      durationMinutes?: number;
+      agentUserId?: string;
+      limit?: number;
+    } = {},
+  ): Promise<VisitSlotListResponse> {
+    return this.api.request<VisitSlotListResponse>(
+      "GET",
+      `/properties/${encodeURIComponent(propertyId)}/visit-slots`,
+      { params },
+    );
+  }
+
+  getBookingLink(propertyId: string): Promise<PropertyBookingLinkResponse> {
+    return this.api.request<PropertyBookingLinkResponse>(
+      "GET",
+      `/properties/${encodeURIComponent(propertyId)}/booking-link`,
+    );
+  }
+
+  upsertBookingLink(
+    propertyId: string,
+    payload: PropertyBookingLinkUpsertRequest,
+  ): Promise<PropertyBookingLinkResponse> {
+    return this.api.request<PropertyBookingLinkResponse>(
+      "PUT",
+      `/properties/${encodeURIComponent(propertyId)}/booking-link`,
+      { body: payload },
+    );
+  }
+
   addVisit(
     propertyId: string,
     payload: PropertyVisitCreateRequest,
@@ -222,6 +343,59 @@ export class PropertyService {
     });
   }
 
+  downloadBonDeVisitePreview(visitId: string): Promise<Blob> {
+    return this.api.download(`/visits/${encodeURIComponent(visitId)}/bon-de-visite`);
+  }
+
+  signBonDeVisite(visitId: string, payload: BonDeVisiteSignRequest): Promise<PropertyVisitResponse> {
+    return this.api.request<PropertyVisitResponse>(
+      "POST",
+      `/visits/${encodeURIComponent(visitId)}/bon-de-visite/sign`,
+      { body: payload },
+    );
+  }
+
+  getVisitFeedback(visitId: string): Promise<VisitFeedbackResponse> {
+    return this.api.request<VisitFeedbackResponse>("GET", `/visits/${encodeURIComponent(visitId)}/feedback`);
+  }
+
+  saveVisitFeedback(
+    visitId: string,
+    payload: VisitFeedbackUpsertRequest,
+  ): Promise<VisitFeedbackResponse> {
+    return this.api.request<VisitFeedbackResponse>(
+      "PUT",
+      `/visits/${encodeURIComponent(visitId)}/feedback`,
+      { body: payload },
+    );
+  }
+
+  extractVisitFeedback(visitId: string, vocalId: string): Promise<VisitFeedbackExtractResponse> {
+    return this.api.request<VisitFeedbackExtractResponse>(
+      "POST",
+      `/visits/${encodeURIComponent(visitId)}/feedback/extract`,
+      { body: { vocalId } },
+    );
+  }
+
+  generateSellerReport(
+    propertyId: string,
+    payload: SellerReportCreateRequest = {},
+  ): Promise<SellerReportResponse> {
+    return this.api.request<SellerReportResponse>(
+      "POST",
+      `/properties/${encodeURIComponent(propertyId)}/seller-reports`,
+      { body: payload },
+    );
+  }
+
+  sendSellerReport(propertyId: string, fileId: string): Promise<MessageResponse> {
+    return this.api.request<MessageResponse>(
+      "POST",
+      `/properties/${encodeURIComponent(propertyId)}/seller-reports/${encodeURIComponent(fileId)}/send`,
+    );
+  }
+
   getRisks(propertyId: string): Promise<PropertyRiskResponse> {
     return this.api.request<PropertyRiskResponse>(
       "GET",
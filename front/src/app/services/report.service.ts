@@ -0,0 +1,34 @@
+import { inject, Injectable } from "@angular/core";
+
+import type {
+  PipelineReportFilters,
+  PipelineReportResponse,
+  RevenueReportResponse,
+} from "../core/api.models";
+import { ApiClientService } from "../core/api-client.service";
+
+@Injectable({ providedIn: "root" })
+export class ReportService {
+  private readonly api = inject(ApiClientService);
+
+  revenue(filters: { from?: string; to?: string } = {}): Promise<RevenueReportResponse> {
+    return this.api.request<RevenueReportResponse>("GET", "/reports/revenue", {
+      params: {
+        from: filters.from,
+        to: filters.to,
+      },
+    });
+  }
+
+  pipeline(filters: PipelineReportFilters = {}): Promise<PipelineReportResponse> {
+    return this.api.request<PipelineReportResponse>("GET", "/reports/pipeline", {
+      params: { ...filters },
+    });
+  }
+
+  exportPipelineCsv(filters: PipelineReportFilters = {}): Promise<Blob> {
+    return this.api.download("/reports/pipeline/export", {
+      params: { ...filters, format: "csv" },
+    });
+  }
+}
@@ -0,0 +1,49 @@
+import { inject, Injectable } from "@angular/core";
+
+import type {
+  TaskCreateRequest,
+  TaskListResponse,
+  TaskPatchRequest,
+  TaskResponse,
+  TaskStatus,
+} from "../core/api.models";
+import { ApiClientService } from "../core/api-client.service";
+
+@Injectable({ providedIn: "root" })
+export class TaskService {
+  private readonly api = inject(ApiClientService);
+
+  list(
+    filters: { propertyId?: string; assigneeUserId?: string; status?: TaskStatus; query?: string } = {},
+    limit = 100,
+  ): Promise<TaskListResponse> {
+    const normalizedLimit = Number.isFinite(limit) ? Math.trunc(limit) : 100;
+    const safeLimit = Math.min(100, Math.max(1, normalizedLimit || 100));
+
+    return this.api.request<TaskListResponse>("GET", "/tasks", {
+      params: {
+        limit: safeLimit,
+        propertyId: filters.propertyId,
+        assigneeUserId: filters.assigneeUserId,
+        status: filters.status,
+        q: filters.query,
+      },
+    });
+  }
+
+  getById(id: string): Promise<TaskResponse> {
+    return this.api.request<TaskResponse>("GET", `/tasks/${encodeURIComponent(id)}`);
+  }
+
+  create(payload: TaskCreateRequest): Promise<TaskResponse> {
+    return this.api.request<TaskResponse>("POST", "/tasks", {
+      body: payload,
+    });
+  }
+
+  patch(id: string, payload: TaskPatchRequest): Promise<TaskResponse> {
+    return this.api.request<TaskResponse>("PATCH", `/tasks/${encodeURIComponent(id)}`, {
+      body: payload,
+    });
+  }
+}
@@ -6,6 +6,9 @@ import type {
   AccountUserListResponse,
   AccountUserPatchRequest,
   AccountUserDetailResponse,
+  BuyerSearchResponse,
+  BuyerSearchUpsertRequest,
+  UserPropertyMatchListResponse,
 } from "../core/api.models";
 import { ApiClientService } from "../core/api-client.service";
 
@@ -44,4 +47,30 @@ export class UserService {
       },
     );
   }
+
+  getBuyerSearch(id: string): Promise<BuyerSearchResponse> {
+    return this.api.request<BuyerSearchResponse>(
+      "GET",
+      `/users/${encodeURIComponent(id)}/buyer-search`,
+    );
+  }
+
+  saveBuyerSearch(id: string, payload: BuyerSearchUpsertRequest): Promise<BuyerSearchResponse> {
+    return this.api.request<BuyerSearchResponse>(
+      "PUT",
+      `/users/${encodeURIComponent(id)}/buyer-search`,
+      { body: payload },
+    );
+  }
+
+  deleteBuyerSearch(id: string): Promise<void> {
+    return this.api.request<void>("DELETE", `/users/${encodeURIComponent(id)}/buyer-search`);
+  }
+
+  listPropertyMatches(id: string): Promise<UserPropertyMatchListResponse> {
+    return this.api.request<UserPropertyMatchListResponse>(
+      "GET",
+      `/users/${encodeURIComponent(id)}/property-matches`,
+    );
+  }
 }
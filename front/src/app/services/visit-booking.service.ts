@@ -0,0 +1,30 @@
+import { inject, Injectable } from "@angular/core";
+
+import type {
+  PublicVisitBookingPageResponse,
+  PublicVisitBookingRequest,
+  PublicVisitBookingResponse,
+} from "../core/api.models";
+import { ApiClientService } from "../core/api-client.service";
+
+// Page publique: aucun jeton de session, le lien de réservation suffit.
+@Injectable({ providedIn: "root" })
+export class VisitBookingService {
+  private readonly api = inject(ApiClientService);
+
+  getPage(token: string): Promise<PublicVisitBookingPageResponse> {
+    return this.api.request<PublicVisitBookingPageResponse>(
+      "GET",
+      `/public/visit-booking/${encodeURIComponent(token)}`,
+      { auth: false },
+    );
+  }
+
+  book(token: string, payload: PublicVisitBookingRequest): Promise<PublicVisitBookingResponse> {
+    return this.api.request<PublicVisitBookingResponse>(
+      "POST",
+      `/public/visit-booking/${encodeURIComponent(token)}`,
+      { auth: false, body: payload },
+    );
+  }
+}
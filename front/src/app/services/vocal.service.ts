@@ -1,6 +1,16 @@
 import { inject, Injectable } from "@angular/core";
 
-import type { RunAIResponse, VocalListResponse, VocalResponse, VocalUploadRequest } from "../core/api.models";
+import type {
+  RunAIResponse,
+  VocalInsightSchemaResponse,
+  VocalListResponse,
+  VocalProposedChangesApplyRequest,
+  VocalProposedChangesResponse,
+  VocalResponse,
+  VocalType,
+  VocalUpdateRequest,
+  VocalUploadRequest,
+} from "../core/api.models";
 import { ApiClientService } from "../core/api-client.service";
 
 @Injectable({ providedIn: "root" })
@@ -23,6 +33,37 @@ export class VocalService {
     return this.api.request<VocalResponse>("GET", `/vocals/${encodeURIComponent(vocalId)}`);
   }
 
+  patch(vocalId: string, payload: VocalUpdateRequest): Promise<VocalResponse> {
+    return this.api.request<VocalResponse>("PATCH", `/vocals/${encodeURIComponent(vocalId)}`, {
+      body: payload,
+    });
+  }
+
+  getInsightSchema(vocalType: VocalType): Promise<VocalInsightSchemaResponse> {
+    return this.api.request<VocalInsightSchemaResponse>(
+      "GET",
+      `/vocals/insight-schemas/${encodeURIComponent(vocalType)}`,
+    );
+  }
+
+  getProposedChanges(vocalId: string): Promise<VocalProposedChangesResponse> {
+    return this.api.request<VocalProposedChangesResponse>(
+      "GET",
+      `/vocals/${encodeURIComponent(vocalId)}/proposed-changes`,
+    );
+  }
+
+  applyProposedChanges(
+    vocalId: string,
+    payload: VocalProposedChangesApplyRequest,
+  ): Promise<VocalProposedChangesResponse> {
+    return this.api.request<VocalProposedChangesResponse>(
+      "POST",
+      `/vocals/${encodeURIComponent(vocalId)}/proposed-changes/apply`,
+      { body: payload },
+    );
+  }
+
   enqueueTranscription(vocalId: string): Promise<RunAIResponse> {
     return this.api.request<RunAIResponse>(
       "POST",